@@ -24,6 +24,12 @@ const STAGEWISE_AGENT_INSTRUCTIONS =
   'tool or ask the structured question in plain text. This tool is never ' +
   'used for command or tool approval: invoke the command or tool directly ' +
   'and let the host show its approval UI.\n' +
+  'To inspect the pages the user works on in the Stagewise browser, use ' +
+  '`stagewise_read_console_logs`, `stagewise_read_network_requests`, ' +
+  '`stagewise_take_screenshot`, ' +
+  '`stagewise_get_selected_elements` and `stagewise_execute_sandbox_js` ' +
+  '(CDP access via `API.sendCDP`). Tab IDs are in the browser information ' +
+  'of the stagewise context.\n' +
   '</stagewise-agent-instructions>';
 
 export async function buildAcpPrompt(
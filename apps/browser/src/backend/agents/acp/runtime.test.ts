@@ -59,6 +59,11 @@ type RuntimeInternals = {
     input: unknown,
     signal?: AbortSignal,
   ): Promise<unknown>;
+  handleStagewiseMcpCall(
+    tool: string,
+    input: unknown,
+    signal?: AbortSignal,
+  ): Promise<unknown>;
   handlePermission(
     request: RequestPermissionRequest,
   ): Promise<RequestPermissionResponse>;
@@ -107,6 +112,7 @@ function createRuntime(
   ) => 'codex' | 'stagewise' = () => 'codex',
   agentDirectory = '/agent',
   recordApprovalExplanation = vi.fn(),
+  browserTools = vi.fn(),
 ) {
   const messages: Array<AgentMessage & { role: 'assistant' }> = [];
   const context = {
@@ -130,6 +136,7 @@ function createRuntime(
     '/stagewise-mcp-server.mjs',
     classifyCommand,
     recordApprovalExplanation,
+    browserTools,
   );
   Object.assign(runtime, {
     stopped: false,
@@ -142,6 +149,7 @@ function createRuntime(
     context,
     writeAttachment,
     recordApprovalExplanation,
+    browserTools,
   };
 }
 
@@ -1066,6 +1074,121 @@ describe('AcpAgentRuntime translation', () => {
     await active;
   });
 
+  it('forwards Stagewise browser tool calls to the browser tools', async () => {
+    const { runtime, browserTools } = createRuntime();
+    browserTools.mockResolvedValue({
+      content: [{ type: 'text', text: '{"logs":[]}' }],
+    });
+    const input = { id: 't_1' };
+
+    await expect(
+      runtime.handleStagewiseMcpCall('stagewise_read_console_logs', input),
+    ).resolves.toEqual({ content: [{ type: 'text', text: '{"logs":[]}' }] });
+    expect(browserTools).toHaveBeenCalledWith(
+      'stagewise_read_console_logs',
+      input,
+      undefined,
+    );
+
+    runtime.stopped = true;
+    await expect(
+      runtime.handleStagewiseMcpCall('stagewise_take_screenshot', input),
+    ).rejects.toThrow('Agent is no longer running');
+  });
+
+  it('auto-approves Stagewise browser tools like the native agent', async () => {
+    const { runtime, context } = createRuntime();
+    runtime.sessionId = 'session-1';
+
+    await expect(
+      runtime.handlePermission({
+        sessionId: 'session-1',
+        toolCall: {
+          toolCallId: 'sandbox-1',
+          title: 'mcp__stagewise__stagewise_execute_sandbox_js',
+          kind: 'other',
+          status: 'pending',
+          rawInput: { script: 'return 1;' },
+          _meta: {
+            claudeCode: {
+              toolName: 'mcp__stagewise__stagewise_execute_sandbox_js',
+            },
+          },
+        },
+        options: permissionOptions,
+      }),
+    ).resolves.toEqual({
+      outcome: { outcome: 'selected', optionId: 'allow' },
+    });
+    expect(context.notifyApprovalRequested).not.toHaveBeenCalled();
+  });
+
+  it('does not auto-approve tools that only mention a browser tool', async () => {
+    const { runtime, context } = createRuntime();
+    runtime.sessionId = 'session-1';
+    runtime.approvalMode = 'alwaysAsk';
+
+    const permission = runtime.handlePermission({
+      sessionId: 'session-1',
+      toolCall: {
+        toolCallId: 'command-1',
+        title: 'rm -rf x # stagewise_take_screenshot',
+        kind: 'execute',
+        status: 'pending',
+        rawInput: { command: 'rm -rf x # stagewise_take_screenshot' },
+        _meta: {
+          claudeCode: { toolName: 'Bash_stagewise_take_screenshot' },
+        },
+      },
+      options: permissionOptions,
+    });
+    expect(context.notifyApprovalRequested).toHaveBeenCalledWith(
+      'command-1',
+      'Bash_stagewise_take_screenshot',
+    );
+    await runtime.respondToApproval({
+      type: 'tool-approval-response',
+      approvalId: 'command-1',
+      approved: false,
+    });
+    await expect(permission).resolves.toEqual({
+      outcome: { outcome: 'selected', optionId: 'reject' },
+    });
+  });
+
+  it('does not auto-approve shell commands whose input names a browser tool', async () => {
+    const { runtime, context } = createRuntime();
+    runtime.sessionId = 'session-1';
+    runtime.approvalMode = 'alwaysAsk';
+
+    const permission = runtime.handlePermission({
+      sessionId: 'session-1',
+      toolCall: {
+        toolCallId: 'command-2',
+        title: 'Run script',
+        kind: 'execute',
+        status: 'pending',
+        rawInput: {
+          command: 'rm -rf x',
+          tool: 'stagewise_take_screenshot',
+        },
+      },
+      options: permissionOptions,
+    });
+    expect(context.notifyApprovalRequested).toHaveBeenCalledWith(
+      'command-2',
+      expect.any(String),
+    );
+    await runtime.respondToApproval({
+      type: 'tool-approval-response',
+      approvalId: 'command-2',
+      approved: false,
+    });
+    await expect(permission).resolves.toEqual({
+      outcome: { outcome: 'selected', optionId: 'reject' },
+    });
+  });
+
   it('uses Stagewise smart approval for ACP shell commands', async () => {
     const classifyCommand = vi.fn().mockResolvedValue({
       needsApproval: false,
@@ -31,6 +31,7 @@ import { buildAcpPrompt, MAX_INLINE_IMAGE_BYTES } from './prompt-builder';
 import {
   commandFromTool,
   isHiddenTool,
+  isStagewiseBrowserTool,
   isWorkspaceEdit,
   mapToolParts,
   primaryMountPrefix,
@@ -44,6 +45,11 @@ import {
   type StagewiseInputResult,
 } from './form-lifecycle';
 import { StagewiseMcpBridge } from './stagewise-mcp-bridge';
+import type { StagewiseBrowserTools } from './stagewise-browser-tools';
+import type {
+  StagewiseMcpToolName,
+  StagewiseMcpToolResult,
+} from './stagewise-mcp-tools';
 
 type JsonObject = Record<string, unknown>;
 type AssistantMessage = AgentMessage & { role: 'assistant' };
@@ -122,6 +128,7 @@ export class AcpAgentRuntime implements ExternalAgentRuntime {
     stagewiseMcpScriptPath: string,
     private readonly classifyCommand?: ClassifyCommand,
     private readonly recordApprovalExplanation?: RecordApprovalExplanation,
+    private readonly browserTools?: StagewiseBrowserTools,
   ) {
     this.sessionFilePath = nodePath.join(agentDirectory, 'acp-session.json');
     this.forms = new StagewiseFormLifecycle(
@@ -131,7 +138,7 @@ export class AcpAgentRuntime implements ExternalAgentRuntime {
     );
     this.stagewiseMcp = new StagewiseMcpBridge(
       stagewiseMcpScriptPath,
-      (input, signal) => this.handleStagewiseToolRequest(input, signal),
+      (tool, input, signal) => this.handleStagewiseMcpCall(tool, input, signal),
       logger,
     );
   }
@@ -588,6 +595,7 @@ export class AcpAgentRuntime implements ExternalAgentRuntime {
     if (hidden) this.removeToolParts(tool.toolCallId);
     if (
       hidden ||
+      isStagewiseBrowserTool(tool) ||
       isWorkspaceEdit(tool, this.context.getMountedPaths()) ||
       this.approvalMode === 'alwaysAllow'
     ) {
@@ -633,6 +641,25 @@ export class AcpAgentRuntime implements ExternalAgentRuntime {
     });
   }
 
+  private async handleStagewiseMcpCall(
+    tool: StagewiseMcpToolName,
+    input: unknown,
+    signal?: AbortSignal,
+  ): Promise<StagewiseMcpToolResult> {
+    if (tool === 'stagewise_request_user_input') {
+      const result = await this.handleStagewiseToolRequest(input, signal);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        structuredContent: result as unknown as Record<string, unknown>,
+      };
+    }
+    if (this.stopped) throw new Error('Agent is no longer running');
+    if (!this.browserTools) {
+      throw new Error('Browser tools are not available.');
+    }
+    return this.browserTools(tool, input, signal);
+  }
+
   private handleStagewiseToolRequest(
     input: unknown,
     signal?: AbortSignal,
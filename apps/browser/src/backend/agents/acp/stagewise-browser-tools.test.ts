@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SelectedElement } from '@shared/selected-elements';
+import {
+  createStagewiseBrowserTools,
+  type StagewiseBrowserToolsDeps,
+} from './stagewise-browser-tools';
+
+function createDeps(
+  overrides: Partial<StagewiseBrowserToolsDeps> = {},
+): StagewiseBrowserToolsDeps {
+  return {
+    getTool: vi.fn().mockResolvedValue(null),
+    getScreenshot: vi.fn(),
+    getSelectedElements: () => [],
+    canAccessTab: () => true,
+    ...overrides,
+  };
+}
+
+describe('createStagewiseBrowserTools', () => {
+  it('runs console logs through the native tool of the agent', async () => {
+    const execute = vi.fn().mockResolvedValue({ message: 'No logs' });
+    const deps = createDeps({
+      getTool: vi.fn().mockResolvedValue({ execute }),
+    });
+    const tools = createStagewiseBrowserTools(deps, 'agent-1');
+
+    const result = await tools('stagewise_read_console_logs', { id: 't_1' });
+
+    expect(deps.getTool).toHaveBeenCalledWith('readConsoleLogs', 'agent-1');
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 't_1' }),
+      expect.objectContaining({ messages: [] }),
+    );
+    expect(result).toEqual({
+      content: [{ type: 'text', text: '{"message":"No logs"}' }],
+      structuredContent: { message: 'No logs' },
+    });
+  });
+
+  it('returns screenshots as images and surfaces capture errors', async () => {
+    const getScreenshot = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true, data: 'AAAA' })
+      .mockResolvedValueOnce({ success: false, error: 'Tab not found' });
+    const tools = createStagewiseBrowserTools(
+      createDeps({ getScreenshot }),
+      'agent-1',
+    );
+
+    await expect(
+      tools('stagewise_take_screenshot', { id: 't_1' }),
+    ).resolves.toEqual({
+      content: [{ type: 'image', data: 'AAAA', mimeType: 'image/png' }],
+    });
+    expect(getScreenshot).toHaveBeenCalledWith(
+      { tabId: 't_1', fullPage: undefined, format: 'png' },
+      'agent-1',
+    );
+    await expect(
+      tools('stagewise_take_screenshot', { id: 't_2' }),
+    ).rejects.toThrow('Tab not found');
+  });
+
+  it('only returns selected elements of tabs the agent can access', async () => {
+    const elements = [
+      { stagewiseId: 'a', tabId: 't_own' },
+      { stagewiseId: 'b', tabId: 't_other' },
+    ] as unknown as SelectedElement[];
+    const tools = createStagewiseBrowserTools(
+      createDeps({
+        getSelectedElements: () => elements,
+        canAccessTab: (tabId) => tabId === 't_own',
+      }),
+      'agent-1',
+    );
+
+    const result = await tools('stagewise_get_selected_elements', {});
+
+    expect(result.structuredContent).toMatchObject({
+      message: 'The user selected 1 element',
+      result: { result: [elements[0]] },
+    });
+  });
+});
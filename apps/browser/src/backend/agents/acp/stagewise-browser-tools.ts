@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import type { Tool } from 'ai';
+import type { SelectedElement } from '@shared/selected-elements';
+import type {
+  GetScreenshotOptions,
+  GetScreenshotResult,
+} from '@/services/dev-tool-api';
+import { capToolOutput } from '@/services/toolbox/utils';
+import {
+  STAGEWISE_MCP_TOOLS,
+  type StagewiseBrowserToolName,
+  type StagewiseMcpToolResult,
+} from './stagewise-mcp-tools';
+
+export interface StagewiseBrowserToolsDeps {
+  /** Native toolbox tool, scoped to the agent like for the native agent. */
+  getTool(toolName: string, agentInstanceId: string): Promise<Tool | null>;
+  getScreenshot(
+    options: GetScreenshotOptions,
+    agentInstanceId: string,
+  ): Promise<GetScreenshotResult>;
+  getSelectedElements(): SelectedElement[];
+  /** Whether the agent may access the tab (global or its own tab). */
+  canAccessTab(tabId: string, agentInstanceId: string): boolean;
+}
+
+export type StagewiseBrowserTools = (
+  tool: StagewiseBrowserToolName,
+  input: unknown,
+  signal?: AbortSignal,
+) => Promise<StagewiseMcpToolResult>;
+
+/** Native tools behind the stagewise MCP tools that wrap them. */
+const NATIVE_TOOL_NAMES = {
+  stagewise_read_console_logs: 'readConsoleLogs',
+  stagewise_read_network_requests: 'readNetworkRequests',
+  stagewise_execute_sandbox_js: 'executeSandboxJs',
+} as const;
+
+/**
+ * Browser tools of the stagewise MCP server for one ACP agent. Console
+ * logs, network requests and sandbox JS run through the native toolbox
+ * tools, so ACP agents see the same tabs and get the same output as the
+ * native agent.
+ */
+export function createStagewiseBrowserTools(
+  deps: StagewiseBrowserToolsDeps,
+  agentInstanceId: string,
+): StagewiseBrowserTools {
+  return async (tool, input, signal) => {
+    const parsed = STAGEWISE_MCP_TOOLS[tool].inputSchema.parse(input);
+    switch (tool) {
+      case 'stagewise_read_console_logs':
+      case 'stagewise_read_network_requests':
+      case 'stagewise_execute_sandbox_js': {
+        const nativeTool = await deps.getTool(
+          NATIVE_TOOL_NAMES[tool],
+          agentInstanceId,
+        );
+        if (!nativeTool?.execute) {
+          throw new Error(`${tool} is not available right now.`);
+        }
+        const output = await nativeTool.execute(parsed, {
+          toolCallId: `stagewise-mcp:${randomUUID()}`,
+          messages: [],
+          abortSignal: signal,
+        });
+        return jsonResult(output);
+      }
+      case 'stagewise_take_screenshot': {
+        const { id, fullPage } = parsed as { id: string; fullPage?: boolean };
+        const screenshot = await deps.getScreenshot(
+          { tabId: id, fullPage, format: 'png' },
+          agentInstanceId,
+        );
+        if (!screenshot.success || !screenshot.data) {
+          throw new Error(screenshot.error ?? 'Failed to take a screenshot.');
+        }
+        return {
+          content: [
+            { type: 'image', data: screenshot.data, mimeType: 'image/png' },
+          ],
+        };
+      }
+      case 'stagewise_get_selected_elements': {
+        const elements = deps
+          .getSelectedElements()
+          .filter(
+            (element) =>
+              !element.tabId ||
+              deps.canAccessTab(element.tabId, agentInstanceId),
+          );
+        return jsonResult({
+          message:
+            elements.length > 0
+              ? `The user selected ${elements.length} ${elements.length === 1 ? 'element' : 'elements'}`
+              : 'The user has not selected any elements',
+          result: capToolOutput(elements),
+        });
+      }
+    }
+  };
+}
+
+function jsonResult(output: unknown): StagewiseMcpToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(output) }],
+    ...(typeof output === 'object' && output !== null && !Array.isArray(output)
+      ? { structuredContent: output as Record<string, unknown> }
+      : {}),
+  };
+}
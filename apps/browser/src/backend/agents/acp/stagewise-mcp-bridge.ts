@@ -3,8 +3,14 @@ import { createServer, type IncomingMessage, type Server } from 'node:http';
 import type { AddressInfo } from 'node:net';
 import type { McpServer } from '@agentclientprotocol/sdk';
 import type { Logger } from '@/services/logger';
+import {
+  isStagewiseMcpToolName,
+  type StagewiseMcpToolName,
+} from './stagewise-mcp-tools';
 
 const MAX_REQUEST_BYTES = 256 * 1024;
+/** Calls of a tool are posted to `/tools/<tool name>`. */
+const TOOLS_PATH = '/tools';
 
 export class StagewiseMcpBridge {
   private server: Server | null = null;
@@ -14,6 +20,7 @@ export class StagewiseMcpBridge {
   public constructor(
     private readonly scriptPath: string,
     private readonly handleToolCall: (
+      tool: StagewiseMcpToolName,
       input: unknown,
       signal: AbortSignal,
     ) => Promise<unknown>,
@@ -58,7 +65,7 @@ export class StagewiseMcpBridge {
       env: [
         {
           name: 'STAGEWISE_MCP_CALLBACK_URL',
-          value: `http://127.0.0.1:${port}/tools/request-user-input`,
+          value: `http://127.0.0.1:${port}${TOOLS_PATH}`,
         },
         { name: 'STAGEWISE_MCP_CALLBACK_TOKEN', value: this.token },
       ],
@@ -78,9 +85,12 @@ export class StagewiseMcpBridge {
     request: IncomingMessage,
     signal: AbortSignal,
   ): Promise<unknown> {
+    const tool = request.url?.startsWith(`${TOOLS_PATH}/`)
+      ? request.url.slice(TOOLS_PATH.length + 1)
+      : '';
     if (
       request.method !== 'POST' ||
-      request.url !== '/tools/request-user-input' ||
+      !isStagewiseMcpToolName(tool) ||
       !matchesToken(request.headers.authorization, this.token)
     ) {
       throw new Error('Unauthorized Stagewise MCP callback');
@@ -94,6 +104,7 @@ export class StagewiseMcpBridge {
       chunks.push(buffer);
     }
     return this.handleToolCall(
+      tool,
       JSON.parse(Buffer.concat(chunks).toString('utf8')),
       signal,
     );
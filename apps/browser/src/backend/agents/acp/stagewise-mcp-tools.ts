@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { askUserQuestionsToolInputSchemaFlat } from '../../../shared/karton-contracts/ui/agent/tools/ask-user-questions';
+import {
+  executeSandboxJsToolInputSchema,
+  readConsoleLogsToolInputSchema,
+  readNetworkRequestsToolInputSchema,
+} from '../../../shared/karton-contracts/ui/agent/tools/types';
+
+/*
+ * Tools of the stagewise MCP server that ACP agents get in every session.
+ * The server script (`stagewise-mcp-server.ts`) registers them and forwards
+ * each call to the bridge at `<callback URL>/<tool name>`.
+ *
+ * NOTE: the server script is bundled on its own, so this module must only
+ * use relative imports of modules without node or electron dependencies.
+ */
+
+export const takeScreenshotToolInputSchema = z.object({
+  id: z
+    .string()
+    .describe(
+      'The tab ID to capture. Use a tab ID from the browser information in the stagewise context.',
+    ),
+  fullPage: z
+    .boolean()
+    .optional()
+    .describe('Capture the whole scrollable page instead of the viewport'),
+});
+export type TakeScreenshotToolInput = z.infer<
+  typeof takeScreenshotToolInputSchema
+>;
+
+export const getSelectedElementsToolInputSchema = z.object({});
+
+export const STAGEWISE_MCP_TOOLS = {
+  stagewise_request_user_input: {
+    title: 'Ask the user',
+    description:
+      'Show a native Stagewise form and wait for the response. Use this only for structured product questions, never for command or tool approval. Invoke commands and tools directly because the host owns their approval UI. Keep forms short and never call it concurrently.',
+    inputSchema: askUserQuestionsToolInputSchemaFlat,
+    readOnly: true,
+  },
+  stagewise_read_console_logs: {
+    title: 'Read console logs',
+    description:
+      'Read console logs of a Stagewise browser tab, most recent first. Logs are cleared when the tab navigates. Use `delayMs` to wait for logs of timers or animations you started with `stagewise_execute_sandbox_js`.',
+    inputSchema: readConsoleLogsToolInputSchema,
+    readOnly: true,
+  },
+  stagewise_read_network_requests: {
+    title: 'Read network requests',
+    description:
+      'Read network requests recorded in a Stagewise browser tab, most recent first, with status, timing and size. Filter with `failedOnly`, `filter`, `methods` or `resourceTypes`; pass a `requestId` to get headers and bodies of one request.',
+    inputSchema: readNetworkRequestsToolInputSchema,
+    readOnly: true,
+  },
+  stagewise_execute_sandbox_js: {
+    title: 'Run sandbox JavaScript',
+    description:
+      'Run JavaScript in your persistent, sandboxed Node.js VM. `await API.sendCDP(tabId, method, params)` sends Chrome DevTools Protocol commands to a Stagewise browser tab, e.g. `Runtime.evaluate` to inspect the page. Only global tabs and tabs opened for you are accessible. The value of the last expression and console output are returned.',
+    inputSchema: executeSandboxJsToolInputSchema,
+    readOnly: false,
+  },
+  stagewise_take_screenshot: {
+    title: 'Take a screenshot',
+    description:
+      'Capture a screenshot of a Stagewise browser tab as it is rendered for the user.',
+    inputSchema: takeScreenshotToolInputSchema,
+    readOnly: true,
+  },
+  stagewise_get_selected_elements: {
+    title: 'Get selected elements',
+    description:
+      'Get the DOM elements the user selected in the Stagewise browser, with their tab, XPath, attributes, text, computed styles and the source locations Stagewise resolved for them.',
+    inputSchema: getSelectedElementsToolInputSchema,
+    readOnly: true,
+  },
+} as const;
+
+export type StagewiseMcpToolName = keyof typeof STAGEWISE_MCP_TOOLS;
+
+/** Tools that reach into the browser, handled by the host's browser port. */
+export type StagewiseBrowserToolName = Exclude<
+  StagewiseMcpToolName,
+  'stagewise_request_user_input'
+>;
+
+export function isStagewiseMcpToolName(
+  name: string,
+): name is StagewiseMcpToolName {
+  return Object.hasOwn(STAGEWISE_MCP_TOOLS, name);
+}
+
+/** Result of a tool call, in the shape of an MCP `CallToolResult`. */
+export type StagewiseMcpToolResult = {
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+  >;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
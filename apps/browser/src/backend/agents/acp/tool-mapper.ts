@@ -4,8 +4,18 @@ import type {
   ToolCall,
   ToolCallUpdate,
 } from '@agentclientprotocol/sdk';
+import type { StagewiseBrowserToolName } from './stagewise-mcp-tools';
 
 type JsonObject = Record<string, unknown>;
+
+const STAGEWISE_BROWSER_TOOL_NAMES = [
+  'stagewise_read_console_logs',
+  'stagewise_read_network_requests',
+  'stagewise_execute_sandbox_js',
+  'stagewise_take_screenshot',
+  'stagewise_get_selected_elements',
+] as const satisfies readonly StagewiseBrowserToolName[];
+
 export type ToolState = ToolCall | ToolCallUpdate;
 
 interface MappedToolPart {
@@ -69,6 +79,28 @@ function isStagewiseUiTool(tool: ToolState): boolean {
   );
 }
 
+/**
+ * Browser tools of the stagewise MCP server. The native agent uses them
+ * without approval, so ACP permission requests for them are granted too.
+ * Only exact tool names count: titles are free text (shell calls are
+ * titled with their command), so matching them would grant any call that
+ * mentions a browser tool. An input that names a browser tool counts
+ * only when it names the stagewise server or the call is not a shell
+ * command, whose input is the agent's to shape.
+ */
+export function isStagewiseBrowserTool(tool: ToolState): boolean {
+  const name = toolName(tool);
+  const input = jsonObject(tool.rawInput);
+  return STAGEWISE_BROWSER_TOOL_NAMES.some(
+    (browserTool) =>
+      name === browserTool ||
+      name === `mcp__stagewise__${browserTool}` ||
+      (input.tool === browserTool &&
+        (input.server === 'stagewise' ||
+          (input.server === undefined && tool.kind !== 'execute'))),
+  );
+}
+
 export function isHiddenTool(
   tool: ToolState,
   hiddenToolNames: readonly string[] = [],
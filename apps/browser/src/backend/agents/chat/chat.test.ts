@@ -5,9 +5,9 @@ import { BrowserChatAgent } from './chat';
  * Smoke test for the browser-specific {@link BrowserChatAgent} subclass.
  *
  * Confirms that `getAdditionalTools` asks the toolbox for every browser
- * host tool (sandbox JS, shell, library docs, linting, console logs,
- * user questions) — i.e. the host-tool surface that was previously
- * hardcoded into agent-core's `ChatAgent.getTools`.
+ * host tool (sandbox JS, shell, library docs, chat history, linting,
+ * console logs, user questions, git, code navigation) — i.e. the host-tool surface that
+ * was previously hardcoded into agent-core's `ChatAgent.getTools`.
  *
  * Like the core-side test, we bypass `BaseAgent`'s heavy constructor by
  * stubbing the few fields `getAdditionalTools` actually touches
@@ -18,12 +18,24 @@ const HOST_TOOL_IDS = [
   'executeSandboxJs',
   'listLibraryDocs',
   'searchInLibraryDocs',
+  'searchChatHistory',
   'getLintingDiagnostics',
   'readConsoleLogs',
+  'readNetworkRequests',
   'askUserQuestions',
   'createShellSession',
   'createWatcherSession',
   'executeShellCommand',
+  'gitLog',
+  'gitBlame',
+  'gitStage',
+  'gitCommit',
+  'gitStash',
+  'goToDefinition',
+  'findReferences',
+  'searchWorkspaceSymbols',
+  'getHoverInfo',
+  'renameSymbol',
 ] as const;
 
 describe('BrowserChatAgent', () => {
@@ -5,9 +5,9 @@ import { ChatAgent, type BaseAgentConfig } from '@stagewise/agent-core/agents';
  *
  * Extends the host-agnostic {@link ChatAgent} from `@stagewise/agent-core`
  * by injecting the browser-specific tools (sandbox JS execution, shell,
- * library docs, linting, console logs, interactive user questions) on
- * top of the universal file-op baseline. Registered under
- * `AgentTypes.CHAT` in the browser's {@link AgentTypeRegistry}.
+ * library docs, chat history search, linting, console logs, interactive
+ * user questions) on top of the universal file-op baseline. Registered
+ * under `AgentTypes.CHAT` in the browser's {@link AgentTypeRegistry}.
  */
 export class BrowserChatAgent extends ChatAgent {
   public static readonly config = {
@@ -28,12 +28,24 @@ export class BrowserChatAgent extends ChatAgent {
       executeSandboxJs: await box.getTool('executeSandboxJs', id),
       listLibraryDocs: await box.getTool('listLibraryDocs', id),
       searchInLibraryDocs: await box.getTool('searchInLibraryDocs', id),
+      searchChatHistory: await box.getTool('searchChatHistory', id),
       getLintingDiagnostics: await box.getTool('getLintingDiagnostics', id),
       readConsoleLogs: await box.getTool('readConsoleLogs', id),
+      readNetworkRequests: await box.getTool('readNetworkRequests', id),
       askUserQuestions: await box.getTool('askUserQuestions', id),
       createShellSession: await box.getTool('createShellSession', id),
       createWatcherSession: await box.getTool('createWatcherSession', id),
       executeShellCommand: await box.getTool('executeShellCommand', id),
+      gitLog: await box.getTool('gitLog', id),
+      gitBlame: await box.getTool('gitBlame', id),
+      gitStage: await box.getTool('gitStage', id),
+      gitCommit: await box.getTool('gitCommit', id),
+      gitStash: await box.getTool('gitStash', id),
+      goToDefinition: await box.getTool('goToDefinition', id),
+      findReferences: await box.getTool('findReferences', id),
+      searchWorkspaceSymbols: await box.getTool('searchWorkspaceSymbols', id),
+      getHoverInfo: await box.getTool('getHoverInfo', id),
+      renameSymbol: await box.getTool('renameSymbol', id),
     };
   }
 }
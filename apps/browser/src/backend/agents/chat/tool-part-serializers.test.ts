@@ -210,6 +210,125 @@ describe('browserToolPartSerializers (via convertAgentMessagesToCompactMessageHi
     expect(result).toContain('[lint: w1/b.ts, w1/c.ts → 3 errors, 2 warnings]');
   });
 
+  it('git: shows commits, amends and stash actions', () => {
+    const messages: AgentMessage[] = [
+      {
+        id: 'msg-0',
+        role: 'user',
+        parts: [{ type: 'text', text: 'Commit it' }],
+        metadata: { createdAt: new Date(), partsMetadata: [] },
+      } as AgentMessage,
+      {
+        id: 'msg-1',
+        role: 'assistant',
+        parts: [
+          {
+            type: 'tool-gitCommit',
+            toolCallId: 'tc-commit',
+            state: 'output-available',
+            input: { mount: 'w1', turnEdits: true },
+            output: {
+              message: '',
+              sha: 'abc123def456',
+              subject: 'Fix <input> focus',
+              files: ['src/a.ts'],
+              toolCallIds: ['tc-edit'],
+            },
+          },
+          {
+            type: 'tool-gitCommit',
+            toolCallId: 'tc-amend',
+            state: 'input-available',
+            input: { mount: 'w1', amend: true },
+          },
+          {
+            type: 'tool-gitStash',
+            toolCallId: 'tc-stash',
+            state: 'output-available',
+            input: { mount: 'w1', action: 'push' },
+            output: { message: 'Saved working directory' },
+          },
+        ],
+        metadata: { createdAt: new Date(), partsMetadata: [] },
+      } as unknown as AgentMessage,
+    ];
+
+    const result = convertAgentMessagesToCompactMessageHistoryString(
+      messages,
+      browserHost,
+    );
+    expect(result).toContain(
+      '[git commit: abc123def456 Fix &lt;input&gt; focus]',
+    );
+    expect(result).toContain('[git amend: w1]');
+    expect(result).toContain('[git stash push: w1]');
+  });
+
+  it('code navigation: shows targets, result counts and renames', () => {
+    const messages: AgentMessage[] = [
+      {
+        id: 'msg-0',
+        role: 'user',
+        parts: [{ type: 'text', text: 'Rename getUser' }],
+        metadata: { createdAt: new Date(), partsMetadata: [] },
+      } as AgentMessage,
+      {
+        id: 'msg-1',
+        role: 'assistant',
+        parts: [
+          {
+            type: 'tool-goToDefinition',
+            toolCallId: 'tc-def',
+            state: 'output-available',
+            input: { path: 'w1/src/a.ts', line: 3, symbol: 'getUser' },
+            output: {
+              message: '',
+              definitions: [{ path: 'w1/src/user.ts', line: 12, column: 17 }],
+            },
+          },
+          {
+            type: 'tool-findReferences',
+            toolCallId: 'tc-refs',
+            state: 'output-available',
+            input: { path: 'w1/src/a.ts', line: 3, symbol: 'getUser' },
+            output: { message: '', references: [], totalCount: 7 },
+          },
+          {
+            type: 'tool-renameSymbol',
+            toolCallId: 'tc-rename',
+            state: 'output-available',
+            input: {
+              path: 'w1/src/a.ts',
+              line: 3,
+              symbol: 'getUser',
+              newName: 'fetchUser',
+            },
+            output: {
+              message: '',
+              files: [
+                { path: 'w1/src/a.ts', occurrences: 2 },
+                { path: 'w1/src/user.ts', occurrences: 1 },
+              ],
+            },
+          },
+        ],
+        metadata: { createdAt: new Date(), partsMetadata: [] },
+      } as unknown as AgentMessage,
+    ];
+
+    const result = convertAgentMessagesToCompactMessageHistoryString(
+      messages,
+      browserHost,
+    );
+    expect(result).toContain(
+      '[definition: getUser @ w1/src/a.ts:3 → w1/src/user.ts:12]',
+    );
+    expect(result).toContain(
+      '[references: getUser @ w1/src/a.ts:3 → 7 references]',
+    );
+    expect(result).toContain('[rename: getUser → fetchUser in 2 files]');
+  });
+
   it('serializes tool-listLibraryDocs as docs-search', () => {
     const messages: AgentMessage[] = [
       {
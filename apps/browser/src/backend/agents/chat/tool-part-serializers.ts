@@ -132,6 +132,82 @@ export const browserToolPartSerializers = defineToolPartSerializers(
     searchInLibraryDocs: ({ input, err }) =>
       `[docs-read: ${esc(input.libraryId)} → ${esc(input.topic)}${err ?? ''}]`,
 
+    searchChatHistory: ({ input, output, err }) => {
+      if (err) return `[chat-search: ${esc(input.query)}${err}]`;
+      if (output) {
+        return `[chat-search: ${esc(input.query)} → ${output.results.length} hits]`;
+      }
+      return `[chat-search: ${esc(input.query)}]`;
+    },
+
+    gitLog: ({ input, output, err }) => {
+      if (err) return `[git log: ${esc(input.path)}${err}]`;
+      if (output) {
+        return `[git log: ${esc(input.path)} → ${output.commits.length} commits]`;
+      }
+      return `[git log: ${esc(input.path)}]`;
+    },
+
+    gitBlame: ({ input, err }) => `[git blame: ${esc(input.path)}${err ?? ''}]`,
+
+    gitStage: ({ input, err }) => {
+      const target = esc(
+        [...(input.paths ?? []), ...(input.patch ? ['patch'] : [])].join(', '),
+      );
+      return `[git ${input.unstage ? 'unstage' : 'stage'}: ${target}${err ?? ''}]`;
+    },
+
+    gitCommit: ({ input, output, err }) => {
+      const label = input.amend ? 'git amend' : 'git commit';
+      if (err) return `[${label}: ${esc(input.mount)}${err}]`;
+      if (output) {
+        return `[${label}: ${esc(output.sha)} ${esc(output.subject)}]`;
+      }
+      return `[${label}: ${esc(input.mount)}]`;
+    },
+
+    gitStash: ({ input, err }) =>
+      `[git stash ${esc(input.action)}: ${esc(input.mount)}${err ?? ''}]`,
+
+    goToDefinition: ({ input, output, err }) => {
+      const target = `${esc(input.symbol)} @ ${esc(input.path)}:${input.line}`;
+      if (err) return `[definition: ${target}${err}]`;
+      const [first] = output?.definitions ?? [];
+      if (first) {
+        return `[definition: ${target} → ${esc(first.path)}:${first.line}]`;
+      }
+      return `[definition: ${target}]`;
+    },
+
+    findReferences: ({ input, output, err }) => {
+      const target = `${esc(input.symbol)} @ ${esc(input.path)}:${input.line}`;
+      if (err) return `[references: ${target}${err}]`;
+      if (output) {
+        return `[references: ${target} → ${output.totalCount} references]`;
+      }
+      return `[references: ${target}]`;
+    },
+
+    searchWorkspaceSymbols: ({ input, output, err }) => {
+      if (err) return `[symbol-search: ${esc(input.query)}${err}]`;
+      if (output) {
+        return `[symbol-search: ${esc(input.query)} → ${output.symbols.length} symbols]`;
+      }
+      return `[symbol-search: ${esc(input.query)}]`;
+    },
+
+    getHoverInfo: ({ input, err }) =>
+      `[hover: ${esc(input.symbol)} @ ${esc(input.path)}:${input.line}${err ?? ''}]`,
+
+    renameSymbol: ({ input, output, err }) => {
+      const label = `${esc(input.symbol)} → ${esc(input.newName)}`;
+      if (err) return `[rename: ${label}${err}]`;
+      if (output) {
+        return `[rename: ${label} in ${output.files.length} files]`;
+      }
+      return `[rename: ${label}]`;
+    },
+
     askUserQuestions: ({ input, output, err }) => {
       if (err) return `[asked user: ${esc(input.title ?? 'form')}${err}]`;
       if (output) {
@@ -14,7 +14,7 @@ import {
   type ProviderMode,
 } from './reasoning-signatures';
 import { getSemanticProviderForApiSpec } from '@shared/api-spec-provider';
-import type { LanguageModelV3 } from '@ai-sdk/provider';
+import type { EmbeddingModelV3, LanguageModelV3 } from '@ai-sdk/provider';
 import {
   type availableModels,
   getAvailableModel,
@@ -111,6 +111,8 @@ export type ModelWithOptions = {
    * `tools.0.custom.strict: Extra inputs are not permitted`.
    */
   stripStrictFromTools?: boolean;
+  /** List price per million tokens, used for currency budgets. */
+  pricing?: { inputPerMillion: number; outputPerMillion: number };
 };
 
 /**
@@ -504,6 +506,25 @@ export class ModelProviderService {
     }
   }
 
+  /**
+   * Get an embedding model from a provider instance. Returns `undefined`
+   * when the instance is gone or its type cannot create embedding models.
+   */
+  public getEmbeddingModel(
+    providerInstanceId: string,
+    modelId: string,
+  ): EmbeddingModelV3 | undefined {
+    const instance = this.preferencesService
+      .get()
+      .providerInstances.find((i) => i.id === providerInstanceId);
+    if (!instance) return undefined;
+    const type = getProviderType(instance.typeId);
+    return type.createEmbeddingModel?.({
+      modelId,
+      baseURL: ModelProviderService.resolveInstanceBaseURL(instance, type),
+    });
+  }
+
   private createModelWithOptions(
     modelId: ModelId,
     traceId: string,
@@ -827,6 +848,14 @@ export class ModelProviderService {
         : {}),
       reasoningSignatureSource,
       ...(type.stripStrictFromTools ? { stripStrictFromTools: true } : {}),
+      ...(modelSettings.pricing
+        ? {
+            pricing: {
+              inputPerMillion: modelSettings.pricing.inputPerMillion,
+              outputPerMillion: modelSettings.pricing.outputPerMillion,
+            },
+          }
+        : {}),
     };
   }
 
@@ -1085,6 +1114,7 @@ export class ModelProviderService {
       providerType: instance.typeId,
       reasoningSignatureSource,
       ...(type.stripStrictFromTools ? { stripStrictFromTools: true } : {}),
+      ...(discovered.pricing ? { pricing: discovered.pricing } : {}),
     };
   }
 }
@@ -1,4 +1,4 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider';
+import type { EmbeddingModelV3, LanguageModelV3 } from '@ai-sdk/provider';
 import type { ModelCapabilities } from '@stagewise/agent-core/types';
 import type {
   ApiSpec,
@@ -6,7 +6,7 @@ import type {
 } from '@shared/karton-contracts/ui/shared-types';
 import { PROVIDER_TYPE_DISPLAY_INFO } from '@shared/karton-contracts/ui/shared-types';
 import type { ProviderType } from './types';
-import { createOpenAIChatModel } from './shared';
+import { createOpenAIChatModel, createOpenAIEmbeddingModel } from './shared';
 import { mapWithBoundedConcurrency } from './bounded-concurrency';
 
 // ============================================================================
@@ -90,6 +90,19 @@ export const ollamaProviderType: ProviderType<OllamaConfig> = {
     ) as LanguageModelV3;
     return { model };
   },
+
+  createEmbeddingModel({ modelId, baseURL }) {
+    const rootBaseUrl = normalizeOllamaRootUrl(
+      baseURL ??
+        PROVIDER_TYPE_DISPLAY_INFO.ollama.defaultBaseUrl ??
+        'http://localhost:11434',
+    );
+    return createOpenAIEmbeddingModel(
+      'ollama',
+      `${rootBaseUrl}/v1`,
+      modelId,
+    ) as EmbeddingModelV3;
+  },
 };
 
 // ============================================================================
@@ -1,4 +1,4 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider';
+import type { EmbeddingModelV3, LanguageModelV3 } from '@ai-sdk/provider';
 import type { LanguageModelMiddleware } from 'ai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
@@ -91,6 +91,15 @@ export function createOpenAIResponsesModel(
   return p.responses(modelId as never);
 }
 
+export function createOpenAIEmbeddingModel(
+  apiKey: string,
+  baseURL: string | undefined,
+  modelId: string,
+): EmbeddingModelV3 {
+  const p = createOpenAI({ apiKey, baseURL });
+  return p.embedding(modelId);
+}
+
 export function createGoogleModel(
   apiKey: string,
   baseURL: string | undefined,
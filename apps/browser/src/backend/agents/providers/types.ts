@@ -1,4 +1,4 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider';
+import type { EmbeddingModelV3, LanguageModelV3 } from '@ai-sdk/provider';
 import type { LanguageModelMiddleware } from 'ai';
 import type {
   ApiSpec,
@@ -145,4 +145,14 @@ export interface ProviderType<C = Record<string, unknown>> {
     model: LanguageModelV3;
     middleware?: LanguageModelMiddleware[];
   };
+
+  /**
+   * Create an AI-SDK embedding model for chat history search. Only
+   * self-hosted types implement this, so history never leaves the
+   * machine to be embedded.
+   */
+  createEmbeddingModel?(args: {
+    modelId: string;
+    baseURL?: string;
+  }): EmbeddingModelV3;
 }
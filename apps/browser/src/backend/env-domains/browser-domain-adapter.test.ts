@@ -91,6 +91,46 @@ describe('createBrowserDomainAdapter', () => {
     expect(diff).toContain('active-tab-changed');
   });
 
+  it('reports newly failed network requests of a tab', () => {
+    const adapter = createBrowserDomainAdapter({
+      karton: makeKarton({
+        tabs: {
+          a: {
+            id: 'a',
+            url: 'https://a',
+            title: 'A',
+            lastFocusedAt: 1,
+            networkFailedCount: 3,
+          },
+        },
+        activeTabId: 'a',
+      }),
+      getBrowserSessionId: () => 'session-1',
+    });
+
+    const curr = adapter.getState('agent-1') as never;
+    const prev = {
+      browserSessionId: 'session-1',
+      browser: {
+        tabs: [
+          {
+            id: 'a',
+            url: 'https://a',
+            title: 'A',
+            lastFocusedAt: 1,
+            networkFailedCount: 1,
+          },
+        ],
+        activeTabId: 'a',
+      },
+    } as never;
+
+    expect(adapter.renderState(null, curr)).toContain('failedRequests="3"');
+    const diff = adapter.renderState(prev, curr);
+    expect(diff).toContain('tab-network');
+    expect(diff).toContain('newFailedRequests="2"');
+  });
+
   it('emits browser-restarted when the session id flips', () => {
     const adapter = createBrowserDomainAdapter({
       karton: makeKarton({
@@ -4,7 +4,7 @@
  * Owns the open-tabs + browser-session manifest for the host. The
  * full-state render is the `<open-tabs>` block embedded in every
  * system prompt; the delta render reports tab-opened/navigated/
- * closed/console/restart events. The `browserSessionId` bundled
+ * closed/console/network/restart events. The `browserSessionId` bundled
  * alongside the tabs lets the delta path distinguish a browser
  * restart from a same-process state transition.
  */
@@ -62,6 +62,7 @@ function projectBrowserSnapshot(
       faviconUrl: tab.faviconUrls?.[0],
       consoleErrorCount: tab.consoleErrorCount,
       consoleLogCount: tab.consoleLogCount,
+      networkFailedCount: tab.networkFailedCount,
       error: tab.error
         ? {
             code: tab.error.code,
@@ -102,6 +103,8 @@ export function renderBrowserTabsXml(browser: BrowserSnapshot): string {
     if (tab.consoleErrorCount)
       attrs.push(`consoleErrors="${tab.consoleErrorCount}"`);
     if (tab.consoleLogCount) attrs.push(`consoleLogs="${tab.consoleLogCount}"`);
+    if (tab.networkFailedCount)
+      attrs.push(`failedRequests="${tab.networkFailedCount}"`);
     if (tab.error)
       attrs.push(
         `error="${tab.error.code}${tab.error.message ? `: ${escAttr(tab.error.message)}` : ''}"`,
@@ -189,6 +192,18 @@ function computeBrowserChanges(
         attrs.newErrors = String(currErrors - prevErrors);
       changes.push({ type: 'tab-console', attributes: attrs });
     }
+
+    const prevFailed = prev.networkFailedCount ?? 0;
+    const currFailed = curr.networkFailedCount ?? 0;
+    if (currFailed > prevFailed) {
+      changes.push({
+        type: 'tab-network',
+        attributes: {
+          tabId: id,
+          newFailedRequests: String(currFailed - prevFailed),
+        },
+      });
+    }
   }
 
   if (previous.browser.activeTabId !== current.browser.activeTabId) {
@@ -10,10 +10,12 @@ import type {
   ShellSnapshot,
 } from '@shared/env-domain-schemas';
 import type { KartonService } from '../services/karton';
+import type { MountedWorkspaceDiagnostics } from '../services/toolbox/services/lsp/types';
 import type { AgentManagerService } from '../services/agent-manager/agent-manager';
 import { createActiveAppDomainAdapter } from './active-app-domain-adapter';
 import { createBrowserDomainAdapter } from './browser-domain-adapter';
 import { createLogIngestDomainAdapter } from './log-ingest-domain-adapter';
+import { createLspDiagnosticsDomainAdapter } from './lsp-diagnostics-domain-adapter';
 import { createSandboxDomainAdapter } from './sandbox-domain-adapter';
 import {
   createShellsDomainAdapter,
@@ -46,6 +48,13 @@ export {
   type LogIngestDomainAdapterDeps,
   type LogIngestDomainState,
 } from './log-ingest-domain-adapter';
+export {
+  LSP_DIAGNOSTICS_DOMAIN_ID,
+  LSP_DIAGNOSTICS_DOMAIN_SCHEMA_VERSION,
+  createLspDiagnosticsDomainAdapter,
+  type LspDiagnosticsDomainAdapterDeps,
+  type LspDiagnosticsDomainState,
+} from './lsp-diagnostics-domain-adapter';
 export {
   SANDBOX_DOMAIN_ID,
   SANDBOX_DOMAIN_SCHEMA_VERSION,
@@ -63,7 +72,7 @@ export {
 } from '@stagewise/agent-shell/env';
 
 /**
- * Dependencies required to instantiate the five host {@link DomainAdapter}
+ * Dependencies required to instantiate the six host {@link DomainAdapter}
  * implementations.
  */
 export interface HostEnvDomainAdapterDeps {
@@ -73,6 +82,7 @@ export interface HostEnvDomainAdapterDeps {
   getShellInfo: () => ShellInfoState;
   getSandboxSessionId: (agentInstanceId: string) => string | null;
   getLogIngestSnapshot: () => LogIngestSnapshot;
+  getLspDiagnostics: (agentInstanceId: string) => MountedWorkspaceDiagnostics[];
   /**
    * Optional override for the browser session id — primarily used in
    * tests. Defaults to `getBrowserSessionId()` from
@@ -82,7 +92,7 @@ export interface HostEnvDomainAdapterDeps {
 }
 
 /**
- * Register all five host-owned env-state adapters on the given
+ * Register all six host-owned env-state adapters on the given
  * {@link AgentManagerService}. Safe to call multiple times: each
  * `registerEnvAdapter` invocation replaces the previous adapter for that
  * domain id. Must run once at boot, before the first turn fires.
@@ -112,4 +122,10 @@ export function registerHostEnvDomainAdapters(
   agentManagerService.registerEnvAdapter(
     createLogIngestDomainAdapter({ getSnapshot: deps.getLogIngestSnapshot }),
   );
+  agentManagerService.registerEnvAdapter(
+    createLspDiagnosticsDomainAdapter({
+      store: deps.store,
+      getDiagnostics: deps.getLspDiagnostics,
+    }),
+  );
 }
@@ -0,0 +1,131 @@
+import path from 'node:path';
+import {
+  AgentStore,
+  createInitialAgentSystemState,
+  type FileDiff,
+} from '@stagewise/agent-core';
+import { describe, expect, it } from 'vitest';
+import type {
+  AggregatedDiagnostic,
+  MountedWorkspaceDiagnostics,
+} from '@/services/toolbox/services/lsp/types';
+import {
+  LSP_DIAGNOSTICS_DOMAIN_SCHEMA_VERSION,
+  createLspDiagnosticsDomainAdapter,
+} from './lsp-diagnostics-domain-adapter';
+
+const workspace = path.resolve('/ws');
+const editedFile = path.join(workspace, 'src', 'a.ts');
+const otherFile = path.join(workspace, 'src', 'b.ts');
+
+function diagnostic(
+  line: number,
+  message: string,
+  severity: 1 | 2 = 1,
+): AggregatedDiagnostic {
+  return {
+    serverID: 'typescript',
+    diagnostic: {
+      range: {
+        start: { line: line - 1, character: 4 },
+        end: { line: line - 1, character: 8 },
+      },
+      severity,
+      source: 'ts',
+      code: 2322,
+      message,
+    },
+  };
+}
+
+function makeStore(): AgentStore {
+  const store = new AgentStore(createInitialAgentSystemState());
+  store.update((draft) => {
+    draft.toolbox.a1 = {
+      workspace: { mounts: [] },
+      pendingFileDiffs: [{ path: editedFile } as FileDiff],
+      editSummary: [],
+      pendingUserQuestion: null,
+    };
+  });
+  return store;
+}
+
+function makeAdapter(files: Record<string, AggregatedDiagnostic[]>) {
+  const mounts: MountedWorkspaceDiagnostics[] = [
+    {
+      prefix: 'w1',
+      workspacePath: workspace,
+      diagnostics: new Map(Object.entries(files)),
+    },
+  ];
+  return createLspDiagnosticsDomainAdapter({
+    store: makeStore(),
+    getDiagnostics: () => mounts,
+  });
+}
+
+describe('createLspDiagnosticsDomainAdapter', () => {
+  it('reports the expected contract metadata', () => {
+    const adapter = makeAdapter({});
+    expect(adapter.domainId).toBe('lspDiagnostics');
+    expect(adapter.renderOrder).toBe(13);
+    expect(adapter.schemaVersion).toBe(LSP_DIAGNOSTICS_DOMAIN_SCHEMA_VERSION);
+    expect(adapter.promptSection).toContain('LSP Diagnostics');
+  });
+
+  it('counts every open file but lists errors only for edited files', async () => {
+    const adapter = makeAdapter({
+      [editedFile]: [
+        diagnostic(3, 'Type "a" is not\n  assignable.'),
+        diagnostic(1, 'Unused import.', 2),
+      ],
+      [otherFile]: [diagnostic(7, 'Other error.')],
+    });
+
+    const state = await adapter.getState('a1');
+    expect(state.errors).toBe(2);
+    expect(state.warnings).toBe(1);
+    expect(adapter.renderState(null, state)).toBe(
+      [
+        '<lsp-diagnostics errors="2" warnings="1">',
+        'w1/src/a.ts: 1 error, 1 warning',
+        '  3:5 ts(2322): Type "a" is not assignable.',
+        '</lsp-diagnostics>',
+      ].join('\n'),
+    );
+    expect(await makeAdapter({}).getState('a1')).toEqual({
+      errors: 0,
+      warnings: 0,
+      files: [],
+    });
+    expect(
+      adapter.renderState(null, { errors: 0, warnings: 0, files: [] }),
+    ).toBe('');
+  });
+
+  it('reports errors introduced and resolved since the previous turn', async () => {
+    const before = await makeAdapter({
+      [editedFile]: [diagnostic(3, 'Existing.')],
+    }).getState('a1');
+    const after = await makeAdapter({
+      [editedFile]: [diagnostic(9, 'Existing.'), diagnostic(4, 'Broken.')],
+    }).getState('a1');
+
+    const introduced = makeAdapter({}).renderState(before, after);
+    expect(introduced).toContain(
+      '<lsp-errors-introduced path="w1/src/a.ts">1 new error (2 errors, 0 warnings total)\n4:5 ts(2322): Broken.</lsp-errors-introduced>',
+    );
+    expect(introduced).not.toContain('Existing.');
+    expect(introduced).toContain('<lsp-diagnostics-totals errors="2"');
+
+    const resolved = makeAdapter({}).renderState(after, {
+      errors: 0,
+      warnings: 0,
+      files: [],
+    });
+    expect(resolved).toContain(
+      '<lsp-errors-resolved path="w1/src/a.ts">All 2 errors resolved</lsp-errors-resolved>',
+    );
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * `lspDiagnostics` host {@link DomainAdapter}.
+ *
+ * Surfaces the diagnostics the workspace LSP servers (TypeScript,
+ * ESLint, Biome, clangd, rust-analyzer, …) already hold, so the agent
+ * notices breakages without calling `getLintingDiagnostics`. The state
+ * carries error/warning totals across every file the servers have open
+ * plus the errors of files the agent edited (its pending diffs and edit
+ * summary). The full-state render is one `<lsp-diagnostics>` block; the
+ * delta render reports errors newly introduced in or resolved from the
+ * edited files and changed totals.
+ *
+ * Capture never waits for servers: diagnostics still being computed
+ * for the latest edit show up on the following turn.
+ */
+import path from 'node:path';
+import type { AgentStore } from '@stagewise/agent-core';
+import type { DomainAdapter } from '@stagewise/agent-core/env';
+import {
+  type EnvironmentChangeEntry,
+  renderChangesXml,
+} from '@stagewise/agent-core/env';
+import type {
+  LspDiagnosticSnapshot,
+  LspDiagnosticsSnapshot,
+  LspFileDiagnosticsSnapshot,
+} from '@shared/env-domain-schemas';
+import type {
+  AggregatedDiagnostic,
+  MountedWorkspaceDiagnostics,
+} from '@/services/toolbox/services/lsp/types';
+import LspDiagnosticsDomainPromptSection from './lsp-diagnostics-domain-adapter.prompt.md?raw';
+
+export const LSP_DIAGNOSTICS_DOMAIN_SCHEMA_VERSION = 1;
+
+export type LspDiagnosticsDomainState = LspDiagnosticsSnapshot;
+
+export interface LspDiagnosticsDomainAdapterDeps {
+  store: AgentStore;
+  /** Live diagnostics of the workspaces mounted for the agent. */
+  getDiagnostics: (agentInstanceId: string) => MountedWorkspaceDiagnostics[];
+}
+
+/** Errors kept per edited file; the counts stay exact. */
+const MAX_ERRORS_PER_FILE = 10;
+const MAX_MESSAGE_LENGTH = 300;
+
+const ERROR = 1;
+const WARNING = 2;
+
+function toSnapshot({
+  serverID,
+  diagnostic,
+}: AggregatedDiagnostic): LspDiagnosticSnapshot {
+  let message = diagnostic.message.replace(/\s*\n\s*/g, ' ').trim();
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    message = `${message.slice(0, MAX_MESSAGE_LENGTH)}…`;
+  }
+  return {
+    line: diagnostic.range.start.line + 1,
+    column: diagnostic.range.start.character + 1,
+    source: diagnostic.source ?? serverID,
+    message,
+    ...(diagnostic.code !== undefined ? { code: String(diagnostic.code) } : {}),
+  };
+}
+
+function toMountedPath(
+  mount: MountedWorkspaceDiagnostics,
+  absolutePath: string,
+): string | null {
+  const relative = path.relative(mount.workspacePath, absolutePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return `${mount.prefix}/${relative.split(path.sep).join('/')}`;
+}
+
+function buildLspDiagnosticsState(
+  agentInstanceId: string,
+  deps: LspDiagnosticsDomainAdapterDeps,
+): LspDiagnosticsDomainState {
+  const toolbox = deps.store.get().toolbox[agentInstanceId];
+  const edited = new Set(
+    [...(toolbox?.pendingFileDiffs ?? []), ...(toolbox?.editSummary ?? [])].map(
+      (diff) => path.resolve(diff.path),
+    ),
+  );
+
+  let errors = 0;
+  let warnings = 0;
+  const files: LspFileDiagnosticsSnapshot[] = [];
+
+  for (const mount of deps.getDiagnostics(agentInstanceId)) {
+    for (const [filePath, diagnostics] of mount.diagnostics) {
+      const fileErrors = diagnostics.filter(
+        (d) => (d.diagnostic.severity ?? ERROR) === ERROR,
+      );
+      const warningCount = diagnostics.filter(
+        (d) => d.diagnostic.severity === WARNING,
+      ).length;
+      errors += fileErrors.length;
+      warnings += warningCount;
+
+      if (fileErrors.length === 0 && warningCount === 0) continue;
+      if (!edited.has(path.resolve(filePath))) continue;
+      const mountedPath = toMountedPath(mount, filePath);
+      if (!mountedPath) continue;
+      files.push({
+        path: mountedPath,
+        errorCount: fileErrors.length,
+        warningCount,
+        errors: fileErrors
+          .sort(
+            (a, b) =>
+              a.diagnostic.range.start.line - b.diagnostic.range.start.line,
+          )
+          .slice(0, MAX_ERRORS_PER_FILE)
+          .map(toSnapshot),
+      });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { errors, warnings, files };
+}
+
+function formatDiagnostic(d: LspDiagnosticSnapshot): string {
+  const source = d.code ? `${d.source}(${d.code})` : d.source;
+  return `${d.line}:${d.column} ${source}: ${d.message}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatFileCounts(file: LspFileDiagnosticsSnapshot): string {
+  return `${plural(file.errorCount, 'error')}, ${plural(file.warningCount, 'warning')}`;
+}
+
+function renderFullLspDiagnostics(state: LspDiagnosticsDomainState): string {
+  if (state.errors === 0 && state.warnings === 0) return '';
+  const lines = state.files.flatMap((file) => {
+    const more = file.errorCount - file.errors.length;
+    return [
+      `${file.path}: ${formatFileCounts(file)}`,
+      ...file.errors.map((d) => `  ${formatDiagnostic(d)}`),
+      ...(more > 0 ? [`  ... ${more} more`] : []),
+    ];
+  });
+  const open = `<lsp-diagnostics errors="${state.errors}" warnings="${state.warnings}"`;
+  if (lines.length === 0) return `${open} />`;
+  // Same CDATA wrapping as `renderChangesXml`: messages quote code.
+  const body = lines.join('\n');
+  const wrapped =
+    body.includes('<') || body.includes('&')
+      ? `<![CDATA[${body.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+      : body;
+  return `${open}>\n${wrapped}\n</lsp-diagnostics>`;
+}
+
+/** Identity of an error independent of where edits moved it. */
+function errorKey(d: LspDiagnosticSnapshot): string {
+  return `${d.source}\0${d.code ?? ''}\0${d.message}`;
+}
+
+function findNewErrors(
+  previous: LspDiagnosticSnapshot[],
+  current: LspDiagnosticSnapshot[],
+): LspDiagnosticSnapshot[] {
+  const remaining = new Map<string, number>();
+  for (const d of previous) {
+    remaining.set(errorKey(d), (remaining.get(errorKey(d)) ?? 0) + 1);
+  }
+  return current.filter((d) => {
+    const count = remaining.get(errorKey(d)) ?? 0;
+    if (count === 0) return true;
+    remaining.set(errorKey(d), count - 1);
+    return false;
+  });
+}
+
+function computeLspDiagnosticsChanges(
+  prev: LspDiagnosticsDomainState,
+  curr: LspDiagnosticsDomainState,
+): EnvironmentChangeEntry[] {
+  const changes: EnvironmentChangeEntry[] = [];
+  const prevByPath = new Map(prev.files.map((f) => [f.path, f]));
+  const currByPath = new Map(curr.files.map((f) => [f.path, f]));
+
+  for (const file of curr.files) {
+    const before = prevByPath.get(file.path);
+    const introduced = findNewErrors(before?.errors ?? [], file.errors);
+    if (introduced.length > 0) {
+      changes.push({
+        type: 'lsp-errors-introduced',
+        summary: `${plural(introduced.length, 'new error')} (${formatFileCounts(file)} total)`,
+        detail: introduced.map(formatDiagnostic).join('\n'),
+        attributes: { path: file.path },
+      });
+    } else if (before && file.errorCount < before.errorCount) {
+      changes.push({
+        type: 'lsp-errors-resolved',
+        summary: `${plural(before.errorCount - file.errorCount, 'error')} resolved, ${plural(file.errorCount, 'error')} left`,
+        attributes: { path: file.path },
+      });
+    }
+  }
+
+  for (const file of prev.files) {
+    if (file.errorCount > 0 && !currByPath.has(file.path)) {
+      changes.push({
+        type: 'lsp-errors-resolved',
+        summary: `All ${plural(file.errorCount, 'error')} resolved`,
+        attributes: { path: file.path },
+      });
+    }
+  }
+
+  if (prev.errors !== curr.errors || prev.warnings !== curr.warnings) {
+    changes.push({
+      type: 'lsp-diagnostics-totals',
+      summary: `${plural(curr.errors, 'error')}, ${plural(curr.warnings, 'warning')} across open files (was ${prev.errors}/${prev.warnings})`,
+      attributes: {
+        errors: String(curr.errors),
+        warnings: String(curr.warnings),
+      },
+    });
+  }
+
+  return changes;
+}
+
+/** Stable env-domain id for the LSP diagnostics adapter. */
+export const LSP_DIAGNOSTICS_DOMAIN_ID = 'lspDiagnostics';
+
+export function createLspDiagnosticsDomainAdapter(
+  deps: LspDiagnosticsDomainAdapterDeps,
+): DomainAdapter<LspDiagnosticsDomainState> {
+  return {
+    domainId: LSP_DIAGNOSTICS_DOMAIN_ID,
+    renderOrder: 13,
+    schemaVersion: LSP_DIAGNOSTICS_DOMAIN_SCHEMA_VERSION,
+    promptSection: LspDiagnosticsDomainPromptSection,
+    getState(agentInstanceId) {
+      return buildLspDiagnosticsState(agentInstanceId, deps);
+    },
+    renderState(prev, curr) {
+      if (prev === null) return renderFullLspDiagnostics(curr);
+      return renderChangesXml(computeLspDiagnosticsChanges(prev, curr));
+    },
+  };
+}
@@ -54,6 +54,7 @@ import type { CredentialTypeId } from '@shared/credential-types';
 import { ModelProviderService } from './agents/model-provider';
 import { AcpAgentRuntime } from './agents/acp/runtime';
 import { resolveAcpEnvironment } from './agents/acp/adapter';
+import { createStagewiseBrowserTools } from './agents/acp/stagewise-browser-tools';
 import { resolveModelThinkingOverride } from '@shared/provider-instance-helpers';
 import { classifyShellCommand } from './services/toolbox/tools/shell/smart-approval';
 import { wirePagesStateSync } from './wiring/pages-state-sync';
@@ -88,6 +89,7 @@ import {
   createAgentsMdDomainAdapter,
   createEnabledSkillsDomainAdapter,
   createFileDiffsDomainAdapter,
+  createGitDomainAdapter,
   createLogsDomainAdapter,
   createMemoryDomainAdapter,
   createPlansDomainAdapter,
@@ -350,6 +352,7 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
     notificationService,
     telemetryService,
     preferencesService,
+    identifierService,
     uiKarton,
   );
 
@@ -489,7 +492,7 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
   const filePickerService = await FilePickerService.create(logger, uiKarton);
 
   // DevToolAPIService handles devtools-related functionality and state
-  const _devToolAPIService = await DevToolAPIService.create(
+  const devToolAPIService = await DevToolAPIService.create(
     logger,
     uiKarton,
     windowLayoutService,
@@ -633,6 +636,19 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
           toolCallId,
           explanation,
         ),
+      createStagewiseBrowserTools(
+        {
+          getTool: (toolName, agentId) =>
+            toolboxService.getTool(toolName, agentId),
+          getScreenshot: (options, agentId) =>
+            devToolAPIService.getScreenshot(options, agentId),
+          getSelectedElements: () =>
+            uiKarton.state.browsing.selectedElements ?? [],
+          canAccessTab: (tabId, agentId) =>
+            windowLayoutService.validateTabAccess(tabId, agentId) === null,
+        },
+        context.instanceId,
+      ),
     );
 
   // Wire the model-provider into the toolbox so the shell tool can run the
@@ -710,6 +726,10 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
     agentManagerService.handleWatcherEvent(event),
   );
 
+  toolboxService.setChatHistorySearcher((query, options) =>
+    agentManagerService.searchHistory(query, options),
+  );
+
   toolboxService.setWorkspaceLastUsedAtResolver(
     async (workspacePaths) =>
       (await persistence.agentDb.getWorkspaceLastUsedAtByPath(
@@ -803,6 +823,15 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
   agentManagerService.registerEnvAdapter(
     createFileDiffsDomainAdapter({ store: agentCoreSeam.store }),
   );
+  agentManagerService.registerEnvAdapter(
+    createGitDomainAdapter({
+      mountManager: coreMountManager,
+      source: {
+        getStatus: (workspacePath) =>
+          gitService.getRepositoryStatus(workspacePath),
+      },
+    }),
+  );
 
   registerHostEnvDomainAdapters(agentManagerService, {
     karton: uiKarton,
@@ -817,6 +846,8 @@ export async function main({ launchOptions: { verbose } }: MainParameters) {
     getSandboxSessionId: (agentInstanceId) =>
       toolboxService.getSandboxSessionId(agentInstanceId),
     getLogIngestSnapshot: () => toolboxService.getLogIngestSnapshot(),
+    getLspDiagnostics: (agentInstanceId) =>
+      toolboxService.getLspDiagnostics(agentInstanceId),
   });
 
   const agentPowerSaveBlockerService = AgentPowerSaveBlockerService.create(
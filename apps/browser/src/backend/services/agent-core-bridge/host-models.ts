@@ -32,6 +32,9 @@ import {
  *
  * `has(id, providerInstanceId)` delegates to `ModelProviderService.modelExists`.
  * Instance-scoped discovered models require their provider instance ID.
+ *
+ * `getEmbeddingModel()` resolves the history search embedding model the
+ * user picked in the utility model settings, if any.
  */
 /**
  * Getter that returns the current agent preferences block from user
@@ -222,6 +225,21 @@ export function createBrowserHostModels(
       if (!getUtilityModels) return undefined;
       return resolveActivePresetModels(getUtilityModels());
     },
+    getEmbeddingModel() {
+      const selected =
+        getUtilityModels?.().utilityModels.historySearchEmbedding;
+      if (!selected?.modelId.trim()) return undefined;
+      const model = modelProviderService.getEmbeddingModel(
+        selected.providerInstanceId,
+        selected.modelId,
+      );
+      return (
+        model && {
+          id: `${selected.providerInstanceId}/${selected.modelId}`,
+          model,
+        }
+      );
+    },
   };
 }
 
@@ -304,6 +322,9 @@ export function createLazyBrowserHostModels(
       if (!getUtilityModels) return undefined;
       return resolveActivePresetModels(getUtilityModels());
     },
+    getEmbeddingModel() {
+      return inner?.getEmbeddingModel?.();
+    },
   };
 
   return {
@@ -66,6 +66,7 @@ export function createBrowserHostPaths(): HostPaths {
     agentDbPath: () => getAgentDbPath(),
     fileReadCacheDbPath: () => getDbPath('file-read-cache'),
     processedImageCacheDbPath: () => getDbPath('processed-image-cache'),
+    historySearchDbPath: () => getDbPath('history-search'),
 
     userDataDir: () => getUserDataDir(),
     plansDir: () => getPlansDir(),
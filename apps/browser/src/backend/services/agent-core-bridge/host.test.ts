@@ -4,6 +4,7 @@ import {
   AGENTS_MD_DOMAIN_ID,
   ENABLED_SKILLS_DOMAIN_ID,
   FILE_DIFFS_DOMAIN_ID,
+  GIT_DOMAIN_ID,
   MEMORY_DOMAIN_ID,
   PLANS_DOMAIN_ID,
   WORKSPACE_DOMAIN_ID,
@@ -12,6 +13,7 @@ import {
 import { ACTIVE_APP_DOMAIN_ID } from '@/env-domains/active-app-domain-adapter';
 import { BROWSER_DOMAIN_ID } from '@/env-domains/browser-domain-adapter';
 import { LOG_INGEST_DOMAIN_ID } from '@/env-domains/log-ingest-domain-adapter';
+import { LSP_DIAGNOSTICS_DOMAIN_ID } from '@/env-domains/lsp-diagnostics-domain-adapter';
 import { SANDBOX_DOMAIN_ID } from '@/env-domains/sandbox-domain-adapter';
 import { SHELLS_DOMAIN_ID } from '@stagewise/agent-shell/env';
 import { getModelCapabilities } from '@shared/available-models';
@@ -100,6 +102,7 @@ describe('createBrowserHostPaths', () => {
     expect(paths.processedImageCacheDbPath()).toBe(
       '/tmp/data/processed-image-cache.sqlite',
     );
+    expect(paths.historySearchDbPath()).toBe('/tmp/data/history-search.sqlite');
     expect(paths.userDataDir()).toBe('/tmp/data/user-data');
     expect(paths.plansDir()).toBe('/tmp/data/user-data/plans');
     expect(paths.logsDir()).toBe('/tmp/data/user-data/logs');
@@ -311,6 +314,49 @@ describe('createBrowserHostModels', () => {
   });
 });
 
+describe('createBrowserHostModels embedding model', () => {
+  it('resolves the picked history search embedding model', () => {
+    const embeddingModel = { modelId: 'nomic-embed-text' };
+    const mp = {
+      modelExists: vi.fn(),
+      getModelWithOptions: vi.fn(),
+      getEmbeddingModel: vi.fn(() => embeddingModel),
+    };
+    let historySearchEmbedding: {
+      providerInstanceId: string;
+      modelId: string;
+    } | null = null;
+    const models = createBrowserHostModels(
+      mp as unknown as ModelProviderService,
+      () =>
+        ({
+          utilityModels: {
+            titleGeneration: [],
+            contextCompression: [],
+            historySearchEmbedding,
+          },
+          activePresetId: undefined,
+          modelPresets: [],
+          providerInstances: [],
+        }) as never,
+    );
+
+    expect(models.getEmbeddingModel?.()).toBeUndefined();
+    historySearchEmbedding = {
+      providerInstanceId: 'ollama-1',
+      modelId: 'nomic-embed-text',
+    };
+    expect(models.getEmbeddingModel?.()).toEqual({
+      id: 'ollama-1/nomic-embed-text',
+      model: embeddingModel,
+    });
+    expect(mp.getEmbeddingModel).toHaveBeenCalledWith(
+      'ollama-1',
+      'nomic-embed-text',
+    );
+  });
+});
+
 describe('createLazyBrowserHostModels', () => {
   it('rejects model resolution and reports unavailable models before initialization', async () => {
     const lazyModels = createLazyBrowserHostModels();
@@ -487,12 +533,14 @@ describe('createBrowserAgentHost', () => {
         SANDBOX_DOMAIN_ID,
         ACTIVE_APP_DOMAIN_ID,
         LOG_INGEST_DOMAIN_ID,
+        LSP_DIAGNOSTICS_DOMAIN_ID,
         WORKSPACE_DOMAIN_ID,
         AGENTS_MD_DOMAIN_ID,
         ENABLED_SKILLS_DOMAIN_ID,
         MEMORY_DOMAIN_ID,
         PLANS_DOMAIN_ID,
         FILE_DIFFS_DOMAIN_ID,
+        GIT_DOMAIN_ID,
       ]),
     );
     expect(chat?.outputProtocols?.map((p) => p.name)).toEqual(['tab', 'shell']);
@@ -11,6 +11,7 @@ import {
   AGENTS_MD_DOMAIN_ID,
   ENABLED_SKILLS_DOMAIN_ID,
   FILE_DIFFS_DOMAIN_ID,
+  GIT_DOMAIN_ID,
   MEMORY_DOMAIN_ID,
   PLANS_DOMAIN_ID,
   WORKSPACE_DOMAIN_ID,
@@ -24,6 +25,7 @@ import {
 import { ACTIVE_APP_DOMAIN_ID } from '@/env-domains/active-app-domain-adapter';
 import { BROWSER_DOMAIN_ID } from '@/env-domains/browser-domain-adapter';
 import { LOG_INGEST_DOMAIN_ID } from '@/env-domains/log-ingest-domain-adapter';
+import { LSP_DIAGNOSTICS_DOMAIN_ID } from '@/env-domains/lsp-diagnostics-domain-adapter';
 import { SANDBOX_DOMAIN_ID } from '@/env-domains/sandbox-domain-adapter';
 import { SHELLS_DOMAIN_ID } from '@stagewise/agent-shell/env';
 import type { ModelProviderService } from '@/agents/model-provider';
@@ -149,12 +151,14 @@ const BROWSER_CHAT_ENV_DOMAIN_IDS: readonly DomainId[] = [
   SANDBOX_DOMAIN_ID,
   ACTIVE_APP_DOMAIN_ID,
   LOG_INGEST_DOMAIN_ID,
+  LSP_DIAGNOSTICS_DOMAIN_ID,
   WORKSPACE_DOMAIN_ID,
   AGENTS_MD_DOMAIN_ID,
   ENABLED_SKILLS_DOMAIN_ID,
   MEMORY_DOMAIN_ID,
   PLANS_DOMAIN_ID,
   FILE_DIFFS_DOMAIN_ID,
+  GIT_DOMAIN_ID,
 ];
 
 /**
@@ -20,6 +20,8 @@ import type { AgentPersistenceDB } from '@stagewise/agent-core/agent-persistence
 import type { DomainAdapter, DomainId } from '@stagewise/agent-core/env';
 import type {
   AgentHistoryEntry,
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
   AgentMessage,
 } from '@stagewise/agent-core/types/agent';
 import type { WatcherEvent } from '@stagewise/agent-shell';
@@ -56,12 +58,25 @@ const AGENT_RPC_COMMANDS = [
   'agents.setTitle',
   'agents.getAgentsHistoryList',
   'agents.getAgentHistoryEntriesByIds',
+  'agents.searchHistory',
   'agents.updateInputState',
   'agents.retryLastUserMessage',
   'agents.storeAttachment',
   'agents.storeAttachmentByPath',
   'agents.getStoredInstance',
   'agents.getTouchedFiles',
+  'agents.listTriggers',
+  'agents.saveTrigger',
+  'agents.deleteTrigger',
+  'agents.runTrigger',
+  'agents.listBudgets',
+  'agents.saveBudget',
+  'agents.deleteBudget',
+  'agents.getBudgetUsage',
+  'agents.extendBudget',
+  'agents.getUsageReport',
+  'agents.export',
+  'agents.import',
   'agents.revealWorkingDirectory',
 ] as const satisfies ReadonlyArray<CommandName>;
 
@@ -109,6 +124,7 @@ export class AgentManagerService extends DisposableService {
       commandRegistry,
       agentTypeRegistry,
       startupPolicy,
+      armTriggers: true,
       state: {
         store: agentStore,
       },
@@ -163,6 +179,13 @@ export class AgentManagerService extends DisposableService {
     await this.manager.retryNetworkFailedAgentsNow(reason);
   }
 
+  public searchHistory(
+    query: string,
+    options?: AgentHistorySearchOptions,
+  ): Promise<AgentHistorySearchHit[]> {
+    return this.manager.searchHistory(query, options);
+  }
+
   public async handleWatcherEvent(event: WatcherEvent): Promise<void> {
     const elapsedMs = Math.max(0, event.finishedAt - event.startedAt);
     const output = event.output.trim();
@@ -16,6 +16,7 @@ import type { Logger } from './logger';
 import type { NotificationService } from './notification';
 import type { TelemetryService } from './telemetry';
 import type { PreferencesService } from './preferences';
+import type { IdentifierService } from './identifier';
 import type { KartonService } from './karton';
 import type { UpdateChannel } from '@shared/karton-contracts/ui/shared-types';
 
@@ -38,9 +39,13 @@ export class AutoUpdateService extends DisposableService {
   private readonly notificationService: NotificationService;
   private readonly telemetryService: TelemetryService;
   private readonly preferencesService: PreferencesService;
+  private readonly identifierService: IdentifierService;
   private readonly uiKarton: KartonService;
   private pendingUpdate: UpdateInfo | null = null;
   private downloadingUpdate: UpdateInfo | null = null;
+  // Set when the server marks the downloading update as mandatory (the
+  // installed version is below the channel's minimum supported version)
+  private mandatoryUpdateVersion: string | null = null;
   private updateCheckInProgress = false;
   private updateCheckRequestId = 0;
   private updateNotificationId: string | null = null;
@@ -54,6 +59,7 @@ export class AutoUpdateService extends DisposableService {
     notificationService: NotificationService,
     telemetryService: TelemetryService,
     preferencesService: PreferencesService,
+    identifierService: IdentifierService,
     uiKarton: KartonService,
   ) {
     super();
@@ -61,6 +67,7 @@ export class AutoUpdateService extends DisposableService {
     this.notificationService = notificationService;
     this.telemetryService = telemetryService;
     this.preferencesService = preferencesService;
+    this.identifierService = identifierService;
     this.uiKarton = uiKarton;
   }
 
@@ -81,6 +88,7 @@ export class AutoUpdateService extends DisposableService {
     notificationService: NotificationService,
     telemetryService: TelemetryService,
     preferencesService: PreferencesService,
+    identifierService: IdentifierService,
     uiKarton: KartonService,
   ): Promise<AutoUpdateService> {
     const instance = new AutoUpdateService(
@@ -88,6 +96,7 @@ export class AutoUpdateService extends DisposableService {
       notificationService,
       telemetryService,
       preferencesService,
+      identifierService,
       uiKarton,
     );
     await instance.initialize();
@@ -276,7 +285,9 @@ export class AutoUpdateService extends DisposableService {
     const platform = this.getPlatform();
     const arch = this.getArch();
     const channel = this.getReleaseChannel();
-    const url = `${updateServerOrigin}/${endpoint}/stagewise/${channel}/${platform}/${arch}/${version}`;
+    // The machine id keys staged rollouts on the update server
+    const clientId = encodeURIComponent(this.identifierService.getMachineId());
+    const url = `${updateServerOrigin}/${endpoint}/stagewise/${channel}/${platform}/${arch}/${version}?clientId=${clientId}`;
 
     this.logger.debug(
       `[AutoUpdateService] Built ${endpoint} URL: ${url} (platform: ${platform}, arch: ${arch}, channel: ${channel}, version: ${version})`,
@@ -326,6 +337,13 @@ export class AutoUpdateService extends DisposableService {
 
         this.showUpdateNotification(true, this.pendingUpdate);
         this.setAutoUpdateState('ready', this.pendingUpdate);
+
+        if (this.mandatoryUpdateVersion === releaseName) {
+          this.logger.debug(
+            '[AutoUpdateService] Update is mandatory, installing right away',
+          );
+          void this.quitAndInstall();
+        }
       },
     );
 
@@ -433,6 +451,7 @@ export class AutoUpdateService extends DisposableService {
       const metadata = (await response.json()) as {
         version?: unknown;
         notes?: string;
+        mandatory?: boolean;
       };
       if (requestId !== this.updateCheckRequestId || this.disposed) return;
       if (typeof metadata.version !== 'string' || !metadata.version) {
@@ -443,6 +462,8 @@ export class AutoUpdateService extends DisposableService {
         releaseName: metadata.version,
         releaseNotes: metadata.notes,
       };
+      this.mandatoryUpdateVersion =
+        metadata.mandatory === true ? metadata.version : null;
 
       this.logger.debug(
         `[AutoUpdateService] Newer version ${metadata.version} found, starting Electron updater`,
@@ -1,7 +1,15 @@
+import { app, dialog } from 'electron';
+import fs from 'node:fs/promises';
 import type { Logger } from '../logger';
 import type { KartonService } from '../karton';
 import type { WindowLayoutService } from '../window-layout';
 import { DisposableService } from '../disposable';
+import type {
+  NetworkRequestEntry,
+  NetworkRequestSummary,
+} from '@shared/network-requests';
+import { toNetworkRequestSummary } from '../window-layout/tab-network-recorder';
+import { createHar, parseHar } from '../window-layout/tab-network-recorder/har';
 
 /**
  * Options for the getScreenshot method
@@ -41,6 +49,7 @@ export interface GetScreenshotResult {
  * - Managing the devTools sub-state within the UI state contract
  * - Handling all server procedures related to dev tools (stagewise toolbar and Chrome DevTools)
  * - Providing access to tab webcontents and debugger for future devtools functionality
+ * - Serving recorded network requests to the network panel, including HAR export/import
  *
  * This service centralizes all devtools-related functionality and will be extended
  * to offer additional capabilities that devtools need (console, network, etc.)
@@ -132,6 +141,42 @@ export class DevToolAPIService extends DisposableService {
         return await this.getScreenshot(options);
       },
     );
+
+    // Network panel procedures
+    this.uiKarton.registerServerProcedureHandler(
+      'browser.devTools.network.getRequests',
+      async (_callingClientId: string, tabId: string) => {
+        return this.getNetworkRequests(tabId);
+      },
+    );
+
+    this.uiKarton.registerServerProcedureHandler(
+      'browser.devTools.network.getRequest',
+      async (_callingClientId: string, tabId: string, requestId: string) => {
+        return this.getNetworkRequest(tabId, requestId);
+      },
+    );
+
+    this.uiKarton.registerServerProcedureHandler(
+      'browser.devTools.network.clear',
+      async (_callingClientId: string, tabId: string) => {
+        this.windowLayoutService.getTab(tabId)?.clearNetworkRequests();
+      },
+    );
+
+    this.uiKarton.registerServerProcedureHandler(
+      'browser.devTools.network.exportHar',
+      async (_callingClientId: string, tabId: string) => {
+        return await this.exportHar(tabId);
+      },
+    );
+
+    this.uiKarton.registerServerProcedureHandler(
+      'browser.devTools.network.importHar',
+      async (_callingClientId: string, tabId: string) => {
+        return await this.importHar(tabId);
+      },
+    );
   }
 
   /**
@@ -247,10 +292,13 @@ export class DevToolAPIService extends DisposableService {
    * Capture a screenshot of a tab using the Chrome DevTools Protocol.
    *
    * @param options - Screenshot options
+   * @param agentInstanceId - When called on behalf of an agent, restricts the
+   *                          capture to global tabs and the agent's own tabs.
    * @returns Promise resolving to an object with success status and base64 data or error
    */
   public async getScreenshot(
     options?: GetScreenshotOptions,
+    agentInstanceId?: string,
   ): Promise<GetScreenshotResult> {
     const tabId = options?.tabId;
     const format = options?.format ?? 'png';
@@ -262,6 +310,13 @@ export class DevToolAPIService extends DisposableService {
       `[DevToolAPIService] getScreenshot called with tabId: ${tabId}, format: ${format}`,
     );
 
+    if (agentInstanceId !== undefined) {
+      const accessError = tabId
+        ? this.windowLayoutService.validateTabAccess(tabId, agentInstanceId)
+        : 'A tab ID is required.';
+      if (accessError) return { success: false, error: accessError };
+    }
+
     const webContents = this.getTabWebContents(tabId);
 
     if (!webContents) {
@@ -340,6 +395,109 @@ export class DevToolAPIService extends DisposableService {
     }
   }
 
+  // ============================================================================
+  // Network API
+  // ============================================================================
+
+  /**
+   * Get the recorded requests of a tab for the network panel.
+   *
+   * @param tabId - The tab ID
+   * @returns Requests without headers and bodies (most recent first)
+   */
+  public getNetworkRequests(tabId: string): NetworkRequestSummary[] {
+    const tab = this.windowLayoutService.getTab(tabId);
+    return tab?.getNetworkRequests().map(toNetworkRequestSummary) ?? [];
+  }
+
+  /**
+   * Get a recorded request of a tab with headers, bodies and timings.
+   */
+  public getNetworkRequest(
+    tabId: string,
+    requestId: string,
+  ): NetworkRequestEntry | null {
+    const tab = this.windowLayoutService.getTab(tabId);
+    return tab?.getNetworkRequest(requestId) ?? null;
+  }
+
+  /**
+   * Save the recorded requests of a tab as a HAR file.
+   *
+   * @param tabId - The tab ID
+   * @returns The saved file path, or an error (empty when the user cancelled)
+   */
+  public async exportHar(
+    tabId: string,
+  ): Promise<{ filePath: string } | { error: string }> {
+    const tab = this.windowLayoutService.getTab(tabId);
+    if (!tab) return { error: 'Tab not found' };
+
+    const result = await dialog.showSaveDialog({
+      title: 'Export HAR',
+      defaultPath: `${getHarFileName(tab.getState().url)}.har`,
+      filters: [{ name: 'HAR files', extensions: ['har'] }],
+    });
+    if (result.canceled || !result.filePath) return { error: '' };
+
+    try {
+      const har = createHar(tab.getNetworkEntries(), {
+        name: 'stagewise',
+        version: app.getVersion(),
+      });
+      await fs.writeFile(result.filePath, JSON.stringify(har, null, 2));
+      this.logger.debug(
+        `[DevToolAPIService] Exported HAR for tab ${tabId} to ${result.filePath}`,
+      );
+      return { filePath: result.filePath };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      this.logger.error(
+        `[DevToolAPIService] Failed to export HAR: ${errorMessage}`,
+      );
+      return { error: errorMessage };
+    }
+  }
+
+  /**
+   * Replace the recorded requests of a tab with the entries of a HAR file.
+   *
+   * @param tabId - The tab ID
+   * @returns The number of imported requests, or an error (empty when the
+   *          user cancelled)
+   */
+  public async importHar(
+    tabId: string,
+  ): Promise<{ count: number } | { error: string }> {
+    const tab = this.windowLayoutService.getTab(tabId);
+    if (!tab) return { error: 'Tab not found' };
+
+    const result = await dialog.showOpenDialog({
+      title: 'Import HAR',
+      filters: [{ name: 'HAR files', extensions: ['har', 'json'] }],
+      properties: ['openFile'],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { error: '' };
+
+    try {
+      const content = await fs.readFile(result.filePaths[0]!, 'utf8');
+      const entries = parseHar(JSON.parse(content));
+      tab.importNetworkRequests(entries);
+      return { count: entries.length };
+    } catch (err) {
+      const errorMessage =
+        err instanceof SyntaxError
+          ? 'The file is not a valid HAR file.'
+          : err instanceof Error
+            ? err.message
+            : String(err);
+      this.logger.error(
+        `[DevToolAPIService] Failed to import HAR: ${errorMessage}`,
+      );
+      return { error: errorMessage };
+    }
+  }
+
   // ============================================================================
   // Teardown
   // ============================================================================
@@ -357,7 +515,31 @@ export class DevToolAPIService extends DisposableService {
     this.uiKarton.removeServerProcedureHandler(
       'browser.devTools.getScreenshot',
     );
+    this.uiKarton.removeServerProcedureHandler(
+      'browser.devTools.network.getRequests',
+    );
+    this.uiKarton.removeServerProcedureHandler(
+      'browser.devTools.network.getRequest',
+    );
+    this.uiKarton.removeServerProcedureHandler(
+      'browser.devTools.network.clear',
+    );
+    this.uiKarton.removeServerProcedureHandler(
+      'browser.devTools.network.exportHar',
+    );
+    this.uiKarton.removeServerProcedureHandler(
+      'browser.devTools.network.importHar',
+    );
 
     this.logger.debug('[DevToolAPIService] Torn down');
   }
 }
+
+/** Default HAR file name for a page, e.g. `localhost-3000`. */
+function getHarFileName(url: string): string {
+  try {
+    return new URL(url).host.replace(/[^a-z0-9.-]+/gi, '-') || 'network';
+  } catch {
+    return 'network';
+  }
+}
@@ -121,6 +121,42 @@ describe('GitService', () => {
     ).resolves.toBeNull();
   });
 
+  it('returns repository status for the agent git env domain', async () => {
+    const gitDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-status-dir-'));
+    try {
+      await fs.mkdir(path.join(gitDir, 'rebase-merge'));
+      const { service } = await createGitService({
+        ...baseReadResponses,
+        'rev-parse --absolute-git-dir': `${gitDir}\n`,
+        '--no-optional-locks status --porcelain=v2 --branch -z': [
+          '# branch.oid abc123',
+          '# branch.head main',
+          '# branch.upstream origin/main',
+          '# branch.ab +1 -2',
+          '1 A. N... 000000 100644 100644 000000 def456 src/new.ts',
+          '? notes.txt',
+          '',
+        ].join('\0'),
+      });
+
+      await expect(
+        service.getRepositoryStatus('/repo/packages/pkg'),
+      ).resolves.toMatchObject({
+        repoRoot: repoPath,
+        branch: 'main',
+        headSha: 'abc123',
+        upstream: 'origin/main',
+        ahead: 1,
+        behind: 2,
+        operation: 'rebase',
+        staged: [{ path: 'src/new.ts', kind: 'added' }],
+        untracked: ['notes.txt'],
+      });
+    } finally {
+      await fs.rm(gitDir, { recursive: true, force: true });
+    }
+  });
+
   it('returns normalized web URL for HTTPS Git remotes', async () => {
     const { service } = await createGitService({
       'remote -v':
@@ -978,6 +1014,185 @@ describe('GitService', () => {
     });
   });
 
+  it('stages and unstages whole paths', async () => {
+    const { service, mutationCalls } = await createGitService({});
+
+    await expect(
+      service.stagePaths('/repo', ['src/a.ts', 'src/gone.ts']),
+    ).resolves.toEqual({ ok: true });
+    await service.stagePaths('/repo', ['src/a.ts'], { unstage: true });
+
+    expect(mutationCalls).toEqual([
+      'add -A -- src/a.ts src/gone.ts',
+      'reset -q -- src/a.ts',
+    ]);
+  });
+
+  it('stages a patch against the index from the repository root', async () => {
+    const cwds: string[] = [];
+    let patchContent = '';
+    const service = await GitService.create({
+      logger,
+      telemetryService,
+      resolvedEnvPromise: Promise.resolve({ PATH: '/usr/bin' }),
+      runGitCommand: async (_cwd, args) =>
+        (baseReadResponses as Record<string, string>)[args.join(' ')] ?? null,
+      runGitMutationCommand: async (cwd, args) => {
+        cwds.push(cwd);
+        expect(args.slice(0, 3)).toEqual(['apply', '--cached', '--recount']);
+        patchContent = await fs.readFile(args.at(-1)!, 'utf8');
+        return { stdout: '', stderr: '', exitCode: 0 };
+      },
+    });
+
+    await expect(
+      service.stagePatch('/repo/packages/pkg', '--- a/x\n+++ b/x'),
+    ).resolves.toEqual({ ok: true });
+    expect(cwds).toEqual([repoPath]);
+    expect(patchContent).toBe('--- a/x\n+++ b/x\n');
+  });
+
+  it('commits only the given paths with trailers and reads the commit back', async () => {
+    const { service, mutationCalls } = await createGitService(
+      {},
+      {
+        [`log -1 --format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e`]: {
+          stdout:
+            'abc123\x1fAda\x1fada@example.com\x1f2026-01-02T03:04:05+00:00\x1fAdd feature\x1e',
+        },
+        'show --name-only -z --format= HEAD': {
+          stdout: 'src/a.ts\0src/b.ts\0',
+        },
+      },
+    );
+
+    await expect(
+      service.commit('/repo', {
+        message: 'Add feature',
+        paths: ['src/a.ts', 'src/b.ts'],
+        trailers: ['Stagewise-Tool-Call: call-1'],
+      }),
+    ).resolves.toEqual({
+      ok: true,
+      commit: {
+        sha: 'abc123',
+        authorName: 'Ada',
+        authorEmail: 'ada@example.com',
+        date: '2026-01-02T03:04:05+00:00',
+        subject: 'Add feature',
+      },
+      files: ['src/a.ts', 'src/b.ts'],
+    });
+    expect(mutationCalls.slice(0, 2)).toEqual([
+      'add -A -- src/a.ts src/b.ts',
+      'commit -m Add feature\n\nStagewise-Tool-Call: call-1 --only -- src/a.ts src/b.ts',
+    ]);
+  });
+
+  it('reports an empty commit as nothing-to-commit', async () => {
+    const { service, mutationCalls } = await createGitService(
+      {},
+      {
+        'commit --amend --no-edit': {
+          exitCode: 1,
+          stdout: 'nothing to commit, working tree clean',
+        },
+      },
+    );
+
+    await expect(
+      service.commit('/repo', { message: '  ' }),
+    ).resolves.toMatchObject({ ok: false, reason: 'commit-failed' });
+    await expect(
+      service.commit('/repo', { amend: true }),
+    ).resolves.toMatchObject({ ok: false, reason: 'nothing-to-commit' });
+    expect(mutationCalls).toEqual(['commit --amend --no-edit']);
+  });
+
+  it('keeps trailers when amending without a message', async () => {
+    const { service, mutationCalls } = await createGitService(
+      {},
+      {
+        [`log -1 --format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e`]: {
+          stdout:
+            'abc123\x1fAda\x1fada@example.com\x1f2026-01-02T03:04:05+00:00\x1fAdd feature\x1e',
+        },
+      },
+    );
+
+    await expect(
+      service.commit('/repo', {
+        amend: true,
+        trailers: ['Stagewise-Tool-Call: call-2'],
+      }),
+    ).resolves.toMatchObject({ ok: true, commit: { sha: 'abc123' } });
+    expect(mutationCalls[0]).toBe(
+      'commit --amend --no-edit --trailer Stagewise-Tool-Call: call-2',
+    );
+  });
+
+  it('blames a line range and clamps it to the file length', async () => {
+    const sha = 'a'.repeat(40);
+    const { service, mutationCalls } = await createGitService(
+      {},
+      {
+        'blame --line-porcelain -L 1,50 -- src/a.ts': {
+          exitCode: 128,
+          stderr: 'fatal: file src/a.ts has only 2 lines',
+        },
+        'blame --line-porcelain -L 1,2 -- src/a.ts': {
+          stdout: [
+            `${sha} 1 1 2`,
+            'author Ada',
+            'author-mail <ada@example.com>',
+            'author-time 0',
+            'summary Initial commit',
+            'filename src/a.ts',
+            '\tconst a = 1;',
+            `${sha} 2 2`,
+            'author Ada',
+            'author-mail <ada@example.com>',
+            'author-time 0',
+            'summary Initial commit',
+            'filename src/a.ts',
+            '\tconst b = 2;',
+          ].join('\n'),
+        },
+      },
+    );
+
+    await expect(
+      service.getBlame('/repo', 'src/a.ts', { startLine: 1, endLine: 50 }),
+    ).resolves.toEqual({
+      ok: true,
+      lines: [
+        { line: 1, sha, content: 'const a = 1;' },
+        { line: 2, sha, content: 'const b = 2;' },
+      ],
+      commits: {
+        [sha]: {
+          authorName: 'Ada',
+          authorEmail: 'ada@example.com',
+          date: '1970-01-01T00:00:00.000Z',
+          subject: 'Initial commit',
+        },
+      },
+    });
+    expect(mutationCalls).toHaveLength(2);
+  });
+
+  it('rejects option-like log revisions and stash references', async () => {
+    const { service, mutationCalls } = await createGitService({});
+
+    await expect(
+      service.getLog('/repo', { maxCount: 5, ref: '--output=/tmp/x' }),
+    ).resolves.toMatchObject({ ok: false, reason: 'invalid-name' });
+    await expect(
+      service.stash('/repo', { action: 'drop', ref: '-q' }),
+    ).resolves.toMatchObject({ ok: false, reason: 'invalid-name' });
+    expect(mutationCalls).toEqual([]);
+  });
+
   describe('getDiffNumstat', () => {
     const diffBaseResponses = {
       'rev-parse --show-toplevel --git-common-dir': `${repoPath}\n${repoGitDir}\n`,
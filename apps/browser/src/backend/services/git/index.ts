@@ -1,27 +1,45 @@
 import { execFile } from 'node:child_process';
 import { createHash } from 'node:crypto';
 import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import { promisify } from 'node:util';
 import { DisposableService } from '@/services/disposable';
 import { getWorktreesDir } from '@/utils/paths';
 import { sanitizeEnv } from '@stagewise/agent-shell';
+import {
+  GIT_STATUS_ARGS,
+  buildGitRepositoryStatus,
+  detectGitOperation,
+  parseGitStatusPorcelainV2,
+} from '@stagewise/agent-core/env/adapters';
+import type { GitRepositoryStatus } from '@stagewise/agent-core';
 import type {
   GitActionFailure,
   GitActionFailureReason,
+  GitBlameResult,
   GitBranchInfo,
   GitBranchListResult,
   GitCommandRunner,
+  GitCommitInfo,
+  GitCommitOptions,
+  GitCommitResult,
   GitCreateBranchOptions,
   GitCreateWorktreeOptions,
   GitCreateWorktreeResult,
   GitDiffNumstatEntry,
   GitDiffNumstatSummary,
+  GitLogOptions,
+  GitLogResult,
   GitMutationResult,
   GitMergedTargetResult,
   GitRepositoryInfo,
   GitRepositoryRemoteInfo,
   GitServiceDeps,
+  GitStageResult,
+  GitStashEntry,
+  GitStashOptions,
+  GitStashResult,
   GitStatusSummary,
   GitStrictCommandResult,
   GitWorktreeRemoveResult,
@@ -34,19 +52,30 @@ import type {
 export type {
   GitActionFailure,
   GitActionFailureReason,
+  GitBlameLine,
+  GitBlameResult,
   GitBranchInfo,
   GitBranchListResult,
   GitCommandRunner,
+  GitCommitInfo,
+  GitCommitOptions,
+  GitCommitResult,
   GitCreateBranchOptions,
   GitCreateWorktreeOptions,
   GitCreateWorktreeResult,
   GitDiffNumstatEntry,
   GitDiffNumstatSummary,
+  GitLogOptions,
+  GitLogResult,
   GitMutationResult,
   GitMergedTargetResult,
   GitRepositoryInfo,
   GitRepositoryRemoteInfo,
   GitServiceDeps,
+  GitStageResult,
+  GitStashEntry,
+  GitStashOptions,
+  GitStashResult,
   GitStatusSummary,
   GitStrictCommandResult,
   GitStrictCommandRunner,
@@ -160,6 +189,70 @@ function parseRemoteBranchRef(
   return { remoteName, branchName };
 }
 
+/** One commit per record: fields split by US, records ended by RS. */
+const LOG_FORMAT_ARG = '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e';
+
+function parseGitLog(output: string): GitCommitInfo[] {
+  return output
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [
+        sha = '',
+        authorName = '',
+        authorEmail = '',
+        date = '',
+        subject = '',
+      ] = record.split('\x1f');
+      return { sha, authorName, authorEmail, date, subject };
+    });
+}
+
+/** Parse `git blame --line-porcelain` output. */
+function parseGitBlame(
+  output: string,
+): Pick<Extract<GitBlameResult, { ok: true }>, 'lines' | 'commits'> {
+  const lines: Extract<GitBlameResult, { ok: true }>['lines'] = [];
+  const commits: Extract<GitBlameResult, { ok: true }>['commits'] = {};
+  let current: { sha: string; line: number } | null = null;
+  let meta: Partial<Omit<GitCommitInfo, 'sha'>> = {};
+
+  for (const raw of output.split('\n')) {
+    if (raw.startsWith('\t')) {
+      if (!current) continue;
+      lines.push({ ...current, content: raw.slice(1) });
+      commits[current.sha] ??= {
+        authorName: meta.authorName ?? '',
+        authorEmail: meta.authorEmail ?? '',
+        date: meta.date ?? '',
+        subject: meta.subject ?? '',
+      };
+      current = null;
+      continue;
+    }
+
+    const header = /^([0-9a-f]{40,64}) \d+ (\d+)/.exec(raw);
+    if (header) {
+      current = { sha: header[1]!, line: Number(header[2]) };
+      meta = {};
+      continue;
+    }
+
+    const separator = raw.indexOf(' ');
+    const key = raw.slice(0, separator);
+    const value = raw.slice(separator + 1);
+    if (key === 'author') meta.authorName = value;
+    else if (key === 'author-mail')
+      meta.authorEmail = value.replace(/^<|>$/g, '');
+    else if (key === 'author-time') {
+      meta.date = new Date(Number(value) * 1000).toISOString();
+    } else if (key === 'summary') meta.subject = value;
+  }
+
+  return { lines, commits };
+}
+
 const defaultRunGitCommand: GitCommandRunner = async (cwd, args, env) => {
   const { stdout } = await execFileAsync('git', ['-C', cwd, ...args], {
     encoding: 'utf8',
@@ -327,6 +420,31 @@ export class GitService extends DisposableService {
     };
   }
 
+  /**
+   * Branch, upstream, in-progress operation and per-file status of the
+   * repository containing `workspacePath`, as consumed by the agent's
+   * `git` env domain. Unlike {@link getMountedWorkspaceSummary} this also
+   * covers workspaces below the repository root.
+   */
+  public async getRepositoryStatus(
+    workspacePath: string,
+  ): Promise<GitRepositoryStatus | null> {
+    const repositoryInfo = await this.getRepositoryInfo(workspacePath);
+    if (!repositoryInfo) return null;
+
+    const [porcelain, gitDir] = await Promise.all([
+      this.runGitRaw(workspacePath, GIT_STATUS_ARGS),
+      this.runGit(workspacePath, ['rev-parse', '--absolute-git-dir']),
+    ]);
+    if (porcelain === null || !gitDir) return null;
+
+    return buildGitRepositoryStatus(
+      repositoryInfo.repoRoot,
+      parseGitStatusPorcelainV2(porcelain),
+      await detectGitOperation(gitDir.trim()),
+    );
+  }
+
   private isExactGitRoot(workspacePath: string, repoRoot: string): boolean {
     return normalizeGitPath(workspacePath) === normalizeGitPath(repoRoot);
   }
@@ -1014,6 +1132,281 @@ export class GitService extends DisposableService {
     }
   }
 
+  /**
+   * Stage whole paths (relative to the workspace), including deletions,
+   * or with `unstage` reset them in the index to `HEAD`.
+   */
+  public async stagePaths(
+    workspacePath: string,
+    paths: string[],
+    options: { unstage?: boolean } = {},
+  ): Promise<GitStageResult> {
+    if (paths.length === 0) return { ok: true };
+
+    const result = await this.runGitStrict(
+      workspacePath,
+      options.unstage
+        ? ['reset', '-q', '--', ...paths]
+        : ['add', '-A', '--', ...paths],
+      'stage',
+    );
+    if (result.exitCode === 0) return { ok: true };
+    return this.failure(
+      'stage-failed',
+      result.stderr ||
+        `Failed to ${options.unstage ? 'unstage' : 'stage'} ${paths.join(', ')}.`,
+    );
+  }
+
+  /**
+   * Apply a unified diff to the index only, so single hunks can be staged
+   * (or with `reverse`, unstaged) without touching the working tree.
+   * Patch paths are relative to the repository root, as `git diff`
+   * prints them. Hunk line counts are recounted, so hand-trimmed hunks
+   * apply as long as their context matches.
+   */
+  public async stagePatch(
+    workspacePath: string,
+    patch: string,
+    options: { reverse?: boolean } = {},
+  ): Promise<GitStageResult> {
+    const repositoryInfo = await this.getRepositoryInfo(workspacePath);
+    if (!repositoryInfo)
+      return this.failure('not-git-repo', 'Workspace is not a Git repo.');
+
+    const patchDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'stagewise-git-patch-'),
+    );
+    const patchPath = path.join(patchDir, 'index.patch');
+    try {
+      await fs.writeFile(
+        patchPath,
+        patch.endsWith('\n') ? patch : `${patch}\n`,
+        'utf8',
+      );
+      const result = await this.runGitStrict(
+        repositoryInfo.repoRoot,
+        [
+          'apply',
+          '--cached',
+          '--recount',
+          ...(options.reverse ? ['--reverse'] : []),
+          patchPath,
+        ],
+        'stage',
+      );
+      if (result.exitCode === 0) return { ok: true };
+      return this.failure(
+        'stage-failed',
+        result.stderr || 'Failed to apply the patch to the index.',
+      );
+    } finally {
+      await fs.rm(patchDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Create a commit, or amend `HEAD`. With `paths`, those paths are staged
+   * and committed alone (`--only`), leaving anything else the user staged
+   * in the index. Amending without a message keeps the previous one and
+   * appends the trailers with `--trailer` (git 2.32+).
+   */
+  public async commit(
+    workspacePath: string,
+    options: GitCommitOptions,
+  ): Promise<GitCommitResult> {
+    const message = options.message?.trim();
+    if (!message && !options.amend) {
+      return this.failure('commit-failed', 'A commit message is required.');
+    }
+
+    const paths = options.paths ?? [];
+    if (paths.length > 0) {
+      const staged = await this.stagePaths(workspacePath, paths);
+      if (!staged.ok) return staged;
+    }
+
+    const fullMessage = message
+      ? [
+          message,
+          ...(options.trailers?.length ? [options.trailers.join('\n')] : []),
+        ].join('\n\n')
+      : null;
+    const result = await this.runGitStrict(
+      workspacePath,
+      [
+        'commit',
+        ...(options.amend ? ['--amend'] : []),
+        ...(fullMessage
+          ? ['-m', fullMessage]
+          : [
+              '--no-edit',
+              ...(options.trailers ?? []).flatMap((trailer) => [
+                '--trailer',
+                trailer,
+              ]),
+            ]),
+        ...(paths.length > 0 ? ['--only', '--', ...paths] : []),
+      ],
+      'commit',
+    );
+    if (result.exitCode !== 0) {
+      const output = `${result.stdout}\n${result.stderr}`;
+      if (
+        /nothing (added )?to commit|no changes added to commit/.test(output)
+      ) {
+        return this.failure('nothing-to-commit', 'There is nothing to commit.');
+      }
+      return this.failure(
+        'commit-failed',
+        result.stderr || result.stdout || 'Failed to create the commit.',
+      );
+    }
+
+    const [log, show] = await Promise.all([
+      this.runGitStrict(workspacePath, ['log', '-1', LOG_FORMAT_ARG], 'query'),
+      this.runGitStrict(
+        workspacePath,
+        ['show', '--name-only', '-z', '--format=', 'HEAD'],
+        'query',
+      ),
+    ]);
+    const commit = parseGitLog(log.stdout)[0];
+    if (!commit) {
+      return this.failure(
+        'query-failed',
+        'The commit was created but could not be read back.',
+      );
+    }
+    return {
+      ok: true,
+      commit,
+      files: show.stdout.split('\0').filter(Boolean),
+    };
+  }
+
+  public async stash(
+    workspacePath: string,
+    options: GitStashOptions,
+  ): Promise<GitStashResult> {
+    let args: string[];
+    if (options.action === 'push') {
+      args = [
+        'stash',
+        'push',
+        ...(options.includeUntracked ? ['--include-untracked'] : []),
+        ...(options.message ? ['-m', options.message] : []),
+        ...(options.paths?.length ? ['--', ...options.paths] : []),
+      ];
+    } else {
+      if (options.ref?.startsWith('-')) {
+        return this.failure(
+          'invalid-name',
+          `Invalid stash reference ${options.ref}.`,
+        );
+      }
+      args = ['stash', options.action, ...(options.ref ? [options.ref] : [])];
+    }
+
+    const result = await this.runGitStrict(workspacePath, args, 'stash');
+    if (result.exitCode !== 0) {
+      return this.failure(
+        'stash-failed',
+        result.stderr || result.stdout || `git stash ${options.action} failed.`,
+      );
+    }
+    return { ok: true, output: result.stdout };
+  }
+
+  public async listStashes(
+    workspacePath: string,
+  ): Promise<GitStashEntry[] | null> {
+    const result = await this.runGitStrict(
+      workspacePath,
+      ['stash', 'list', '--format=%gd%x1f%s'],
+      'query',
+    );
+    if (result.exitCode !== 0) return null;
+    return result.stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [ref = '', message = ''] = line.split('\x1f');
+        return { ref, message };
+      });
+  }
+
+  /** Newest-first commits reachable from `ref` (default `HEAD`). */
+  public async getLog(
+    workspacePath: string,
+    options: GitLogOptions,
+  ): Promise<GitLogResult> {
+    if (options.ref?.startsWith('-')) {
+      return this.failure('invalid-name', `Invalid revision ${options.ref}.`);
+    }
+    const result = await this.runGitStrict(
+      workspacePath,
+      [
+        'log',
+        `--max-count=${options.maxCount}`,
+        LOG_FORMAT_ARG,
+        ...(options.ref ? [options.ref] : []),
+        '--',
+        ...(options.path ? [options.path] : []),
+      ],
+      'query',
+    );
+    if (result.exitCode !== 0) {
+      return this.failure(
+        'query-failed',
+        result.stderr || 'Failed to read the git log.',
+      );
+    }
+    return { ok: true, commits: parseGitLog(result.stdout) };
+  }
+
+  /**
+   * Blame a 1-based, inclusive line range of a file relative to the
+   * workspace. Uncommitted lines carry an all-zero sha. A range running
+   * past the end of the file is clamped.
+   */
+  public async getBlame(
+    workspacePath: string,
+    filePath: string,
+    range: { startLine: number; endLine: number },
+  ): Promise<GitBlameResult> {
+    const blame = (endLine: number) =>
+      this.runGitStrict(
+        workspacePath,
+        [
+          'blame',
+          '--line-porcelain',
+          '-L',
+          `${range.startLine},${endLine}`,
+          '--',
+          filePath,
+        ],
+        'query',
+      );
+
+    let result = await blame(range.endLine);
+    const lineCount = /has only (\d+) lines?/.exec(result.stderr);
+    if (
+      result.exitCode !== 0 &&
+      lineCount &&
+      Number(lineCount[1]) >= range.startLine
+    ) {
+      result = await blame(Number(lineCount[1]));
+    }
+    if (result.exitCode !== 0) {
+      return this.failure(
+        'query-failed',
+        result.stderr || `Failed to blame ${filePath}.`,
+      );
+    }
+    return { ok: true, ...parseGitBlame(result.stdout) };
+  }
+
   private failure(
     reason: GitActionFailure['reason'],
     message: string,
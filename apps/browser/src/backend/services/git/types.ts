@@ -109,7 +109,12 @@ export type GitActionFailureReason =
   | 'invalid-name'
   | 'branch-create-failed'
   | 'checkout-failed'
-  | 'worktree-create-failed';
+  | 'worktree-create-failed'
+  | 'stage-failed'
+  | 'nothing-to-commit'
+  | 'commit-failed'
+  | 'stash-failed'
+  | 'query-failed';
 
 export type GitActionFailure = {
   ok: false;
@@ -140,6 +145,82 @@ export type GitCreateWorktreeOptions = {
   sourceBranch: string;
 };
 
+export type GitCommitInfo = {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  /** Author date, ISO 8601. */
+  date: string;
+  subject: string;
+};
+
+export type GitCommitOptions = {
+  /** Commit message. Required unless `amend` keeps the previous one. */
+  message?: string;
+  /**
+   * Paths (relative to the workspace) to stage and commit. Only these
+   * paths are committed; other staged changes stay in the index. When
+   * omitted, the current index is committed.
+   */
+  paths?: string[];
+  amend?: boolean;
+  /**
+   * `Key: value` trailer lines appended to the message, or to the kept
+   * message when amending without one.
+   */
+  trailers?: string[];
+};
+
+export type GitCommitResult =
+  | { ok: true; commit: GitCommitInfo; files: string[] }
+  | GitActionFailure;
+
+export type GitStageResult = { ok: true } | GitActionFailure;
+
+export type GitStashOptions =
+  | {
+      action: 'push';
+      message?: string;
+      includeUntracked?: boolean;
+      paths?: string[];
+    }
+  | { action: 'pop' | 'apply' | 'drop'; ref?: string };
+
+export type GitStashResult = { ok: true; output: string } | GitActionFailure;
+
+export type GitStashEntry = {
+  /** Reflog selector, e.g. `stash@{0}`. */
+  ref: string;
+  message: string;
+};
+
+export type GitLogOptions = {
+  maxCount: number;
+  ref?: string;
+  /** Path (relative to the workspace) to limit the history to. */
+  path?: string;
+};
+
+export type GitLogResult =
+  | { ok: true; commits: GitCommitInfo[] }
+  | GitActionFailure;
+
+export type GitBlameLine = {
+  line: number;
+  /** All zeroes for lines that are not committed yet. */
+  sha: string;
+  content: string;
+};
+
+export type GitBlameResult =
+  | {
+      ok: true;
+      lines: GitBlameLine[];
+      /** Commit metadata keyed by sha, shared by the blamed lines. */
+      commits: Record<string, Omit<GitCommitInfo, 'sha'>>;
+    }
+  | GitActionFailure;
+
 export type GitDiffNumstatEntry = MountedWorkspaceGitDiffEntry;
 export type GitDiffNumstatSummary = MountedWorkspaceGitDiffSummary;
 
@@ -27,6 +27,7 @@ import {
   type MountDescriptor,
 } from '../sandbox/ipc';
 import {
+  type BlamedHunk,
   DEFAULT_TOOL_APPROVAL_MODE,
   type WorkspaceAgentSettings,
   type ToolApprovalMode,
@@ -35,6 +36,7 @@ import type { Attachment } from '@shared/karton-contracts/ui/agent/metadata';
 import type { KartonService } from '@/services/karton';
 import { DisposableService } from '@/services/disposable';
 import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { ToolCallFileContentEdit } from '@stagewise/agent-core/types/diff-history';
 import type { WindowLayoutService } from '@/services/window-layout';
 import type { AuthService } from '@/services/auth';
 import type { TelemetryService } from '@/services/telemetry';
@@ -50,6 +52,8 @@ import { createFileDiffHandler } from './utils/sandbox-callbacks';
 import type { AttachmentsService } from '@stagewise/agent-core/attachments';
 import { getProcessTreeSnapshots } from '@/utils/port-utils';
 import type {
+  EditorLspPosition,
+  EditorLspRange,
   RunningServer,
   RunningServerOwner,
 } from '@shared/karton-contracts/ui';
@@ -66,6 +70,10 @@ import type { ApiClient } from '@stagewise/api-client';
 import { getLintingDiagnostics as getLintingDiagnosticsTool } from './tools/file-modification/get-linting-diagnostics';
 import { listLibraryDocs as listLibraryDocsTool } from './tools/research/list-library-docs';
 import { searchInLibraryDocs as searchInLibraryDocsTool } from './tools/research/search-in-library-docs';
+import {
+  type ChatHistorySearcher,
+  searchChatHistory as searchChatHistoryTool,
+} from './tools/research/search-chat-history';
 import {
   makeUniversalTools,
   type AgentManagerToolboxPort,
@@ -75,6 +83,23 @@ import {
 import type { BaseAgentToolboxView } from '@stagewise/agent-core/agents';
 import { executeSandboxJs as executeSandboxJsTool } from './tools/browser/execute-sandbox-js';
 import { readConsoleLogs as readConsoleLogsTool } from './tools/browser/read-console-logs';
+import { readNetworkRequests as readNetworkRequestsTool } from './tools/browser/read-network-requests';
+import { mcpTool } from './tools/mcp/mcp-tool';
+import { McpClientService, type McpToolEntry } from './services/mcp-client';
+import { EditorLspService } from './services/editor-lsp';
+import { isMcpToolName } from '@shared/mcp-servers';
+import { gitBlame as gitBlameTool } from './tools/git/git-blame';
+import { gitCommit as gitCommitTool } from './tools/git/git-commit';
+import { gitLog as gitLogTool } from './tools/git/git-log';
+import { gitStage as gitStageTool } from './tools/git/git-stage';
+import { gitStash as gitStashTool } from './tools/git/git-stash';
+import type { GitToolDeps } from './tools/git/shared';
+import { findReferences as findReferencesTool } from './tools/code-navigation/find-references';
+import { getHoverInfo as getHoverInfoTool } from './tools/code-navigation/get-hover-info';
+import { goToDefinition as goToDefinitionTool } from './tools/code-navigation/go-to-definition';
+import { renameSymbol as renameSymbolTool } from './tools/code-navigation/rename-symbol';
+import { searchWorkspaceSymbols as searchWorkspaceSymbolsTool } from './tools/code-navigation/search-workspace-symbols';
+import type { CodeNavigationToolDeps } from './tools/code-navigation/shared';
 import {
   askUserQuestions as askUserQuestionsTool,
   advanceOrCompleteQuestion,
@@ -145,6 +170,11 @@ export class ToolboxService
    * smart-approval classification, which degrades gracefully if unset.
    */
   private modelProviderService: ModelProviderService | null = null;
+  /**
+   * Injected via `setChatHistorySearcher` once the agent manager exists;
+   * `searchChatHistory` is unavailable until then.
+   */
+  private chatHistorySearcher: ChatHistorySearcher | null = null;
   private pluginsRuntime: ClientRuntimeNode | null = null;
   private globalSkillsRuntimes = new Map<string, ClientRuntimeNode>();
   private appsRuntimes = new Map<string, ClientRuntimeNode>();
@@ -264,6 +294,9 @@ export class ToolboxService
   private logsWatcher: FSWatcher | null = null;
   private logsWatcherDebounce: ReturnType<typeof setTimeout> | null = null;
   private logIngestService: LogIngestService | null = null;
+  private mcpClientService: McpClientService | null = null;
+  private editorLspService: EditorLspService | null = null;
+  private unsubMcpPreferenceSync: (() => void) | null = null;
 
   private globalSkillsWatchers: FSWatcher[] = [];
   private globalSkillsWatcherDebounce: ReturnType<typeof setTimeout> | null =
@@ -389,6 +422,10 @@ export class ToolboxService
     this.shellService?.setWatcherEventHandler(handler);
   }
 
+  public setChatHistorySearcher(searcher: ChatHistorySearcher): void {
+    this.chatHistorySearcher = searcher;
+  }
+
   public setWorkspaceLastUsedAtResolver(
     resolver: (workspacePaths: string[]) => Promise<Map<string, number>>,
   ): void {
@@ -402,6 +439,18 @@ export class ToolboxService
     );
   }
 
+  /**
+   * Live LSP diagnostics of the workspaces mounted for `agentInstanceId`.
+   * Narrow accessor used by the host `lspDiagnostics` domain adapter.
+   */
+  public getLspDiagnostics(
+    agentInstanceId: string,
+  ): import('./services/lsp').MountedWorkspaceDiagnostics[] {
+    return (
+      this.mountManagerService?.getMountedLspDiagnostics(agentInstanceId) ?? []
+    );
+  }
+
   /**
    * Snapshot of shell sessions associated with `agentInstanceId`.
    *
@@ -625,6 +674,11 @@ export class ToolboxService
       },
     };
 
+    if (isMcpToolName(tool)) {
+      const mcpTools = await this.getDynamicTools(agentInstanceId);
+      return mcpTools[tool] ?? null;
+    }
+
     switch (tool) {
       case 'write':
       case 'read':
@@ -642,6 +696,9 @@ export class ToolboxService
       case 'searchInLibraryDocs':
         if (!this.apiClient) return null;
         return searchInLibraryDocsTool(this.apiClient);
+      case 'searchChatHistory':
+        if (!this.chatHistorySearcher) return null;
+        return searchChatHistoryTool(this.chatHistorySearcher, agentInstanceId);
       case 'getLintingDiagnostics': {
         if (!mountedLspServices) return null;
         return getLintingDiagnosticsTool(mountedLspServices);
@@ -652,6 +709,12 @@ export class ToolboxService
       case 'readConsoleLogs':
         if (!this.windowLayoutService) return null;
         return readConsoleLogsTool(this.windowLayoutService, agentInstanceId);
+      case 'readNetworkRequests':
+        if (!this.windowLayoutService) return null;
+        return readNetworkRequestsTool(
+          this.windowLayoutService,
+          agentInstanceId,
+        );
       case 'askUserQuestions':
         return askUserQuestionsTool(
           this.uiKarton,
@@ -685,12 +748,132 @@ export class ToolboxService
           smartApproval,
         );
       }
+      case 'gitLog':
+        return gitLogTool(this.getGitToolDeps(agentInstanceId));
+      case 'gitBlame':
+        return gitBlameTool(this.getGitToolDeps(agentInstanceId));
+      case 'gitStage':
+        return gitStageTool(this.getGitToolDeps(agentInstanceId));
+      case 'gitCommit':
+        return gitCommitTool({
+          ...this.getGitToolDeps(agentInstanceId),
+          getTurnToolCallIds: () =>
+            this.getCurrentTurnToolCallIds(agentInstanceId),
+          getFileEditsForToolCalls: (toolCallIds) =>
+            this.diffHistoryService.getFileEditsForToolCalls(
+              agentInstanceId,
+              toolCallIds,
+            ),
+        });
+      case 'gitStash':
+        return gitStashTool(this.getGitToolDeps(agentInstanceId));
+      case 'goToDefinition':
+        return goToDefinitionTool(
+          this.getCodeNavigationToolDeps(agentInstanceId),
+        );
+      case 'findReferences':
+        return findReferencesTool(
+          this.getCodeNavigationToolDeps(agentInstanceId),
+        );
+      case 'searchWorkspaceSymbols':
+        return searchWorkspaceSymbolsTool(
+          this.getCodeNavigationToolDeps(agentInstanceId),
+        );
+      case 'getHoverInfo':
+        return getHoverInfoTool(
+          this.getCodeNavigationToolDeps(agentInstanceId),
+        );
+      case 'renameSymbol':
+        return renameSymbolTool({
+          ...this.getCodeNavigationToolDeps(agentInstanceId),
+          agentInstanceId,
+          diffHistoryService: this.diffHistoryService,
+          syncFileWithLsp: async (absolutePath, content) =>
+            this.mountManagerService?.syncFileWithLsp(
+              agentInstanceId,
+              absolutePath,
+              content,
+            ),
+          logger: this.logger,
+        });
       default:
         this.logger.error('[ToolboxService] Tool not found', { tool });
         return null;
     }
   }
 
+  private getGitToolDeps(agentInstanceId: string): GitToolDeps {
+    return {
+      gitService: this.gitService,
+      getMounts: () =>
+        new Map(
+          (
+            this.mountManagerService?.getMountedPathsWithRuntimes(
+              agentInstanceId,
+            ) ?? []
+          ).map((mount) => [
+            mount.prefix,
+            { path: mount.path, permissions: mount.permissions },
+          ]),
+        ),
+      getToolApprovalMode: () =>
+        this.uiKarton.state.agents.instances[agentInstanceId]?.state
+          .toolApprovalMode ?? DEFAULT_TOOL_APPROVAL_MODE,
+      recordPendingApproval: (toolCallId, explanation) =>
+        this.hostAgentStateMutations.recordPendingApproval(
+          agentInstanceId,
+          toolCallId,
+          explanation,
+        ),
+    };
+  }
+
+  private getCodeNavigationToolDeps(
+    agentInstanceId: string,
+  ): CodeNavigationToolDeps {
+    return {
+      getMounts: () => {
+        const lspServices =
+          this.mountManagerService?.getMountedLspServices(agentInstanceId);
+        return new Map(
+          (
+            this.mountManagerService?.getMountedPathsWithRuntimes(
+              agentInstanceId,
+            ) ?? []
+          ).map((mount) => [
+            mount.prefix,
+            {
+              path: mount.path,
+              permissions: mount.permissions,
+              lspService: lspServices?.get(mount.prefix),
+            },
+          ]),
+        );
+      },
+    };
+  }
+
+  /**
+   * Tool call ids of the agent's current turn (every tool part after the
+   * last user message), oldest first.
+   */
+  private getCurrentTurnToolCallIds(agentInstanceId: string): string[] {
+    const history =
+      this.uiKarton.state.agents.instances[agentInstanceId]?.state.history ??
+      [];
+    const toolCallIds: string[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      const message = history[i]!;
+      if (message.role === 'user') break;
+      for (const part of [...message.parts].reverse()) {
+        if ('toolCallId' in part && typeof part.toolCallId === 'string') {
+          toolCallIds.push(part.toolCallId);
+        }
+      }
+    }
+    return toolCallIds.reverse();
+  }
+
   /**
    * Used by the agent to undo all tool calls given by IDs.
    *
@@ -710,6 +893,33 @@ export class ToolboxService
     return this.diffHistoryService.undoToolCalls(toolCallIds, agentInstanceId);
   }
 
+  /**
+   * Pending hunks of an agent's edits to `filePath` for the hunk review UI.
+   * External (binary or large) files are reviewed as a single hunk.
+   */
+  public async getPendingHunks(
+    agentInstanceId: string,
+    filePath: string,
+  ): Promise<BlamedHunk[]> {
+    const diff = await this.diffHistoryService.getPendingFileDiff(
+      agentInstanceId,
+      filePath,
+    );
+    if (!diff) return [];
+    if (!diff.isExternal) return diff.hunks;
+    return [
+      {
+        id: diff.hunkId,
+        oldStart: 0,
+        oldLines: 0,
+        newStart: 0,
+        newLines: 0,
+        lines: [],
+        contributors: [diff.contributor],
+      },
+    ];
+  }
+
   public getWorkspaceSnapshot(agentInstanceId: string): WorkspaceSnapshot {
     return (
       this.mountManagerService?.getWorkspaceSnapshot(agentInstanceId) ?? {
@@ -1357,6 +1567,22 @@ export class ToolboxService
     await this.diffHistoryService.finalizePendingEditsForAgent(agentInstanceId);
   }
 
+  public async getToolCallContentEdits(
+    agentInstanceId: string,
+  ): Promise<ToolCallFileContentEdit[]> {
+    return this.diffHistoryService.getToolCallContentEdits(agentInstanceId);
+  }
+
+  public async importToolCallContentEdits(
+    agentInstanceId: string,
+    edits: ToolCallFileContentEdit[],
+  ): Promise<number> {
+    return this.diffHistoryService.importToolCallContentEdits(
+      agentInstanceId,
+      edits,
+    );
+  }
+
   /**
    * Return distinct filepaths that an agent has edited.
    * Lightweight proxy to DiffHistoryService.
@@ -1431,6 +1657,53 @@ export class ToolboxService
     this.cancelPendingAgentDialogs(agentInstanceId);
   }
 
+  /**
+   * Tools of the MCP servers available to the agent: the user's servers
+   * and the trusted servers of the agent's mounted workspaces.
+   */
+  public async getDynamicTools(
+    agentInstanceId: string,
+  ): Promise<Record<string, Tool>> {
+    const getToolApprovalMode = (): ToolApprovalMode =>
+      this.uiKarton.state.agents.instances[agentInstanceId]?.state
+        .toolApprovalMode ?? DEFAULT_TOOL_APPROVAL_MODE;
+    const mcpClient = this.mcpClientService;
+    if (!mcpClient) return {};
+    const entries = await this.getMcpToolEntries(mcpClient, agentInstanceId);
+    return Object.fromEntries(
+      entries.map((entry) => [
+        entry.name,
+        mcpTool({ mcpClient, getToolApprovalMode }, entry),
+      ]),
+    );
+  }
+
+  private async getMcpToolEntries(
+    mcpClient: McpClientService,
+    agentInstanceId: string,
+  ): Promise<McpToolEntry[]> {
+    const workspacePaths =
+      this.mountManagerService
+        ?.getMountedPathsWithRuntimes(agentInstanceId)
+        .map((mount) => mount.path) ?? [];
+    try {
+      return await mcpClient.getTools(workspacePaths);
+    } catch (error) {
+      this.report(error as Error, 'getMcpTools');
+      return [];
+    }
+  }
+
+  /**
+   * Re-reads the MCP server declarations of the user and of all mounted
+   * workspaces so settings show their status before an agent uses them.
+   */
+  private refreshMcpServers(): void {
+    void this.mcpClientService
+      ?.refresh([...this.getAllMountedPaths()], { allWorkspaces: true })
+      .catch((error) => this.report(error as Error, 'refreshMcpServers'));
+  }
+
   private async initialize(): Promise<void> {
     this.logger.debug('[ToolboxService] Initializing...');
 
@@ -1458,8 +1731,44 @@ export class ToolboxService
     this.mountManagerService.setOnMountsChanged((agentInstanceId) => {
       this.pushMountsToSandbox(agentInstanceId);
       void this.rebuildSkillsList(agentInstanceId);
+      this.refreshMcpServers();
     });
 
+    this.mcpClientService = new McpClientService({
+      logger: this.logger,
+      getUserServers: () =>
+        this.uiKarton.state.preferences?.agent?.mcp?.servers ?? {},
+      getTrustedWorkspaceServers: () =>
+        this.uiKarton.state.preferences?.agent?.mcp?.trustedWorkspaceServers ??
+        {},
+      getBaseEnv: async () => (await this.resolvedEnvPromise) ?? {},
+      onStatusChange: (statuses) => {
+        this.uiKarton.setState((draft) => {
+          draft.mcpServers = statuses;
+        });
+      },
+    });
+    this.editorLspService = new EditorLspService({
+      logger: this.logger,
+      getLspServiceForFile: (absolutePath) =>
+        this.mountManagerService?.getLspServiceForFile(absolutePath),
+      onDiagnosticsChange: (absolutePath, diagnostics) => {
+        this.uiKarton.setState((draft) => {
+          if (diagnostics)
+            draft.editorLsp.diagnostics[absolutePath] = diagnostics;
+          else delete draft.editorLsp.diagnostics[absolutePath];
+        });
+      },
+    });
+
+    // Reconnect servers whose config or trust changed in settings.
+    this.unsubMcpPreferenceSync = syncDerivedState(
+      this.uiKarton,
+      (state) => state.preferences?.agent?.mcp,
+      () => this.refreshMcpServers(),
+    );
+    this.refreshMcpServers();
+
     // Rebuild the slash-command list whenever skill/plugin preferences change
     // so toggles in Agent Settings take effect immediately.
     this.unsubPreferenceSync = syncDerivedState(
@@ -1613,6 +1922,93 @@ export class ToolboxService
           toolCallIds,
         ),
     );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.getPendingHunks',
+      async (
+        _callingClientId: string,
+        agentInstanceId: string,
+        filePath: string,
+      ) => this.getPendingHunks(agentInstanceId, filePath),
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.acceptHunks',
+      async (
+        _callingClientId: string,
+        agentInstanceId: string,
+        hunkIds: string[],
+      ) => this.diffHistoryService.acceptHunks(agentInstanceId, hunkIds),
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.rejectHunks',
+      async (
+        _callingClientId: string,
+        agentInstanceId: string,
+        hunkIds: string[],
+      ) => this.diffHistoryService.rejectHunks(agentInstanceId, hunkIds),
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.reconnectMcpServer',
+      async (_callingClientId: string, key: string) => {
+        await this.mcpClientService?.reconnect(key, [
+          ...this.getAllMountedPaths(),
+        ]);
+      },
+    );
+
+    // Language features of the file editor
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.openFile',
+      async (_callingClientId: string, absolutePath: string, content: string) =>
+        (await this.editorLspService?.openFile(absolutePath, content)) ?? false,
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.updateFile',
+      async (_callingClientId: string, absolutePath: string, content: string) =>
+        this.editorLspService?.updateFile(absolutePath, content),
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.closeFile',
+      async (_callingClientId: string, absolutePath: string) =>
+        this.editorLspService?.closeFile(absolutePath),
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.hover',
+      async (
+        _callingClientId: string,
+        absolutePath: string,
+        position: EditorLspPosition,
+      ) => (await this.editorLspService?.hover(absolutePath, position)) ?? null,
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.definition',
+      async (
+        _callingClientId: string,
+        absolutePath: string,
+        position: EditorLspPosition,
+      ) =>
+        (await this.editorLspService?.definition(absolutePath, position)) ?? [],
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.completion',
+      async (
+        _callingClientId: string,
+        absolutePath: string,
+        position: EditorLspPosition,
+      ) =>
+        (await this.editorLspService?.completion(absolutePath, position)) ?? {
+          items: [],
+          isIncomplete: false,
+        },
+    );
+    this.uiKarton.registerServerProcedureHandler(
+      'toolbox.editorLsp.codeActions',
+      async (
+        _callingClientId: string,
+        absolutePath: string,
+        range: EditorLspRange,
+      ) =>
+        (await this.editorLspService?.codeActions(absolutePath, range)) ?? [],
+    );
 
     // Use arrow function to preserve `this` binding when called as callback
     this.authService.registerAuthStateChangeCallback(() =>
@@ -1926,6 +2322,8 @@ export class ToolboxService
 
     this.unsubPreferenceSync?.();
     this.unsubPreferenceSync = null;
+    this.unsubMcpPreferenceSync?.();
+    this.unsubMcpPreferenceSync = null;
 
     this.apiClient = null;
 
@@ -1942,6 +2340,12 @@ export class ToolboxService
     await this.logIngestService?.teardown();
     this.logIngestService = null;
 
+    await this.mcpClientService?.teardown();
+    this.mcpClientService = null;
+
+    await this.editorLspService?.teardown();
+    this.editorLspService = null;
+
     await this.mountManagerService?.teardown();
     this.mountManagerService = null;
 
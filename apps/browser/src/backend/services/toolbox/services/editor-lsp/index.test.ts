@@ -0,0 +1,179 @@
+import { EventEmitter } from 'node:events';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { describe, expect, it, vi } from 'vitest';
+import type { Logger } from '@/services/logger';
+import type { EditorLspDiagnostic } from '@shared/karton-contracts/ui';
+import type { LspService } from '../lsp';
+import type { CodeAction, Diagnostic } from '../lsp/types';
+import { EditorLspService } from '.';
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const filePath = path.resolve('/workspace/src/index.ts');
+const fileUri = pathToFileURL(filePath).toString();
+
+const range = (line: number, character: number, length: number) => ({
+  start: { line, character },
+  end: { line, character: character + length },
+});
+
+function createLspService(
+  options: { diagnostics?: Diagnostic[]; actions?: CodeAction[] } = {},
+) {
+  const events = new EventEmitter();
+  const lspService = {
+    touchFile: vi.fn(async () => {}),
+    hasClientsForFile: vi.fn(async () => true),
+    updateFile: vi.fn(async () => {}),
+    closeFile: vi.fn(async () => {}),
+    getDiagnosticsForFile: vi.fn(async () =>
+      (options.diagnostics ?? []).map((diagnostic) => ({
+        serverID: 'typescript',
+        diagnostic,
+      })),
+    ),
+    codeAction: vi.fn(async () => [
+      { serverID: 'typescript', actions: options.actions ?? [] },
+    ]),
+    on: vi.fn((event: string, listener: (path: string) => void) =>
+      events.on(event, listener),
+    ),
+    off: vi.fn((event: string, listener: (path: string) => void) =>
+      events.off(event, listener),
+    ),
+  };
+  return {
+    lspService: lspService as unknown as LspService,
+    mock: lspService,
+    emitDiagnostics: (absolutePath: string) =>
+      events.emit('diagnostics', absolutePath),
+  };
+}
+
+function createService(lspService: LspService | undefined) {
+  const diagnostics = new Map<string, EditorLspDiagnostic[] | null>();
+  const service = new EditorLspService({
+    logger,
+    getLspServiceForFile: () => lspService,
+    onDiagnosticsChange: (absolutePath, value) =>
+      diagnostics.set(absolutePath, value),
+  });
+  return { service, diagnostics };
+}
+
+describe('EditorLspService', () => {
+  it('syncs the editor content and publishes diagnostics of open files', async () => {
+    const { lspService, mock, emitDiagnostics } = createLspService({
+      diagnostics: [
+        { range: range(0, 6, 1), message: 'Unused variable', severity: 4 },
+      ],
+    });
+    const { service, diagnostics } = createService(lspService);
+
+    await expect(service.openFile(filePath, 'const a = 1;')).resolves.toBe(
+      true,
+    );
+    expect(mock.touchFile).toHaveBeenCalledWith(filePath);
+    expect(mock.updateFile).toHaveBeenCalledWith(filePath, 'const a = 1;');
+    expect(diagnostics.get(filePath)).toEqual([
+      { range: range(0, 6, 1), message: 'Unused variable', severity: 'hint' },
+    ]);
+
+    // Diagnostics of files that are not open in an editor are ignored
+    emitDiagnostics(path.resolve('/workspace/src/other.ts'));
+    await vi.waitFor(() =>
+      expect(mock.getDiagnosticsForFile).toHaveBeenCalledTimes(1),
+    );
+    emitDiagnostics(filePath);
+    await vi.waitFor(() =>
+      expect(mock.getDiagnosticsForFile).toHaveBeenCalledTimes(2),
+    );
+  });
+
+  it('closes the file only when the last editor closes it', async () => {
+    const { lspService, mock } = createLspService();
+    const { service, diagnostics } = createService(lspService);
+
+    await service.openFile(filePath, 'a');
+    await service.openFile(filePath, 'a');
+    await service.closeFile(filePath);
+    expect(mock.closeFile).not.toHaveBeenCalled();
+
+    await service.closeFile(filePath);
+    expect(mock.closeFile).toHaveBeenCalledWith(filePath);
+    expect(mock.off).toHaveBeenCalledTimes(1);
+    expect(diagnostics.get(filePath)).toBeNull();
+
+    // Updates of closed files must not reopen them in the language servers
+    await service.updateFile(filePath, 'b');
+    expect(mock.updateFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports files no language server handles', async () => {
+    const { lspService, mock } = createLspService();
+    mock.hasClientsForFile.mockResolvedValue(false);
+
+    await expect(
+      createService(lspService).service.openFile(filePath, 'a'),
+    ).resolves.toBe(false);
+    await expect(
+      createService(undefined).service.openFile(filePath, 'a'),
+    ).resolves.toBe(false);
+  });
+
+  it('offers only code actions that edit the requested file', async () => {
+    const fix = { range: range(0, 0, 5), newText: 'const' };
+    const { lspService } = createLspService({
+      actions: [
+        {
+          title: 'Change to const',
+          kind: 'quickfix',
+          isPreferred: true,
+          edit: { changes: { [fileUri]: [fix] } },
+        },
+        {
+          title: 'Add missing import',
+          edit: {
+            documentChanges: [
+              { textDocument: { uri: fileUri, version: 1 }, edits: [fix] },
+            ],
+          },
+        },
+        {
+          title: 'Move to a new file',
+          edit: {
+            changes: {
+              [fileUri]: [fix],
+              [pathToFileURL(path.resolve('/workspace/src/new.ts')).toString()]:
+                [fix],
+            },
+          },
+        },
+        {
+          title: 'Organize imports',
+          command: { title: 'Organize imports', command: 'organize' },
+        },
+      ],
+    });
+    const { service } = createService(lspService);
+    await service.openFile(filePath, 'let a = 1;');
+
+    await expect(
+      service.codeActions(filePath, range(0, 0, 3)),
+    ).resolves.toEqual([
+      {
+        title: 'Change to const',
+        kind: 'quickfix',
+        isPreferred: true,
+        edits: [fix],
+      },
+      { title: 'Add missing import', edits: [fix] },
+    ]);
+  });
+});
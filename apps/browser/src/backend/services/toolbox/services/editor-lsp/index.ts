@@ -0,0 +1,358 @@
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type {
+  EditorLspCodeAction,
+  EditorLspCompletionItem,
+  EditorLspCompletionList,
+  EditorLspDiagnostic,
+  EditorLspHover,
+  EditorLspLocation,
+  EditorLspPosition,
+  EditorLspRange,
+  EditorLspTextEdit,
+} from '@shared/karton-contracts/ui';
+import {
+  type CodeAction,
+  type CompletionItem,
+  type Diagnostic,
+  DiagnosticSeverity,
+  type Hover,
+  InsertTextFormat,
+  type Location,
+  type LocationLink,
+  type MarkedString,
+  type MarkupContent,
+} from 'vscode-languageserver-types';
+import { DisposableService } from '@/services/disposable';
+import type { Logger } from '@/services/logger';
+import type { LspService } from '../lsp';
+
+/**
+ * Completion lists of TypeScript can hold thousands of items. Monaco
+ * filters on its own while the user types, so only the best-ranked items
+ * are sent and the list is marked incomplete to ask again on the next key.
+ */
+const MAX_COMPLETION_ITEMS = 500;
+
+export interface EditorLspServiceDeps {
+  logger: Logger;
+  /** LSP service of the mounted workspace that contains the file. */
+  getLspServiceForFile: (absolutePath: string) => LspService | undefined;
+  /** `null` when the file was closed in every editor. */
+  onDiagnosticsChange: (
+    absolutePath: string,
+    diagnostics: EditorLspDiagnostic[] | null,
+  ) => void;
+}
+
+type OpenDocument = {
+  lspService: LspService;
+  /** Path as sent by the editor, which keys the published diagnostics. */
+  editorPath: string;
+  /** Number of editors that show the file. */
+  openCount: number;
+};
+
+/**
+ * Serves the file editor from the same language servers the agent uses.
+ *
+ * Files open in an editor are synced with the editor's (possibly unsaved)
+ * content and their diagnostics are pushed through `onDiagnosticsChange`.
+ * Language servers are shared with the agent: closing a file in the editor
+ * closes it in the servers, and the agent's tools reopen it from disk on
+ * their next touch.
+ */
+export class EditorLspService extends DisposableService {
+  private readonly deps: EditorLspServiceDeps;
+  private readonly documents = new Map<string, OpenDocument>();
+  private readonly diagnosticsListeners = new Map<
+    LspService,
+    (absolutePath: string) => void
+  >();
+
+  public constructor(deps: EditorLspServiceDeps) {
+    super();
+    this.deps = deps;
+  }
+
+  public async openFile(
+    absolutePath: string,
+    content: string,
+  ): Promise<boolean> {
+    this.assertNotDisposed();
+    const filePath = path.resolve(absolutePath);
+    const lspService = this.deps.getLspServiceForFile(filePath);
+    if (!lspService) return false;
+
+    await lspService.touchFile(filePath);
+    if (!(await lspService.hasClientsForFile(filePath))) return false;
+
+    const document = this.documents.get(filePath);
+    if (document) {
+      document.openCount++;
+    } else {
+      this.documents.set(filePath, {
+        lspService,
+        editorPath: absolutePath,
+        openCount: 1,
+      });
+      this.subscribe(lspService);
+    }
+    await lspService.updateFile(filePath, content);
+    await this.publishDiagnostics(filePath);
+    return true;
+  }
+
+  public async updateFile(
+    absolutePath: string,
+    content: string,
+  ): Promise<void> {
+    const document = this.documents.get(path.resolve(absolutePath));
+    await document?.lspService.updateFile(absolutePath, content);
+  }
+
+  public async closeFile(absolutePath: string): Promise<void> {
+    const filePath = path.resolve(absolutePath);
+    const document = this.documents.get(filePath);
+    if (!document) return;
+    document.openCount--;
+    if (document.openCount > 0) return;
+
+    this.documents.delete(filePath);
+    this.unsubscribeIfUnused(document.lspService);
+    this.deps.onDiagnosticsChange(document.editorPath, null);
+    await document.lspService.closeFile(filePath);
+  }
+
+  public async hover(
+    absolutePath: string,
+    position: EditorLspPosition,
+  ): Promise<EditorLspHover | null> {
+    const lspService = this.getOpenLspService(absolutePath);
+    if (!lspService) return null;
+    const results = await lspService.hover(absolutePath, position);
+    const contents = results
+      .map((result) => hoverToMarkdown(result.hover.contents).trim())
+      .filter(Boolean);
+    if (contents.length === 0) return null;
+    const range = results.find((result) => result.hover.range)?.hover.range;
+    return { contents, ...(range ? { range } : {}) };
+  }
+
+  public async definition(
+    absolutePath: string,
+    position: EditorLspPosition,
+  ): Promise<EditorLspLocation[]> {
+    const lspService = this.getOpenLspService(absolutePath);
+    if (!lspService) return [];
+    const results = await lspService.definition(absolutePath, position);
+    const locations: EditorLspLocation[] = [];
+    const seen = new Set<string>();
+    for (const location of results.flatMap((result) => result.locations)) {
+      const converted = toEditorLocation(location);
+      if (!converted) continue;
+      const key = `${converted.absolutePath}:${converted.range.start.line}:${converted.range.start.character}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      locations.push(converted);
+    }
+    return locations;
+  }
+
+  public async completion(
+    absolutePath: string,
+    position: EditorLspPosition,
+  ): Promise<EditorLspCompletionList> {
+    const lspService = this.getOpenLspService(absolutePath);
+    if (!lspService) return { items: [], isIncomplete: false };
+    const results = await lspService.completion(absolutePath, position);
+    const items = results
+      .flatMap((result) => result.items)
+      .sort((a, b) =>
+        (a.sortText ?? a.label).localeCompare(b.sortText ?? b.label),
+      );
+    return {
+      items: items.slice(0, MAX_COMPLETION_ITEMS).map(toEditorCompletionItem),
+      isIncomplete: items.length > MAX_COMPLETION_ITEMS,
+    };
+  }
+
+  public async codeActions(
+    absolutePath: string,
+    range: EditorLspRange,
+  ): Promise<EditorLspCodeAction[]> {
+    const lspService = this.getOpenLspService(absolutePath);
+    if (!lspService) return [];
+    const results = await lspService.codeAction(absolutePath, range);
+    const uri = pathToFileURL(path.resolve(absolutePath)).toString();
+    const actions: EditorLspCodeAction[] = [];
+    for (const action of results.flatMap((result) => result.actions)) {
+      const edits = getSingleFileEdits(action, uri);
+      if (!edits) continue;
+      actions.push({
+        title: action.title,
+        ...(action.kind ? { kind: action.kind } : {}),
+        ...(action.isPreferred ? { isPreferred: true } : {}),
+        edits,
+      });
+    }
+    return actions;
+  }
+
+  protected onTeardown(): void {
+    for (const [lspService, listener] of this.diagnosticsListeners) {
+      lspService.off('diagnostics', listener);
+    }
+    this.diagnosticsListeners.clear();
+    this.documents.clear();
+  }
+
+  private getOpenLspService(absolutePath: string): LspService | undefined {
+    return this.documents.get(path.resolve(absolutePath))?.lspService;
+  }
+
+  private subscribe(lspService: LspService): void {
+    if (this.diagnosticsListeners.has(lspService)) return;
+    const listener = (absolutePath: string) => {
+      const filePath = path.resolve(absolutePath);
+      if (!this.documents.has(filePath)) return;
+      void this.publishDiagnostics(filePath);
+    };
+    lspService.on('diagnostics', listener);
+    this.diagnosticsListeners.set(lspService, listener);
+  }
+
+  private unsubscribeIfUnused(lspService: LspService): void {
+    for (const document of this.documents.values()) {
+      if (document.lspService === lspService) return;
+    }
+    const listener = this.diagnosticsListeners.get(lspService);
+    if (listener) lspService.off('diagnostics', listener);
+    this.diagnosticsListeners.delete(lspService);
+  }
+
+  private async publishDiagnostics(filePath: string): Promise<void> {
+    const document = this.documents.get(filePath);
+    if (!document) return;
+    try {
+      const diagnostics =
+        await document.lspService.getDiagnosticsForFile(filePath);
+      // The file may have been closed while the diagnostics were collected
+      if (this.documents.get(filePath) !== document) return;
+      this.deps.onDiagnosticsChange(
+        document.editorPath,
+        diagnostics.map(({ diagnostic }) => toEditorDiagnostic(diagnostic)),
+      );
+    } catch (error) {
+      this.deps.logger.debug('[EditorLspService] Failed to read diagnostics', {
+        error,
+        path: filePath,
+      });
+    }
+  }
+}
+
+function toEditorDiagnostic(diagnostic: Diagnostic): EditorLspDiagnostic {
+  return {
+    range: diagnostic.range,
+    severity:
+      diagnostic.severity === DiagnosticSeverity.Warning
+        ? 'warning'
+        : diagnostic.severity === DiagnosticSeverity.Information
+          ? 'info'
+          : diagnostic.severity === DiagnosticSeverity.Hint
+            ? 'hint'
+            : 'error',
+    message: diagnostic.message,
+    ...(diagnostic.source ? { source: diagnostic.source } : {}),
+    ...(diagnostic.code !== undefined ? { code: String(diagnostic.code) } : {}),
+  };
+}
+
+function hoverToMarkdown(contents: Hover['contents']): string {
+  if (Array.isArray(contents)) {
+    return contents.map(markedStringToMarkdown).join('\n\n');
+  }
+  if (typeof contents === 'object' && 'kind' in contents) {
+    return markupToMarkdown(contents);
+  }
+  return markedStringToMarkdown(contents);
+}
+
+function markedStringToMarkdown(value: MarkedString): string {
+  if (typeof value === 'string') return value;
+  return `\`\`\`${value.language}\n${value.value}\n\`\`\``;
+}
+
+function markupToMarkdown(value: string | MarkupContent): string {
+  if (typeof value === 'string') return value;
+  return value.kind === 'markdown'
+    ? value.value
+    : `\`\`\`\n${value.value}\n\`\`\``;
+}
+
+function toEditorLocation(
+  location: Location | LocationLink,
+): EditorLspLocation | null {
+  const uri = 'targetUri' in location ? location.targetUri : location.uri;
+  if (!uri.startsWith('file:')) return null;
+  return {
+    absolutePath: fileURLToPath(uri),
+    range:
+      'targetSelectionRange' in location
+        ? location.targetSelectionRange
+        : location.range,
+  };
+}
+
+function toEditorCompletionItem(item: CompletionItem): EditorLspCompletionItem {
+  const textEdit = item.textEdit;
+  const range = textEdit
+    ? 'range' in textEdit
+      ? textEdit.range
+      : textEdit.replace
+    : undefined;
+  return {
+    label: item.label,
+    ...(item.kind !== undefined ? { kind: item.kind } : {}),
+    ...(item.detail ? { detail: item.detail } : {}),
+    ...(item.documentation
+      ? { documentation: markupToMarkdown(item.documentation) }
+      : {}),
+    insertText: textEdit?.newText ?? item.insertText ?? item.label,
+    isSnippet: item.insertTextFormat === InsertTextFormat.Snippet,
+    ...(range ? { range } : {}),
+    ...(item.sortText ? { sortText: item.sortText } : {}),
+    ...(item.filterText ? { filterText: item.filterText } : {}),
+    ...(item.additionalTextEdits?.length
+      ? { additionalTextEdits: item.additionalTextEdits }
+      : {}),
+  };
+}
+
+/**
+ * Text edits of a code action, or null when the action runs a command or
+ * touches other files, which the editor cannot apply on its own.
+ */
+function getSingleFileEdits(
+  action: CodeAction,
+  uri: string,
+): EditorLspTextEdit[] | null {
+  if (action.command || !action.edit) return null;
+  const { changes, documentChanges } = action.edit;
+  const edits: EditorLspTextEdit[] = [];
+  if (documentChanges) {
+    for (const change of documentChanges) {
+      if (!('textDocument' in change) || change.textDocument.uri !== uri) {
+        return null;
+      }
+      edits.push(...change.edits);
+    }
+  } else if (changes) {
+    for (const [changeUri, changeEdits] of Object.entries(changes)) {
+      if (changeUri !== uri) return null;
+      edits.push(...changeEdits);
+    }
+  }
+  return edits.length > 0 ? edits : null;
+}
@@ -22,6 +22,7 @@ import {
   WorkspaceSymbolRequest,
   CodeActionRequest,
   CompletionRequest,
+  RenameRequest,
   type InitializeParams,
   type ServerCapabilities,
   type TextDocumentItem,
@@ -35,6 +36,7 @@ import {
   type WorkspaceSymbolParams,
   type CodeActionParams,
   type CompletionParams,
+  type RenameParams,
 } from 'vscode-languageserver-protocol/node';
 import type {
   Diagnostic,
@@ -47,6 +49,7 @@ import type {
   Hover,
   CompletionItem,
   CodeAction,
+  WorkspaceEdit,
 } from 'vscode-languageserver-types';
 import type { LspServerInfo } from './types';
 import { getLanguageId } from './language-map';
@@ -441,6 +444,7 @@ export class LspClient extends EventEmitter {
             documentSymbol: {
               hierarchicalDocumentSymbolSupport: true,
             },
+            rename: {},
             codeAction: {
               codeActionLiteralSupport: {
                 codeActionKind: {
@@ -460,6 +464,9 @@ export class LspClient extends EventEmitter {
           },
           workspace: {
             workspaceFolders: true,
+            workspaceEdit: {
+              documentChanges: true,
+            },
             configuration: true,
             didChangeConfiguration: {
               dynamicRegistration: false,
@@ -1018,6 +1025,39 @@ export class LspClient extends EventEmitter {
     }
   }
 
+  /**
+   * Request the workspace edit that renames the symbol at a position
+   */
+  public async rename(
+    filePath: string,
+    position: Position,
+    newName: string,
+  ): Promise<WorkspaceEdit | null> {
+    if (
+      !this.connection ||
+      this.disposed ||
+      !this.capabilities?.renameProvider
+    ) {
+      return null;
+    }
+
+    const params: RenameParams = {
+      textDocument: { uri: pathToFileURL(filePath).toString() },
+      position,
+      newName,
+    };
+
+    try {
+      return await this.connection.sendRequest(RenameRequest.type, params);
+    } catch (error) {
+      this.logger.error(
+        `[LspClient:${this.serverID}] Rename request failed:`,
+        error,
+      );
+      return null;
+    }
+  }
+
   /**
    * Request completions
    */
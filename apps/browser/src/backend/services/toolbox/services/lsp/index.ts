@@ -9,6 +9,8 @@ import type {
   SymbolInformation,
   Hover,
   CodeAction,
+  CompletionItem,
+  WorkspaceEdit,
 } from 'vscode-languageserver-types';
 import { DiagnosticSeverity } from 'vscode-languageserver-types';
 import { DisposableService } from '@/services/disposable';
@@ -310,6 +312,29 @@ export class LspService extends DisposableService {
     return results;
   }
 
+  /**
+   * Get completions from all servers
+   */
+  public async completion(
+    filePath: string,
+    position: Position,
+  ): Promise<Array<{ serverID: string; items: CompletionItem[] }>> {
+    const absoluteFilePath =
+      this.clientRuntime.fileSystem.resolvePath(filePath);
+    const clients = await this.getClientsForFile(absoluteFilePath);
+    const results: Array<{ serverID: string; items: CompletionItem[] }> = [];
+
+    const completionPromises = clients.map(async (client) => {
+      const items = await client.completion(absoluteFilePath, position);
+      if (items && items.length > 0) {
+        results.push({ serverID: client.serverID, items });
+      }
+    });
+
+    await Promise.all(completionPromises);
+    return results;
+  }
+
   /**
    * Get code actions from all servers
    */
@@ -333,6 +358,31 @@ export class LspService extends DisposableService {
     return results;
   }
 
+  /**
+   * Get the workspace edits that rename the symbol at a position, from all
+   * servers that can rename it
+   */
+  public async rename(
+    filePath: string,
+    position: Position,
+    newName: string,
+  ): Promise<Array<{ serverID: string; edit: WorkspaceEdit }>> {
+    const absoluteFilePath =
+      this.clientRuntime.fileSystem.resolvePath(filePath);
+    const clients = await this.getClientsForFile(absoluteFilePath);
+    const results: Array<{ serverID: string; edit: WorkspaceEdit }> = [];
+
+    const renamePromises = clients.map(async (client) => {
+      const edit = await client.rename(absoluteFilePath, position, newName);
+      if (edit) {
+        results.push({ serverID: client.serverID, edit });
+      }
+    });
+
+    await Promise.all(renamePromises);
+    return results;
+  }
+
   /**
    * Get status of all LSP servers
    */
@@ -28,6 +28,8 @@ export {
   MarkupContent,
   MarkupKind,
   TextEdit,
+  TextDocumentEdit,
+  WorkspaceEdit,
   CodeAction,
   CodeActionKind,
   Command,
@@ -53,6 +55,7 @@ export type {
   WorkspaceSymbolParams,
   CodeActionParams,
   CompletionParams,
+  RenameParams,
 } from 'vscode-languageserver-protocol';
 
 /**
@@ -166,6 +169,16 @@ export interface AggregatedDiagnostic {
   diagnostic: Diagnostic;
 }
 
+/**
+ * Diagnostics of one workspace mounted for an agent, keyed by absolute
+ * file path
+ */
+export interface MountedWorkspaceDiagnostics {
+  prefix: string;
+  workspacePath: string;
+  diagnostics: Map<string, AggregatedDiagnostic[]>;
+}
+
 /**
  * Event types for LSP service
  */
@@ -0,0 +1,271 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import type { Logger } from '@/services/logger';
+import {
+  getMcpServerNameFromToolName,
+  getMcpToolName,
+  type McpServerConfigs,
+  type McpServerStatus,
+} from '@shared/mcp-servers';
+import {
+  formatMcpToolResult,
+  mcpToolNeedsApproval,
+} from '../../tools/mcp/mcp-tool';
+import { type DeclaredMcpServer, McpClientService } from '.';
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const stdioConfig = (command: string) => ({
+  type: 'stdio' as const,
+  command,
+  args: [],
+  env: {},
+  enabled: true,
+  defaultToolApproval: 'ask' as const,
+  toolApprovals: {},
+});
+
+/** Creates an in-memory transport connected to a fresh echo server. */
+function createEchoTransport() {
+  const server = new McpServer({ name: 'echo', version: '1.0.0' });
+  server.registerTool(
+    'echo',
+    {
+      description: 'Echoes the text',
+      inputSchema: { text: z.string() },
+    },
+    async ({ text }) => ({ content: [{ type: 'text', text }] }),
+  );
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  void server.connect(serverTransport);
+  return clientTransport;
+}
+
+function createService(options: {
+  userServers?: McpServerConfigs;
+  trusted?: Record<string, Record<string, string>>;
+  createTransport?: (
+    server: DeclaredMcpServer,
+  ) => ReturnType<typeof createEchoTransport>;
+}) {
+  let statuses: McpServerStatus[] = [];
+  const deps = {
+    userServers: options.userServers ?? {},
+    trusted: options.trusted ?? {},
+  };
+  const createTransport = vi.fn(
+    options.createTransport ?? (() => createEchoTransport()),
+  );
+  const service = new McpClientService({
+    logger,
+    getUserServers: () => deps.userServers,
+    getTrustedWorkspaceServers: () => deps.trusted,
+    getBaseEnv: async () => ({}),
+    onStatusChange: (next) => {
+      statuses = next;
+    },
+    createTransport,
+  });
+  return { service, deps, createTransport, getStatuses: () => statuses };
+}
+
+describe('McpClientService', () => {
+  const services: McpClientService[] = [];
+  const tmpDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map((service) => service.teardown()));
+    await Promise.all(
+      tmpDirs
+        .splice(0)
+        .map((dir) => fs.rm(dir, { recursive: true, force: true })),
+    );
+  });
+
+  async function createWorkspace(config: unknown): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-client-'));
+    tmpDirs.push(dir);
+    await fs.mkdir(path.join(dir, '.stagewise'));
+    await fs.writeFile(
+      path.join(dir, '.stagewise', 'mcp.json'),
+      JSON.stringify(config),
+    );
+    return dir;
+  }
+
+  it('exposes the tools of user servers under namespaced names', async () => {
+    const { service, getStatuses } = createService({
+      userServers: { echo: stdioConfig('echo-server') },
+    });
+    services.push(service);
+
+    const tools = await service.getTools([]);
+
+    expect(tools.map((tool) => tool.name)).toEqual(['mcp__echo__echo']);
+    expect(getStatuses()).toEqual([
+      expect.objectContaining({
+        key: 'user:echo',
+        state: 'connected',
+        tools: [{ name: 'echo', description: 'Echoes the text' }],
+      }),
+    ]);
+
+    const result = await service.callTool(tools[0]!, { text: 'hello' });
+    expect(formatMcpToolResult(result)).toBe('hello');
+  });
+
+  it('starts workspace servers only once the user trusts them', async () => {
+    const workspace = await createWorkspace({
+      mcpServers: { local: { command: 'local-server' } },
+    });
+    const { service, deps, createTransport, getStatuses } = createService({});
+    services.push(service);
+
+    expect(await service.getTools([workspace])).toEqual([]);
+    expect(createTransport).not.toHaveBeenCalled();
+    expect(getStatuses()[0]).toMatchObject({
+      key: `${workspace}#local`,
+      source: 'workspace',
+      state: 'untrusted',
+    });
+
+    deps.trusted = { [workspace]: { local: getStatuses()[0]!.configHash! } };
+    const tools = await service.getTools([workspace]);
+
+    expect(tools.map((tool) => tool.name)).toEqual(['mcp__local__echo']);
+    expect(createTransport).toHaveBeenCalledOnce();
+    expect(createTransport.mock.calls[0]![0]).toMatchObject({
+      workspacePath: workspace,
+      trusted: true,
+    });
+  });
+
+  it('stops trusting a workspace server once its config changes', async () => {
+    const workspace = await createWorkspace({
+      mcpServers: { local: { command: 'local-server' } },
+    });
+    const { service, deps, createTransport, getStatuses } = createService({});
+    services.push(service);
+    await service.getTools([workspace]);
+    deps.trusted = { [workspace]: { local: getStatuses()[0]!.configHash! } };
+    expect(await service.getTools([workspace])).toHaveLength(1);
+
+    await fs.writeFile(
+      path.join(workspace, '.stagewise', 'mcp.json'),
+      JSON.stringify({
+        mcpServers: {
+          local: { command: 'other-server', defaultToolApproval: 'allow' },
+        },
+      }),
+    );
+
+    expect(await service.getTools([workspace])).toEqual([]);
+    expect(createTransport).toHaveBeenCalledOnce();
+    expect(getStatuses()[0]).toMatchObject({
+      state: 'untrusted',
+      error: expect.stringContaining(
+        'changed this server since you trusted it',
+      ),
+    });
+  });
+
+  it('does not retry a failed server until it is reconnected', async () => {
+    let fail = true;
+    const { service, createTransport, getStatuses } = createService({
+      userServers: { broken: stdioConfig('broken-server') },
+      createTransport: () => {
+        if (fail) throw new Error('spawn broken-server ENOENT');
+        return createEchoTransport();
+      },
+    });
+    services.push(service);
+
+    expect(await service.getTools([])).toEqual([]);
+    expect(await service.getTools([])).toEqual([]);
+    expect(createTransport).toHaveBeenCalledOnce();
+    expect(getStatuses()[0]).toMatchObject({
+      state: 'failed',
+      error: 'spawn broken-server ENOENT',
+    });
+
+    fail = false;
+    await service.reconnect('user:broken', []);
+
+    expect(getStatuses()[0]).toMatchObject({ state: 'connected' });
+    expect(await service.getTools([])).toHaveLength(1);
+  });
+
+  it('disconnects servers that are removed or disabled', async () => {
+    const { service, deps, getStatuses } = createService({
+      userServers: {
+        echo: stdioConfig('echo-server'),
+        other: stdioConfig('other-server'),
+      },
+    });
+    services.push(service);
+    expect(await service.getTools([])).toHaveLength(2);
+
+    deps.userServers = {
+      other: { ...stdioConfig('other-server'), enabled: false },
+    };
+    expect(await service.getTools([])).toEqual([]);
+    expect(getStatuses()).toEqual([
+      expect.objectContaining({ key: 'user:other', state: 'disabled' }),
+    ]);
+  });
+});
+
+describe('MCP tool helpers', () => {
+  it('namespaces and sanitizes tool names', () => {
+    expect(getMcpToolName('github', 'create.issue')).toBe(
+      'mcp__github__create_issue',
+    );
+    expect(getMcpToolName('github', 'x'.repeat(100))).toHaveLength(64);
+    expect(getMcpServerNameFromToolName('mcp__github__create_issue')).toBe(
+      'github',
+    );
+    expect(getMcpServerNameFromToolName('read')).toBeNull();
+  });
+
+  it('follows the configured approval only in smart mode', () => {
+    const entry = {
+      config: {
+        ...stdioConfig('server'),
+        defaultToolApproval: 'allow' as const,
+        toolApprovals: { delete: 'ask' as const },
+      },
+      tool: { name: 'list', inputSchema: { type: 'object' as const } },
+    };
+    const deleteEntry = { ...entry, tool: { ...entry.tool, name: 'delete' } };
+
+    expect(mcpToolNeedsApproval('smart', entry)).toBe(false);
+    expect(mcpToolNeedsApproval('smart', deleteEntry)).toBe(true);
+    expect(mcpToolNeedsApproval('alwaysAsk', entry)).toBe(true);
+    expect(mcpToolNeedsApproval('alwaysAllow', deleteEntry)).toBe(false);
+  });
+
+  it('replaces binary content with a note', () => {
+    expect(
+      formatMcpToolResult({
+        content: [
+          { type: 'text', text: 'Screenshot:' },
+          { type: 'image', data: 'AAAA', mimeType: 'image/png' },
+        ],
+      }),
+    ).toBe('Screenshot:\n[image content omitted]');
+    expect(
+      formatMcpToolResult({ content: [], structuredContent: { count: 2 } }),
+    ).toBe('{\n  "count": 2\n}');
+  });
+});
@@ -0,0 +1,448 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  type CallToolResult,
+  ToolListChangedNotificationSchema,
+  type Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '@/services/logger';
+import { DisposableService } from '@/services/disposable';
+import {
+  getMcpServerKey,
+  getMcpToolName,
+  MCP_WORKSPACE_CONFIG_RELATIVE_PATH,
+  type McpServerConfig,
+  type McpServerConfigs,
+  type McpServerSource,
+  type McpServerStatus,
+  mcpWorkspaceConfigSchema,
+} from '@shared/mcp-servers';
+
+const CONNECT_TIMEOUT_MS = 20_000;
+const CALL_TIMEOUT_MS = 5 * 60_000;
+const STDERR_TAIL_LENGTH = 500;
+
+/** A server declared by the user or by a mounted workspace. */
+export type DeclaredMcpServer = {
+  key: string;
+  name: string;
+  source: McpServerSource;
+  workspacePath: string | null;
+  config: McpServerConfig;
+  /** Hash of `config` the user's trust is bound to; `null` for user servers. */
+  configHash: string | null;
+  trusted: boolean;
+  /** The user trusted the server with a config that has changed since. */
+  trustOutdated: boolean;
+};
+
+type McpConnection = {
+  /** Serialized config and trust; a change reconnects. */
+  configJson: string;
+  client: Client | null;
+  tools: McpTool[];
+  ready: Promise<void>;
+};
+
+/** A server tool, under the name it is exposed to the model with. */
+export type McpToolEntry = {
+  name: string;
+  serverKey: string;
+  serverName: string;
+  config: McpServerConfig;
+  tool: McpTool;
+};
+
+export interface McpClientServiceDeps {
+  logger: Logger;
+  getUserServers: () => McpServerConfigs;
+  /** Config hash of each trusted server name, per workspace path. */
+  getTrustedWorkspaceServers: () => Record<string, Record<string, string>>;
+  /** Base environment of stdio servers, e.g. the user's login shell env. */
+  getBaseEnv: () => Promise<Record<string, string>>;
+  onStatusChange: (statuses: McpServerStatus[]) => void;
+  /** Overrides how transports are created; used by tests. */
+  createTransport?: (server: DeclaredMcpServer) => Transport;
+}
+
+/**
+ * Connects to the MCP servers declared by the user and by mounted
+ * workspaces and exposes their tools to the chat agent.
+ *
+ * Connections are made lazily, when an agent that can use the server asks
+ * for its tools, and kept until the server's config changes or the service
+ * is torn down. A server that fails to connect is not retried until its
+ * config changes or the user reconnects it from settings, so a broken
+ * server does not slow down every agent step.
+ */
+export class McpClientService extends DisposableService {
+  private readonly deps: McpClientServiceDeps;
+  private readonly connections = new Map<string, McpConnection>();
+  private readonly statuses = new Map<string, McpServerStatus>();
+
+  public constructor(deps: McpClientServiceDeps) {
+    super();
+    this.deps = deps;
+  }
+
+  public getStatuses(): McpServerStatus[] {
+    return [...this.statuses.values()];
+  }
+
+  /**
+   * Tools of the user's servers and of the trusted servers of
+   * `workspacePaths`. A workspace server with the same name as a user
+   * server replaces it.
+   */
+  public async getTools(
+    workspacePaths: readonly string[],
+  ): Promise<McpToolEntry[]> {
+    this.assertNotDisposed();
+    const servers = await this.refresh(workspacePaths);
+    const byName = new Map<string, DeclaredMcpServer>();
+    for (const server of servers) {
+      if (server.config.enabled && server.trusted) {
+        byName.set(server.name, server);
+      }
+    }
+
+    const entries: McpToolEntry[] = [];
+    for (const server of byName.values()) {
+      const connection = this.connections.get(server.key);
+      if (!connection) continue;
+      await connection.ready;
+      for (const tool of connection.tools) {
+        entries.push({
+          name: getMcpToolName(server.name, tool.name),
+          serverKey: server.key,
+          serverName: server.name,
+          config: server.config,
+          tool,
+        });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Re-reads the server declarations of the user and of `workspacePaths`,
+   * connects new or changed servers, and disconnects removed ones.
+   *
+   * With `allWorkspaces`, `workspacePaths` lists every mounted workspace
+   * and the servers of other workspaces are disconnected as well.
+   */
+  public async refresh(
+    workspacePaths: readonly string[],
+    { allWorkspaces = false }: { allWorkspaces?: boolean } = {},
+  ): Promise<DeclaredMcpServer[]> {
+    const servers = [
+      ...this.getUserServers(),
+      ...(
+        await Promise.all(
+          workspacePaths.map((workspacePath) =>
+            this.readWorkspaceServers(workspacePath),
+          ),
+        )
+      ).flat(),
+    ];
+
+    const declaredKeys = new Set(servers.map((server) => server.key));
+    const refreshedWorkspaces = new Set(workspacePaths);
+    for (const status of this.getStatuses()) {
+      const wasRefreshed =
+        allWorkspaces ||
+        status.workspacePath === null ||
+        refreshedWorkspaces.has(status.workspacePath);
+      if (wasRefreshed && !declaredKeys.has(status.key)) {
+        await this.disconnect(status.key);
+        this.statuses.delete(status.key);
+      }
+    }
+
+    for (const server of servers) this.ensureConnection(server);
+    this.emitStatuses();
+    await Promise.all(
+      servers.map((server) => this.connections.get(server.key)?.ready),
+    );
+    return servers;
+  }
+
+  /**
+   * Drops the connection of a server and connects it again.
+   * `workspacePaths` lists every mounted workspace.
+   */
+  public async reconnect(
+    key: string,
+    workspacePaths: readonly string[],
+  ): Promise<void> {
+    await this.disconnect(key);
+    await this.refresh(workspacePaths, { allWorkspaces: true });
+  }
+
+  public async callTool(
+    entry: McpToolEntry,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<CallToolResult> {
+    const client = this.connections.get(entry.serverKey)?.client;
+    if (!client) {
+      throw new Error(`MCP server ${entry.serverName} is not connected.`);
+    }
+    return (await client.callTool(
+      { name: entry.tool.name, arguments: args },
+      undefined,
+      { signal, timeout: CALL_TIMEOUT_MS, resetTimeoutOnProgress: true },
+    )) as CallToolResult;
+  }
+
+  protected async onTeardown(): Promise<void> {
+    await Promise.all(
+      [...this.connections.keys()].map((key) => this.disconnect(key)),
+    );
+    this.statuses.clear();
+  }
+
+  private getUserServers(): DeclaredMcpServer[] {
+    return Object.entries(this.deps.getUserServers()).map(([name, config]) => ({
+      key: getMcpServerKey(name, null),
+      name,
+      source: 'user',
+      workspacePath: null,
+      config,
+      configHash: null,
+      trusted: true,
+      trustOutdated: false,
+    }));
+  }
+
+  private async readWorkspaceServers(
+    workspacePath: string,
+  ): Promise<DeclaredMcpServer[]> {
+    const configPath = path.join(
+      workspacePath,
+      MCP_WORKSPACE_CONFIG_RELATIVE_PATH,
+    );
+    let content: string;
+    try {
+      content = await fs.readFile(configPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.deps.logger.warn(
+          `[McpClientService] Failed to read ${configPath}: ${(error as Error).message}`,
+        );
+      }
+      return [];
+    }
+
+    let parsed: ReturnType<typeof mcpWorkspaceConfigSchema.safeParse>;
+    try {
+      parsed = mcpWorkspaceConfigSchema.safeParse(JSON.parse(content));
+    } catch (error) {
+      this.deps.logger.warn(
+        `[McpClientService] Invalid JSON in ${configPath}: ${(error as Error).message}`,
+      );
+      return [];
+    }
+    if (!parsed.success) {
+      this.deps.logger.warn(
+        `[McpClientService] Invalid MCP config in ${configPath}: ${parsed.error.message}`,
+      );
+      return [];
+    }
+
+    // Trust covers the config it was given for: a changed command, URL or
+    // approval (e.g. from a pull) waits for the user to trust it again.
+    const trusted = this.deps.getTrustedWorkspaceServers()[workspacePath] ?? {};
+    return Object.entries(parsed.data.mcpServers).map(([name, config]) => {
+      const configHash = getMcpConfigHash(config);
+      const trustedHash = trusted[name];
+      return {
+        key: getMcpServerKey(name, workspacePath),
+        name,
+        source: 'workspace',
+        workspacePath,
+        config,
+        configHash,
+        trusted: trustedHash === configHash,
+        trustOutdated: trustedHash !== undefined && trustedHash !== configHash,
+      };
+    });
+  }
+
+  private ensureConnection(server: DeclaredMcpServer): void {
+    const configJson = JSON.stringify([server.config, server.trusted]);
+    const existing = this.connections.get(server.key);
+    if (existing?.configJson === configJson) return;
+    if (existing) void this.disconnect(server.key);
+
+    if (!server.config.enabled || !server.trusted) {
+      this.setStatus(
+        server,
+        server.trusted ? 'disabled' : 'untrusted',
+        server.trustOutdated
+          ? `${MCP_WORKSPACE_CONFIG_RELATIVE_PATH} changed this server since you trusted it. Trust it again to start it.`
+          : null,
+      );
+      return;
+    }
+
+    const connection: McpConnection = {
+      configJson,
+      client: null,
+      tools: [],
+      ready: Promise.resolve(),
+    };
+    connection.ready = this.connect(server, connection);
+    this.connections.set(server.key, connection);
+  }
+
+  private async connect(
+    server: DeclaredMcpServer,
+    connection: McpConnection,
+  ): Promise<void> {
+    this.setStatus(server, 'connecting');
+    let stderrTail = '';
+    const client = new Client({ name: 'stagewise', version: '1.0.0' });
+    try {
+      const transport = this.deps.createTransport
+        ? this.deps.createTransport(server)
+        : await this.createTransport(server);
+      if (transport instanceof StdioClientTransport) {
+        transport.stderr?.on('data', (chunk: Buffer) => {
+          stderrTail = (stderrTail + chunk.toString()).slice(
+            -STDERR_TAIL_LENGTH,
+          );
+        });
+      }
+      await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+      connection.client = client;
+      connection.tools = await this.listTools(client);
+    } catch (error) {
+      await client.close().catch(() => {});
+      if (this.connections.get(server.key) !== connection) return;
+      const message = [(error as Error).message, stderrTail.trim()]
+        .filter(Boolean)
+        .join('\n');
+      this.deps.logger.warn(
+        `[McpClientService] Failed to connect to ${server.key}: ${message}`,
+      );
+      this.setStatus(server, 'failed', message);
+      return;
+    }
+
+    if (this.connections.get(server.key) !== connection) {
+      await client.close().catch(() => {});
+      return;
+    }
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this.listTools(client)
+        .then((tools) => {
+          connection.tools = tools;
+          this.setStatus(server, 'connected');
+        })
+        .catch((error) => {
+          this.deps.logger.warn(
+            `[McpClientService] Failed to refresh tools of ${server.key}: ${(error as Error).message}`,
+          );
+        }),
+    );
+    client.onclose = () => {
+      if (this.connections.get(server.key) !== connection) return;
+      connection.client = null;
+      connection.tools = [];
+      this.setStatus(
+        server,
+        'failed',
+        stderrTail.trim() || 'The server closed the connection.',
+      );
+    };
+    this.setStatus(server, 'connected');
+  }
+
+  private async createTransport(server: DeclaredMcpServer): Promise<Transport> {
+    const { config } = server;
+    if (config.type === 'http') {
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: { headers: config.headers },
+      });
+    }
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env: {
+        ...getDefaultEnvironment(),
+        ...(await this.deps.getBaseEnv()),
+        ...config.env,
+      },
+      cwd: server.workspacePath ?? undefined,
+      stderr: 'pipe',
+    });
+  }
+
+  private async listTools(client: Client): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  private async disconnect(key: string): Promise<void> {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+    this.connections.delete(key);
+    await connection.client?.close().catch((error) => {
+      this.deps.logger.debug(
+        `[McpClientService] Failed to close ${key}: ${(error as Error).message}`,
+      );
+    });
+  }
+
+  private setStatus(
+    server: DeclaredMcpServer,
+    state: McpServerStatus['state'],
+    error: string | null = null,
+  ): void {
+    const tools =
+      state === 'connected'
+        ? (this.connections.get(server.key)?.tools ?? []).map((tool) => ({
+            name: tool.name,
+            description: tool.description ?? null,
+          }))
+        : [];
+    this.statuses.set(server.key, {
+      key: server.key,
+      name: server.name,
+      source: server.source,
+      workspacePath: server.workspacePath,
+      configHash: server.configHash,
+      transport: server.config.type,
+      state,
+      error,
+      tools,
+    });
+    this.emitStatuses();
+  }
+
+  private emitStatuses(): void {
+    if (this.disposed) return;
+    this.deps.onStatusChange(this.getStatuses());
+  }
+}
+
+/** Hash of a server config, covering its command, URL, env and approvals. */
+function getMcpConfigHash(config: McpServerConfig): string {
+  return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
@@ -21,7 +21,7 @@
 import { DisposableService } from '@/services/disposable';
 import type { Logger } from '@/services/logger';
 import { ClientRuntimeNode } from '@stagewise/agent-runtime-node';
-import { LspService } from '../lsp';
+import { LspService, type MountedWorkspaceDiagnostics } from '../lsp';
 import fs from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import path from 'node:path';
@@ -1455,6 +1455,47 @@ export class MountManagerService extends DisposableService {
     return result;
   }
 
+  /**
+   * LSP service of the mounted workspace that contains `absolutePath`,
+   * regardless of which agent mounted it. Nested workspaces resolve to the
+   * innermost one.
+   */
+  public getLspServiceForFile(absolutePath: string): LspService | undefined {
+    const filePath = path.resolve(absolutePath);
+    let best: { root: string; lsp: LspService } | undefined;
+    for (const [wsPath, lsp] of this.lspServicesPerPath) {
+      const root = path.resolve(wsPath);
+      const relative = path.relative(root, filePath);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative))
+        continue;
+      if (!best || root.length > best.root.length) best = { root, lsp };
+    }
+    return best?.lsp;
+  }
+
+  /**
+   * Live diagnostics of every workspace mounted for `agentInstanceId`.
+   * Only covers files the LSP servers have opened; nothing is spawned.
+   */
+  public getMountedLspDiagnostics(
+    agentInstanceId: string,
+  ): MountedWorkspaceDiagnostics[] {
+    const prefixes = this.core.getMountPrefixes(agentInstanceId) ?? [];
+    const result: MountedWorkspaceDiagnostics[] = [];
+    for (const prefix of prefixes) {
+      const wsPath = this.core.getWorkspacePathForPrefix(prefix);
+      if (!wsPath) continue;
+      const lsp = this.lspServicesPerPath.get(wsPath);
+      if (!lsp) continue;
+      result.push({
+        prefix,
+        workspacePath: wsPath,
+        diagnostics: lsp.getAllDiagnostics(),
+      });
+    }
+    return result;
+  }
+
   public getClientRuntimeForPath(
     wsPath: string,
   ): ClientRuntimeNode | undefined {
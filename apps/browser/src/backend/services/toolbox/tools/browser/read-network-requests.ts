@@ -0,0 +1,173 @@
+import {
+  type ReadNetworkRequestsToolInput,
+  readNetworkRequestsToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import type { NetworkRequestEntry } from '@shared/network-requests';
+import { tool } from 'ai';
+import { rethrowCappedToolOutputError } from '../../utils';
+import { capToolOutput } from '../../utils';
+import type { WindowLayoutService } from '@/services/window-layout';
+import { toNetworkRequestSummary } from '@/services/window-layout/tab-network-recorder';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Read network requests recorded in a browser tab: requests, responses, timings and bodies (bodies are cut off after 64KB).
+
+Use cases:
+1. DEBUG FAILING API CALLS - Find requests that failed or returned error statuses, even if the page never logs them
+2. INSPECT PAYLOADS - Check request bodies and response bodies of fetch/XHR calls
+3. ANALYZE PERFORMANCE - Compare durations and transfer sizes of requests
+4. VERIFY CODE CHANGES - Confirm that the page sends the requests you expect after a change
+
+Typical workflow:
+1. List requests, e.g. readNetworkRequests({ id: "t_1", failedOnly: true }) or readNetworkRequests({ id: "t_1", resourceTypes: ["Fetch", "XHR"] })
+2. Inspect one request in detail with readNetworkRequests({ id: "t_1", requestId: "42" })
+
+Parameters:
+- id (string, REQUIRED): The tab ID to read requests from. Use the tab ID from browser-information in the system prompt.
+- requestId (string, OPTIONAL): ID of a listed request. Returns that single request with headers, bodies and timings.
+- filter (string, OPTIONAL): Case-insensitive substring of the request URL.
+- methods (array, OPTIONAL): Filter by HTTP methods, e.g. ["POST"].
+- resourceTypes (array, OPTIONAL): Filter by resource types: "Document", "Stylesheet", "Image", "Media", "Font", "Script", "XHR", "Fetch", "EventSource", "WebSocket", "Manifest", "Other".
+- failedOnly (boolean, OPTIONAL): Only failed requests (network errors, blocked or canceled) and responses with status >= 400.
+- includeBodies (boolean, OPTIONAL): Include headers and bodies of the listed requests. Combine with filters and a small limit.
+- limit (number, OPTIONAL): Maximum number of requests to return (most recent first). Default: 50.
+- delayMs (number, OPTIONAL): Milliseconds to wait BEFORE reading requests, e.g. after triggering requests with executeSandboxJs. Max: 5000ms. Default: 0 (no delay).
+
+Returns requests in reverse chronological order (most recent first) with:
+- id: Request ID for detail lookups
+- method, url, resourceType, status, state ("pending", "finished" or "failed")
+- durationMs, transferSize, errorText (for failed requests)
+`;
+
+const DEFAULT_LIMIT = 50;
+
+export const readNetworkRequests = (
+  windowLayoutService: WindowLayoutService,
+  agentInstanceId: string,
+) => {
+  return tool({
+    description: DESCRIPTION,
+    inputSchema: readNetworkRequestsToolInputSchema,
+    strict: false,
+    execute: (params) =>
+      readNetworkRequestsToolExecute(
+        params,
+        windowLayoutService,
+        agentInstanceId,
+      ),
+  });
+};
+
+async function readNetworkRequestsToolExecute(
+  params: ReadNetworkRequestsToolInput,
+  windowLayoutService: WindowLayoutService,
+  agentInstanceId: string,
+) {
+  try {
+    // Wait for the specified delay so triggered requests can finish
+    const delayMs = params.delayMs ?? 0;
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    if (params.requestId) {
+      const result = windowLayoutService.getNetworkRequest(
+        params.id,
+        params.requestId,
+        agentInstanceId,
+      );
+      if (!result.success || !result.request) {
+        return {
+          message: 'Failed to read network request',
+          error: result.error,
+        };
+      }
+      const { request } = result;
+      return {
+        message: `${request.method} ${request.url} (${formatStatus(request)})`,
+        result: capToolOutput(
+          JSON.stringify(formatRequest(request, true), null, 2),
+        ),
+      };
+    }
+
+    const result = windowLayoutService.getNetworkRequests(
+      params.id,
+      {
+        filter: params.filter,
+        methods: params.methods,
+        resourceTypes: params.resourceTypes,
+        failedOnly: params.failedOnly,
+        limit: params.limit ?? DEFAULT_LIMIT,
+      },
+      agentInstanceId,
+    );
+
+    if (!result.success) {
+      return {
+        message: 'Failed to read network requests',
+        error: result.error,
+      };
+    }
+
+    const requests = result.requests ?? [];
+    const totalCount = result.totalCount ?? 0;
+
+    const output = JSON.stringify(
+      {
+        requestsReturned: requests.length,
+        totalRequestsStored: totalCount,
+        filter: params.filter || null,
+        failedOnly: params.failedOnly ?? false,
+        delayMs: delayMs > 0 ? delayMs : null,
+        requests: requests.map((request) =>
+          formatRequest(request, params.includeBodies ?? false),
+        ),
+      },
+      null,
+      2,
+    );
+
+    const filterNote = params.filter ? ` matching "${params.filter}"` : '';
+    const failedNote = params.failedOnly ? ' failed' : '';
+    const delayNote = delayMs > 0 ? ` (after ${delayMs}ms delay)` : '';
+    return {
+      message:
+        requests.length > 0
+          ? `Found ${requests.length}${failedNote} network request(s)${filterNote}${delayNote} (${totalCount} total stored)`
+          : `No${failedNote} network requests found${filterNote}${delayNote} (${totalCount} total stored)`,
+      result: capToolOutput(output),
+    };
+  } catch (error) {
+    rethrowCappedToolOutputError(error);
+  }
+}
+
+function formatRequest(request: NetworkRequestEntry, detailed: boolean) {
+  const summary = toNetworkRequestSummary(request);
+  const formatted = {
+    ...summary,
+    startedAt: new Date(summary.startedAt).toISOString(),
+  };
+  if (!detailed) return formatted;
+  return {
+    ...formatted,
+    pageUrl: request.pageUrl,
+    httpVersion: request.httpVersion,
+    remoteIPAddress: request.remoteIPAddress,
+    timings: request.timings,
+    requestHeaders: request.requestHeaders,
+    requestBody: request.requestBody,
+    responseHeaders: request.responseHeaders,
+    responseBody: request.responseBody,
+  };
+}
+
+function formatStatus(request: NetworkRequestEntry): string {
+  if (request.state === 'failed') return `failed: ${request.errorText}`;
+  if (request.state === 'pending') return 'pending';
+  return `${request.status} ${request.statusText ?? ''}`.trim();
+}
@@ -0,0 +1,75 @@
+import {
+  type FindReferencesToolInput,
+  type FindReferencesToolOutput,
+  findReferencesToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import {
+  type CodeNavigationToolDeps,
+  getLanguageServer,
+  noLanguageServerMessage,
+  resolveSymbolTarget,
+  toCodeLocations,
+  withLspTimeout,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Find all references to a symbol across the workspace, using the language server of the file. Unlike grepSearch, this only returns usages of this exact symbol, not of other symbols with the same name. Read-only.
+
+Parameters:
+- path (string, REQUIRED): Mount-prefixed path of a file that contains the symbol, e.g. "w1a2b/src/index.ts".
+- line (number, REQUIRED): Line of the symbol (1-based).
+- symbol (string, REQUIRED): Name of the symbol as written on that line, e.g. "getUser".
+- column (number, OPTIONAL): Column of the symbol (1-based). Only needed if the symbol occurs more than once on the line.
+- limit (number, OPTIONAL): Maximum number of references to return. Default: 100. Maximum: 500.
+
+Behavior: Returns the references including the declaration (mount-prefixed path, line, column and the source line) and the total count. If no language server handles the file, use grepSearch instead.`;
+
+const DEFAULT_LIMIT = 100;
+
+export const findReferencesToolExecute = async (
+  deps: CodeNavigationToolDeps,
+  params: FindReferencesToolInput,
+): Promise<FindReferencesToolOutput> => {
+  const mounts = deps.getMounts();
+  const target = await resolveSymbolTarget(mounts, params, 'read');
+  const lspService = await getLanguageServer(target);
+  if (!lspService) {
+    return {
+      message: noLanguageServerMessage(params.path),
+      references: [],
+      totalCount: 0,
+    };
+  }
+
+  const results = await withLspTimeout(
+    lspService.references(target.relativePath, target.position),
+  );
+  const references = await toCodeLocations(
+    mounts,
+    results.flatMap((result) => result.locations),
+  );
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const totalCount = references.length;
+  const files = new Set(references.map((reference) => reference.path)).size;
+
+  return {
+    message:
+      totalCount > 0
+        ? `Found ${totalCount} reference${totalCount !== 1 ? 's' : ''} to "${params.symbol}" in ${files} file${files !== 1 ? 's' : ''}${totalCount > limit ? ` (showing the first ${limit})` : ''}.`
+        : `No references found for "${params.symbol}".`,
+    references: references.slice(0, limit),
+    totalCount,
+  };
+};
+
+export const findReferences = (deps: CodeNavigationToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: findReferencesToolInputSchema,
+    strict: false,
+    execute: (params) => findReferencesToolExecute(deps, params),
+  });
@@ -0,0 +1,77 @@
+import {
+  type GetHoverInfoToolInput,
+  type GetHoverInfoToolOutput,
+  getHoverInfoToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import type { Hover, MarkedString } from '../../services/lsp/types';
+import {
+  type CodeNavigationToolDeps,
+  getLanguageServer,
+  noLanguageServerMessage,
+  resolveSymbolTarget,
+  withLspTimeout,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Get the type signature and documentation of a symbol, like hovering it in an editor. Use it to learn inferred types, function signatures and JSDoc without reading the definition. Read-only.
+
+Parameters:
+- path (string, REQUIRED): Mount-prefixed path of a file that contains the symbol, e.g. "w1a2b/src/index.ts".
+- line (number, REQUIRED): Line of the symbol (1-based).
+- symbol (string, REQUIRED): Name of the symbol as written on that line, e.g. "getUser".
+- column (number, OPTIONAL): Column of the symbol (1-based). Only needed if the symbol occurs more than once on the line.
+
+Behavior: Returns the hover contents (usually markdown with a code block holding the signature) of every language server that handles the file. If no language server handles the file, read the definition instead.`;
+
+export const getHoverInfoToolExecute = async (
+  deps: CodeNavigationToolDeps,
+  params: GetHoverInfoToolInput,
+): Promise<GetHoverInfoToolOutput> => {
+  const target = await resolveSymbolTarget(deps.getMounts(), params, 'read');
+  const lspService = await getLanguageServer(target);
+  if (!lspService) {
+    return { message: noLanguageServerMessage(params.path), contents: [] };
+  }
+
+  const results = await withLspTimeout(
+    lspService.hover(target.relativePath, target.position),
+  );
+  const contents = results
+    .map((result) => hoverToText(result.hover.contents).trim())
+    .filter(Boolean);
+
+  return {
+    message:
+      contents.length > 0
+        ? `Hover information for "${params.symbol}".`
+        : `No hover information for "${params.symbol}".`,
+    contents,
+  };
+};
+
+function hoverToText(contents: Hover['contents']): string {
+  if (Array.isArray(contents)) {
+    return contents.map(markedStringToText).join('\n\n');
+  }
+  if (typeof contents === 'object' && 'kind' in contents) {
+    return contents.value;
+  }
+  return markedStringToText(contents);
+}
+
+function markedStringToText(value: MarkedString): string {
+  if (typeof value === 'string') return value;
+  return `\`\`\`${value.language}\n${value.value}\n\`\`\``;
+}
+
+export const getHoverInfo = (deps: CodeNavigationToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: getHoverInfoToolInputSchema,
+    strict: false,
+    execute: (params) => getHoverInfoToolExecute(deps, params),
+  });
@@ -0,0 +1,64 @@
+import {
+  type GoToDefinitionToolInput,
+  type GoToDefinitionToolOutput,
+  goToDefinitionToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import {
+  type CodeNavigationToolDeps,
+  getLanguageServer,
+  noLanguageServerMessage,
+  resolveSymbolTarget,
+  toCodeLocations,
+  withLspTimeout,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Find where a symbol (function, class, variable, type, import) is defined, using the language server of the file. More precise than grepSearch: follows imports, re-exports and aliases. Read-only.
+
+Parameters:
+- path (string, REQUIRED): Mount-prefixed path of a file that uses the symbol, e.g. "w1a2b/src/index.ts".
+- line (number, REQUIRED): Line of the symbol (1-based).
+- symbol (string, REQUIRED): Name of the symbol as written on that line, e.g. "getUser".
+- column (number, OPTIONAL): Column of the symbol (1-based). Only needed if the symbol occurs more than once on the line.
+
+Behavior: Returns the definition locations (mount-prefixed path, line, column and the source line). Locations outside the mounted workspaces (e.g. bundled library typings) are returned as absolute paths. If no language server handles the file, use grepSearch instead.`;
+
+export const goToDefinitionToolExecute = async (
+  deps: CodeNavigationToolDeps,
+  params: GoToDefinitionToolInput,
+): Promise<GoToDefinitionToolOutput> => {
+  const mounts = deps.getMounts();
+  const target = await resolveSymbolTarget(mounts, params, 'read');
+  const lspService = await getLanguageServer(target);
+  if (!lspService) {
+    return { message: noLanguageServerMessage(params.path), definitions: [] };
+  }
+
+  const results = await withLspTimeout(
+    lspService.definition(target.relativePath, target.position),
+  );
+  const definitions = await toCodeLocations(
+    mounts,
+    results.flatMap((result) => result.locations),
+  );
+
+  return {
+    message:
+      definitions.length > 0
+        ? `Found ${definitions.length} definition${definitions.length !== 1 ? 's' : ''} of "${params.symbol}".`
+        : `No definition found for "${params.symbol}".`,
+    definitions,
+  };
+};
+
+export const goToDefinition = (deps: CodeNavigationToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: goToDefinitionToolInputSchema,
+    strict: false,
+    execute: (params) => goToDefinitionToolExecute(deps, params),
+  });
@@ -0,0 +1,201 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { Logger } from '@/services/logger';
+import type { MountPermission } from '@/services/sandbox/ipc';
+import type { LspService } from '../../services/lsp';
+import type { WorkspaceEdit } from '../../services/lsp/types';
+import {
+  applyTextEdits,
+  type RenameSymbolToolDeps,
+  renameSymbolToolExecute,
+} from './rename-symbol';
+
+let workspaceA: string;
+let workspaceB: string;
+
+beforeEach(async () => {
+  workspaceA = await fs.mkdtemp(path.join(os.tmpdir(), 'rename-symbol-a-'));
+  workspaceB = await fs.mkdtemp(path.join(os.tmpdir(), 'rename-symbol-b-'));
+  await fs.writeFile(
+    path.join(workspaceA, 'user.ts'),
+    'export function getUser() {}\n',
+  );
+  await fs.writeFile(
+    path.join(workspaceA, 'index.ts'),
+    "import { getUser } from './user';\ngetUser();\n",
+  );
+  await fs.writeFile(path.join(workspaceB, 'lib.ts'), 'getUser();\n');
+});
+
+afterEach(async () => {
+  await fs.rm(workspaceA, { recursive: true, force: true });
+  await fs.rm(workspaceB, { recursive: true, force: true });
+});
+
+const range = (line: number, character: number, length: number) => ({
+  start: { line, character },
+  end: { line, character: character + length },
+});
+
+function createLspService(edit: WorkspaceEdit, handlesFile = true) {
+  return {
+    touchFile: vi.fn(async () => {}),
+    hasClientsForFile: vi.fn(async () => handlesFile),
+    rename: vi.fn(async () => [{ serverID: 'typescript', edit }]),
+  } as unknown as LspService;
+}
+
+function createDeps(
+  lspService: LspService,
+  permissionsB: MountPermission[] = ['read', 'edit'],
+) {
+  const diffHistoryService = {
+    ignoreFileForWatcher: vi.fn(),
+    unignoreFileForWatcher: vi.fn(),
+    registerAgentEditBatch: vi.fn(async () => {}),
+  };
+  const deps: RenameSymbolToolDeps = {
+    getMounts: () =>
+      new Map([
+        ['wa', { path: workspaceA, permissions: ['read', 'edit'], lspService }],
+        [
+          'wb',
+          {
+            path: workspaceB,
+            permissions: permissionsB,
+            lspService: undefined,
+          },
+        ],
+      ]),
+    agentInstanceId: 'agent-1',
+    diffHistoryService: diffHistoryService as unknown as DiffHistoryService,
+    syncFileWithLsp: vi.fn(async () => {}),
+    logger: { error: vi.fn() } as unknown as Logger,
+  };
+  return { deps, diffHistoryService };
+}
+
+const params = {
+  path: 'wa/user.ts',
+  line: 1,
+  symbol: 'getUser',
+  newName: 'fetchUser',
+};
+
+describe('renameSymbolToolExecute', () => {
+  it('applies the workspace edit and records every file in one batch', async () => {
+    const lspService = createLspService({
+      changes: {
+        [pathToFileURL(path.join(workspaceA, 'user.ts')).href]: [
+          { range: range(0, 16, 7), newText: 'fetchUser' },
+        ],
+        [pathToFileURL(path.join(workspaceA, 'index.ts')).href]: [
+          { range: range(0, 9, 7), newText: 'fetchUser' },
+          { range: range(1, 0, 7), newText: 'fetchUser' },
+        ],
+      },
+    });
+    const { deps, diffHistoryService } = createDeps(lspService);
+
+    const result = await renameSymbolToolExecute(deps, params, 'tc-1');
+
+    expect(lspService.rename).toHaveBeenCalledWith(
+      'user.ts',
+      { line: 0, character: 16 },
+      'fetchUser',
+    );
+    expect(result.files).toEqual([
+      { path: 'wa/user.ts', occurrences: 1 },
+      { path: 'wa/index.ts', occurrences: 2 },
+    ]);
+    await expect(
+      fs.readFile(path.join(workspaceA, 'index.ts'), 'utf8'),
+    ).resolves.toBe("import { fetchUser } from './user';\nfetchUser();\n");
+    expect(diffHistoryService.registerAgentEditBatch).toHaveBeenCalledWith([
+      expect.objectContaining({
+        agentInstanceId: 'agent-1',
+        path: path.join(workspaceA, 'user.ts'),
+        toolCallId: 'tc-1',
+        contentBefore: 'export function getUser() {}\n',
+        contentAfter: 'export function fetchUser() {}\n',
+      }),
+      expect.objectContaining({ path: path.join(workspaceA, 'index.ts') }),
+    ]);
+  });
+
+  it('changes nothing if the rename reaches a read-only mount', async () => {
+    const lspService = createLspService({
+      changes: {
+        [pathToFileURL(path.join(workspaceA, 'user.ts')).href]: [
+          { range: range(0, 16, 7), newText: 'fetchUser' },
+        ],
+        [pathToFileURL(path.join(workspaceB, 'lib.ts')).href]: [
+          { range: range(0, 0, 7), newText: 'fetchUser' },
+        ],
+      },
+    });
+    const { deps, diffHistoryService } = createDeps(lspService, ['read']);
+
+    await expect(renameSymbolToolExecute(deps, params, 'tc-1')).rejects.toThrow(
+      'mount wb is read-only',
+    );
+    await expect(
+      fs.readFile(path.join(workspaceA, 'user.ts'), 'utf8'),
+    ).resolves.toBe('export function getUser() {}\n');
+    expect(diffHistoryService.registerAgentEditBatch).not.toHaveBeenCalled();
+  });
+
+  it('refuses file operations in the workspace edit', async () => {
+    const lspService = createLspService({
+      documentChanges: [
+        {
+          kind: 'rename',
+          oldUri: pathToFileURL(path.join(workspaceA, 'user.ts')).href,
+          newUri: pathToFileURL(path.join(workspaceA, 'fetch-user.ts')).href,
+        },
+      ],
+    });
+    const { deps } = createDeps(lspService);
+
+    await expect(renameSymbolToolExecute(deps, params, 'tc-1')).rejects.toThrow(
+      'create, move or delete files',
+    );
+  });
+
+  it('falls back gracefully when no language server handles the file', async () => {
+    const lspService = createLspService({}, false);
+    const { deps } = createDeps(lspService);
+
+    const result = await renameSymbolToolExecute(deps, params, 'tc-1');
+
+    expect(result.files).toEqual([]);
+    expect(result.message).toContain('No language server handles wa/user.ts');
+    expect(lspService.rename).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyTextEdits', () => {
+  it('applies unordered edits against the original positions', () => {
+    const content = 'a b\nc a\n';
+    expect(
+      applyTextEdits(content, [
+        { range: range(0, 0, 1), newText: 'xyz' },
+        { range: range(1, 2, 1), newText: 'xyz' },
+        { range: range(0, 2, 1), newText: '' },
+      ]),
+    ).toBe('xyz \nc xyz\n');
+  });
+
+  it('throws on overlapping edits', () => {
+    expect(() =>
+      applyTextEdits('abcdef', [
+        { range: range(0, 0, 3), newText: 'x' },
+        { range: range(0, 2, 3), newText: 'y' },
+      ]),
+    ).toThrow('overlapping');
+  });
+});
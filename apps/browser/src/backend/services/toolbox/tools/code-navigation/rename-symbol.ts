@@ -0,0 +1,251 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { Logger } from '@/services/logger';
+import {
+  type RenameSymbolToolInput,
+  type RenameSymbolToolOutput,
+  renameSymbolToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import type { TextEdit, WorkspaceEdit } from '../../services/lsp/types';
+import {
+  type CodeNavigationToolDeps,
+  findMountForPath,
+  getLanguageServer,
+  noLanguageServerMessage,
+  resolveSymbolTarget,
+  withLspTimeout,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Rename a symbol (variable, function, class, type, property, ...) and update every reference across the workspace, using the language server of the file. Safer than search-and-replace: only this exact symbol is renamed, and imports and re-exports are updated.
+
+Parameters:
+- path (string, REQUIRED): Mount-prefixed path of a file that contains the symbol, e.g. "w1a2b/src/index.ts".
+- line (number, REQUIRED): Line of the symbol (1-based).
+- symbol (string, REQUIRED): Current name of the symbol as written on that line, e.g. "getUser".
+- column (number, OPTIONAL): Column of the symbol (1-based). Only needed if the symbol occurs more than once on the line.
+- newName (string, REQUIRED): New name of the symbol.
+
+Behavior: Applies the rename to all affected files and returns them with the number of changed occurrences. The rename is all-or-nothing: nothing is changed if it would touch files outside the mounted workspaces or in read-only mounts, or would create, move or delete files. If no language server handles the file, rename with multiEdit instead.`;
+
+export interface RenameSymbolToolDeps extends CodeNavigationToolDeps {
+  agentInstanceId: string;
+  diffHistoryService: DiffHistoryService;
+  /** Push the new content of a renamed file to its language servers. */
+  syncFileWithLsp: (absolutePath: string, content: string) => Promise<void>;
+  logger: Logger;
+}
+
+type PlannedFileEdit = {
+  absolutePath: string;
+  mountedPath: string;
+  workspacePath: string;
+  contentBefore: string;
+  contentAfter: string;
+  occurrences: number;
+};
+
+export const renameSymbolToolExecute = async (
+  deps: RenameSymbolToolDeps,
+  params: RenameSymbolToolInput,
+  toolCallId: string,
+): Promise<RenameSymbolToolOutput> => {
+  if (params.newName === params.symbol) {
+    return {
+      message: `"${params.symbol}" already has that name. Nothing was changed.`,
+      files: [],
+    };
+  }
+
+  const mounts = deps.getMounts();
+  const target = await resolveSymbolTarget(mounts, params, 'edit');
+  const lspService = await getLanguageServer(target);
+  if (!lspService) {
+    return { message: noLanguageServerMessage(params.path), files: [] };
+  }
+
+  const results = await withLspTimeout(
+    lspService.rename(target.relativePath, target.position, params.newName),
+  );
+  // Several servers may handle the file, but only one owns the symbol.
+  // Applying more than one edit would rename occurrences twice.
+  const workspaceEdit = results.find(
+    (result) => collectTextEdits(result.edit).size > 0,
+  )?.edit;
+  if (!workspaceEdit) {
+    return {
+      message: `"${params.symbol}" cannot be renamed at line ${params.line} of ${params.path}. Nothing was changed.`,
+      files: [],
+    };
+  }
+
+  // Plan every file before writing any, so a refused rename leaves no
+  // partial changes behind.
+  const planned: PlannedFileEdit[] = [];
+  for (const [absolutePath, edits] of collectTextEdits(workspaceEdit)) {
+    const owner = findMountForPath(mounts, absolutePath);
+    if (!owner) {
+      throw new Error(
+        `The rename would also change ${absolutePath}, which is outside the mounted workspaces. Nothing was changed.`,
+      );
+    }
+    if (!owner.mount.permissions.includes('edit')) {
+      throw new Error(
+        `The rename would also change ${owner.mountedPath}, but mount ${owner.prefix} is read-only. Nothing was changed.`,
+      );
+    }
+    const contentBefore = await readFile(absolutePath, 'utf8');
+    planned.push({
+      absolutePath,
+      mountedPath: owner.mountedPath,
+      workspacePath: owner.mount.path,
+      contentBefore,
+      contentAfter: applyTextEdits(contentBefore, edits),
+      occurrences: edits.length,
+    });
+  }
+
+  await writePlannedEdits(deps, planned, toolCallId);
+
+  const occurrences = planned.reduce((sum, file) => sum + file.occurrences, 0);
+  return {
+    message: `Renamed "${params.symbol}" to "${params.newName}": ${occurrences} occurrence${occurrences !== 1 ? 's' : ''} in ${planned.length} file${planned.length !== 1 ? 's' : ''}.`,
+    files: planned.map((file) => ({
+      path: file.mountedPath,
+      occurrences: file.occurrences,
+    })),
+  };
+};
+
+/**
+ * Writes the renamed files and records them under the tool call in diff
+ * history, so the rename shows up in the pending diff and can be undone
+ * like any other agent edit.
+ */
+async function writePlannedEdits(
+  deps: RenameSymbolToolDeps,
+  planned: PlannedFileEdit[],
+  toolCallId: string,
+): Promise<void> {
+  const written: PlannedFileEdit[] = [];
+  for (const file of planned) {
+    deps.diffHistoryService.ignoreFileForWatcher(file.absolutePath);
+  }
+  try {
+    for (const file of planned) {
+      await writeFile(file.absolutePath, file.contentAfter, 'utf8');
+      written.push(file);
+      void deps.syncFileWithLsp(file.absolutePath, file.contentAfter);
+    }
+  } finally {
+    // Also record a partial write so it can be undone
+    try {
+      await deps.diffHistoryService.registerAgentEditBatch(
+        written.map((file) => ({
+          agentInstanceId: deps.agentInstanceId,
+          path: file.absolutePath,
+          toolCallId,
+          workspaceRoot: file.workspacePath,
+          isExternal: false,
+          contentBefore: file.contentBefore,
+          contentAfter: file.contentAfter,
+        })),
+      );
+    } catch (error) {
+      deps.logger.error('[RenameSymbol] Failed to register rename edits', {
+        error,
+        toolCallId,
+      });
+    }
+    setTimeout(() => {
+      for (const file of planned) {
+        deps.diffHistoryService.unignoreFileForWatcher(file.absolutePath);
+      }
+    }, 500);
+  }
+}
+
+/**
+ * Group the text edits of a workspace edit by absolute file path.
+ *
+ * @throws Error if the edit creates, renames or deletes files
+ */
+export function collectTextEdits(edit: WorkspaceEdit): Map<string, TextEdit[]> {
+  const result = new Map<string, TextEdit[]>();
+  const add = (uri: string, edits: TextEdit[]) => {
+    if (edits.length === 0) return;
+    if (!uri.startsWith('file:')) {
+      throw new Error(`The rename would change ${uri}, which is not a file.`);
+    }
+    const absolutePath = fileURLToPath(uri);
+    result.set(absolutePath, [...(result.get(absolutePath) ?? []), ...edits]);
+  };
+
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if (!('textDocument' in change)) {
+        throw new Error(
+          'The rename would create, move or delete files, which is not supported. Nothing was changed.',
+        );
+      }
+      add(change.textDocument.uri, change.edits);
+    }
+  } else if (edit.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) add(uri, edits);
+  }
+  return result;
+}
+
+/**
+ * Apply LSP text edits to a document. Positions refer to the original
+ * content, so edits are applied from the end of the document backwards.
+ *
+ * @throws Error if edits overlap or point outside the document
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const lineOffsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineOffsets.push(i + 1);
+  }
+  const toOffset = ({ line, character }: TextEdit['range']['start']) => {
+    const lineOffset = lineOffsets[line];
+    if (lineOffset === undefined) {
+      throw new Error(`Edit position line ${line + 1} is out of range.`);
+    }
+    return Math.min(lineOffset + character, content.length);
+  };
+
+  const sorted = edits
+    .map((edit) => ({
+      start: toOffset(edit.range.start),
+      end: toOffset(edit.range.end),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = content;
+  let previousStart = Number.POSITIVE_INFINITY;
+  for (const edit of sorted) {
+    if (edit.end > previousStart) {
+      throw new Error('The language server returned overlapping edits.');
+    }
+    result =
+      result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+    previousStart = edit.start;
+  }
+  return result;
+}
+
+export const renameSymbol = (deps: RenameSymbolToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: renameSymbolToolInputSchema,
+    strict: false,
+    execute: (params, { toolCallId }) =>
+      renameSymbolToolExecute(deps, params, toolCallId),
+  });
@@ -0,0 +1,121 @@
+import {
+  type CodeLocation,
+  type SearchWorkspaceSymbolsToolInput,
+  type SearchWorkspaceSymbolsToolOutput,
+  searchWorkspaceSymbolsToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import { type LspSymbol, SymbolKind } from '../../services/lsp/types';
+import {
+  type CodeNavigationMount,
+  type CodeNavigationToolDeps,
+  toCodeLocations,
+  withLspTimeout,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Search the workspace for symbols (classes, functions, interfaces, variables, ...) by name, using the running language servers. Faster and more precise than grepSearch for finding where something is declared. Read-only.
+
+Parameters:
+- query (string, REQUIRED): Symbol name or fragment to search for, e.g. "UserService". Matching is fuzzy.
+- mount (string, OPTIONAL): Mount prefix to search in, e.g. "w1a2b". Default: all mounted workspaces.
+- limit (number, OPTIONAL): Maximum number of symbols to return. Default: 50. Maximum: 200.
+
+Behavior: Returns matching symbols with their kind, container and location. Language servers start when a file of their language is first opened, so if none is running yet, use goToDefinition or getLintingDiagnostics on a source file first, or use grepSearch.`;
+
+const DEFAULT_LIMIT = 50;
+
+const SYMBOL_KIND_NAMES = new Map<number, string>(
+  Object.entries(SymbolKind).map(([name, kind]) => [kind, name]),
+);
+
+export const searchWorkspaceSymbolsToolExecute = async (
+  deps: CodeNavigationToolDeps,
+  params: SearchWorkspaceSymbolsToolInput,
+): Promise<SearchWorkspaceSymbolsToolOutput> => {
+  const mounts = deps.getMounts();
+  if (params.mount && !mounts.has(params.mount)) {
+    throw new Error(
+      `Mount ${params.mount} not found. Available mounts: ${Array.from(mounts.keys()).join(', ')}`,
+    );
+  }
+
+  const lspServices = Array.from(mounts)
+    .filter(([prefix]) => !params.mount || prefix === params.mount)
+    .map(([, mount]) => mount.lspService)
+    .filter((lspService) => lspService !== undefined)
+    .filter((lspService) =>
+      lspService.getStatus().some((status) => status.state === 'running'),
+    );
+  if (lspServices.length === 0) {
+    return {
+      message:
+        'No language server is running yet. Run goToDefinition or getLintingDiagnostics on a source file first to start one, or use grepSearch.',
+      symbols: [],
+    };
+  }
+
+  const lspSymbols = (
+    await Promise.all(
+      lspServices.map((lspService) =>
+        withLspTimeout(lspService.workspaceSymbol(params.query)),
+      ),
+    )
+  ).flat();
+
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const symbols: SearchWorkspaceSymbolsToolOutput['symbols'] = [];
+  const seen = new Set<string>();
+  for (const { symbol } of lspSymbols) {
+    if (symbols.length >= limit) break;
+    const location = await toSymbolLocation(mounts, symbol);
+    if (!location) continue;
+    const key = `${symbol.name}:${location.path}:${location.line}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    symbols.push({
+      name: symbol.name,
+      kind: SYMBOL_KIND_NAMES.get(symbol.kind) ?? 'Unknown',
+      ...(symbol.containerName ? { containerName: symbol.containerName } : {}),
+      location,
+    });
+  }
+
+  return {
+    message:
+      symbols.length > 0
+        ? `Found ${symbols.length} symbol${symbols.length !== 1 ? 's' : ''} matching "${params.query}".`
+        : `No symbols found matching "${params.query}".`,
+    symbols,
+  };
+};
+
+async function toSymbolLocation(
+  mounts: Map<string, CodeNavigationMount>,
+  symbol: LspSymbol['symbol'],
+): Promise<CodeLocation | undefined> {
+  // Workspace symbols may omit the range until resolved; point at the file
+  const location =
+    'range' in symbol.location
+      ? symbol.location
+      : {
+          uri: symbol.location.uri,
+          range: {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 0 },
+          },
+        };
+  const [codeLocation] = await toCodeLocations(mounts, [location]);
+  return codeLocation;
+}
+
+export const searchWorkspaceSymbols = (deps: CodeNavigationToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: searchWorkspaceSymbolsToolInputSchema,
+    strict: false,
+    execute: (params) => searchWorkspaceSymbolsToolExecute(deps, params),
+  });
@@ -0,0 +1,254 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { MountPermission } from '@/services/sandbox/ipc';
+import type { CodeLocation } from '@shared/karton-contracts/ui/agent/tools/types';
+import { normalizePath } from '@shared/path-utils';
+import type { LspService } from '../../services/lsp';
+import type {
+  Location,
+  LocationLink,
+  Position,
+} from '../../services/lsp/types';
+
+export type CodeNavigationMount = {
+  path: string;
+  permissions: MountPermission[];
+  /** Undefined while the workspace has no LSP service (yet). */
+  lspService: LspService | undefined;
+};
+
+export interface CodeNavigationToolDeps {
+  /** Workspace mounts of the agent, keyed by mount prefix. */
+  getMounts: () => Map<string, CodeNavigationMount>;
+}
+
+export type SymbolPositionParams = {
+  path: string;
+  line: number;
+  symbol: string;
+  column?: number;
+};
+
+export type SymbolTarget = {
+  prefix: string;
+  mount: CodeNavigationMount;
+  /** Path relative to the workspace */
+  relativePath: string;
+  absolutePath: string;
+  /** Zero-based LSP position of the symbol */
+  position: Position;
+};
+
+/**
+ * Safety net for a single LSP request. Language servers answer within
+ * milliseconds once warm, but a server that is still indexing a large
+ * project can stall indefinitely.
+ */
+const LSP_REQUEST_TIMEOUT_MS = 15_000;
+
+const MAX_PREVIEW_LENGTH = 200;
+
+export function noLanguageServerMessage(mountedPath: string): string {
+  return `No language server handles ${mountedPath}. Use grepSearch to find the symbol instead.`;
+}
+
+/**
+ * Resolve a mount-prefixed file path. Mutating tools pass `edit` and are
+ * refused on mounts without edit permission.
+ */
+export function resolveMountedFile(
+  mounts: Map<string, CodeNavigationMount>,
+  mountedPath: string,
+  access: 'read' | 'edit',
+): { prefix: string; mount: CodeNavigationMount; relativePath: string } {
+  const [prefix = '', ...parts] = normalizePath(mountedPath)
+    .split('/')
+    .filter((part) => part && part !== '.');
+  const mount = mounts.get(prefix);
+  if (!mount) {
+    throw new Error(
+      `Mount ${prefix} not found. Available mounts: ${Array.from(mounts.keys()).join(', ')}`,
+    );
+  }
+  if (access === 'edit' && !mount.permissions.includes('edit')) {
+    throw new Error(`Mount ${prefix} is read-only.`);
+  }
+  if (parts.length === 0 || parts.includes('..')) {
+    throw new Error(
+      `Path ${mountedPath} does not point to a file in ${prefix}.`,
+    );
+  }
+  return { prefix, mount, relativePath: parts.join('/') };
+}
+
+/**
+ * Find the mount that contains an absolute path.
+ */
+export function findMountForPath(
+  mounts: Map<string, CodeNavigationMount>,
+  absolutePath: string,
+): { prefix: string; mount: CodeNavigationMount; mountedPath: string } | null {
+  for (const [prefix, mount] of mounts) {
+    const relative = path.relative(mount.path, absolutePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      continue;
+    }
+    return {
+      prefix,
+      mount,
+      mountedPath: `${prefix}/${normalizePath(relative)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Resolve the file and LSP position of a symbol the agent refers to by
+ * line and name. Models are unreliable at counting columns, so the column
+ * is derived from the symbol name unless it is given explicitly.
+ */
+export async function resolveSymbolTarget(
+  mounts: Map<string, CodeNavigationMount>,
+  params: SymbolPositionParams,
+  access: 'read' | 'edit',
+): Promise<SymbolTarget> {
+  const { prefix, mount, relativePath } = resolveMountedFile(
+    mounts,
+    params.path,
+    access,
+  );
+  const absolutePath = path.join(mount.path, relativePath);
+
+  let content: string;
+  try {
+    content = await readFile(absolutePath, 'utf8');
+  } catch {
+    throw new Error(`File ${params.path} not found.`);
+  }
+
+  const lines = content.split(/\r?\n/);
+  const lineText = lines[params.line - 1];
+  if (lineText === undefined) {
+    throw new Error(
+      `Line ${params.line} is out of range; ${params.path} has ${lines.length} lines.`,
+    );
+  }
+
+  let character: number;
+  if (params.column !== undefined) {
+    character = params.column - 1;
+    if (!lineText.startsWith(params.symbol, character)) {
+      throw new Error(
+        `"${params.symbol}" is not at line ${params.line}, column ${params.column} of ${params.path}.`,
+      );
+    }
+  } else {
+    character = findSymbolInLine(lineText, params.symbol);
+    if (character === -1) {
+      throw new Error(
+        `"${params.symbol}" not found on line ${params.line} of ${params.path}.`,
+      );
+    }
+  }
+
+  return {
+    prefix,
+    mount,
+    relativePath,
+    absolutePath,
+    position: { line: params.line - 1, character },
+  };
+}
+
+/** Prefers a whole-identifier match over a substring of a longer name. */
+function findSymbolInLine(lineText: string, symbol: string): number {
+  const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(lineText);
+  return match ? match.index : lineText.indexOf(symbol);
+}
+
+/**
+ * Open the target file in its language servers. Returns null when no
+ * server handles the file, so tools can fall back gracefully.
+ */
+export async function getLanguageServer(
+  target: SymbolTarget,
+): Promise<LspService | null> {
+  const { lspService } = target.mount;
+  if (!lspService) return null;
+  await withLspTimeout(lspService.touchFile(target.relativePath));
+  return (await lspService.hasClientsForFile(target.relativePath))
+    ? lspService
+    : null;
+}
+
+export async function withLspTimeout<T>(request: Promise<T>): Promise<T> {
+  let timeout: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      request,
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(
+          () =>
+            reject(
+              new Error(
+                'The language server did not respond in time. It may still be indexing the project; use grepSearch instead.',
+              ),
+            ),
+          LSP_REQUEST_TIMEOUT_MS,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Convert LSP locations to mount-prefixed locations with a preview of the
+ * source line. Duplicates reported by several servers are dropped.
+ */
+export async function toCodeLocations(
+  mounts: Map<string, CodeNavigationMount>,
+  locations: Array<Location | LocationLink>,
+): Promise<CodeLocation[]> {
+  const fileLines = new Map<string, Promise<string[] | null>>();
+  const getLines = (absolutePath: string) => {
+    let lines = fileLines.get(absolutePath);
+    if (!lines) {
+      lines = readFile(absolutePath, 'utf8').then(
+        (content) => content.split(/\r?\n/),
+        () => null,
+      );
+      fileLines.set(absolutePath, lines);
+    }
+    return lines;
+  };
+
+  const seen = new Set<string>();
+  const result: CodeLocation[] = [];
+  for (const location of locations) {
+    const { uri, range } =
+      'targetUri' in location
+        ? { uri: location.targetUri, range: location.targetSelectionRange }
+        : location;
+    if (!uri.startsWith('file:')) continue;
+
+    const absolutePath = fileURLToPath(uri);
+    const key = `${absolutePath}:${range.start.line}:${range.start.character}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const preview = (await getLines(absolutePath))?.[range.start.line]
+      ?.trim()
+      .slice(0, MAX_PREVIEW_LENGTH);
+    result.push({
+      path: findMountForPath(mounts, absolutePath)?.mountedPath ?? absolutePath,
+      line: range.start.line + 1,
+      column: range.start.character + 1,
+      ...(preview ? { preview } : {}),
+    });
+  }
+  return result;
+}
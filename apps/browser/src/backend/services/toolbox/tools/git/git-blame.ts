@@ -0,0 +1,76 @@
+import {
+  type GitBlameToolInput,
+  type GitBlameToolOutput,
+  gitBlameToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import { type GitToolDeps, resolveGitPath, shortSha } from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Show which commit last changed each line of a file (git blame). Read-only.
+
+Parameters:
+- path (string, REQUIRED): Mount-prefixed file path, e.g. "w1a2b/src/index.ts".
+- startLine (number, OPTIONAL): First line (1-based). Default: 1.
+- endLine (number, OPTIONAL): Last line (1-based, inclusive). Default and maximum: startLine + 199. Clamped to the end of the file.
+
+Behavior: Returns each line with the shortened sha of its commit, plus author, date and subject per commit. Lines whose sha is all zeroes are not committed yet.`;
+
+const MAX_BLAME_LINES = 200;
+
+export const gitBlameToolExecute = async (
+  deps: GitToolDeps,
+  params: GitBlameToolInput,
+): Promise<GitBlameToolOutput> => {
+  const target = resolveGitPath(deps.getMounts(), params.path, 'read');
+  if (!target.path) throw new Error('path must point to a file.');
+
+  const startLine = params.startLine ?? 1;
+  const endLine = Math.min(
+    params.endLine ?? Number.POSITIVE_INFINITY,
+    startLine + MAX_BLAME_LINES - 1,
+  );
+  if (endLine < startLine) {
+    throw new Error('endLine must not be smaller than startLine.');
+  }
+
+  const result = await deps.gitService.getBlame(
+    target.workspacePath,
+    target.path,
+    { startLine, endLine },
+  );
+  if (!result.ok) throw new Error(result.message);
+
+  const commits: GitBlameToolOutput['commits'] = {};
+  for (const [sha, commit] of Object.entries(result.commits)) {
+    commits[shortSha(sha)] = {
+      author: commit.authorName,
+      date: commit.date,
+      subject: commit.subject,
+    };
+  }
+  const last = result.lines.at(-1)?.line;
+
+  return {
+    message: last
+      ? `Blamed lines ${startLine}-${last} of ${params.path}.`
+      : `No lines to blame in ${params.path}.`,
+    lines: result.lines.map((line) => ({
+      line: line.line,
+      sha: shortSha(line.sha),
+      content: line.content,
+    })),
+    commits,
+  };
+};
+
+export const gitBlame = (deps: GitToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: gitBlameToolInputSchema,
+    strict: false,
+    execute: (params) => gitBlameToolExecute(deps, params),
+  });
@@ -0,0 +1,148 @@
+import path from 'node:path';
+import type { ToolCallFileEdit } from '@stagewise/agent-core/types';
+import {
+  type GitCommitToolInput,
+  type GitCommitToolOutput,
+  gitCommitToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import {
+  type GitToolDeps,
+  gitToolNeedsApproval,
+  resolveGitPath,
+  shortSha,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Create a git commit (or amend the last one) in a workspace's repository.
+
+Parameters:
+- mount (string, REQUIRED): Mount prefix of the repository workspace, e.g. "w1a2b".
+- message (string, OPTIONAL): Commit message — a short imperative subject line, optionally followed by a blank line and a body. When omitted, a message listing the committed files is generated; with amend, the previous message is kept. Prefer writing a message that explains the change.
+- paths (string[], OPTIONAL): Mount-prefixed paths to stage and commit. Only these paths are committed; anything else the user staged stays staged.
+- turnEdits (boolean, OPTIONAL): Stage and commit every file you edited in this mount since the user's last message. The commit gets a "Stagewise-Tool-Call" trailer per tool call that made those edits.
+- amend (boolean, OPTIONAL): Amend the last commit instead of creating a new one. Never amend commits that were already pushed.
+
+Without paths or turnEdits, the current index is committed as is.
+
+Behavior: Returns the new commit's shortened sha and subject, the files it contains (repository-relative) and the tool call ids it references.`;
+
+const TOOL_CALL_TRAILER = 'Stagewise-Tool-Call';
+
+export interface GitCommitToolDeps extends GitToolDeps {
+  /** Tool call ids of the agent's current turn, oldest first. */
+  getTurnToolCallIds: () => string[];
+  getFileEditsForToolCalls: (
+    toolCallIds: string[],
+  ) => Promise<ToolCallFileEdit[]>;
+}
+
+/** Fallback message when the agent leaves it out. */
+export function generateCommitMessage(files: string[]): string {
+  const subject =
+    files.length === 1
+      ? `Update ${path.posix.basename(files[0]!)}`
+      : `Update ${files.length} files`;
+  return [subject, '', ...files.map((file) => `- ${file}`)].join('\n');
+}
+
+/**
+ * Files of `edits` inside `workspacePath` (workspace-relative, POSIX
+ * separators) and the tool calls that produced them.
+ */
+function editsInWorkspace(
+  edits: ToolCallFileEdit[],
+  workspacePath: string,
+): { paths: string[]; toolCallIds: string[] } {
+  const paths: string[] = [];
+  const toolCallIds = new Set<string>();
+  for (const edit of edits) {
+    const relative = path.relative(workspacePath, edit.path);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      continue;
+    }
+    paths.push(relative.split(path.sep).join('/'));
+    for (const id of edit.toolCallIds) toolCallIds.add(id);
+  }
+  return { paths, toolCallIds: [...toolCallIds] };
+}
+
+export const gitCommitToolExecute = async (
+  deps: GitCommitToolDeps,
+  params: GitCommitToolInput,
+): Promise<GitCommitToolOutput> => {
+  const mounts = deps.getMounts();
+  const target = resolveGitPath(mounts, params.mount, 'write');
+  const paths = new Set<string>();
+  for (const mountedPath of params.paths ?? []) {
+    const resolved = resolveGitPath(mounts, mountedPath, 'write');
+    if (resolved.workspacePath !== target.workspacePath) {
+      throw new Error(
+        `Path ${mountedPath} is not inside mount ${target.prefix}.`,
+      );
+    }
+    paths.add(resolved.path || '.');
+  }
+
+  let toolCallIds: string[] = [];
+  if (params.turnEdits) {
+    const edits = await deps.getFileEditsForToolCalls(
+      deps.getTurnToolCallIds(),
+    );
+    const turn = editsInWorkspace(edits, target.workspacePath);
+    if (turn.paths.length === 0) {
+      throw new Error(
+        `You have not edited any files in mount ${target.prefix} since the user's last message.`,
+      );
+    }
+    for (const turnPath of turn.paths) paths.add(turnPath);
+    toolCallIds = turn.toolCallIds;
+  }
+
+  let message = params.message?.trim();
+  if (!message && !params.amend) {
+    const files =
+      paths.size > 0
+        ? [...paths]
+        : ((
+            await deps.gitService.getRepositoryStatus(target.workspacePath)
+          )?.staged.map((change) => change.path) ?? []);
+    if (files.length === 0) throw new Error('There is nothing to commit.');
+    message = generateCommitMessage(files);
+  }
+
+  const result = await deps.gitService.commit(target.workspacePath, {
+    message,
+    paths: [...paths],
+    amend: params.amend,
+    trailers: toolCallIds.map((id) => `${TOOL_CALL_TRAILER}: ${id}`),
+  });
+  if (!result.ok) throw new Error(result.message);
+
+  return {
+    message: `${params.amend ? 'Amended' : 'Created'} commit ${shortSha(result.commit.sha)} with ${result.files.length} file${result.files.length === 1 ? '' : 's'}.`,
+    sha: shortSha(result.commit.sha),
+    subject: result.commit.subject,
+    files: result.files,
+    toolCallIds,
+  };
+};
+
+export const gitCommit = (deps: GitCommitToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: gitCommitToolInputSchema,
+    strict: false,
+    needsApproval: (input, { toolCallId }) =>
+      gitToolNeedsApproval(
+        deps,
+        toolCallId,
+        input.amend
+          ? 'Amending rewrites the last commit. If it was already pushed, the branch diverges from its upstream.'
+          : null,
+      ),
+    execute: (params) => gitCommitToolExecute(deps, params),
+  });
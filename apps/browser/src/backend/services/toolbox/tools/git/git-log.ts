@@ -0,0 +1,56 @@
+import {
+  type GitLogToolInput,
+  type GitLogToolOutput,
+  gitLogToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import { type GitToolDeps, resolveGitPath, shortSha } from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `List commits of a workspace's git repository, newest first. Read-only.
+
+Parameters:
+- path (string, REQUIRED): Mount prefix for the whole history (e.g. "w1a2b"), or a mount-prefixed file/directory path to list only commits touching it (e.g. "w1a2b/src/index.ts").
+- ref (string, OPTIONAL): Revision or range, e.g. "main" or "main..HEAD". Default: HEAD.
+- maxCount (number, OPTIONAL): Maximum number of commits. Default: 20, max: 100.
+
+Behavior: Returns sha (shortened), author, ISO date and subject per commit.`;
+
+const DEFAULT_MAX_COUNT = 20;
+
+export const gitLogToolExecute = async (
+  deps: GitToolDeps,
+  params: GitLogToolInput,
+): Promise<GitLogToolOutput> => {
+  const target = resolveGitPath(deps.getMounts(), params.path, 'read');
+  const result = await deps.gitService.getLog(target.workspacePath, {
+    maxCount: params.maxCount ?? DEFAULT_MAX_COUNT,
+    ref: params.ref,
+    path: target.path || undefined,
+  });
+  if (!result.ok) throw new Error(result.message);
+
+  return {
+    message:
+      result.commits.length === 0
+        ? 'No commits found.'
+        : `Found ${result.commits.length} commit${result.commits.length === 1 ? '' : 's'}.`,
+    commits: result.commits.map((commit) => ({
+      sha: shortSha(commit.sha),
+      author: commit.authorName,
+      date: commit.date,
+      subject: commit.subject,
+    })),
+  };
+};
+
+export const gitLog = (deps: GitToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: gitLogToolInputSchema,
+    strict: false,
+    execute: (params) => gitLogToolExecute(deps, params),
+  });
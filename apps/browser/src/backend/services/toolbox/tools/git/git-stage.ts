@@ -0,0 +1,97 @@
+import {
+  type GitStageToolInput,
+  type GitStageToolOutput,
+  gitStageToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import {
+  type GitToolDeps,
+  gitToolNeedsApproval,
+  resolveGitPath,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Stage or unstage changes in the git index. The working tree is never modified.
+
+Parameters:
+- paths (string[], OPTIONAL): Mount-prefixed paths to stage as a whole, e.g. "w1a2b/src/index.ts". Deleted files are staged as deletions.
+- patch (object, OPTIONAL): Stage individual hunks instead of whole files.
+  - mount (string, REQUIRED): Mount prefix of the repository workspace.
+  - diff (string, REQUIRED): Unified diff with only the hunks to stage, paths relative to the repository root exactly as printed by \`git diff\`. Hunk line counts are recounted, so you may drop hunks or lines from \`git diff\` output as long as the remaining context matches.
+- unstage (boolean, OPTIONAL): Remove the paths or hunks from the index instead (reset to HEAD).
+
+At least one of paths or patch is required.
+
+Behavior: Returns the files staged afterwards in the affected repositories (repository-relative paths).`;
+
+export const gitStageToolExecute = async (
+  deps: GitToolDeps,
+  params: GitStageToolInput,
+): Promise<GitStageToolOutput> => {
+  const paths = params.paths ?? [];
+  if (paths.length === 0 && !params.patch) {
+    throw new Error('Provide paths or a patch to stage.');
+  }
+
+  const mounts = deps.getMounts();
+  const byWorkspace = new Map<string, string[]>();
+  for (const mountedPath of paths) {
+    const target = resolveGitPath(mounts, mountedPath, 'write');
+    const group = byWorkspace.get(target.workspacePath) ?? [];
+    group.push(target.path || '.');
+    byWorkspace.set(target.workspacePath, group);
+  }
+  const patchTarget = params.patch
+    ? resolveGitPath(mounts, params.patch.mount, 'write')
+    : null;
+
+  for (const [workspacePath, workspacePaths] of byWorkspace) {
+    const result = await deps.gitService.stagePaths(
+      workspacePath,
+      workspacePaths,
+      { unstage: params.unstage },
+    );
+    if (!result.ok) throw new Error(result.message);
+  }
+  if (params.patch && patchTarget) {
+    const result = await deps.gitService.stagePatch(
+      patchTarget.workspacePath,
+      params.patch.diff,
+      { reverse: params.unstage },
+    );
+    if (!result.ok) throw new Error(result.message);
+  }
+
+  const workspaces = new Set(byWorkspace.keys());
+  if (patchTarget) workspaces.add(patchTarget.workspacePath);
+  const staged = new Set<string>();
+  for (const workspacePath of workspaces) {
+    const status = await deps.gitService.getRepositoryStatus(workspacePath);
+    for (const change of status?.staged ?? []) staged.add(change.path);
+  }
+
+  const parts = [
+    paths.length > 0
+      ? `${paths.length} path${paths.length === 1 ? '' : 's'}`
+      : null,
+    params.patch ? 'the patch' : null,
+  ].filter(Boolean);
+  return {
+    message: `${params.unstage ? 'Unstaged' : 'Staged'} ${parts.join(' and ')}. ${staged.size} file${staged.size === 1 ? '' : 's'} staged now.`,
+    staged: [...staged],
+  };
+};
+
+export const gitStage = (deps: GitToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: gitStageToolInputSchema,
+    strict: false,
+    // Index changes are reversible, so smart mode never asks.
+    needsApproval: (_input, { toolCallId }) =>
+      gitToolNeedsApproval(deps, toolCallId, null),
+    execute: (params) => gitStageToolExecute(deps, params),
+  });
@@ -0,0 +1,93 @@
+import {
+  type GitStashToolInput,
+  type GitStashToolOutput,
+  gitStashToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import { tool } from 'ai';
+import {
+  type GitToolDeps,
+  gitToolNeedsApproval,
+  resolveGitPath,
+} from './shared';
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+
+export const DESCRIPTION = `Save, restore or list stashed working-tree changes (git stash).
+
+Parameters:
+- mount (string, REQUIRED): Mount prefix of the repository workspace, e.g. "w1a2b".
+- action ("push" | "pop" | "apply" | "drop" | "list", REQUIRED):
+  - push: save local changes to a new stash and revert them in the working tree.
+  - pop: restore a stash and remove it; apply: restore it but keep it.
+  - drop: delete a stash without restoring it.
+  - list: list stashes (read-only).
+- message (string, OPTIONAL): Stash message (push only).
+- includeUntracked (boolean, OPTIONAL): Also stash untracked files (push only).
+- paths (string[], OPTIONAL): Mount-prefixed paths to limit the stash to (push only).
+- ref (string, OPTIONAL): Stash for pop/apply/drop, e.g. "stash@{1}". Default: the latest.
+
+Behavior: Returns git's output; list returns the stashes newest first. Pop and apply report conflicts in the message.`;
+
+export const gitStashToolExecute = async (
+  deps: GitToolDeps,
+  params: GitStashToolInput,
+): Promise<GitStashToolOutput> => {
+  const mounts = deps.getMounts();
+
+  if (params.action === 'list') {
+    const target = resolveGitPath(mounts, params.mount, 'read');
+    const stashes = await deps.gitService.listStashes(target.workspacePath);
+    if (!stashes) throw new Error(`Failed to list stashes in ${params.mount}.`);
+    return {
+      message:
+        stashes.length === 0
+          ? 'No stashes.'
+          : `${stashes.length} stash${stashes.length === 1 ? '' : 'es'}.`,
+      stashes,
+    };
+  }
+
+  const target = resolveGitPath(mounts, params.mount, 'write');
+  const result = await deps.gitService.stash(
+    target.workspacePath,
+    params.action === 'push'
+      ? {
+          action: 'push',
+          message: params.message,
+          includeUntracked: params.includeUntracked,
+          paths: (params.paths ?? []).map((mountedPath) => {
+            const resolved = resolveGitPath(mounts, mountedPath, 'write');
+            if (resolved.workspacePath !== target.workspacePath) {
+              throw new Error(
+                `Path ${mountedPath} is not inside mount ${target.prefix}.`,
+              );
+            }
+            return resolved.path || '.';
+          }),
+        }
+      : { action: params.action, ref: params.ref },
+  );
+  if (!result.ok) throw new Error(result.message);
+
+  return { message: result.output || `git stash ${params.action} succeeded.` };
+};
+
+export const gitStash = (deps: GitToolDeps) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: gitStashToolInputSchema,
+    strict: false,
+    needsApproval: (input, { toolCallId }) => {
+      if (input.action === 'list') return false;
+      return gitToolNeedsApproval(
+        deps,
+        toolCallId,
+        input.action === 'drop'
+          ? 'Dropping a stash deletes its changes without restoring them.'
+          : null,
+      );
+    },
+    execute: (params) => gitStashToolExecute(deps, params),
+  });
@@ -0,0 +1,75 @@
+import type { GitService } from '@/services/git';
+import type { MountPermission } from '@/services/sandbox/ipc';
+import type { ToolApprovalMode } from '@shared/karton-contracts/ui/shared-types';
+import { normalizePath } from '@shared/path-utils';
+
+export type GitToolMount = {
+  path: string;
+  permissions: MountPermission[];
+};
+
+export interface GitToolDeps {
+  gitService: GitService;
+  /** Workspace mounts of the agent, keyed by mount prefix. */
+  getMounts: () => Map<string, GitToolMount>;
+  getToolApprovalMode: () => ToolApprovalMode;
+  /** Stash the reason a smart-mode call asks for approval for the UI. */
+  recordPendingApproval: (toolCallId: string, explanation: string) => void;
+}
+
+export type ResolvedGitPath = {
+  prefix: string;
+  workspacePath: string;
+  /** Path relative to the workspace; empty for the mount root. */
+  path: string;
+};
+
+/**
+ * Resolve a mount-prefixed path for a git tool. Mutating tools pass
+ * `write` and are refused on mounts without edit permission.
+ */
+export function resolveGitPath(
+  mounts: Map<string, GitToolMount>,
+  mountedPath: string,
+  access: 'read' | 'write',
+): ResolvedGitPath {
+  const [prefix = '', ...parts] = normalizePath(mountedPath)
+    .split('/')
+    .filter((part) => part && part !== '.');
+  const mount = mounts.get(prefix);
+  if (!mount) {
+    throw new Error(
+      `Mount ${prefix} not found. Available mounts: ${Array.from(mounts.keys()).join(', ')}`,
+    );
+  }
+  if (access === 'write' && !mount.permissions.includes('edit')) {
+    throw new Error(`Mount ${prefix} is read-only.`);
+  }
+  if (parts.includes('..')) {
+    throw new Error(`Path ${mountedPath} points outside mount ${prefix}.`);
+  }
+  return { prefix, workspacePath: mount.path, path: parts.join('/') };
+}
+
+/**
+ * Approval decision shared by the mutating git tools. In smart mode only
+ * calls with a `risk` explanation ask, and the explanation is shown above
+ * the approve/skip buttons.
+ */
+export function gitToolNeedsApproval(
+  deps: GitToolDeps,
+  toolCallId: string,
+  risk: string | null,
+): boolean {
+  const mode = deps.getToolApprovalMode();
+  if (mode === 'alwaysAllow') return false;
+  if (mode === 'alwaysAsk') return true;
+  if (!risk) return false;
+  deps.recordPendingApproval(toolCallId, risk);
+  return true;
+}
+
+/** Commit shas are shortened in tool output to save tokens. */
+export function shortSha(sha: string): string {
+  return sha.slice(0, 12);
+}
@@ -0,0 +1,80 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolApprovalMode } from '@shared/karton-contracts/ui/shared-types';
+import { dynamicTool, type JSONSchema7, jsonSchema } from 'ai';
+import type { McpClientService, McpToolEntry } from '../../services/mcp-client';
+import { capToolOutput, rethrowCappedToolOutputError } from '../../utils';
+
+export interface McpToolDeps {
+  mcpClient: Pick<McpClientService, 'callTool'>;
+  getToolApprovalMode: () => ToolApprovalMode;
+}
+
+/**
+ * Approval decision for an MCP tool call. "Always ask" and "always allow"
+ * apply as for every other tool; smart mode follows the approval the user
+ * configured for the tool or its server.
+ */
+export function mcpToolNeedsApproval(
+  mode: ToolApprovalMode,
+  entry: Pick<McpToolEntry, 'config' | 'tool'>,
+): boolean {
+  if (mode === 'alwaysAllow') return false;
+  if (mode === 'alwaysAsk') return true;
+  const approval =
+    entry.config.toolApprovals[entry.tool.name] ??
+    entry.config.defaultToolApproval;
+  return approval === 'ask';
+}
+
+/**
+ * Text the model sees for a tool result. Images and other binary content
+ * are replaced by a note, since tool output is passed on as text.
+ */
+export function formatMcpToolResult(result: CallToolResult): string {
+  const parts = result.content.map((content) => {
+    switch (content.type) {
+      case 'text':
+        return content.text;
+      case 'resource':
+        return 'text' in content.resource
+          ? content.resource.text
+          : `[Binary resource ${content.resource.uri} omitted]`;
+      case 'resource_link':
+        return `[Resource ${content.uri}]`;
+      default:
+        return `[${content.type} content omitted]`;
+    }
+  });
+  if (parts.length === 0 && result.structuredContent) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+  return parts.join('\n');
+}
+
+/** Exposes a tool of a connected MCP server to the agent. */
+export const mcpTool = (deps: McpToolDeps, entry: McpToolEntry) =>
+  dynamicTool({
+    description: `Tool "${entry.tool.name}" of the MCP server "${entry.serverName}".${
+      entry.tool.description ? `\n\n${entry.tool.description}` : ''
+    }`,
+    inputSchema: jsonSchema(entry.tool.inputSchema as JSONSchema7),
+    needsApproval: () =>
+      mcpToolNeedsApproval(deps.getToolApprovalMode(), entry),
+    execute: async (input, { abortSignal }) => {
+      try {
+        const result = await deps.mcpClient.callTool(
+          entry,
+          (input ?? {}) as Record<string, unknown>,
+          abortSignal,
+        );
+        const output = formatMcpToolResult(result);
+        if (result.isError) throw new Error(output);
+        return {
+          message: `Called ${entry.tool.name} on ${entry.serverName}`,
+          result: capToolOutput(output),
+        };
+      } catch (error) {
+        rethrowCappedToolOutputError(error);
+      }
+    },
+  });
@@ -0,0 +1,65 @@
+import {
+  type SearchChatHistoryToolInput,
+  type SearchChatHistoryToolOutput,
+  searchChatHistoryToolInputSchema,
+} from '@shared/karton-contracts/ui/agent/tools/types';
+import type {
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
+} from '@shared/karton-contracts/ui/agent';
+import { tool } from 'ai';
+
+export type ChatHistorySearcher = (
+  query: string,
+  options: AgentHistorySearchOptions,
+) => Promise<AgentHistorySearchHit[]>;
+
+/* Due to an issue in zod schema conversion in the ai sdk,
+   the schema descriptions are not properly used for the prompts -
+   thus, we include them in the descriptions as well. */
+export const DESCRIPTION = `Search the user's earlier chats for how a similar problem was discussed or solved. Matches message text, tool inputs and touched file paths. Read-only.
+
+Parameters:
+- query (string, REQUIRED): Words to look for: error messages, library names, file paths or a short description of the problem. Matches words (all words first, any word when none match all) and, when the user has picked an embedding model, also meaning. Without an embedding model, try synonyms when nothing relevant comes up.
+- limit (number, OPTIONAL): Maximum number of matching messages. Default: 8, max: 20.
+
+Behavior: Returns matching messages with chat title, date and a snippet (matched words in **bold**), best match first. Matches found only by meaning show the start of the message instead. The current chat is excluded. Read the full conversation via transcriptPath (e.g. "memory/agents/<id>/history.md") when a snippet looks relevant.`;
+
+const DEFAULT_LIMIT = 8;
+
+export const searchChatHistoryToolExecute = async (
+  search: ChatHistorySearcher,
+  agentInstanceId: string,
+  params: SearchChatHistoryToolInput,
+): Promise<SearchChatHistoryToolOutput> => {
+  const hits = await search(params.query, {
+    limit: params.limit ?? DEFAULT_LIMIT,
+    excludeAgentIds: [agentInstanceId],
+  });
+  return {
+    message:
+      hits.length === 0
+        ? 'No earlier chats matched.'
+        : `Found ${hits.length} matching message${hits.length === 1 ? '' : 's'} in ${new Set(hits.map((hit) => hit.agentInstanceId)).size} chat(s).`,
+    results: hits.map((hit) => ({
+      agentId: hit.agentInstanceId,
+      title: hit.title,
+      role: hit.role,
+      date: hit.createdAt ? new Date(hit.createdAt).toISOString() : null,
+      snippet: hit.snippet,
+      transcriptPath: `memory/agents/${hit.agentInstanceId}/history.md`,
+    })),
+  };
+};
+
+export const searchChatHistory = (
+  search: ChatHistorySearcher,
+  agentInstanceId: string,
+) =>
+  tool({
+    description: DESCRIPTION,
+    inputSchema: searchChatHistoryToolInputSchema,
+    strict: false,
+    execute: (params) =>
+      searchChatHistoryToolExecute(search, agentInstanceId, params),
+  });
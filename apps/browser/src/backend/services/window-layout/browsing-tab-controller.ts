@@ -49,6 +49,11 @@ import { TabErrorHandler } from './tab-error-handler';
 import { TabPermissionHandler } from './tab-permission-handler';
 import { SessionPermissionRegistry } from './tab-permission-handler/session-registry';
 import { TabAuthenticationHandler } from './tab-authentication-handler';
+import { TabNetworkRecorder } from './tab-network-recorder';
+import type {
+  GetNetworkRequestsOptions,
+  NetworkRequestEntry,
+} from '@shared/network-requests';
 import type {
   PermissionRequest,
   AuthenticationRequest,
@@ -93,6 +98,8 @@ export interface TabState {
   lastFocusedAt: number; // Timestamp (Date.now()) of when this tab was last focused
   consoleLogCount: number; // Total number of console logs captured since page load
   consoleErrorCount: number; // Number of error-level console logs
+  networkRequestCount: number; // Number of recorded network requests
+  networkFailedCount: number; // Number of failed requests and error responses
   permissionRequests: PermissionRequest[]; // Pending permission requests for this tab
   isContentFullscreen: boolean; // Whether the tab's web content is in HTML5 fullscreen mode
   authenticationRequest: AuthenticationRequest | null; // Pending HTTP Basic Auth request
@@ -265,6 +272,9 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
   // Authentication handling
   private authenticationHandler: TabAuthenticationHandler | null = null;
 
+  // Network request recording
+  private networkRecorder: TabNetworkRecorder | null = null;
+
   constructor(
     id: string,
     parentWindow: BaseWindow,
@@ -334,6 +344,11 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
       },
     );
 
+    // Network capture is lost with the debugger, so it resumes on reattach
+    this.selectedElementTracker.on('debuggerAttached', () => {
+      void this.networkRecorder?.enable();
+    });
+
     // Track pending info collection to avoid duplicate work
     let pendingInfoCollection: NodeJS.Timeout | null = null;
     let lastHoveredElementId: string | null = null;
@@ -399,6 +414,8 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
 
       consoleLogCount: 0,
       consoleErrorCount: 0,
+      networkRequestCount: 0,
+      networkFailedCount: 0,
       permissionRequests: [],
       isContentFullscreen: false,
       authenticationRequest: null,
@@ -409,6 +426,7 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
     this.startScreenshotTracking();
     this.setupScreenshotOnResize();
     this.setupConsoleLogCapture();
+    this.setupNetworkRecorder();
     this.setupErrorHandler();
     this.setupPermissionHandler();
     this.setupAuthenticationHandler();
@@ -1332,6 +1350,12 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
       this.authenticationHandler = null;
     }
 
+    // Clean up network recorder
+    if (this.networkRecorder) {
+      this.networkRecorder.destroy();
+      this.networkRecorder = null;
+    }
+
     // Only detach debugger if webContents is still alive
     if (!this.webContentsView.webContents.isDestroyed()) {
       this.detachDevToolsDebugger();
@@ -1523,6 +1547,7 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
           );
         });
         this.enableCdpDomainsForConsole();
+        void this.networkRecorder?.enable();
 
         // Now that the page is loaded, log to history with the final title
         if (this.pendingHistoryUrl) {
@@ -2581,6 +2606,75 @@ export class BrowsingTabController extends EventEmitter<TabControllerEventMap> {
     this.authenticationHandler?.cancelAuth(requestId);
   }
 
+  // =========================================================================
+  // Network Request Recording
+  // =========================================================================
+
+  /**
+   * Sets up the TabNetworkRecorder for recording requests through the CDP
+   * Network domain.
+   */
+  private setupNetworkRecorder() {
+    this.networkRecorder = new TabNetworkRecorder(
+      this.id,
+      this.webContentsView.webContents,
+      this.logger,
+      {
+        onCountsUpdate: (counts) => {
+          this.updateState(counts);
+        },
+      },
+    );
+    void this.networkRecorder.enable();
+  }
+
+  /**
+   * Gets recorded network requests with optional filtering and limiting.
+   *
+   * @param options - Filter and limit options
+   * @returns Array of requests (most recent first)
+   */
+  public getNetworkRequests(
+    options?: GetNetworkRequestsOptions,
+  ): NetworkRequestEntry[] {
+    return this.networkRecorder?.getRequests(options) ?? [];
+  }
+
+  /**
+   * Gets a single recorded network request by its ID.
+   */
+  public getNetworkRequest(requestId: string): NetworkRequestEntry | undefined {
+    return this.networkRecorder?.getRequest(requestId);
+  }
+
+  /**
+   * Gets the total count of recorded network requests (before filtering).
+   */
+  public getNetworkRequestCount(): number {
+    return this.networkRecorder?.getRequestCount() ?? 0;
+  }
+
+  /**
+   * Gets all recorded network requests in the order they were sent.
+   */
+  public getNetworkEntries(): NetworkRequestEntry[] {
+    return this.networkRecorder?.getEntries() ?? [];
+  }
+
+  /**
+   * Replaces the recorded network requests with imported ones.
+   */
+  public importNetworkRequests(entries: NetworkRequestEntry[]) {
+    this.networkRecorder?.importEntries(entries);
+  }
+
+  /**
+   * Clears all recorded network requests.
+   */
+  public clearNetworkRequests() {
+    this.networkRecorder?.clear();
+  }
+
   // =========================================================================
   // Console Log Capture
   // =========================================================================
@@ -27,6 +27,10 @@ import {
   type GetConsoleLogsOptions,
 } from './browsing-tab-controller';
 import { ChatStateController } from './chat-state-controller';
+import type {
+  GetNetworkRequestsOptions,
+  NetworkRequestEntry,
+} from '@shared/network-requests';
 import {
   type ColorScheme,
   type ConfigurablePermissionType,
@@ -3352,7 +3356,7 @@ export class WindowLayoutService extends DisposableService {
    *
    * @returns An error message string if access is denied, or null if allowed.
    */
-  private validateTabAccess(
+  public validateTabAccess(
     tabId: string,
     agentInstanceId?: string,
   ): string | null {
@@ -3502,4 +3506,79 @@ export class WindowLayoutService extends DisposableService {
     tab.clearConsoleLogs();
     return { success: true };
   }
+
+  /**
+   * Gets recorded network requests from the specified tab with optional
+   * filtering.
+   *
+   * @param tabId - The tab ID to get requests from
+   * @param options - Optional filter and limit options
+   * @returns An object with success status and either the requests or an error message
+   */
+  public getNetworkRequests(
+    tabId: string,
+    options?: GetNetworkRequestsOptions,
+    agentInstanceId?: string,
+  ): {
+    success: boolean;
+    requests?: NetworkRequestEntry[];
+    totalCount?: number;
+    error?: string;
+  } {
+    const tab = this.resolveTabById(tabId);
+
+    if (!tab) {
+      return {
+        success: false,
+        error: `Tab not found: "${tabId}". Check browser-information for available tabs.`,
+      };
+    }
+
+    const accessError = this.validateTabAccess(tabId, agentInstanceId);
+    if (accessError) return { success: false, error: accessError };
+
+    return {
+      success: true,
+      requests: tab.getNetworkRequests(options),
+      totalCount: tab.getNetworkRequestCount(),
+    };
+  }
+
+  /**
+   * Gets a single recorded network request with headers, bodies and timings.
+   *
+   * @param tabId - The tab ID the request was recorded in
+   * @param requestId - The ID of the recorded request
+   * @returns An object with success status and either the request or an error message
+   */
+  public getNetworkRequest(
+    tabId: string,
+    requestId: string,
+    agentInstanceId?: string,
+  ): {
+    success: boolean;
+    request?: NetworkRequestEntry;
+    error?: string;
+  } {
+    const tab = this.resolveTabById(tabId);
+
+    if (!tab) {
+      return {
+        success: false,
+        error: `Tab not found: "${tabId}". Check browser-information for available tabs.`,
+      };
+    }
+
+    const accessError = this.validateTabAccess(tabId, agentInstanceId);
+    if (accessError) return { success: false, error: accessError };
+
+    const request = tab.getNetworkRequest(requestId);
+    if (!request) {
+      return {
+        success: false,
+        error: `Request not found: "${requestId}". It may have been cleared or evicted.`,
+      };
+    }
+    return { success: true, request };
+  }
 }
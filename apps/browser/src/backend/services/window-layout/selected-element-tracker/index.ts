@@ -7,6 +7,8 @@ import { ReactComponentTracker } from './react-component-tracker';
 
 interface ElementSelectorEventMap {
   hoverChanged: [elementId: string | null];
+  /** The tracker attached the debugger, initially or after a detach */
+  debuggerAttached: [];
 }
 
 interface HoverState {
@@ -130,6 +132,7 @@ export class SelectedElementTracker extends EventEmitter<ElementSelectorEventMap
         );
         return;
       }
+      this.emit('debuggerAttached');
     }
 
     // Set up event listeners if not already set up
@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import type {
+  NetworkRequestBody,
+  NetworkRequestEntry,
+  NetworkRequestTimings,
+} from '@shared/network-requests';
+
+/*
+ * Conversion between recorded network requests and HAR 1.2 files
+ * (http://www.softwareishard.com/blog/har-12-spec/).
+ *
+ * Only the fields the network recorder tracks are mapped. Custom fields
+ * follow the Chrome DevTools convention of a leading underscore.
+ */
+
+const harNameValueSchema = z.object({ name: z.string(), value: z.string() });
+
+const harEntrySchema = z.object({
+  startedDateTime: z.string(),
+  time: z.number().optional(),
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    httpVersion: z.string().optional(),
+    headers: z.array(harNameValueSchema).default([]),
+    postData: z
+      .object({
+        mimeType: z.string().optional(),
+        text: z.string().optional(),
+      })
+      .optional(),
+  }),
+  response: z.object({
+    status: z.number(),
+    statusText: z.string().default(''),
+    httpVersion: z.string().optional(),
+    headers: z.array(harNameValueSchema).default([]),
+    content: z
+      .object({
+        size: z.number().optional(),
+        mimeType: z.string().optional(),
+        text: z.string().optional(),
+        encoding: z.string().optional(),
+      })
+      .default({}),
+    bodySize: z.number().optional(),
+    _transferSize: z.number().optional(),
+    _error: z.string().optional(),
+  }),
+  timings: z
+    .object({
+      blocked: z.number().optional(),
+      dns: z.number().optional(),
+      connect: z.number().optional(),
+      ssl: z.number().optional(),
+      send: z.number().optional(),
+      wait: z.number().optional(),
+      receive: z.number().optional(),
+    })
+    .optional(),
+  serverIPAddress: z.string().optional(),
+  _resourceType: z.string().optional(),
+  _pageUrl: z.string().optional(),
+  _bodyTruncated: z.boolean().optional(),
+});
+
+const harSchema = z.object({
+  log: z.object({
+    version: z.string().optional(),
+    entries: z.array(harEntrySchema),
+  }),
+});
+
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+/**
+ * Creates a HAR 1.2 document from recorded requests. Requests that are
+ * still pending are left out because HAR has no notion of them.
+ */
+export function createHar(entries: NetworkRequestEntry[], creator: HarCreator) {
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      pages: [],
+      entries: entries
+        .filter((entry) => entry.state !== 'pending')
+        .map(toHarEntry),
+    },
+  };
+}
+
+function toHarEntry(entry: NetworkRequestEntry) {
+  const httpVersion = entry.httpVersion ?? 'HTTP/1.1';
+  const contentType = findHeader(entry.requestHeaders, 'content-type');
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.durationMs ?? 0,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion,
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString: toQueryString(entry.url),
+      headersSize: -1,
+      bodySize: entry.requestBody?.text.length ?? 0,
+      ...(entry.requestBody
+        ? {
+            postData: {
+              mimeType: contentType ?? '',
+              text: entry.requestBody.text,
+            },
+          }
+        : {}),
+    },
+    response: {
+      status: entry.state === 'failed' ? 0 : (entry.status ?? 0),
+      statusText: entry.statusText ?? '',
+      httpVersion,
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders ?? {}),
+      content: {
+        size: entry.responseBody?.text.length ?? 0,
+        mimeType: entry.mimeType ?? 'x-unknown',
+        ...(entry.responseBody?.text
+          ? {
+              text: entry.responseBody.text,
+              ...(entry.responseBody.base64Encoded
+                ? { encoding: 'base64' }
+                : {}),
+            }
+          : {}),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      ...(entry.transferSize !== undefined
+        ? { _transferSize: entry.transferSize }
+        : {}),
+      ...(entry.errorText ? { _error: entry.errorText } : {}),
+    },
+    cache: {},
+    timings: {
+      ...(entry.timings ?? { blocked: -1, dns: -1, connect: -1, ssl: -1 }),
+      // send, wait and receive are required to be non-negative
+      send: Math.max(0, entry.timings?.send ?? 0),
+      wait: Math.max(0, entry.timings?.wait ?? entry.durationMs ?? 0),
+      receive: Math.max(0, entry.timings?.receive ?? 0),
+    },
+    ...(entry.remoteIPAddress
+      ? { serverIPAddress: entry.remoteIPAddress }
+      : {}),
+    _resourceType: entry.resourceType,
+    _pageUrl: entry.pageUrl,
+    ...(entry.responseBody?.truncated ? { _bodyTruncated: true } : {}),
+  };
+}
+
+/**
+ * Parses a HAR document into requests marked as imported.
+ *
+ * @throws Error if the document is not a valid HAR file
+ */
+export function parseHar(json: unknown): NetworkRequestEntry[] {
+  const parsed = harSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error('The file is not a valid HAR file.');
+  }
+
+  return parsed.data.log.entries.map((harEntry, index): NetworkRequestEntry => {
+    const { request, response } = harEntry;
+    const failed = response.status === 0;
+    const startedAt = Date.parse(harEntry.startedDateTime);
+    const responseBody: NetworkRequestBody | undefined =
+      response.content.text !== undefined
+        ? {
+            text: response.content.text,
+            base64Encoded: response.content.encoding === 'base64',
+            truncated: harEntry._bodyTruncated ?? false,
+          }
+        : undefined;
+
+    return {
+      id: `har-${index}`,
+      url: request.url,
+      method: request.method,
+      resourceType: harEntry._resourceType ?? 'Other',
+      state: failed ? 'failed' : 'finished',
+      status: failed ? undefined : response.status,
+      statusText: failed ? undefined : response.statusText,
+      mimeType: response.content.mimeType,
+      startedAt: Number.isNaN(startedAt) ? 0 : startedAt,
+      durationMs: harEntry.time,
+      transferSize: response._transferSize,
+      errorText: failed ? (response._error ?? 'Failed') : undefined,
+      imported: true,
+      requestHeaders: fromHarHeaders(request.headers),
+      requestBody:
+        request.postData?.text !== undefined
+          ? {
+              text: request.postData.text,
+              base64Encoded: false,
+              truncated: false,
+            }
+          : undefined,
+      responseHeaders: fromHarHeaders(response.headers),
+      responseBody,
+      timings: harEntry.timings ? fromHarTimings(harEntry.timings) : undefined,
+      httpVersion: response.httpVersion ?? request.httpVersion,
+      remoteIPAddress: harEntry.serverIPAddress,
+      pageUrl: harEntry._pageUrl ?? '',
+    };
+  });
+}
+
+function toHarHeaders(headers: Record<string, string>) {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function fromHarHeaders(
+  headers: Array<{ name: string; value: string }>,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const { name, value } of headers) {
+    // Repeated headers are joined like in CDP
+    result[name] = name in result ? `${result[name]}\n${value}` : value;
+  }
+  return result;
+}
+
+function fromHarTimings(
+  timings: Partial<NetworkRequestTimings>,
+): NetworkRequestTimings {
+  return {
+    blocked: timings.blocked ?? -1,
+    dns: timings.dns ?? -1,
+    connect: timings.connect ?? -1,
+    ssl: timings.ssl ?? -1,
+    send: timings.send ?? 0,
+    wait: timings.wait ?? 0,
+    receive: timings.receive ?? 0,
+  };
+}
+
+function toQueryString(url: string) {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function findHeader(headers: Record<string, string>, name: string) {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name,
+  );
+  return key ? headers[key] : undefined;
+}
@@ -0,0 +1,292 @@
+import { EventEmitter } from 'node:events';
+import type { WebContents } from 'electron';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Logger } from '@/services/logger';
+import { TabNetworkRecorder } from '.';
+import { createHar, parseHar } from './har';
+
+const logger = {
+  debug: vi.fn(),
+  warn: vi.fn(),
+} as unknown as Logger;
+
+function createWebContents() {
+  let attached = true;
+  const debuggerEmitter = Object.assign(new EventEmitter(), {
+    isAttached: () => attached,
+    sendCommand: vi.fn(async (method: string) => {
+      if (method === 'Network.getResponseBody') {
+        return { body: '{"ok":false}', base64Encoded: false };
+      }
+      return {};
+    }),
+  });
+  const webContents = {
+    debugger: debuggerEmitter,
+    isDestroyed: () => false,
+  } as unknown as WebContents;
+  const emit = (method: string, params: unknown) =>
+    debuggerEmitter.emit('message', {}, method, params);
+  const detach = () => {
+    attached = false;
+    debuggerEmitter.emit('detach', {}, 'target closed');
+  };
+  const reattach = () => {
+    attached = true;
+  };
+  return {
+    webContents,
+    sendCommand: debuggerEmitter.sendCommand,
+    emit,
+    detach,
+    reattach,
+  };
+}
+
+function sendRequest(
+  emit: (method: string, params: unknown) => void,
+  requestId: string,
+  url: string,
+  method = 'GET',
+) {
+  emit('Network.requestWillBeSent', {
+    requestId,
+    type: 'Fetch',
+    documentURL: 'http://localhost:3000/',
+    timestamp: 10,
+    wallTime: 1_700_000_000,
+    request: {
+      url,
+      method,
+      headers: { Accept: 'application/json' },
+      postData: method === 'POST' ? '{"name":"a"}' : undefined,
+    },
+  });
+}
+
+describe('TabNetworkRecorder', () => {
+  let recorder: TabNetworkRecorder;
+  let harness: ReturnType<typeof createWebContents>;
+  let onCountsUpdate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    harness = createWebContents();
+    onCountsUpdate = vi.fn();
+    recorder = new TabNetworkRecorder('t_1', harness.webContents, logger, {
+      onCountsUpdate,
+    });
+  });
+
+  afterEach(() => {
+    recorder.destroy();
+    vi.useRealTimers();
+  });
+
+  it('records responses with bodies and reports counts', async () => {
+    const { emit, sendCommand } = harness;
+    sendRequest(emit, 'r1', 'http://localhost:3000/api/items', 'POST');
+    emit('Network.responseReceived', {
+      requestId: 'r1',
+      type: 'Fetch',
+      response: {
+        status: 500,
+        statusText: 'Internal Server Error',
+        mimeType: 'application/json',
+        headers: { 'Content-Type': 'application/json' },
+        protocol: 'http/1.1',
+      },
+    });
+    emit('Network.loadingFinished', {
+      requestId: 'r1',
+      timestamp: 10.25,
+      encodedDataLength: 120,
+    });
+    await vi.runAllTimersAsync();
+
+    expect(sendCommand).toHaveBeenCalledWith('Network.getResponseBody', {
+      requestId: 'r1',
+    });
+    expect(recorder.getRequest('1')).toMatchObject({
+      method: 'POST',
+      state: 'finished',
+      status: 500,
+      durationMs: 250,
+      transferSize: 120,
+      pageUrl: 'http://localhost:3000/',
+      requestBody: { text: '{"name":"a"}', truncated: false },
+      responseBody: { text: '{"ok":false}', base64Encoded: false },
+    });
+    expect(onCountsUpdate).toHaveBeenLastCalledWith({
+      networkRequestCount: 1,
+      networkFailedCount: 1,
+    });
+  });
+
+  it('filters requests and lists the most recent first', () => {
+    const { emit } = harness;
+    sendRequest(emit, 'r1', 'http://localhost:3000/api/items');
+    sendRequest(emit, 'r2', 'http://localhost:3000/app.js');
+    sendRequest(emit, 'r3', 'http://localhost:3000/api/users', 'POST');
+    emit('Network.loadingFailed', {
+      requestId: 'r3',
+      type: 'Fetch',
+      timestamp: 11,
+      errorText: 'net::ERR_CONNECTION_REFUSED',
+    });
+
+    expect(recorder.getRequests().map((r) => r.id)).toEqual(['3', '2', '1']);
+    expect(recorder.getRequests({ filter: 'API' }).map((r) => r.id)).toEqual([
+      '3',
+      '1',
+    ]);
+    expect(
+      recorder.getRequests({ methods: ['post'] }).map((r) => r.id),
+    ).toEqual(['3']);
+    expect(recorder.getRequests({ failedOnly: true })).toEqual([
+      expect.objectContaining({
+        id: '3',
+        state: 'failed',
+        errorText: 'net::ERR_CONNECTION_REFUSED',
+      }),
+    ]);
+    expect(recorder.getRequests({ limit: 1 }).map((r) => r.id)).toEqual(['3']);
+  });
+
+  it('enables capture again after the debugger was reattached', async () => {
+    const { emit, sendCommand, detach, reattach } = harness;
+    const enableCount = () =>
+      sendCommand.mock.calls.filter(([method]) => method === 'Network.enable')
+        .length;
+    await recorder.enable();
+    sendRequest(emit, 'r1', 'http://localhost:3000/api/slow');
+
+    detach();
+    expect(recorder.getRequest('1')).toMatchObject({
+      state: 'failed',
+      errorText: 'Not recorded to the end (debugger detached)',
+    });
+    // While detached, enabling neither sends commands nor polls
+    await recorder.enable();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(enableCount()).toBe(1);
+    expect(vi.getTimerCount()).toBe(0);
+
+    reattach();
+    await recorder.enable();
+    expect(enableCount()).toBe(2);
+
+    // Events of requests from before the detach are ignored
+    emit('Network.loadingFinished', {
+      requestId: 'r1',
+      timestamp: 11,
+      encodedDataLength: 10,
+    });
+    expect(recorder.getRequest('1')?.state).toBe('failed');
+    expect(onCountsUpdate).toHaveBeenLastCalledWith({
+      networkRequestCount: 1,
+      networkFailedCount: 1,
+    });
+  });
+
+  it('splits redirects into one request per hop', () => {
+    const { emit } = harness;
+    sendRequest(emit, 'r1', 'http://localhost:3000/old');
+    emit('Network.requestWillBeSent', {
+      requestId: 'r1',
+      type: 'Document',
+      documentURL: 'http://localhost:3000/new',
+      timestamp: 10.1,
+      wallTime: 1_700_000_000.1,
+      request: { url: 'http://localhost:3000/new', method: 'GET', headers: {} },
+      redirectResponse: {
+        status: 301,
+        statusText: 'Moved Permanently',
+        mimeType: '',
+        headers: { Location: '/new' },
+        encodedDataLength: 80,
+      },
+    });
+
+    expect(recorder.getRequests()).toEqual([
+      expect.objectContaining({ url: 'http://localhost:3000/new' }),
+      expect.objectContaining({
+        url: 'http://localhost:3000/old',
+        state: 'finished',
+        status: 301,
+        durationMs: 100,
+      }),
+    ]);
+  });
+
+  it('round-trips requests through HAR files', async () => {
+    const { emit } = harness;
+    sendRequest(emit, 'r1', 'http://localhost:3000/api/items?page=2', 'POST');
+    emit('Network.responseReceived', {
+      requestId: 'r1',
+      type: 'Fetch',
+      response: {
+        status: 200,
+        statusText: 'OK',
+        mimeType: 'application/json',
+        headers: { 'Content-Type': 'application/json' },
+      },
+    });
+    emit('Network.loadingFinished', {
+      requestId: 'r1',
+      timestamp: 10.5,
+      encodedDataLength: 40,
+    });
+    sendRequest(emit, 'r2', 'http://localhost:3000/missing.png');
+    emit('Network.loadingFailed', {
+      requestId: 'r2',
+      type: 'Image',
+      timestamp: 10.2,
+      errorText: 'net::ERR_FAILED',
+    });
+    sendRequest(emit, 'r3', 'http://localhost:3000/pending');
+    await vi.runAllTimersAsync();
+
+    const har = createHar(recorder.getEntries(), {
+      name: 'stagewise',
+      version: '1.0.0',
+    });
+    expect(har.log.entries).toHaveLength(2);
+    expect(har.log.entries[0]?.request.queryString).toEqual([
+      { name: 'page', value: '2' },
+    ]);
+
+    const imported = parseHar(JSON.parse(JSON.stringify(har)));
+    expect(imported).toEqual([
+      expect.objectContaining({
+        url: 'http://localhost:3000/api/items?page=2',
+        method: 'POST',
+        state: 'finished',
+        status: 200,
+        durationMs: 500,
+        imported: true,
+        requestBody: {
+          text: '{"name":"a"}',
+          base64Encoded: false,
+          truncated: false,
+        },
+        responseBody: {
+          text: '{"ok":false}',
+          base64Encoded: false,
+          truncated: false,
+        },
+      }),
+      expect.objectContaining({
+        resourceType: 'Image',
+        state: 'failed',
+        errorText: 'net::ERR_FAILED',
+      }),
+    ]);
+
+    recorder.importEntries(imported);
+    expect(recorder.getRequestCount()).toBe(2);
+    expect(() => parseHar({ entries: [] })).toThrow(
+      'The file is not a valid HAR file.',
+    );
+  });
+});
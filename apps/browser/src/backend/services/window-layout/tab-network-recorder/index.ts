@@ -0,0 +1,529 @@
+import type { WebContents } from 'electron';
+import type { Protocol } from 'devtools-protocol';
+import type { Logger } from '../../logger';
+import {
+  type GetNetworkRequestsOptions,
+  isFailedNetworkRequest,
+  type NetworkRequestBody,
+  type NetworkRequestEntry,
+  type NetworkRequestSummary,
+  type NetworkRequestTimings,
+} from '@shared/network-requests';
+
+/** Ring buffer size, like the console log buffer of a tab */
+const MAX_REQUESTS = 1000;
+/** Bodies are cut off after this many characters */
+const MAX_BODY_LENGTH = 64 * 1024;
+/** Responses larger than this are never fetched from the browser */
+const MAX_FETCHED_BODY_BYTES = 4 * 1024 * 1024;
+/** Once the stored bodies exceed this, bodies of the oldest requests are dropped */
+const MAX_TOTAL_BODY_LENGTH = 16 * 1024 * 1024;
+const COUNTS_UPDATE_DEBOUNCE_MS = 100;
+
+const TEXT_MIME_TYPE_PATTERN =
+  /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql)\b/i;
+
+/**
+ * Callbacks for TabNetworkRecorder to communicate state changes
+ */
+export interface TabNetworkRecorderCallbacks {
+  /** Called (debounced) when requests are recorded, finished or cleared */
+  onCountsUpdate: (counts: {
+    networkRequestCount: number;
+    networkFailedCount: number;
+  }) => void;
+}
+
+/**
+ * A request that has not finished loading yet.
+ */
+interface InFlightRequest {
+  entry: NetworkRequestEntry;
+  /** CDP monotonic time (seconds) the request was sent */
+  startTime: number;
+  timing?: Protocol.Network.ResourceTiming;
+}
+
+/**
+ * TabNetworkRecorder records the network traffic of a browser tab.
+ *
+ * Responsibilities:
+ * - Enable the CDP Network domain on the debugger SelectedElementTracker
+ *   attaches, and again after it was detached and reattached
+ * - Record requests, responses, timings and bodies (up to a size cap)
+ *   in a ring buffer
+ * - Report request counts to the tab state
+ * - Provide filtered access for the agent tool, the network panel and
+ *   HAR export/import
+ */
+export class TabNetworkRecorder {
+  private readonly tabId: string;
+  private readonly webContents: WebContents;
+  private readonly logger: Logger;
+  private readonly callbacks: TabNetworkRecorderCallbacks;
+
+  private entries: NetworkRequestEntry[] = [];
+  /** In-flight requests by CDP request ID */
+  private inFlight = new Map<string, InFlightRequest>();
+  private totalBodyLength = 0;
+  private nextEntryId = 1;
+
+  private isEnabled = false;
+  private isEnabling = false;
+  private isDestroyed = false;
+  private countsUpdateTimeout: NodeJS.Timeout | null = null;
+
+  // Bound event handlers for cleanup
+  private boundHandleMessage: (
+    event: Electron.Event,
+    method: string,
+    params: any,
+  ) => void;
+  private boundHandleDetach: () => void;
+
+  constructor(
+    tabId: string,
+    webContents: WebContents,
+    logger: Logger,
+    callbacks: TabNetworkRecorderCallbacks,
+  ) {
+    this.tabId = tabId;
+    this.webContents = webContents;
+    this.logger = logger;
+    this.callbacks = callbacks;
+
+    this.boundHandleMessage = this.handleMessage.bind(this);
+    this.boundHandleDetach = this.handleDetach.bind(this);
+    this.webContents.debugger.on('message', this.boundHandleMessage);
+    this.webContents.debugger.on('detach', this.boundHandleDetach);
+  }
+
+  /**
+   * Enables the CDP Network domain. Safe to call repeatedly; does nothing
+   * while the debugger is detached, as the tab calls it again when
+   * SelectedElementTracker attaches the debugger.
+   */
+  public async enable(): Promise<void> {
+    if (this.isDestroyed || this.webContents.isDestroyed()) return;
+    if (this.isEnabled || this.isEnabling) return;
+    if (!this.webContents.debugger.isAttached()) return;
+
+    this.isEnabling = true;
+    try {
+      await this.webContents.debugger.sendCommand('Network.enable', {
+        maxTotalBufferSize: 32 * 1024 * 1024,
+        maxResourceBufferSize: MAX_FETCHED_BODY_BYTES,
+      });
+      this.isEnabled = true;
+      this.logger.debug(
+        `[TabNetworkRecorder] Network capture enabled on tab ${this.tabId}`,
+      );
+    } catch (err) {
+      this.logger.debug(
+        `[TabNetworkRecorder] Failed to enable Network domain: ${err}`,
+      );
+    } finally {
+      this.isEnabling = false;
+    }
+  }
+
+  /**
+   * A detached debugger loses the Network domain, and requests in flight
+   * never get their remaining events. Those are marked as failed, and
+   * capture resumes when the tab enables it on the reattached debugger.
+   */
+  private handleDetach() {
+    if (this.isDestroyed) return;
+    this.isEnabled = false;
+    for (const request of this.inFlight.values()) {
+      request.entry.state = 'failed';
+      request.entry.errorText = 'Not recorded to the end (debugger detached)';
+    }
+    this.inFlight.clear();
+    this.scheduleCountsUpdate();
+    this.logger.debug(
+      `[TabNetworkRecorder] Debugger detached from tab ${this.tabId}`,
+    );
+  }
+
+  private handleMessage(_event: Electron.Event, method: string, params: any) {
+    try {
+      switch (method) {
+        case 'Network.requestWillBeSent':
+          this.handleRequestWillBeSent(params);
+          break;
+        case 'Network.responseReceived':
+          this.handleResponseReceived(params);
+          break;
+        case 'Network.requestServedFromCache':
+          this.handleRequestServedFromCache(params);
+          break;
+        case 'Network.loadingFinished':
+          this.handleLoadingFinished(params);
+          break;
+        case 'Network.loadingFailed':
+          this.handleLoadingFailed(params);
+          break;
+      }
+    } catch (err) {
+      this.logger.debug(
+        `[TabNetworkRecorder] Error handling ${method} on tab ${this.tabId}: ${err}`,
+      );
+    }
+  }
+
+  private handleRequestWillBeSent(
+    params: Protocol.Network.RequestWillBeSentEvent,
+  ) {
+    // Redirects reuse the request ID: the previous hop ends with the
+    // redirect response and a new entry starts for the next hop.
+    const previousHop = this.inFlight.get(params.requestId);
+    if (previousHop && params.redirectResponse) {
+      this.applyResponse(previousHop, params.redirectResponse);
+      previousHop.entry.transferSize =
+        params.redirectResponse.encodedDataLength;
+      this.finish(params.requestId, previousHop, params.timestamp, 'finished');
+    }
+
+    const { request } = params;
+    const entry: NetworkRequestEntry = {
+      id: String(this.nextEntryId++),
+      url: request.url + (request.urlFragment ?? ''),
+      method: request.method,
+      resourceType: params.type ?? 'Other',
+      state: 'pending',
+      startedAt: Math.round(params.wallTime * 1000),
+      requestHeaders: { ...request.headers },
+      requestBody:
+        request.postData !== undefined
+          ? capBody(request.postData, false)
+          : undefined,
+      pageUrl: params.documentURL,
+    };
+    this.inFlight.set(params.requestId, {
+      entry,
+      startTime: params.timestamp,
+    });
+    this.addEntry(entry);
+  }
+
+  private handleResponseReceived(
+    params: Protocol.Network.ResponseReceivedEvent,
+  ) {
+    const request = this.inFlight.get(params.requestId);
+    if (!request) return;
+    request.entry.resourceType = params.type;
+    this.applyResponse(request, params.response);
+  }
+
+  private handleRequestServedFromCache(
+    params: Protocol.Network.RequestServedFromCacheEvent,
+  ) {
+    const request = this.inFlight.get(params.requestId);
+    if (request) request.entry.fromCache = true;
+  }
+
+  private handleLoadingFinished(params: Protocol.Network.LoadingFinishedEvent) {
+    const request = this.inFlight.get(params.requestId);
+    if (!request) return;
+    request.entry.transferSize = params.encodedDataLength;
+    this.finish(params.requestId, request, params.timestamp, 'finished');
+    void this.captureResponseBody(params.requestId, request.entry);
+  }
+
+  private handleLoadingFailed(params: Protocol.Network.LoadingFailedEvent) {
+    const request = this.inFlight.get(params.requestId);
+    if (!request) return;
+    request.entry.resourceType = params.type;
+    request.entry.errorText = params.canceled
+      ? 'Canceled'
+      : params.blockedReason
+        ? `${params.errorText} (blocked: ${params.blockedReason})`
+        : params.errorText;
+    this.finish(params.requestId, request, params.timestamp, 'failed');
+  }
+
+  private applyResponse(
+    request: InFlightRequest,
+    response: Protocol.Network.Response,
+  ) {
+    const { entry } = request;
+    entry.status = response.status;
+    entry.statusText = response.statusText;
+    entry.mimeType = response.mimeType;
+    entry.responseHeaders = { ...response.headers };
+    entry.httpVersion = response.protocol;
+    entry.remoteIPAddress = response.remoteIPAddress;
+    entry.fromCache =
+      entry.fromCache ||
+      response.fromDiskCache ||
+      response.fromServiceWorker ||
+      response.fromPrefetchCache ||
+      undefined;
+    request.timing = response.timing;
+  }
+
+  private finish(
+    requestId: string,
+    request: InFlightRequest,
+    timestamp: number,
+    state: 'finished' | 'failed',
+  ) {
+    const { entry } = request;
+    entry.state = state;
+    entry.durationMs = Math.max(
+      0,
+      Math.round((timestamp - request.startTime) * 1000),
+    );
+    if (request.timing) {
+      entry.timings = computeTimings(request.timing, timestamp);
+    }
+    this.inFlight.delete(requestId);
+    this.scheduleCountsUpdate();
+  }
+
+  /**
+   * Fetches the body of a finished response. Textual bodies are kept up to
+   * the size cap, binary bodies only when they fit completely.
+   */
+  private async captureResponseBody(
+    requestId: string,
+    entry: NetworkRequestEntry,
+  ) {
+    const isText = TEXT_MIME_TYPE_PATTERN.test(entry.mimeType ?? '');
+    const size = entry.transferSize ?? 0;
+    if (size > MAX_FETCHED_BODY_BYTES) return;
+    if (!isText && size > MAX_BODY_LENGTH) return;
+    if (this.webContents.isDestroyed()) return;
+
+    try {
+      const { body, base64Encoded } =
+        (await this.webContents.debugger.sendCommand(
+          'Network.getResponseBody',
+          { requestId },
+        )) as Protocol.Network.GetResponseBodyResponse;
+      // The entry may have been evicted or cleared in the meantime
+      if (!this.entries.includes(entry)) return;
+      entry.responseBody = capBody(body, base64Encoded);
+      this.totalBodyLength += entry.responseBody.text.length;
+      this.enforceBodyBudget();
+    } catch {
+      // Body is not available (e.g. evicted by the browser or no content)
+    }
+  }
+
+  private addEntry(entry: NetworkRequestEntry) {
+    if (this.entries.length >= MAX_REQUESTS) {
+      const evicted = this.entries.shift()!;
+      this.totalBodyLength -= bodyLength(evicted);
+    }
+    this.entries.push(entry);
+    this.totalBodyLength += bodyLength(entry);
+    this.enforceBodyBudget();
+    this.scheduleCountsUpdate();
+  }
+
+  /** Drops bodies of the oldest requests until the body budget is met */
+  private enforceBodyBudget() {
+    for (const entry of this.entries) {
+      if (this.totalBodyLength <= MAX_TOTAL_BODY_LENGTH) return;
+      this.totalBodyLength -= bodyLength(entry);
+      entry.requestBody = undefined;
+      entry.responseBody = undefined;
+    }
+  }
+
+  private scheduleCountsUpdate() {
+    if (this.countsUpdateTimeout) return; // Already scheduled
+
+    this.countsUpdateTimeout = setTimeout(() => {
+      this.countsUpdateTimeout = null;
+      this.callbacks.onCountsUpdate(this.getCounts());
+    }, COUNTS_UPDATE_DEBOUNCE_MS);
+  }
+
+  private getCounts() {
+    return {
+      networkRequestCount: this.entries.length,
+      networkFailedCount: this.entries.filter(isFailedNetworkRequest).length,
+    };
+  }
+
+  /**
+   * Gets recorded requests with optional filtering and limiting.
+   *
+   * @param options - Filter and limit options
+   * @returns Array of requests (most recent first)
+   */
+  public getRequests(
+    options?: GetNetworkRequestsOptions,
+  ): NetworkRequestEntry[] {
+    let requests = [...this.entries];
+
+    if (options?.methods && options.methods.length > 0) {
+      const methods = new Set(options.methods.map((m) => m.toUpperCase()));
+      requests = requests.filter((request) => methods.has(request.method));
+    }
+
+    if (options?.resourceTypes && options.resourceTypes.length > 0) {
+      const types = new Set(options.resourceTypes.map((t) => t.toLowerCase()));
+      requests = requests.filter((request) =>
+        types.has(request.resourceType.toLowerCase()),
+      );
+    }
+
+    if (options?.failedOnly) {
+      requests = requests.filter(isFailedNetworkRequest);
+    }
+
+    if (options?.filter) {
+      const filterLower = options.filter.toLowerCase();
+      requests = requests.filter((request) =>
+        request.url.toLowerCase().includes(filterLower),
+      );
+    }
+
+    // Reverse to get most recent first
+    requests.reverse();
+
+    if (options?.limit && options.limit > 0) {
+      requests = requests.slice(0, options.limit);
+    }
+
+    return requests;
+  }
+
+  /**
+   * Gets a single recorded request by its ID.
+   */
+  public getRequest(requestId: string): NetworkRequestEntry | undefined {
+    return this.entries.find((entry) => entry.id === requestId);
+  }
+
+  /**
+   * Gets the total count of recorded requests (before filtering).
+   */
+  public getRequestCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Gets all recorded requests in the order they were sent.
+   */
+  public getEntries(): NetworkRequestEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Replaces the recorded requests with imported ones (e.g. from a HAR
+   * file). Requests that are still in flight are dropped.
+   */
+  public importEntries(entries: NetworkRequestEntry[]) {
+    this.inFlight.clear();
+    this.entries = [];
+    this.totalBodyLength = 0;
+    for (const entry of entries.slice(-MAX_REQUESTS)) {
+      this.addEntry({ ...entry, id: String(this.nextEntryId++) });
+    }
+    this.scheduleCountsUpdate();
+  }
+
+  /**
+   * Clears all recorded requests.
+   */
+  public clear() {
+    this.importEntries([]);
+  }
+
+  public destroy(): void {
+    this.isDestroyed = true;
+    if (this.countsUpdateTimeout) {
+      clearTimeout(this.countsUpdateTimeout);
+      this.countsUpdateTimeout = null;
+    }
+    if (!this.webContents.isDestroyed()) {
+      this.webContents.debugger.removeListener(
+        'message',
+        this.boundHandleMessage,
+      );
+      this.webContents.debugger.removeListener(
+        'detach',
+        this.boundHandleDetach,
+      );
+    }
+    this.entries = [];
+    this.inFlight.clear();
+  }
+}
+
+/**
+ * Strips headers and bodies from a request for lists.
+ */
+export function toNetworkRequestSummary(
+  entry: NetworkRequestEntry,
+): NetworkRequestSummary {
+  return {
+    id: entry.id,
+    url: entry.url,
+    method: entry.method,
+    resourceType: entry.resourceType,
+    state: entry.state,
+    status: entry.status,
+    statusText: entry.statusText,
+    mimeType: entry.mimeType,
+    startedAt: entry.startedAt,
+    durationMs: entry.durationMs,
+    transferSize: entry.transferSize,
+    fromCache: entry.fromCache,
+    errorText: entry.errorText,
+    imported: entry.imported,
+  };
+}
+
+function capBody(text: string, base64Encoded: boolean): NetworkRequestBody {
+  if (text.length <= MAX_BODY_LENGTH) {
+    return { text, base64Encoded, truncated: false };
+  }
+  // A cut-off base64 payload can't be decoded, so binary bodies are dropped
+  return {
+    text: base64Encoded ? '' : text.slice(0, MAX_BODY_LENGTH),
+    base64Encoded,
+    truncated: true,
+  };
+}
+
+function bodyLength(entry: NetworkRequestEntry): number {
+  return (
+    (entry.requestBody?.text.length ?? 0) +
+    (entry.responseBody?.text.length ?? 0)
+  );
+}
+
+/**
+ * Converts CDP resource timing (milliseconds relative to `requestTime`)
+ * into the request phases used by HAR.
+ */
+function computeTimings(
+  timing: Protocol.Network.ResourceTiming,
+  endTimestamp: number,
+): NetworkRequestTimings {
+  const phase = (start: number, end: number) =>
+    start >= 0 && end >= 0 ? round(Math.max(0, end - start)) : -1;
+  const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart]
+    .filter((start) => start >= 0)
+    .at(0);
+  const total = (endTimestamp - timing.requestTime) * 1000;
+  return {
+    blocked: firstStart !== undefined ? round(firstStart) : -1,
+    dns: phase(timing.dnsStart, timing.dnsEnd),
+    connect: phase(timing.connectStart, timing.connectEnd),
+    ssl: phase(timing.sslStart, timing.sslEnd),
+    send: phase(timing.sendStart, timing.sendEnd),
+    wait: phase(timing.sendEnd, timing.receiveHeadersEnd),
+    receive: round(Math.max(0, total - timing.receiveHeadersEnd)),
+  };
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
@@ -20,7 +20,8 @@ export type DbName =
   | 'thumbnails'
   | 'asset-cache'
   | 'file-read-cache'
-  | 'processed-image-cache';
+  | 'processed-image-cache'
+  | 'history-search';
 
 export const getDbPath = (name: DbName): string =>
   path.join(getDataRoot(), `${name}.sqlite`);
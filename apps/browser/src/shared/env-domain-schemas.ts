@@ -1,8 +1,8 @@
 /**
  * Browser-host environment state schemas. These describe the `state`
- * payloads persisted under `metadata.envState[domainId]` for the four
+ * payloads persisted under `metadata.envState[domainId]` for the
  * host-owned `DomainAdapter`s: `browser`, `shells`, `activeApp`,
- * `logIngest`.
+ * `logIngest`, `lspDiagnostics`.
  *
  * They live in `shared/` (and not under `backend/`) because both backend
  * code (`env-domains/*-domain-adapter.ts`) and UI code (`shared/env-metadata.ts`,
@@ -22,6 +22,7 @@ export const browserTabSnapshotSchema = z.object({
   faviconUrl: z.string().optional(),
   consoleErrorCount: z.number().optional(),
   consoleLogCount: z.number().optional(),
+  networkFailedCount: z.number().optional(),
   error: z
     .object({
       code: z.number(),
@@ -93,3 +94,40 @@ export type LogIngestSnapshot = z.infer<typeof logIngestSnapshotSchema>;
 
 export const sandboxSessionIdStateSchema = z.string().nullable();
 export type SandboxSessionIdState = z.infer<typeof sandboxSessionIdStateSchema>;
+
+// ---------------------------------------------------------------------------
+// LSP diagnostics
+// ---------------------------------------------------------------------------
+
+export const lspDiagnosticSnapshotSchema = z.object({
+  line: z.number(),
+  column: z.number(),
+  source: z.string(),
+  message: z.string(),
+  code: z.string().optional(),
+});
+export type LspDiagnosticSnapshot = z.infer<typeof lspDiagnosticSnapshotSchema>;
+
+/**
+ * Diagnostics of one file the agent has edited. `path` is mount-prefixed;
+ * `errors` is capped, the counts are exact.
+ */
+export const lspFileDiagnosticsSnapshotSchema = z.object({
+  path: z.string(),
+  errorCount: z.number(),
+  warningCount: z.number(),
+  errors: z.array(lspDiagnosticSnapshotSchema),
+});
+export type LspFileDiagnosticsSnapshot = z.infer<
+  typeof lspFileDiagnosticsSnapshotSchema
+>;
+
+export const lspDiagnosticsSnapshotSchema = z.object({
+  /** Totals across every file the LSP servers of the agent's mounts know. */
+  errors: z.number(),
+  warnings: z.number(),
+  files: z.array(lspFileDiagnosticsSnapshotSchema),
+});
+export type LspDiagnosticsSnapshot = z.infer<
+  typeof lspDiagnosticsSnapshotSchema
+>;
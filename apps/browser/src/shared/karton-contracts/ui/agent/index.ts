@@ -1,5 +1,7 @@
 import type {
   AgentHistoryEntry,
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
   AgentHistoryWorkspaceEntry,
   AgentMessage as CoreAgentMessage,
   AgentRuntimeError,
@@ -11,6 +13,18 @@ import type {
   ToolboxState,
 } from '@stagewise/agent-core/types/agent';
 import { AgentTypes as CoreAgentTypes } from '@stagewise/agent-core/types/agent';
+import type {
+  AgentBudget,
+  AgentBudgetInput,
+  AgentBudgetUsage,
+  AgentUsageReport,
+} from '@stagewise/agent-core/types/agent-budgets';
+import type {
+  AgentTrigger,
+  AgentTriggerInput,
+  AgentTriggerRun,
+  AgentTriggerSource,
+} from '@stagewise/agent-core/types/agent-triggers';
 import type { ModelId } from '@shared/available-models';
 import type { MountedWorkspaceGitSummary } from '..';
 import type { ToolApprovalMode } from '@shared/karton-contracts/ui/shared-types';
@@ -19,9 +33,19 @@ import type { UIAgentTools } from './tools/types';
 
 export { CoreAgentTypes as AgentTypes };
 export type {
+  AgentBudget,
+  AgentBudgetInput,
+  AgentBudgetUsage,
   AgentHistoryEntry,
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
   AgentHistoryWorkspaceEntry,
   AgentRuntimeError,
+  AgentTrigger,
+  AgentTriggerInput,
+  AgentTriggerRun,
+  AgentTriggerSource,
+  AgentUsageReport,
   ExceededWindow,
   ToolboxState,
 };
@@ -211,6 +211,73 @@ export const readConsoleLogsToolSchema = {
   outputSchema: readConsoleLogsToolOutputSchema,
 } as const;
 
+export const readNetworkRequestsToolInputSchema = z.object({
+  id: z.string().describe('The tab ID to read network requests from'),
+  requestId: z
+    .string()
+    .optional()
+    .describe(
+      'ID of a listed request. Returns that request with headers, bodies and timings instead of a list.',
+    ),
+  filter: z
+    .string()
+    .optional()
+    .describe('Case-insensitive substring of the request URL to filter by'),
+  methods: z
+    .array(z.string())
+    .optional()
+    .describe('Filter by HTTP methods, e.g. ["POST", "PUT"]'),
+  resourceTypes: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Filter by resource types, e.g. ["Fetch", "XHR", "Document", "Script"]',
+    ),
+  failedOnly: z
+    .boolean()
+    .optional()
+    .describe('Only return failed requests and responses with status >= 400'),
+  includeBodies: z
+    .boolean()
+    .optional()
+    .describe(
+      'Include headers and request/response bodies of the listed requests',
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .optional()
+    .describe('Maximum number of requests to return (most recent first)'),
+  delayMs: z
+    .number()
+    .int()
+    .min(0)
+    .max(5000)
+    .optional()
+    .describe(
+      'Milliseconds to wait BEFORE reading requests. Use after triggering requests to let them finish.',
+    ),
+});
+
+export const readNetworkRequestsToolOutputSchema = z.object({
+  message: z.string(),
+  result: z.any(),
+});
+
+export type ReadNetworkRequestsToolInput = z.infer<
+  typeof readNetworkRequestsToolInputSchema
+>;
+export type ReadNetworkRequestsToolOutput = z.infer<
+  typeof readNetworkRequestsToolOutputSchema
+>;
+
+export const readNetworkRequestsToolSchema = {
+  inputSchema: readNetworkRequestsToolInputSchema,
+  outputSchema: readNetworkRequestsToolOutputSchema,
+} as const;
+
 export const searchInLibraryDocsToolInputSchema = z.object({
   libraryId: z.string().describe('ID for which docs should be searched'),
   topic: z.string().describe('Topic to search for in the docs'),
@@ -266,6 +333,425 @@ export const listLibraryDocsToolSchema = {
   outputSchema: listLibraryDocsToolOutputSchema,
 } as const;
 
+export const searchChatHistoryToolInputSchema = z.object({
+  query: z
+    .string()
+    .describe(
+      'Words to look for in earlier chats: error messages, library names, file paths or a short description of the problem.',
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(20)
+    .optional()
+    .describe('Maximum number of matching messages. Default: 8.'),
+});
+
+export const searchChatHistoryToolOutputSchema = z.object({
+  message: z.string(),
+  results: z.array(
+    z.object({
+      agentId: z.string(),
+      title: z.string(),
+      role: z.string(),
+      date: z.string().nullable(),
+      snippet: z.string(),
+      transcriptPath: z.string(),
+    }),
+  ),
+});
+
+export type SearchChatHistoryToolInput = z.infer<
+  typeof searchChatHistoryToolInputSchema
+>;
+export type SearchChatHistoryToolOutput = z.infer<
+  typeof searchChatHistoryToolOutputSchema
+>;
+
+export const searchChatHistoryToolSchema = {
+  inputSchema: searchChatHistoryToolInputSchema,
+  outputSchema: searchChatHistoryToolOutputSchema,
+} as const;
+
+// ============================================================================
+// Git Tools
+// ============================================================================
+
+const gitMountSchema = z
+  .string()
+  .describe('Mount prefix of the repository workspace, e.g. "w1a2b".');
+
+export const gitLogToolInputSchema = z.object({
+  path: z
+    .string()
+    .describe(
+      'Mount prefix for the whole history, or a mount-prefixed file/directory path to limit it, e.g. "w1a2b/src/index.ts".',
+    ),
+  ref: z
+    .string()
+    .optional()
+    .describe(
+      'Revision or range to list, e.g. "main" or "main..HEAD". Default: HEAD.',
+    ),
+  maxCount: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .optional()
+    .describe(
+      'Maximum number of commits to return (newest first). Default: 20.',
+    ),
+});
+
+export const gitLogToolOutputSchema = z.object({
+  message: z.string(),
+  commits: z.array(
+    z.object({
+      sha: z.string(),
+      author: z.string(),
+      date: z.string(),
+      subject: z.string(),
+    }),
+  ),
+});
+
+export type GitLogToolInput = z.infer<typeof gitLogToolInputSchema>;
+export type GitLogToolOutput = z.infer<typeof gitLogToolOutputSchema>;
+
+export const gitLogToolSchema = {
+  inputSchema: gitLogToolInputSchema,
+  outputSchema: gitLogToolOutputSchema,
+} as const;
+
+export const gitBlameToolInputSchema = z.object({
+  path: z
+    .string()
+    .describe('Mount-prefixed file path, e.g. "w1a2b/src/index.ts".'),
+  startLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('First line to blame (1-based). Default: 1.'),
+  endLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Last line to blame (1-based, inclusive). Default and maximum: startLine + 199.',
+    ),
+});
+
+export const gitBlameToolOutputSchema = z.object({
+  message: z.string(),
+  lines: z.array(
+    z.object({
+      line: z.number(),
+      sha: z.string(),
+      content: z.string(),
+    }),
+  ),
+  commits: z.record(
+    z.string(),
+    z.object({
+      author: z.string(),
+      date: z.string(),
+      subject: z.string(),
+    }),
+  ),
+});
+
+export type GitBlameToolInput = z.infer<typeof gitBlameToolInputSchema>;
+export type GitBlameToolOutput = z.infer<typeof gitBlameToolOutputSchema>;
+
+export const gitBlameToolSchema = {
+  inputSchema: gitBlameToolInputSchema,
+  outputSchema: gitBlameToolOutputSchema,
+} as const;
+
+export const gitStageToolInputSchema = z.object({
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Mount-prefixed paths to stage (or unstage) as a whole, e.g. "w1a2b/src/index.ts". Deleted files are staged as deletions.',
+    ),
+  patch: z
+    .object({
+      mount: gitMountSchema,
+      diff: z
+        .string()
+        .describe(
+          'Unified diff containing only the hunks to stage, with paths relative to the repository root as printed by `git diff`.',
+        ),
+    })
+    .optional()
+    .describe('Stage (or unstage) individual hunks instead of whole files.'),
+  unstage: z
+    .boolean()
+    .optional()
+    .describe(
+      'Remove the paths or hunks from the index instead of adding them.',
+    ),
+});
+
+export const gitStageToolOutputSchema = z.object({
+  message: z.string(),
+  staged: z.array(z.string()),
+});
+
+export type GitStageToolInput = z.infer<typeof gitStageToolInputSchema>;
+export type GitStageToolOutput = z.infer<typeof gitStageToolOutputSchema>;
+
+export const gitStageToolSchema = {
+  inputSchema: gitStageToolInputSchema,
+  outputSchema: gitStageToolOutputSchema,
+} as const;
+
+export const gitCommitToolInputSchema = z.object({
+  mount: gitMountSchema,
+  message: z
+    .string()
+    .optional()
+    .describe(
+      'Commit message (subject line, optionally a blank line and body). When omitted, a message is generated from the committed files; with amend, the previous message is kept.',
+    ),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Mount-prefixed paths to stage and commit. Only these paths are committed; other staged changes stay staged.',
+    ),
+  turnEdits: z
+    .boolean()
+    .optional()
+    .describe(
+      "Stage and commit every file you edited since the user's last message. The commit references the edits' tool calls.",
+    ),
+  amend: z
+    .boolean()
+    .optional()
+    .describe('Amend the last commit instead of creating a new one.'),
+});
+
+export const gitCommitToolOutputSchema = z.object({
+  message: z.string(),
+  sha: z.string(),
+  subject: z.string(),
+  files: z.array(z.string()),
+  toolCallIds: z.array(z.string()),
+});
+
+export type GitCommitToolInput = z.infer<typeof gitCommitToolInputSchema>;
+export type GitCommitToolOutput = z.infer<typeof gitCommitToolOutputSchema>;
+
+export const gitCommitToolSchema = {
+  inputSchema: gitCommitToolInputSchema,
+  outputSchema: gitCommitToolOutputSchema,
+} as const;
+
+export const gitStashToolInputSchema = z.object({
+  mount: gitMountSchema,
+  action: z
+    .enum(['push', 'pop', 'apply', 'drop', 'list'])
+    .describe('Stash operation to run.'),
+  message: z.string().optional().describe('Stash message (push only).'),
+  includeUntracked: z
+    .boolean()
+    .optional()
+    .describe('Also stash untracked files (push only).'),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe('Mount-prefixed paths to limit the stash to (push only).'),
+  ref: z
+    .string()
+    .optional()
+    .describe(
+      'Stash entry for pop/apply/drop, e.g. "stash@{1}". Default: the latest.',
+    ),
+});
+
+export const gitStashToolOutputSchema = z.object({
+  message: z.string(),
+  stashes: z
+    .array(z.object({ ref: z.string(), message: z.string() }))
+    .optional(),
+});
+
+export type GitStashToolInput = z.infer<typeof gitStashToolInputSchema>;
+export type GitStashToolOutput = z.infer<typeof gitStashToolOutputSchema>;
+
+export const gitStashToolSchema = {
+  inputSchema: gitStashToolInputSchema,
+  outputSchema: gitStashToolOutputSchema,
+} as const;
+
+// ============================================================================
+// Code Navigation Tools
+// ============================================================================
+
+const symbolPositionInputSchema = z.object({
+  path: z
+    .string()
+    .describe('Mount-prefixed file path, e.g. "w1a2b/src/index.ts".'),
+  line: z.number().int().positive().describe('Line of the symbol (1-based).'),
+  symbol: z
+    .string()
+    .min(1)
+    .describe('Name of the symbol as written on that line, e.g. "getUser".'),
+  column: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Column of the symbol (1-based). Only needed if the symbol occurs more than once on the line. Default: its first occurrence.',
+    ),
+});
+
+const codeLocationSchema = z.object({
+  /** Mount-prefixed path, or an absolute path for files outside the mounts */
+  path: z.string(),
+  line: z.number(),
+  column: z.number(),
+  /** The trimmed source line at the location */
+  preview: z.string().optional(),
+});
+
+export type CodeLocation = z.infer<typeof codeLocationSchema>;
+
+export const goToDefinitionToolInputSchema = symbolPositionInputSchema;
+
+export const goToDefinitionToolOutputSchema = z.object({
+  message: z.string(),
+  definitions: z.array(codeLocationSchema),
+});
+
+export type GoToDefinitionToolInput = z.infer<
+  typeof goToDefinitionToolInputSchema
+>;
+export type GoToDefinitionToolOutput = z.infer<
+  typeof goToDefinitionToolOutputSchema
+>;
+
+export const goToDefinitionToolSchema = {
+  inputSchema: goToDefinitionToolInputSchema,
+  outputSchema: goToDefinitionToolOutputSchema,
+} as const;
+
+export const findReferencesToolInputSchema = symbolPositionInputSchema.extend({
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .optional()
+    .describe('Maximum number of references to return. Default: 100.'),
+});
+
+export const findReferencesToolOutputSchema = z.object({
+  message: z.string(),
+  references: z.array(codeLocationSchema),
+  totalCount: z.number(),
+});
+
+export type FindReferencesToolInput = z.infer<
+  typeof findReferencesToolInputSchema
+>;
+export type FindReferencesToolOutput = z.infer<
+  typeof findReferencesToolOutputSchema
+>;
+
+export const findReferencesToolSchema = {
+  inputSchema: findReferencesToolInputSchema,
+  outputSchema: findReferencesToolOutputSchema,
+} as const;
+
+export const searchWorkspaceSymbolsToolInputSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe('Symbol name or fragment to search for, e.g. "UserService".'),
+  mount: z
+    .string()
+    .optional()
+    .describe(
+      'Mount prefix to search in, e.g. "w1a2b". Default: all mounted workspaces.',
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .optional()
+    .describe('Maximum number of symbols to return. Default: 50.'),
+});
+
+export const searchWorkspaceSymbolsToolOutputSchema = z.object({
+  message: z.string(),
+  symbols: z.array(
+    z.object({
+      name: z.string(),
+      kind: z.string(),
+      containerName: z.string().optional(),
+      location: codeLocationSchema,
+    }),
+  ),
+});
+
+export type SearchWorkspaceSymbolsToolInput = z.infer<
+  typeof searchWorkspaceSymbolsToolInputSchema
+>;
+export type SearchWorkspaceSymbolsToolOutput = z.infer<
+  typeof searchWorkspaceSymbolsToolOutputSchema
+>;
+
+export const searchWorkspaceSymbolsToolSchema = {
+  inputSchema: searchWorkspaceSymbolsToolInputSchema,
+  outputSchema: searchWorkspaceSymbolsToolOutputSchema,
+} as const;
+
+export const getHoverInfoToolInputSchema = symbolPositionInputSchema;
+
+export const getHoverInfoToolOutputSchema = z.object({
+  message: z.string(),
+  /** Hover contents (usually markdown) per language server */
+  contents: z.array(z.string()),
+});
+
+export type GetHoverInfoToolInput = z.infer<typeof getHoverInfoToolInputSchema>;
+export type GetHoverInfoToolOutput = z.infer<
+  typeof getHoverInfoToolOutputSchema
+>;
+
+export const getHoverInfoToolSchema = {
+  inputSchema: getHoverInfoToolInputSchema,
+  outputSchema: getHoverInfoToolOutputSchema,
+} as const;
+
+export const renameSymbolToolInputSchema = symbolPositionInputSchema.extend({
+  newName: z.string().min(1).describe('New name of the symbol.'),
+});
+
+export const renameSymbolToolOutputSchema = z.object({
+  message: z.string(),
+  files: z.array(z.object({ path: z.string(), occurrences: z.number() })),
+});
+
+export type RenameSymbolToolInput = z.infer<typeof renameSymbolToolInputSchema>;
+export type RenameSymbolToolOutput = z.infer<
+  typeof renameSymbolToolOutputSchema
+>;
+
+export const renameSymbolToolSchema = {
+  inputSchema: renameSymbolToolInputSchema,
+  outputSchema: renameSymbolToolOutputSchema,
+} as const;
+
 // ============================================================================
 // Create Shell Session Tool
 // ============================================================================
@@ -305,12 +791,24 @@ export const allToolSchemas = {
   getLintingDiagnostics: getLintingDiagnosticsToolSchema,
   executeSandboxJs: executeSandboxJsToolSchema,
   readConsoleLogs: readConsoleLogsToolSchema,
+  readNetworkRequests: readNetworkRequestsToolSchema,
   listLibraryDocs: listLibraryDocsToolSchema,
   searchInLibraryDocs: searchInLibraryDocsToolSchema,
+  searchChatHistory: searchChatHistoryToolSchema,
   askUserQuestions: askUserQuestionsToolSchema,
   createShellSession: createShellSessionToolSchema,
   createWatcherSession: createWatcherSessionToolSchema,
   executeShellCommand: executeShellCommandToolSchema,
+  gitLog: gitLogToolSchema,
+  gitBlame: gitBlameToolSchema,
+  gitStage: gitStageToolSchema,
+  gitCommit: gitCommitToolSchema,
+  gitStash: gitStashToolSchema,
+  goToDefinition: goToDefinitionToolSchema,
+  findReferences: findReferencesToolSchema,
+  searchWorkspaceSymbols: searchWorkspaceSymbolsToolSchema,
+  getHoverInfo: getHoverInfoToolSchema,
+  renameSymbol: renameSymbolToolSchema,
 } as const;
 
 export type AllTools = typeof allToolSchemas;
@@ -16,9 +16,13 @@ import type {
 import type { ReactSelectedElementInfo } from '../../selected-elements/react';
 import type { ApiClient } from '@stagewise/api-client';
 import type { SelectedElement } from '../../selected-elements';
-import type { ExternalIde, ToolCallFileEdit } from './shared-types';
+import type { BlamedHunk, ExternalIde, ToolCallFileEdit } from './shared-types';
 import type { QuestionField, QuestionAnswerValue } from './agent/tools/types';
 import type { WorktreeSetupScriptVariant } from '@shared/worktree-setup';
+import type {
+  NetworkRequestEntry,
+  NetworkRequestSummary,
+} from '@shared/network-requests';
 export type {
   UIEventName,
   UIEventProperties,
@@ -67,12 +71,21 @@ import type {
   UsageHistoryResponse,
 } from '../pages-api/types';
 import type { CodingPlanId } from '../../coding-plans';
+import type { McpServerStatus } from '../../mcp-servers';
 import type { SettingsRoute } from '../../settings-route';
 import type {
   AgentState,
   AgentTypes,
+  AgentBudget,
+  AgentBudgetInput,
+  AgentBudgetUsage,
   AgentHistoryEntry,
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
   AgentMessage,
+  AgentTrigger,
+  AgentTriggerInput,
+  AgentUsageReport,
   StoredAgentPreview,
 } from './agent';
 
@@ -247,7 +260,12 @@ export type WorkspaceGitFailureReason =
   | 'invalid-name'
   | 'branch-create-failed'
   | 'checkout-failed'
-  | 'worktree-create-failed';
+  | 'worktree-create-failed'
+  | 'stage-failed'
+  | 'nothing-to-commit'
+  | 'commit-failed'
+  | 'stash-failed'
+  | 'query-failed';
 
 export type WorkspaceGitFailure = {
   ok: false;
@@ -688,6 +706,70 @@ export type FileDiffContent = {
   mtimeMs: number | null;
 };
 
+/** Zero-based line and UTF-16 character offset, as in LSP. */
+export type EditorLspPosition = { line: number; character: number };
+
+export type EditorLspRange = {
+  start: EditorLspPosition;
+  end: EditorLspPosition;
+};
+
+export type EditorLspTextEdit = { range: EditorLspRange; newText: string };
+
+export type EditorLspDiagnostic = {
+  range: EditorLspRange;
+  severity: 'error' | 'warning' | 'info' | 'hint';
+  message: string;
+  /** Reporting tool, e.g. `ts` or `eslint`. */
+  source?: string;
+  code?: string;
+};
+
+export type EditorLspHover = {
+  /** Markdown blocks, one per language server that answered. */
+  contents: string[];
+  range?: EditorLspRange;
+};
+
+export type EditorLspLocation = {
+  absolutePath: string;
+  range: EditorLspRange;
+};
+
+export type EditorLspCompletionItem = {
+  label: string;
+  /** LSP `CompletionItemKind` (1-based). */
+  kind?: number;
+  detail?: string;
+  /** Markdown */
+  documentation?: string;
+  insertText: string;
+  /** True when `insertText` is a snippet with `$1` placeholders. */
+  isSnippet: boolean;
+  /** Range replaced by the completion; defaults to the word at the cursor. */
+  range?: EditorLspRange;
+  sortText?: string;
+  filterText?: string;
+  additionalTextEdits?: EditorLspTextEdit[];
+};
+
+export type EditorLspCompletionList = {
+  items: EditorLspCompletionItem[];
+  /** True when typing more should ask the language servers again. */
+  isIncomplete: boolean;
+};
+
+/**
+ * A code action the editor can apply on its own: only actions whose edits
+ * stay within the requested file are offered.
+ */
+export type EditorLspCodeAction = {
+  title: string;
+  kind?: string;
+  isPreferred?: boolean;
+  edits: EditorLspTextEdit[];
+};
+
 export type FileTabMetadata = {
   workspaceKey: FileTreeWorkspaceKey;
   relativePath: string;
@@ -819,6 +901,8 @@ export type TabState = {
   lifecycle: TabLifecycle;
   consoleLogCount: number; // Total number of console logs captured since page load
   consoleErrorCount: number; // Number of error-level console logs
+  networkRequestCount: number; // Number of recorded network requests
+  networkFailedCount: number; // Number of failed requests and error responses
   /** Pending permission requests for this tab */
   permissionRequests: PermissionRequest[];
   /** Whether the tab's web content is in HTML5 fullscreen mode */
@@ -865,6 +949,8 @@ export function getTerminalTabDefaults(): Omit<
     zoomPercentage: 100,
     consoleLogCount: 0,
     consoleErrorCount: 0,
+    networkRequestCount: 0,
+    networkFailedCount: 0,
     permissionRequests: [] as TabState['permissionRequests'],
     isContentFullscreen: false,
     authenticationRequest: null,
@@ -899,6 +985,8 @@ export function getFileTabDefaults(): Omit<
     zoomPercentage: 100,
     consoleLogCount: 0,
     consoleErrorCount: 0,
+    networkRequestCount: 0,
+    networkFailedCount: 0,
     permissionRequests: [] as TabState['permissionRequests'],
     isContentFullscreen: false,
     authenticationRequest: null,
@@ -1315,6 +1403,18 @@ export type AppState = {
   logChannels: LogChannelEntry[];
   /** Ingest server info — null when server not yet started */
   logIngest: { port: number; token: string } | null;
+
+  /** Connection status of the declared MCP servers. */
+  mcpServers: McpServerStatus[];
+
+  /** Language servers behind the file editor (see `toolbox.editorLsp`). */
+  editorLsp: {
+    /**
+     * Diagnostics of the files open in an editor, keyed by the absolute
+     * path the editor opened them with.
+     */
+    diagnostics: Record<string, EditorLspDiagnostic[]>;
+  };
 };
 
 export type OnboardingCompletionSummary = {
@@ -1366,6 +1466,14 @@ export type KartonContract = {
       getAgentHistoryEntriesByIds: (
         ids: string[],
       ) => Promise<AgentHistoryEntry[]>;
+      /**
+       * Full-text search over message text, tool inputs and touched file
+       * paths of past chats, with a highlighted snippet per hit.
+       */
+      searchHistory: (
+        query: string,
+        options?: AgentHistorySearchOptions,
+      ) => Promise<AgentHistorySearchHit[]>;
       updateInputState: (agentId: string, inputState: string) => Promise<void>;
       sendUserMessage: (
         agentId: string,
@@ -1443,6 +1551,52 @@ export type KartonContract = {
       ) => Promise<StoredAgentPreview | null>;
       /** Return distinct filepaths edited by an agent (from diff-history). */
       getTouchedFiles: (agentId: string) => Promise<string[]>;
+      /** Scheduled and event-triggered runs, each with its latest run. */
+      listTriggers: () => Promise<AgentTrigger[]>;
+      /**
+       * Create a trigger, or replace trigger `triggerId`, and re-arm it.
+       * Rejects invalid cron expressions and relative watch paths.
+       */
+      saveTrigger: (
+        input: AgentTriggerInput,
+        triggerId?: string,
+      ) => Promise<AgentTrigger>;
+      /** Delete a trigger; chats it started are kept. */
+      deleteTrigger: (triggerId: string) => Promise<void>;
+      /** Start a run of a trigger now and return the new agent's id. */
+      runTrigger: (triggerId: string) => Promise<string>;
+      /** Token and currency budgets, enabled or not. */
+      listBudgets: () => Promise<AgentBudget[]>;
+      /**
+       * Create a budget, or replace budget `budgetId`. Workspace budgets
+       * need an absolute workspace path.
+       */
+      saveBudget: (
+        input: AgentBudgetInput,
+        budgetId?: string,
+      ) => Promise<AgentBudget>;
+      /** Delete a budget and the extensions granted for it. */
+      deleteBudget: (budgetId: string) => Promise<void>;
+      /** Usage of every enabled budget that applies to the agent. */
+      getBudgetUsage: (agentId: string) => Promise<AgentBudgetUsage[]>;
+      /**
+       * Raise a used-up budget for the agent's current window by its
+       * configured limit, and resume the agent if the budget paused it.
+       */
+      extendBudget: (agentId: string, budgetId: string) => Promise<void>;
+      /** Usage ledger totals of the steps finished in `[from, to)`. */
+      getUsageReport: (from: Date, to: Date) => Promise<AgentUsageReport>;
+      /** Write a chat with its attachments, plans and edits to a bundle file. */
+      export: (agentId: string, filePath: string) => Promise<void>;
+      /**
+       * Create a chat from a bundle file and return its id. Mappings are
+       * keyed by the bundle's mount prefix or original workspace path; only
+       * mapped workspaces are mounted, with the default permissions.
+       */
+      import: (
+        filePath: string,
+        workspaceMappings?: Record<string, string>,
+      ) => Promise<string>;
       /**
        * Reveal the agent's per-instance data directory inside user-data
        * (e.g. `<userData>/stagewise/agents/<id>/`) in the system file
@@ -1458,6 +1612,58 @@ export type KartonContract = {
         agentInstanceId: string,
         toolCallIds: string[],
       ) => Promise<ToolCallFileEdit[]>;
+      /**
+       * Hunks of the agent's pending (not yet accepted or rejected) edits to
+       * a file, diffed against the last accepted baseline. Binary and large
+       * files yield a single whole-file hunk without lines.
+       */
+      getPendingHunks: (
+        agentInstanceId: string,
+        filePath: string,
+      ) => Promise<BlamedHunk[]>;
+      /** Move pending hunks into the baseline. The file is not modified. */
+      acceptHunks: (
+        agentInstanceId: string,
+        hunkIds: string[],
+      ) => Promise<void>;
+      /** Restore the baseline content of pending hunks on disk. */
+      rejectHunks: (
+        agentInstanceId: string,
+        hunkIds: string[],
+      ) => Promise<void>;
+      /** Drop the connection of an MCP server and connect it again. */
+      reconnectMcpServer: (key: string) => Promise<void>;
+      /**
+       * Language server features for the file editor. Files are addressed by
+       * absolute path and are served by the language servers of the mounted
+       * workspace that contains them.
+       */
+      editorLsp: {
+        /**
+         * Open a file with the editor's content. Resolves to false when no
+         * language server handles the file; the other procedures then
+         * return empty results.
+         */
+        openFile: (absolutePath: string, content: string) => Promise<boolean>;
+        updateFile: (absolutePath: string, content: string) => Promise<void>;
+        closeFile: (absolutePath: string) => Promise<void>;
+        hover: (
+          absolutePath: string,
+          position: EditorLspPosition,
+        ) => Promise<EditorLspHover | null>;
+        definition: (
+          absolutePath: string,
+          position: EditorLspPosition,
+        ) => Promise<EditorLspLocation[]>;
+        completion: (
+          absolutePath: string,
+          position: EditorLspPosition,
+        ) => Promise<EditorLspCompletionList>;
+        codeActions: (
+          absolutePath: string,
+          range: EditorLspRange,
+        ) => Promise<EditorLspCodeAction[]>;
+      };
       mountWorkspace: (
         agentInstanceId: string,
         workspacePath?: string,
@@ -1822,6 +2028,32 @@ export type KartonContract = {
           data?: string;
           error?: string;
         }>;
+        /** Network requests recorded in a tab (see `TabNetworkRecorder`). */
+        network: {
+          /** Recorded requests without headers and bodies, most recent first. */
+          getRequests: (tabId: string) => Promise<NetworkRequestSummary[]>;
+          /** A recorded request with headers, bodies and timings. */
+          getRequest: (
+            tabId: string,
+            requestId: string,
+          ) => Promise<NetworkRequestEntry | null>;
+          clear: (tabId: string) => Promise<void>;
+          /**
+           * Save the recorded requests as a HAR file chosen in a save dialog.
+           * Resolves with `error: ''` when the dialog is cancelled.
+           */
+          exportHar: (
+            tabId: string,
+          ) => Promise<{ filePath: string } | { error: string }>;
+          /**
+           * Replace the recorded requests with the entries of a HAR file
+           * chosen in an open dialog. Resolves with `error: ''` when the
+           * dialog is cancelled.
+           */
+          importHar: (
+            tabId: string,
+          ) => Promise<{ count: number } | { error: string }>;
+        };
       };
       setAudioMuted: (muted: boolean, tabId?: string) => Promise<void>;
       toggleAudioMuted: (tabId?: string) => Promise<void>;
@@ -2442,4 +2674,6 @@ export const defaultState: KartonContract['state'] = {
   plans: [],
   logChannels: [],
   logIngest: null,
+  mcpServers: [],
+  editorLsp: { diagnostics: {} },
 };
@@ -1,6 +1,7 @@
 import { modelCapabilitiesSchema } from '@stagewise/agent-core/types';
 import { z } from 'zod';
 import { codingPlanIds } from '../../coding-plan-ids';
+import { mcpServerConfigsSchema } from '../../mcp-servers';
 
 export {
   environmentDiffSnapshotSchema,
@@ -1161,6 +1162,22 @@ export const userPreferencesSchema = z.object({
        * from any global skill directory.
        */
       disabledGlobalSkills: z.array(z.string()).default([]),
+      /**
+       * MCP servers whose tools the chat agent can call. `servers` are the
+       * user's own servers; `trustedWorkspaceServers` maps, per workspace
+       * path, the servers of that workspace's `.stagewise/mcp.json` the
+       * user allowed to start to the hash of the config they trusted.
+       * Lists of names from older versions are dropped, so those servers
+       * ask for trust again.
+       */
+      mcp: z
+        .object({
+          servers: mcpServerConfigsSchema.default({}),
+          trustedWorkspaceServers: z
+            .record(z.string(), z.record(z.string(), z.string()).catch({}))
+            .default({}),
+        })
+        .default({ servers: {}, trustedWorkspaceServers: {} }),
       /**
        * User-configured fallback chains for background utility tasks.
        * Each array is an ordered list of model entries; the agent tries
@@ -1184,10 +1201,19 @@ export const userPreferencesSchema = z.object({
           contextCompression: z
             .array(utilityModelEntrySchema)
             .default(DEFAULT_HISTORY_COMPRESSION_ENTRIES),
+          /**
+           * Local embedding model that lets chat history search also rank
+           * by meaning. `null` searches by keywords only.
+           */
+          historySearchEmbedding: z
+            .object({ providerInstanceId: z.string(), modelId: z.string() })
+            .nullable()
+            .default(null),
         })
         .default({
           titleGeneration: DEFAULT_TITLE_GENERATION_ENTRIES,
           contextCompression: DEFAULT_HISTORY_COMPRESSION_ENTRIES,
+          historySearchEmbedding: null,
         }),
       /**
        * ID of the currently active preset. When set, the preset's
@@ -1270,9 +1296,11 @@ export const userPreferencesSchema = z.object({
       modelThinkingOverrides: {},
       enabledGlobalSkillDirs: [],
       disabledGlobalSkills: [],
+      mcp: { servers: {}, trustedWorkspaceServers: {} },
       utilityModels: {
         titleGeneration: DEFAULT_TITLE_GENERATION_ENTRIES,
         contextCompression: DEFAULT_HISTORY_COMPRESSION_ENTRIES,
+        historySearchEmbedding: null,
       },
       activePresetId: undefined,
       modelPresets: [],
@@ -1390,9 +1418,11 @@ export const defaultUserPreferences: UserPreferences = {
     modelThinkingOverrides: {},
     enabledGlobalSkillDirs: [],
     disabledGlobalSkills: [],
+    mcp: { servers: {}, trustedWorkspaceServers: {} },
     utilityModels: {
       titleGeneration: DEFAULT_TITLE_GENERATION_ENTRIES,
       contextCompression: DEFAULT_HISTORY_COMPRESSION_ENTRIES,
+      historySearchEmbedding: null,
     },
     activePresetId: undefined,
     modelPresets: [],
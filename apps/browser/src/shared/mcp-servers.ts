@@ -0,0 +1,151 @@
+/**
+ * Shared definitions for MCP (Model Context Protocol) servers whose tools
+ * the native chat agent can call.
+ *
+ * Servers are declared in two places with the same config shape:
+ * - the user's preferences (`agent.mcp.servers`), available to every agent
+ * - a workspace's `.stagewise/mcp.json`, available to agents that have the
+ *   workspace mounted once the user trusts the server
+ *
+ * NOTE: this module is imported by the renderer, so it must not depend on
+ * `node:*` modules.
+ */
+import { z } from 'zod';
+
+export const MCP_WORKSPACE_CONFIG_RELATIVE_PATH = '.stagewise/mcp.json';
+
+/** Prefix of every MCP tool name exposed to the model. */
+export const MCP_TOOL_NAME_PREFIX = 'mcp__';
+
+/** Provider limit for tool names (Anthropic and OpenAI both use 64). */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export const mcpServerNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9-]{1,24}$/,
+    'Use up to 24 letters, digits or dashes for the server name',
+  );
+
+/**
+ * Whether a tool call waits for the user. Only used in smart approval
+ * mode; "always ask" and "always allow" modes override it.
+ */
+export const mcpToolApprovalSchema = z.enum(['ask', 'allow']);
+export type McpToolApproval = z.infer<typeof mcpToolApprovalSchema>;
+
+const mcpServerCommonSchema = {
+  enabled: z.boolean().default(true),
+  /** Approval of tools without an entry in `toolApprovals`. */
+  defaultToolApproval: mcpToolApprovalSchema.default('ask'),
+  /** Approval per tool, keyed by the tool's name on the server. */
+  toolApprovals: z.record(z.string(), mcpToolApprovalSchema).default({}),
+};
+
+const mcpStdioServerConfigSchema = z.object({
+  type: z.literal('stdio'),
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+  ...mcpServerCommonSchema,
+});
+
+const mcpHttpServerConfigSchema = z.object({
+  type: z.literal('http'),
+  url: z.url(),
+  headers: z.record(z.string(), z.string()).default({}),
+  ...mcpServerCommonSchema,
+});
+
+/**
+ * A server started as a child process (`stdio`) or reached over
+ * streamable HTTP (`http`). `type` may be omitted, as in the `mcp.json`
+ * files of other editors: configs with a `url` are HTTP servers.
+ */
+export const mcpServerConfigSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== 'object' || value === null || 'type' in value) {
+      return value;
+    }
+    return { ...value, type: 'url' in value ? 'http' : 'stdio' };
+  },
+  z.discriminatedUnion('type', [
+    mcpStdioServerConfigSchema,
+    mcpHttpServerConfigSchema,
+  ]),
+);
+export type McpServerConfig = z.infer<typeof mcpServerConfigSchema>;
+
+export const mcpServerConfigsSchema = z.record(
+  mcpServerNameSchema,
+  mcpServerConfigSchema,
+);
+export type McpServerConfigs = z.infer<typeof mcpServerConfigsSchema>;
+
+/** Content of a workspace's `.stagewise/mcp.json`. */
+export const mcpWorkspaceConfigSchema = z.object({
+  mcpServers: mcpServerConfigsSchema.default({}),
+});
+
+export type McpServerSource = 'user' | 'workspace';
+
+export type McpServerConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'failed'
+  | 'disabled'
+  /** A workspace server the user has not trusted yet; never started. */
+  | 'untrusted';
+
+/** Connection status of a declared server, as shown in settings. */
+export type McpServerStatus = {
+  /** `user:<name>` or `<workspacePath>#<name>`. */
+  key: string;
+  name: string;
+  source: McpServerSource;
+  workspacePath: string | null;
+  /**
+   * Hash of a workspace server's config, stored with the user's trust;
+   * `null` for user servers.
+   */
+  configHash: string | null;
+  transport: McpServerConfig['type'];
+  state: McpServerConnectionState;
+  error: string | null;
+  tools: Array<{ name: string; description: string | null }>;
+};
+
+export function getMcpServerKey(
+  name: string,
+  workspacePath: string | null,
+): string {
+  return workspacePath === null ? `user:${name}` : `${workspacePath}#${name}`;
+}
+
+/**
+ * Name under which a server's tool is exposed to the model, e.g.
+ * `mcp__github__create_issue`. Characters providers reject are replaced
+ * and long names are cut to the providers' length limit.
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+  const safeToolName = toolName.replace(/[^A-Za-z0-9_-]/g, '_');
+  return `${MCP_TOOL_NAME_PREFIX}${serverName}__${safeToolName}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH,
+  );
+}
+
+export function isMcpToolName(toolName: string): boolean {
+  return toolName.startsWith(MCP_TOOL_NAME_PREFIX);
+}
+
+/**
+ * Server name of an exposed MCP tool name. Server names contain no
+ * underscores, so the first `__` after the prefix ends the name.
+ */
+export function getMcpServerNameFromToolName(toolName: string): string | null {
+  if (!isMcpToolName(toolName)) return null;
+  const rest = toolName.slice(MCP_TOOL_NAME_PREFIX.length);
+  const end = rest.indexOf('__');
+  return end > 0 ? rest.slice(0, end) : null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Shared definitions for the network requests recorded per browser tab.
+ *
+ * The backend records requests through the CDP `Network` domain (see
+ * `TabNetworkRecorder`), the agent reads them with `readNetworkRequests`
+ * and the UI lists them in the network panel of a tab.
+ *
+ * NOTE: this module is imported by the renderer, so it must not depend on
+ * `node:*` modules.
+ */
+
+export type NetworkRequestState = 'pending' | 'finished' | 'failed';
+
+/** Phases of a request in milliseconds, `-1` when a phase did not apply. */
+export interface NetworkRequestTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface NetworkRequestBody {
+  text: string;
+  /** Whether `text` holds base64 encoded binary data. */
+  base64Encoded: boolean;
+  /** Whether the body was cut off at the size cap. */
+  truncated: boolean;
+}
+
+/**
+ * A request as listed in the network panel, without headers and bodies.
+ */
+export interface NetworkRequestSummary {
+  id: string;
+  url: string;
+  method: string;
+  /** CDP resource type, e.g. `Fetch`, `XHR`, `Document` or `Script`. */
+  resourceType: string;
+  state: NetworkRequestState;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  /** Wall-clock time the request was sent (Date.now() based). */
+  startedAt: number;
+  durationMs?: number;
+  /** Bytes received over the network, including headers. */
+  transferSize?: number;
+  fromCache?: boolean;
+  errorText?: string;
+  /** Whether the request was loaded from an imported HAR file. */
+  imported?: boolean;
+}
+
+/**
+ * A recorded request with headers, bodies (up to a size cap) and timings.
+ */
+export interface NetworkRequestEntry extends NetworkRequestSummary {
+  requestHeaders: Record<string, string>;
+  requestBody?: NetworkRequestBody;
+  responseHeaders?: Record<string, string>;
+  responseBody?: NetworkRequestBody;
+  timings?: NetworkRequestTimings;
+  httpVersion?: string;
+  remoteIPAddress?: string;
+  /** The URL of the page when the request was sent. */
+  pageUrl: string;
+}
+
+/**
+ * Options for filtering recorded network requests.
+ */
+export interface GetNetworkRequestsOptions {
+  /** Keep requests whose URL contains this string (case-insensitive) */
+  filter?: string;
+  /** Keep requests with one of these HTTP methods */
+  methods?: string[];
+  /** Keep requests of these CDP resource types */
+  resourceTypes?: string[];
+  /** Keep failed requests and responses with status 400 and above */
+  failedOnly?: boolean;
+  /** Maximum number of requests to return (most recent first) */
+  limit?: number;
+}
+
+/** Whether a request failed to load or returned an error status. */
+export function isFailedNetworkRequest(request: NetworkRequestSummary) {
+  return request.state === 'failed' || (request.status ?? 0) >= 400;
+}
@@ -5,6 +5,7 @@ export type SettingsSection =
   | 'skills-context'
   | 'worktree-setup'
   | 'plugins'
+  | 'mcp-servers'
   | 'personalization'
   | 'browsing'
   | 'history'
@@ -25,6 +26,7 @@ export const SETTINGS_SECTION_LABELS: Record<SettingsSection, string> = {
   'skills-context': 'Skills & Context files',
   'worktree-setup': 'Worktrees',
   plugins: 'Plugins',
+  'mcp-servers': 'MCP servers',
   personalization: 'Personalization',
   browsing: 'General',
   history: 'History',
@@ -51,6 +51,41 @@ describe('agent list workspace model', () => {
     expect(entry?.isLive).toBe(false);
   });
 
+  it('carries the starting trigger onto history and live agents', () => {
+    const triggerRun = {
+      triggerId: 'trigger-1',
+      triggerName: 'Morning audit',
+      agentInstanceId: 'audit',
+      startedAt: new Date(0),
+      reason: 'Schedule 0 9 * * *',
+    };
+    const historyEntry = {
+      id: 'audit',
+      title: 'Audit',
+      createdAt: new Date(0),
+      lastMessageAt: new Date(0),
+      messageCount: 2,
+      parentAgentInstanceId: null,
+      unread: false,
+      archivedAt: null,
+      triggerRun,
+    };
+
+    const [history] = mergeAgentEntries({
+      activeAgents: [],
+      historyList: [historyEntry],
+      pendingRemovals: new Set(),
+    });
+    const [live] = mergeAgentEntries({
+      activeAgents: [agent('audit')],
+      historyList: [historyEntry],
+      pendingRemovals: new Set(),
+    });
+
+    expect(history?.triggerName).toBe('Morning audit');
+    expect(live?.triggerName).toBe('Morning audit');
+  });
+
   it('orders state severity by error, waiting, unread, working', () => {
     expect(getAgentStateSeverity(agent('error', { hasError: true }))).toBe(
       'error',
@@ -34,6 +34,8 @@ export type ActiveAgentCardData = {
 export type MergedAgentEntry = ActiveAgentCardData & {
   /** True when this agent is currently loaded in-memory (active instance). */
   isLive: boolean;
+  /** Name of the agent trigger that started the chat, if any. */
+  triggerName?: string | null;
 };
 
 export type AgentStateSeverity = 'error' | 'warning' | 'success' | 'info';
@@ -152,6 +154,7 @@ export function mergeAgentEntries({
       messageCount: e.messageCount,
       mountedWorkspaces: e.mountedWorkspaces ?? [],
       isLive: false,
+      triggerName: e.triggerRun?.triggerName ?? null,
     }));
 
   const activeEntries: MergedAgentEntry[] = activeAgents
@@ -177,6 +180,7 @@ export function mergeAgentEntries({
             ? a.mountedWorkspaces
             : (h?.mountedWorkspaces ?? []),
         isLive: true,
+        triggerName: h?.triggerRun?.triggerName ?? null,
         lastMessageAt:
           a.lastMessageAt > 0
             ? a.lastMessageAt
@@ -221,9 +225,12 @@ export function getActiveAgentStateIndicators(
   return {
     hasError:
       !!instance.state.error &&
-      instance.state.error.kind !== 'plan-limit-exceeded',
+      instance.state.error.kind !== 'plan-limit-exceeded' &&
+      instance.state.error.kind !== 'budget-exceeded',
     isWaitingForUser:
-      !!toolboxEntry?.pendingUserQuestion || hasPendingToolApproval,
+      !!toolboxEntry?.pendingUserQuestion ||
+      hasPendingToolApproval ||
+      instance.state.error?.kind === 'budget-exceeded',
     isWorking: instance.state.isWorking,
     unread: !!instance.state.unread,
   };
@@ -32,6 +32,8 @@ import { ReadConsoleLogsToolPart } from './message-part-ui/tools/read-console-lo
 import { AskUserQuestionsToolPart } from './message-part-ui/tools/ask-user-questions';
 import { CreateWatcherSessionToolPart } from './message-part-ui/tools/create-watcher-session';
 import { ExecuteShellCommandToolPart } from './message-part-ui/tools/execute-shell-command';
+import { GitToolPart } from './message-part-ui/tools/git-tool';
+import { CodeNavigationToolPart } from './message-part-ui/tools/code-navigation-tool';
 import {
   hasUnfinishedParts,
   isToolOrReasoningPart,
@@ -220,6 +222,30 @@ const SinglePartRenderer = memo(
             isLastPart={isLastPart}
           />
         );
+      case 'tool-gitLog':
+      case 'tool-gitBlame':
+      case 'tool-gitStage':
+      case 'tool-gitCommit':
+      case 'tool-gitStash':
+        return (
+          <GitToolPart
+            key={stableKey}
+            part={part}
+            shimmer={isWorking && isLastPart && isLastMessage}
+          />
+        );
+      case 'tool-goToDefinition':
+      case 'tool-findReferences':
+      case 'tool-searchWorkspaceSymbols':
+      case 'tool-getHoverInfo':
+      case 'tool-renameSymbol':
+        return (
+          <CodeNavigationToolPart
+            key={stableKey}
+            part={part}
+            shimmer={isWorking && isLastPart && isLastMessage}
+          />
+        );
       default:
         return (
           <UnknownToolPart
@@ -0,0 +1,163 @@
+import type { AgentToolUIPart } from '@shared/karton-contracts/ui/agent';
+import {
+  IconArrowUpRightOutline18,
+  IconMagnifierOutline18,
+  IconPenOutline18,
+  IconTextAlignLeft2Outline18,
+  IconXmarkOutline18,
+} from '@stagewise/icons';
+import { cn } from '@ui/utils';
+import { ToolPartUI } from './shared/tool-part-ui';
+
+type CodeNavigationToolUIPart = Extract<
+  AgentToolUIPart,
+  {
+    type:
+      | 'tool-goToDefinition'
+      | 'tool-findReferences'
+      | 'tool-searchWorkspaceSymbols'
+      | 'tool-getHoverInfo'
+      | 'tool-renameSymbol';
+  }
+>;
+
+type CodeNavigationToolLabels = { running: string; done: string };
+
+function getLabels(part: CodeNavigationToolUIPart): CodeNavigationToolLabels {
+  const symbol =
+    part.type === 'tool-searchWorkspaceSymbols'
+      ? ''
+      : (part.input?.symbol ?? '');
+  switch (part.type) {
+    case 'tool-goToDefinition':
+      return {
+        running: `Finding definition of ${symbol}`.trim(),
+        done: `Found definition of ${symbol}`.trim(),
+      };
+    case 'tool-findReferences':
+      return {
+        running: `Finding references to ${symbol}`.trim(),
+        done: `Found references to ${symbol}`.trim(),
+      };
+    case 'tool-searchWorkspaceSymbols':
+      return {
+        running: `Searching symbols ${part.input?.query ?? ''}`.trim(),
+        done: `Searched symbols ${part.input?.query ?? ''}`.trim(),
+      };
+    case 'tool-getHoverInfo':
+      return {
+        running: `Reading type info of ${symbol}`.trim(),
+        done: `Read type info of ${symbol}`.trim(),
+      };
+    case 'tool-renameSymbol':
+      return {
+        running: `Renaming ${symbol} to ${part.input?.newName ?? ''}`.trim(),
+        done: `Renamed ${symbol} to ${part.input?.newName ?? ''}`.trim(),
+      };
+  }
+}
+
+/** One line per item shown in the expanded body. */
+function getDetailLines(part: CodeNavigationToolUIPart): string[] {
+  if (part.state === 'output-error') return [part.errorText];
+  if (part.state !== 'output-available') {
+    if (part.type === 'tool-searchWorkspaceSymbols') return [];
+    return part.input?.path && part.input.line
+      ? [`${part.input.path}:${part.input.line}`]
+      : [];
+  }
+  switch (part.type) {
+    case 'tool-goToDefinition':
+      return part.output.definitions.length > 0
+        ? part.output.definitions.map(
+            (d) => `${d.path}:${d.line} ${d.preview ?? ''}`,
+          )
+        : [part.output.message];
+    case 'tool-findReferences':
+      return part.output.references.length > 0
+        ? part.output.references.map(
+            (r) => `${r.path}:${r.line} ${r.preview ?? ''}`,
+          )
+        : [part.output.message];
+    case 'tool-searchWorkspaceSymbols':
+      return part.output.symbols.length > 0
+        ? part.output.symbols.map(
+            (s) => `${s.kind} ${s.name} ${s.location.path}:${s.location.line}`,
+          )
+        : [part.output.message];
+    case 'tool-getHoverInfo':
+      return part.output.contents.length > 0
+        ? part.output.contents
+        : [part.output.message];
+    case 'tool-renameSymbol':
+      return part.output.files.length > 0
+        ? part.output.files.map((f) => `${f.path} (${f.occurrences})`)
+        : [part.output.message];
+  }
+}
+
+function getIcon(part: CodeNavigationToolUIPart) {
+  switch (part.type) {
+    case 'tool-goToDefinition':
+      return IconArrowUpRightOutline18;
+    case 'tool-findReferences':
+    case 'tool-searchWorkspaceSymbols':
+      return IconMagnifierOutline18;
+    case 'tool-getHoverInfo':
+      return IconTextAlignLeft2Outline18;
+    case 'tool-renameSymbol':
+      return IconPenOutline18;
+  }
+}
+
+export function CodeNavigationToolPart({
+  part,
+  shimmer = false,
+}: {
+  part: CodeNavigationToolUIPart;
+  shimmer?: boolean;
+}) {
+  const isError = part.state === 'output-error';
+  const isFinished = part.state.startsWith('output-');
+  const labels = getLabels(part);
+  const label = isError
+    ? `Failed: ${labels.running.toLowerCase()}`
+    : isFinished
+      ? labels.done
+      : labels.running;
+  const lines = getDetailLines(part);
+  const Icon = getIcon(part);
+
+  return (
+    <ToolPartUI
+      isShimmering={shimmer && !isFinished}
+      trigger={
+        <div
+          className={cn(
+            'flex min-w-0 items-center gap-1 text-muted-foreground text-xs',
+            isError && 'text-error-foreground',
+          )}
+        >
+          {isError ? (
+            <IconXmarkOutline18 className="size-3 shrink-0" />
+          ) : (
+            <Icon className="size-3 shrink-0" />
+          )}
+          <span className="truncate">{label}</span>
+        </div>
+      }
+      content={
+        lines.length > 0 ? (
+          <pre
+            className={cn(
+              'whitespace-pre-wrap px-2.5 py-2 font-mono text-2xs',
+              isError ? 'text-error-foreground' : 'text-muted-foreground',
+            )}
+          >
+            {lines.join('\n')}
+          </pre>
+        ) : undefined
+      }
+    />
+  );
+}
@@ -22,6 +22,7 @@ import { ReadToolPart } from './read';
 import { LsToolPart } from './ls';
 import { SearchInLibraryDocsToolPart } from './search-in-library-docs';
 import { ListLibraryDocsToolPart } from './list-library-docs';
+import { SearchChatHistoryToolPart } from './search-chat-history';
 import { cn } from '@ui/utils';
 import type { PluginDefinition } from '@shared/plugins';
 import { useIsTruncated } from '@ui/hooks/use-is-truncated';
@@ -69,6 +70,7 @@ export type ReadOnlyToolPart =
           | 'tool-ls'
           | 'tool-searchInLibraryDocs'
           | 'tool-listLibraryDocs'
+          | 'tool-searchChatHistory'
           | 'tool-executeSandboxJs'
           | 'tool-readConsoleLogs'
           | 'tool-getLintingDiagnostics';
@@ -87,6 +89,7 @@ export function isReadOnlyToolPart(
     part.type === 'tool-ls' ||
     part.type === 'tool-searchInLibraryDocs' ||
     part.type === 'tool-listLibraryDocs' ||
+    part.type === 'tool-searchChatHistory' ||
     part.type === 'tool-executeSandboxJs' ||
     part.type === 'tool-readConsoleLogs' ||
     part.type === 'tool-getLintingDiagnostics'
@@ -175,6 +178,15 @@ const PartContent = ({
           disableShimmer={disableShimmer}
         />
       );
+    case 'tool-searchChatHistory':
+      return (
+        <SearchChatHistoryToolPart
+          key={part.toolCallId}
+          minimal={minimal}
+          part={part}
+          disableShimmer={disableShimmer}
+        />
+      );
     case 'tool-executeSandboxJs':
       return (
         <ExecuteSandboxJsToolPart
@@ -298,6 +310,7 @@ export const ExploringToolParts = memo(
       const linesRead = 0;
       let docsRead = 0;
       let consoleLogsRead = 0;
+      let pastChatSearches = 0;
       let hasUsedContext7Tools = false;
       let hasUsedFileTools = false;
       let lintingErrors = 0;
@@ -352,6 +365,9 @@ export const ExploringToolParts = memo(
             docsRead += 1;
             hasUsedContext7Tools = true;
             break;
+          case 'tool-searchChatHistory':
+            pastChatSearches += 1;
+            break;
           case 'tool-executeSandboxJs': {
             const script = part.input?.script ?? '';
             const cdpCalls = parseCDPCalls(script);
@@ -420,6 +436,7 @@ export const ExploringToolParts = memo(
         linesRead,
         docsRead,
         consoleLogsRead,
+        pastChatSearches,
         hasUsedBrowserTools,
         hasUsedContext7Tools,
         hasUsedFileTools,
@@ -451,6 +468,7 @@ export const ExploringToolParts = memo(
         filesRead,
         docsRead,
         consoleLogsRead,
+        pastChatSearches,
         hasUsedBrowserTools,
         hasUsedContext7Tools,
         hasUsedFileTools,
@@ -497,6 +515,8 @@ export const ExploringToolParts = memo(
           `${consoleLogsRead} console log${consoleLogsRead !== 1 ? 's' : ''}`,
         );
 
+      if (pastChatSearches > 0) textParts.push('past chats');
+
       // Sandbox: build a descriptive browser segment
       const hostSuffix =
         inspectedHostnames.size === 1
@@ -644,6 +664,8 @@ export const ExploringToolParts = memo(
           if (!p.input?.name) return 'Exploring documentation...';
           return `Searching docs for ${p.input.name}...`;
         }
+        case 'tool-searchChatHistory':
+          return 'Searching past chats...';
         case 'tool-executeSandboxJs': {
           const p = lastNonReasoningPart as Extract<
             AgentToolUIPart,
@@ -0,0 +1,153 @@
+import {
+  IconCodeBranchOutline18,
+  IconCodeCommitOutline18,
+  IconXmarkOutline18,
+} from '@stagewise/icons';
+import { cn } from '@ui/utils';
+import {
+  type ApprovableGitToolPart,
+  ShellToolApprovalFooter,
+  useShellToolApproval,
+} from './shared/shell-tool-approval';
+import { ToolPartUI } from './shared/tool-part-ui';
+
+type GitToolLabels = { running: string; done: string };
+
+function getLabels(part: ApprovableGitToolPart): GitToolLabels {
+  switch (part.type) {
+    case 'tool-gitLog':
+      return { running: 'Reading git history', done: 'Read git history' };
+    case 'tool-gitBlame':
+      return { running: 'Reading git blame', done: 'Read git blame' };
+    case 'tool-gitStage':
+      return part.input?.unstage
+        ? { running: 'Unstaging changes', done: 'Unstaged changes' }
+        : { running: 'Staging changes', done: 'Staged changes' };
+    case 'tool-gitCommit':
+      return part.input?.amend
+        ? { running: 'Amending commit', done: 'Amended commit' }
+        : { running: 'Committing', done: 'Committed' };
+    case 'tool-gitStash':
+      return {
+        running: `Running git stash ${part.input?.action ?? ''}`.trim(),
+        done: `Ran git stash ${part.input?.action ?? ''}`.trim(),
+      };
+  }
+}
+
+/** One line per item shown in the expanded body. */
+function getDetailLines(part: ApprovableGitToolPart): string[] {
+  if (part.state === 'output-error') return [part.errorText];
+  if (part.state === 'output-available') {
+    switch (part.type) {
+      case 'tool-gitLog':
+        return part.output.commits.map((c) => `${c.sha} ${c.subject}`);
+      case 'tool-gitBlame':
+        return part.output.lines.map(
+          (l) => `${l.sha.slice(0, 8)} ${l.line}: ${l.content}`,
+        );
+      case 'tool-gitStage':
+        return part.output.staged;
+      case 'tool-gitCommit':
+        return [
+          `${part.output.sha} ${part.output.subject}`,
+          ...part.output.files,
+        ];
+      case 'tool-gitStash':
+        return part.output.stashes
+          ? part.output.stashes.map((s) => `${s.ref} ${s.message}`)
+          : [part.output.message];
+    }
+  }
+  switch (part.type) {
+    case 'tool-gitLog':
+    case 'tool-gitBlame':
+      return part.input?.path ? [part.input.path] : [];
+    case 'tool-gitStage':
+      return [
+        ...(part.input?.paths ?? []),
+        ...(part.input?.patch?.diff ? [part.input.patch.diff] : []),
+      ].filter((line): line is string => typeof line === 'string');
+    case 'tool-gitCommit':
+      return [
+        ...(part.input?.message ? [part.input.message] : []),
+        ...(part.input?.paths ?? []),
+        ...(part.input?.turnEdits ? ['Files edited in this turn'] : []),
+      ].filter((line): line is string => typeof line === 'string');
+    case 'tool-gitStash':
+      return part.input?.mount ? [part.input.mount] : [];
+  }
+}
+
+export function GitToolPart({
+  part,
+  shimmer = false,
+}: {
+  part: ApprovableGitToolPart;
+  shimmer?: boolean;
+}) {
+  const approval = useShellToolApproval(part);
+  const isApproval =
+    part.state === 'approval-requested' || part.state === 'approval-responded';
+  const isError = part.state === 'output-error';
+  const isDenied = part.state === 'output-denied';
+  const isFinished = part.state.startsWith('output-');
+  const labels = getLabels(part);
+  const label = isError
+    ? `Failed: ${labels.running.toLowerCase()}`
+    : isDenied
+      ? `Skipped: ${labels.running.toLowerCase()}`
+      : isFinished
+        ? labels.done
+        : labels.running;
+  const lines = getDetailLines(part);
+  const Icon =
+    part.type === 'tool-gitCommit'
+      ? IconCodeCommitOutline18
+      : IconCodeBranchOutline18;
+
+  return (
+    <ToolPartUI
+      showBorder={isApproval}
+      isShimmering={shimmer && !isFinished && !isApproval}
+      trigger={
+        <div
+          className={cn(
+            'flex min-w-0 items-center gap-1 text-muted-foreground text-xs',
+            isApproval && 'text-warning-foreground',
+            isError && 'text-error-foreground',
+          )}
+        >
+          {isError ? (
+            <IconXmarkOutline18 className="size-3 shrink-0" />
+          ) : (
+            <Icon className="size-3 shrink-0" />
+          )}
+          <span className="truncate">{label}</span>
+        </div>
+      }
+      content={
+        lines.length > 0 ? (
+          <pre
+            className={cn(
+              'whitespace-pre-wrap px-2.5 py-2 font-mono text-2xs',
+              isError ? 'text-error-foreground' : 'text-muted-foreground',
+            )}
+          >
+            {lines.join('\n')}
+          </pre>
+        ) : undefined
+      }
+      contentFooter={
+        isApproval ? (
+          <ShellToolApprovalFooter
+            approval={approval}
+            isResponded={part.state === 'approval-responded'}
+          />
+        ) : undefined
+      }
+      contentFooterStatic={isApproval}
+      contentFooterClassName="px-2 py-1"
+    />
+  );
+}
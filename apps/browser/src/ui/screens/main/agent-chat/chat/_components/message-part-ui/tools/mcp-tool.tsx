@@ -0,0 +1,112 @@
+import { IconGear2Outline18 } from '@stagewise/icons';
+import { Button } from '@stagewise/stage-ui/components/button';
+import {
+  getMcpServerNameFromToolName,
+  MCP_TOOL_NAME_PREFIX,
+} from '@shared/mcp-servers';
+import { useKartonProcedure } from '@ui/hooks/use-karton';
+import { useOpenAgent } from '@ui/hooks/use-open-chat';
+import { cn } from '@ui/utils';
+import type { DynamicToolUIPart } from 'ai';
+import { ToolPartUI } from './shared/tool-part-ui';
+
+type McpToolOutput = { message?: string; result?: string };
+
+/** A call to a tool of an MCP server, named `mcp__<server>__<tool>`. */
+export function McpToolPart({
+  part,
+  shimmer,
+}: {
+  part: DynamicToolUIPart;
+  shimmer: boolean;
+}) {
+  const [openAgentId] = useOpenAgent();
+  const sendApproval = useKartonProcedure(
+    (procedures) => procedures.agents.sendToolApprovalResponse,
+  );
+  const isApproval = part.state === 'approval-requested';
+  const isError = part.state === 'output-error';
+  const isDenied = part.state === 'output-denied';
+  const isFinished = part.state.startsWith('output-');
+  const serverName = getMcpServerNameFromToolName(part.toolName);
+  const toolName = serverName
+    ? part.toolName.slice(MCP_TOOL_NAME_PREFIX.length + serverName.length + 2)
+    : part.toolName;
+  const output =
+    part.state === 'output-available'
+      ? (part.output as McpToolOutput | undefined)
+      : undefined;
+  const errorText = 'errorText' in part ? part.errorText : undefined;
+  const resultText = errorText ?? output?.result;
+  const inputText =
+    part.input && Object.keys(part.input as object).length > 0
+      ? JSON.stringify(part.input, null, 2)
+      : null;
+  const label = isApproval
+    ? `${toolName} needs approval`
+    : isError
+      ? `Failed ${toolName}`
+      : isDenied
+        ? `Denied ${toolName}`
+        : `${isFinished ? 'Called' : 'Calling'} ${toolName}`;
+  const respond = (approved: boolean) => {
+    if (!openAgentId || !isApproval || !part.approval?.id) return;
+    sendApproval(
+      openAgentId,
+      part.approval.id,
+      approved,
+      approved ? undefined : 'User denied',
+    );
+  };
+
+  return (
+    <ToolPartUI
+      showBorder={isApproval}
+      isShimmering={shimmer && !isFinished}
+      trigger={
+        <div className="flex min-w-0 items-center gap-1 text-muted-foreground text-xs">
+          <IconGear2Outline18 className="size-3 shrink-0" />
+          <span className="truncate">{label}</span>
+          {serverName ? (
+            <span className="shrink-0 text-subtle-foreground">
+              {serverName}
+            </span>
+          ) : null}
+        </div>
+      }
+      content={
+        <div className="space-y-1 px-2.5 py-2 text-xs">
+          {inputText ? (
+            <pre className="max-h-32 overflow-auto whitespace-pre-wrap font-mono text-2xs text-foreground">
+              {inputText}
+            </pre>
+          ) : null}
+          {resultText && !isDenied ? (
+            <pre
+              className={cn(
+                'max-h-48 overflow-auto whitespace-pre-wrap font-mono text-2xs',
+                isError ? 'text-error-foreground' : 'text-muted-foreground',
+              )}
+            >
+              {resultText}
+            </pre>
+          ) : null}
+        </div>
+      }
+      contentFooterStatic
+      contentFooterClassName="justify-end border-derived border-t"
+      contentFooter={
+        isApproval ? (
+          <>
+            <Button variant="ghost" size="xs" onClick={() => respond(false)}>
+              Deny
+            </Button>
+            <Button variant="primary" size="xs" onClick={() => respond(true)}>
+              Allow
+            </Button>
+          </>
+        ) : undefined
+      }
+    />
+  );
+}
@@ -0,0 +1,39 @@
+import type { AgentToolUIPart } from '@shared/karton-contracts/ui/agent';
+import { ToolPartUINotCollapsible } from './shared/tool-part-ui-not-collapsible';
+import { IconHistoryFillDuo18 } from '@stagewise/icons';
+
+export const SearchChatHistoryToolPart = ({
+  part,
+  disableShimmer = false,
+  minimal = false,
+}: {
+  part: Extract<AgentToolUIPart, { type: 'tool-searchChatHistory' }>;
+  disableShimmer?: boolean;
+  minimal?: boolean;
+}) => {
+  const streamingText = part.input?.query
+    ? `Searching past chats for ${part.input.query}...`
+    : 'Searching past chats...';
+
+  const finishedText =
+    part.state === 'output-available' ? (
+      <span className="flex min-w-0 gap-1">
+        <span className="shrink-0 truncate font-semibold">Found</span>
+        <span className="truncate font-normal">
+          {part.output?.results.length ?? 0} past messages for{' '}
+          {part.input?.query}
+        </span>
+      </span>
+    ) : undefined;
+
+  return (
+    <ToolPartUINotCollapsible
+      icon={<IconHistoryFillDuo18 className="size-3 shrink-0" />}
+      part={part}
+      minimal={minimal}
+      disableShimmer={disableShimmer}
+      streamingText={streamingText}
+      finishedText={finishedText}
+    />
+  );
+};
@@ -27,7 +27,25 @@ export type ApprovableShellToolPart = Extract<
   }
 >;
 
-export function useShellToolApproval(part: ApprovableShellToolPart) {
+/**
+ * Git tools share the shell approval flow. `gitLog` and `gitBlame` never
+ * ask, but one component renders every git tool.
+ */
+export type ApprovableGitToolPart = Extract<
+  AgentToolUIPart,
+  {
+    type:
+      | 'tool-gitLog'
+      | 'tool-gitBlame'
+      | 'tool-gitStage'
+      | 'tool-gitCommit'
+      | 'tool-gitStash';
+  }
+>;
+
+export function useShellToolApproval(
+  part: ApprovableShellToolPart | ApprovableGitToolPart,
+) {
   const [openAgentId] = useOpenAgent();
   const sendApproval = useKartonProcedure(
     (procedures) => procedures.agents.sendToolApprovalResponse,
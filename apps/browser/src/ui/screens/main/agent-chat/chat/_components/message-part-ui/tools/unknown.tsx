@@ -3,6 +3,8 @@ import type { AgentToolUIPart } from '@shared/karton-contracts/ui/agent';
 import { ToolPartUINotCollapsible } from './shared/tool-part-ui-not-collapsible';
 import { IconGear2Outline18 } from '@stagewise/icons';
 import { ExternalAgentToolPart } from './external-agent';
+import { McpToolPart } from './mcp-tool';
+import { isMcpToolName } from '@shared/mcp-servers';
 
 export const UnknownToolPart = ({
   part,
@@ -14,6 +16,9 @@ export const UnknownToolPart = ({
   if (part.type === 'dynamic-tool' && part.toolName.startsWith('acp.')) {
     return <ExternalAgentToolPart part={part} shimmer={shimmer} />;
   }
+  if (part.type === 'dynamic-tool' && isMcpToolName(part.toolName)) {
+    return <McpToolPart part={part} shimmer={shimmer} />;
+  }
   const streamingText = `Calling tool ${part.type}...`;
   const finishedText = `Finished calling tool ${part.type}`;
   return (
@@ -141,6 +141,12 @@ export function MessageRuntimeError({
     );
   }
 
+  if (error.kind === 'budget-exceeded') {
+    return (
+      <BudgetExceededError agentInstanceId={agentInstanceId} error={error} />
+    );
+  }
+
   if (error.kind === 'waiting-for-connection') {
     return (
       <WaitingForConnectionError
@@ -255,6 +261,52 @@ function PlanLimitExceededError({
   );
 }
 
+/**
+ * Shows a card when one of the user's token or cost budgets paused the
+ * agent. Extending the budget resumes the paused step; there is no Retry,
+ * since it would pause again right away.
+ */
+function BudgetExceededError({
+  agentInstanceId,
+  error,
+}: {
+  agentInstanceId: string;
+  error: Extract<AgentRuntimeError, { kind: 'budget-exceeded' }>;
+}) {
+  const extendBudget = useKartonProcedure((p) => p.agents.extendBudget);
+  const [isExtending, setIsExtending] = useState(false);
+
+  const handleExtend = async () => {
+    setIsExtending(true);
+    try {
+      await extendBudget(agentInstanceId, error.budgetId);
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 flex w-full flex-col gap-1.5 rounded-lg border border-derived-strong p-2 text-sm">
+      <span className="font-medium text-foreground">Budget reached</span>
+
+      <div className="text-foreground">
+        {error.message} The agent is paused until you extend the budget.
+      </div>
+
+      <div className="flex flex-row justify-end gap-2 pt-1">
+        <Button
+          variant="primary"
+          size="xs"
+          disabled={isExtending}
+          onClick={() => void handleExtend()}
+        >
+          Extend budget
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Shows a card when a free-tier user tries to use a model that is not on
  * the free-tier whitelist and they have no prepaid credits. Offers CTAs to
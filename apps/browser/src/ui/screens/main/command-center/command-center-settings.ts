@@ -13,6 +13,7 @@ export type CommandCenterSettingDefinition = Omit<
     | 'context'
     | 'worktrees'
     | 'plugins'
+    | 'mcp'
     | 'browser'
     | 'history'
     | 'personalization';
@@ -25,6 +26,7 @@ const ROUTE_AGENT_GENERAL: SettingsRoute = { section: 'agent-general' };
 const ROUTE_SKILLS_CONTEXT: SettingsRoute = { section: 'skills-context' };
 const ROUTE_WORKTREE_SETUP: SettingsRoute = { section: 'worktree-setup' };
 const ROUTE_PLUGINS: SettingsRoute = { section: 'plugins' };
+const ROUTE_MCP_SERVERS: SettingsRoute = { section: 'mcp-servers' };
 const ROUTE_PERSONALIZATION: SettingsRoute = { section: 'personalization' };
 const ROUTE_BROWSING: SettingsRoute = { section: 'browsing' };
 const ROUTE_HISTORY: SettingsRoute = { section: 'history' };
@@ -105,6 +107,15 @@ export const commandCenterSettings: CommandCenterSettingDefinition[] = [
     settingsRoute: ROUTE_PLUGINS,
     iconName: 'plugins',
   },
+  {
+    id: 'setting:mcp-servers',
+    title: 'MCP servers',
+    subtitle: 'Connect MCP servers and give the agent their tools',
+    keywords: ['mcp', 'model context protocol', 'servers', 'tools'],
+    url: '',
+    settingsRoute: ROUTE_MCP_SERVERS,
+    iconName: 'mcp',
+  },
   {
     id: 'setting:personalization',
     title: 'Personalization',
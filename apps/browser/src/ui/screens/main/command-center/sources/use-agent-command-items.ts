@@ -171,13 +171,17 @@ export function useAgentCommandItems(
               id,
               title: agent.state.title,
               isWorking: agent.state.isWorking,
-              isWaitingForUser: hasPendingQuestion || hasPendingToolApproval,
+              isWaitingForUser:
+                hasPendingQuestion ||
+                hasPendingToolApproval ||
+                agent.state.error?.kind === 'budget-exceeded',
               activityText: activity.text,
               activityIsUserInput: activity.isUserInput,
               hasError:
                 !!agent.state.error &&
                 agent.state.error.kind !== 'plan-limit-exceeded' &&
-                agent.state.error.kind !== 'subscription-required',
+                agent.state.error.kind !== 'subscription-required' &&
+                agent.state.error.kind !== 'budget-exceeded',
               unread: !!agent.state.unread,
               lastMessageAt: lastMsg?.metadata?.createdAt
                 ? new Date(lastMsg.metadata.createdAt).getTime()
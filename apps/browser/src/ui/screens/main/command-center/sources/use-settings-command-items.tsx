@@ -27,6 +27,7 @@ function iconForSetting(setting: CommandCenterSettingDefinition) {
     case 'key':
       return <IconKey2Outline18 className={className} />;
     case 'provider':
+    case 'mcp':
       return <IconServerOutline18 className={className} />;
     case 'context':
       return <IconNoteFillDuo18 className={className} />;
@@ -0,0 +1,447 @@
+import { type ReactNode, useCallback, useEffect, useState } from 'react';
+import type { TabState } from '@shared/karton-contracts/ui';
+import {
+  isFailedNetworkRequest,
+  type NetworkRequestBody,
+  type NetworkRequestEntry,
+  type NetworkRequestSummary,
+} from '@shared/network-requests';
+import { IconTrashOutline18 } from '@stagewise/icons';
+import { Button } from '@stagewise/stage-ui/components/button';
+import { OverlayScrollbar } from '@stagewise/stage-ui/components/overlay-scrollbar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTitle,
+  PopoverTrigger,
+} from '@stagewise/stage-ui/components/popover';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@stagewise/stage-ui/components/tooltip';
+import { cn } from '@stagewise/stage-ui/lib/utils';
+import { useKartonProcedure } from '@ui/hooks/use-karton';
+import {
+  ArrowLeftIcon,
+  DownloadIcon,
+  NetworkIcon,
+  UploadIcon,
+} from 'lucide-react';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatStatus(request: NetworkRequestSummary): string {
+  if (request.state === 'pending') return 'pending';
+  if (request.state === 'failed') return request.errorText ?? 'failed';
+  return String(request.status ?? '');
+}
+
+function formatDuration(durationMs: number | undefined): string {
+  if (durationMs === undefined) return '';
+  if (durationMs < 1000) return `${Math.round(durationMs)} ms`;
+  return `${(durationMs / 1000).toFixed(2)} s`;
+}
+
+function formatSize(request: NetworkRequestSummary): string {
+  if (request.fromCache) return 'cache';
+  if (request.transferSize === undefined) return '';
+  if (request.transferSize < 1024) return `${request.transferSize} B`;
+  if (request.transferSize < 1024 * 1024)
+    return `${(request.transferSize / 1024).toFixed(1)} kB`;
+  return `${(request.transferSize / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function getRequestName(url: string): string {
+  try {
+    const { pathname, search, host } = new URL(url);
+    const name = pathname.split('/').filter(Boolean).pop();
+    return name ? `${name}${search}` : host || url;
+  } catch {
+    return url;
+  }
+}
+
+// ============================================================================
+// Request Details
+// ============================================================================
+
+function DetailsSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1 py-2">
+      <span className="font-medium text-foreground text-xs">{title}</span>
+      {children}
+    </div>
+  );
+}
+
+function HeaderList({ headers }: { headers: Record<string, string> }) {
+  const entries = Object.entries(headers);
+  if (entries.length === 0) {
+    return <span className="text-muted-foreground text-xs">No headers</span>;
+  }
+  return (
+    <div className="flex flex-col gap-0.5">
+      {entries.map(([name, value]) => (
+        <div key={name} className="break-all font-mono text-2xs">
+          <span className="text-muted-foreground">{name}: </span>
+          <span className="text-foreground">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BodyPreview({ body }: { body: NetworkRequestBody }) {
+  if (body.base64Encoded) {
+    return (
+      <span className="text-muted-foreground text-xs">
+        Binary content ({body.text.length} base64 characters
+        {body.truncated ? ', truncated' : ''})
+      </span>
+    );
+  }
+  return (
+    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-md bg-surface-1 p-1.5 font-mono text-2xs text-foreground">
+      {body.text}
+      {body.truncated && (
+        <span className="text-muted-foreground">{'\n'}… (truncated)</span>
+      )}
+    </pre>
+  );
+}
+
+function RequestDetails({
+  request,
+  onBack,
+}: {
+  request: NetworkRequestEntry;
+  onBack: () => void;
+}) {
+  const timings = request.timings
+    ? Object.entries(request.timings).filter(([, value]) => value >= 0)
+    : [];
+
+  return (
+    <div className="flex flex-col divide-y divide-border-subtle px-1">
+      <div className="flex flex-row items-center gap-1 pb-2">
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          aria-label="Back to requests"
+          onClick={onBack}
+        >
+          <ArrowLeftIcon className="size-3.5" />
+        </Button>
+        <span className="truncate font-medium text-foreground text-xs">
+          {request.method} {getRequestName(request.url)}
+        </span>
+      </div>
+      <DetailsSection title="General">
+        <div className="flex flex-col gap-0.5 break-all font-mono text-2xs">
+          <span>{request.url}</span>
+          <span
+            className={cn(
+              isFailedNetworkRequest(request)
+                ? 'text-error-foreground'
+                : 'text-muted-foreground',
+            )}
+          >
+            {request.state === 'finished'
+              ? `${request.status} ${request.statusText ?? ''}`
+              : formatStatus(request)}
+          </span>
+          {request.remoteIPAddress && (
+            <span className="text-muted-foreground">
+              {request.remoteIPAddress}
+            </span>
+          )}
+        </div>
+      </DetailsSection>
+      {timings.length > 0 && (
+        <DetailsSection title="Timings">
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 font-mono text-2xs">
+            {timings.map(([phase, value]) => (
+              <div key={phase} className="contents">
+                <span className="text-muted-foreground">{phase}</span>
+                <span>{formatDuration(value)}</span>
+              </div>
+            ))}
+          </div>
+        </DetailsSection>
+      )}
+      <DetailsSection title="Request Headers">
+        <HeaderList headers={request.requestHeaders} />
+      </DetailsSection>
+      {request.requestBody && (
+        <DetailsSection title="Request Body">
+          <BodyPreview body={request.requestBody} />
+        </DetailsSection>
+      )}
+      {request.responseHeaders && (
+        <DetailsSection title="Response Headers">
+          <HeaderList headers={request.responseHeaders} />
+        </DetailsSection>
+      )}
+      {request.responseBody && (
+        <DetailsSection title="Response Body">
+          <BodyPreview body={request.responseBody} />
+        </DetailsSection>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Request List
+// ============================================================================
+
+function RequestRow({
+  request,
+  onSelect,
+}: {
+  request: NetworkRequestSummary;
+  onSelect: (requestId: string) => void;
+}) {
+  const failed = isFailedNetworkRequest(request);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(request.id)}
+      className="grid w-full cursor-pointer grid-cols-[3rem_3.5rem_1fr_4rem_4rem] items-center gap-2 rounded-md px-1 py-1 text-left text-2xs hover:bg-hover-derived"
+      title={request.url}
+    >
+      <span className="truncate font-medium text-muted-foreground">
+        {request.method}
+      </span>
+      <span
+        className={cn(
+          'truncate',
+          failed ? 'text-error-foreground' : 'text-muted-foreground',
+        )}
+      >
+        {formatStatus(request)}
+      </span>
+      <span
+        className={cn(
+          'truncate',
+          failed ? 'text-error-foreground' : 'text-foreground',
+        )}
+      >
+        {getRequestName(request.url)}
+      </span>
+      <span className="truncate text-right text-muted-foreground">
+        {formatSize(request)}
+      </span>
+      <span className="truncate text-right text-muted-foreground">
+        {formatDuration(request.durationMs)}
+      </span>
+    </button>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function NetworkWidget({ tab }: { tab: TabState }) {
+  const getRequests = useKartonProcedure(
+    (p) => p.browser.devTools.network.getRequests,
+  );
+  const getRequest = useKartonProcedure(
+    (p) => p.browser.devTools.network.getRequest,
+  );
+  const clearRequests = useKartonProcedure(
+    (p) => p.browser.devTools.network.clear,
+  );
+  const exportHar = useKartonProcedure(
+    (p) => p.browser.devTools.network.exportHar,
+  );
+  const importHar = useKartonProcedure(
+    (p) => p.browser.devTools.network.importHar,
+  );
+  const movePanelToForeground = useKartonProcedure(
+    (p) => p.browser.layout.movePanelToForeground,
+  );
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [requests, setRequests] = useState<NetworkRequestSummary[]>([]);
+  const [selectedRequest, setSelectedRequest] =
+    useState<NetworkRequestEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refresh the list while the panel is open and new requests come in
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    void getRequests(tab.id)
+      .then((nextRequests) => {
+        if (!cancelled) setRequests(nextRequests);
+      })
+      .catch(() => {
+        // Keep the last known list during transient backend reconnects.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tab.id, tab.networkRequestCount, getRequests]);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      setIsOpen(open);
+      if (open) {
+        void movePanelToForeground('stagewise-ui');
+      } else {
+        setSelectedRequest(null);
+        setError(null);
+      }
+    },
+    [movePanelToForeground],
+  );
+
+  const handleSelect = useCallback(
+    async (requestId: string) => {
+      const request = await getRequest(tab.id, requestId);
+      if (request) setSelectedRequest(request);
+    },
+    [getRequest, tab.id],
+  );
+
+  const handleClear = useCallback(async () => {
+    await clearRequests(tab.id);
+    setRequests([]);
+    setSelectedRequest(null);
+  }, [clearRequests, tab.id]);
+
+  const handleExport = useCallback(async () => {
+    const result = await exportHar(tab.id);
+    setError('error' in result && result.error ? result.error : null);
+  }, [exportHar, tab.id]);
+
+  const handleImport = useCallback(async () => {
+    const result = await importHar(tab.id);
+    if ('error' in result) {
+      // An empty error means the user cancelled the dialog
+      if (result.error) setError(result.error);
+      return;
+    }
+    setError(null);
+    setSelectedRequest(null);
+    setRequests(await getRequests(tab.id));
+  }, [importHar, getRequests, tab.id]);
+
+  const tooltipText =
+    tab.networkFailedCount > 0
+      ? `Network (${tab.networkFailedCount} failed)`
+      : 'Network';
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger>
+          <PopoverTrigger>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Network"
+              className="relative text-muted-foreground data-[active=true]:text-primary-solid data-[active=true]:hover:text-primary-solid"
+              data-active={isOpen ? 'true' : 'false'}
+            >
+              <NetworkIcon className="size-4" />
+              {tab.networkFailedCount > 0 && (
+                <span className="pointer-events-none absolute top-1 right-1 size-1.5 rounded-full bg-error-solid" />
+              )}
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>{tooltipText}</TooltipContent>
+      </Tooltip>
+
+      <PopoverContent className="w-[28rem] rounded-lg p-2">
+        <div className="flex flex-row items-center justify-between gap-2">
+          <PopoverTitle>Network</PopoverTitle>
+          <div className="flex flex-row items-center gap-0.5">
+            <Tooltip>
+              <TooltipTrigger>
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Import HAR"
+                  onClick={() => void handleImport()}
+                >
+                  <UploadIcon className="size-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Import HAR</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger>
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Export HAR"
+                  disabled={requests.length === 0}
+                  onClick={() => void handleExport()}
+                >
+                  <DownloadIcon className="size-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Export HAR</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger>
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  aria-label="Clear requests"
+                  disabled={requests.length === 0}
+                  onClick={() => void handleClear()}
+                >
+                  <IconTrashOutline18 className="size-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Clear</TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+        {error && (
+          <span className="px-1 text-error-foreground text-xs">{error}</span>
+        )}
+        <OverlayScrollbar
+          className="max-h-96 w-full"
+          contentClassName="flex flex-col"
+        >
+          {selectedRequest ? (
+            <RequestDetails
+              request={selectedRequest}
+              onBack={() => setSelectedRequest(null)}
+            />
+          ) : requests.length === 0 ? (
+            <div className="flex items-center justify-center py-3">
+              <span className="text-muted-foreground text-sm">
+                No requests recorded
+              </span>
+            </div>
+          ) : (
+            requests.map((request) => (
+              <RequestRow
+                key={request.id}
+                request={request}
+                onSelect={(requestId) => void handleSelect(requestId)}
+              />
+            ))
+          )}
+        </OverlayScrollbar>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -13,6 +13,7 @@ import { BasicAuthDialog } from './basic-auth-dialog';
 import { ColorSchemeWidget } from './control-buttons/color-scheme';
 import { DeviceEmulationWidget } from './control-buttons/device-emulation';
 import { ChromeDevToolsWidget } from './control-buttons/chrome-devtools';
+import { NetworkWidget } from './control-buttons/network';
 import { DeviceEmulationFrame } from './device-emulation-frame';
 import { PerTerminalContent } from '../../terminal-panel/_components/per-terminal-content';
 import { FilePreviewTabContent } from '../../file-tree/file-preview-tab-content';
@@ -84,6 +85,7 @@ export const PerTabContent = forwardRef<PerTabContentRef, PerTabContentProps>(
           <div className="flex flex-row items-center gap-0.5">
             {tab && <ColorSchemeWidget tab={tab} />}
             {tab && <DeviceEmulationWidget tab={tab} />}
+            {tab && <NetworkWidget tab={tab} />}
             {tab && <ChromeDevToolsWidget tab={tab} />}
           </div>
         </div>
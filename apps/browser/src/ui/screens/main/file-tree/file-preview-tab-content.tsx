@@ -69,6 +69,12 @@ import {
   type EditorActions,
   useFileEditorController,
 } from './use-file-editor-controller';
+import { PendingHunksReview } from './pending-hunks-review';
+import {
+  revealEditorSelection,
+  takePendingEditorReveal,
+  useEditorLsp,
+} from './use-editor-lsp';
 
 const MONACO_THEME_NAME = 'stagewise-file-preview';
 
@@ -454,14 +460,30 @@ function registerMonacoThemeSync(monaco: MonacoApi) {
 
 // Monaco's built-in TypeScript worker runs an embedded language service that
 // has no access to the project's tsconfig.json, node_modules, or path aliases.
-// This causes spurious errors (red squigglies) on valid code. The real LSP
-// runs on the backend (LspService); the frontend editor is a viewer, not an
-// IDE, so we disable Monaco's inline diagnostics entirely.
-let monacoTSDiagnosticsDisabled = false;
+// This causes spurious errors (red squigglies) on valid code. Diagnostics,
+// hover, definitions, completion and quick fixes come from the real language
+// servers on the backend instead (see use-editor-lsp.ts), so the worker's
+// versions are turned off to avoid duplicates.
+let monacoTSConfigured = false;
 function configureMonacoTypeScript(monaco: MonacoApi) {
-  if (monacoTSDiagnosticsDisabled) return;
-  monacoTSDiagnosticsDisabled = true;
+  if (monacoTSConfigured) return;
+  monacoTSConfigured = true;
   const noValidation = { noSemanticValidation: true, noSyntaxValidation: true };
+  const modeConfiguration = {
+    completionItems: false,
+    hovers: false,
+    documentSymbols: true,
+    definitions: false,
+    references: true,
+    documentHighlights: true,
+    rename: true,
+    diagnostics: false,
+    documentRangeFormattingEdits: true,
+    signatureHelp: true,
+    onTypeFormattingEdits: true,
+    codeActions: false,
+    inlayHints: true,
+  };
   // monaco.languages.typescript is deprecated at the type level in Monaco
   // 0.55 (the declarations are stubbed), but the runtime API still exists.
   // We use a cast because importing from 'monaco-editor' directly would
@@ -469,13 +491,17 @@ function configureMonacoTypeScript(monaco: MonacoApi) {
   const ts = monaco.languages.typescript as unknown as {
     typescriptDefaults: {
       setDiagnosticsOptions(opts: Record<string, boolean>): void;
+      setModeConfiguration(config: Record<string, boolean>): void;
     };
     javascriptDefaults: {
       setDiagnosticsOptions(opts: Record<string, boolean>): void;
+      setModeConfiguration(config: Record<string, boolean>): void;
     };
   };
   ts.typescriptDefaults.setDiagnosticsOptions(noValidation);
   ts.javascriptDefaults.setDiagnosticsOptions(noValidation);
+  ts.typescriptDefaults.setModeConfiguration(modeConfiguration);
+  ts.javascriptDefaults.setModeConfiguration(modeConfiguration);
 }
 
 // Shared Monaco editor options used by both TextEditorPreview and SvgPreview
@@ -1424,6 +1450,8 @@ function TextEditorPreview({
   const [editor, setEditor] = useState<MonacoEditorInstance | null>(null);
   const cursorPosition = useSourceCursorPosition(editor);
   const actions = useEditorActions(tabId, editor, preview, text, setText);
+  const absolutePath = getPreviewAbsolutePath(preview);
+  useEditorLsp({ editor, absolutePath, tabId });
 
   const handleMount = useCallback(
     (editor: MonacoEditorInstance, monaco: MonacoApi) => {
@@ -1445,23 +1473,27 @@ function TextEditorPreview({
           scrollLeft: e.scrollLeft,
         });
       });
-      // Restore the last-known scroll position for this file.
+      // Restore the last-known scroll position for this file, or show the
+      // symbol "go to definition" opened it for.
       // Set immediately so the position is correct even if no layout
       // event fires after mount.  Monaco produces multiple layout
       // events during initialisation (content layout, then font-size /
       // option sync from the React wrapper) — each one resets the
       // scroll, so keep re-restoring on every layout event for a
       // settling window.
+      const reveal = takePendingEditorReveal(absolutePath);
       const saved = scrollStateStore.get(cacheKey);
-      if (saved) {
-        editor.setScrollPosition(saved);
-        const layoutDisposable = editor.onDidLayoutChange(() => {
-          editor.setScrollPosition(saved);
-        });
+      if (reveal || saved) {
+        const restore = () => {
+          if (reveal) revealEditorSelection(editor, reveal);
+          else if (saved) editor.setScrollPosition(saved);
+        };
+        restore();
+        const layoutDisposable = editor.onDidLayoutChange(restore);
         setTimeout(() => layoutDisposable.dispose(), 300);
       }
     },
-    [cacheKey, markFocused, updateZoom, zoomPercentageRef],
+    [absolutePath, cacheKey, markFocused, updateZoom, zoomPercentageRef],
   );
 
   const handleChange = useCallback(
@@ -1484,7 +1516,7 @@ function TextEditorPreview({
     <div className="flex size-full flex-col bg-background">
       <FileTabToolbar
         actions={actions}
-        openExternalPath={getPreviewAbsolutePath(preview)}
+        openExternalPath={absolutePath}
         onInteract={markFocused}
       />
       {actions.externalChange ? (
@@ -2718,6 +2750,15 @@ function FileBackedPreviewTabContent({ tab }: FilePreviewTabContentProps) {
   const isImageDiff = tab.file.kind === 'image' || tab.file.kind === 'svg';
   const isBinaryDiff =
     tab.file.kind === 'binary' || isImagePath(tab.file.diffOldPath);
+  // Tabs opened from an agent's chat can review that agent's pending edits.
+  const hunkReview =
+    tab.agentInstanceId && tab.file.absolutePath ? (
+      <PendingHunksReview
+        agentInstanceId={tab.agentInstanceId}
+        filePath={tab.file.absolutePath}
+        revision={directoryRevision}
+      />
+    ) : null;
 
   // File was deleted — keep showing cached content with the delete banner.
   // Don't show the MissingFileNotice; the user can still see/edit and
@@ -2767,22 +2808,25 @@ function FileBackedPreviewTabContent({ tab }: FilePreviewTabContentProps) {
   if (tab.file?.showDiff) {
     return (
       <div className="absolute inset-0 z-10 flex flex-col bg-background">
-        {isImageDiff ? (
-          <ImagePreview
-            src={blobUrl}
-            alt={tab.file.relativePath}
-            openExternalPath={tab.file.absolutePath}
-            tabId={tab.id}
-          />
-        ) : isBinaryDiff ? (
-          <BinaryPreview
-            workspaceKey={tab.file.workspaceKey}
-            relativePath={tab.file.relativePath}
-            revealInFolder={revealInFolder}
-          />
-        ) : (
-          <DiffEditorPreview tab={tab.file} tabId={tab.id} />
-        )}
+        {hunkReview}
+        <div className="min-h-0 flex-1">
+          {isImageDiff ? (
+            <ImagePreview
+              src={blobUrl}
+              alt={tab.file.relativePath}
+              openExternalPath={tab.file.absolutePath}
+              tabId={tab.id}
+            />
+          ) : isBinaryDiff ? (
+            <BinaryPreview
+              workspaceKey={tab.file.workspaceKey}
+              relativePath={tab.file.relativePath}
+              revealInFolder={revealInFolder}
+            />
+          ) : (
+            <DiffEditorPreview tab={tab.file} tabId={tab.id} />
+          )}
+        </div>
       </div>
     );
   }
@@ -2796,6 +2840,7 @@ function FileBackedPreviewTabContent({ tab }: FilePreviewTabContentProps) {
           onDismiss={handleDismissMoveNotice}
         />
       )}
+      {hunkReview}
       <div className="min-h-0 flex-1">
         {isLoading ? (
           <div className="flex size-full flex-col bg-background">
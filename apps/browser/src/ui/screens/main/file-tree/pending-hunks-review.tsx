@@ -0,0 +1,196 @@
+import { Button } from '@stagewise/stage-ui/components/button';
+import type { BlamedHunk } from '@shared/karton-contracts/ui/shared-types';
+import { useKartonProcedure } from '@ui/hooks/use-karton';
+import { cn } from '@ui/utils';
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  GitCompareIcon,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/** Hunk lines shown per hunk before the preview is cut off. */
+const MAX_PREVIEW_LINES = 12;
+
+function countChanges(hunk: BlamedHunk): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of hunk.lines) {
+    if (line.startsWith('+')) added++;
+    else if (line.startsWith('-')) removed++;
+  }
+  return { added, removed };
+}
+
+function hunkLabel(hunk: BlamedHunk): string {
+  if (hunk.lines.length === 0) return 'Whole file';
+  if (hunk.newLines === 0) return `Removed after line ${hunk.newStart}`;
+  const end = hunk.newStart + hunk.newLines - 1;
+  return end === hunk.newStart
+    ? `Line ${hunk.newStart}`
+    : `Lines ${hunk.newStart}–${end}`;
+}
+
+/**
+ * Review strip for the agent's pending edits to the file open in a tab.
+ * Accepting a hunk moves it into the baseline, rejecting it restores the
+ * baseline content on disk. Renders nothing when there are no pending hunks.
+ */
+export function PendingHunksReview({
+  agentInstanceId,
+  filePath,
+  revision,
+}: {
+  agentInstanceId: string;
+  filePath: string;
+  /** Bumped when the file changes on disk, triggering a refetch. */
+  revision: number;
+}) {
+  const getPendingHunks = useKartonProcedure((p) => p.toolbox.getPendingHunks);
+  const acceptHunks = useKartonProcedure((p) => p.toolbox.acceptHunks);
+  const rejectHunks = useKartonProcedure((p) => p.toolbox.rejectHunks);
+  const [hunks, setHunks] = useState<BlamedHunk[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const requestSeq = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const seq = ++requestSeq.current;
+    try {
+      const next = await getPendingHunks(agentInstanceId, filePath);
+      if (seq === requestSeq.current) setHunks(next);
+    } catch {
+      if (seq === requestSeq.current) setHunks([]);
+    }
+  }, [agentInstanceId, filePath, getPendingHunks]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, revision]);
+
+  const resolve = useCallback(
+    async (decision: 'accept' | 'reject', hunkIds: string[]) => {
+      setIsResolving(true);
+      try {
+        await (decision === 'accept' ? acceptHunks : rejectHunks)(
+          agentInstanceId,
+          hunkIds,
+        );
+      } finally {
+        setIsResolving(false);
+        void refresh();
+      }
+    },
+    [acceptHunks, agentInstanceId, refresh, rejectHunks],
+  );
+
+  if (hunks.length === 0) return null;
+  const allIds = hunks.map((hunk) => hunk.id);
+
+  return (
+    <div className="flex max-h-[40%] shrink-0 flex-col border-border border-b bg-info-solid/10 text-xs">
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5">
+        <button
+          type="button"
+          className="flex min-w-0 items-center gap-1.5 text-info-foreground"
+          onClick={() => setExpanded((value) => !value)}
+        >
+          {expanded ? (
+            <ChevronDownIcon className="size-3.5 shrink-0" />
+          ) : (
+            <ChevronRightIcon className="size-3.5 shrink-0" />
+          )}
+          <GitCompareIcon className="size-3.5 shrink-0" />
+          <span className="truncate">
+            {hunks.length} pending agent change{hunks.length === 1 ? '' : 's'}
+          </span>
+        </button>
+        <div className="flex shrink-0 items-center gap-1">
+          <Button
+            variant="ghost"
+            size="xs"
+            disabled={isResolving}
+            onClick={() => void resolve('reject', allIds)}
+          >
+            Reject all
+          </Button>
+          <Button
+            variant="primary"
+            size="xs"
+            disabled={isResolving}
+            onClick={() => void resolve('accept', allIds)}
+          >
+            Accept all
+          </Button>
+        </div>
+      </div>
+      {expanded && (
+        <div className="min-h-0 overflow-y-auto border-border border-t bg-background">
+          {hunks.map((hunk) => {
+            const { added, removed } = countChanges(hunk);
+            const preview = hunk.lines.slice(0, MAX_PREVIEW_LINES);
+            return (
+              <div
+                key={hunk.id}
+                className="border-border border-b last:border-b-0"
+              >
+                <div className="flex items-center justify-between gap-2 px-3 py-1">
+                  <div className="flex min-w-0 items-center gap-2 text-muted-foreground">
+                    <span className="truncate">{hunkLabel(hunk)}</span>
+                    {added > 0 && (
+                      <span className="text-success-foreground">+{added}</span>
+                    )}
+                    {removed > 0 && (
+                      <span className="text-error-foreground">-{removed}</span>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      disabled={isResolving}
+                      onClick={() => void resolve('reject', [hunk.id])}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="xs"
+                      disabled={isResolving}
+                      onClick={() => void resolve('accept', [hunk.id])}
+                    >
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+                {preview.length > 0 && (
+                  <pre className="overflow-x-auto px-3 pb-1.5 font-mono text-2xs">
+                    {preview.map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          line.startsWith('+') && 'text-success-foreground',
+                          line.startsWith('-') && 'text-error-foreground',
+                          !line.startsWith('+') &&
+                            !line.startsWith('-') &&
+                            'text-muted-foreground',
+                        )}
+                      >
+                        {line}
+                      </div>
+                    ))}
+                    {hunk.lines.length > preview.length && (
+                      <div className="text-muted-foreground">
+                        … {hunk.lines.length - preview.length} more lines
+                      </div>
+                    )}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
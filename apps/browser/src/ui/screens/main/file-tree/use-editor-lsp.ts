@@ -0,0 +1,428 @@
+import type * as Monaco from 'monaco-editor';
+import { useMonaco } from '@monaco-editor/react';
+import { useEffect, useRef, useState } from 'react';
+import type {
+  EditorLspDiagnostic,
+  EditorLspPosition,
+  EditorLspRange,
+  KartonContract,
+} from '@shared/karton-contracts/ui';
+import {
+  useComparingSelector,
+  useKartonProcedure,
+  useKartonState,
+} from '@ui/hooks/use-karton';
+import { resolveWorkspaceFileLocation } from '@ui/utils/workspace-path';
+import {
+  areFileTreeWorkspaceMountsEqual,
+  getAllFileTreeWorkspaceMounts,
+  getFileTreeWorkspaceKey,
+} from './file-tree-utils';
+
+type MonacoApi = typeof Monaco;
+type MonacoEditorInstance = Monaco.editor.IStandaloneCodeEditor;
+type EditorLspProcedures =
+  KartonContract['serverProcedures']['toolbox']['editorLsp'];
+type EditorSelection = Monaco.IRange | Monaco.IPosition;
+
+/** Delay before the language servers get the content after an edit. */
+const SYNC_DEBOUNCE_MS = 300;
+
+const MARKER_OWNER = 'lsp';
+
+/** Monaco completion kind names, indexed by LSP `CompletionItemKind`. */
+const COMPLETION_KIND_NAMES: Array<
+  keyof typeof Monaco.languages.CompletionItemKind | undefined
+> = [
+  undefined,
+  'Text',
+  'Method',
+  'Function',
+  'Constructor',
+  'Field',
+  'Variable',
+  'Class',
+  'Interface',
+  'Module',
+  'Property',
+  'Unit',
+  'Value',
+  'Enum',
+  'Keyword',
+  'Snippet',
+  'Color',
+  'File',
+  'Reference',
+  'Folder',
+  'EnumMember',
+  'Constant',
+  'Struct',
+  'Event',
+  'Operator',
+  'TypeParameter',
+];
+
+type EditorLspDocument = {
+  absolutePath: string;
+  editor: MonacoEditorInstance;
+  procedures: EditorLspProcedures;
+  /** Resolves to false when no language server handles the file. */
+  ready: Promise<boolean>;
+  /** Sends pending edits, so positions match the servers' copy. */
+  flush: () => Promise<void>;
+  openLocation: (absolutePath: string, selection?: EditorSelection) => void;
+};
+
+// Models served by the language servers, keyed by model URI. Monaco's
+// providers are global, so they look up the document of the model here.
+const documents = new Map<string, EditorLspDocument>();
+
+// Selection to reveal once the editor of a file opened by "go to
+// definition" mounts, keyed by absolute path.
+const pendingReveals = new Map<string, EditorSelection>();
+
+/**
+ * Takes the selection "go to definition" wants revealed in a newly opened
+ * file, if any. Editors call this on mount instead of restoring their last
+ * scroll position.
+ */
+export function takePendingEditorReveal(
+  absolutePath: string | undefined,
+): EditorSelection | undefined {
+  if (!absolutePath) return undefined;
+  const selection = pendingReveals.get(absolutePath);
+  pendingReveals.delete(absolutePath);
+  return selection;
+}
+
+export function revealEditorSelection(
+  editor: MonacoEditorInstance,
+  selection: EditorSelection,
+) {
+  if ('startLineNumber' in selection) {
+    editor.setSelection(selection);
+    editor.revealRangeInCenter(selection);
+  } else {
+    editor.setPosition(selection);
+    editor.revealPositionInCenter(selection);
+  }
+}
+
+function findDocumentByPath(absolutePath: string) {
+  const uri = Array.from(documents.keys()).find(
+    (key) => documents.get(key)?.absolutePath === absolutePath,
+  );
+  const document = uri ? documents.get(uri) : undefined;
+  return uri && document ? { uri, document } : undefined;
+}
+
+/** The document of a model, once its language servers are ready. */
+async function getReadyDocument(model: Monaco.editor.ITextModel) {
+  const document = documents.get(model.uri.toString());
+  if (!document || !(await document.ready)) return undefined;
+  await document.flush();
+  return document;
+}
+
+const toLspPosition = (position: Monaco.IPosition): EditorLspPosition => ({
+  line: position.lineNumber - 1,
+  character: position.column - 1,
+});
+
+const toLspRange = (range: Monaco.IRange): EditorLspRange => ({
+  start: { line: range.startLineNumber - 1, character: range.startColumn - 1 },
+  end: { line: range.endLineNumber - 1, character: range.endColumn - 1 },
+});
+
+const toMonacoRange = (range: EditorLspRange): Monaco.IRange => ({
+  startLineNumber: range.start.line + 1,
+  startColumn: range.start.character + 1,
+  endLineNumber: range.end.line + 1,
+  endColumn: range.end.character + 1,
+});
+
+function toMarker(
+  monaco: MonacoApi,
+  diagnostic: EditorLspDiagnostic,
+): Monaco.editor.IMarkerData {
+  const severity = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+    hint: monaco.MarkerSeverity.Hint,
+  }[diagnostic.severity];
+  return {
+    ...toMonacoRange(diagnostic.range),
+    severity,
+    message: diagnostic.message,
+    source: diagnostic.source,
+    code: diagnostic.code,
+  };
+}
+
+// Providers are registered once for every language and answer only for
+// models of open documents, so other editors (diffs, SVG source) are left
+// alone.
+let editorLspProvidersRegistered = false;
+function registerEditorLspProviders(monaco: MonacoApi) {
+  if (editorLspProvidersRegistered) return;
+  editorLspProvidersRegistered = true;
+
+  monaco.languages.registerHoverProvider('*', {
+    provideHover: async (model, position) => {
+      const document = await getReadyDocument(model);
+      if (!document) return null;
+      const hover = await document.procedures
+        .hover(document.absolutePath, toLspPosition(position))
+        .catch(() => null);
+      if (!hover) return null;
+      return {
+        contents: hover.contents.map((value) => ({ value })),
+        range: hover.range ? toMonacoRange(hover.range) : undefined,
+      };
+    },
+  });
+
+  monaco.languages.registerDefinitionProvider('*', {
+    provideDefinition: async (model, position) => {
+      const document = await getReadyDocument(model);
+      if (!document) return null;
+      const locations = await document.procedures
+        .definition(document.absolutePath, toLspPosition(position))
+        .catch(() => []);
+      return locations.map((location) => {
+        // Other files are opened through the editor opener below
+        const open = findDocumentByPath(location.absolutePath);
+        return {
+          uri: open
+            ? monaco.Uri.parse(open.uri)
+            : monaco.Uri.file(location.absolutePath),
+          range: toMonacoRange(location.range),
+        };
+      });
+    },
+  });
+
+  monaco.languages.registerCompletionItemProvider('*', {
+    triggerCharacters: ['.', '"', "'", '`', '/', '@', '<', '#'],
+    provideCompletionItems: async (model, position) => {
+      const document = await getReadyDocument(model);
+      if (!document) return null;
+      const list = await document.procedures
+        .completion(document.absolutePath, toLspPosition(position))
+        .catch(() => null);
+      if (!list) return null;
+      const word = model.getWordUntilPosition(position);
+      const wordRange = {
+        startLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endLineNumber: position.lineNumber,
+        endColumn: word.endColumn,
+      };
+      return {
+        incomplete: list.isIncomplete,
+        suggestions: list.items.map((item) => {
+          const kindName =
+            item.kind !== undefined ? COMPLETION_KIND_NAMES[item.kind] : null;
+          return {
+            label: item.label,
+            kind: monaco.languages.CompletionItemKind[kindName ?? 'Text'],
+            detail: item.detail,
+            documentation: item.documentation
+              ? { value: item.documentation }
+              : undefined,
+            insertText: item.insertText,
+            insertTextRules: item.isSnippet
+              ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
+              : undefined,
+            range: item.range ? toMonacoRange(item.range) : wordRange,
+            sortText: item.sortText,
+            filterText: item.filterText,
+            additionalTextEdits: item.additionalTextEdits?.map((edit) => ({
+              range: toMonacoRange(edit.range),
+              text: edit.newText,
+            })),
+          };
+        }),
+      };
+    },
+  });
+
+  monaco.languages.registerCodeActionProvider('*', {
+    provideCodeActions: async (model, range, context) => {
+      const document = await getReadyDocument(model);
+      if (
+        !document ||
+        document.editor.getOption(monaco.editor.EditorOption.readOnly)
+      ) {
+        return null;
+      }
+      const actions = await document.procedures
+        .codeActions(document.absolutePath, toLspRange(range))
+        .catch(() => []);
+      const versionId = model.getVersionId();
+      return {
+        actions: actions.map((action) => ({
+          title: action.title,
+          kind: action.kind,
+          isPreferred: action.isPreferred,
+          diagnostics: context.markers,
+          edit: {
+            edits: action.edits.map((edit) => ({
+              resource: model.uri,
+              versionId,
+              textEdit: {
+                range: toMonacoRange(edit.range),
+                text: edit.newText,
+              },
+            })),
+          },
+        })),
+        dispose: () => {},
+      };
+    },
+  });
+
+  monaco.editor.registerEditorOpener({
+    openCodeEditor: (source, resource, selectionOrPosition) => {
+      const sourceUri = source.getModel()?.uri.toString();
+      const document = sourceUri ? documents.get(sourceUri) : undefined;
+      if (!document || resource.toString() === sourceUri) return false;
+      const absolutePath =
+        documents.get(resource.toString())?.absolutePath ??
+        (resource.scheme === 'file' ? resource.fsPath : undefined);
+      if (!absolutePath) return false;
+      document.openLocation(absolutePath, selectionOrPosition);
+      return true;
+    },
+  });
+}
+
+/**
+ * Connects a source editor to the backend language servers of its file:
+ * keeps the servers' copy in sync with the editor, shows their diagnostics
+ * as markers and serves hover, go to definition, completion and quick fixes.
+ */
+export function useEditorLsp({
+  editor,
+  absolutePath,
+  tabId,
+}: {
+  editor: MonacoEditorInstance | null;
+  absolutePath: string | undefined;
+  tabId: string;
+}) {
+  const monaco = useMonaco();
+  const [model, setModel] = useState<Monaco.editor.ITextModel | null>(null);
+
+  // Procedures are proxies that call the backend by name, so any render's
+  // instance can be kept.
+  const procedures = useKartonProcedure((p) => p.toolbox.editorLsp);
+  const proceduresRef = useRef(procedures);
+  proceduresRef.current = procedures;
+
+  const openFileTab = useKartonProcedure((p) => p.fileTree.openFileTab);
+  const agentInstanceId = useKartonState(
+    (s) => s.contentTabs.tabs[tabId]?.agentInstanceId ?? null,
+  );
+  const mounts = useKartonState(
+    useComparingSelector(
+      (s) => getAllFileTreeWorkspaceMounts(s),
+      areFileTreeWorkspaceMountsEqual,
+    ),
+  );
+  const diagnostics = useKartonState((s) =>
+    absolutePath ? s.editorLsp.diagnostics[absolutePath] : undefined,
+  );
+
+  const openLocationRef = useRef<EditorLspDocument['openLocation']>(() => {});
+  openLocationRef.current = (targetPath, selection) => {
+    const location = resolveWorkspaceFileLocation(targetPath, mounts);
+    if (!location) return;
+    if (selection) pendingReveals.set(targetPath, selection);
+    void openFileTab(
+      getFileTreeWorkspaceKey(location.mount),
+      location.relativePath,
+      agentInstanceId,
+    ).then(() => {
+      // Tabs that were already open don't remount their editor
+      const open = findDocumentByPath(targetPath);
+      const pending = takePendingEditorReveal(targetPath);
+      if (open && pending) revealEditorSelection(open.document.editor, pending);
+    });
+  };
+
+  useEffect(() => {
+    if (!monaco) return;
+    registerEditorLspProviders(monaco);
+  }, [monaco]);
+
+  useEffect(() => {
+    if (!editor) return;
+    setModel(editor.getModel());
+    const disposable = editor.onDidChangeModel(() =>
+      setModel(editor.getModel()),
+    );
+    return () => disposable.dispose();
+  }, [editor]);
+
+  useEffect(() => {
+    if (!editor || !model || !absolutePath) return;
+    const uri = model.uri.toString();
+    const procedures = proceduresRef.current;
+    const ready = procedures
+      .openFile(absolutePath, model.getValue())
+      .catch(() => false);
+
+    let syncTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastSync: Promise<void> = Promise.resolve();
+    const sync = () => {
+      if (syncTimer !== null) clearTimeout(syncTimer);
+      syncTimer = null;
+      const content = model.getValue();
+      lastSync = ready
+        .then((ok) =>
+          ok ? procedures.updateFile(absolutePath, content) : undefined,
+        )
+        .catch(() => {});
+      return lastSync;
+    };
+
+    documents.set(uri, {
+      absolutePath,
+      editor,
+      procedures,
+      ready,
+      flush: () => (syncTimer !== null ? sync() : lastSync),
+      openLocation: (targetPath, selection) =>
+        openLocationRef.current(targetPath, selection),
+    });
+    const disposable = model.onDidChangeContent(() => {
+      if (syncTimer !== null) clearTimeout(syncTimer);
+      syncTimer = setTimeout(sync, SYNC_DEBOUNCE_MS);
+    });
+
+    return () => {
+      disposable.dispose();
+      if (syncTimer !== null) clearTimeout(syncTimer);
+      if (documents.get(uri)?.editor === editor) documents.delete(uri);
+      void ready.then((ok) =>
+        ok ? procedures.closeFile(absolutePath).catch(() => {}) : undefined,
+      );
+    };
+  }, [editor, model, absolutePath]);
+
+  useEffect(() => {
+    if (!monaco || !model || model.isDisposed()) return;
+    monaco.editor.setModelMarkers(
+      model,
+      MARKER_OWNER,
+      (diagnostics ?? []).map((diagnostic) => toMarker(monaco, diagnostic)),
+    );
+    return () => {
+      if (!model.isDisposed()) {
+        monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      }
+    };
+  }, [monaco, model, diagnostics]);
+}
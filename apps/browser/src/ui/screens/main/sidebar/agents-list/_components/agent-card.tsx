@@ -15,6 +15,7 @@ import { getAgentStateSeverity } from '../../../_lib/agent-list-model';
 import {
   IconPinTackOutline18,
   IconPinTackSlashOutline18,
+  IconRefreshAnticlockwiseOutline18,
 } from '@stagewise/icons';
 import { useInlineTitleEdit } from '../../../_lib/use-inline-title-edit';
 
@@ -52,6 +53,8 @@ export interface AgentCardProps {
   onRename: (id: string, newTitle: string) => void;
   isPinned?: boolean;
   onTogglePinned?: (id: string) => void;
+  /** Name of the agent trigger that started the chat, if any. */
+  triggerName?: string | null;
   /** Optional hover/pointer callbacks — used by `AgentCardWithPreview` to
    *  drive the hover-preview without introducing a wrapping element that
    *  would disrupt the parent grid layout. */
@@ -90,6 +93,7 @@ export const AgentCard = memo(
       onRename,
       isPinned = false,
       onTogglePinned,
+      triggerName,
       onMouseEnter,
       onMouseLeave,
       onMouseDown,
@@ -209,6 +213,24 @@ export const AgentCard = memo(
             </Tooltip>
           ) : null}
         </div>
+        {triggerName ? (
+          <Tooltip>
+            <TooltipTrigger
+              render={
+                <span
+                  role="img"
+                  aria-label={`Started by trigger ${triggerName}`}
+                  className="flex shrink-0 items-center text-muted-foreground/60"
+                >
+                  <IconRefreshAnticlockwiseOutline18 className="size-3" />
+                </span>
+              }
+            />
+            <TooltipContent side="bottom">
+              Started by trigger “{triggerName}”
+            </TooltipContent>
+          </Tooltip>
+        ) : null}
         <div className="mask-alpha mask-l-from-black mask-l-to-black group-hover/card:mask-l-from-transparent mask-l-from-12 mask-l-to-18 min-w-0 flex-1">
           {isEditing ? (
             <span
@@ -302,6 +324,7 @@ export const AgentCard = memo(
     prev.activityIsUserInput === next.activityIsUserInput &&
     prev.lastMessageAt === next.lastMessageAt &&
     prev.isPinned === next.isPinned &&
+    prev.triggerName === next.triggerName &&
     prev.onTogglePinned === next.onTogglePinned &&
     prev.onMouseEnter === next.onMouseEnter &&
     prev.onMouseLeave === next.onMouseLeave &&
@@ -12,7 +12,18 @@ const TOOL_LABELS: Record<string, string> = {
   'tool-getLintingDiagnostics': 'Checking lint',
   'tool-searchInLibraryDocs': 'Searching docs',
   'tool-listLibraryDocs': 'Looking up docs',
+  'tool-searchChatHistory': 'Searching past chats',
   'tool-askUserQuestions': 'Asking questions',
+  'tool-gitLog': 'Reading git history',
+  'tool-gitBlame': 'Reading git blame',
+  'tool-gitStage': 'Staging changes',
+  'tool-gitCommit': 'Committing',
+  'tool-gitStash': 'Stashing changes',
+  'tool-goToDefinition': 'Finding definition',
+  'tool-findReferences': 'Finding references',
+  'tool-searchWorkspaceSymbols': 'Searching symbols',
+  'tool-getHoverInfo': 'Reading type info',
+  'tool-renameSymbol': 'Renaming symbol',
 };
 
 export function getToolActivityLabel(toolPartType: string): string {
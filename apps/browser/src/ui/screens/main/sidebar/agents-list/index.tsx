@@ -155,7 +155,8 @@ function agentHistoryEntriesEqual(
       ai.lastMessageAt !== bi.lastMessageAt ||
       ai.messageCount !== bi.messageCount ||
       ai.parentAgentInstanceId !== bi.parentAgentInstanceId ||
-      ai.unread !== bi.unread
+      ai.unread !== bi.unread ||
+      ai.triggerRun?.triggerId !== bi.triggerRun?.triggerId
     )
       return false;
   }
@@ -440,6 +441,7 @@ function SortablePinnedAgentCard({
         onRename={onRename}
         isPinned
         onTogglePinned={onTogglePinned}
+        triggerName={agent.triggerName}
         cache={cache}
         isLiveAgent={agent.isLive}
       />
@@ -2184,6 +2186,7 @@ export function AgentsList() {
           onRename={handleRename}
           isPinned={pinnedAgentIdSet.has(agent.id)}
           onTogglePinned={handleTogglePinned}
+          triggerName={agent.triggerName}
           cache={previewCacheRef.current}
           isLiveAgent={agent.isLive}
         />
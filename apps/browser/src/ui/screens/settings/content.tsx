@@ -5,6 +5,7 @@ import { CustomProvidersSection } from './sections/custom-providers-section';
 import { GeneralSettingsSection } from './sections/general-settings-section';
 import { SkillsContextSection } from './sections/skills-context-section';
 import { PluginsSection } from './sections/plugins-section';
+import { McpServersSection } from './sections/mcp-servers-section';
 import { BrowsingSettingsSection } from './sections/browsing-settings-section';
 import { PersonalizationSettingsSection } from './sections/personalization-settings-section';
 import { WebsitePermissionsSection } from './sections/website-permissions-section';
@@ -32,6 +33,8 @@ export function SettingsContent() {
       return <WorktreeSetupSection />;
     case 'plugins':
       return <PluginsSection />;
+    case 'mcp-servers':
+      return <McpServersSection />;
     case 'personalization':
       return <PersonalizationSettingsSection />;
     case 'browsing':
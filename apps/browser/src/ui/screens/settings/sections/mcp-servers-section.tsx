@@ -0,0 +1,393 @@
+import { OverlayScrollbar } from '@stagewise/stage-ui/components/overlay-scrollbar';
+import { Switch } from '@stagewise/stage-ui/components/switch';
+import { Input } from '@stagewise/stage-ui/components/input';
+import { Button } from '@stagewise/stage-ui/components/button';
+import { useKartonState, useKartonProcedure } from '@ui/hooks/use-karton';
+import { useCallback, useMemo, useState } from 'react';
+import { cn } from '@ui/utils';
+import { produceWithPatches, enablePatches } from 'immer';
+import {
+  MCP_WORKSPACE_CONFIG_RELATIVE_PATH,
+  mcpServerConfigSchema,
+  mcpServerNameSchema,
+  type McpServerStatus,
+} from '@shared/mcp-servers';
+
+enablePatches();
+
+const STATE_LABELS: Record<McpServerStatus['state'], string> = {
+  connecting: 'Connecting',
+  connected: 'Connected',
+  failed: 'Failed',
+  disabled: 'Disabled',
+  untrusted: 'Not trusted',
+};
+
+function StateBadge({ state }: { state: McpServerStatus['state'] }) {
+  return (
+    <span
+      className={cn(
+        'shrink-0 rounded-full px-1.5 py-0.5 text-2xs',
+        state === 'connected' &&
+          'bg-success-background text-success-foreground',
+        state === 'failed' && 'bg-error-background text-error-foreground',
+        state !== 'connected' &&
+          state !== 'failed' &&
+          'bg-surface-2 text-muted-foreground',
+      )}
+    >
+      {STATE_LABELS[state]}
+    </span>
+  );
+}
+
+function McpServerCard({
+  status,
+  isOn,
+  toggleLabel,
+  askBeforeCalls,
+  onToggle,
+  onToggleAsk,
+  onReconnect,
+  onRemove,
+}: {
+  status: McpServerStatus;
+  isOn: boolean;
+  toggleLabel: string;
+  /** `null` when the approval is declared by the workspace. */
+  askBeforeCalls: boolean | null;
+  onToggle: () => void;
+  onToggleAsk?: () => void;
+  onReconnect: () => void;
+  onRemove: (() => void) | null;
+}) {
+  const [showTools, setShowTools] = useState(false);
+  const toggleId = `mcp-toggle-${status.key}`;
+  const askId = `mcp-ask-${status.key}`;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-derived bg-surface-1 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <h3 className="truncate font-medium text-foreground text-sm">
+            {status.name}
+          </h3>
+          <span className="shrink-0 text-subtle-foreground text-xs">
+            {status.transport === 'http' ? 'HTTP' : 'stdio'}
+          </span>
+          <StateBadge state={status.state} />
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <label htmlFor={toggleId} className="text-muted-foreground text-xs">
+            {toggleLabel}
+          </label>
+          <Switch
+            id={toggleId}
+            checked={isOn}
+            onCheckedChange={() => onToggle()}
+            size="sm"
+          />
+        </div>
+      </div>
+      {status.error && (
+        <pre className="max-h-24 overflow-auto whitespace-pre-wrap font-mono text-2xs text-error-foreground">
+          {status.error}
+        </pre>
+      )}
+      <div className="flex flex-wrap items-center gap-1">
+        {status.tools.length > 0 && (
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => setShowTools((show) => !show)}
+          >
+            {status.tools.length} {status.tools.length === 1 ? 'tool' : 'tools'}
+          </Button>
+        )}
+        {askBeforeCalls !== null && (
+          <div className="flex items-center gap-1.5 px-2">
+            <Switch
+              id={askId}
+              checked={askBeforeCalls}
+              onCheckedChange={() => onToggleAsk?.()}
+              size="sm"
+            />
+            <label htmlFor={askId} className="text-muted-foreground text-xs">
+              Ask before calls in smart mode
+            </label>
+          </div>
+        )}
+        <div className="flex-1" />
+        {(status.state === 'failed' || status.state === 'connected') && (
+          <Button variant="ghost" size="xs" onClick={onReconnect}>
+            Reconnect
+          </Button>
+        )}
+        {onRemove && (
+          <Button variant="ghost" size="xs" onClick={onRemove}>
+            Remove
+          </Button>
+        )}
+      </div>
+      {showTools && (
+        <ul className="space-y-1 border-derived border-t pt-2">
+          {status.tools.map((tool) => (
+            <li key={tool.name} className="text-xs">
+              <span className="font-mono text-foreground">{tool.name}</span>
+              {tool.description && (
+                <span className="ml-2 line-clamp-1 text-muted-foreground">
+                  {tool.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Parses the add form: a URL declares an HTTP server, anything else a
+ * command line split on whitespace.
+ */
+function parseServerInput(input: string) {
+  const trimmed = input.trim();
+  if (/^https?:\/\//.test(trimmed)) {
+    return mcpServerConfigSchema.safeParse({ type: 'http', url: trimmed });
+  }
+  const [command, ...args] = trimmed.split(/\s+/);
+  return mcpServerConfigSchema.safeParse({ type: 'stdio', command, args });
+}
+
+function AddMcpServerForm({
+  existingNames,
+  onAdd,
+}: {
+  existingNames: Set<string>;
+  onAdd: (
+    name: string,
+    config: NonNullable<ReturnType<typeof parseServerInput>['data']>,
+  ) => Promise<void>;
+}) {
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = useCallback(async () => {
+    const parsedName = mcpServerNameSchema.safeParse(name.trim());
+    if (!parsedName.success) {
+      setError(parsedName.error.issues[0]?.message ?? 'Invalid name');
+      return;
+    }
+    if (existingNames.has(parsedName.data)) {
+      setError(`A server named ${parsedName.data} already exists`);
+      return;
+    }
+    const parsedConfig = parseServerInput(target);
+    if (!parsedConfig.success) {
+      setError('Enter a command or an http(s) URL');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onAdd(parsedName.data, parsedConfig.data);
+      setName('');
+      setTarget('');
+      setError(null);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [name, target, existingNames, onAdd]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1.5">
+        <Input
+          value={name}
+          placeholder="Name"
+          onValueChange={(value) => {
+            setName(value);
+            setError(null);
+          }}
+          disabled={isSaving}
+          size="sm"
+          className="w-36 shrink-0"
+        />
+        <Input
+          value={target}
+          placeholder="npx -y @modelcontextprotocol/server-github or https://…"
+          onValueChange={(value) => {
+            setTarget(value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handleAdd();
+          }}
+          disabled={isSaving}
+          size="sm"
+          style={{ maxWidth: 'none' }}
+          className="min-w-0 flex-1"
+        />
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => void handleAdd()}
+          disabled={isSaving || !name.trim() || !target.trim()}
+        >
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-error-foreground text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export function McpServersSection() {
+  const preferences = useKartonState((s) => s.preferences);
+  const statuses = useKartonState((s) => s.mcpServers);
+  const updatePreferences = useKartonProcedure((p) => p.preferences.update);
+  const reconnectServer = useKartonProcedure(
+    (p) => p.toolbox.reconnectMcpServer,
+  );
+
+  const userServers = preferences?.agent.mcp.servers ?? {};
+  const trustedWorkspaceServers =
+    preferences?.agent.mcp.trustedWorkspaceServers ?? {};
+
+  const userStatuses = useMemo(
+    () => statuses.filter((status) => status.source === 'user'),
+    [statuses],
+  );
+  const workspaceStatuses = useMemo(
+    () => statuses.filter((status) => status.source === 'workspace'),
+    [statuses],
+  );
+
+  const updateMcp = useCallback(
+    async (
+      recipe: (mcp: NonNullable<typeof preferences>['agent']['mcp']) => void,
+    ) => {
+      const [, patches] = produceWithPatches(preferences, (draft) => {
+        recipe(draft.agent.mcp);
+      });
+      await updatePreferences(patches);
+    },
+    [preferences, updatePreferences],
+  );
+
+  const isTrusted = (status: McpServerStatus) =>
+    status.configHash !== null &&
+    trustedWorkspaceServers[status.workspacePath!]?.[status.name] ===
+      status.configHash;
+
+  // Trust is stored with the hash of the config shown, so a later change to
+  // the workspace's config is not started until it is trusted again
+  const toggleTrust = (status: McpServerStatus) =>
+    updateMcp((mcp) => {
+      const path = status.workspacePath!;
+      const trusted = { ...mcp.trustedWorkspaceServers[path] };
+      if (isTrusted(status)) delete trusted[status.name];
+      else trusted[status.name] = status.configHash!;
+      if (Object.keys(trusted).length === 0) {
+        delete mcp.trustedWorkspaceServers[path];
+      } else {
+        mcp.trustedWorkspaceServers[path] = trusted;
+      }
+    });
+
+  return (
+    <div className="h-full w-full">
+      <OverlayScrollbar className="h-full" contentClassName="px-6 pt-24 pb-24">
+        <div className="mx-auto max-w-3xl space-y-8">
+          <div>
+            <h1 className="font-semibold text-foreground text-xl">
+              MCP servers
+            </h1>
+            <p className="text-muted-foreground text-sm">
+              Give the agent the tools of MCP servers. Servers you add here are
+              available in every workspace; workspaces can declare their own in{' '}
+              <code className="font-mono">
+                {MCP_WORKSPACE_CONFIG_RELATIVE_PATH}
+              </code>
+              .
+            </p>
+          </div>
+
+          <section className="space-y-3">
+            <div className="text-muted-foreground text-xs">Your servers</div>
+            {userStatuses.map((status) => {
+              const config = userServers[status.name];
+              if (!config) return null;
+              return (
+                <McpServerCard
+                  key={status.key}
+                  status={status}
+                  isOn={config.enabled}
+                  toggleLabel="Enabled"
+                  askBeforeCalls={config.defaultToolApproval === 'ask'}
+                  onToggle={() =>
+                    updateMcp((mcp) => {
+                      mcp.servers[status.name]!.enabled = !config.enabled;
+                    })
+                  }
+                  onToggleAsk={() =>
+                    updateMcp((mcp) => {
+                      mcp.servers[status.name]!.defaultToolApproval =
+                        config.defaultToolApproval === 'ask' ? 'allow' : 'ask';
+                    })
+                  }
+                  onReconnect={() => void reconnectServer(status.key)}
+                  onRemove={() =>
+                    updateMcp((mcp) => {
+                      delete mcp.servers[status.name];
+                    })
+                  }
+                />
+              );
+            })}
+            <AddMcpServerForm
+              existingNames={new Set(Object.keys(userServers))}
+              onAdd={(name, config) =>
+                updateMcp((mcp) => {
+                  mcp.servers[name] = config;
+                })
+              }
+            />
+          </section>
+
+          {workspaceStatuses.length > 0 && (
+            <section className="space-y-3">
+              <div>
+                <div className="text-muted-foreground text-xs">
+                  Workspace servers
+                </div>
+                <p className="text-subtle-foreground text-xs">
+                  Workspace servers run commands from the repository, so they
+                  only start once you trust them.
+                </p>
+              </div>
+              {workspaceStatuses.map((status) => (
+                <div key={status.key} className="space-y-1">
+                  <div className="truncate font-mono text-2xs text-subtle-foreground">
+                    {status.workspacePath}
+                  </div>
+                  <McpServerCard
+                    status={status}
+                    isOn={isTrusted(status)}
+                    toggleLabel="Trusted"
+                    askBeforeCalls={null}
+                    onToggle={() => void toggleTrust(status)}
+                    onReconnect={() => void reconnectServer(status.key)}
+                    onRemove={null}
+                  />
+                </div>
+              ))}
+            </section>
+          )}
+        </div>
+      </OverlayScrollbar>
+    </div>
+  );
+}
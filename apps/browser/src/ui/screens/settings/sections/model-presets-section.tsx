@@ -40,6 +40,7 @@ import {
 import { resolveModelDisplay } from '@ui/screens/main/agent-chat/chat/_components/model-presets-shared';
 import { Button } from '@stagewise/stage-ui/components/button';
 import { Input } from '@stagewise/stage-ui/components/input';
+import { Select } from '@stagewise/stage-ui/components/select';
 import {
   Radio,
   RadioGroup,
@@ -804,6 +805,84 @@ function UtilityModelList({
   );
 }
 
+// ---------------------------------------------------------------------------
+// History Search Embedding Model
+// ---------------------------------------------------------------------------
+
+const DEFAULT_EMBEDDING_MODEL_ID = 'nomic-embed-text';
+
+function HistorySearchEmbeddingSetting() {
+  const preferences = useKartonState((s) => s.preferences);
+  const updatePreferences = useKartonProcedure((p) => p.preferences.update);
+
+  const selected = preferences.agent.utilityModels.historySearchEmbedding;
+
+  const instanceItems = useMemo(
+    () => [
+      { value: null, label: 'Off' },
+      ...preferences.providerInstances
+        .filter((instance) => instance.typeId === 'ollama')
+        .map((instance) => ({ value: instance.id, label: instance.name })),
+    ],
+    [preferences.providerInstances],
+  );
+
+  const update = useCallback(
+    (
+      next: UserPreferences['agent']['utilityModels']['historySearchEmbedding'],
+    ) => {
+      const [, patches] = produceWithPatches(preferences, (draft) => {
+        draft.agent.utilityModels.historySearchEmbedding = next;
+      });
+      void updatePreferences(patches);
+    },
+    [preferences, updatePreferences],
+  );
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h4 className="font-medium text-foreground text-sm">
+          Chat history search
+        </h4>
+        <p className="text-muted-foreground text-xs">
+          A local Ollama embedding model lets the agent find earlier chats by
+          meaning, not just matching words.
+          {instanceItems.length === 1 &&
+            ' Add an Ollama provider to choose one.'}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select<string | null>
+          value={selected?.providerInstanceId ?? null}
+          onValueChange={(providerInstanceId) =>
+            update(
+              providerInstanceId
+                ? {
+                    providerInstanceId,
+                    modelId: selected?.modelId || DEFAULT_EMBEDDING_MODEL_ID,
+                  }
+                : null,
+            )
+          }
+          items={instanceItems}
+          size="md"
+          triggerClassName="w-48"
+        />
+        {selected && (
+          <Input
+            value={selected.modelId}
+            onValueChange={(modelId) => update({ ...selected, modelId })}
+            debounce={500}
+            placeholder={DEFAULT_EMBEDDING_MODEL_ID}
+            size="sm"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Preset Card
 // ---------------------------------------------------------------------------
@@ -1151,6 +1230,7 @@ export function ModelPresetsSection() {
             label="Context compression"
             description="Models used to compress conversation history."
           />
+          <HistorySearchEmbeddingSetting />
         </div>
       </section>
 
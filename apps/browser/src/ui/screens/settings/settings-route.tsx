@@ -12,6 +12,7 @@ import {
   InfoIcon,
   PaletteIcon,
   ArchiveIcon,
+  ServerIcon,
 } from 'lucide-react';
 import type { SettingsSection, SettingsRoute } from '@shared/settings-route';
 import { SETTINGS_SECTION_LABELS } from '@shared/settings-route';
@@ -55,6 +56,10 @@ export const SETTINGS_NAV_GROUPS: SettingsNavGroup[] = [
         section: 'plugins',
         icon: <PuzzleIcon className="size-4 shrink-0" />,
       },
+      {
+        section: 'mcp-servers',
+        icon: <ServerIcon className="size-4 shrink-0" />,
+      },
       {
         section: 'archived-agents',
         icon: <ArchiveIcon className="size-4 shrink-0" />,
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+import esbuild from 'esbuild';
+import { mkdirSync, rmSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+rmSync(resolve(__dirname, 'dist'), { recursive: true, force: true });
+mkdirSync(resolve(__dirname, 'dist'), { recursive: true });
+
+// Bundled (not plain `tsc`) because the CLI shares the model catalog and
+// provider types with the browser app via the `@shared/*` alias. Those
+// sources are inlined; every npm package stays external.
+console.log('Building @stagewise/stagewise-cli...');
+await esbuild.build({
+  entryPoints: { index: 'src/index.ts' },
+  bundle: true,
+  outdir: 'dist',
+  platform: 'node',
+  target: 'node18',
+  format: 'esm',
+  sourcemap: true,
+  packages: 'external',
+  tsconfig: 'tsconfig.json',
+  loader: { '.ts': 'ts' },
+});
+
+console.log('Build complete.');
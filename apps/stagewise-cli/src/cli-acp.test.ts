@@ -0,0 +1,259 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PassThrough, Readable, Writable } from 'node:stream';
+import {
+  client,
+  methods,
+  ndJsonStream,
+  PROTOCOL_VERSION,
+  type RequestPermissionRequest,
+  type SessionNotification,
+} from '@agentclientprotocol/sdk';
+import type { Logger } from '@stagewise/agent-core/host';
+import { afterEach, describe, expect, it } from 'vitest';
+import { runAcpAgent } from './cli-acp';
+import { cliApprovalPolicySchema } from './cli-approval-policy';
+import { loadCliConfig } from './cli-model-config';
+import { createCliRuntime } from './cli-runtime';
+
+const logger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const MODEL_ID = 'test-model';
+
+const cleanups: (() => void | Promise<void>)[] = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0).reverse()) await cleanup();
+});
+
+function tempDir() {
+  const dir = mkdtempSync(path.join(tmpdir(), 'stagewise-cli-'));
+  cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+async function readJson(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves an OpenAI-compatible chat completions endpoint that asks for a
+ * shell command while the agent offers the shell tools and has no tool
+ * result yet, and answers with text otherwise.
+ */
+async function startFakeModel() {
+  const requests: { messages: { role: string }[] }[] = [];
+  const server = createServer(async (req, res) => {
+    const body = await readJson(req);
+    requests.push(body);
+    const wantsCommand =
+      (body.tools ?? []).some(
+        (tool: { function: { name: string } }) =>
+          tool.function.name === 'executeShellCommand',
+      ) &&
+      !body.messages.some(
+        (message: { role: string }) => message.role === 'tool',
+      );
+    const message = wantsCommand
+      ? {
+          role: 'assistant',
+          tool_calls: [
+            {
+              index: 0,
+              id: 'call-1',
+              type: 'function',
+              function: {
+                name: 'executeShellCommand',
+                arguments: JSON.stringify({
+                  explanation: 'Remove build output',
+                  command: 'rm -rf dist',
+                  session_id: 'shell-1',
+                }),
+              },
+            },
+          ],
+        }
+      : { role: 'assistant', content: 'Left dist alone.' };
+    const finishReason = wantsCommand ? 'tool_calls' : 'stop';
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+    const base = { id: 'chatcmpl-1', created: 0, model: MODEL_ID };
+
+    if (!body.stream) {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          ...base,
+          object: 'chat.completion',
+          choices: [{ index: 0, message, finish_reason: finishReason }],
+          usage,
+        }),
+      );
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    const send = (data: unknown) =>
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    send({
+      ...base,
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta: message, finish_reason: null }],
+    });
+    send({
+      ...base,
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta: {}, finish_reason: finishReason }],
+      usage,
+    });
+    res.end('data: [DONE]\n\n');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  cleanups.push(
+    () => new Promise<void>((resolve) => server.close(() => resolve())),
+  );
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}/v1`, requests };
+}
+
+async function startAgent() {
+  const { baseUrl, requests } = await startFakeModel();
+  const policy = cliApprovalPolicySchema.parse({});
+  const runtime = await createCliRuntime({
+    sessionRoot: tempDir(),
+    config: loadCliConfig(undefined),
+    providerName: 'openai-compatible',
+    modelId: MODEL_ID,
+    baseUrl,
+    policy,
+    approvalMode: 'ask',
+    logger,
+  });
+  cleanups.push(() => runtime.teardown());
+
+  // One pipe per direction: the agent reads what the client writes.
+  const toAgent = new PassThrough();
+  const toClient = new PassThrough();
+  const served = runAcpAgent({
+    runtime,
+    policy,
+    approvalMode: 'ask',
+    modelId: MODEL_ID,
+    version: '0.0.0-test',
+    logger,
+    stdio: { input: toAgent, output: toClient },
+  });
+  const stream = ndJsonStream(
+    Writable.toWeb(toAgent) as WritableStream<Uint8Array>,
+    Readable.toWeb(toClient) as ReadableStream<Uint8Array>,
+  );
+  return { stream, served, requests, toAgent };
+}
+
+describe('runAcpAgent', () => {
+  it('runs a prompt turn and asks the client to approve the shell command', async () => {
+    const { stream, served, requests, toAgent } = await startAgent();
+    const cwd = tempDir();
+    const permissions: RequestPermissionRequest[] = [];
+    const updates: SessionNotification[] = [];
+
+    const app = client({ name: 'test-editor' })
+      .onRequest(
+        methods.client.session.requestPermission,
+        async ({ params }) => {
+          permissions.push(params);
+          // Answer slower than the turn polls for idleness, like a person
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          return { outcome: { outcome: 'selected', optionId: 'reject' } };
+        },
+      )
+      .onNotification(methods.client.session.update, ({ params }) => {
+        updates.push(params);
+      });
+
+    const { initialized, sessionId, response } = await app.connectWith(
+      stream,
+      async (ctx) => {
+        const initialized = await ctx.request(methods.agent.initialize, {
+          protocolVersion: PROTOCOL_VERSION,
+        });
+        const { sessionId } = await ctx.request(methods.agent.session.new, {
+          cwd,
+          mcpServers: [],
+        });
+        const response = await ctx.request(methods.agent.session.prompt, {
+          sessionId,
+          prompt: [{ type: 'text', text: 'Clean the build output' }],
+        });
+        return { initialized, sessionId, response };
+      },
+    );
+    toAgent.end();
+    await served;
+
+    expect(initialized).toMatchObject({
+      protocolVersion: PROTOCOL_VERSION,
+      agentCapabilities: { loadSession: true },
+      agentInfo: { name: 'stagewise', version: '0.0.0-test' },
+    });
+    expect(response).toEqual({ stopReason: 'end_turn' });
+
+    expect(permissions).toEqual([
+      {
+        sessionId,
+        toolCall: {
+          toolCallId: 'call-1',
+          title: 'executeShellCommand: rm -rf dist',
+          kind: 'execute',
+          status: 'pending',
+          rawInput: expect.objectContaining({ command: 'rm -rf dist' }),
+        },
+        options: [
+          { optionId: 'allow', name: 'Allow', kind: 'allow_once' },
+          { optionId: 'reject', name: 'Reject', kind: 'reject_once' },
+        ],
+      },
+    ]);
+
+    // The denied call is reported to the model, which then answers in text
+    const followUp = requests.at(-1);
+    expect(followUp?.messages.some((message) => message.role === 'tool')).toBe(
+      true,
+    );
+    expect(updates.every((update) => update.sessionId === sessionId)).toBe(
+      true,
+    );
+    const [toolCall, toolCallUpdate, ...chunks] = updates.map(
+      (update) => update.update,
+    );
+    expect(toolCall).toMatchObject({
+      sessionUpdate: 'tool_call',
+      toolCallId: 'call-1',
+      kind: 'execute',
+      status: 'in_progress',
+    });
+    expect(toolCallUpdate).toMatchObject({
+      sessionUpdate: 'tool_call_update',
+      toolCallId: 'call-1',
+      status: 'failed',
+    });
+    expect(
+      chunks
+        .map((chunk) =>
+          chunk?.sessionUpdate === 'agent_message_chunk' &&
+          chunk.content.type === 'text'
+            ? chunk.content.text
+            : '',
+        )
+        .join(''),
+    ).toBe('Left dist alone.');
+  });
+});
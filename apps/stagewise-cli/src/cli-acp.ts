@@ -0,0 +1,463 @@
+import { randomUUID } from 'node:crypto';
+import { Readable, Writable } from 'node:stream';
+import {
+  agent,
+  methods,
+  ndJsonStream,
+  PROTOCOL_VERSION,
+  RequestError,
+  type AgentContext,
+  type ContentBlock,
+  type PermissionOption,
+  type RequestPermissionRequest,
+  type SessionNotification,
+  type ToolCallContent,
+  type ToolKind,
+} from '@agentclientprotocol/sdk';
+import type { Logger } from '@stagewise/agent-core/host';
+import { AgentTypes } from '@stagewise/agent-core/types/agent';
+import type { AgentMessage } from '@stagewise/agent-core/types/agent';
+import {
+  type CliApprovalMode,
+  type CliApprovalPolicy,
+  evaluateToolApproval,
+} from './cli-approval-policy.js';
+import {
+  type CliApprovalRequest,
+  type CliApprovalResponse,
+  watchToolApprovals,
+} from './cli-approvals.js';
+import {
+  type CliHistoryEvent,
+  watchAgentHistory,
+} from './cli-history-events.js';
+import {
+  type CliRuntime,
+  TURN_TIMEOUT_MS,
+  createUserTextMessage,
+  waitUntilIdle,
+} from './cli-runtime.js';
+
+const TOOL_KINDS: Record<string, ToolKind> = {
+  read: 'read',
+  ls: 'read',
+  glob: 'search',
+  grepSearch: 'search',
+  write: 'edit',
+  multiEdit: 'edit',
+  mkdir: 'edit',
+  copy: 'edit',
+  delete: 'delete',
+  createShellSession: 'execute',
+  executeShellCommand: 'execute',
+};
+
+const PERMISSION_OPTIONS: PermissionOption[] = [
+  { optionId: 'allow', name: 'Allow', kind: 'allow_once' },
+  { optionId: 'reject', name: 'Reject', kind: 'reject_once' },
+];
+
+type LoosePart = {
+  type: string;
+  text?: string;
+  toolCallId?: string;
+  toolName?: string;
+  state?: string;
+  input?: unknown;
+  output?: unknown;
+  errorText?: string;
+};
+
+interface AcpSession {
+  /** The chat agent's instance id, which is also the ACP session id. */
+  instanceId: string;
+  /** Set by `session/cancel`, reported as the turn's stop reason. */
+  cancelled: boolean;
+  /** `session/update` notifications in the order they were produced. */
+  updates: Promise<void>;
+  dispose: () => void;
+}
+
+function toolTitle(toolName: string, input: unknown): string {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const subject = [fields.command, fields.path, fields.pattern, fields.query]
+    .map((value) => (typeof value === 'string' ? value : undefined))
+    .find(Boolean);
+  return subject ? `${toolName}: ${subject}` : toolName;
+}
+
+/**
+ * Flattens an ACP prompt into the text of one user message. Embedded
+ * resources are inlined; links are passed as their URI for the agent to
+ * read itself. Images and audio are not advertised and are dropped.
+ */
+function promptToText(prompt: ContentBlock[]): string {
+  const chunks: string[] = [];
+  for (const block of prompt) {
+    if (block.type === 'text') chunks.push(block.text);
+    else if (block.type === 'resource_link') chunks.push(block.uri);
+    else if (block.type === 'resource' && 'text' in block.resource) {
+      chunks.push(
+        `<file uri="${block.resource.uri}">\n${block.resource.text}\n</file>`,
+      );
+    }
+  }
+  return chunks.join('\n');
+}
+
+/**
+ * Serves the CLI's chat agent over stdio as an ACP (Agent Client
+ * Protocol) agent, so editors with ACP support can drive it. Resolves
+ * once the client closes the connection.
+ *
+ * Every ACP session is one chat agent whose instance id is the session
+ * id, so `session/load` maps onto `AgentManager.resumeAgent`:
+ * - history changes stream as `session/update` notifications;
+ * - tool approvals the policy leaves open become
+ *   `session/request_permission` requests, answered through
+ *   `agents.sendToolApprovalResponse` like the CLI's y/N prompt;
+ * - file edits are read from the diff history and attached to the
+ *   settled tool call as `diff` content.
+ */
+export async function runAcpAgent(deps: {
+  runtime: CliRuntime;
+  policy: CliApprovalPolicy;
+  approvalMode: CliApprovalMode;
+  modelId: string;
+  version: string;
+  logger: Logger;
+  /** Streams to serve over, the process' stdin/stdout by default. */
+  stdio?: { input: Readable; output: Writable };
+}): Promise<void> {
+  const { runtime, policy, approvalMode, logger } = deps;
+  const { store, registry, manager, persistence, toolboxPort } = runtime;
+  const sessions = new Map<string, AcpSession>();
+  let client!: AgentContext;
+
+  const enqueue = (
+    session: AcpSession,
+    task: () => Promise<SessionNotification>,
+  ) => {
+    session.updates = session.updates
+      .then(async () => {
+        await client.notify(methods.client.session.update, await task());
+      })
+      .catch((err: unknown) => logger.warn('[acp] session/update failed', err));
+  };
+
+  const toNotification = async (
+    sessionId: string,
+    event: CliHistoryEvent,
+  ): Promise<SessionNotification> => {
+    if (event.type === 'text-delta') {
+      return {
+        sessionId,
+        update: {
+          sessionUpdate: 'agent_message_chunk',
+          content: { type: 'text', text: event.text },
+        },
+      };
+    }
+    if (event.type === 'tool-call') {
+      return {
+        sessionId,
+        update: {
+          sessionUpdate: 'tool_call',
+          toolCallId: event.toolCallId,
+          title: toolTitle(event.toolName, event.input),
+          kind: TOOL_KINDS[event.toolName] ?? 'other',
+          status: 'in_progress',
+          rawInput: event.input,
+        },
+      };
+    }
+
+    const diffs = await persistence.diffHistory.getFileDiffsForToolCalls(
+      sessionId,
+      [event.toolCallId],
+    );
+    const content: ToolCallContent[] = diffs.flatMap((diff) =>
+      diff.isExternal
+        ? []
+        : [
+            {
+              type: 'diff' as const,
+              path: diff.path,
+              oldText: diff.baseline,
+              newText: diff.current ?? '',
+            },
+          ],
+    );
+    if (event.state === 'output-error' && event.errorText) {
+      content.push({
+        type: 'content',
+        content: { type: 'text', text: event.errorText },
+      });
+    }
+    return {
+      sessionId,
+      update: {
+        sessionUpdate: 'tool_call_update',
+        toolCallId: event.toolCallId,
+        status: event.state === 'output-available' ? 'completed' : 'failed',
+        ...(content.length > 0 ? { content } : {}),
+        ...(diffs.length > 0
+          ? { locations: diffs.map((diff) => ({ path: diff.path })) }
+          : {}),
+        rawOutput: event.output,
+      },
+    };
+  };
+
+  const decide =
+    (sessionId: string) =>
+    async (
+      request: CliApprovalRequest,
+      signal: AbortSignal,
+    ): Promise<CliApprovalResponse> => {
+      const verdict = evaluateToolApproval(
+        policy,
+        approvalMode,
+        request.toolName,
+        request.input,
+      );
+      if (verdict.decision === 'allow') return { approved: true };
+      if (verdict.decision === 'deny') {
+        return { approved: false, reason: verdict.reason };
+      }
+
+      const params: RequestPermissionRequest = {
+        sessionId,
+        toolCall: {
+          toolCallId: request.toolCallId,
+          title: toolTitle(request.toolName, request.input),
+          kind: TOOL_KINDS[request.toolName] ?? 'other',
+          status: 'pending',
+          rawInput: request.input,
+        },
+        options: PERMISSION_OPTIONS,
+      };
+      const { outcome } = await client.request(
+        methods.client.session.requestPermission,
+        params,
+        { cancellationSignal: signal },
+      );
+      if (outcome.outcome === 'selected' && outcome.optionId === 'allow') {
+        return { approved: true };
+      }
+      return {
+        approved: false,
+        reason:
+          outcome.outcome === 'cancelled'
+            ? 'The turn was cancelled.'
+            : 'The user denied this tool call.',
+      };
+    };
+
+  const openSession = (sessionId: string): AcpSession => {
+    const session: AcpSession = {
+      instanceId: sessionId,
+      cancelled: false,
+      updates: Promise.resolve(),
+      dispose: () => {},
+    };
+    const stopWatching = watchAgentHistory(store, sessionId, (event) =>
+      enqueue(session, () => toNotification(sessionId, event)),
+    );
+    const stopApprovals = watchToolApprovals({
+      store,
+      instanceId: sessionId,
+      decide: decide(sessionId),
+      respond: (approvalId, { approved, reason }) =>
+        registry.dispatch(
+          'agents.sendToolApprovalResponse',
+          { callerId: 'acp' },
+          [sessionId, approvalId, approved, reason],
+        ) as Promise<void>,
+      onError: (err) => logger.error('[acp] Failed to answer approval', err),
+    });
+    session.dispose = () => {
+      stopWatching();
+      stopApprovals();
+    };
+    sessions.set(sessionId, session);
+    return session;
+  };
+
+  const mountWorkspaces = async (
+    instanceId: string,
+    cwd: string,
+    additionalDirectories: string[] = [],
+  ) => {
+    for (const dir of [cwd, ...additionalDirectories]) {
+      await toolboxPort.handleMountWorkspace(instanceId, dir, []);
+    }
+    await manager.setToolApprovalMode(
+      instanceId,
+      approvalMode === 'allow' && !policy.shell ? 'alwaysAllow' : 'smart',
+    );
+  };
+
+  // `session/load` replays the conversation so the editor can show it.
+  const replayHistory = (session: AcpSession, history: AgentMessage[]) => {
+    const sessionId = session.instanceId;
+    for (const message of history) {
+      for (const part of message.parts as LoosePart[]) {
+        if (part.type === 'text' && part.text) {
+          const text = part.text;
+          enqueue(session, async () => ({
+            sessionId,
+            update: {
+              sessionUpdate:
+                message.role === 'user'
+                  ? 'user_message_chunk'
+                  : 'agent_message_chunk',
+              content: { type: 'text', text },
+            },
+          }));
+          continue;
+        }
+        const toolName =
+          part.type === 'dynamic-tool'
+            ? part.toolName
+            : part.type.startsWith('tool-')
+              ? part.type.slice('tool-'.length)
+              : undefined;
+        if (!toolName || !part.toolCallId) continue;
+        const toolCallId = part.toolCallId;
+        enqueue(session, async () => ({
+          sessionId,
+          update: {
+            sessionUpdate: 'tool_call',
+            toolCallId,
+            title: toolTitle(toolName, part.input),
+            kind: TOOL_KINDS[toolName] ?? 'other',
+            status:
+              part.state === 'output-available'
+                ? 'completed'
+                : part.state === 'output-error' ||
+                    part.state === 'output-denied'
+                  ? 'failed'
+                  : 'pending',
+            rawInput: part.input,
+            rawOutput: part.output,
+          },
+        }));
+      }
+    }
+  };
+
+  const requireSession = (sessionId: string): AcpSession => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      throw RequestError.invalidParams(
+        { sessionId },
+        `Unknown session ${sessionId}`,
+      );
+    }
+    return session;
+  };
+
+  const app = agent({ name: 'stagewise' })
+    .onRequest(methods.agent.initialize, () => ({
+      protocolVersion: PROTOCOL_VERSION,
+      agentCapabilities: {
+        loadSession: true,
+        promptCapabilities: { embeddedContext: true },
+      },
+      agentInfo: {
+        name: 'stagewise',
+        title: 'stagewise',
+        version: deps.version,
+      },
+      authMethods: [],
+    }))
+    .onRequest(methods.agent.authenticate, () => ({}))
+    .onRequest(methods.agent.session.new, async ({ params }) => {
+      const sessionId = randomUUID();
+      await manager.createAgent(
+        AgentTypes.CHAT,
+        undefined,
+        undefined,
+        { activeModelId: deps.modelId },
+        sessionId,
+        undefined,
+      );
+      await mountWorkspaces(
+        sessionId,
+        params.cwd,
+        params.additionalDirectories,
+      );
+      openSession(sessionId);
+      return { sessionId };
+    })
+    .onRequest(methods.agent.session.load, async ({ params }) => {
+      const { sessionId } = params;
+      if (!sessions.has(sessionId)) {
+        try {
+          await manager.resumeAgent(sessionId);
+        } catch {
+          throw RequestError.invalidParams(
+            { sessionId },
+            `Unknown session ${sessionId}`,
+          );
+        }
+        const mounts = store.get().toolbox[sessionId]?.workspace.mounts ?? [];
+        if (mounts.length === 0) {
+          await mountWorkspaces(
+            sessionId,
+            params.cwd,
+            params.additionalDirectories,
+          );
+        }
+        openSession(sessionId);
+      }
+      const session = requireSession(sessionId);
+      replayHistory(
+        session,
+        store.get().agents.instances[sessionId]?.state.history ?? [],
+      );
+      await session.updates;
+      return {};
+    })
+    .onRequest(methods.agent.session.prompt, async ({ params }) => {
+      const session = requireSession(params.sessionId);
+      session.cancelled = false;
+      await manager.sendUserMessage(
+        session.instanceId,
+        createUserTextMessage(promptToText(params.prompt)),
+      );
+      await waitUntilIdle(store, session.instanceId, TURN_TIMEOUT_MS);
+      // Deliver every update of the turn before its response
+      await session.updates;
+
+      if (session.cancelled) return { stopReason: 'cancelled' };
+      const error =
+        store.get().agents.instances[session.instanceId]?.state.error;
+      if (error) throw RequestError.internalError(error, error.message);
+      return { stopReason: 'end_turn' };
+    })
+    .onNotification(methods.agent.session.cancel, async ({ params }) => {
+      const session = sessions.get(params.sessionId);
+      if (!session) return;
+      session.cancelled = true;
+      await manager.stopAgent(session.instanceId);
+    });
+
+  const connection = app.connect(
+    ndJsonStream(
+      Writable.toWeb(
+        deps.stdio?.output ?? process.stdout,
+      ) as WritableStream<Uint8Array>,
+      Readable.toWeb(
+        deps.stdio?.input ?? process.stdin,
+      ) as ReadableStream<Uint8Array>,
+    ),
+  );
+  client = connection.client;
+  logger.info('[acp] Serving the chat agent over stdio');
+
+  await connection.closed;
+  for (const session of sessions.values()) session.dispose();
+  sessions.clear();
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type CliApprovalPolicy,
+  cliApprovalPolicySchema,
+  evaluateShellCommand,
+  evaluateToolApproval,
+} from './cli-approval-policy';
+
+const policy = (shell: CliApprovalPolicy['shell']): CliApprovalPolicy =>
+  cliApprovalPolicySchema.parse({ shell });
+
+describe('evaluateShellCommand', () => {
+  const lsPolicy = policy({ allow: ['ls*', 'git status'] });
+
+  it('allows commands whose every part matches an allow pattern', () => {
+    expect(evaluateShellCommand(lsPolicy, 'ls -la')).toEqual({
+      decision: 'allow',
+    });
+    expect(evaluateShellCommand(lsPolicy, 'ls && git status')).toEqual({
+      decision: 'allow',
+    });
+  });
+
+  it.each([
+    'ls & rm -rf ~',
+    'ls && rm -rf ~',
+    'ls || rm -rf ~',
+    'ls; rm -rf ~',
+    'ls | sh',
+    'ls\nrm -rf ~',
+  ])('asks for compound command %j', (command) => {
+    expect(evaluateShellCommand(lsPolicy, command)).toEqual({
+      decision: 'ask',
+    });
+  });
+
+  it.each([
+    'ls > ~/.bashrc',
+    'ls >> ~/.bashrc',
+    'ls 2>&1',
+    'ls < /etc/passwd',
+    'ls <<EOF',
+    'ls <(rm -rf ~)',
+    'ls >(sh)',
+    'ls $(rm -rf ~)',
+    'ls `rm -rf ~`',
+  ])('never allows %j by pattern', (command) => {
+    expect(evaluateShellCommand(lsPolicy, command)).toEqual({
+      decision: 'ask',
+    });
+  });
+
+  it('denies a command if any part matches a deny pattern', () => {
+    const denyPolicy = policy({ allow: ['ls*'], deny: ['rm *'] });
+    expect(evaluateShellCommand(denyPolicy, 'ls & rm -rf ~')).toMatchObject({
+      decision: 'deny',
+    });
+  });
+});
+
+describe('evaluateToolApproval', () => {
+  it('resolves commands the policy leaves open by the approval mode', () => {
+    const input = { command: 'ls > out.txt' };
+    const lsPolicy = policy({ allow: ['ls*'] });
+    expect(
+      evaluateToolApproval(lsPolicy, 'ask', 'executeShellCommand', input),
+    ).toEqual({ decision: 'ask' });
+    expect(
+      evaluateToolApproval(lsPolicy, 'deny', 'executeShellCommand', input),
+    ).toMatchObject({ decision: 'deny' });
+  });
+});
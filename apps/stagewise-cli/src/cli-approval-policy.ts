@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import {
+  type MountPermission,
+  mountPermissionSchema,
+} from '@stagewise/agent-core/types/metadata';
+
+/**
+ * How tool calls that need approval are resolved when the policy file
+ * neither allows nor denies them:
+ * - `allow` — run them (the CLI's historical behaviour).
+ * - `ask` — prompt on the terminal; falls back to `deny` without a TTY.
+ * - `deny` — refuse them, for unattended runs such as CI.
+ */
+export const cliApprovalModeSchema = z.enum(['allow', 'ask', 'deny']);
+export type CliApprovalMode = z.infer<typeof cliApprovalModeSchema>;
+
+const nameListSchema = z
+  .object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  })
+  .optional();
+
+export const cliApprovalPolicySchema = z.object({
+  /**
+   * Tool names offered to the agent. Without `allow` every tool is
+   * available; `deny` always wins.
+   */
+  tools: nameListSchema,
+  /**
+   * Shell command patterns. `*` matches any run of characters and a
+   * pattern must match the whole command. Compound commands (`a && b`,
+   * pipes, `;`, background `&`) are only allowed when every part matches
+   * an `allow` pattern, and denied when any part matches a `deny` pattern.
+   * Commands with redirections never match an `allow` pattern.
+   */
+  shell: nameListSchema,
+  /**
+   * Permissions of workspace mounts, keyed by workspace path (relative
+   * paths resolve against the policy file). `["read", "list"]` makes a
+   * mount read-only for the file tools.
+   */
+  mounts: z.record(z.string(), z.array(mountPermissionSchema)).default({}),
+});
+export type CliApprovalPolicy = z.infer<typeof cliApprovalPolicySchema>;
+
+export type CliApprovalVerdict =
+  | { decision: 'allow' }
+  | { decision: 'deny'; reason: string }
+  | { decision: 'ask' };
+
+export function loadApprovalPolicy(
+  policyPath: string | undefined,
+): CliApprovalPolicy {
+  if (!policyPath) return cliApprovalPolicySchema.parse({});
+
+  const resolved = path.resolve(policyPath);
+  if (!existsSync(resolved)) {
+    throw new Error(`Policy file not found: ${resolved}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(resolved, 'utf8'));
+  } catch (err) {
+    throw new Error(
+      `Failed to parse policy file ${resolved}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const parsed = cliApprovalPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const messages = parsed.error.issues
+      .map((i) => `${i.path.join('.')}: ${i.message}`)
+      .join('; ');
+    throw new Error(`Invalid policy file ${resolved}: ${messages}`);
+  }
+
+  const baseDir = path.dirname(resolved);
+  const mounts: Record<string, MountPermission[]> = {};
+  for (const [mountPath, permissions] of Object.entries(parsed.data.mounts)) {
+    mounts[path.resolve(baseDir, mountPath)] = permissions;
+  }
+  return { ...parsed.data, mounts };
+}
+
+export function isToolAllowed(
+  policy: CliApprovalPolicy,
+  toolName: string,
+): boolean {
+  if (policy.tools?.deny?.includes(toolName)) return false;
+  return policy.tools?.allow ? policy.tools.allow.includes(toolName) : true;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 's');
+}
+
+function findMatch(
+  patterns: string[] | undefined,
+  command: string,
+): string | undefined {
+  return patterns?.find((p) => patternToRegExp(p).test(command));
+}
+
+/** Splits a command line on `&&`, `||`, `;`, `|`, `&` and newlines. */
+function splitCompoundCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|&\r\n]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Matches what can run or write beyond the visible command parts: command
+ * substitution (`$(…)`, backticks), process substitution (`<(…)`, `>(…)`)
+ * and redirections (`>`, `>>`, `<`, heredocs). Quotes are not parsed, so
+ * quoted `<` and `>` count as well.
+ */
+const UNSAFE_SHELL_SYNTAX = /\$\(|`|[<>]/;
+
+/**
+ * Policy verdict for one shell command, before the approval mode is
+ * applied. Commands with substitutions or redirections never match an
+ * `allow` pattern since their effect is not visible in the command parts.
+ */
+export function evaluateShellCommand(
+  policy: CliApprovalPolicy,
+  command: string,
+): CliApprovalVerdict {
+  const trimmed = command.trim();
+  const parts = splitCompoundCommand(trimmed);
+
+  for (const part of [trimmed, ...parts]) {
+    const denied = findMatch(policy.shell?.deny, part);
+    if (denied) {
+      return {
+        decision: 'deny',
+        reason: `Command matches denied pattern "${denied}" in the approval policy.`,
+      };
+    }
+  }
+
+  if (
+    !UNSAFE_SHELL_SYNTAX.test(trimmed) &&
+    parts.length > 0 &&
+    parts.every((part) => findMatch(policy.shell?.allow, part))
+  ) {
+    return { decision: 'allow' };
+  }
+  return { decision: 'ask' };
+}
+
+/**
+ * Final verdict for a tool call that requested approval: the policy
+ * decides first, the approval mode resolves everything it leaves open.
+ * `ask` is returned only in `ask` mode and means "prompt the user".
+ */
+export function evaluateToolApproval(
+  policy: CliApprovalPolicy,
+  mode: CliApprovalMode,
+  toolName: string,
+  input: unknown,
+): CliApprovalVerdict {
+  const shellInput = input as
+    | { command?: string; stdin?: string; kill?: boolean }
+    | undefined;
+  const command = shellInput?.command ?? shellInput?.stdin;
+  const verdict =
+    toolName === 'executeShellCommand' && command
+      ? evaluateShellCommand(policy, command)
+      : ({ decision: 'ask' } as const);
+
+  if (verdict.decision !== 'ask') return verdict;
+  if (mode === 'allow') return { decision: 'allow' };
+  if (mode === 'deny') {
+    return {
+      decision: 'deny',
+      reason:
+        'Tool call needs approval and the CLI runs with --approval deny. Do not retry it; continue without it or explain what is needed.',
+    };
+  }
+  return verdict;
+}
@@ -0,0 +1,175 @@
+import type { AgentStore } from '@stagewise/agent-core';
+import {
+  type CliApprovalMode,
+  type CliApprovalPolicy,
+  evaluateToolApproval,
+} from './cli-approval-policy.js';
+
+export interface CliApprovalRequest {
+  approvalId: string;
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  /** Explanation recorded for the call in `pendingApprovals`, if any. */
+  explanation?: string;
+}
+
+export interface CliApprovalResponse {
+  approved: boolean;
+  reason?: string;
+}
+
+type LooseToolPart = {
+  type: string;
+  toolName?: string;
+  toolCallId?: string;
+  state?: string;
+  input?: unknown;
+  approval?: { id: string };
+};
+
+function getToolName(part: LooseToolPart): string | undefined {
+  if (part.type === 'dynamic-tool') return part.toolName;
+  if (part.type.startsWith('tool-')) return part.type.slice('tool-'.length);
+  return undefined;
+}
+
+/**
+ * Answers tool approvals of `instanceId` as they appear in the store.
+ *
+ * Requests are decided one at a time in the order they appear. When a
+ * request leaves `approval-requested` before it was decided (the turn was
+ * stopped or a new message flushed it), its `AbortSignal` fires so an open
+ * terminal prompt can be dismissed. Returns an unsubscribe function.
+ */
+export function watchToolApprovals(deps: {
+  store: AgentStore;
+  instanceId: string;
+  decide: (
+    request: CliApprovalRequest,
+    signal: AbortSignal,
+  ) => Promise<CliApprovalResponse>;
+  respond: (approvalId: string, response: CliApprovalResponse) => Promise<void>;
+  onError: (error: unknown) => void;
+}): () => void {
+  const { store, instanceId } = deps;
+  const seen = new Set<string>();
+  const open = new Map<string, AbortController>();
+  let queue: Promise<void> = Promise.resolve();
+
+  const collectPending = (): CliApprovalRequest[] => {
+    const state = store.get().agents.instances[instanceId]?.state;
+    if (!state) return [];
+    const requests: CliApprovalRequest[] = [];
+    for (const message of state.history) {
+      if (message.role !== 'assistant') continue;
+      for (const part of message.parts as LooseToolPart[]) {
+        const toolName = getToolName(part);
+        if (
+          !toolName ||
+          part.state !== 'approval-requested' ||
+          !part.approval ||
+          !part.toolCallId
+        ) {
+          continue;
+        }
+        requests.push({
+          approvalId: part.approval.id,
+          toolCallId: part.toolCallId,
+          toolName,
+          input: part.input,
+          explanation: state.pendingApprovals[part.toolCallId]?.explanation,
+        });
+      }
+    }
+    return requests;
+  };
+
+  const onChange = () => {
+    const pending = collectPending();
+    const pendingIds = new Set(pending.map((r) => r.approvalId));
+    for (const [approvalId, controller] of open) {
+      if (!pendingIds.has(approvalId)) {
+        controller.abort();
+        open.delete(approvalId);
+      }
+    }
+
+    // The agent drops approvals answered while the step that requested
+    // them is still streaming, so only answer once it has paused.
+    if (store.get().agents.instances[instanceId]?.state.isWorking) return;
+    for (const request of pending) {
+      if (seen.has(request.approvalId)) continue;
+      seen.add(request.approvalId);
+      const controller = new AbortController();
+      open.set(request.approvalId, controller);
+
+      queue = queue
+        .then(async () => {
+          if (controller.signal.aborted) return;
+          const response = await deps.decide(request, controller.signal);
+          if (controller.signal.aborted) return;
+          open.delete(request.approvalId);
+          await deps.respond(request.approvalId, response);
+        })
+        .catch((err: unknown) => {
+          open.delete(request.approvalId);
+          if (!controller.signal.aborted) deps.onError(err);
+        });
+    }
+  };
+
+  const unsubscribe = store.subscribe(onChange);
+  onChange();
+  return () => {
+    unsubscribe();
+    for (const controller of open.values()) controller.abort();
+    open.clear();
+  };
+}
+
+/**
+ * Decides approval requests from the policy file and `--approval` mode.
+ * Requests the policy leaves open in `ask` mode go to `ask`, which shows
+ * a y/N prompt; without one (no TTY) they are denied.
+ */
+export function createApprovalDecider(deps: {
+  policy: CliApprovalPolicy;
+  mode: CliApprovalMode;
+  ask?: (question: string, signal: AbortSignal) => Promise<string>;
+}): (
+  request: CliApprovalRequest,
+  signal: AbortSignal,
+) => Promise<CliApprovalResponse> {
+  return async (request, signal) => {
+    const verdict = evaluateToolApproval(
+      deps.policy,
+      deps.mode,
+      request.toolName,
+      request.input,
+    );
+    if (verdict.decision === 'allow') return { approved: true };
+    if (verdict.decision === 'deny') {
+      return { approved: false, reason: verdict.reason };
+    }
+    if (!deps.ask) {
+      return {
+        approved: false,
+        reason:
+          'Tool call needs approval but no terminal is attached to ask the user. Do not retry it.',
+      };
+    }
+
+    const shellInput = request.input as { command?: string; stdin?: string };
+    const subject =
+      shellInput?.command ?? shellInput?.stdin ?? JSON.stringify(request.input);
+    const explanation = request.explanation ? `\n  ${request.explanation}` : '';
+    const answer = await deps.ask(
+      `\nApprove ${request.toolName}: ${subject}${explanation}\n[y/N] `,
+      signal,
+    );
+    return /^y(es)?$/i.test(answer.trim())
+      ? { approved: true }
+      : { approved: false, reason: 'The user denied this tool call.' };
+  };
+}
@@ -0,0 +1,135 @@
+import type { AgentStore } from '@stagewise/agent-core';
+
+/**
+ * Incremental events derived from an agent's history as it streams.
+ *
+ * The store only exposes whole-state snapshots, so events are produced by
+ * diffing each committed snapshot against what was already reported:
+ * text parts yield the characters appended since the last commit, tool
+ * parts yield one `tool-call` once their input is complete and one
+ * `tool-result` once they settle.
+ */
+export type CliHistoryEvent =
+  | { type: 'text-delta'; messageId: string; text: string }
+  | {
+      type: 'tool-call';
+      messageId: string;
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+    }
+  | {
+      type: 'tool-result';
+      messageId: string;
+      toolCallId: string;
+      toolName: string;
+      state: 'output-available' | 'output-error' | 'output-denied';
+      output?: unknown;
+      errorText?: string;
+    };
+
+type LoosePart = {
+  type: string;
+  text?: string;
+  toolCallId?: string;
+  toolName?: string;
+  state?: string;
+  input?: unknown;
+  output?: unknown;
+  errorText?: string;
+};
+
+const SETTLED_TOOL_STATES = new Set([
+  'output-available',
+  'output-error',
+  'output-denied',
+]);
+
+function getToolName(part: LoosePart): string | undefined {
+  if (part.type === 'dynamic-tool') return part.toolName;
+  if (part.type.startsWith('tool-')) return part.type.slice('tool-'.length);
+  return undefined;
+}
+
+/**
+ * Subscribes to `store` and reports history changes of `instanceId` as
+ * {@link CliHistoryEvent}s. Only messages appended after the call are
+ * reported, so a resumed conversation does not replay its old turns.
+ * Returns an unsubscribe function.
+ */
+export function watchAgentHistory(
+  store: AgentStore,
+  instanceId: string,
+  onEvent: (event: CliHistoryEvent) => void,
+): () => void {
+  const startIndex =
+    store.get().agents.instances[instanceId]?.state.history.length ?? 0;
+  // `${messageId}:${partIndex}` → characters already reported.
+  const textOffsets = new Map<string, number>();
+  // toolCallId → whether the call / the result has been reported.
+  const reportedCalls = new Set<string>();
+  const reportedResults = new Set<string>();
+
+  return store.subscribe((state) => {
+    const history = state.agents.instances[instanceId]?.state.history;
+    if (!history) return;
+
+    for (let i = startIndex; i < history.length; i++) {
+      const message = history[i];
+      if (!message || message.role !== 'assistant') continue;
+      const parts = message.parts as LoosePart[];
+
+      for (let p = 0; p < parts.length; p++) {
+        const part = parts[p]!;
+
+        if (part.type === 'text' && typeof part.text === 'string') {
+          const key = `${message.id}:${p}`;
+          const offset = textOffsets.get(key) ?? 0;
+          if (part.text.length > offset) {
+            onEvent({
+              type: 'text-delta',
+              messageId: message.id,
+              text: part.text.slice(offset),
+            });
+            textOffsets.set(key, part.text.length);
+          }
+          continue;
+        }
+
+        const toolName = getToolName(part);
+        if (!toolName || !part.toolCallId || !part.state) continue;
+        if (part.state === 'input-streaming') continue;
+
+        if (!reportedCalls.has(part.toolCallId)) {
+          reportedCalls.add(part.toolCallId);
+          onEvent({
+            type: 'tool-call',
+            messageId: message.id,
+            toolCallId: part.toolCallId,
+            toolName,
+            input: part.input,
+          });
+        }
+
+        if (
+          SETTLED_TOOL_STATES.has(part.state) &&
+          !reportedResults.has(part.toolCallId)
+        ) {
+          reportedResults.add(part.toolCallId);
+          onEvent({
+            type: 'tool-result',
+            messageId: message.id,
+            toolCallId: part.toolCallId,
+            toolName,
+            state: part.state as
+              | 'output-available'
+              | 'output-error'
+              | 'output-denied',
+            output: part.output,
+            errorText: part.errorText,
+          });
+        }
+      }
+    }
+  });
+}
@@ -1,33 +1,216 @@
-import { createAnthropic } from '@ai-sdk/anthropic';
 import type { streamText } from 'ai';
-import type { HostModels } from '@stagewise/agent-core/host';
+import type { HostModels, ProviderMode } from '@stagewise/agent-core/host';
 import type { ModelCapabilities } from '@stagewise/agent-core/types/models';
-import { modelCapabilitiesSchema } from '@stagewise/agent-core/types/models';
+import {
+  type BuiltInModel,
+  getAvailableModel,
+  getModelCapabilities,
+} from '@shared/available-models';
+import {
+  type CustomCompatibleConfig,
+  customAnthropicType,
+  customGoogleType,
+  customOpenAIChatType,
+  customOpenAIResponsesType,
+} from '../../browser/src/backend/agents/providers/custom-compatible.js';
+import type { ProviderType } from '../../browser/src/backend/agents/providers/types.js';
+import {
+  BUILTIN_CLI_PROVIDERS,
+  type CliApiSpec,
+  type CliConfig,
+  type CliProviderConfig,
+  getCliProvider,
+} from './cli-model-config.js';
 
-const DEFAULT_CAPABILITIES: ModelCapabilities = modelCapabilitiesSchema.parse({
-  toolCalling: true,
-});
+/**
+ * Context window assumed for models that are neither in the built-in
+ * catalog nor given a `contextWindowSize` in the config file.
+ */
+const FALLBACK_CONTEXT_WINDOW = 128_000;
 
-export function createCliHostModels(defaultModelId: string): HostModels {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY is required');
+/**
+ * Built-in presets that talk to a vendor's official API. Everything else
+ * (config-file providers, `openai-compatible`) is reported as `custom`.
+ */
+const OFFICIAL_CLI_PROVIDERS = new Set([
+  'anthropic',
+  'openai',
+  'google',
+  'openrouter',
+]);
+
+/**
+ * The browser's custom-compatible provider types, keyed by wire protocol.
+ * Reusing them keeps model construction (and wire-ID transforms such as
+ * Anthropic's dotted → hyphenated IDs) identical across both hosts.
+ */
+const PROVIDER_TYPES: Record<
+  CliApiSpec,
+  ProviderType<CustomCompatibleConfig>
+> = {
+  anthropic: customAnthropicType,
+  'openai-chat-completions': customOpenAIChatType,
+  'openai-responses': customOpenAIResponsesType,
+  google: customGoogleType,
+};
+
+export interface CliModelSelection {
+  config: CliConfig;
+  /** Name of the provider to route every model through. */
+  providerName: string;
+  /** Model used when the agent does not request a specific one. */
+  defaultModelId: string;
+  /** `--base-url` override applied on top of the provider's base URL. */
+  baseUrlOverride?: string;
+}
+
+/**
+ * Looks up `modelId` in the built-in catalog. Vendor-prefixed IDs (as
+ * used by OpenRouter, e.g. `anthropic/claude-sonnet-4.6`) fall back to
+ * the unprefixed catalog entry.
+ */
+function findCatalogModel(modelId: string): BuiltInModel | undefined {
+  const direct = getAvailableModel(modelId);
+  if (direct) return direct;
+  const slash = modelId.lastIndexOf('/');
+  return slash === -1 ? undefined : getAvailableModel(modelId.slice(slash + 1));
+}
+
+/**
+ * Picks the built-in preset matching a catalog model's vendor (e.g.
+ * `gpt-5.6-sol` → `openai`) so `--model` alone is enough for official APIs.
+ * Returns `undefined` for models the catalog does not know.
+ */
+export function inferCliProviderName(modelId: string): string | undefined {
+  const vendor = getAvailableModel(modelId)?.officialProvider;
+  if (!vendor) return undefined;
+  return OFFICIAL_CLI_PROVIDERS.has(vendor) ? vendor : undefined;
+}
+
+function resolveProvider(selection: CliModelSelection): {
+  provider: CliProviderConfig;
+  apiKey: string;
+  baseURL: string;
+  providerMode: ProviderMode;
+} {
+  const { config, providerName, baseUrlOverride } = selection;
+  const provider = getCliProvider(config, providerName);
+  if (!provider) {
+    const known = [
+      ...new Set([
+        ...Object.keys(config.providers),
+        ...Object.keys(BUILTIN_CLI_PROVIDERS),
+      ]),
+    ];
+    throw new Error(
+      `Unknown provider "${providerName}". Known providers: ${known.join(', ')}`,
+    );
+  }
+
+  const baseURL = baseUrlOverride ?? provider.baseUrl;
+  if (!baseURL) {
+    throw new Error(
+      `Provider "${providerName}" has no base URL; set "baseUrl" in the config file or pass --base-url`,
+    );
+  }
+
+  const apiKey =
+    provider.apiKey ??
+    (provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined) ??
+    '';
+  if (!apiKey && !provider.apiKeyOptional) {
+    throw new Error(
+      provider.apiKeyEnv
+        ? `${provider.apiKeyEnv} is required for provider "${providerName}"`
+        : `Provider "${providerName}" has no API key; set "apiKey" or "apiKeyEnv" in the config file`,
+    );
   }
 
-  const anthropic = createAnthropic({ apiKey });
+  const isOfficial =
+    !config.providers[providerName] && OFFICIAL_CLI_PROVIDERS.has(providerName);
+
+  return {
+    provider,
+    apiKey,
+    baseURL,
+    providerMode: isOfficial ? 'official' : 'custom',
+  };
+}
+
+/**
+ * USD-per-million-token prices for `modelId`: the config file's
+ * per-model `pricing` first, then the built-in catalog. Returns
+ * `undefined` when neither knows the model, so callers can omit costs
+ * instead of reporting a wrong one.
+ */
+export function getCliModelPricing(
+  selection: Pick<CliModelSelection, 'config' | 'providerName'>,
+  modelId: string,
+): { inputPerMillion: number; outputPerMillion: number } | undefined {
+  const override = getCliProvider(selection.config, selection.providerName)
+    ?.models?.[modelId]?.pricing;
+  if (override) return override;
+  const pricing = findCatalogModel(modelId)?.pricing;
+  return pricing
+    ? {
+        inputPerMillion: pricing.inputPerMillion,
+        outputPerMillion: pricing.outputPerMillion,
+      }
+    : undefined;
+}
+
+/**
+ * Builds the CLI's {@link HostModels} for a single provider.
+ *
+ * Provider credentials are validated eagerly so a missing key fails the
+ * run before an agent is created. Context window, capabilities, headers
+ * and provider options come from the config file's per-model overrides
+ * first, then from the browser's built-in catalog.
+ */
+export function createCliHostModels(selection: CliModelSelection): HostModels {
+  const { provider, apiKey, baseURL, providerMode } =
+    resolveProvider(selection);
+  const type = PROVIDER_TYPES[provider.apiSpec];
+
+  const getCapabilities = (modelId: string): ModelCapabilities => {
+    const id = modelId || selection.defaultModelId;
+    const override = provider.models?.[id]?.capabilities;
+    if (override) return override;
+    return getModelCapabilities(findCatalogModel(id)?.modelId ?? id);
+  };
 
   return {
     async getWithOptions(modelId: string, _traceId: string) {
-      const id = modelId || defaultModelId;
-      const model = anthropic(id);
+      const id = modelId || selection.defaultModelId;
+      const override = provider.models?.[id];
+      const catalog = findCatalogModel(id);
+
+      const wireModelId =
+        provider.modelIdMapping?.[id] ?? type.toWireModelId?.(id) ?? id;
+      const { model } = type.createLanguageModel({
+        modelId: wireModelId,
+        apiKey,
+        baseURL,
+        config: { baseUrl: baseURL, modelIdMapping: provider.modelIdMapping },
+        decryptedConfig: { encryptedApiKey: apiKey },
+      });
+
       return {
         model,
-        providerOptions: {} as Parameters<
-          typeof streamText
-        >[0]['providerOptions'],
-        headers: {},
-        contextWindowSize: 200_000,
-        providerMode: 'official' as const,
+        providerOptions: {
+          ...(catalog?.providerOptions ?? {}),
+          ...(override?.providerOptions ?? {}),
+        } as Parameters<typeof streamText>[0]['providerOptions'],
+        headers: {
+          ...((catalog?.headers as Record<string, string> | undefined) ?? {}),
+          ...(override?.headers ?? {}),
+        },
+        contextWindowSize:
+          override?.contextWindowSize ??
+          catalog?.modelContextRaw ??
+          FALLBACK_CONTEXT_WINDOW,
+        providerMode,
+        providerType: selection.providerName,
         stripStrictFromTools: false,
       };
     },
@@ -40,8 +223,6 @@ export function createCliHostModels(defaultModelId: string): HostModels {
       return true;
     },
 
-    getCapabilities(_modelId: string): ModelCapabilities {
-      return DEFAULT_CAPABILITIES;
-    },
+    getCapabilities,
   };
 }
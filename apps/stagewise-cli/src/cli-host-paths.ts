@@ -31,6 +31,7 @@ export function createCliHostPaths(sessionRoot: string): HostPaths {
     fileReadCacheDbPath: () => path.join(stagewise, 'file-read-cache.sqlite'),
     processedImageCacheDbPath: () =>
       path.join(stagewise, 'processed-image-cache.sqlite'),
+    historySearchDbPath: () => path.join(stagewise, 'history-search.sqlite'),
 
     userDataDir: () => path.join(stagewise, 'user'),
     plansDir: () => path.join(stagewise, 'user', 'plans'),
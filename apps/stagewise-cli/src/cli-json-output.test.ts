@@ -0,0 +1,300 @@
+import type { AgentStore } from '@stagewise/agent-core';
+import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { ToolCallFileEdit } from '@stagewise/agent-core/types/diff-history';
+import { describe, expect, it, vi } from 'vitest';
+import { watchAgentHistory } from './cli-history-events';
+import {
+  type CliJsonEvent,
+  createJsonOutput,
+  createStepUsageSink,
+} from './cli-json-output';
+
+const INSTANCE_ID = 'agent-1';
+
+/** Just enough of an `AgentStore` for `watchAgentHistory`. */
+function createFakeStore() {
+  let history: unknown[] = [];
+  const listeners = new Set<(state: unknown) => void>();
+  const snapshot = () => ({
+    agents: { instances: { [INSTANCE_ID]: { state: { history } } } },
+  });
+  const store = {
+    get: snapshot,
+    subscribe(listener: (state: unknown) => void) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  } as unknown as AgentStore;
+  return {
+    store,
+    setHistory(next: unknown[]) {
+      history = next;
+      for (const listener of listeners) listener(snapshot());
+    },
+  };
+}
+
+function assistant(id: string, parts: unknown[]) {
+  return { id, role: 'assistant', parts };
+}
+
+function createFakeDiffHistory(
+  editsByToolCall: Record<string, Omit<ToolCallFileEdit, 'toolCallIds'>[]>,
+) {
+  return {
+    getFileEditsForToolCalls: vi.fn(
+      async (_instanceId: string, toolCallIds: string[]) =>
+        toolCallIds.flatMap((toolCallId) =>
+          (editsByToolCall[toolCallId] ?? []).map((edit) => ({
+            ...edit,
+            toolCallIds: [toolCallId],
+          })),
+        ),
+    ),
+  };
+}
+
+function setup(
+  format: 'json' | 'stream-json',
+  editsByToolCall: Record<string, Omit<ToolCallFileEdit, 'toolCallIds'>[]> = {},
+) {
+  const { store, setHistory } = createFakeStore();
+  const diffHistory = createFakeDiffHistory(editsByToolCall);
+  const lines: string[] = [];
+  const output = createJsonOutput({
+    format,
+    sessionId: 'session-1',
+    instanceId: INSTANCE_ID,
+    diffHistory: diffHistory as unknown as DiffHistoryService,
+    getPricing: (modelId) =>
+      modelId === 'priced-model'
+        ? { inputPerMillion: 3, outputPerMillion: 15 }
+        : undefined,
+    write: (line) => lines.push(line),
+  });
+  const unwatch = watchAgentHistory(store, INSTANCE_ID, output.onEvent);
+  const usageSink = createStepUsageSink(output.onStepUsage);
+  const events = () =>
+    lines
+      .join('')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as CliJsonEvent);
+  return { output, setHistory, usageSink, diffHistory, lines, events, unwatch };
+}
+
+/** Streams a turn that writes text, edits a file and finishes. */
+async function runTurn(harness: ReturnType<typeof setup>) {
+  const { output, setHistory, usageSink } = harness;
+  output.emit({
+    type: 'session',
+    sessionId: 'session-1',
+    resumed: false,
+    cwd: '/repo',
+    modelId: 'priced-model',
+    provider: 'anthropic',
+  });
+  output.startTurn('Rename the button');
+  setHistory([
+    { id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Rename' }] },
+    assistant('a1', [{ type: 'text', text: 'Renaming' }]),
+  ]);
+  setHistory([
+    { id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Rename' }] },
+    assistant('a1', [
+      { type: 'text', text: 'Renaming the button.' },
+      {
+        type: 'tool-multiEdit',
+        toolCallId: 'call-1',
+        state: 'input-available',
+        input: { path: 'src/button.tsx' },
+      },
+    ]),
+  ]);
+  setHistory([
+    { id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Rename' }] },
+    assistant('a1', [
+      { type: 'text', text: 'Renaming the button.' },
+      {
+        type: 'tool-multiEdit',
+        toolCallId: 'call-1',
+        state: 'output-available',
+        input: { path: 'src/button.tsx' },
+        output: { message: 'ok' },
+      },
+    ]),
+  ]);
+  usageSink.capture('agent-step-completed', {
+    agent_instance_id: INSTANCE_ID,
+    model_id: 'priced-model',
+    finish_reason: 'tool-calls',
+    input_tokens: 1_000,
+    output_tokens: 200,
+  });
+  usageSink.capture('agent-created', { agent_instance_id: INSTANCE_ID });
+  usageSink.capture('agent-step-completed', {
+    agent_instance_id: INSTANCE_ID,
+    model_id: 'local-model',
+    finish_reason: 'stop',
+    input_tokens: 500,
+    output_tokens: 100,
+  });
+  await output.endTurn({ text: 'Renaming the button.', contextTokens: 1_500 });
+  await output.finish({ text: 'Renaming the button.' });
+}
+
+const EDITS = {
+  'call-1': [
+    {
+      path: 'src/button.tsx',
+      added: 2,
+      removed: 1,
+    },
+  ],
+};
+
+describe('createJsonOutput', () => {
+  it('streams one event per line in the order they happened', async () => {
+    const harness = setup('stream-json', EDITS);
+
+    await runTurn(harness);
+
+    expect(harness.events()).toEqual([
+      {
+        type: 'session',
+        sessionId: 'session-1',
+        resumed: false,
+        cwd: '/repo',
+        modelId: 'priced-model',
+        provider: 'anthropic',
+      },
+      { type: 'turn-start', turn: 1, prompt: 'Rename the button' },
+      { type: 'text-delta', messageId: 'a1', text: 'Renaming' },
+      { type: 'text-delta', messageId: 'a1', text: ' the button.' },
+      {
+        type: 'tool-call',
+        messageId: 'a1',
+        toolCallId: 'call-1',
+        toolName: 'multiEdit',
+        input: { path: 'src/button.tsx' },
+      },
+      {
+        type: 'tool-result',
+        messageId: 'a1',
+        toolCallId: 'call-1',
+        toolName: 'multiEdit',
+        state: 'output-available',
+        output: { message: 'ok' },
+      },
+      {
+        type: 'file-edit',
+        toolCallId: 'call-1',
+        path: 'src/button.tsx',
+        added: 2,
+        removed: 1,
+      },
+      {
+        type: 'usage',
+        agentInstanceId: INSTANCE_ID,
+        modelId: 'priced-model',
+        finishReason: 'tool-calls',
+        inputTokens: 1_000,
+        outputTokens: 200,
+        costUsd: (1_000 * 3 + 200 * 15) / 1_000_000,
+      },
+      {
+        type: 'usage',
+        agentInstanceId: INSTANCE_ID,
+        modelId: 'local-model',
+        finishReason: 'stop',
+        inputTokens: 500,
+        outputTokens: 100,
+      },
+      {
+        type: 'turn-end',
+        turn: 1,
+        text: 'Renaming the button.',
+        usage: {
+          inputTokens: 1_500,
+          outputTokens: 300,
+          costUsd: (1_000 * 3 + 200 * 15) / 1_000_000,
+        },
+        contextTokens: 1_500,
+      },
+      {
+        type: 'result',
+        sessionId: 'session-1',
+        isError: false,
+        turns: 1,
+        text: 'Renaming the button.',
+        usage: {
+          inputTokens: 1_500,
+          outputTokens: 300,
+          costUsd: (1_000 * 3 + 200 * 15) / 1_000_000,
+        },
+        filesEdited: [{ path: 'src/button.tsx', added: 2, removed: 1 }],
+      },
+    ]);
+    expect(
+      harness.diffHistory.getFileEditsForToolCalls,
+    ).toHaveBeenLastCalledWith(INSTANCE_ID, ['call-1']);
+    harness.unwatch();
+  });
+
+  it('prints one result document with the collected events in json mode', async () => {
+    const harness = setup('json', EDITS);
+
+    await runTurn(harness);
+
+    expect(harness.lines).toHaveLength(1);
+    const document = JSON.parse(harness.lines[0]!);
+    expect(document).toMatchObject({
+      type: 'result',
+      sessionId: 'session-1',
+      isError: false,
+      turns: 1,
+      filesEdited: [{ path: 'src/button.tsx', added: 2, removed: 1 }],
+    });
+    expect(
+      (document.events as CliJsonEvent[]).map((event) => event.type),
+    ).toEqual([
+      'session',
+      'turn-start',
+      'text-delta',
+      'text-delta',
+      'tool-call',
+      'tool-result',
+      'file-edit',
+      'usage',
+      'usage',
+      'turn-end',
+    ]);
+    harness.unwatch();
+  });
+
+  it('reports errors and omits the cost when no model is priced', async () => {
+    const harness = setup('stream-json');
+    harness.output.startTurn('Fail');
+    harness.usageSink.capture('agent-step-completed', {
+      model_id: 'local-model',
+      input_tokens: 10,
+    });
+    await harness.output.finish({
+      text: '',
+      error: { message: 'Model unavailable' },
+    });
+
+    expect(harness.events().at(-1)).toEqual({
+      type: 'result',
+      sessionId: 'session-1',
+      isError: true,
+      turns: 1,
+      text: '',
+      usage: { inputTokens: 10, outputTokens: 0 },
+      filesEdited: [],
+      error: { message: 'Model unavailable' },
+    });
+    expect(harness.diffHistory.getFileEditsForToolCalls).not.toHaveBeenCalled();
+    harness.unwatch();
+  });
+});
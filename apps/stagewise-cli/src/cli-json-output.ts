@@ -0,0 +1,265 @@
+import type { TelemetrySink } from '@stagewise/agent-core/host';
+import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { AgentRuntimeError } from '@stagewise/agent-core/types/agent';
+import type { CliHistoryEvent } from './cli-history-events.js';
+
+export type CliOutputFormat = 'text' | 'json' | 'stream-json';
+
+export const CLI_OUTPUT_FORMATS: readonly CliOutputFormat[] = [
+  'text',
+  'json',
+  'stream-json',
+];
+
+export interface CliUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** USD; omitted when the model's pricing is unknown. */
+  costUsd?: number;
+}
+
+export interface CliFileEdit {
+  path: string;
+  added: number;
+  removed: number;
+  changeType?: 'created' | 'deleted' | 'modified';
+}
+
+/**
+ * Events written by `--output-format stream-json`, one JSON object per
+ * line. `--output-format json` collects the same events and prints them
+ * once, inside the final `result` object.
+ */
+export type CliJsonEvent =
+  | {
+      type: 'session';
+      sessionId: string;
+      resumed: boolean;
+      cwd: string;
+      modelId: string;
+      provider: string;
+    }
+  | { type: 'turn-start'; turn: number; prompt: string }
+  | CliHistoryEvent
+  | ({ type: 'file-edit'; toolCallId: string } & CliFileEdit)
+  | ({
+      type: 'usage';
+      agentInstanceId: string;
+      modelId: string;
+      finishReason: string;
+    } & CliUsage)
+  | {
+      type: 'turn-end';
+      turn: number;
+      text: string;
+      usage: CliUsage;
+      /** Tokens currently occupying the model's context window. */
+      contextTokens: number;
+      error?: AgentRuntimeError;
+    }
+  | {
+      type: 'result';
+      sessionId: string;
+      isError: boolean;
+      turns: number;
+      /** Assistant text of the last turn. */
+      text: string;
+      usage: CliUsage;
+      /** Net edits per file over the whole run, from the diff history. */
+      filesEdited: CliFileEdit[];
+      error?: AgentRuntimeError | { message: string };
+    };
+
+export interface CliJsonOutput {
+  /** Queues an event the CLI produces itself (e.g. `session`). */
+  emit: (event: CliJsonEvent) => void;
+  onEvent: (event: CliHistoryEvent) => void;
+  onStepUsage: (step: {
+    agentInstanceId: string;
+    modelId: string;
+    finishReason: string;
+    inputTokens: number;
+    outputTokens: number;
+  }) => void;
+  startTurn: (prompt: string) => void;
+  endTurn: (turn: {
+    text: string;
+    contextTokens: number;
+    error?: AgentRuntimeError;
+  }) => Promise<void>;
+  /** Emits the `result` event (and, in `json` mode, the whole document). */
+  finish: (result: {
+    text: string;
+    error?: AgentRuntimeError | { message: string };
+  }) => Promise<void>;
+}
+
+function addUsage(into: CliUsage, step: CliUsage): void {
+  into.inputTokens += step.inputTokens;
+  into.outputTokens += step.outputTokens;
+  if (step.costUsd !== undefined) {
+    into.costUsd = (into.costUsd ?? 0) + step.costUsd;
+  }
+}
+
+/**
+ * Machine-readable output for `--output-format json|stream-json`.
+ *
+ * History events pass through unchanged; every settled tool call is
+ * followed by one `file-edit` event per file it changed, looked up in the
+ * diff history. Diff-history queries are async, so events are written
+ * through a promise chain to keep them in the order they happened.
+ */
+export function createJsonOutput(deps: {
+  format: 'json' | 'stream-json';
+  sessionId: string;
+  instanceId: string;
+  diffHistory: DiffHistoryService;
+  getPricing: (
+    modelId: string,
+  ) => { inputPerMillion: number; outputPerMillion: number } | undefined;
+  write?: (line: string) => void;
+}): CliJsonOutput {
+  const write = deps.write ?? ((line) => process.stdout.write(line));
+  const collected: CliJsonEvent[] = [];
+  const totalUsage: CliUsage = { inputTokens: 0, outputTokens: 0 };
+  let turnUsage: CliUsage = { inputTokens: 0, outputTokens: 0 };
+  const settledToolCallIds: string[] = [];
+  let turn = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const emitNow = (event: CliJsonEvent) => {
+    if (deps.format === 'stream-json') write(`${JSON.stringify(event)}\n`);
+    else collected.push(event);
+  };
+  const enqueue = (task: () => void | Promise<void>) => {
+    queue = queue.then(task).catch((err: unknown) => {
+      process.stderr.write(`[json-output] ${String(err)}\n`);
+    });
+  };
+  const emit = (event: CliJsonEvent) => enqueue(() => emitNow(event));
+
+  return {
+    emit,
+
+    onEvent(event) {
+      emit(event);
+      if (event.type !== 'tool-result') return;
+      settledToolCallIds.push(event.toolCallId);
+      enqueue(async () => {
+        const edits = await deps.diffHistory.getFileEditsForToolCalls(
+          deps.instanceId,
+          [event.toolCallId],
+        );
+        for (const edit of edits) {
+          emitNow({
+            type: 'file-edit',
+            toolCallId: event.toolCallId,
+            path: edit.path,
+            added: edit.added,
+            removed: edit.removed,
+            ...(edit.changeType ? { changeType: edit.changeType } : {}),
+          });
+        }
+      });
+    },
+
+    onStepUsage(step) {
+      const pricing = deps.getPricing(step.modelId);
+      const usage: CliUsage = {
+        inputTokens: step.inputTokens,
+        outputTokens: step.outputTokens,
+        ...(pricing
+          ? {
+              costUsd:
+                (step.inputTokens * pricing.inputPerMillion +
+                  step.outputTokens * pricing.outputPerMillion) /
+                1_000_000,
+            }
+          : {}),
+      };
+      addUsage(turnUsage, usage);
+      addUsage(totalUsage, usage);
+      emit({ type: 'usage', ...step, ...usage });
+    },
+
+    startTurn(prompt) {
+      turn++;
+      turnUsage = { inputTokens: 0, outputTokens: 0 };
+      emit({ type: 'turn-start', turn, prompt });
+    },
+
+    async endTurn({ text, contextTokens, error }) {
+      emit({
+        type: 'turn-end',
+        turn,
+        text,
+        usage: { ...turnUsage },
+        contextTokens,
+        ...(error ? { error } : {}),
+      });
+      await queue;
+    },
+
+    async finish({ text, error }) {
+      await queue;
+      // Restricted to this run's tool calls so a resumed session reports
+      // only what it changed itself.
+      const edits =
+        settledToolCallIds.length > 0
+          ? await deps.diffHistory.getFileEditsForToolCalls(
+              deps.instanceId,
+              settledToolCallIds,
+            )
+          : [];
+      const filesEdited = edits.map(
+        ({ path, added, removed, changeType }): CliFileEdit => ({
+          path,
+          added,
+          removed,
+          ...(changeType ? { changeType } : {}),
+        }),
+      );
+
+      const result: CliJsonEvent = {
+        type: 'result',
+        sessionId: deps.sessionId,
+        isError: !!error,
+        turns: turn,
+        text,
+        usage: totalUsage,
+        filesEdited,
+        ...(error ? { error } : {}),
+      };
+
+      if (deps.format === 'stream-json') {
+        emitNow(result);
+        return;
+      }
+      write(`${JSON.stringify({ ...result, events: collected }, null, 2)}\n`);
+    },
+  };
+}
+
+/**
+ * Telemetry sink forwarding `BaseAgent`'s per-step token usage (the
+ * `agent-step-completed` event) to the JSON output. All other events are
+ * dropped — the CLI has no telemetry backend.
+ */
+export function createStepUsageSink(
+  onStepUsage: CliJsonOutput['onStepUsage'],
+): TelemetrySink {
+  return {
+    capture(eventName, properties = {}) {
+      if (eventName !== 'agent-step-completed') return;
+      onStepUsage({
+        agentInstanceId: String(properties.agent_instance_id ?? ''),
+        modelId: String(properties.model_id ?? ''),
+        finishReason: String(properties.finish_reason ?? 'unknown'),
+        inputTokens: Number(properties.input_tokens ?? 0),
+        outputTokens: Number(properties.output_tokens ?? 0),
+      });
+    },
+    captureException() {},
+  };
+}
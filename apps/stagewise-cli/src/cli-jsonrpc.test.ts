@@ -0,0 +1,167 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { request as httpRequest } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { PassThrough } from 'node:stream';
+import type { Logger } from '@stagewise/agent-core/host';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cliApprovalPolicySchema } from './cli-approval-policy';
+import { parseJsonRpcTarget, runJsonRpcServer } from './cli-jsonrpc';
+import { loadCliConfig } from './cli-model-config';
+import { createCliRuntime } from './cli-runtime';
+
+const logger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const cleanups: (() => void | Promise<void>)[] = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0).reverse()) await cleanup();
+});
+
+describe('parseJsonRpcTarget', () => {
+  it('parses stdio and WebSocket addresses', () => {
+    expect(parseJsonRpcTarget('stdio')).toEqual({ type: 'stdio' });
+    expect(parseJsonRpcTarget('ws')).toEqual({
+      type: 'websocket',
+      host: '127.0.0.1',
+      port: 0,
+    });
+    expect(parseJsonRpcTarget('ws://127.0.0.1:4100')).toEqual({
+      type: 'websocket',
+      host: '127.0.0.1',
+      port: 4100,
+    });
+    expect(parseJsonRpcTarget('ws://[::1]:4100')).toEqual({
+      type: 'websocket',
+      host: '::1',
+      port: 4100,
+    });
+  });
+
+  it.each([
+    'tcp',
+    'http://localhost:4100',
+    'ws://localhost',
+  ])('rejects %s', (value) => {
+    expect(() => parseJsonRpcTarget(value)).toThrow(/Invalid --jsonrpc/);
+  });
+});
+
+async function createRuntime() {
+  const sessionRoot = mkdtempSync(path.join(tmpdir(), 'stagewise-cli-'));
+  cleanups.push(() => rmSync(sessionRoot, { recursive: true, force: true }));
+  const policy = cliApprovalPolicySchema.parse({});
+  const runtime = await createCliRuntime({
+    sessionRoot,
+    config: loadCliConfig(undefined),
+    providerName: 'anthropic',
+    modelId: 'claude-sonnet-4.6',
+    policy,
+    approvalMode: 'ask',
+    logger,
+  });
+  cleanups.push(() => runtime.teardown());
+  return { runtime, policy };
+}
+
+/** Sends a WebSocket upgrade request, resolving with the status code. */
+function upgrade(url: string, headers: Record<string, string>) {
+  return new Promise<number | undefined>((resolve, reject) => {
+    const req = httpRequest(url.replace(/^ws:/, 'http:'), {
+      headers: {
+        connection: 'Upgrade',
+        upgrade: 'websocket',
+        'sec-websocket-version': '13',
+        'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        ...headers,
+      },
+    });
+    req.on('upgrade', (response, socket) => {
+      socket.destroy();
+      resolve(response.statusCode);
+    });
+    req.on('response', (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('runJsonRpcServer', () => {
+  it('serves the runtime commands over stdio until the input ends', async () => {
+    const { runtime, policy } = await createRuntime();
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses = createInterface({ input: output })[
+      Symbol.asyncIterator
+    ]();
+    const request = async (id: number, method: string) => {
+      input.write(`${JSON.stringify({ jsonrpc: '2.0', id, method })}\n`);
+      const { value } = await responses.next();
+      return JSON.parse(value as string);
+    };
+
+    const served = runJsonRpcServer({
+      runtime,
+      target: { type: 'stdio' },
+      policy,
+      approvalMode: 'ask',
+      logger,
+      stdio: { input, output },
+    });
+
+    const commands = await request(1, 'rpc.listCommands');
+    expect(commands.result).toEqual(
+      expect.arrayContaining([
+        'agents.create',
+        'agents.sendUserMessage',
+        'agents.sendToolApprovalResponse',
+      ]),
+    );
+    const subscription = await request(2, 'rpc.subscribeState');
+    expect(subscription.result.state.agents.instances).toEqual({});
+
+    input.end();
+    await expect(served).resolves.toBeUndefined();
+  });
+
+  it('refuses WebSocket clients without the token or from a browser', async () => {
+    const { runtime, policy } = await createRuntime();
+    const stop = new AbortController();
+    const listening = new Promise<string>((resolve) => {
+      void runJsonRpcServer({
+        runtime,
+        target: parseJsonRpcTarget('ws'),
+        policy,
+        approvalMode: 'ask',
+        logger,
+        token: 'secret',
+        signal: stop.signal,
+        onListening: resolve,
+      });
+    });
+    cleanups.push(() => stop.abort());
+    const url = await listening;
+    expect(url).toMatch(/^ws:\/\/127\.0\.0\.1:\d+$/);
+
+    await expect(upgrade(url, {})).resolves.toBe(401);
+    await expect(
+      upgrade(url, {
+        authorization: 'Bearer secret',
+        origin: 'https://example.com',
+      }),
+    ).resolves.toBe(401);
+    await expect(
+      upgrade(url, { authorization: 'Bearer secret' }),
+    ).resolves.toBe(101);
+  });
+});
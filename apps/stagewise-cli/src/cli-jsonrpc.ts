@@ -0,0 +1,211 @@
+import { randomBytes } from 'node:crypto';
+import type { Logger } from '@stagewise/agent-core/host';
+import {
+  type StdioConnectionOptions,
+  createJsonRpcWebSocketServer,
+  createStdioConnection,
+  serveCommandRegistry,
+} from '@stagewise/agent-jsonrpc';
+import {
+  type CliApprovalMode,
+  type CliApprovalPolicy,
+  evaluateToolApproval,
+} from './cli-approval-policy.js';
+import {
+  type CliApprovalRequest,
+  type CliApprovalResponse,
+  watchToolApprovals,
+} from './cli-approvals.js';
+import type { CliRuntime } from './cli-runtime.js';
+
+export type CliJsonRpcTarget =
+  | { type: 'stdio' }
+  | { type: 'websocket'; host: string; port: number };
+
+/**
+ * Parses the value of `--jsonrpc`: `stdio`, `ws` (127.0.0.1 on a free port)
+ * or `ws://<host>:<port>`.
+ */
+export function parseJsonRpcTarget(value: string): CliJsonRpcTarget {
+  if (value === 'stdio') return { type: 'stdio' };
+  if (value === 'ws') return { type: 'websocket', host: '127.0.0.1', port: 0 };
+  let url: URL | undefined;
+  try {
+    url = new URL(value);
+  } catch {}
+  if (!url || url.protocol !== 'ws:' || !url.port) {
+    throw new Error(
+      `Invalid --jsonrpc "${value}". Expected stdio, ws or ws://<host>:<port>`,
+    );
+  }
+  return {
+    type: 'websocket',
+    // IPv6 hosts keep their brackets in URLs, but not when listening
+    host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+    port: Number(url.port),
+  };
+}
+
+/**
+ * Serves the runtime's command registry over JSON-RPC 2.0: every command
+ * (`agents.create`, `agents.sendUserMessage`, …) is a method of the same
+ * name, and `rpc.subscribeState` streams the agent store as patches.
+ *
+ * Over stdio, resolves once the input ends. The WebSocket server accepts
+ * any number of clients that send `token`; a random one is generated and
+ * logged when none is given. Both stop when `signal` aborts.
+ *
+ * Tool approvals are answered from the policy file and `--approval` mode
+ * for every agent; the ones left open stay `approval-requested` in the
+ * state for a client to answer with `agents.sendToolApprovalResponse`.
+ */
+export async function runJsonRpcServer(deps: {
+  runtime: CliRuntime;
+  target: CliJsonRpcTarget;
+  policy: CliApprovalPolicy;
+  approvalMode: CliApprovalMode;
+  logger: Logger;
+  /** Streams for the stdio target, the process' stdin/stdout by default. */
+  stdio?: StdioConnectionOptions;
+  /** Secret WebSocket clients must send, e.g. from the environment. */
+  token?: string;
+  /** Stops serving, e.g. on SIGINT. */
+  signal?: AbortSignal;
+  /** Called with the WebSocket server's address once it listens. */
+  onListening?: (url: string) => void;
+}): Promise<void> {
+  const { runtime, target, logger } = deps;
+  const { store, registry } = runtime;
+  const serve = (connection: Parameters<typeof serveCommandRegistry>[0]) =>
+    serveCommandRegistry(connection, {
+      registry,
+      store,
+      callerId: 'jsonrpc',
+    });
+
+  const stopApprovals = watchAllToolApprovals(deps);
+  try {
+    if (target.type === 'stdio') {
+      const input = deps.stdio?.input ?? process.stdin;
+      const ended = new Promise<void>((resolve) => {
+        input.once('end', resolve);
+        input.once('close', resolve);
+        deps.signal?.addEventListener('abort', () => resolve(), {
+          once: true,
+        });
+      });
+      const connection = createStdioConnection({ ...deps.stdio, input });
+      const dispose = serve(connection);
+      await ended;
+      dispose();
+      connection.close();
+      return;
+    }
+
+    const token = deps.token || randomBytes(24).toString('base64url');
+    const server = createJsonRpcWebSocketServer({
+      host: target.host,
+      port: target.port,
+      token,
+      onConnection: serve,
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    const address = server.address();
+    const port =
+      address && typeof address !== 'string' ? address.port : target.port;
+    const url = `ws://${target.host.includes(':') ? `[${target.host}]` : target.host}:${port}`;
+    logger.info(`JSON-RPC server listening on ${url}`);
+    if (!deps.token) {
+      logger.info(
+        `JSON-RPC clients must send "Authorization: Bearer ${token}" or ?token=${token}`,
+      );
+    }
+    deps.onListening?.(url);
+
+    if (!deps.signal?.aborted) {
+      await new Promise<void>((resolve) =>
+        deps.signal?.addEventListener('abort', () => resolve(), {
+          once: true,
+        }),
+      );
+    }
+    for (const client of server.clients) client.terminate();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  } finally {
+    stopApprovals();
+  }
+}
+
+/**
+ * Runs `watchToolApprovals` for every agent instance in the store, since
+ * JSON-RPC clients create and resume agents on their own.
+ */
+function watchAllToolApprovals(deps: {
+  runtime: CliRuntime;
+  policy: CliApprovalPolicy;
+  approvalMode: CliApprovalMode;
+  logger: Logger;
+}): () => void {
+  const { store, registry } = deps.runtime;
+  const watchers = new Map<string, () => void>();
+
+  const decide = async (
+    request: CliApprovalRequest,
+    signal: AbortSignal,
+  ): Promise<CliApprovalResponse> => {
+    const verdict = evaluateToolApproval(
+      deps.policy,
+      deps.approvalMode,
+      request.toolName,
+      request.input,
+    );
+    if (verdict.decision === 'allow') return { approved: true };
+    if (verdict.decision === 'deny') {
+      return { approved: false, reason: verdict.reason };
+    }
+    // Left to the client; the watcher drops the request once it answered
+    await new Promise<void>((resolve) =>
+      signal.addEventListener('abort', () => resolve(), { once: true }),
+    );
+    return { approved: false };
+  };
+
+  const onChange = () => {
+    const instances = store.get().agents.instances;
+    for (const [instanceId, stop] of watchers) {
+      if (instances[instanceId]) continue;
+      stop();
+      watchers.delete(instanceId);
+    }
+    for (const instanceId of Object.keys(instances)) {
+      if (watchers.has(instanceId)) continue;
+      watchers.set(
+        instanceId,
+        watchToolApprovals({
+          store,
+          instanceId,
+          decide,
+          respond: (approvalId, { approved, reason }) =>
+            registry.dispatch(
+              'agents.sendToolApprovalResponse',
+              { callerId: 'jsonrpc' },
+              [instanceId, approvalId, approved, reason],
+            ) as Promise<void>,
+          onError: (err) =>
+            deps.logger.error('[jsonrpc] Failed to answer approval', err),
+        }),
+      );
+    }
+  };
+
+  const unsubscribe = store.subscribe(onChange);
+  onChange();
+  return () => {
+    unsubscribe();
+    for (const stop of watchers.values()) stop();
+    watchers.clear();
+  };
+}
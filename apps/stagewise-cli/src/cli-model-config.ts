@@ -0,0 +1,136 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { modelCapabilitiesSchema } from '@stagewise/agent-core/types/models';
+import { PROVIDER_TYPE_DISPLAY_INFO } from '@shared/karton-contracts/ui/shared-types';
+
+/**
+ * Wire protocols the CLI can speak. A subset of the browser's `ApiSpec` —
+ * the cloud specs (azure / bedrock / vertex) need SDK-specific auth that
+ * the headless CLI does not carry.
+ */
+export const cliApiSpecSchema = z.enum([
+  'anthropic',
+  'openai-chat-completions',
+  'openai-responses',
+  'google',
+]);
+export type CliApiSpec = z.infer<typeof cliApiSpecSchema>;
+
+/** Per-model overrides for models the built-in catalog does not know. */
+export const cliModelOverrideSchema = z.object({
+  contextWindowSize: z.number().int().positive().optional(),
+  capabilities: modelCapabilitiesSchema.optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  providerOptions: z.record(z.string(), z.unknown()).optional(),
+  /** USD per million tokens, used for the cost in JSON output. */
+  pricing: z
+    .object({
+      inputPerMillion: z.number().nonnegative(),
+      outputPerMillion: z.number().nonnegative(),
+    })
+    .optional(),
+});
+export type CliModelOverride = z.infer<typeof cliModelOverrideSchema>;
+
+/** A provider endpoint: wire protocol, base URL and credentials. */
+export const cliProviderConfigSchema = z.object({
+  apiSpec: cliApiSpecSchema,
+  baseUrl: z.string().optional(),
+  /** Literal API key. Prefer `apiKeyEnv` so keys stay out of config files. */
+  apiKey: z.string().optional(),
+  /** Name of the environment variable holding the API key. */
+  apiKeyEnv: z.string().optional(),
+  /** Endpoints without auth (local servers) set this to skip the key check. */
+  apiKeyOptional: z.boolean().optional(),
+  /** Maps catalog model IDs to the IDs expected by this endpoint. */
+  modelIdMapping: z.record(z.string(), z.string()).optional(),
+  models: z.record(z.string(), cliModelOverrideSchema).optional(),
+});
+export type CliProviderConfig = z.infer<typeof cliProviderConfigSchema>;
+
+export const cliConfigSchema = z.object({
+  /** Default model ID. */
+  model: z.string().optional(),
+  /** Default provider name (a key of `providers` or a built-in preset). */
+  provider: z.string().optional(),
+  providers: z.record(z.string(), cliProviderConfigSchema).default({}),
+});
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+
+/**
+ * Providers available without a config file. Base URLs come from the
+ * browser's `PROVIDER_TYPE_DISPLAY_INFO` so both hosts agree on endpoints.
+ */
+export const BUILTIN_CLI_PROVIDERS: Record<string, CliProviderConfig> = {
+  anthropic: {
+    apiSpec: 'anthropic',
+    baseUrl: PROVIDER_TYPE_DISPLAY_INFO['anthropic-api'].defaultBaseUrl,
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+  },
+  openai: {
+    apiSpec: 'openai-responses',
+    baseUrl: PROVIDER_TYPE_DISPLAY_INFO['openai-api'].defaultBaseUrl,
+    apiKeyEnv: 'OPENAI_API_KEY',
+  },
+  google: {
+    apiSpec: 'google',
+    baseUrl: PROVIDER_TYPE_DISPLAY_INFO['google-api'].defaultBaseUrl,
+    apiKeyEnv: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  },
+  openrouter: {
+    apiSpec: 'openai-chat-completions',
+    baseUrl: PROVIDER_TYPE_DISPLAY_INFO.openrouter.defaultBaseUrl,
+    apiKeyEnv: 'OPENROUTER_API_KEY',
+  },
+  'openai-compatible': {
+    apiSpec: 'openai-chat-completions',
+    apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+    apiKeyOptional: true,
+  },
+};
+
+/** Provider used when neither flags, env nor config name one. */
+export const DEFAULT_CLI_PROVIDER = 'anthropic';
+
+/**
+ * Reads and validates a CLI config file. Throws with the file path and
+ * the zod issue list when the file is malformed.
+ */
+export function loadCliConfig(configPath: string | undefined): CliConfig {
+  if (!configPath) return cliConfigSchema.parse({});
+
+  const resolved = path.resolve(configPath);
+  if (!existsSync(resolved)) {
+    throw new Error(`Config file not found: ${resolved}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(resolved, 'utf8'));
+  } catch (err) {
+    throw new Error(
+      `Failed to parse config file ${resolved}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const parsed = cliConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const messages = parsed.error.issues
+      .map((i) => `${i.path.join('.')}: ${i.message}`)
+      .join('; ');
+    throw new Error(`Invalid config file ${resolved}: ${messages}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Looks up a provider by name, with config-file entries shadowing the
+ * built-in presets of the same name.
+ */
+export function getCliProvider(
+  config: CliConfig,
+  name: string,
+): CliProviderConfig | undefined {
+  return config.providers[name] ?? BUILTIN_CLI_PROVIDERS[name];
+}
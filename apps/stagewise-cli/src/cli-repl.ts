@@ -0,0 +1,100 @@
+import { type Interface, createInterface } from 'node:readline';
+import type { AgentState } from '@stagewise/agent-core/types/agent';
+
+const EXIT_COMMANDS = new Set(['/exit', '/quit']);
+
+export interface CliReadline {
+  rl: Interface;
+  /** Whether stdin is a terminal (prompts and line editing are shown). */
+  interactive: boolean;
+  /**
+   * Asks a one-off question (e.g. a tool approval) on the same interface,
+   * so the answer is not mistaken for the next prompt. Rejects when
+   * `signal` aborts.
+   */
+  ask: (question: string, signal: AbortSignal) => Promise<string>;
+}
+
+/**
+ * The CLI's single stdin reader, shared by the REPL and approval
+ * prompts. Output goes to stderr so stdout stays pipeable.
+ */
+export function createCliReadline(): CliReadline {
+  const interactive = process.stdin.isTTY === true;
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+    terminal: interactive,
+  });
+
+  return {
+    rl,
+    interactive,
+    ask(question, signal) {
+      return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal.addEventListener(
+          'abort',
+          () => {
+            process.stderr.write('\n');
+            reject(signal.reason);
+          },
+          { once: true },
+        );
+        rl.question(question, { signal }, resolve);
+      });
+    },
+  };
+}
+
+/**
+ * Multi-turn loop over stdin. Each non-empty line is sent as one user
+ * message; the next prompt is shown once the agent is idle again.
+ *
+ * On a TTY, Ctrl-C stops the running turn (or exits when idle) and
+ * Ctrl-D / `/exit` ends the session. Piped stdin is read line by line
+ * until EOF, which makes scripted multi-turn runs possible.
+ */
+export async function runRepl(deps: {
+  readline: CliReadline;
+  initialPrompt?: string;
+  runTurn: (text: string) => Promise<AgentState | undefined>;
+  stop: () => Promise<void>;
+  isWorking: () => boolean;
+}): Promise<void> {
+  const { rl, interactive } = deps.readline;
+  rl.setPrompt('> ');
+
+  rl.on('SIGINT', () => {
+    if (deps.isWorking()) {
+      process.stderr.write('\n(stopping…)\n');
+      void deps.stop();
+      return;
+    }
+    rl.close();
+  });
+
+  const turn = async (text: string) => {
+    const state = await deps.runTurn(text);
+    if (state?.error) {
+      console.error('Agent error:', state.error);
+    }
+  };
+
+  try {
+    if (deps.initialPrompt) await turn(deps.initialPrompt);
+    if (interactive) rl.prompt();
+
+    for await (const line of rl) {
+      const text = line.trim();
+      if (EXIT_COMMANDS.has(text)) break;
+      if (text) await turn(text);
+      if (interactive) rl.prompt();
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,359 @@
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import {
+  AgentHost,
+  AgentManager,
+  AgentStore,
+  AgentTypeRegistry,
+  CommandRegistry,
+  createUniversalToolbox,
+  createInitialAgentSystemState,
+  updateAgentInstanceState,
+} from '@stagewise/agent-core';
+import {
+  AGENTS_MD_DOMAIN_ID,
+  ENABLED_SKILLS_DOMAIN_ID,
+  FILE_DIFFS_DOMAIN_ID,
+  GIT_DOMAIN_ID,
+  LOGS_DOMAIN_ID,
+  MEMORY_DOMAIN_ID,
+  PLANS_DOMAIN_ID,
+  WORKSPACE_DOMAIN_ID,
+  createAgentsMdDomainAdapter,
+  createCliGitStatusSource,
+  createEnabledSkillsDomainAdapter,
+  createFileDiffsDomainAdapter,
+  createGitDomainAdapter,
+  createLogsDomainAdapter,
+  createMemoryDomainAdapter,
+  createPlansDomainAdapter,
+  createWorkspaceDomainAdapter,
+} from '@stagewise/agent-core/env/adapters';
+import type { Logger, TelemetrySink } from '@stagewise/agent-core/host';
+import type { BaseAgentToolboxView } from '@stagewise/agent-core/agents';
+import { AgentCorePersistence } from '@stagewise/agent-core/persistence';
+import { MountManager } from '@stagewise/agent-core/mount-manager';
+import { AgentTypes } from '@stagewise/agent-core/types/agent';
+import type { AgentMessage } from '@stagewise/agent-core/types/agent';
+import {
+  ShellService,
+  type SmartApprovalDeps,
+  createShellSession,
+  executeShellCommand,
+} from '@stagewise/agent-shell';
+import {
+  SHELLS_DOMAIN_ID,
+  createShellsDomainAdapter,
+} from '@stagewise/agent-shell/env';
+import { createCliHostModels } from './cli-host-models.js';
+import type { CliConfig } from './cli-model-config.js';
+import { createCliHostPaths } from './cli-host-paths.js';
+import {
+  type CliToolboxPort,
+  createCliToolboxPort,
+} from './cli-toolbox-port.js';
+import { CliChatAgent } from './cli-chat-agent.js';
+import {
+  type CliApprovalMode,
+  type CliApprovalPolicy,
+  evaluateToolApproval,
+  isToolAllowed,
+} from './cli-approval-policy.js';
+
+export const TURN_TIMEOUT_MS = 600_000;
+
+export interface CliRuntime {
+  host: AgentHost;
+  store: AgentStore;
+  registry: CommandRegistry;
+  manager: AgentManager;
+  persistence: AgentCorePersistence;
+  toolboxPort: CliToolboxPort;
+  /** Tears down the manager, PTYs and databases, in that order. */
+  teardown: () => Promise<void>;
+}
+
+function ensureRuntimeDirs(host: AgentHost): void {
+  const roots = [
+    host.paths.dataDir(),
+    host.paths.tempDir(),
+    host.paths.agentsDir(),
+    host.paths.diffHistoryDir(),
+    host.paths.diffHistoryBlobsDir(),
+    host.paths.userDataDir(),
+    host.paths.plansDir(),
+    host.paths.logsDir(),
+    host.paths.memoryDir(),
+    host.paths.pluginsDir(),
+    host.paths.builtinSkillsDir(),
+    host.paths.ripgrepBaseDir(),
+    path.dirname(host.paths.agentDbPath()),
+    path.dirname(host.paths.fileReadCacheDbPath()),
+    path.dirname(host.paths.processedImageCacheDbPath()),
+    path.dirname(host.paths.diffHistoryDbPath()),
+  ];
+
+  for (const dir of roots) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Builds the headless agent runtime under `sessionRoot`: host, store,
+ * diff history, universal toolbox plus the shell tools, and an
+ * `AgentManager` with the CLI's chat agent and env adapters. Shared by
+ * the prompt runner and the ACP agent (`--acp`).
+ */
+export async function createCliRuntime(options: {
+  sessionRoot: string;
+  config: CliConfig;
+  providerName: string;
+  modelId: string;
+  baseUrl?: string;
+  policy: CliApprovalPolicy;
+  approvalMode: CliApprovalMode;
+  logger: Logger;
+  telemetry?: TelemetrySink;
+}): Promise<CliRuntime> {
+  const { policy, logger } = options;
+
+  const host = new AgentHost({
+    paths: createCliHostPaths(options.sessionRoot),
+    models: createCliHostModels({
+      config: options.config,
+      providerName: options.providerName,
+      defaultModelId: options.modelId,
+      baseUrlOverride: options.baseUrl,
+    }),
+    logger,
+    telemetry: options.telemetry,
+  });
+  ensureRuntimeDirs(host);
+
+  // Shell runtime (shared with the browser via @stagewise/agent-shell).
+  // No stream sink (headless = no live preview). Approval is decided by
+  // the policy file and `--approval` instead of the browser's LLM
+  // classifier.
+  const shellService = await ShellService.create(
+    logger,
+    (agentInstanceId: string) =>
+      path.join(host.paths.agentsDir(), agentInstanceId, 'shells'),
+  );
+
+  const store = new AgentStore(createInitialAgentSystemState());
+  const mountManager = new MountManager({
+    store,
+    logger,
+    hooks: {},
+    getAgentType: () => 'cli-chat',
+  });
+
+  // Diff history records every file the agent's tools touch; the JSON
+  // output and the ACP agent read per-tool-call edits from it.
+  const persistence = await AgentCorePersistence.create({ host, store });
+  persistence.setMountPathsResolver(() => mountManager.getAllMountedPaths());
+
+  const toolboxPort = createCliToolboxPort({
+    mountManager,
+    store,
+    diffHistory: persistence.diffHistory,
+    policyMountPermissions: policy.mounts,
+  });
+  const universalToolbox = createUniversalToolbox({
+    host,
+    mountManager,
+    diffHistoryService: persistence.diffHistory,
+    getMountPermissions: toolboxPort.getMountPermissions,
+  });
+  // The shell tools run in `smart` mode so every command passes this
+  // classifier; anything it flags is answered by `watchToolApprovals`.
+  const shellApproval = (id: string): SmartApprovalDeps => ({
+    async classify({ command }) {
+      const verdict = evaluateToolApproval(
+        policy,
+        options.approvalMode,
+        'executeShellCommand',
+        { command },
+      );
+      return {
+        needsApproval: verdict.decision !== 'allow',
+        explanation:
+          verdict.decision === 'deny'
+            ? verdict.reason
+            : 'Not covered by the approval policy.',
+      };
+    },
+    recordPendingApproval(toolCallId, explanation) {
+      updateAgentInstanceState(store, id, (state) => {
+        state.pendingApprovals[toolCallId] = { explanation };
+      });
+    },
+  });
+  // Extend the universal toolbox so the two shell tools resolve via
+  // `getTool`. Casts bridge the `ai` `Tool` shape divergence between the
+  // CLI compile site and the package's nested `ai` types.
+  const agentRuntimeToolbox: BaseAgentToolboxView = {
+    ...universalToolbox,
+    async getTool(name: string, id: string) {
+      if (!isToolAllowed(policy, name)) return null;
+      // Hide the shell tools when no usable shell was detected (mirrors the
+      // browser's ToolboxService.getTool); ChatAgent.getTools filters nulls.
+      const shellAvailable = shellService.isAvailable();
+      if (name === 'createShellSession') {
+        if (!shellAvailable) return null;
+        return createShellSession(shellService, id, () =>
+          universalToolbox.getMountedPathsForAgent(id),
+        ) as unknown as Awaited<ReturnType<typeof universalToolbox.getTool>>;
+      }
+      if (name === 'executeShellCommand') {
+        if (!shellAvailable) return null;
+        return executeShellCommand(
+          shellService,
+          id,
+          () => 'smart',
+          () => universalToolbox.getMountedPathsForAgent(id),
+          shellApproval(id),
+        ) as unknown as Awaited<ReturnType<typeof universalToolbox.getTool>>;
+      }
+      return universalToolbox.getTool(name, id);
+    },
+  };
+
+  const registry = new CommandRegistry();
+  const agentTypeRegistry = new AgentTypeRegistry();
+  agentTypeRegistry.register(AgentTypes.CHAT, CliChatAgent);
+
+  const manager = new AgentManager({
+    host,
+    commandRegistry: registry,
+    agentTypeRegistry,
+    startupPolicy: { kind: 'none' },
+    state: { store },
+    storage: {
+      persistenceDb: persistence.agentDb,
+      attachments: persistence.attachments,
+      fileReadCache: persistence.fileReadCache,
+    },
+    tools: {
+      managerToolbox: toolboxPort,
+      agentToolbox: agentRuntimeToolbox,
+    },
+  });
+
+  manager.registerEnvAdapter(
+    createWorkspaceDomainAdapter({
+      host,
+      mountManager,
+      getMountPermissions: toolboxPort.getMountPermissions,
+    }),
+  );
+  manager.registerEnvAdapter(
+    createAgentsMdDomainAdapter({
+      host,
+      mountManager,
+    }),
+  );
+  manager.registerEnvAdapter(createEnabledSkillsDomainAdapter({ host }));
+  manager.registerEnvAdapter(createMemoryDomainAdapter());
+  manager.registerEnvAdapter(createPlansDomainAdapter({ host, store }));
+  manager.registerEnvAdapter(createLogsDomainAdapter({ host, store }));
+  manager.registerEnvAdapter(createFileDiffsDomainAdapter({ store }));
+  manager.registerEnvAdapter(
+    createGitDomainAdapter({
+      mountManager,
+      source: createCliGitStatusSource(),
+    }),
+  );
+  manager.registerEnvAdapter(
+    createShellsDomainAdapter({
+      getSnapshot: (id) => shellService.getShellSnapshot(id),
+      getShellInfo: () => {
+        const info = shellService.getShellInfo();
+        return info
+          ? { platform: process.platform, type: info.type, path: info.path }
+          : null;
+      },
+    }),
+  );
+
+  // Opt the chat agent into the env domains registered above. Without a
+  // profile, `BaseAgent` resolves an empty allow-list and the model would
+  // receive no <workspace> mounts, no shell prompt section, and no
+  // <shell-sessions> state — which the shell tools depend on for the
+  // mount-prefix cwd. Listed explicitly, one per registered adapter.
+  host.defineAgentProfile(AgentTypes.CHAT, {
+    envDomainIds: [
+      WORKSPACE_DOMAIN_ID,
+      AGENTS_MD_DOMAIN_ID,
+      ENABLED_SKILLS_DOMAIN_ID,
+      MEMORY_DOMAIN_ID,
+      PLANS_DOMAIN_ID,
+      LOGS_DOMAIN_ID,
+      FILE_DIFFS_DOMAIN_ID,
+      GIT_DOMAIN_ID,
+      SHELLS_DOMAIN_ID,
+    ],
+  });
+
+  return {
+    host,
+    store,
+    registry,
+    manager,
+    persistence,
+    toolboxPort,
+    async teardown() {
+      try {
+        await manager.teardown();
+      } finally {
+        // Always kill PTYs, even if the run threw or timed out.
+        await shellService.teardown();
+        await persistence.teardown();
+      }
+    },
+  };
+}
+
+export function createUserTextMessage(
+  text: string,
+): AgentMessage & { role: 'user' } {
+  return {
+    id: randomUUID(),
+    role: 'user',
+    parts: [{ type: 'text', text }],
+    metadata: {
+      createdAt: new Date(),
+      partsMetadata: [],
+    },
+  };
+}
+
+/**
+ * Resolves once the agent's turn is over. The agent also stops working
+ * while a tool call waits for approval, so the turn only counts as over
+ * once no tool call is left in `approval-requested`.
+ */
+export async function waitUntilIdle(
+  store: AgentStore,
+  instanceId: string,
+  timeoutMs: number,
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const inst = store.get().agents.instances[instanceId];
+    const awaitingApproval = inst?.state.history.some(
+      (message) =>
+        message.role === 'assistant' &&
+        (message.parts as { state?: string }[]).some(
+          (part) => part.state === 'approval-requested',
+        ),
+    );
+    if (!inst?.state.isWorking && !awaitingApproval) {
+      await store.whenSettled();
+      return;
+    }
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms waiting for agent to finish`);
+}
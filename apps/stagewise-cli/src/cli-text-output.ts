@@ -0,0 +1,68 @@
+import type { CliHistoryEvent } from './cli-history-events.js';
+
+const MAX_TOOL_INPUT_CHARS = 120;
+
+function summarizeInput(input: unknown): string {
+  if (input === undefined) return '';
+  let json: string;
+  try {
+    json = JSON.stringify(input) ?? '';
+  } catch {
+    json = String(input);
+  }
+  return json.length > MAX_TOOL_INPUT_CHARS
+    ? `${json.slice(0, MAX_TOOL_INPUT_CHARS)}…`
+    : json;
+}
+
+/**
+ * Human-readable live output: assistant text streams to stdout, tool
+ * activity goes to stderr as one line per call and per result so stdout
+ * stays pipeable.
+ */
+export function createTextOutput(): {
+  onEvent: (event: CliHistoryEvent) => void;
+  /** Terminates a partially written assistant line. */
+  endTurn: () => void;
+} {
+  let atLineStart = true;
+
+  const breakLine = () => {
+    if (!atLineStart) {
+      process.stdout.write('\n');
+      atLineStart = true;
+    }
+  };
+
+  return {
+    onEvent(event) {
+      switch (event.type) {
+        case 'text-delta':
+          process.stdout.write(event.text);
+          atLineStart = event.text.endsWith('\n');
+          return;
+        case 'tool-call':
+          breakLine();
+          process.stderr.write(
+            `→ ${event.toolName} ${summarizeInput(event.input)}\n`,
+          );
+          return;
+        case 'tool-result': {
+          breakLine();
+          if (event.state === 'output-available') {
+            process.stderr.write(`✓ ${event.toolName}\n`);
+          } else if (event.state === 'output-denied') {
+            process.stderr.write(`✗ ${event.toolName}: denied\n`);
+          } else {
+            const firstLine = (event.errorText ?? 'unknown error').split(
+              '\n',
+            )[0];
+            process.stderr.write(`✗ ${event.toolName}: ${firstLine}\n`);
+          }
+          return;
+        }
+      }
+    },
+    endTurn: breakLine,
+  };
+}
@@ -1,38 +1,90 @@
 import type { AgentStore } from '@stagewise/agent-core';
 import type { AgentManagerToolboxPort } from '@stagewise/agent-core';
 import type { MountPermission } from '@stagewise/agent-core/types/metadata';
-import type { MountManager } from '@stagewise/agent-core/mount-manager';
+import {
+  type MountManager,
+  mountPrefixForPath,
+} from '@stagewise/agent-core/mount-manager';
+import type { DiffHistoryService } from '@stagewise/agent-core/diff-history';
+import type { ToolCallFileContentEdit } from '@stagewise/agent-core/types/diff-history';
 
+export type CliToolboxPort = AgentManagerToolboxPort & {
+  /** Permissions of a restricted mount; `undefined` means read-write. */
+  getMountPermissions(
+    agentInstanceId: string,
+    prefix: string,
+  ): MountPermission[] | undefined;
+};
+
+/**
+ * @param deps.policyMountPermissions - Permissions from the approval
+ *   policy, keyed by absolute workspace path. They take precedence over
+ *   the permissions a resumed session was persisted with.
+ */
 export function createCliToolboxPort(deps: {
   mountManager: MountManager;
   store: AgentStore;
-}): AgentManagerToolboxPort {
-  const { mountManager, store } = deps;
+  diffHistory: DiffHistoryService;
+  policyMountPermissions?: Record<string, MountPermission[]>;
+}): CliToolboxPort {
+  const { mountManager, store, diffHistory } = deps;
+  // agentInstanceId → mount prefix → permissions. Like the browser, the
+  // host tracks permissions; the core registry mounts read-write.
+  const mountPermissions = new Map<string, Map<string, MountPermission[]>>();
 
   return {
     async handleMountWorkspace(
       agentInstanceId: string,
       workspacePath: string,
-      _permissions?: MountPermission[],
+      permissions?: MountPermission[],
     ) {
+      const resolved =
+        deps.policyMountPermissions?.[workspacePath] ??
+        (permissions?.length ? permissions : undefined);
+      if (resolved) {
+        let perAgent = mountPermissions.get(agentInstanceId);
+        if (!perAgent) {
+          perAgent = new Map();
+          mountPermissions.set(agentInstanceId, perAgent);
+        }
+        perAgent.set(mountPrefixForPath(workspacePath), resolved);
+      }
       await mountManager.mountWorkspace(agentInstanceId, workspacePath);
     },
 
+    getMountPermissions(agentInstanceId: string, prefix: string) {
+      return mountPermissions.get(agentInstanceId)?.get(prefix);
+    },
+
     cancelQuestion() {},
 
     getWorkspaceSnapshotForPersistence(agentInstanceId: string) {
       const mounts =
         store.get().toolbox[agentInstanceId]?.workspace.mounts ?? [];
-      return mounts.map((m: { path: string }) => ({
+      const perAgent = mountPermissions.get(agentInstanceId);
+      return mounts.map((m: { prefix: string; path: string }) => ({
         path: m.path,
-        permissions: [] as MountPermission[],
+        permissions: perAgent?.get(m.prefix) ?? ([] as MountPermission[]),
       }));
     },
 
-    async finalizePendingEditsForAgent() {},
+    async finalizePendingEditsForAgent(agentInstanceId: string) {
+      await diffHistory.finalizePendingEditsForAgent(agentInstanceId);
+    },
+
+    async getEditedFilePathsForAgent(agentInstanceId: string) {
+      return diffHistory.getEditedFilePathsForAgent(agentInstanceId);
+    },
+
+    async getToolCallContentEdits(agentInstanceId: string) {
+      return diffHistory.getToolCallContentEdits(agentInstanceId);
+    },
 
-    async getEditedFilePathsForAgent() {
-      return [];
+    async importToolCallContentEdits(
+      agentInstanceId: string,
+      edits: ToolCallFileContentEdit[],
+    ) {
+      return diffHistory.importToolCallContentEdits(agentInstanceId, edits);
     },
   };
 }
@@ -1,84 +1,161 @@
 #!/usr/bin/env node
 import './agents-map.js';
-import { mkdirSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync } from 'node:fs';
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { tmpdir } from 'node:os';
-import {
-  AgentHost,
-  AgentManager,
-  AgentStore,
-  AgentTypeRegistry,
-  CommandRegistry,
-  createUniversalToolbox,
-  createInitialAgentSystemState,
-} from '@stagewise/agent-core';
-import {
-  AGENTS_MD_DOMAIN_ID,
-  ENABLED_SKILLS_DOMAIN_ID,
-  FILE_DIFFS_DOMAIN_ID,
-  LOGS_DOMAIN_ID,
-  MEMORY_DOMAIN_ID,
-  PLANS_DOMAIN_ID,
-  WORKSPACE_DOMAIN_ID,
-  createAgentsMdDomainAdapter,
-  createEnabledSkillsDomainAdapter,
-  createFileDiffsDomainAdapter,
-  createLogsDomainAdapter,
-  createMemoryDomainAdapter,
-  createPlansDomainAdapter,
-  createWorkspaceDomainAdapter,
-} from '@stagewise/agent-core/env/adapters';
 import type { Logger } from '@stagewise/agent-core/host';
-import type { BaseAgentToolboxView } from '@stagewise/agent-core/agents';
-import { AgentCorePersistence } from '@stagewise/agent-core/persistence';
-import { MountManager } from '@stagewise/agent-core/mount-manager';
 import { AgentTypes } from '@stagewise/agent-core/types/agent';
-import type {
-  AgentMessage,
-  AgentState,
-} from '@stagewise/agent-core/types/agent';
-import { createCliHostModels } from './cli-host-models.js';
-import { createCliHostPaths } from './cli-host-paths.js';
-import { createCliToolboxPort } from './cli-toolbox-port.js';
+import type { AgentState } from '@stagewise/agent-core/types/agent';
+import { getCliModelPricing, inferCliProviderName } from './cli-host-models.js';
+import { DEFAULT_CLI_PROVIDER, loadCliConfig } from './cli-model-config.js';
+import { watchAgentHistory } from './cli-history-events.js';
+import {
+  type CliApprovalMode,
+  cliApprovalModeSchema,
+  loadApprovalPolicy,
+} from './cli-approval-policy.js';
+import { createApprovalDecider, watchToolApprovals } from './cli-approvals.js';
 import {
-  ShellService,
-  createShellSession,
-  executeShellCommand,
-} from '@stagewise/agent-shell';
+  CLI_OUTPUT_FORMATS,
+  type CliJsonOutput,
+  type CliOutputFormat,
+  createJsonOutput,
+  createStepUsageSink,
+} from './cli-json-output.js';
+import { createCliReadline, runRepl } from './cli-repl.js';
+import { createTextOutput } from './cli-text-output.js';
 import {
-  SHELLS_DOMAIN_ID,
-  createShellsDomainAdapter,
-} from '@stagewise/agent-shell/env';
-import { CliChatAgent } from './cli-chat-agent.js';
+  TURN_TIMEOUT_MS,
+  createCliRuntime,
+  createUserTextMessage,
+  waitUntilIdle,
+} from './cli-runtime.js';
+import { runAcpAgent } from './cli-acp.js';
+import {
+  type CliJsonRpcTarget,
+  parseJsonRpcTarget,
+  runJsonRpcServer,
+} from './cli-jsonrpc.js';
 
 const DEFAULT_MODEL = 'claude-sonnet-4.6';
+// `src/` and the bundled `dist/` both sit next to package.json.
+const CLI_VERSION = (
+  JSON.parse(
+    readFileSync(new URL('../package.json', import.meta.url), 'utf8'),
+  ) as { version: string }
+).version;
 
 function parseArgs(argv: string[]): {
   cwd: string;
-  modelId: string;
+  modelId?: string;
+  providerName?: string;
+  baseUrl?: string;
+  configPath?: string;
+  sessionsDir: string;
+  resumeSessionId?: string;
+  interactive: boolean;
+  outputFormat: CliOutputFormat;
+  approvalMode: CliApprovalMode;
+  policyPath?: string;
+  acp: boolean;
+  jsonRpc?: CliJsonRpcTarget;
   prompt: string;
 } {
   let cwd = process.cwd();
-  let modelId = process.env.STAGEWISE_CLI_MODEL ?? DEFAULT_MODEL;
+  let modelId = process.env.STAGEWISE_CLI_MODEL;
+  let providerName = process.env.STAGEWISE_CLI_PROVIDER;
+  let baseUrl: string | undefined;
+  let configPath = process.env.STAGEWISE_CLI_CONFIG;
+  let sessionsDir =
+    process.env.STAGEWISE_CLI_SESSIONS_DIR ??
+    path.join(tmpdir(), 'stagewise-cli');
+  let resumeSessionId: string | undefined;
+  let interactive = false;
+  let outputFormat: CliOutputFormat = 'text';
+  let approvalMode: CliApprovalMode | undefined;
+  let policyPath = process.env.STAGEWISE_CLI_POLICY;
+  let acp = false;
+  let jsonRpc: CliJsonRpcTarget | undefined;
   const rest: string[] = [];
 
+  // Flags taking a value, accepted as `--flag value` or `--flag=value`.
+  const valueFlags: Record<string, (value: string) => void> = {
+    '--cwd': (v) => {
+      cwd = path.resolve(v);
+    },
+    '--model': (v) => {
+      modelId = v;
+    },
+    '--provider': (v) => {
+      providerName = v;
+    },
+    '--base-url': (v) => {
+      baseUrl = v;
+    },
+    '--config': (v) => {
+      configPath = v;
+    },
+    '--sessions-dir': (v) => {
+      sessionsDir = path.resolve(v);
+    },
+    '--resume': (v) => {
+      resumeSessionId = v;
+    },
+    '--output-format': (v) => {
+      if (!CLI_OUTPUT_FORMATS.includes(v as CliOutputFormat)) {
+        throw new Error(
+          `Invalid --output-format "${v}". Expected one of: ${CLI_OUTPUT_FORMATS.join(', ')}`,
+        );
+      }
+      outputFormat = v as CliOutputFormat;
+    },
+    '--approval': (v) => {
+      const parsed = cliApprovalModeSchema.safeParse(v);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid --approval "${v}". Expected one of: ${cliApprovalModeSchema.options.join(', ')}`,
+        );
+      }
+      approvalMode = parsed.data;
+    },
+    '--policy': (v) => {
+      policyPath = v;
+    },
+  };
+
   for (let i = 0; i < argv.length; i++) {
     const a = argv[i]!;
-    if (a === '--cwd' && argv[i + 1]) {
-      cwd = path.resolve(argv[++i]!);
+    if (a === '--jsonrpc' || a.startsWith('--jsonrpc=')) {
+      // The target is optional, `--jsonrpc` alone serves stdio
+      const next = argv[i + 1];
+      jsonRpc = parseJsonRpcTarget(
+        a !== '--jsonrpc'
+          ? a.slice('--jsonrpc='.length)
+          : next === 'stdio' || next === 'ws' || next?.startsWith('ws://')
+            ? argv[++i]!
+            : 'stdio',
+      );
       continue;
     }
-    if (a.startsWith('--cwd=')) {
-      cwd = path.resolve(a.slice('--cwd='.length));
-      continue;
+    const eq = a.startsWith('--') ? a.indexOf('=') : -1;
+    const setValue = valueFlags[eq === -1 ? a : a.slice(0, eq)];
+    if (setValue) {
+      if (eq !== -1) {
+        setValue(a.slice(eq + 1));
+        continue;
+      }
+      if (argv[i + 1]) {
+        setValue(argv[++i]!);
+        continue;
+      }
     }
-    if (a === '--model' && argv[i + 1]) {
-      modelId = argv[++i]!;
+    if (a === '--interactive' || a === '-i') {
+      interactive = true;
       continue;
     }
-    if (a.startsWith('--model=')) {
-      modelId = a.slice('--model='.length);
+    if (a === '--acp') {
+      acp = true;
       continue;
     }
     if (a === '--help' || a === '-h') {
@@ -89,53 +166,84 @@ function parseArgs(argv: string[]): {
   }
 
   const prompt = rest.join(' ').trim();
-  if (!prompt) {
-    console.error('Missing prompt. Usage: stagewise-cli [options] <prompt>');
-    printHelp();
-    process.exit(1);
-  }
-
-  return { cwd, modelId, prompt };
+  // Without a prompt there is nothing to run one-shot: fall back to the
+  // REPL, which reads prompts from stdin (TTY or pipe).
+  if (!prompt) interactive = true;
+  // Ask when someone can answer (a terminal, the ACP or JSON-RPC client),
+  // refuse otherwise (CI, pipes).
+  approvalMode ??=
+    acp || jsonRpc || process.stdin.isTTY === true ? 'ask' : 'deny';
+
+  return {
+    cwd,
+    modelId,
+    providerName,
+    baseUrl,
+    configPath,
+    sessionsDir,
+    resumeSessionId,
+    interactive,
+    outputFormat,
+    approvalMode,
+    policyPath,
+    acp,
+    jsonRpc,
+    prompt,
+  };
 }
 
 function printHelp() {
-  console.error(`stagewise-cli — minimal headless agent (Anthropic)
+  console.error(`stagewise-cli — minimal headless agent
 
 Usage:
-  stagewise-cli [--cwd <dir>] [--model <id>] <prompt>
+  stagewise-cli [options] <prompt>      run one prompt and exit
+  stagewise-cli [options] [-i] [prompt] interactive session (stdin)
+  stagewise-cli [options] --acp         serve the agent to an ACP client
+                                        over stdio (e.g. an editor)
+  stagewise-cli [options] --jsonrpc [stdio|ws|ws://<host>:<port>]
+                                        serve the agent commands over
+                                        JSON-RPC 2.0 (default: stdio; ws
+                                        listens on 127.0.0.1)
+
+Options:
+  --cwd <dir>            Workspace to mount (default: current directory)
+  --model <id>           Model id (${DEFAULT_MODEL})
+  --provider <name>      Provider preset or config-file provider
+  --base-url <url>       Base URL override for the provider
+  --config <file>        JSON config file with provider definitions
+  --resume <sessionId>   Continue an earlier session
+  --sessions-dir <dir>   Where sessions are stored
+                         (default: <tmpdir>/stagewise-cli)
+  -i, --interactive      Keep reading prompts after the first turn
+  --output-format <fmt>  text (default), json (one object at the end) or
+                         stream-json (one JSON event per line)
+  --approval <mode>      ask, deny or allow tool calls that need approval
+                         (default: ask on a TTY or with --acp or
+                         --jsonrpc, deny otherwise)
+  --policy <file>        JSON policy: allowed tools, shell command
+                         patterns, mount permissions
+
+Providers (built-in):
+  anthropic           ANTHROPIC_API_KEY
+  openai              OPENAI_API_KEY
+  google              GOOGLE_GENERATIVE_AI_API_KEY
+  openrouter          OPENROUTER_API_KEY
+  openai-compatible   --base-url required, OPENAI_COMPATIBLE_API_KEY optional
 
 Environment:
-  ANTHROPIC_API_KEY   Required
-  STAGEWISE_CLI_MODEL Optional default model id (${DEFAULT_MODEL})
+  STAGEWISE_CLI_MODEL        Optional default model id
+  STAGEWISE_CLI_PROVIDER     Optional default provider name
+  STAGEWISE_CLI_CONFIG       Optional config file path
+  STAGEWISE_CLI_SESSIONS_DIR Optional sessions directory
+  STAGEWISE_CLI_POLICY       Optional approval policy file path
+  STAGEWISE_CLI_JSONRPC_TOKEN
+                             Optional token for --jsonrpc ws clients
+                             (default: random, printed at startup)
 `);
 }
 
-function ensureRuntimeDirs(host: AgentHost): void {
-  const roots = [
-    host.paths.dataDir(),
-    host.paths.tempDir(),
-    host.paths.agentsDir(),
-    host.paths.diffHistoryDir(),
-    host.paths.diffHistoryBlobsDir(),
-    host.paths.userDataDir(),
-    host.paths.plansDir(),
-    host.paths.logsDir(),
-    host.paths.memoryDir(),
-    host.paths.pluginsDir(),
-    host.paths.builtinSkillsDir(),
-    host.paths.ripgrepBaseDir(),
-    path.dirname(host.paths.agentDbPath()),
-    path.dirname(host.paths.fileReadCacheDbPath()),
-    path.dirname(host.paths.processedImageCacheDbPath()),
-    path.dirname(host.paths.diffHistoryDbPath()),
-  ];
-
-  for (const dir of roots) {
-    mkdirSync(dir, { recursive: true });
-  }
-}
-
-function lastAssistantText(state: AgentState): string {
+function lastAssistantText(state: AgentState | undefined): string {
+  if (!state) return '';
   for (let i = state.history.length - 1; i >= 0; i--) {
     const m = state.history[i];
     if (!m || m.role !== 'assistant') continue;
@@ -148,31 +256,17 @@ function lastAssistantText(state: AgentState): string {
   return '';
 }
 
-async function waitUntilIdle(
-  store: AgentStore,
-  instanceId: string,
-  timeoutMs: number,
-): Promise<void> {
-  const deadline = Date.now() + timeoutMs;
-  while (Date.now() < deadline) {
-    const inst = store.get().agents.instances[instanceId];
-    if (!inst?.state.isWorking) {
-      await store.whenSettled();
-      return;
-    }
-    await new Promise((r) => setTimeout(r, 200));
-  }
-  throw new Error(`Timed out after ${timeoutMs}ms waiting for agent to finish`);
-}
-
 async function main() {
-  const { cwd, modelId, prompt } = parseArgs(process.argv.slice(2));
-
-  const sessionId = randomUUID();
-  const sessionRoot = path.join(tmpdir(), 'stagewise-cli', sessionId);
-  mkdirSync(sessionRoot, { recursive: true });
-
-  const paths = createCliHostPaths(sessionRoot);
+  const args = parseArgs(process.argv.slice(2));
+  const { cwd, prompt } = args;
+  const config = loadCliConfig(args.configPath);
+  const policy = loadApprovalPolicy(args.policyPath);
+  const modelId = args.modelId ?? config.model ?? DEFAULT_MODEL;
+  const providerName =
+    args.providerName ??
+    config.provider ??
+    inferCliProviderName(modelId) ??
+    DEFAULT_CLI_PROVIDER;
 
   const logger: Logger = {
     debug: (...a: unknown[]) => console.error('[debug]', ...a),
@@ -181,174 +275,243 @@ async function main() {
     error: (...a: unknown[]) => console.error('[error]', ...a),
   };
 
-  const hostModels = createCliHostModels(modelId);
-
-  const host = new AgentHost({
-    paths,
-    models: hostModels,
-    logger,
-  });
-  ensureRuntimeDirs(host);
-
-  // Shell runtime (shared with the browser via @stagewise/agent-shell).
-  // No stream sink (headless = no live preview) and no smart-approval —
-  // the CLI runs in `alwaysAllow`.
-  const shellService = await ShellService.create(
-    logger,
-    (agentInstanceId: string) =>
-      path.join(host.paths.agentsDir(), agentInstanceId, 'shells'),
-  );
-
-  const store = new AgentStore(createInitialAgentSystemState());
-  const mountManager = new MountManager({
-    store,
-    logger,
-    hooks: {},
-    getAgentType: () => 'cli-chat',
-  });
-
-  const toolboxPort = createCliToolboxPort({ mountManager, store });
-  const universalToolbox = createUniversalToolbox({ host, mountManager });
-  // Extend the universal toolbox so the two shell tools resolve via
-  // `getTool`. Casts bridge the `ai` `Tool` shape divergence between the
-  // CLI compile site and the package's nested `ai` types.
-  const agentRuntimeToolbox: BaseAgentToolboxView = {
-    ...universalToolbox,
-    async getTool(name: string, id: string) {
-      // Hide the shell tools when no usable shell was detected (mirrors the
-      // browser's ToolboxService.getTool); ChatAgent.getTools filters nulls.
-      const shellAvailable = shellService.isAvailable();
-      if (name === 'createShellSession') {
-        if (!shellAvailable) return null;
-        return createShellSession(shellService, id, () =>
-          universalToolbox.getMountedPathsForAgent(id),
-        ) as unknown as Awaited<ReturnType<typeof universalToolbox.getTool>>;
-      }
-      if (name === 'executeShellCommand') {
-        if (!shellAvailable) return null;
-        return executeShellCommand(
-          shellService,
-          id,
-          () => 'alwaysAllow',
-          () => universalToolbox.getMountedPathsForAgent(id),
-        ) as unknown as Awaited<ReturnType<typeof universalToolbox.getTool>>;
-      }
-      return universalToolbox.getTool(name, id);
-    },
-  };
+  if (args.acp) {
+    // Editors open several sessions per process, so ACP sessions share one
+    // runtime under `<sessions-dir>/acp/`, one chat agent per session.
+    const runtime = await createCliRuntime({
+      sessionRoot: path.join(args.sessionsDir, 'acp'),
+      config,
+      providerName,
+      modelId,
+      baseUrl: args.baseUrl,
+      policy,
+      approvalMode: args.approvalMode,
+      logger,
+    });
+    try {
+      await runAcpAgent({
+        runtime,
+        policy,
+        approvalMode: args.approvalMode,
+        modelId,
+        version: CLI_VERSION,
+        logger,
+      });
+    } finally {
+      await runtime.teardown();
+    }
+    process.exit(0);
+  }
 
-  const persistence = await AgentCorePersistence.create({ host, store });
+  if (args.jsonRpc) {
+    // Like ACP, clients create and resume agents themselves, all in one
+    // runtime under `<sessions-dir>/jsonrpc/`.
+    const runtime = await createCliRuntime({
+      sessionRoot: path.join(args.sessionsDir, 'jsonrpc'),
+      config,
+      providerName,
+      modelId,
+      baseUrl: args.baseUrl,
+      policy,
+      approvalMode: args.approvalMode,
+      logger,
+    });
+    const stop = new AbortController();
+    process.once('SIGINT', () => stop.abort());
+    process.once('SIGTERM', () => stop.abort());
+    try {
+      await runJsonRpcServer({
+        runtime,
+        target: args.jsonRpc,
+        policy,
+        approvalMode: args.approvalMode,
+        logger,
+        token: process.env.STAGEWISE_CLI_JSONRPC_TOKEN,
+        signal: stop.signal,
+      });
+    } finally {
+      await runtime.teardown();
+    }
+    process.exit(0);
+  }
 
-  const registry = new CommandRegistry();
-  const agentTypeRegistry = new AgentTypeRegistry();
-  agentTypeRegistry.register(AgentTypes.CHAT, CliChatAgent);
+  const sessionId = args.resumeSessionId ?? randomUUID();
+  const sessionRoot = path.join(args.sessionsDir, sessionId);
+  if (args.resumeSessionId && !existsSync(sessionRoot)) {
+    throw new Error(
+      `Session ${sessionId} not found in ${args.sessionsDir} (use --sessions-dir if it was created elsewhere)`,
+    );
+  }
+  mkdirSync(sessionRoot, { recursive: true });
 
-  const manager = new AgentManager({
-    host,
-    commandRegistry: registry,
-    agentTypeRegistry,
-    startupPolicy: { kind: 'none' },
-    state: { store },
-    storage: {
-      persistenceDb: persistence.agentDb,
-      attachments: persistence.attachments,
-      fileReadCache: persistence.fileReadCache,
-    },
-    tools: {
-      managerToolbox: toolboxPort,
-      agentToolbox: agentRuntimeToolbox,
-    },
-  });
+  // Per-step token usage is only surfaced through telemetry; the JSON
+  // output is created once persistence exists, hence the late binding.
+  let jsonOutput: CliJsonOutput | undefined;
+  const { store, registry, manager, persistence, toolboxPort, teardown } =
+    await createCliRuntime({
+      sessionRoot,
+      config,
+      providerName,
+      modelId,
+      baseUrl: args.baseUrl,
+      policy,
+      approvalMode: args.approvalMode,
+      logger,
+      telemetry:
+        args.outputFormat === 'text'
+          ? undefined
+          : createStepUsageSink((step) => jsonOutput?.onStepUsage(step)),
+    });
+
+  // A session holds exactly one top-level chat agent whose instance id is
+  // the session id, so `--resume <sessionId>` maps straight onto
+  // `AgentManager.resumeAgent`.
+  const instanceId = sessionId;
+  if (args.resumeSessionId) {
+    await manager.resumeAgent(instanceId);
+    if (args.modelId) {
+      await registry.dispatch('agents.setActiveModelId', { callerId: 'cli' }, [
+        instanceId,
+        args.modelId,
+      ]);
+    }
+  } else {
+    await manager.createAgent(
+      AgentTypes.CHAT,
+      undefined,
+      undefined,
+      { activeModelId: modelId },
+      instanceId,
+      undefined,
+    );
+  }
 
-  manager.registerEnvAdapter(
-    createWorkspaceDomainAdapter({ host, mountManager }),
-  );
-  manager.registerEnvAdapter(
-    createAgentsMdDomainAdapter({
-      host,
-      mountManager,
-    }),
-  );
-  manager.registerEnvAdapter(createEnabledSkillsDomainAdapter({ host }));
-  manager.registerEnvAdapter(createMemoryDomainAdapter());
-  manager.registerEnvAdapter(createPlansDomainAdapter({ host, store }));
-  manager.registerEnvAdapter(createLogsDomainAdapter({ host, store }));
-  manager.registerEnvAdapter(createFileDiffsDomainAdapter({ store }));
-  manager.registerEnvAdapter(
-    createShellsDomainAdapter({
-      getSnapshot: (id) => shellService.getShellSnapshot(id),
-      getShellInfo: () => {
-        const info = shellService.getShellInfo();
-        return info
-          ? { platform: process.platform, type: info.type, path: info.path }
-          : null;
-      },
-    }),
+  // Resumed agents re-mount their persisted workspaces; only mount `cwd`
+  // for fresh sessions or when nothing could be restored.
+  const mounts = store.get().toolbox[instanceId]?.workspace.mounts ?? [];
+  if (mounts.length === 0) {
+    await toolboxPort.handleMountWorkspace(instanceId, cwd, []);
+  }
+  await manager.setToolApprovalMode(
+    instanceId,
+    args.approvalMode === 'allow' && !policy.shell ? 'alwaysAllow' : 'smart',
   );
 
-  // Opt the chat agent into the env domains registered above. Without a
-  // profile, `BaseAgent` resolves an empty allow-list and the model would
-  // receive no <workspace> mounts, no shell prompt section, and no
-  // <shell-sessions> state — which the shell tools depend on for the
-  // mount-prefix cwd. Listed explicitly, one per registered adapter.
-  host.defineAgentProfile(AgentTypes.CHAT, {
-    envDomainIds: [
-      WORKSPACE_DOMAIN_ID,
-      AGENTS_MD_DOMAIN_ID,
-      ENABLED_SKILLS_DOMAIN_ID,
-      MEMORY_DOMAIN_ID,
-      PLANS_DOMAIN_ID,
-      LOGS_DOMAIN_ID,
-      FILE_DIFFS_DOMAIN_ID,
-      SHELLS_DOMAIN_ID,
-    ],
+  // One stdin reader for both the REPL and approval prompts. One-shot runs
+  // only need it when they may have to ask.
+  const readline =
+    args.interactive || args.approvalMode === 'ask'
+      ? createCliReadline()
+      : undefined;
+  const stopApprovals = watchToolApprovals({
+    store,
+    instanceId,
+    decide: createApprovalDecider({
+      policy,
+      mode: args.approvalMode,
+      ask: readline?.interactive ? readline.ask : undefined,
+    }),
+    respond: (approvalId, { approved, reason }) =>
+      registry.dispatch(
+        'agents.sendToolApprovalResponse',
+        { callerId: 'cli' },
+        [instanceId, approvalId, approved, reason],
+      ) as Promise<void>,
+    onError: (err) => logger.error('Failed to answer tool approval', err),
   });
 
-  const agent = await manager.createAgent(
-    AgentTypes.CHAT,
-    undefined,
-    undefined,
-    { activeModelId: modelId },
-    undefined,
-    undefined,
+  logger.info(
+    `Session ${sessionId} (${sessionRoot}). Resume with --resume ${sessionId}`,
   );
 
-  const instanceId = agent.instanceId;
-
-  await toolboxPort.handleMountWorkspace(instanceId, cwd, []);
-  await manager.setToolApprovalMode(instanceId, 'alwaysAllow');
+  if (args.outputFormat !== 'text') {
+    jsonOutput = createJsonOutput({
+      format: args.outputFormat,
+      sessionId,
+      instanceId,
+      diffHistory: persistence.diffHistory,
+      getPricing: (id) => getCliModelPricing({ config, providerName }, id),
+    });
+    jsonOutput.emit({
+      type: 'session',
+      sessionId,
+      resumed: !!args.resumeSessionId,
+      cwd,
+      modelId:
+        store.get().agents.instances[instanceId]?.state.activeModelId ??
+        modelId,
+      provider: providerName,
+    });
+  }
+  const textOutput = jsonOutput ? undefined : createTextOutput();
+  const stopWatching = watchAgentHistory(store, instanceId, (event) =>
+    (jsonOutput ?? textOutput)?.onEvent(event),
+  );
 
-  const message: AgentMessage & { role: 'user' } = {
-    id: randomUUID(),
-    role: 'user',
-    parts: [{ type: 'text', text: prompt }],
-    metadata: {
-      createdAt: new Date(),
-      partsMetadata: [],
-    },
+  const runTurn = async (text: string): Promise<AgentState | undefined> => {
+    jsonOutput?.startTurn(text);
+    try {
+      await manager.sendUserMessage(instanceId, createUserTextMessage(text));
+      await waitUntilIdle(store, instanceId, TURN_TIMEOUT_MS);
+    } finally {
+      textOutput?.endTurn();
+    }
+    const state = store.get().agents.instances[instanceId]?.state;
+    await jsonOutput?.endTurn({
+      text: lastAssistantText(state),
+      contextTokens: state?.usedTokens ?? 0,
+      error: state?.error,
+    });
+    return state;
   };
 
-  let finalState: AgentState | undefined;
+  let exitCode = 0;
+  let runError: { message: string } | undefined;
   try {
-    await manager.sendUserMessage(instanceId, message);
-    await waitUntilIdle(store, instanceId, 600_000);
-    finalState = store.get().agents.instances[instanceId]?.state;
+    if (readline && args.interactive) {
+      await runRepl({
+        readline,
+        initialPrompt: args.prompt || undefined,
+        runTurn,
+        stop: () => manager.stopAgent(instanceId),
+        isWorking: () =>
+          !!store.get().agents.instances[instanceId]?.state.isWorking,
+      });
+    } else {
+      readline?.rl.on('SIGINT', () => {
+        process.stderr.write('\n(stopping…)\n');
+        void manager.stopAgent(instanceId);
+      });
+      const finalState = await runTurn(prompt);
+      if (finalState?.error) {
+        console.error('Agent error:', finalState.error);
+        exitCode = 1;
+      } else if (!jsonOutput && !lastAssistantText(finalState)) {
+        process.stdout.write('(no assistant text)\n');
+      }
+    }
+  } catch (err) {
+    // Without JSON output the error propagates to the top-level handler;
+    // with it, it becomes the `result` event so pipelines still get one.
+    if (!jsonOutput) throw err;
+    runError = { message: err instanceof Error ? err.message : String(err) };
+    exitCode = 1;
   } finally {
-    try {
-      await manager.teardown();
-    } finally {
-      // Always kill PTYs, even if the run threw or timed out.
-      await shellService.teardown();
+    stopWatching();
+    stopApprovals();
+    readline?.rl.close();
+    if (jsonOutput) {
+      const finalState = store.get().agents.instances[instanceId]?.state;
+      await jsonOutput.finish({
+        text: lastAssistantText(finalState),
+        error: runError ?? finalState?.error,
+      });
     }
+    await teardown();
   }
 
-  if (finalState?.error) {
-    console.error('Agent error:', finalState.error);
-    process.exit(1);
-  }
-
-  const text = finalState ? lastAssistantText(finalState) : '';
-  process.stdout.write(text ? `${text}\n` : '(no assistant text)\n');
+  console.error(`Session: ${sessionId}`);
+  process.exit(exitCode);
 }
 
 main().catch((err) => {
@@ -0,0 +1,16 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    passWithNoTests: true,
+    include: ['src/**/*.test.ts'],
+  },
+  resolve: {
+    alias: {
+      // Same as the `paths` of tsconfig.json
+      '@shared': path.resolve(__dirname, '../browser/src/shared'),
+    },
+  },
+});
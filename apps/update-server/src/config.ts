@@ -1,15 +1,36 @@
+export type ReleaseSourceType = 'github' | 'local' | 'http-manifest';
+
+const port = Number.parseInt(process.env.PORT || '3000', 10);
+const publicUrl = process.env.PUBLIC_URL || undefined;
+
 export const config = {
-  port: Number.parseInt(process.env.PORT || '3000', 10),
+  port,
   appName: process.env.APP_NAME || 'stagewise',
+  // Where releases are listed: GitHub Releases (default), a local
+  // directory (RELEASES_DIR) or a JSON manifest (RELEASES_MANIFEST_URL).
+  releaseSource: (process.env.RELEASE_SOURCE || 'github') as ReleaseSourceType,
+  releasesDir: process.env.RELEASES_DIR || undefined,
+  // Public URL of RELEASES_DIR. Defaults to this server's /files route.
+  releasesBaseUrl:
+    process.env.RELEASES_BASE_URL ||
+    `${publicUrl ?? `http://localhost:${port}`}/files`,
+  releasesManifestUrl: process.env.RELEASES_MANIFEST_URL || undefined,
   githubOrg: process.env.APP_GITHUB_ORG || 'stagewise',
   githubRepo: process.env.APP_GITHUB_REPO || 'stagewise',
   githubToken: process.env.GITHUB_TOKEN || undefined,
+  githubApiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
   refreshIntervalMs: 15 * 60 * 1000, // 15 minutes
+  // Staged rollouts, blocked versions and minimum versions (see spec.md).
+  // Read from a URL or a file path and re-read every minute, so a bad
+  // release can be held back without redeploying the server.
+  rolloutConfigUrl: process.env.ROLLOUT_CONFIG_URL || undefined,
+  rolloutConfigPath: process.env.ROLLOUT_CONFIG_PATH || undefined,
+  rolloutRefreshIntervalMs: 60 * 1000, // 1 minute
   // Public-facing base URL of this update server (e.g. https://update.stagewise.io).
   // Used when building self-referential proxy URLs inside Squirrel.Windows
   // RELEASES manifests. REQUIRED in production (enforced at startup); in
   // non-production environments we fall back to the request-derived origin.
-  publicUrl: process.env.PUBLIC_URL || undefined,
+  publicUrl,
   isProduction: process.env.NODE_ENV === 'production',
 };
 
@@ -26,8 +47,32 @@ export function validateConfig(): void {
         'RELEASES manifests. Example: PUBLIC_URL=https://dl.stagewise.io',
     );
   }
+
+  switch (config.releaseSource) {
+    case 'github':
+      break;
+    case 'local':
+      if (!config.releasesDir) {
+        throw new Error('FATAL: RELEASE_SOURCE=local requires RELEASES_DIR.');
+      }
+      break;
+    case 'http-manifest':
+      if (!config.releasesManifestUrl) {
+        throw new Error(
+          'FATAL: RELEASE_SOURCE=http-manifest requires RELEASES_MANIFEST_URL.',
+        );
+      }
+      break;
+    default:
+      throw new Error(
+        `FATAL: Unknown RELEASE_SOURCE "${config.releaseSource}". ` +
+          'Use "github", "local" or "http-manifest".',
+      );
+  }
 }
 
 export type Channel = 'release' | 'nightly' | 'beta' | 'alpha';
 export type Platform = 'macos' | 'win' | 'linux';
-export type LinuxFormat = 'deb' | 'rpm';
+export type LinuxFormat = 'deb' | 'rpm' | 'appimage' | 'tar.gz';
+// Formats the Linux update endpoint can serve (self-updating installs).
+export type LinuxUpdateFormat = 'appimage' | 'tar.gz';
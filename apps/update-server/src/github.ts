@@ -1,16 +1,8 @@
-import { config } from './config.js';
-import {
-  parseVersion,
-  extractVersionFromTag,
-  compareVersions,
-  type ParsedVersion,
-} from './version.js';
-
-export interface GitHubAsset {
-  name: string;
-  browser_download_url: string;
-  size: number;
-}
+import type {
+  ReleaseAsset,
+  ReleaseSource,
+  SourceRelease,
+} from './release-source.js';
 
 interface GitHubRelease {
   tag_name: string;
@@ -18,100 +10,103 @@ interface GitHubRelease {
   body: string;
   prerelease: boolean;
   published_at: string;
-  assets: GitHubAsset[];
+  // GitHub computes `digest` ("sha256:<hex>") for every upload; assets
+  // uploaded before it started doing so have none.
+  assets: ReleaseAsset[];
 }
 
-export interface Release {
-  tag: string;
-  version: string;
-  parsedVersion: ParsedVersion;
-  name: string;
-  notes: string;
-  publishedAt: string;
-  assets: GitHubAsset[];
+interface CachedPage {
+  etag: string;
+  releases: GitHubRelease[];
+  next: string | null;
 }
 
-let cachedReleases: Release[] = [];
-let lastFetch = 0;
+// Link: <https://api.github.com/...&page=2>; rel="next", <...>; rel="last"
+function parseNextLink(link: string | null): string | null {
+  if (!link) return null;
+  for (const part of link.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
 
-export async function fetchReleases(): Promise<Release[]> {
-  const url = `https://api.github.com/repos/${config.githubOrg}/${config.githubRepo}/releases?per_page=100`;
+/**
+ * Releases of a GitHub repository. Follows the `Link` header through all
+ * pages and revalidates each page with its ETag, so unchanged pages cost
+ * a 304 (which doesn't count against the API rate limit) instead of a
+ * full download.
+ */
+export function createGitHubReleaseSource(options: {
+  apiUrl: string;
+  org: string;
+  repo: string;
+  token?: string;
+  perPage?: number;
+}): ReleaseSource {
+  const { apiUrl, org, repo, token, perPage = 100 } = options;
+  const pages = new Map<string, CachedPage>();
 
   const headers: Record<string, string> = {
     Accept: 'application/vnd.github.v3+json',
     'User-Agent': 'update-server',
   };
 
-  if (config.githubToken) {
-    headers.Authorization = `Bearer ${config.githubToken}`;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
   }
 
-  const response = await fetch(url, { headers });
-
-  if (!response.ok) {
-    throw new Error(
-      `GitHub API error: ${response.status} ${response.statusText}`,
-    );
-  }
-
-  const data: GitHubRelease[] = await response.json();
-  const releases: Release[] = [];
+  async function fetchPage(url: string): Promise<CachedPage> {
+    const cached = pages.get(url);
+    const response = await fetch(url, {
+      headers: cached ? { ...headers, 'If-None-Match': cached.etag } : headers,
+    });
 
-  for (const release of data) {
-    const version = extractVersionFromTag(release.tag_name, config.appName);
-    if (!version) continue;
+    if (response.status === 304 && cached) return cached;
 
-    const parsedVersion = parseVersion(version);
-    if (!parsedVersion) continue;
+    if (!response.ok) {
+      throw new Error(
+        `GitHub API error: ${response.status} ${response.statusText}`,
+      );
+    }
 
-    releases.push({
-      tag: release.tag_name,
-      version,
-      parsedVersion,
-      name: release.name || version,
-      notes: release.body || '',
-      publishedAt: release.published_at,
-      assets: release.assets,
-    });
+    const page: CachedPage = {
+      etag: response.headers.get('etag') ?? '',
+      releases: await response.json(),
+      next: parseNextLink(response.headers.get('link')),
+    };
+    if (page.etag) pages.set(url, page);
+    else pages.delete(url);
+    return page;
   }
 
-  // Sort releases by version (newest first)
-  releases.sort((a, b) => compareVersions(b.version, a.version));
+  return {
+    description: `GitHub ${org}/${repo}`,
 
-  return releases;
-}
+    async listReleases(): Promise<SourceRelease[]> {
+      const releases: GitHubRelease[] = [];
+      let url: string | null =
+        `${apiUrl}/repos/${org}/${repo}/releases?per_page=${perPage}`;
 
-export async function getReleases(): Promise<Release[]> {
-  const now = Date.now();
-
-  if (
-    cachedReleases.length === 0 ||
-    now - lastFetch > config.refreshIntervalMs
-  ) {
-    try {
-      cachedReleases = await fetchReleases();
-      lastFetch = now;
-      console.log(`Fetched ${cachedReleases.length} releases from GitHub`);
-    } catch (error) {
-      console.error('Failed to fetch releases:', error);
-      if (cachedReleases.length === 0) {
-        throw error;
+      while (url) {
+        const page = await fetchPage(url);
+        releases.push(...page.releases);
+        url = page.next;
       }
-      // Keep using cached releases if fetch fails
-    }
-  }
-
-  return cachedReleases;
-}
 
-export function startRefreshInterval(): void {
-  setInterval(async () => {
-    try {
-      cachedReleases = await fetchReleases();
-      lastFetch = Date.now();
-      console.log(`Refreshed: ${cachedReleases.length} releases`);
-    } catch (error) {
-      console.error('Failed to refresh releases:', error);
-    }
-  }, config.refreshIntervalMs);
+      return releases.map((release) => ({
+        tag: release.tag_name,
+        name: release.name,
+        notes: release.body,
+        publishedAt: release.published_at,
+        assets: release.assets,
+      }));
+    },
+
+    async readAssetText(asset) {
+      const response = await fetch(asset.browser_download_url);
+      if (!response.ok) return null;
+      return response.text();
+    },
+  };
 }
@@ -0,0 +1,133 @@
+import type {
+  ReleaseAsset,
+  ReleaseSource,
+  SourceRelease,
+} from './release-source.js';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid release manifest: ${field} must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Validate a release manifest. Asset URLs may be relative; they resolve
+ * against `manifestUrl` and default to `<tag>/<name>` next to the
+ * manifest, which matches a bucket laid out like the local directory
+ * source.
+ */
+export function parseReleaseManifest(
+  raw: unknown,
+  manifestUrl: string,
+): SourceRelease[] {
+  if (!isRecord(raw) || !Array.isArray(raw.releases)) {
+    throw new Error(
+      'Invalid release manifest: expected an object with a releases array',
+    );
+  }
+
+  return raw.releases.map((release: unknown, i): SourceRelease => {
+    const field = `releases.${i}`;
+    if (!isRecord(release) || typeof release.tag !== 'string') {
+      throw new Error(`Invalid release manifest: ${field}.tag is required`);
+    }
+    if (typeof release.publishedAt !== 'string') {
+      throw new Error(
+        `Invalid release manifest: ${field}.publishedAt is required`,
+      );
+    }
+    if (!Array.isArray(release.assets)) {
+      throw new Error(
+        `Invalid release manifest: ${field}.assets must be an array`,
+      );
+    }
+    const tag = release.tag;
+
+    const assets = release.assets.map((asset: unknown, j): ReleaseAsset => {
+      const assetField = `${field}.assets.${j}`;
+      if (!isRecord(asset) || typeof asset.name !== 'string') {
+        throw new Error(
+          `Invalid release manifest: ${assetField}.name is required`,
+        );
+      }
+      if (typeof asset.size !== 'number') {
+        throw new Error(
+          `Invalid release manifest: ${assetField}.size must be a number`,
+        );
+      }
+      const url =
+        optionalString(asset.url, `${assetField}.url`) ??
+        `${encodeURIComponent(tag)}/${encodeURIComponent(asset.name)}`;
+      const sha256 = optionalString(asset.sha256, `${assetField}.sha256`);
+      return {
+        name: asset.name,
+        browser_download_url: new URL(url, manifestUrl).toString(),
+        size: asset.size,
+        digest: sha256 ? `sha256:${sha256.toLowerCase()}` : null,
+      };
+    });
+
+    return {
+      tag,
+      name: optionalString(release.name, `${field}.name`),
+      notes: optionalString(release.notes, `${field}.notes`),
+      publishedAt: release.publishedAt,
+      assets,
+    };
+  });
+}
+
+/**
+ * Releases listed in a JSON manifest served over HTTP, e.g. from an
+ * S3-compatible bucket. The manifest is revalidated with its ETag.
+ */
+export function createHttpManifestReleaseSource(options: {
+  manifestUrl: string;
+}): ReleaseSource {
+  const { manifestUrl } = options;
+  let cached: { etag: string; releases: SourceRelease[] } | null = null;
+
+  return {
+    description: `manifest ${manifestUrl}`,
+
+    async listReleases(): Promise<SourceRelease[]> {
+      const headers: Record<string, string> = { 'User-Agent': 'update-server' };
+      if (cached) headers['If-None-Match'] = cached.etag;
+
+      const response = await fetch(manifestUrl, { headers });
+      if (response.status === 304 && cached) return cached.releases;
+
+      if (!response.ok) {
+        throw new Error(
+          `Release manifest request failed: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      let raw: unknown;
+      try {
+        raw = await response.json();
+      } catch (error) {
+        throw new Error(
+          `Failed to parse release manifest: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      const releases = parseReleaseManifest(raw, manifestUrl);
+      const etag = response.headers.get('etag');
+      cached = etag ? { etag, releases } : null;
+      return releases;
+    },
+
+    async readAssetText(asset) {
+      const response = await fetch(asset.browser_download_url);
+      if (!response.ok) return null;
+      return response.text();
+    },
+  };
+}
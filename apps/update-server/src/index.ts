@@ -1,7 +1,12 @@
 import express from 'express';
 import { config, validateConfig } from './config.js';
-import { getReleases, startRefreshInterval } from './github.js';
+import {
+  getReleaseSource,
+  getReleases,
+  startRefreshInterval,
+} from './release-source.js';
 import routes from './routes.js';
+import { reloadRolloutConfig } from './rollout.js';
 
 const app = express();
 
@@ -10,6 +15,11 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Serve self-hosted release files
+if (config.releaseSource === 'local' && config.releasesDir) {
+  app.use('/files', express.static(config.releasesDir));
+}
+
 // Mount routes
 app.use('/', routes);
 
@@ -32,6 +42,15 @@ async function start() {
     process.exit(1);
   }
 
+  // A configured but broken rollout config must not silently offer
+  // held-back releases to everyone
+  try {
+    await reloadRolloutConfig();
+  } catch (error) {
+    console.error('Failed to load rollout config:', error);
+    process.exit(1);
+  }
+
   // Start background refresh
   startRefreshInterval();
 
@@ -39,7 +58,7 @@ async function start() {
   app.listen(config.port, () => {
     console.log(`Update server running on port ${config.port}`);
     console.log(`App name: ${config.appName}`);
-    console.log(`GitHub: ${config.githubOrg}/${config.githubRepo}`);
+    console.log(`Release source: ${getReleaseSource().description}`);
   });
 }
 
@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  ReleaseAsset,
+  ReleaseSource,
+  SourceRelease,
+} from './release-source.js';
+
+// Optional per-release metadata next to the assets
+const METADATA_FILE = 'release.json';
+
+interface ReleaseMetadata {
+  name?: string;
+  notes?: string;
+  publishedAt?: string;
+}
+
+async function readMetadata(dir: string): Promise<ReleaseMetadata> {
+  let raw: string;
+  try {
+    raw = await readFile(path.join(dir, METADATA_FILE), 'utf8');
+  } catch {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${path.join(dir, METADATA_FILE)}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Releases stored on the local filesystem, one directory per release
+ * named like a GitHub tag:
+ *
+ *   <dir>/stagewise@1.2.3/stagewise-1.2.3-arm64.dmg
+ *   <dir>/stagewise@1.2.3/release.json   (optional: name, notes, publishedAt)
+ *
+ * Assets are served from `baseUrl` (by default this server's `/files`
+ * route) and get a SHA-256 digest, cached by size and mtime so unchanged
+ * files aren't re-read on every refresh.
+ */
+export function createLocalDirectoryReleaseSource(options: {
+  dir: string;
+  baseUrl: string;
+}): ReleaseSource {
+  const dir = path.resolve(options.dir);
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const digests = new Map<string, { key: string; digest: string }>();
+  // Download URL → file, from the last listing
+  let files = new Map<string, string>();
+
+  async function getDigest(
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+  ): Promise<string> {
+    const key = `${size}:${mtimeMs}`;
+    const cached = digests.get(filePath);
+    if (cached?.key === key) return cached.digest;
+    const digest = `sha256:${await hashFile(filePath)}`;
+    digests.set(filePath, { key, digest });
+    return digest;
+  }
+
+  return {
+    description: `directory ${dir}`,
+
+    async listReleases(): Promise<SourceRelease[]> {
+      const entries = await readdir(dir, { withFileTypes: true });
+      const releases: SourceRelease[] = [];
+      const listedFiles = new Map<string, string>();
+
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const releaseDir = path.join(dir, entry.name);
+        const metadata = await readMetadata(releaseDir);
+        const assets: ReleaseAsset[] = [];
+
+        for (const file of await readdir(releaseDir, { withFileTypes: true })) {
+          if (!file.isFile() || file.name === METADATA_FILE) continue;
+          const filePath = path.join(releaseDir, file.name);
+          const stats = await stat(filePath);
+          const url = `${baseUrl}/${encodeURIComponent(entry.name)}/${encodeURIComponent(file.name)}`;
+          listedFiles.set(url, filePath);
+          assets.push({
+            name: file.name,
+            browser_download_url: url,
+            size: stats.size,
+            digest: await getDigest(filePath, stats.size, stats.mtimeMs),
+          });
+        }
+
+        releases.push({
+          tag: entry.name,
+          name: metadata.name,
+          notes: metadata.notes,
+          publishedAt:
+            metadata.publishedAt ??
+            (await stat(releaseDir)).mtime.toISOString(),
+          assets,
+        });
+      }
+
+      files = listedFiles;
+      return releases;
+    },
+
+    async readAssetText(asset) {
+      const filePath = files.get(asset.browser_download_url);
+      if (!filePath) return null;
+      try {
+        return await readFile(filePath, 'utf8');
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { config } from './config.js';
+import { createGitHubReleaseSource } from './github.js';
+import { createHttpManifestReleaseSource } from './http-manifest.js';
+import { createLocalDirectoryReleaseSource } from './local-directory.js';
+import {
+  compareVersions,
+  extractVersionFromTag,
+  parseVersion,
+  type ParsedVersion,
+} from './version.js';
+
+// Field names follow the GitHub API, which was the only source originally.
+export interface ReleaseAsset {
+  name: string;
+  browser_download_url: string;
+  size: number;
+  // Checksum as "sha256:<hex>". Sources that can't provide one leave it
+  // empty; the release's SHA256SUMS file is used instead.
+  digest?: string | null;
+}
+
+export interface Release {
+  tag: string;
+  version: string;
+  parsedVersion: ParsedVersion;
+  name: string;
+  notes: string;
+  publishedAt: string;
+  assets: ReleaseAsset[];
+}
+
+// A release as listed by a source, before tags are filtered and parsed.
+export interface SourceRelease {
+  tag: string;
+  name?: string;
+  notes?: string;
+  publishedAt: string;
+  assets: ReleaseAsset[];
+}
+
+export interface ReleaseSource {
+  // For logs, e.g. "GitHub stagewise/stagewise"
+  readonly description: string;
+  listReleases(): Promise<SourceRelease[]>;
+  // Contents of a small text asset (RELEASES, SHA256SUMS); null if missing
+  readAssetText(asset: ReleaseAsset): Promise<string | null>;
+}
+
+export function createReleaseSource(): ReleaseSource {
+  switch (config.releaseSource) {
+    case 'github':
+      return createGitHubReleaseSource({
+        apiUrl: config.githubApiUrl,
+        org: config.githubOrg,
+        repo: config.githubRepo,
+        token: config.githubToken,
+      });
+    case 'local':
+      return createLocalDirectoryReleaseSource({
+        dir: config.releasesDir!,
+        baseUrl: config.releasesBaseUrl,
+      });
+    case 'http-manifest':
+      return createHttpManifestReleaseSource({
+        manifestUrl: config.releasesManifestUrl!,
+      });
+  }
+}
+
+let source: ReleaseSource | null = null;
+
+export function getReleaseSource(): ReleaseSource {
+  source ??= createReleaseSource();
+  return source;
+}
+
+let cachedReleases: Release[] = [];
+let lastFetch = 0;
+
+export async function fetchReleases(): Promise<Release[]> {
+  const sourceReleases = await getReleaseSource().listReleases();
+  const releases: Release[] = [];
+
+  for (const release of sourceReleases) {
+    const version = extractVersionFromTag(release.tag, config.appName);
+    if (!version) continue;
+
+    const parsedVersion = parseVersion(version);
+    if (!parsedVersion) continue;
+
+    releases.push({
+      tag: release.tag,
+      version,
+      parsedVersion,
+      name: release.name || version,
+      notes: release.notes || '',
+      publishedAt: release.publishedAt,
+      assets: release.assets,
+    });
+  }
+
+  // Sort releases by version (newest first)
+  releases.sort((a, b) => compareVersions(b.version, a.version));
+
+  return releases;
+}
+
+export async function getReleases(): Promise<Release[]> {
+  const now = Date.now();
+
+  if (
+    cachedReleases.length === 0 ||
+    now - lastFetch > config.refreshIntervalMs
+  ) {
+    try {
+      cachedReleases = await fetchReleases();
+      lastFetch = now;
+      console.log(
+        `Fetched ${cachedReleases.length} releases from ${getReleaseSource().description}`,
+      );
+    } catch (error) {
+      console.error('Failed to fetch releases:', error);
+      if (cachedReleases.length === 0) {
+        throw error;
+      }
+      // Keep using cached releases if fetch fails
+    }
+  }
+
+  return cachedReleases;
+}
+
+export function readAssetText(asset: ReleaseAsset): Promise<string | null> {
+  return getReleaseSource().readAssetText(asset);
+}
+
+export function startRefreshInterval(): void {
+  setInterval(async () => {
+    try {
+      cachedReleases = await fetchReleases();
+      lastFetch = Date.now();
+      console.log(`Refreshed: ${cachedReleases.length} releases`);
+    } catch (error) {
+      console.error('Failed to refresh releases:', error);
+    }
+  }, config.refreshIntervalMs);
+}
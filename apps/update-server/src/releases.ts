@@ -1,21 +1,26 @@
-import type { Channel, LinuxFormat } from './config.js';
+import type { Channel, LinuxFormat, LinuxUpdateFormat } from './config.js';
 import { config } from './config.js';
-import type { Release, GitHubAsset } from './github.js';
-import { getReleases } from './github.js';
+import type { Release, ReleaseAsset } from './release-source.js';
+import { getReleases, readAssetText } from './release-source.js';
 import { matchesChannel, isNewerVersion } from './version.js';
+import {
+  getRolloutConfig,
+  isReleaseOffered,
+  isVersionBlocked,
+} from './rollout.js';
 
 export interface AssetMatch {
   release: Release;
-  asset: GitHubAsset;
+  asset: ReleaseAsset;
 }
 
-type UpdatePlatform = 'macos' | 'win';
+type UpdatePlatform = 'macos' | 'win' | 'linux';
 
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function findAsset(release: Release, pattern: RegExp): GitHubAsset | null {
+function findAsset(release: Release, pattern: RegExp): ReleaseAsset | null {
   for (const asset of release.assets) {
     if (pattern.test(asset.name)) {
       return asset;
@@ -62,7 +67,7 @@ function buildMacOSZipPattern(
 function findMacOSUpdateAssetInRelease(
   release: Release,
   arch: string,
-): GitHubAsset | null {
+): ReleaseAsset | null {
   const pattern = buildMacOSZipPattern(config.appName, release.version, arch);
   return findAsset(release, pattern);
 }
@@ -70,7 +75,7 @@ function findMacOSUpdateAssetInRelease(
 function findWindowsReleasesAsset(
   release: Release,
   arch: string,
-): GitHubAsset | null {
+): ReleaseAsset | null {
   const releasesFileName = `RELEASES-win32-${arch}`;
   const releasesAsset = release.assets.find(
     (asset) => asset.name === releasesFileName,
@@ -92,17 +97,25 @@ export async function findUpdateRelease(
   platform: UpdatePlatform,
   arch: string,
   currentVersion: string,
+  clientId?: string,
 ): Promise<Release | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
     if (!isNewerVersion(release.version, currentVersion)) continue;
+    if (!isReleaseOffered(rollout, release.version, clientId)) continue;
 
     const hasUpdateAsset =
       platform === 'macos'
         ? findMacOSUpdateAssetInRelease(release, arch) !== null
-        : findWindowsReleasesAsset(release, arch) !== null;
+        : platform === 'win'
+          ? findWindowsReleasesAsset(release, arch) !== null
+          : LINUX_UPDATE_FORMATS.some(
+              (format) =>
+                findLinuxUpdateAssetInRelease(release, arch, format) !== null,
+            );
 
     if (hasUpdateAsset) return release;
   }
@@ -117,6 +130,164 @@ const archAliases: Record<string, string[]> = {
   amd64: ['x86_64', 'amd64'],
 };
 
+const LINUX_UPDATE_FORMATS: LinuxUpdateFormat[] = ['appimage', 'tar.gz'];
+
+const linuxUpdateExtensions: Record<LinuxUpdateFormat, string> = {
+  appimage: '.AppImage',
+  'tar.gz': '.tar.gz',
+};
+
+// Linux update file: appName[-suffix]-version-arch.{AppImage,tar.gz}
+// Example: stagewise-prerelease-1.0.1-nightly20260525c001-x86_64.AppImage
+function findLinuxUpdateAssetInRelease(
+  release: Release,
+  arch: string,
+  format: LinuxUpdateFormat,
+): ReleaseAsset | null {
+  for (const candidate of archAliases[arch.toLowerCase()] ?? [arch]) {
+    const pattern = buildAssetPattern(
+      config.appName,
+      release.version,
+      candidate,
+      linuxUpdateExtensions[format],
+    );
+    const asset = findAsset(release, pattern);
+    if (asset) return asset;
+  }
+  return null;
+}
+
+// Linux delta file: appName[-suffix]-fromVersion-to-version-arch.{AppImage,tar.gz}.delta
+// Example: stagewise-prerelease-1.0.1-nightly20260524c001-to-1.0.1-nightly20260525c001-x86_64.AppImage.delta
+// A binary diff that turns the installed `fromVersion` package into this
+// release's full package; the client verifies the result against the
+// full package's checksum.
+function findLinuxDeltaAssetInRelease(
+  release: Release,
+  arch: string,
+  format: LinuxUpdateFormat,
+  fromVersion: string,
+): ReleaseAsset | null {
+  const escapedAppName = escapeRegex(config.appName);
+  const escapedFrom = escapeRegex(fromVersion);
+  const escapedTo = escapeRegex(release.version);
+  const escapedExt = escapeRegex(`${linuxUpdateExtensions[format]}.delta`);
+  for (const candidate of archAliases[arch.toLowerCase()] ?? [arch]) {
+    const pattern = new RegExp(
+      `^${escapedAppName}(?:-[a-zA-Z0-9]+)?-${escapedFrom}-to-${escapedTo}-${escapeRegex(candidate)}${escapedExt}$`,
+      'i',
+    );
+    const asset = findAsset(release, pattern);
+    if (asset) return asset;
+  }
+  return null;
+}
+
+// SHA256SUMS contents by asset URL. Release assets are immutable once
+// published, so entries never need to be invalidated.
+const checksumFileCache = new Map<string, Map<string, string>>();
+
+async function loadChecksumFile(
+  asset: ReleaseAsset,
+): Promise<Map<string, string> | null> {
+  const cached = checksumFileCache.get(asset.browser_download_url);
+  if (cached) return cached;
+
+  try {
+    const content = await readAssetText(asset);
+    if (content === null) return null;
+    const checksums = new Map<string, string>();
+    // `sha256sum` format: "<hex>  <filename>" (binary mode prefixes "*")
+    for (const line of content.split('\n')) {
+      const match = line.trim().match(/^([a-fA-F0-9]{64})\s+\*?(.+)$/);
+      if (match) checksums.set(match[2], match[1].toLowerCase());
+    }
+    checksumFileCache.set(asset.browser_download_url, checksums);
+    return checksums;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the SHA-256 of a release asset. Prefers the digest GitHub
+ * computes for every upload and falls back to a `SHA256SUMS` file in the
+ * same release. Returns null when neither is available.
+ */
+async function resolveSha256(
+  release: Release,
+  asset: ReleaseAsset,
+): Promise<string | null> {
+  const digest = asset.digest?.match(/^sha256:([a-fA-F0-9]{64})$/);
+  if (digest) return digest[1].toLowerCase();
+
+  const sumsAsset = release.assets.find((a) => a.name === 'SHA256SUMS');
+  if (!sumsAsset) return null;
+  const checksums = await loadChecksumFile(sumsAsset);
+  return checksums?.get(asset.name) ?? null;
+}
+
+export interface LinuxUpdateMatch extends AssetMatch {
+  sha256: string;
+  // Present when the release ships a delta from the client's version.
+  delta: { asset: ReleaseAsset; sha256: string; fromVersion: string } | null;
+}
+
+/**
+ * Find the newest Linux update (AppImage or tarball) newer than
+ * `currentVersion`. Releases whose update file has no verifiable
+ * checksum are skipped, since self-updating clients must be able to
+ * check what they install.
+ */
+export async function findLinuxUpdateAsset(
+  channel: Channel,
+  arch: string,
+  format: LinuxUpdateFormat,
+  currentVersion: string,
+  clientId?: string,
+): Promise<LinuxUpdateMatch | null> {
+  const releases = await getReleases();
+  const rollout = await getRolloutConfig();
+
+  for (const release of releases) {
+    if (!matchesChannel(release.parsedVersion, channel)) continue;
+    if (!isNewerVersion(release.version, currentVersion)) continue;
+    if (!isReleaseOffered(rollout, release.version, clientId)) continue;
+
+    const asset = findLinuxUpdateAssetInRelease(release, arch, format);
+    if (!asset) continue;
+
+    const sha256 = await resolveSha256(release, asset);
+    if (!sha256) continue;
+
+    const deltaAsset = findLinuxDeltaAssetInRelease(
+      release,
+      arch,
+      format,
+      currentVersion,
+    );
+    const deltaSha256 = deltaAsset
+      ? await resolveSha256(release, deltaAsset)
+      : null;
+
+    return {
+      release,
+      asset,
+      sha256,
+      delta:
+        deltaAsset && deltaSha256
+          ? {
+              asset: deltaAsset,
+              sha256: deltaSha256,
+              fromVersion: currentVersion,
+            }
+          : null,
+    };
+  }
+
+  return null;
+}
+
 // For Linux packages that use different version formats and separators
 // Example deb: stagewise-prerelease_1.0.0.beta001_amd64.deb
 // Example rpm: stagewise-prerelease-1.0.0.beta001-1.x86_64.rpm
@@ -125,7 +296,7 @@ function findLinuxAsset(
   appName: string,
   arch: string,
   extension: string,
-): GitHubAsset | null {
+): ReleaseAsset | null {
   const ext = extension.toLowerCase();
   const candidates = (archAliases[arch.toLowerCase()] ?? [arch]).map((a) =>
     a.toLowerCase(),
@@ -147,8 +318,10 @@ export async function findMacOSUpdateAsset(
   channel: Channel,
   arch: string,
   currentVersion?: string,
+  clientId?: string,
 ): Promise<AssetMatch | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
@@ -157,6 +330,8 @@ export async function findMacOSUpdateAsset(
     if (currentVersion && !isNewerVersion(release.version, currentVersion))
       continue;
 
+    if (!isReleaseOffered(rollout, release.version, clientId)) continue;
+
     // Look for .zip file for macOS updates
     // Format: appName[-suffix]-darwin-arch-version.zip
     const asset = findMacOSUpdateAssetInRelease(release, arch);
@@ -174,9 +349,12 @@ export async function findMacOSDownloadAsset(
   arch: string,
 ): Promise<AssetMatch | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
+    // Staged rollouts only gate updates; new installs just skip blocked versions
+    if (isVersionBlocked(rollout, release.version)) continue;
 
     // Look for .dmg file for macOS downloads (raw extension, not escaped)
     const pattern = buildAssetPattern(
@@ -215,28 +393,32 @@ export async function findMacOSDownloadAsset(
  *
  * The `currentVersion` parameter is still accepted for symmetry with
  * the macOS endpoint and potential future telemetry, but is intentionally
- * unused for filtering.
+ * unused for filtering. Releases held back by the rollout config are
+ * skipped, so a client outside a staged rollout gets the previous
+ * release's manifest and Squirrel reports "no update".
  */
 export async function findWindowsUpdateAsset(
   channel: Channel,
   arch: string,
   baseUrl: string,
   _currentVersion?: string,
+  clientId?: string,
 ): Promise<{ release: Release; releasesContent: string } | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
+    if (!isReleaseOffered(rollout, release.version, clientId)) continue;
 
     const releasesAsset = findWindowsReleasesAsset(release, arch);
     if (!releasesAsset) continue;
 
     // Fetch and transform the RELEASES content
     try {
-      const response = await fetch(releasesAsset.browser_download_url);
-      if (!response.ok) continue;
+      const content = await readAssetText(releasesAsset);
+      if (content === null) continue;
 
-      const content = await response.text();
       // Transform relative file paths to proxy URLs with arch-free filenames
       const transformed = transformReleasesContent(
         content,
@@ -364,9 +546,11 @@ export async function findWindowsDownloadAsset(
   arch: string,
 ): Promise<AssetMatch | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
+    if (isVersionBlocked(rollout, release.version)) continue;
 
     // Look for setup.exe file (raw extension)
     const pattern = buildAssetPattern(
@@ -391,11 +575,16 @@ export async function findLinuxDownloadAsset(
   format: LinuxFormat,
 ): Promise<AssetMatch | null> {
   const releases = await getReleases();
+  const rollout = await getRolloutConfig();
 
   for (const release of releases) {
     if (!matchesChannel(release.parsedVersion, channel)) continue;
+    if (isVersionBlocked(rollout, release.version)) continue;
 
-    const ext = format === 'deb' ? '.deb' : '.rpm';
+    const ext =
+      format === 'deb' || format === 'rpm'
+        ? `.${format}`
+        : linuxUpdateExtensions[format];
     const asset = findLinuxAsset(release, config.appName, arch, ext);
 
     if (asset) {
@@ -0,0 +1,199 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { type Channel, config } from './config.js';
+import { compareVersions, parseVersion } from './version.js';
+
+export interface RolloutConfig {
+  // Version → percentage (0-100) of clients that get it offered.
+  // Versions that aren't listed are offered to everyone.
+  rollouts: Record<string, number>;
+  // Versions that are never offered (kill-switch for bad releases).
+  blockedVersions: string[];
+  // Clients below the channel's minimum get their update marked mandatory.
+  minimumVersions: Partial<Record<Channel, string>>;
+}
+
+const CHANNELS: Channel[] = ['release', 'nightly', 'beta', 'alpha'];
+
+const EMPTY_ROLLOUT_CONFIG: RolloutConfig = {
+  rollouts: {},
+  blockedVersions: [],
+  minimumVersions: {},
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeVersion(value: unknown, field: string): string {
+  const parsed = typeof value === 'string' ? parseVersion(value) : null;
+  if (!parsed) {
+    throw new Error(`Invalid rollout config: ${field} is not a valid version`);
+  }
+  return parsed.clean;
+}
+
+/**
+ * Validate a rollout config document. Versions are normalized so they
+ * compare equal to `Release.version`. Throws on the first invalid field.
+ */
+export function parseRolloutConfig(raw: unknown): RolloutConfig {
+  if (!isRecord(raw)) {
+    throw new Error('Invalid rollout config: expected a JSON object');
+  }
+
+  const rollouts: Record<string, number> = {};
+  if (raw.rollouts !== undefined) {
+    if (!isRecord(raw.rollouts)) {
+      throw new Error('Invalid rollout config: rollouts must be an object');
+    }
+    for (const [version, percentage] of Object.entries(raw.rollouts)) {
+      if (
+        typeof percentage !== 'number' ||
+        !Number.isFinite(percentage) ||
+        percentage < 0 ||
+        percentage > 100
+      ) {
+        throw new Error(
+          `Invalid rollout config: rollouts.${version} must be a number between 0 and 100`,
+        );
+      }
+      rollouts[normalizeVersion(version, `rollouts.${version}`)] = percentage;
+    }
+  }
+
+  const blockedVersions: string[] = [];
+  if (raw.blockedVersions !== undefined) {
+    if (!Array.isArray(raw.blockedVersions)) {
+      throw new Error(
+        'Invalid rollout config: blockedVersions must be an array',
+      );
+    }
+    raw.blockedVersions.forEach((version, i) => {
+      blockedVersions.push(normalizeVersion(version, `blockedVersions.${i}`));
+    });
+  }
+
+  const minimumVersions: Partial<Record<Channel, string>> = {};
+  if (raw.minimumVersions !== undefined) {
+    if (!isRecord(raw.minimumVersions)) {
+      throw new Error(
+        'Invalid rollout config: minimumVersions must be an object',
+      );
+    }
+    for (const [channel, version] of Object.entries(raw.minimumVersions)) {
+      if (!CHANNELS.includes(channel as Channel)) {
+        throw new Error(
+          `Invalid rollout config: minimumVersions.${channel} is not a channel`,
+        );
+      }
+      minimumVersions[channel as Channel] = normalizeVersion(
+        version,
+        `minimumVersions.${channel}`,
+      );
+    }
+  }
+
+  return { rollouts, blockedVersions, minimumVersions };
+}
+
+/**
+ * Stable bucket (0-99) of a client for a version. Hashing the version in
+ * means each release gets a different set of early clients instead of
+ * the same unlucky ones every time, while raising a release's percentage
+ * only ever adds clients.
+ */
+export function rolloutBucket(clientId: string, version: string): number {
+  const hash = createHash('sha256').update(`${version}:${clientId}`).digest();
+  return hash.readUInt32BE(0) % 100;
+}
+
+export function isVersionBlocked(
+  rollout: RolloutConfig,
+  version: string,
+): boolean {
+  return rollout.blockedVersions.includes(version);
+}
+
+/**
+ * Whether a release is offered to a client. Releases in a partial
+ * rollout are only offered to clients that identify themselves, so
+ * clients without an id wait for the full rollout.
+ */
+export function isReleaseOffered(
+  rollout: RolloutConfig,
+  version: string,
+  clientId?: string,
+): boolean {
+  if (isVersionBlocked(rollout, version)) return false;
+
+  const percentage = rollout.rollouts[version];
+  if (percentage === undefined || percentage >= 100) return true;
+  if (!clientId) return false;
+  return rolloutBucket(clientId, version) < percentage;
+}
+
+export function isUpdateMandatory(
+  rollout: RolloutConfig,
+  channel: Channel,
+  currentVersion: string,
+): boolean {
+  const minimum = rollout.minimumVersions[channel];
+  return !!minimum && compareVersions(currentVersion, minimum) < 0;
+}
+
+let cachedRolloutConfig: RolloutConfig = EMPTY_ROLLOUT_CONFIG;
+let lastRolloutFetch = 0;
+
+async function fetchRolloutConfig(): Promise<RolloutConfig> {
+  let raw: string;
+  if (config.rolloutConfigUrl) {
+    const response = await fetch(config.rolloutConfigUrl, {
+      headers: { 'User-Agent': 'update-server' },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Rollout config request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+    raw = await response.text();
+  } else if (config.rolloutConfigPath) {
+    raw = await readFile(config.rolloutConfigPath, 'utf8');
+  } else {
+    return EMPTY_ROLLOUT_CONFIG;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse rollout config: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return parseRolloutConfig(parsed);
+}
+
+/**
+ * Re-read the rollout config now. Throws if it can't be loaded; the
+ * previously loaded config stays in effect in that case.
+ */
+export async function reloadRolloutConfig(): Promise<RolloutConfig> {
+  cachedRolloutConfig = await fetchRolloutConfig();
+  lastRolloutFetch = Date.now();
+  return cachedRolloutConfig;
+}
+
+export async function getRolloutConfig(): Promise<RolloutConfig> {
+  if (Date.now() - lastRolloutFetch > config.rolloutRefreshIntervalMs) {
+    try {
+      await reloadRolloutConfig();
+    } catch (error) {
+      console.error('Failed to load rollout config:', error);
+      // Keep using the last good config; retry on the next interval
+      lastRolloutFetch = Date.now();
+    }
+  }
+
+  return cachedRolloutConfig;
+}
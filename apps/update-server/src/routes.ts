@@ -1,5 +1,5 @@
 import { Router, type Request, type Response } from 'express';
-import type { Channel, LinuxFormat } from './config.js';
+import type { Channel, LinuxFormat, LinuxUpdateFormat } from './config.js';
 import { config } from './config.js';
 import { parseVersion } from './version.js';
 import {
@@ -8,9 +8,11 @@ import {
   findWindowsUpdateAsset,
   findWindowsDownloadAsset,
   findLinuxDownloadAsset,
+  findLinuxUpdateAsset,
   findNupkgAsset,
   findUpdateRelease,
 } from './releases.js';
+import { getRolloutConfig, isUpdateMandatory } from './rollout.js';
 
 /**
  * Determine the public-facing base URL of this update server.
@@ -61,8 +63,32 @@ function isValidChannel(channel: string): channel is Channel {
   );
 }
 
+function isValidLinuxUpdateFormat(format: string): format is LinuxUpdateFormat {
+  return format === 'appimage' || format === 'tar.gz';
+}
+
 function isValidLinuxFormat(format: string): format is LinuxFormat {
-  return format === 'deb' || format === 'rpm';
+  return (
+    format === 'deb' || format === 'rpm' || isValidLinuxUpdateFormat(format)
+  );
+}
+
+// Stable per-install identifier used to bucket clients into staged
+// rollouts. Optional; clients without one only get fully rolled out
+// releases.
+function getClientId(req: Request): string | undefined {
+  const { clientId } = req.query;
+  if (typeof clientId !== 'string' || !clientId || clientId.length > 128) {
+    return undefined;
+  }
+  return clientId;
+}
+
+async function isMandatory(
+  channel: Channel,
+  currentVersion: string,
+): Promise<boolean> {
+  return isUpdateMandatory(await getRolloutConfig(), channel, currentVersion);
 }
 
 function truncateNotes(notes: string, maxLength = 512): string {
@@ -83,7 +109,7 @@ router.get(
 
     if (
       !isValidChannel(channel) ||
-      (platform !== 'macos' && platform !== 'win') ||
+      (platform !== 'macos' && platform !== 'win' && platform !== 'linux') ||
       !parseVersion(version)
     ) {
       res.status(400).send('Invalid update request');
@@ -91,7 +117,13 @@ router.get(
     }
 
     try {
-      const release = await findUpdateRelease(channel, platform, arch, version);
+      const release = await findUpdateRelease(
+        channel,
+        platform,
+        arch,
+        version,
+        getClientId(req),
+      );
 
       res.setHeader('Cache-Control', 'no-store');
       if (!release) {
@@ -102,6 +134,7 @@ router.get(
       res.json({
         version: release.version,
         notes: release.notes,
+        mandatory: await isMandatory(channel, version),
       });
     } catch (error) {
       console.error('Error in update info endpoint:', error);
@@ -128,7 +161,12 @@ router.get(
     }
 
     try {
-      const match = await findMacOSUpdateAsset(channel, arch, version);
+      const match = await findMacOSUpdateAsset(
+        channel,
+        arch,
+        version,
+        getClientId(req),
+      );
 
       if (!match) {
         res.status(204).send();
@@ -140,6 +178,7 @@ router.get(
         name: match.release.version,
         notes: truncateNotes(match.release.notes),
         pub_date: match.release.publishedAt,
+        mandatory: await isMandatory(channel, version),
       };
 
       res.setHeader('Content-Type', 'application/json');
@@ -175,6 +214,7 @@ router.get(
         arch,
         baseUrl,
         version,
+        getClientId(req),
       );
 
       if (!match) {
@@ -192,6 +232,79 @@ router.get(
   },
 );
 
+// Linux update endpoint (AppImage / tarball installs)
+// GET /update/:appName/:channel/linux/:arch/:version?format=appimage|tar.gz
+router.get(
+  '/update/:appName/:channel/linux/:arch/:version',
+  async (req: Request, res: Response) => {
+    const { appName, channel, arch, version } = req.params;
+    const format =
+      typeof req.query.format === 'string' ? req.query.format : 'appimage';
+
+    if (appName !== config.appName) {
+      res.status(404).send('App not found');
+      return;
+    }
+
+    if (!isValidChannel(channel)) {
+      res.status(400).send('Invalid channel');
+      return;
+    }
+
+    if (!isValidLinuxUpdateFormat(format)) {
+      res.status(400).send('Invalid format. Use "appimage" or "tar.gz"');
+      return;
+    }
+
+    if (!parseVersion(version)) {
+      res.status(400).send('Invalid version');
+      return;
+    }
+
+    try {
+      const match = await findLinuxUpdateAsset(
+        channel,
+        arch,
+        format,
+        version,
+        getClientId(req),
+      );
+
+      if (!match) {
+        res.status(204).send();
+        return;
+      }
+
+      const response = {
+        url: match.asset.browser_download_url,
+        name: match.release.version,
+        notes: truncateNotes(match.release.notes),
+        pub_date: match.release.publishedAt,
+        mandatory: await isMandatory(channel, version),
+        format,
+        sha256: match.sha256,
+        size: match.asset.size,
+        ...(match.delta
+          ? {
+              delta: {
+                url: match.delta.asset.browser_download_url,
+                from: match.delta.fromVersion,
+                sha256: match.delta.sha256,
+                size: match.delta.asset.size,
+              },
+            }
+          : {}),
+      };
+
+      res.setHeader('Content-Type', 'application/json');
+      res.json(response);
+    } catch (error) {
+      console.error('Error in Linux update endpoint:', error);
+      res.status(500).send('Internal server error');
+    }
+  },
+);
+
 // Windows nupkg proxy endpoint
 // Squirrel.Windows parses the nupkg filename it sees in RELEASES as
 // `{id}-{version}-full.nupkg` and feeds the version into System.Version,
@@ -320,7 +433,9 @@ router.get(
     }
 
     if (!isValidLinuxFormat(format)) {
-      res.status(400).send('Invalid format. Use "deb" or "rpm"');
+      res
+        .status(400)
+        .send('Invalid format. Use "deb", "rpm", "appimage" or "tar.gz"');
       return;
     }
 
@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubAsset {
+  name: string;
+  // Served at the asset's download URL (RELEASES files, SHA256SUMS)
+  content?: string;
+  digest?: string;
+}
+
+export interface StubRelease {
+  version: string;
+  notes?: string;
+  assets: StubAsset[];
+}
+
+export interface GitHubStub {
+  // Use as `config.githubApiUrl`
+  url: string;
+  // Status of every release list request, in order
+  listStatuses: number[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for the GitHub releases API. Serves
+ * `GET /repos/:org/:repo/releases` from `releases` (tags are
+ * `stagewise@<version>`), paginated with `per_page`/`page` and a `Link`
+ * header and answering `If-None-Match` with 304 like GitHub does. Each
+ * asset's `content` is served under `/download/<version>/<name>`.
+ */
+export async function startGitHubStub(
+  releases: StubRelease[],
+): Promise<GitHubStub> {
+  const listStatuses: number[] = [];
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname;
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    if (/^\/repos\/[^/]+\/[^/]+\/releases$/.test(path)) {
+      const perPage = Number(url.searchParams.get('per_page') ?? 30);
+      const pageNumber = Number(url.searchParams.get('page') ?? 1);
+      const pageReleases = releases.slice(
+        (pageNumber - 1) * perPage,
+        pageNumber * perPage,
+      );
+      const body = JSON.stringify(
+        pageReleases.map((release) => ({
+          tag_name: `stagewise@${release.version}`,
+          name: release.version,
+          body: release.notes ?? '',
+          prerelease: release.version.includes('-'),
+          published_at: '2026-05-25T12:00:00Z',
+          assets: release.assets.map((asset) => ({
+            name: asset.name,
+            browser_download_url: `${base}/download/${release.version}/${encodeURIComponent(asset.name)}`,
+            size: asset.content?.length ?? 1024,
+            digest: asset.digest ?? null,
+          })),
+        })),
+      );
+
+      const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+      res.setHeader('ETag', etag);
+      if (pageNumber * perPage < releases.length) {
+        const next = new URL(url.toString());
+        next.searchParams.set('page', String(pageNumber + 1));
+        res.setHeader(
+          'Link',
+          `<${base}${next.pathname}${next.search}>; rel="next"`,
+        );
+      }
+      if (req.headers['if-none-match'] === etag) {
+        listStatuses.push(304);
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+      listStatuses.push(200);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(body);
+      return;
+    }
+
+    const download = path.match(/^\/download\/([^/]+)\/([^/]+)$/);
+    if (download) {
+      const name = decodeURIComponent(download[2]);
+      const asset = releases
+        .find((release) => release.version === download[1])
+        ?.assets.find((a) => a.name === name);
+      if (asset?.content !== undefined) {
+        res.end(asset.content);
+        return;
+      }
+    }
+
+    res.statusCode = 404;
+    res.end('Not Found');
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    listStatuses,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
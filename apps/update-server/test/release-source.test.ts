@@ -0,0 +1,220 @@
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createGitHubReleaseSource } from '../src/github.js';
+import {
+  createHttpManifestReleaseSource,
+  parseReleaseManifest,
+} from '../src/http-manifest.js';
+import { createLocalDirectoryReleaseSource } from '../src/local-directory.js';
+import { type GitHubStub, startGitHubStub } from './github-stub.js';
+
+const cleanups: (() => Promise<void>)[] = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0)) await cleanup();
+});
+
+describe('GitHub release source', () => {
+  async function startStub(count: number): Promise<GitHubStub> {
+    const stub = await startGitHubStub(
+      Array.from({ length: count }, (_, i) => ({
+        version: `1.0.${i}`,
+        assets: [{ name: 'SHA256SUMS', content: `sums ${i}` }],
+      })),
+    );
+    cleanups.push(() => stub.close());
+    return stub;
+  }
+
+  it('follows pagination past the first page', async () => {
+    const stub = await startStub(5);
+    const source = createGitHubReleaseSource({
+      apiUrl: stub.url,
+      org: 'stagewise',
+      repo: 'stagewise',
+      perPage: 2,
+    });
+
+    const releases = await source.listReleases();
+    expect(releases.map((r) => r.tag)).toEqual([
+      'stagewise@1.0.0',
+      'stagewise@1.0.1',
+      'stagewise@1.0.2',
+      'stagewise@1.0.3',
+      'stagewise@1.0.4',
+    ]);
+    expect(stub.listStatuses).toEqual([200, 200, 200]);
+  });
+
+  it('revalidates unchanged pages with their ETag', async () => {
+    const stub = await startStub(3);
+    const source = createGitHubReleaseSource({
+      apiUrl: stub.url,
+      org: 'stagewise',
+      repo: 'stagewise',
+      perPage: 2,
+    });
+
+    const first = await source.listReleases();
+    const second = await source.listReleases();
+    expect(second).toEqual(first);
+    expect(stub.listStatuses).toEqual([200, 200, 304, 304]);
+  });
+
+  it('reads text assets', async () => {
+    const stub = await startStub(1);
+    const source = createGitHubReleaseSource({
+      apiUrl: stub.url,
+      org: 'stagewise',
+      repo: 'stagewise',
+    });
+
+    const [release] = await source.listReleases();
+    expect(await source.readAssetText(release.assets[0])).toBe('sums 0');
+  });
+});
+
+describe('local directory release source', () => {
+  async function makeReleasesDir(): Promise<string> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'update-server-releases-'));
+    cleanups.push(() => rm(dir, { recursive: true, force: true }));
+    return dir;
+  }
+
+  it('lists one release per directory with digests', async () => {
+    const dir = await makeReleasesDir();
+    await mkdir(path.join(dir, 'stagewise@1.2.3'));
+    await writeFile(
+      path.join(dir, 'stagewise@1.2.3', 'stagewise-1.2.3-x86_64.AppImage'),
+      'appimage',
+    );
+    await writeFile(
+      path.join(dir, 'stagewise@1.2.3', 'release.json'),
+      JSON.stringify({ notes: 'Fixes', publishedAt: '2026-06-01T00:00:00Z' }),
+    );
+
+    const source = createLocalDirectoryReleaseSource({
+      dir,
+      baseUrl: 'https://dl.example.com/files/',
+    });
+    const releases = await source.listReleases();
+
+    expect(releases).toEqual([
+      {
+        tag: 'stagewise@1.2.3',
+        name: undefined,
+        notes: 'Fixes',
+        publishedAt: '2026-06-01T00:00:00Z',
+        assets: [
+          {
+            name: 'stagewise-1.2.3-x86_64.AppImage',
+            browser_download_url:
+              'https://dl.example.com/files/stagewise%401.2.3/stagewise-1.2.3-x86_64.AppImage',
+            size: 8,
+            digest: `sha256:${createHash('sha256').update('appimage').digest('hex')}`,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('reads text assets from disk', async () => {
+    const dir = await makeReleasesDir();
+    await mkdir(path.join(dir, 'stagewise@1.2.3'));
+    await writeFile(path.join(dir, 'stagewise@1.2.3', 'SHA256SUMS'), 'sums');
+
+    const source = createLocalDirectoryReleaseSource({
+      dir,
+      baseUrl: 'http://localhost:3000/files',
+    });
+    const [release] = await source.listReleases();
+    expect(await source.readAssetText(release.assets[0])).toBe('sums');
+  });
+});
+
+describe('HTTP manifest release source', () => {
+  const manifest = {
+    releases: [
+      {
+        tag: 'stagewise@1.2.3',
+        publishedAt: '2026-06-01T00:00:00Z',
+        assets: [
+          {
+            name: 'stagewise-1.2.3-arm64.dmg',
+            size: 10,
+            sha256: 'AB'.repeat(32),
+          },
+          {
+            name: 'stagewise-1.2.3-x64-setup.exe',
+            size: 20,
+            url: 'https://cdn.example.com/setup.exe',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('resolves asset URLs against the manifest', () => {
+    const [release] = parseReleaseManifest(
+      manifest,
+      'https://bucket.example.com/stagewise/manifest.json',
+    );
+    expect(release.assets).toEqual([
+      {
+        name: 'stagewise-1.2.3-arm64.dmg',
+        browser_download_url:
+          'https://bucket.example.com/stagewise/stagewise%401.2.3/stagewise-1.2.3-arm64.dmg',
+        size: 10,
+        digest: `sha256:${'ab'.repeat(32)}`,
+      },
+      {
+        name: 'stagewise-1.2.3-x64-setup.exe',
+        browser_download_url: 'https://cdn.example.com/setup.exe',
+        size: 20,
+        digest: null,
+      },
+    ]);
+  });
+
+  it('rejects invalid manifests', () => {
+    expect(() =>
+      parseReleaseManifest({ releases: [{ tag: 'x' }] }, 'https://x/'),
+    ).toThrow(/releases\.0\.publishedAt is required/);
+  });
+
+  it('revalidates the manifest with its ETag', async () => {
+    const statuses: number[] = [];
+    const server: Server = createServer((req, res) => {
+      if (req.headers['if-none-match'] === '"v1"') {
+        statuses.push(304);
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+      statuses.push(200);
+      res.setHeader('ETag', '"v1"');
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(manifest));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    cleanups.push(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    const source = createHttpManifestReleaseSource({
+      manifestUrl: `http://127.0.0.1:${port}/manifest.json`,
+    });
+    const first = await source.listReleases();
+    const second = await source.listReleases();
+    expect(second).toEqual(first);
+    expect(statuses).toEqual([200, 304]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isReleaseOffered,
+  isUpdateMandatory,
+  parseRolloutConfig,
+  rolloutBucket,
+} from '../src/rollout.js';
+
+const VERSION = '1.0.1-nightly20260525c001';
+
+describe('parseRolloutConfig', () => {
+  it('accepts an empty object', () => {
+    expect(parseRolloutConfig({})).toEqual({
+      rollouts: {},
+      blockedVersions: [],
+      minimumVersions: {},
+    });
+  });
+
+  it('normalizes versions', () => {
+    const rollout = parseRolloutConfig({
+      rollouts: { [`v${VERSION}`]: 25 },
+      blockedVersions: ['v1.0.0'],
+      minimumVersions: { release: '=1.0.0' },
+    });
+    expect(rollout.rollouts).toEqual({ [VERSION]: 25 });
+    expect(rollout.blockedVersions).toEqual(['1.0.0']);
+    expect(rollout.minimumVersions).toEqual({ release: '1.0.0' });
+  });
+
+  it.each([
+    [[], /expected a JSON object/],
+    [{ rollouts: { [VERSION]: 101 } }, /between 0 and 100/],
+    [{ rollouts: { 'not-a-version': 10 } }, /not a valid version/],
+    [{ blockedVersions: '1.0.0' }, /must be an array/],
+    [{ minimumVersions: { stable: '1.0.0' } }, /is not a channel/],
+  ])('rejects %j', (raw, message) => {
+    expect(() => parseRolloutConfig(raw)).toThrow(message);
+  });
+});
+
+describe('rolloutBucket', () => {
+  it('is stable per client and version', () => {
+    expect(rolloutBucket('client-a', VERSION)).toBe(
+      rolloutBucket('client-a', VERSION),
+    );
+  });
+
+  it('spreads clients roughly evenly', () => {
+    const clients = Array.from({ length: 2000 }, (_, i) => `client-${i}`);
+    const inRollout = clients.filter(
+      (id) => rolloutBucket(id, VERSION) < 25,
+    ).length;
+    expect(inRollout).toBeGreaterThan(400);
+    expect(inRollout).toBeLessThan(600);
+  });
+});
+
+describe('isReleaseOffered', () => {
+  const clients = Array.from({ length: 200 }, (_, i) => `client-${i}`);
+
+  it('only adds clients when the percentage grows', () => {
+    const at = (percentage: number) =>
+      clients.filter((id) =>
+        isReleaseOffered(
+          parseRolloutConfig({ rollouts: { [VERSION]: percentage } }),
+          VERSION,
+          id,
+        ),
+      );
+    const ten = at(10);
+    const fifty = at(50);
+    expect(fifty.length).toBeGreaterThan(ten.length);
+    expect(fifty).toEqual(expect.arrayContaining(ten));
+    expect(at(0)).toEqual([]);
+    expect(at(100)).toEqual(clients);
+  });
+
+  it('holds partial rollouts back from clients without an id', () => {
+    const rollout = parseRolloutConfig({ rollouts: { [VERSION]: 99 } });
+    expect(isReleaseOffered(rollout, VERSION)).toBe(false);
+    expect(isReleaseOffered(rollout, '1.0.0')).toBe(true);
+  });
+
+  it('never offers blocked versions', () => {
+    const rollout = parseRolloutConfig({ blockedVersions: [VERSION] });
+    expect(isReleaseOffered(rollout, VERSION, 'client-a')).toBe(false);
+  });
+});
+
+describe('isUpdateMandatory', () => {
+  const rollout = parseRolloutConfig({
+    minimumVersions: { nightly: '1.0.1-nightly20260522c001' },
+  });
+
+  it('is mandatory below the channel minimum', () => {
+    expect(
+      isUpdateMandatory(rollout, 'nightly', '1.0.1-nightly20260521c003'),
+    ).toBe(true);
+    expect(
+      isUpdateMandatory(rollout, 'nightly', '1.0.1-nightly20260522c001'),
+    ).toBe(false);
+  });
+
+  it('is never mandatory without a minimum for the channel', () => {
+    expect(isUpdateMandatory(rollout, 'release', '0.0.1')).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../src/config.js';
+import { reloadRolloutConfig, rolloutBucket } from '../src/rollout.js';
+import routes from '../src/routes.js';
+import { type GitHubStub, startGitHubStub } from './github-stub.js';
+
+const NEWEST = '1.0.1-nightly20260525c001';
+const BROKEN = '1.0.1-nightly20260524c001';
+const STABLE = '1.0.1-nightly20260523c001';
+const OLD = '1.0.1-nightly20260520c001';
+
+function nightlyAssets(version: string) {
+  const prefix = `stagewise-prerelease-${version}`;
+  return [
+    { name: `stagewise-prerelease-darwin-arm64-${version}.zip` },
+    { name: `${prefix}-arm64.dmg` },
+    {
+      name: 'RELEASES-win32-x64',
+      content: `ABC123 ${prefix}-x64-full.nupkg 1024`,
+    },
+    { name: `${prefix}-x64-full.nupkg` },
+    {
+      name: `${prefix}-x86_64.AppImage`,
+      digest: `sha256:${'a'.repeat(64)}`,
+    },
+  ];
+}
+
+// Client ids on either side of a 30% rollout of NEWEST
+const ids = Array.from({ length: 100 }, (_, i) => `client-${i}`);
+const EARLY_CLIENT = ids.find((id) => rolloutBucket(id, NEWEST) < 30)!;
+const LATE_CLIENT = ids.find((id) => rolloutBucket(id, NEWEST) >= 30)!;
+
+let github: GitHubStub;
+let server: Server;
+let baseUrl: string;
+let configDir: string;
+
+async function setRolloutConfig(rollout: unknown): Promise<void> {
+  await writeFile(config.rolloutConfigPath!, JSON.stringify(rollout));
+  await reloadRolloutConfig();
+}
+
+async function get(
+  urlPath: string,
+): Promise<{ status: number; body: unknown; text: string }> {
+  const response = await fetch(`${baseUrl}${urlPath}`);
+  const text = await response.text();
+  const isJson = response.headers
+    .get('content-type')
+    ?.includes('application/json');
+  return {
+    status: response.status,
+    body: isJson ? JSON.parse(text) : undefined,
+    text,
+  };
+}
+
+beforeAll(async () => {
+  github = await startGitHubStub(
+    [NEWEST, BROKEN, STABLE, OLD].map((version) => ({
+      version,
+      notes: `Notes for ${version}`,
+      assets: nightlyAssets(version),
+    })),
+  );
+  config.githubApiUrl = github.url;
+
+  configDir = await mkdtemp(path.join(tmpdir(), 'update-server-'));
+  config.rolloutConfigPath = path.join(configDir, 'rollout.json');
+
+  const app = express();
+  app.use('/', routes);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await github.close();
+  await rm(configDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await setRolloutConfig({
+    rollouts: { [NEWEST]: 30 },
+    blockedVersions: [BROKEN],
+    minimumVersions: { nightly: '1.0.1-nightly20260522c001' },
+  });
+});
+
+describe('staged rollouts', () => {
+  it('offers a partially rolled out release to clients in its bucket', async () => {
+    const { status, body } = await get(
+      `/update/stagewise/nightly/macos/arm64/${OLD}?clientId=${EARLY_CLIENT}`,
+    );
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ name: NEWEST });
+  });
+
+  it('offers the previous non-blocked release to other clients', async () => {
+    for (const query of [`?clientId=${LATE_CLIENT}`, '']) {
+      const { body } = await get(
+        `/update/stagewise/nightly/macos/arm64/${OLD}${query}`,
+      );
+      expect(body).toMatchObject({ name: STABLE });
+    }
+  });
+
+  it('applies rollout changes without a restart', async () => {
+    await setRolloutConfig({ rollouts: { [NEWEST]: 100 } });
+    const { body } = await get(
+      `/update/stagewise/nightly/macos/arm64/${OLD}?clientId=${LATE_CLIENT}`,
+    );
+    expect(body).toMatchObject({ name: NEWEST });
+  });
+
+  it('gates the Windows RELEASES manifest and update metadata', async () => {
+    const releases = await get(
+      `/update/stagewise/nightly/win/x64/${OLD}/RELEASES?clientId=${LATE_CLIENT}`,
+    );
+    expect(releases.text).toContain(
+      `stagewise-prerelease-${STABLE}-full.nupkg`,
+    );
+
+    const info = await get(
+      `/update-info/stagewise/nightly/win/x64/${OLD}?clientId=${EARLY_CLIENT}`,
+    );
+    expect(info.body).toMatchObject({ version: NEWEST });
+  });
+
+  it('gates the Linux update endpoint', async () => {
+    const { body } = await get(
+      `/update/stagewise/nightly/linux/x86_64/${OLD}?clientId=${LATE_CLIENT}`,
+    );
+    expect(body).toMatchObject({ name: STABLE, sha256: 'a'.repeat(64) });
+  });
+});
+
+describe('blocked versions', () => {
+  it('stops offering a blocked release as an update or download', async () => {
+    await setRolloutConfig({ blockedVersions: [NEWEST, BROKEN] });
+
+    const update = await get(
+      `/update/stagewise/nightly/macos/arm64/${OLD}?clientId=${EARLY_CLIENT}`,
+    );
+    expect(update.body).toMatchObject({ name: STABLE });
+
+    const response = await fetch(
+      `${baseUrl}/download/stagewise/nightly/macos/arm64`,
+      { redirect: 'manual' },
+    );
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toContain(
+      `stagewise-prerelease-${STABLE}-arm64.dmg`,
+    );
+  });
+
+  it('responds 204 when every newer release is blocked', async () => {
+    await setRolloutConfig({ blockedVersions: [NEWEST, BROKEN] });
+    const { status } = await get(
+      `/update/stagewise/nightly/macos/arm64/${STABLE}`,
+    );
+    expect(status).toBe(204);
+  });
+});
+
+describe('minimum supported version', () => {
+  it('marks updates below the minimum as mandatory', async () => {
+    const macos = await get(
+      `/update/stagewise/nightly/macos/arm64/${OLD}?clientId=${LATE_CLIENT}`,
+    );
+    expect(macos.body).toMatchObject({ name: STABLE, mandatory: true });
+
+    const info = await get(`/update-info/stagewise/nightly/win/x64/${OLD}`);
+    expect(info.body).toMatchObject({ version: STABLE, mandatory: true });
+  });
+
+  it('does not mark updates at or above the minimum as mandatory', async () => {
+    const { body } = await get(
+      `/update/stagewise/nightly/macos/arm64/${STABLE}?clientId=${EARLY_CLIENT}`,
+    );
+    expect(body).toMatchObject({ name: NEWEST, mandatory: false });
+  });
+});
+
+describe('request validation', () => {
+  it('rejects a Linux update request with an invalid version', async () => {
+    const { status, text } = await get(
+      '/update/stagewise/nightly/linux/x86_64/not-a-version',
+    );
+    expect(status).toBe(400);
+    expect(text).toBe('Invalid version');
+  });
+});
@@ -17,6 +17,8 @@ await esbuild.build({
     index: 'src/index.ts',
     'types/index': 'src/types/index.ts',
     'types/agent': 'src/types/agent.ts',
+    'types/agent-budgets': 'src/types/agent-budgets.ts',
+    'types/agent-triggers': 'src/types/agent-triggers.ts',
     'types/diff-history': 'src/types/diff-history.ts',
     'types/metadata': 'src/types/metadata.ts',
     'types/models': 'src/types/models.ts',
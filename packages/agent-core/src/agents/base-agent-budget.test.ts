@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AgentRuntimeError } from '../types/agent';
+import { ChatAgent } from './chat/chat';
+
+const budgetError: AgentRuntimeError = {
+  kind: 'budget-exceeded',
+  message: 'The daily budget of $5.00 is used up ($5.10 used).',
+  budgetId: 'budget-1',
+  scope: 'day',
+  unit: 'usd',
+  workspacePath: null,
+  used: 5.1,
+  limit: 5,
+};
+
+function createAgent(state: {
+  error?: AgentRuntimeError;
+  isWorking?: boolean;
+}) {
+  const agent = Object.create(ChatAgent.prototype) as any;
+  agent._stepGeneration = 0;
+  agent._pendingContinue = null;
+  agent._pendingSyntheticContinuation = null;
+  agent._pendingFallbackRetry = false;
+  agent._queuedMessageToFlushOnNextStepId = null;
+  agent.stepAbortController = null;
+  agent.instanceId = 'agent-1';
+  agent.host = {
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    models: { getWithOptions: vi.fn() },
+  };
+  agent.state = {
+    get: () => ({
+      history: [],
+      queuedMessages: [],
+      isWorking: false,
+      ...state,
+    }),
+    commands: {
+      beginStep: vi.fn(() => ({ queueFlushIndex: 1 })),
+      recordStepError: vi.fn(),
+    },
+  };
+  agent.saveState = vi.fn();
+  agent.scheduleMemorySnapshotWrite = vi.fn();
+  agent.emitNotificationEvent = vi.fn();
+  return agent;
+}
+
+describe('BaseAgent budgets', () => {
+  it('pauses before the step when a budget is used up', async () => {
+    const agent = createAgent({});
+    agent.budgetGuard = { checkBeforeStep: vi.fn(async () => budgetError) };
+
+    await agent.runStep();
+
+    expect(agent.state.commands.recordStepError).toHaveBeenCalledWith({
+      error: budgetError,
+      markUnread: 'always',
+    });
+    expect(agent.emitNotificationEvent).toHaveBeenCalledWith('question');
+    expect(agent.saveState).toHaveBeenCalledWith([1]);
+    expect(agent.host.models.getWithOptions).not.toHaveBeenCalled();
+  });
+
+  it('runs the step when the budget lookup fails', async () => {
+    const agent = createAgent({});
+    agent.budgetGuard = {
+      checkBeforeStep: vi.fn(async () => {
+        throw new Error('database is locked');
+      }),
+    };
+    agent._fallbackManager = { resolveModelIndex: () => 0 };
+    agent.host.models.getWithOptions.mockRejectedValue(new Error('stop here'));
+    agent.report = vi.fn();
+
+    await agent.runStep();
+
+    expect(agent.host.logger.warn).toHaveBeenCalled();
+    expect(agent.host.models.getWithOptions).toHaveBeenCalled();
+  });
+
+  it('records usage for the model the step ran on', async () => {
+    const agent = createAgent({});
+    agent.state.get = () => ({
+      activeModelId: 'switched-mid-step',
+      activeProviderInstanceId: 'other-instance',
+    });
+    agent.budgetGuard = { recordStepUsage: vi.fn(async () => {}) };
+    agent._stepGeneration = 1;
+    agent.applyStepProviderMetadataIfCurrent(
+      {
+        providerMode: 'byok',
+        pricing: { inputPerMillion: 1, outputPerMillion: 5 },
+      },
+      1,
+      { modelId: 'fallback-model', providerInstanceId: 'fallback-instance' },
+    );
+
+    await agent.recordStepUsage({
+      usage: {
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+        inputTokenDetails: {},
+      },
+    });
+
+    expect(agent.budgetGuard.recordStepUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        modelId: 'fallback-model',
+        providerInstanceId: 'fallback-instance',
+        pricing: { inputPerMillion: 1, outputPerMillion: 5 },
+        totalTokens: 15,
+      }),
+    );
+  });
+
+  it('resumes only a run paused by a budget', async () => {
+    const paused = createAgent({ error: budgetError });
+    paused.runStep = vi.fn();
+    await paused.resumeAfterBudgetPause();
+    expect(paused.runStep).toHaveBeenCalledOnce();
+
+    const failed = createAgent({ error: { message: 'boom' } });
+    await expect(failed.resumeAfterBudgetPause()).rejects.toThrow(
+      /not paused by a budget/,
+    );
+  });
+});
@@ -18,6 +18,7 @@ type RunStepInternals = {
   applyStepProviderMetadataIfCurrent: (
     modelWithOptions: ModelWithOptions,
     stepGeneration: number,
+    stepModel: { modelId: string; providerInstanceId?: string },
   ) => void;
   host: {
     models: { getWithOptions: () => Promise<ModelWithOptions> };
@@ -106,11 +107,13 @@ describe('BaseAgent step provider metadata', () => {
     agent.applyStepProviderMetadataIfCurrent(
       providerMetadata('stale-mode', 'stale-plan', 'stale-provider'),
       1,
+      { modelId: 'stale-model' },
     );
 
     expect(agent._stepProviderMode).toBe('current-mode');
     expect(agent._stepCodingPlanId).toBe('current-plan');
     expect(agent._stepProviderType).toBe('current-provider');
+    expect(agent._stepModel).toBeUndefined();
   });
 
   it('updates the complete metadata tuple for the current generation', () => {
@@ -120,11 +123,16 @@ describe('BaseAgent step provider metadata', () => {
     agent.applyStepProviderMetadataIfCurrent(
       providerMetadata('next-mode', undefined, 'next-provider'),
       2,
+      { modelId: 'next-model', providerInstanceId: 'next-instance' },
     );
 
     expect(agent._stepProviderMode).toBe('next-mode');
     expect(agent._stepCodingPlanId).toBeUndefined();
     expect(agent._stepProviderType).toBe('next-provider');
+    expect(agent._stepModel).toEqual({
+      modelId: 'next-model',
+      providerInstanceId: 'next-instance',
+    });
   });
 });
 
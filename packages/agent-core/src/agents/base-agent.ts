@@ -31,6 +31,7 @@ import {
   MODEL_REQUEST_PURPOSE_METADATA_KEY,
   PRESET_THINKING_OVERRIDE_METADATA_KEY,
   PROVIDER_INSTANCE_ID_METADATA_KEY,
+  type ModelPricing,
   type ModelWithOptions,
   type UtilityModelEntry,
 } from '../host/models';
@@ -86,6 +87,10 @@ import type { AttachmentsService } from '../services/attachments';
 import { capToolOutput } from '../services/toolbox';
 import type { ProcessedImageCacheService } from '../services/processed-image-cache';
 import type { FileReadCacheService } from '../services/file-read-cache';
+import type {
+  AgentBudgetExceededError,
+  AgentStepUsage,
+} from '../services/agent-budgets';
 import {
   populatePathReferences,
   extractReadFilePathsFromAssistantMessage,
@@ -139,6 +144,12 @@ export interface BaseAgentToolboxView {
   getSkillsList(agentInstanceId: string): Promise<SkillDefinition[]>;
   getMountedPathsForAgent(agentInstanceId: string): Map<string, string>;
   getTool(toolName: string, agentInstanceId: string): Promise<Tool | null>;
+  /**
+   * Tools whose names are only known at runtime (e.g. those of the MCP
+   * servers the user configured), keyed by tool name. Hosts without such
+   * tools omit it.
+   */
+  getDynamicTools?(agentInstanceId: string): Promise<Record<string, Tool>>;
   handleMountWorkspace(
     agentInstanceId: string,
     workspacePath: string,
@@ -156,6 +167,17 @@ export interface BaseAgentCaches {
   processedImageCache?: ProcessedImageCacheService;
 }
 
+/**
+ * Usage budgets of a single agent, bound to it by the host. See
+ * `AgentBudgetService`.
+ */
+export interface AgentBudgetGuard {
+  /** Resolves to the error to pause with when a budget is used up. */
+  checkBeforeStep(): Promise<AgentBudgetExceededError | null>;
+  /** Adds a finished step to the usage ledger. */
+  recordStepUsage(usage: AgentStepUsage): Promise<void>;
+}
+
 /**
  * User-facing agent lifecycle milestones a host may want to surface
  * (e.g. as a sound or OS notification):
@@ -250,6 +272,12 @@ export interface BaseAgentDependencies<
     agentId: string,
   ) => void | Promise<void>;
   externalRuntime?: ExternalAgentRuntime;
+  /**
+   * Checked before every step; a used-up budget pauses the agent with a
+   * `budget-exceeded` error until {@link BaseAgent.resumeAfterBudgetPause}.
+   * Steps of external runtimes are gated but not recorded.
+   */
+  budgetGuard?: AgentBudgetGuard;
 }
 
 /**
@@ -606,6 +634,14 @@ export abstract class BaseAgent<
   private _stepProviderMode = '';
   private _stepCodingPlanId: string | undefined;
   private _stepProviderType: string | undefined;
+  private _stepPricing: ModelPricing | undefined;
+  /**
+   * Model the current step runs on, after preset resolution and fallback.
+   * `activeModelId` can change mid-step, so usage is attributed to this.
+   */
+  private _stepModel:
+    | Pick<UtilityModelEntry, 'modelId' | 'providerInstanceId'>
+    | undefined;
   private _toolCallDurations = new Map<string, number>();
   private _memoryWriter: AgentMemoryWriter | null = null;
   private _memoryWriteTimer: ReturnType<typeof setTimeout> | null = null;
@@ -721,6 +757,7 @@ export abstract class BaseAgent<
     agentId: string,
   ) => void | Promise<void>;
   private readonly externalRuntime?: ExternalAgentRuntime;
+  private readonly budgetGuard?: AgentBudgetGuard;
 
   private messages: AgentMessage[] = [];
 
@@ -743,6 +780,7 @@ export abstract class BaseAgent<
     this.agentTypeRegistry = deps.agentTypeRegistry;
     this.notificationEventHandler = deps.notificationEventHandler;
     this.externalRuntime = deps.externalRuntime;
+    this.budgetGuard = deps.budgetGuard;
     this.processedImageCacheService = deps.caches?.processedImageCache;
     this.renderExtraMention = deps.renderExtraMention;
     if (!deps.caches?.fileReadCache) {
@@ -1139,6 +1177,21 @@ export abstract class BaseAgent<
     await this.sendUserMessage(lastUserMessage);
   }
 
+  /**
+   * Continues the run that a used-up budget paused, e.g. after the user
+   * extended the budget. Budgets are checked again before the step.
+   *
+   * @note DO NOT OVERRIDE
+   */
+  public async resumeAfterBudgetPause(): Promise<void> {
+    const state = this.state.get();
+    if (state.error?.kind !== 'budget-exceeded') {
+      throw new Error('Agent is not paused by a budget');
+    }
+    if (state.isWorking) return;
+    void this.runStep();
+  }
+
   /**
    * Retrieves the current message history of the agent (including streaming messages).
    *
@@ -1723,6 +1776,28 @@ export abstract class BaseAgent<
     }
     const queueFlushIndex = flushedIndex ?? -1;
 
+    // A used-up budget pauses the agent before any tokens are spent. The
+    // pending work stays in history and continues on resume.
+    if (this.budgetGuard) {
+      const budgetError = await this.checkBudgetBeforeStep(this.budgetGuard);
+      if (this._stepGeneration !== stepGen) return;
+      if (budgetError) {
+        this.host.logger.info(
+          `[BaseAgent:${this.instanceId}] Pausing before step: ${budgetError.message}`,
+        );
+        this._pendingSyntheticContinuation = null;
+        this.state.commands.recordStepError({
+          error: budgetError,
+          markUnread: 'always',
+        });
+        this.emitNotificationEvent('question');
+        await this.saveState(
+          flushedIndex === undefined ? undefined : [flushedIndex],
+        );
+        return;
+      }
+    }
+
     // Snapshot the model id + provider instance used for THIS step.
     // `updateActiveModelId` accepts writes even while a step is running,
     // so any later read from async callbacks (telemetry, onError) could
@@ -1810,7 +1885,10 @@ export abstract class BaseAgent<
         this.instanceId,
         resolutionMetadata,
       );
-      this.applyStepProviderMetadataIfCurrent(modelWithOptions, stepGen);
+      this.applyStepProviderMetadataIfCurrent(modelWithOptions, stepGen, {
+        modelId: stepModelId,
+        providerInstanceId: stepProviderInstanceId,
+      });
       if (this._stepGeneration !== stepGen) return;
     } catch (error) {
       if (this._stepGeneration !== stepGen) return;
@@ -2786,6 +2864,7 @@ export abstract class BaseAgent<
     });
 
     this.updateUsageWarning(result);
+    await this.recordStepUsage(result);
 
     // Save the agent state for recovery
     await this.saveState();
@@ -2816,7 +2895,7 @@ export abstract class BaseAgent<
     this.host.telemetry?.capture('agent-step-completed', {
       agent_type: this.agentType,
       agent_instance_id: this.instanceId,
-      model_id: this.state.get().activeModelId,
+      model_id: this._stepModel?.modelId ?? this.state.get().activeModelId,
       provider_mode: this._stepProviderMode,
       coding_plan_id: this._stepCodingPlanId,
       provider_type: this._stepProviderType,
@@ -3296,12 +3375,15 @@ export abstract class BaseAgent<
   private applyStepProviderMetadataIfCurrent(
     modelWithOptions: ModelWithOptions,
     stepGeneration: number,
+    stepModel: Pick<UtilityModelEntry, 'modelId' | 'providerInstanceId'>,
   ): void {
     if (this._stepGeneration !== stepGeneration) return;
 
     this._stepProviderMode = modelWithOptions.providerMode;
     this._stepCodingPlanId = modelWithOptions.connectedCodingPlanId;
     this._stepProviderType = modelWithOptions.providerType;
+    this._stepPricing = modelWithOptions.pricing;
+    this._stepModel = stepModel;
   }
 
   private async internalStop(
@@ -3704,6 +3786,49 @@ export abstract class BaseAgent<
     };
   }
 
+  /**
+   * Budget lookups never block the agent: when the ledger can't be read
+   * the step runs.
+   */
+  private async checkBudgetBeforeStep(
+    budgetGuard: AgentBudgetGuard,
+  ): Promise<AgentBudgetExceededError | null> {
+    try {
+      return await budgetGuard.checkBeforeStep();
+    } catch (error) {
+      this.host.logger.warn(
+        `[BaseAgent:${this.instanceId}] Failed to check usage budgets: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async recordStepUsage(result: StepResult<ToolSet>): Promise<void> {
+    if (!this.budgetGuard) return;
+    const state = this.state.get();
+    const stepModel = this._stepModel ?? {
+      modelId: state.activeModelId,
+      providerInstanceId: state.activeProviderInstanceId,
+    };
+    try {
+      await this.budgetGuard.recordStepUsage({
+        modelId: stepModel.modelId,
+        providerInstanceId: stepModel.providerInstanceId ?? null,
+        inputTokens: result.usage.inputTokens ?? 0,
+        outputTokens: result.usage.outputTokens ?? 0,
+        cacheReadTokens: result.usage.inputTokenDetails.cacheReadTokens ?? 0,
+        cacheWriteTokens: result.usage.inputTokenDetails.cacheWriteTokens ?? 0,
+        totalTokens: result.usage.totalTokens ?? 0,
+        pricing: this._stepPricing,
+      });
+    } catch (error) {
+      this.host.logger.error(
+        `[BaseAgent:${this.instanceId}] Failed to record step usage`,
+        error,
+      );
+    }
+  }
+
   private updateUsageWarning(result: StepResult<ToolSet>): void {
     const pm = result.providerMetadata as
       | Record<string, Record<string, unknown>>
@@ -16,14 +16,17 @@ import { ChatAgent } from './chat';
 
 interface ChatAgentInternals {
   instanceId: string;
-  toolbox: { getTool: ReturnType<typeof vi.fn> };
+  toolbox: {
+    getTool: ReturnType<typeof vi.fn>;
+    getDynamicTools?: ReturnType<typeof vi.fn>;
+  };
   getTools: () => Promise<Record<string, unknown>>;
   getAdditionalTools: () => Promise<Record<string, unknown>>;
 }
 
 function makeStubAgent<T extends ChatAgent>(
   ctor: new (...args: never[]) => T,
-  toolboxImpl: { getTool: ReturnType<typeof vi.fn> },
+  toolboxImpl: ChatAgentInternals['toolbox'],
 ): ChatAgentInternals {
   const instance = Object.create(ctor.prototype) as ChatAgentInternals;
   instance.instanceId = 'test-agent';
@@ -118,4 +121,18 @@ describe('ChatAgent', () => {
     expect(tools).not.toHaveProperty('missingHostTool');
     expect(tools).toHaveProperty('presentHostTool');
   });
+
+  it('merges dynamic toolbox tools without overriding built-in tools', async () => {
+    const getTool = vi.fn().mockResolvedValue({ kind: 'built-in' });
+    const getDynamicTools = vi.fn().mockResolvedValue({
+      mcp__github__create_issue: { kind: 'dynamic' },
+      read: { kind: 'dynamic' },
+    });
+    const stub = makeStubAgent(ChatAgent, { getTool, getDynamicTools });
+    const tools = await stub.getTools();
+
+    expect(getDynamicTools).toHaveBeenCalledWith('test-agent');
+    expect(tools.mcp__github__create_issue).toEqual({ kind: 'dynamic' });
+    expect(tools.read).toEqual({ kind: 'built-in' });
+  });
 });
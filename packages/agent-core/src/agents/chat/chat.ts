@@ -99,8 +99,10 @@ export class ChatAgent extends BaseAgent<never, undefined> {
       grepSearch: await box.getTool('grepSearch', id),
     };
     const extra = await this.getAdditionalTools();
+    // Built-in tools win over dynamic tools of the same name.
+    const dynamic = (await box.getDynamicTools?.(id)) ?? {};
     return Object.fromEntries(
-      Object.entries({ ...baseline, ...extra }).filter(
+      Object.entries({ ...dynamic, ...baseline, ...extra }).filter(
         ([, tool]) => tool !== null,
       ),
     ) as Partial<ToolSet>;
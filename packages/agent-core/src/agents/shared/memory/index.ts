@@ -12,6 +12,7 @@ import {
 import type { AgentHost } from '../../../host/host';
 import type { AgentMessage } from '../../../types/agent';
 import { upsertMemoryIndexEntry } from './global-index';
+import { indexAgentHistory, updateIndexedAgentTitle } from './search-index';
 import {
   serializeAgentMemoryHistoryChunked,
   serializeAgentMemoryJsonl,
@@ -251,6 +252,13 @@ export class AgentMemoryWriter {
         state = await this.fullRewrite(options);
       } else if (options.reason === 'title') {
         await this.writeMetadataAndIndex(options, state, new Date());
+        await this.updateSearchIndex(() =>
+          updateIndexedAgentTitle(
+            this.host.paths,
+            this.agentInstanceId,
+            options.title,
+          ),
+        );
       } else if (this.shouldFullRewrite(options.reason, state)) {
         state = await this.fullRewrite(options);
       } else {
@@ -363,6 +371,18 @@ export class AgentMemoryWriter {
 
     const state = await this.computeArchiveState(options.history, 0);
     await this.writeMetadataAndIndex(options, state, serializedAt);
+    await this.updateSearchIndex(() =>
+      indexAgentHistory(
+        this.host.paths,
+        {
+          agentInstanceId: this.agentInstanceId,
+          title: options.title,
+          messages: options.history as readonly WideAgentMessage[],
+          sequenceOffset: 0,
+        },
+        this.host.models.getEmbeddingModel?.(),
+      ),
+    );
     return state;
   }
 
@@ -406,9 +426,36 @@ export class AgentMemoryWriter {
       previousState.appendsSinceRewrite + 1,
     );
     await this.writeMetadataAndIndex(options, state, serializedAt);
+    await this.updateSearchIndex(() =>
+      indexAgentHistory(
+        this.host.paths,
+        {
+          agentInstanceId: this.agentInstanceId,
+          title: options.title,
+          messages: newMessages as readonly WideAgentMessage[],
+          sequenceOffset: previousState.archivedCount,
+        },
+        this.host.models.getEmbeddingModel?.(),
+      ),
+    );
     return state;
   }
 
+  /**
+   * The search index is derived from the archive and rebuilt on the next
+   * full rewrite, so failing to update it never fails the snapshot.
+   */
+  private async updateSearchIndex(update: () => Promise<void>): Promise<void> {
+    try {
+      await update();
+    } catch (error) {
+      this.host.logger.warn('[memory] failed to update history search index', {
+        agentInstanceId: this.agentInstanceId,
+        error,
+      });
+    }
+  }
+
   private async computeArchiveState(
     history: readonly AgentMessage[],
     appendsSinceRewrite: number,
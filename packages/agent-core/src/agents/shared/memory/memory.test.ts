@@ -15,6 +15,7 @@ import { createTestAgentHost } from '../../../host/test-utils';
 import type { AgentMessage } from '../../../types/agent';
 import { upsertMemoryIndexEntry } from './global-index';
 import { AgentMemoryWriter, writeAgentMemorySnapshot } from './index';
+import { closeHistorySearchIndexes, searchAgentHistory } from './search-index';
 import {
   serializeAgentMemoryHistoryChunked,
   serializeAgentMemoryJsonl,
@@ -57,6 +58,7 @@ function makeHost(memoryDir: string): AgentHost {
     agentDbPath: noopPath,
     fileReadCacheDbPath: noopPath,
     processedImageCacheDbPath: noopPath,
+    historySearchDbPath: () => path.join(memoryDir, 'history-search.sqlite'),
     userDataDir: noopPath,
     plansDir: noopPath,
     logsDir: noopPath,
@@ -83,6 +85,7 @@ async function withMemoryRoot(
   try {
     await callback(root, makeHost(root));
   } finally {
+    await closeHistorySearchIndexes();
     await rm(root, { recursive: true, force: true });
   }
 }
@@ -426,6 +429,45 @@ describe('agent memory writer', () => {
     });
   });
 
+  it('keeps the history search index in step with snapshots', async () => {
+    await withMemoryRoot(async (_root, host) => {
+      const writer = new AgentMemoryWriter({
+        host,
+        agentInstanceId: 'agent-1',
+      });
+      const history = [makeMessage('u1', 'user', 'why is the build slow')];
+      await writer.flush({
+        title: 'Build',
+        activeModelId: 'model-a',
+        history,
+        reason: 'user-message',
+      });
+      history.push(makeMessage('a1', 'assistant', 'turbopack cache misses'));
+      await writer.flush({
+        title: 'Build',
+        activeModelId: 'model-a',
+        history,
+        reason: 'post-step',
+      });
+      await writer.flush({
+        title: 'Slow builds',
+        activeModelId: 'model-a',
+        history,
+        reason: 'title',
+      });
+
+      const hits = await searchAgentHistory(host.paths, 'turbopack');
+      expect(hits.map((hit) => [hit.messageId, hit.title])).toEqual([
+        ['a1', 'Slow builds'],
+      ]);
+      expect(
+        (await searchAgentHistory(host.paths, 'build')).map(
+          (hit) => hit.messageId,
+        ),
+      ).toEqual(['u1']);
+    });
+  });
+
   it('rewrites on full-rewrite reasons and mutation detection', async () => {
     await withMemoryRoot(async (root, host) => {
       const writer = new AgentMemoryWriter({
@@ -0,0 +1,313 @@
+import path from 'node:path';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { HostEmbeddingModel } from '../../../host/models';
+import type { HostPaths } from '../../../host/paths';
+import { createTestHostPaths } from '../../../host/test-utils';
+import type { AgentMessage } from '../../../types/agent';
+import {
+  closeHistorySearchIndexes,
+  indexAgentHistory,
+  removeAgentFromHistorySearch,
+  searchAgentHistory,
+  updateIndexedAgentTitle,
+} from './search-index';
+import { serializeAgentMemoryJsonl } from './serialization';
+
+let root: string | undefined;
+
+afterEach(async () => {
+  await closeHistorySearchIndexes();
+  if (root) await rm(root, { recursive: true, force: true });
+  root = undefined;
+});
+
+async function setup(): Promise<{ paths: HostPaths }> {
+  root = await mkdtemp(path.join(tmpdir(), 'history-search-'));
+  const paths = createTestHostPaths({
+    historySearchDbPath: () => path.join(root!, 'history-search.sqlite'),
+    memoryDir: () => path.join(root!, 'memory'),
+  });
+  // Wrapped so awaiting `setup()` does not probe the proxy for `then`.
+  return { paths };
+}
+
+function text(id: string, role: AgentMessage['role'], value: string) {
+  return {
+    id,
+    role,
+    parts: [{ type: 'text', text: value }],
+    metadata: {
+      createdAt: new Date('2026-03-04T05:06:07.000Z'),
+      partsMetadata: [],
+    },
+  } as AgentMessage;
+}
+
+function toolCall(id: string, input: Record<string, unknown>) {
+  return {
+    id,
+    role: 'assistant',
+    parts: [
+      {
+        type: 'tool-multiEdit',
+        toolCallId: `${id}-call`,
+        state: 'output-available',
+        input,
+        output: { message: 'ok' },
+      },
+    ],
+  } as AgentMessage;
+}
+
+/**
+ * Embeds text as counts of a few hand-picked concepts, so synonyms land
+ * close together without sharing a keyword.
+ */
+function conceptEmbeddingModel(calls: string[][] = []): HostEmbeddingModel {
+  const concepts = [
+    /cach|redis|memcached/gi,
+    /slow|latency|performance|sluggish/gi,
+    /auth|login|sign.?in/gi,
+  ];
+  return {
+    id: 'test/concepts',
+    model: {
+      specificationVersion: 'v3',
+      provider: 'test',
+      modelId: 'concepts',
+      maxEmbeddingsPerCall: undefined,
+      supportsParallelCalls: false,
+      async doEmbed({ values }) {
+        calls.push(values);
+        return {
+          embeddings: values.map((value) => [
+            1e-3,
+            ...concepts.map((concept) => value.match(concept)?.length ?? 0),
+          ]),
+          warnings: [],
+        };
+      },
+    },
+  };
+}
+
+describe('history search index', () => {
+  it('finds message text, tool inputs and file paths with snippets', async () => {
+    const { paths } = await setup();
+    await indexAgentHistory(paths, {
+      agentInstanceId: 'agent-1',
+      title: 'Fix hydration',
+      messages: [
+        text('u1', 'user', 'The page throws a hydration mismatch warning'),
+        toolCall('a1', {
+          path: 'w1a2b/src/app/layout.tsx',
+          edits: [{ oldString: 'Date.now()', newString: 'useEffect' }],
+        }),
+      ],
+      sequenceOffset: 0,
+    });
+
+    const [byText] = await searchAgentHistory(paths, 'hydration warnings');
+    expect(byText).toMatchObject({
+      agentInstanceId: 'agent-1',
+      title: 'Fix hydration',
+      messageId: 'u1',
+      role: 'user',
+      createdAt: new Date('2026-03-04T05:06:07.000Z'),
+    });
+    expect(byText?.snippet).toContain('**hydration**');
+
+    const [byPath] = await searchAgentHistory(paths, 'layout.tsx');
+    expect(byPath?.messageId).toBe('a1');
+    const [byInput] = await searchAgentHistory(paths, 'useEffect');
+    expect(byInput?.messageId).toBe('a1');
+  });
+
+  it('replaces messages from the sequence offset on and keeps earlier ones', async () => {
+    const { paths } = await setup();
+    const base = {
+      agentInstanceId: 'agent-1',
+      title: 'Chat',
+    };
+    await indexAgentHistory(paths, {
+      ...base,
+      messages: [
+        text('u1', 'user', 'first question about caching'),
+        text('a1', 'assistant', 'draft answer mentioning redis'),
+      ],
+      sequenceOffset: 0,
+    });
+    await indexAgentHistory(paths, {
+      ...base,
+      messages: [text('a1', 'assistant', 'final answer mentioning memcached')],
+      sequenceOffset: 1,
+    });
+
+    expect(await searchAgentHistory(paths, 'redis')).toEqual([]);
+    expect(
+      (await searchAgentHistory(paths, 'memcached')).map(
+        (hit) => hit.messageId,
+      ),
+    ).toEqual(['a1']);
+    expect(
+      (await searchAgentHistory(paths, 'caching')).map((hit) => hit.messageId),
+    ).toEqual(['u1']);
+  });
+
+  it('falls back to any term, caps hits per chat and honours exclusions', async () => {
+    const { paths } = await setup();
+    await indexAgentHistory(paths, {
+      agentInstanceId: 'agent-1',
+      title: 'Many matches',
+      messages: Array.from({ length: 5 }, (_, index) =>
+        text(`m${index}`, 'assistant', `webpack config step ${index}`),
+      ),
+      sequenceOffset: 0,
+    });
+    await indexAgentHistory(paths, {
+      agentInstanceId: 'agent-2',
+      title: 'Other chat',
+      messages: [text('o1', 'user', 'webpack is slow')],
+      sequenceOffset: 0,
+    });
+
+    const hits = await searchAgentHistory(paths, 'webpack');
+    expect(
+      hits.filter((hit) => hit.agentInstanceId === 'agent-1'),
+    ).toHaveLength(3);
+    expect(hits.some((hit) => hit.agentInstanceId === 'agent-2')).toBe(true);
+
+    const loose = await searchAgentHistory(paths, 'slow vite', {
+      excludeAgentIds: ['agent-1'],
+    });
+    expect(loose.map((hit) => hit.messageId)).toEqual(['o1']);
+    expect(await searchAgentHistory(paths, '"*()')).toEqual([]);
+  });
+
+  it('updates titles and forgets deleted agents', async () => {
+    const { paths } = await setup();
+    await indexAgentHistory(paths, {
+      agentInstanceId: 'agent-1',
+      title: 'Old title',
+      messages: [text('u1', 'user', 'rename the sidebar component')],
+      sequenceOffset: 0,
+    });
+
+    await updateIndexedAgentTitle(paths, 'agent-1', 'New title');
+    expect((await searchAgentHistory(paths, 'sidebar'))[0]?.title).toBe(
+      'New title',
+    );
+
+    await removeAgentFromHistorySearch(paths, 'agent-1');
+    expect(await searchAgentHistory(paths, 'sidebar')).toEqual([]);
+  });
+
+  it('backfills archived agents from memory on the first search', async () => {
+    const { paths } = await setup();
+    const agentDir = path.join(root!, 'memory', 'agents', 'archived');
+    await mkdir(agentDir, { recursive: true });
+    await writeFile(
+      path.join(agentDir, 'history.jsonl'),
+      serializeAgentMemoryJsonl(
+        [text('u1', 'user', 'migrate the database to postgres')],
+        { agentInstanceId: 'archived' },
+      ),
+    );
+    await writeFile(
+      path.join(agentDir, 'metadata.json'),
+      JSON.stringify({ title: 'Postgres migration' }),
+    );
+    const deletedDir = path.join(root!, 'memory', 'agents', 'deleted');
+    await mkdir(deletedDir, { recursive: true });
+    await writeFile(
+      path.join(deletedDir, 'history.jsonl'),
+      serializeAgentMemoryJsonl(
+        [text('u1', 'user', 'postgres question of a deleted chat')],
+        { agentInstanceId: 'deleted' },
+      ),
+    );
+    await removeAgentFromHistorySearch(paths, 'deleted');
+
+    const hits = await searchAgentHistory(paths, 'postgres');
+
+    expect(hits.map((hit) => [hit.agentInstanceId, hit.title])).toEqual([
+      ['archived', 'Postgres migration'],
+    ]);
+  });
+
+  it('ranks by meaning when the host has an embedding model', async () => {
+    const { paths } = await setup();
+    const calls: string[][] = [];
+    const model = conceptEmbeddingModel(calls);
+    await indexAgentHistory(
+      paths,
+      {
+        agentInstanceId: 'agent-1',
+        title: 'Performance',
+        messages: [
+          text('u1', 'user', 'add redis in front of the product API'),
+          text('u2', 'user', 'the login form rejects valid passwords'),
+        ],
+        sequenceOffset: 0,
+      },
+      model,
+    );
+    expect(calls.flat()).toHaveLength(2);
+    const onError = () => {
+      throw new Error('unexpected embedding failure');
+    };
+
+    expect(await searchAgentHistory(paths, 'caching layer')).toEqual([]);
+    const hits = await searchAgentHistory(
+      paths,
+      'caching layer',
+      {},
+      { model, onError },
+    );
+
+    expect(hits[0]).toMatchObject({ messageId: 'u1', title: 'Performance' });
+    expect(hits[0]?.snippet).toContain('redis');
+    // Only the query was embedded; stored vectors were reused.
+    expect(calls.slice(1)).toEqual([['caching layer']]);
+  });
+
+  it('embeds missing messages on search and keeps keyword hits when embedding fails', async () => {
+    const { paths } = await setup();
+    await indexAgentHistory(paths, {
+      agentInstanceId: 'agent-1',
+      title: 'Auth',
+      messages: [text('u1', 'user', 'sign in redirects back to the home page')],
+      sequenceOffset: 0,
+    });
+    const calls: string[][] = [];
+
+    const hits = await searchAgentHistory(
+      paths,
+      'authentication',
+      {},
+      { model: conceptEmbeddingModel(calls), onError: () => {} },
+    );
+    expect(hits.map((hit) => hit.messageId)).toEqual(['u1']);
+    expect(calls).toEqual([
+      ['sign in redirects back to the home page'],
+      ['authentication'],
+    ]);
+
+    const errors: unknown[] = [];
+    const failing = conceptEmbeddingModel();
+    failing.model = {
+      ...(failing.model as object),
+      doEmbed: () => Promise.reject(new Error('model unavailable')),
+    } as HostEmbeddingModel['model'];
+    const fallback = await searchAgentHistory(
+      paths,
+      'redirects',
+      {},
+      { model: failing, onError: (error) => errors.push(error) },
+    );
+    expect(fallback.map((hit) => hit.messageId)).toEqual(['u1']);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,680 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { createClient, type Client, type InStatement } from '@libsql/client';
+import { embed, embedMany } from 'ai';
+import { mkdir, readdir, readFile } from '../../../fs';
+import type { HostEmbeddingModel } from '../../../host/models';
+import type { HostPaths } from '../../../host/paths';
+import type {
+  AgentHistorySearchHit,
+  AgentHistorySearchOptions,
+} from '../../../types/agent';
+import type { WideAgentMessage } from './serialization';
+
+/**
+ * FTS5 index over past conversations, kept next to the memory archive.
+ *
+ * The index is derived data: the memory writer feeds it on every snapshot
+ * and agents that were archived before it existed are backfilled from
+ * `memory/agents/<id>/history.jsonl` on the first search. Bumping
+ * `SEARCH_SCHEMA_VERSION` drops the tables, which re-runs that backfill.
+ *
+ * Messages are ranked by keywords (bm25). When the host has an embedding
+ * model (`HostModels.getEmbeddingModel`), they are also ranked by meaning:
+ * each message gets a vector in `message_vectors`, and both rankings are
+ * fused by rank. Vectors are embedded on memory writes, and messages
+ * indexed before the model was chosen catch up a batch per search.
+ */
+const SEARCH_SCHEMA_VERSION = 2;
+const DEFAULT_LIMIT = 10;
+/** Hits kept per conversation so one long chat cannot fill the page. */
+const MAX_HITS_PER_AGENT = 3;
+/** Long tool-input strings (file contents, scripts) are cut to this length. */
+const MAX_TOOL_INPUT_STRING_LENGTH = 500;
+const SNIPPET_TOKENS = 24;
+/** bm25 column weights: unindexed columns, then body, tool inputs, paths. */
+const BM25_WEIGHTS = '0, 0, 0, 0, 0, 1.0, 0.5, 0.75';
+/** Message text sent to the embedding model is cut to this length. */
+const MAX_EMBEDDING_TEXT_LENGTH = 2000;
+/** Messages without a vector that one search embeds, newest first. */
+const MAX_EMBEDDINGS_PER_SEARCH = 200;
+/** Length of the snippet of hits found by meaning only. */
+const EXCERPT_LENGTH = 200;
+/** Reciprocal rank fusion constant; damps the lead of the top ranks. */
+const RRF_K = 60;
+
+const SCHEMA_SQL = [
+  'CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)',
+  `CREATE TABLE IF NOT EXISTS agents (
+    agent_instance_id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    deleted_at TEXT
+  )`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS messages USING fts5(
+    agent_instance_id UNINDEXED,
+    message_id UNINDEXED,
+    sequence UNINDEXED,
+    role UNINDEXED,
+    created_at UNINDEXED,
+    body,
+    tool_inputs,
+    file_paths,
+    tokenize = 'porter unicode61'
+  )`,
+  `CREATE TABLE IF NOT EXISTS message_vectors (
+    agent_instance_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    model_id TEXT NOT NULL,
+    text_hash TEXT NOT NULL,
+    role TEXT NOT NULL,
+    created_at TEXT,
+    excerpt TEXT NOT NULL,
+    embedding BLOB NOT NULL,
+    PRIMARY KEY (agent_instance_id, message_id)
+  )`,
+];
+
+const clients = new Map<string, Promise<Client>>();
+const backfills = new Map<string, Promise<void>>();
+
+async function openClient(dbPath: string): Promise<Client> {
+  await mkdir(path.dirname(dbPath), { recursive: true });
+  const client = createClient({ url: `file:${dbPath}` });
+  try {
+    const version = await client
+      .execute("SELECT value FROM meta WHERE key = 'version'")
+      .then((result) => Number(result.rows[0]?.value))
+      .catch(() => Number.NaN);
+    if (version !== SEARCH_SCHEMA_VERSION) {
+      await client.batch(
+        [
+          'DROP TABLE IF EXISTS message_vectors',
+          'DROP TABLE IF EXISTS messages',
+          'DROP TABLE IF EXISTS agents',
+          'DROP TABLE IF EXISTS meta',
+          ...SCHEMA_SQL,
+          {
+            sql: "INSERT INTO meta (key, value) VALUES ('version', ?)",
+            args: [String(SEARCH_SCHEMA_VERSION)],
+          },
+        ],
+        'write',
+      );
+    }
+    return client;
+  } catch (error) {
+    client.close();
+    throw error;
+  }
+}
+
+function getClient(paths: HostPaths): Promise<Client> {
+  const dbPath = paths.historySearchDbPath();
+  let client = clients.get(dbPath);
+  if (!client) {
+    client = openClient(dbPath);
+    clients.set(dbPath, client);
+    // Let the next call retry instead of caching the failure.
+    client.catch(() => clients.delete(dbPath));
+  }
+  return client;
+}
+
+/** Closes all open index connections. Used by tests between temp roots. */
+export async function closeHistorySearchIndexes(): Promise<void> {
+  const open = [...clients.values()];
+  clients.clear();
+  backfills.clear();
+  for (const client of await Promise.allSettled(open)) {
+    if (client.status === 'fulfilled') client.value.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Message text extraction
+// ---------------------------------------------------------------------------
+
+interface IndexedMessageFields {
+  body: string;
+  toolInputs: string;
+  filePaths: string;
+}
+
+function collectInputStrings(
+  value: unknown,
+  key: string,
+  strings: string[],
+  paths: string[],
+): void {
+  if (typeof value === 'string') {
+    strings.push(value.slice(0, MAX_TOOL_INPUT_STRING_LENGTH));
+    if (/path|file/i.test(key)) paths.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectInputStrings(item, key, strings, paths);
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, child] of Object.entries(value)) {
+      collectInputStrings(child, childKey, strings, paths);
+    }
+  }
+}
+
+function extractMessageFields(message: WideAgentMessage): IndexedMessageFields {
+  const body: string[] = [];
+  const toolInputs: string[] = [];
+  const filePaths: string[] = [];
+  const parts = Array.isArray(message.parts) ? message.parts : [];
+  for (const part of parts as Record<string, unknown>[]) {
+    const type = String(part.type ?? '');
+    if (type === 'text' && typeof part.text === 'string') {
+      body.push(part.text);
+    } else if (type.startsWith('tool-') || type === 'dynamic-tool') {
+      const toolName =
+        type === 'dynamic-tool' ? String(part.toolName ?? '') : type.slice(5);
+      const strings: string[] = [];
+      collectInputStrings(part.input, '', strings, filePaths);
+      toolInputs.push([toolName, ...strings].join(' '));
+    }
+  }
+  return {
+    body: body.join('\n\n'),
+    toolInputs: toolInputs.join('\n'),
+    filePaths: filePaths.join('\n'),
+  };
+}
+
+function toEmbeddingText(
+  fields: Pick<IndexedMessageFields, 'body' | 'toolInputs'>,
+): string {
+  return [fields.body, fields.toolInputs]
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+export interface IndexAgentHistoryOptions {
+  agentInstanceId: string;
+  title: string;
+  messages: readonly WideAgentMessage[];
+  /**
+   * History index of `messages[0]`. Indexed messages at or after it are
+   * replaced, so `0` reindexes the whole conversation.
+   */
+  sequenceOffset: number;
+}
+
+function indexStatements(options: IndexAgentHistoryOptions): InStatement[] {
+  const statements: InStatement[] = [
+    {
+      sql: `INSERT INTO agents (agent_instance_id, title, deleted_at)
+        VALUES (?, ?, NULL)
+        ON CONFLICT (agent_instance_id)
+        DO UPDATE SET title = excluded.title, deleted_at = NULL`,
+      args: [options.agentInstanceId, options.title],
+    },
+    {
+      sql: 'DELETE FROM messages WHERE agent_instance_id = ? AND sequence >= ?',
+      args: [options.agentInstanceId, options.sequenceOffset],
+    },
+  ];
+  options.messages.forEach((message, index) => {
+    const fields = extractMessageFields(message);
+    if (!fields.body && !fields.toolInputs && !fields.filePaths) return;
+    const metadata = (message as { metadata?: { createdAt?: unknown } })
+      .metadata;
+    statements.push({
+      sql: `INSERT INTO messages (
+        agent_instance_id, message_id, sequence, role, created_at,
+        body, tool_inputs, file_paths
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        options.agentInstanceId,
+        message.id,
+        options.sequenceOffset + index,
+        message.role,
+        toIsoDate(metadata?.createdAt),
+        fields.body,
+        fields.toolInputs,
+        fields.filePaths,
+      ],
+    });
+    // A message whose text changed is embedded again
+    statements.push({
+      sql: `DELETE FROM message_vectors
+        WHERE agent_instance_id = ? AND message_id = ? AND text_hash != ?`,
+      args: [
+        options.agentInstanceId,
+        message.id,
+        hashText(toEmbeddingText(fields)),
+      ],
+    });
+  });
+  statements.push({
+    sql: `DELETE FROM message_vectors
+      WHERE agent_instance_id = ? AND message_id NOT IN (
+        SELECT message_id FROM messages WHERE agent_instance_id = ?
+      )`,
+    args: [options.agentInstanceId, options.agentInstanceId],
+  });
+  return statements;
+}
+
+/**
+ * Indexes (or reindexes from `sequenceOffset` on) an agent's messages.
+ * With `embeddingModel`, the agent's messages without a vector of that
+ * model are embedded afterwards; a failure there leaves the keyword index
+ * written.
+ */
+export async function indexAgentHistory(
+  paths: HostPaths,
+  options: IndexAgentHistoryOptions,
+  embeddingModel?: HostEmbeddingModel,
+): Promise<void> {
+  const client = await getClient(paths);
+  await client.batch(indexStatements(options), 'write');
+  if (embeddingModel) {
+    await embedMissingMessages(client, embeddingModel, {
+      agentInstanceId: options.agentInstanceId,
+      limit: Math.max(options.messages.length, 1),
+    });
+  }
+}
+
+export async function updateIndexedAgentTitle(
+  paths: HostPaths,
+  agentInstanceId: string,
+  title: string,
+): Promise<void> {
+  const client = await getClient(paths);
+  await client.execute({
+    sql: 'UPDATE agents SET title = ? WHERE agent_instance_id = ?',
+    args: [title, agentInstanceId],
+  });
+}
+
+/**
+ * Drops an agent's messages and remembers the deletion so the backfill
+ * does not pick its memory archive up again.
+ */
+export async function removeAgentFromHistorySearch(
+  paths: HostPaths,
+  agentInstanceId: string,
+): Promise<void> {
+  const client = await getClient(paths);
+  await client.batch(
+    [
+      {
+        sql: 'DELETE FROM messages WHERE agent_instance_id = ?',
+        args: [agentInstanceId],
+      },
+      {
+        sql: 'DELETE FROM message_vectors WHERE agent_instance_id = ?',
+        args: [agentInstanceId],
+      },
+      {
+        sql: `INSERT INTO agents (agent_instance_id, title, deleted_at)
+          VALUES (?, '', ?)
+          ON CONFLICT (agent_instance_id)
+          DO UPDATE SET deleted_at = excluded.deleted_at`,
+        args: [agentInstanceId, new Date().toISOString()],
+      },
+    ],
+    'write',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Backfill
+// ---------------------------------------------------------------------------
+
+async function readArchivedHistory(
+  agentDir: string,
+): Promise<WideAgentMessage[]> {
+  const raw = await readFile(path.join(agentDir, 'history.jsonl'), 'utf-8');
+  const messages: WideAgentMessage[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as { message?: WideAgentMessage };
+      if (entry.message?.id) messages.push(entry.message);
+    } catch {
+      // Skip a torn trailing line from an interrupted append.
+    }
+  }
+  return messages;
+}
+
+async function backfillFromMemory(
+  paths: HostPaths,
+  client: Client,
+): Promise<void> {
+  const agentsDir = path.join(paths.memoryDir(), 'agents');
+  let agentIds: string[];
+  try {
+    agentIds = await readdir(agentsDir);
+  } catch {
+    return;
+  }
+  const known = new Set(
+    (await client.execute('SELECT agent_instance_id FROM agents')).rows.map(
+      (row) => String(row.agent_instance_id),
+    ),
+  );
+  for (const agentInstanceId of agentIds) {
+    if (known.has(agentInstanceId)) continue;
+    const agentDir = path.join(agentsDir, agentInstanceId);
+    try {
+      const messages = await readArchivedHistory(agentDir);
+      const title = await readFile(
+        path.join(agentDir, 'metadata.json'),
+        'utf-8',
+      )
+        .then((raw) => String((JSON.parse(raw) as { title?: unknown }).title))
+        .catch(() => '');
+      await client.batch(
+        indexStatements({
+          agentInstanceId,
+          title,
+          messages,
+          sequenceOffset: 0,
+        }),
+        'write',
+      );
+    } catch {
+      // Missing or unreadable archive; the next memory write indexes it.
+    }
+  }
+}
+
+function ensureBackfilled(paths: HostPaths, client: Client): Promise<void> {
+  const dbPath = paths.historySearchDbPath();
+  let backfill = backfills.get(dbPath);
+  if (!backfill) {
+    backfill = backfillFromMemory(paths, client);
+    backfills.set(dbPath, backfill);
+    backfill.catch(() => backfills.delete(dbPath));
+  }
+  return backfill;
+}
+
+// ---------------------------------------------------------------------------
+// Embeddings
+// ---------------------------------------------------------------------------
+
+function toVectorBlob(embedding: readonly number[]): Uint8Array {
+  return new Uint8Array(Float32Array.from(embedding).buffer);
+}
+
+/**
+ * Embeds messages that have no vector of `model` yet, newest first.
+ * `agentInstanceId` limits this to one conversation.
+ */
+async function embedMissingMessages(
+  client: Client,
+  model: HostEmbeddingModel,
+  options: { agentInstanceId?: string; limit: number },
+): Promise<void> {
+  const result = await client.execute({
+    sql: `SELECT
+        messages.agent_instance_id AS agent_instance_id,
+        messages.message_id AS message_id,
+        messages.role AS role,
+        messages.created_at AS created_at,
+        messages.body AS body,
+        messages.tool_inputs AS tool_inputs
+      FROM messages
+      JOIN agents ON agents.agent_instance_id = messages.agent_instance_id
+      LEFT JOIN message_vectors AS vectors
+        ON vectors.agent_instance_id = messages.agent_instance_id
+        AND vectors.message_id = messages.message_id
+        AND vectors.model_id = ?
+      WHERE vectors.message_id IS NULL AND agents.deleted_at IS NULL
+        ${options.agentInstanceId ? 'AND messages.agent_instance_id = ?' : ''}
+      ORDER BY messages.created_at DESC
+      LIMIT ?`,
+    args: [
+      model.id,
+      ...(options.agentInstanceId ? [options.agentInstanceId] : []),
+      options.limit,
+    ],
+  });
+  const rows = result.rows
+    .map((row) => ({
+      agentInstanceId: String(row.agent_instance_id),
+      messageId: String(row.message_id),
+      role: String(row.role),
+      createdAt: row.created_at ? String(row.created_at) : null,
+      text: toEmbeddingText({
+        body: String(row.body ?? ''),
+        toolInputs: String(row.tool_inputs ?? ''),
+      }),
+    }))
+    .filter((row) => row.text);
+  if (rows.length === 0) return;
+
+  const { embeddings } = await embedMany({
+    model: model.model,
+    values: rows.map((row) => row.text),
+  });
+  await client.batch(
+    rows.map((row, index) => ({
+      sql: `INSERT OR REPLACE INTO message_vectors (
+        agent_instance_id, message_id, model_id, text_hash, role,
+        created_at, excerpt, embedding
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        row.agentInstanceId,
+        row.messageId,
+        model.id,
+        hashText(row.text),
+        row.role,
+        row.createdAt,
+        row.text.length > EXCERPT_LENGTH
+          ? `${row.text.slice(0, EXCERPT_LENGTH)}…`
+          : row.text,
+        toVectorBlob(embeddings[index]!),
+      ],
+    })),
+    'write',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/** Splits free text into quoted FTS5 terms so user input is never syntax. */
+function toMatchTerms(query: string): string[] {
+  return [...query.matchAll(/[\p{L}\p{N}_]+/gu)].map(([term]) => `"${term}"`);
+}
+
+function excludedAgentsSql(column: string, excludeAgentIds: readonly string[]) {
+  return excludeAgentIds.length > 0
+    ? `AND ${column} NOT IN (${excludeAgentIds.map(() => '?').join(', ')})`
+    : '';
+}
+
+/** Keyword matches, best first, without the per-chat cap. */
+async function runKeywordSearch(
+  client: Client,
+  match: string,
+  limit: number,
+  excludeAgentIds: readonly string[],
+): Promise<AgentHistorySearchHit[]> {
+  // FTS5 auxiliary functions cannot run under a window function, so the
+  // per-chat cap is applied to an over-fetched, rank-ordered page instead.
+  const result = await client.execute({
+    sql: `SELECT
+        messages.agent_instance_id AS agent_instance_id,
+        messages.message_id AS message_id,
+        messages.role AS role,
+        messages.created_at AS created_at,
+        agents.title AS title,
+        snippet(messages, -1, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet,
+        bm25(messages, ${BM25_WEIGHTS}) AS score
+      FROM messages
+      JOIN agents ON agents.agent_instance_id = messages.agent_instance_id
+      WHERE messages MATCH ? AND agents.deleted_at IS NULL
+        ${excludedAgentsSql('messages.agent_instance_id', excludeAgentIds)}
+      ORDER BY score
+      LIMIT ?`,
+    args: [match, ...excludeAgentIds, limit],
+  });
+  return result.rows.map(toHit);
+}
+
+/** Messages closest in meaning to `query`, best first. */
+async function runSemanticSearch(
+  client: Client,
+  model: HostEmbeddingModel,
+  query: string,
+  limit: number,
+  excludeAgentIds: readonly string[],
+): Promise<AgentHistorySearchHit[]> {
+  const { embedding } = await embed({ model: model.model, value: query });
+  const result = await client.execute({
+    sql: `SELECT
+        vectors.agent_instance_id AS agent_instance_id,
+        vectors.message_id AS message_id,
+        vectors.role AS role,
+        vectors.created_at AS created_at,
+        agents.title AS title,
+        vectors.excerpt AS snippet,
+        vector_distance_cos(vectors.embedding, ?) AS score
+      FROM message_vectors AS vectors
+      JOIN agents ON agents.agent_instance_id = vectors.agent_instance_id
+      WHERE vectors.model_id = ? AND agents.deleted_at IS NULL
+        ${excludedAgentsSql('vectors.agent_instance_id', excludeAgentIds)}
+      ORDER BY score
+      LIMIT ?`,
+    args: [toVectorBlob(embedding), model.id, ...excludeAgentIds, limit],
+  });
+  return result.rows.map(toHit);
+}
+
+function toHit(row: Record<string, unknown>): AgentHistorySearchHit {
+  return {
+    agentInstanceId: String(row.agent_instance_id),
+    title: String(row.title ?? ''),
+    messageId: String(row.message_id),
+    role: String(row.role),
+    createdAt: row.created_at ? new Date(String(row.created_at)) : null,
+    snippet: String(row.snippet ?? ''),
+    score: Number(row.score),
+  };
+}
+
+/**
+ * Reciprocal rank fusion: a message scores `1 / (RRF_K + rank)` in every
+ * ranking it appears in, negated so lower stays better. The first ranking
+ * that has a message provides its snippet.
+ */
+function fuseRankings(
+  rankings: AgentHistorySearchHit[][],
+): AgentHistorySearchHit[] {
+  const fused = new Map<string, AgentHistorySearchHit>();
+  for (const ranking of rankings) {
+    ranking.forEach((hit, index) => {
+      const key = `${hit.agentInstanceId}\0${hit.messageId}`;
+      const entry = fused.get(key) ?? { ...hit, score: 0 };
+      entry.score -= 1 / (RRF_K + index + 1);
+      fused.set(key, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => a.score - b.score);
+}
+
+/** Keeps the best `limit` hits, at most `MAX_HITS_PER_AGENT` per chat. */
+function capHits(
+  hits: AgentHistorySearchHit[],
+  limit: number,
+): AgentHistorySearchHit[] {
+  const hitsPerAgent = new Map<string, number>();
+  const capped: AgentHistorySearchHit[] = [];
+  for (const hit of hits) {
+    const count = hitsPerAgent.get(hit.agentInstanceId) ?? 0;
+    if (count >= MAX_HITS_PER_AGENT) continue;
+    hitsPerAgent.set(hit.agentInstanceId, count + 1);
+    capped.push(hit);
+    if (capped.length >= limit) break;
+  }
+  return capped;
+}
+
+/** Embedding model for `searchAgentHistory` to also rank by meaning. */
+export interface HistorySearchEmbeddings {
+  model: HostEmbeddingModel;
+  /** Called when embedding fails; the search then ranks by keywords only. */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Searches message text, tool inputs and touched file paths of past
+ * conversations. All terms must match; when nothing does, messages
+ * matching any term are returned instead so loosely related chats still
+ * surface. With `embeddings`, messages close in meaning are fused into the
+ * ranking, so chats that describe the problem in other words are found.
+ */
+export async function searchAgentHistory(
+  paths: HostPaths,
+  query: string,
+  options: AgentHistorySearchOptions = {},
+  embeddings?: HistorySearchEmbeddings,
+): Promise<AgentHistorySearchHit[]> {
+  const terms = toMatchTerms(query);
+  if (terms.length === 0) return [];
+  const client = await getClient(paths);
+  await ensureBackfilled(paths, client);
+
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const excluded = options.excludeAgentIds ?? [];
+  const fetchLimit = limit * MAX_HITS_PER_AGENT * 2;
+  let keywordHits = await runKeywordSearch(
+    client,
+    terms.join(' AND '),
+    fetchLimit,
+    excluded,
+  );
+  if (keywordHits.length === 0 && terms.length > 1) {
+    keywordHits = await runKeywordSearch(
+      client,
+      terms.join(' OR '),
+      fetchLimit,
+      excluded,
+    );
+  }
+  if (!embeddings) return capHits(keywordHits, limit);
+
+  let semanticHits: AgentHistorySearchHit[] = [];
+  try {
+    await embedMissingMessages(client, embeddings.model, {
+      limit: MAX_EMBEDDINGS_PER_SEARCH,
+    });
+    semanticHits = await runSemanticSearch(
+      client,
+      embeddings.model,
+      query,
+      fetchLimit,
+      excluded,
+    );
+  } catch (error) {
+    embeddings.onError(error);
+  }
+  return capHits(fuseRankings([keywordHits, semanticHits]), limit);
+}
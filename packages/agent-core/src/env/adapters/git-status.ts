@@ -0,0 +1,273 @@
+/**
+ * Git status reading shared by the `git` {@link DomainAdapter} sources.
+ *
+ * Both hosts read `git status --porcelain=v2 --branch -z` and the
+ * per-worktree git dir; only the process runner differs (the browser's
+ * `GitService` resolves the login-shell env, the CLI spawns `git`
+ * directly via {@link createCliGitStatusSource}).
+ */
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { access } from '../../fs';
+import type {
+  GitFileChange,
+  GitFileChangeKind,
+  GitOperation,
+  GitRepositoryStatus,
+} from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/** Per-list cap on the file entries kept in a {@link GitRepositoryStatus}. */
+export const MAX_GIT_STATUS_FILES = 50;
+
+/** Arguments for the status read. Optional locks would race the user's git. */
+export const GIT_STATUS_ARGS = [
+  '--no-optional-locks',
+  'status',
+  '--porcelain=v2',
+  '--branch',
+  '-z',
+];
+
+/**
+ * Runs `git <args>` in `cwd` and resolves stdout, or `null` when git
+ * failed (not a repository, git missing, timeout).
+ */
+export type GitOutputReader = (
+  cwd: string,
+  args: string[],
+) => Promise<string | null>;
+
+/** Host-provided git status for one mounted workspace path. */
+export interface GitStatusSource {
+  /** Resolves `null` when `workspacePath` is not inside a git work tree. */
+  getStatus(workspacePath: string): Promise<GitRepositoryStatus | null>;
+}
+
+export interface ParsedGitStatus {
+  branch: string | null;
+  headSha: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+const CHANGE_KINDS: Record<string, GitFileChangeKind> = {
+  M: 'modified',
+  T: 'type-changed',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+};
+
+function toChange(
+  code: string | undefined,
+  filePath: string,
+  oldPath?: string,
+): GitFileChange | null {
+  const kind = code ? CHANGE_KINDS[code] : undefined;
+  if (!kind) return null;
+  return oldPath ? { path: filePath, kind, oldPath } : { path: filePath, kind };
+}
+
+/** Field after the first `count` space-separated fields of `record`. */
+function fieldsAfter(record: string, count: number): string {
+  let index = 0;
+  for (let i = 0; i < count; i++) {
+    index = record.indexOf(' ', index) + 1;
+    if (index === 0) return '';
+  }
+  return record.slice(index);
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output. Paths are
+ * relative to the repository root.
+ */
+export function parseGitStatusPorcelainV2(output: string): ParsedGitStatus {
+  const result: ParsedGitStatus = {
+    branch: null,
+    headSha: null,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+  };
+
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    if (record.startsWith('# ')) {
+      const [key, ...rest] = record.slice(2).split(' ');
+      const value = rest.join(' ');
+      if (key === 'branch.oid') {
+        result.headSha = value === '(initial)' ? null : value;
+      } else if (key === 'branch.head') {
+        result.branch = value === '(detached)' ? null : value;
+      } else if (key === 'branch.upstream') {
+        result.upstream = value || null;
+      } else if (key === 'branch.ab') {
+        const match = /^\+(\d+) -(\d+)$/.exec(value);
+        if (match) {
+          result.ahead = Number(match[1]);
+          result.behind = Number(match[2]);
+        }
+      }
+      continue;
+    }
+
+    const type = record[0];
+    if (type === '?') {
+      result.untracked.push(record.slice(2));
+    } else if (type === 'u') {
+      result.conflicted.push(fieldsAfter(record, 10));
+    } else if (type === '1' || type === '2') {
+      const [x, y] = [record[2], record[3]];
+      let filePath: string;
+      let oldPath: string | undefined;
+      if (type === '2') {
+        // Renames carry a score field and the original path as the
+        // next NUL-separated record.
+        filePath = fieldsAfter(record, 9);
+        oldPath = records[++i];
+      } else {
+        filePath = fieldsAfter(record, 8);
+      }
+      const staged = toChange(
+        x,
+        filePath,
+        x === 'R' || x === 'C' ? oldPath : undefined,
+      );
+      const unstaged = toChange(y, filePath);
+      if (staged) result.staged.push(staged);
+      if (unstaged) result.unstaged.push(unstaged);
+    }
+  }
+
+  return result;
+}
+
+const OPERATION_MARKERS: [string, GitOperation][] = [
+  ['rebase-merge', 'rebase'],
+  ['rebase-apply', 'rebase'],
+  ['MERGE_HEAD', 'merge'],
+  ['CHERRY_PICK_HEAD', 'cherry-pick'],
+  ['REVERT_HEAD', 'revert'],
+  ['BISECT_LOG', 'bisect'],
+];
+
+/**
+ * Detect an in-progress merge, rebase, cherry-pick, revert or bisect from
+ * the marker files git leaves in the per-worktree `gitDir`.
+ */
+export async function detectGitOperation(
+  gitDir: string,
+): Promise<GitOperation | null> {
+  for (const [marker, operation] of OPERATION_MARKERS) {
+    try {
+      await access(path.join(gitDir, marker));
+      return operation;
+    } catch {
+      // Marker absent — keep looking.
+    }
+  }
+  return null;
+}
+
+/** Combine parsed porcelain output with the repo root and operation. */
+export function buildGitRepositoryStatus(
+  repoRoot: string,
+  parsed: ParsedGitStatus,
+  operation: GitOperation | null,
+): GitRepositoryStatus {
+  return {
+    repoRoot,
+    branch: parsed.branch,
+    headSha: parsed.headSha,
+    upstream: parsed.upstream,
+    ahead: parsed.ahead,
+    behind: parsed.behind,
+    operation,
+    staged: parsed.staged.slice(0, MAX_GIT_STATUS_FILES),
+    unstaged: parsed.unstaged.slice(0, MAX_GIT_STATUS_FILES),
+    untracked: parsed.untracked.slice(0, MAX_GIT_STATUS_FILES),
+    conflicted: parsed.conflicted.slice(0, MAX_GIT_STATUS_FILES),
+    counts: {
+      staged: parsed.staged.length,
+      unstaged: parsed.unstaged.length,
+      untracked: parsed.untracked.length,
+      conflicted: parsed.conflicted.length,
+    },
+  };
+}
+
+/**
+ * Read the full status of the repository containing `workspacePath`
+ * through `readGit`. Resolves `null` outside a git work tree.
+ */
+export async function readGitRepositoryStatus(
+  workspacePath: string,
+  readGit: GitOutputReader,
+): Promise<GitRepositoryStatus | null> {
+  const dirs = await readGit(workspacePath, [
+    'rev-parse',
+    '--show-toplevel',
+    '--absolute-git-dir',
+  ]);
+  const [repoRoot, gitDir] = (dirs ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (!repoRoot || !gitDir) return null;
+
+  const [porcelain, operation] = await Promise.all([
+    readGit(workspacePath, GIT_STATUS_ARGS),
+    detectGitOperation(gitDir),
+  ]);
+  if (porcelain === null) return null;
+
+  return buildGitRepositoryStatus(
+    path.resolve(repoRoot),
+    parseGitStatusPorcelainV2(porcelain),
+    operation,
+  );
+}
+
+/**
+ * Plain-`git` {@link GitStatusSource} for hosts without a git service
+ * (the CLI). Every failure resolves `null`.
+ */
+export function createCliGitStatusSource(
+  options: { timeoutMs?: number } = {},
+): GitStatusSource {
+  const readGit: GitOutputReader = async (cwd, args) => {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        encoding: 'utf8',
+        timeout: options.timeoutMs ?? 2_000,
+        maxBuffer: 16 * 1024 * 1024,
+        windowsHide: true,
+      });
+      return stdout;
+    } catch {
+      return null;
+    }
+  };
+  return {
+    getStatus: (workspacePath) =>
+      readGitRepositoryStatus(workspacePath, readGit),
+  };
+}
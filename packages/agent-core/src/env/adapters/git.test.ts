@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the `git` core {@link DomainAdapter} and the porcelain
+ * reader behind its CLI source. The reader test runs against a real
+ * temporary repository.
+ */
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MountManager } from '../../services/mount-manager/mount-registry';
+import type { GitRepositoryStatus } from '../types';
+import { createGitDomainAdapter } from './git';
+import {
+  createCliGitStatusSource,
+  parseGitStatusPorcelainV2,
+} from './git-status';
+
+function makeMountManager(mounts: { prefix: string; path: string }[]) {
+  return {
+    getWorkspaceSnapshot: () => ({ mounts }),
+  } as unknown as MountManager;
+}
+
+function makeStatus(
+  overrides: Partial<GitRepositoryStatus> = {},
+): GitRepositoryStatus {
+  return {
+    repoRoot: '/repo',
+    branch: 'main',
+    headSha: 'abcdef1234567890',
+    upstream: 'origin/main',
+    ahead: 0,
+    behind: 0,
+    operation: null,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+    counts: { staged: 0, unstaged: 0, untracked: 0, conflicted: 0 },
+    ...overrides,
+  };
+}
+
+describe('parseGitStatusPorcelainV2', () => {
+  it('parses branch headers and every entry type', () => {
+    const output = [
+      '# branch.oid 1234567890abcdef',
+      '# branch.head feature/x',
+      '# branch.upstream origin/feature/x',
+      '# branch.ab +2 -1',
+      '1 M. N... 100644 100644 100644 aaa bbb src/staged.ts',
+      '1 .M N... 100644 100644 100644 aaa aaa src/with space.ts',
+      '2 R. N... 100644 100644 100644 aaa aaa R100 src/new.ts',
+      'src/old.ts',
+      'u UU N... 100644 100644 100644 100644 aaa bbb ccc src/conflict.ts',
+      '? notes.txt',
+      '',
+    ].join('\0');
+
+    expect(parseGitStatusPorcelainV2(output)).toEqual({
+      branch: 'feature/x',
+      headSha: '1234567890abcdef',
+      upstream: 'origin/feature/x',
+      ahead: 2,
+      behind: 1,
+      staged: [
+        { path: 'src/staged.ts', kind: 'modified' },
+        { path: 'src/new.ts', kind: 'renamed', oldPath: 'src/old.ts' },
+      ],
+      unstaged: [{ path: 'src/with space.ts', kind: 'modified' }],
+      untracked: ['notes.txt'],
+      conflicted: ['src/conflict.ts'],
+    });
+  });
+
+  it('treats detached and unborn heads as null', () => {
+    const parsed = parseGitStatusPorcelainV2(
+      '# branch.oid (initial)\0# branch.head (detached)\0',
+    );
+    expect(parsed.branch).toBeNull();
+    expect(parsed.headSha).toBeNull();
+    expect(parsed.upstream).toBeNull();
+  });
+});
+
+describe('createGitDomainAdapter', () => {
+  it('renders one block per repository mount and skips non-repos', async () => {
+    const adapter = createGitDomainAdapter({
+      mountManager: makeMountManager([
+        { prefix: 'w1', path: '/repo' },
+        { prefix: 'w2', path: '/plain' },
+      ]),
+      source: {
+        getStatus: async (p) =>
+          p === '/repo'
+            ? makeStatus({
+                ahead: 1,
+                staged: [{ path: 'a.ts', kind: 'added' }],
+                untracked: ['b.ts'],
+                counts: { staged: 1, unstaged: 0, untracked: 3, conflicted: 0 },
+              })
+            : null,
+      },
+    });
+
+    const state = await adapter.getState('agent-1');
+    expect(state.repositories.map((r) => r.prefix)).toEqual(['w1']);
+    expect(adapter.renderState(null, state)).toBe(
+      [
+        '<git-repo mount="w1" branch="main" head="abcdef1" upstream="origin/main" ahead="1" behind="0">',
+        'Staged (1):',
+        '  A a.ts',
+        'Untracked (3):',
+        '  b.ts',
+        '  ... 2 more',
+        '</git-repo>',
+      ].join('\n'),
+    );
+  });
+
+  it('renders branch, operation and file changes between turns', () => {
+    const adapter = createGitDomainAdapter({
+      mountManager: makeMountManager([]),
+      source: { getStatus: async () => null },
+    });
+    const prev = {
+      repositories: [
+        {
+          prefix: 'w1',
+          ...makeStatus({
+            unstaged: [{ path: 'a.ts', kind: 'modified' }],
+            counts: { staged: 0, unstaged: 1, untracked: 0, conflicted: 0 },
+          }),
+        },
+      ],
+    };
+    const curr = {
+      repositories: [
+        {
+          prefix: 'w1',
+          ...makeStatus({
+            branch: 'topic',
+            operation: 'rebase',
+            staged: [{ path: 'a.ts', kind: 'modified' }],
+            counts: { staged: 1, unstaged: 0, untracked: 0, conflicted: 0 },
+          }),
+        },
+      ],
+    };
+
+    const rendered = adapter.renderState(prev, curr);
+    expect(rendered).toContain(
+      '<git-branch-changed mount="w1" from="main" to="topic">Switched from main to topic</git-branch-changed>',
+    );
+    expect(rendered).toContain(
+      '<git-operation-started mount="w1" operation="rebase">Rebase in progress</git-operation-started>',
+    );
+    expect(rendered).toContain(
+      '<git-status-changed mount="w1">1 staged, 0 unstaged, 0 untracked\n+ staged: M a.ts\n- unstaged: M a.ts</git-status-changed>',
+    );
+    expect(adapter.renderState(curr, { repositories: [] })).toContain(
+      '<git-repo-removed mount="w1">',
+    );
+  });
+});
+
+describe('createCliGitStatusSource', () => {
+  let root: string | undefined;
+
+  afterEach(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+    root = undefined;
+  });
+
+  it('reads the status of a real repository', async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'git-env-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: root, stdio: 'pipe' });
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(path.join(root, 'tracked.txt'), 'one\n');
+    git('add', 'tracked.txt');
+    git('commit', '-q', '-m', 'init');
+    await writeFile(path.join(root, 'tracked.txt'), 'two\n');
+    await writeFile(path.join(root, 'staged.txt'), 'new\n');
+    git('add', 'staged.txt');
+    await writeFile(path.join(root, 'untracked.txt'), 'x\n');
+
+    const source = createCliGitStatusSource({ timeoutMs: 10_000 });
+    const status = await source.getStatus(root);
+
+    expect(status).toMatchObject({
+      branch: 'main',
+      upstream: null,
+      operation: null,
+      staged: [{ path: 'staged.txt', kind: 'added' }],
+      unstaged: [{ path: 'tracked.txt', kind: 'modified' }],
+      untracked: ['untracked.txt'],
+      counts: { staged: 1, unstaged: 1, untracked: 1, conflicted: 0 },
+    });
+    expect(status?.headSha).toMatch(/^[0-9a-f]{40}$/);
+    expect(await source.getStatus(os.tmpdir())).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * `git` core {@link DomainAdapter}.
+ *
+ * Reports the git state of every workspace mount that sits inside a
+ * repository: branch, upstream with ahead/behind counts, in-progress
+ * merge/rebase/cherry-pick/revert/bisect, and the staged, unstaged,
+ * untracked and conflicted files. The status itself comes from a
+ * host-provided {@link GitStatusSource} (the browser's `GitService`, or
+ * {@link createCliGitStatusSource} for the CLI). The full-state render
+ * is one `<git-repo>` block per mount; the diff render reports branch
+ * switches, new commits, upstream drift, operation start/end and
+ * working-tree changes.
+ */
+import type { MountManager } from '../../services/mount-manager/mount-registry';
+import type { DomainAdapter } from '../contract';
+import type { GitFileChange, GitSnapshot } from '../types';
+import type { GitStatusSource } from './git-status';
+import {
+  CORE_ENV_SCHEMA_VERSION,
+  type EnvironmentChangeEntry,
+  escAttr,
+  escXml,
+  renderChangesXml,
+} from './shared';
+import GitPromptSection from './git.prompt.md?raw';
+
+export interface GitDomainAdapterDeps {
+  mountManager: MountManager;
+  source: GitStatusSource;
+  renderOrder?: number;
+}
+
+type GitRepository = GitSnapshot['repositories'][number];
+
+const CHANGE_CODES: Record<GitFileChange['kind'], string> = {
+  modified: 'M',
+  'type-changed': 'T',
+  added: 'A',
+  deleted: 'D',
+  renamed: 'R',
+  copied: 'C',
+};
+
+const OPERATION_LABELS: Record<
+  NonNullable<GitRepository['operation']>,
+  string
+> = {
+  merge: 'Merge',
+  rebase: 'Rebase',
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert',
+  bisect: 'Bisect',
+};
+
+async function buildGitState(
+  agentInstanceId: string,
+  deps: GitDomainAdapterDeps,
+): Promise<GitSnapshot> {
+  const { mounts } = deps.mountManager.getWorkspaceSnapshot(agentInstanceId);
+  const statuses = await Promise.all(
+    mounts.map(async (mount) => {
+      const status = await deps.source.getStatus(mount.path);
+      return status ? { prefix: mount.prefix, ...status } : null;
+    }),
+  );
+  return {
+    repositories: statuses.filter((s): s is GitRepository => s !== null),
+  };
+}
+
+function formatChange(change: GitFileChange): string {
+  const code = CHANGE_CODES[change.kind];
+  return change.oldPath
+    ? `${code} ${change.oldPath} -> ${change.path}`
+    : `${code} ${change.path}`;
+}
+
+function renderFileGroup(
+  label: string,
+  lines: string[],
+  total: number,
+): string[] {
+  if (total === 0) return [];
+  const rendered = [`${label} (${total}):`, ...lines.map((l) => `  ${l}`)];
+  if (total > lines.length) {
+    rendered.push(`  ... ${total - lines.length} more`);
+  }
+  return rendered;
+}
+
+function shortSha(sha: string | null): string | null {
+  return sha ? sha.slice(0, 7) : null;
+}
+
+function repoAttributes(repo: GitRepository): Record<string, string> {
+  const attrs: Record<string, string> = { mount: repo.prefix };
+  attrs.branch = repo.branch ?? '(detached)';
+  const head = shortSha(repo.headSha);
+  if (head) attrs.head = head;
+  if (repo.upstream) {
+    attrs.upstream = repo.upstream;
+    attrs.ahead = String(repo.ahead);
+    attrs.behind = String(repo.behind);
+  }
+  if (repo.operation) attrs.operation = repo.operation;
+  return attrs;
+}
+
+function renderRepository(repo: GitRepository): string {
+  const attrs = Object.entries(repoAttributes(repo))
+    .map(([k, v]) => ` ${k}="${escAttr(v)}"`)
+    .join('');
+  const body = [
+    ...renderFileGroup('Conflicted', repo.conflicted, repo.counts.conflicted),
+    ...renderFileGroup(
+      'Staged',
+      repo.staged.map(formatChange),
+      repo.counts.staged,
+    ),
+    ...renderFileGroup(
+      'Unstaged',
+      repo.unstaged.map(formatChange),
+      repo.counts.unstaged,
+    ),
+    ...renderFileGroup('Untracked', repo.untracked, repo.counts.untracked),
+  ];
+  const content = body.length > 0 ? body.join('\n') : 'Working tree clean.';
+  return `<git-repo${attrs}>\n${escXml(content)}\n</git-repo>`;
+}
+
+function renderFullGit(state: GitSnapshot): string {
+  if (state.repositories.length === 0) return '';
+  return state.repositories.map(renderRepository).join('\n');
+}
+
+function formatCounts(repo: GitRepository): string {
+  const { staged, unstaged, untracked, conflicted } = repo.counts;
+  const parts = [
+    `${staged} staged`,
+    `${unstaged} unstaged`,
+    `${untracked} untracked`,
+  ];
+  if (conflicted > 0) parts.push(`${conflicted} conflicted`);
+  return parts.join(', ');
+}
+
+/** `+`/`-` lines for files that entered or left one status group. */
+function diffFileGroup(
+  label: string,
+  previous: string[],
+  current: string[],
+): string[] {
+  const prev = new Set(previous);
+  const curr = new Set(current);
+  return [
+    ...current.filter((f) => !prev.has(f)).map((f) => `+ ${label}: ${f}`),
+    ...previous.filter((f) => !curr.has(f)).map((f) => `- ${label}: ${f}`),
+  ];
+}
+
+function computeRepositoryChanges(
+  prev: GitRepository,
+  curr: GitRepository,
+): EnvironmentChangeEntry[] {
+  const changes: EnvironmentChangeEntry[] = [];
+  const mount = curr.prefix;
+
+  if (prev.branch !== curr.branch) {
+    const from = prev.branch ?? '(detached)';
+    const to = curr.branch ?? '(detached)';
+    changes.push({
+      type: 'git-branch-changed',
+      summary: `Switched from ${from} to ${to}`,
+      attributes: { mount, from, to },
+    });
+  } else if (prev.headSha !== curr.headSha) {
+    changes.push({
+      type: 'git-head-moved',
+      summary: `HEAD moved from ${shortSha(prev.headSha) ?? '(none)'} to ${shortSha(curr.headSha) ?? '(none)'}`,
+      attributes: { mount },
+    });
+  }
+
+  if (
+    prev.upstream !== curr.upstream ||
+    prev.ahead !== curr.ahead ||
+    prev.behind !== curr.behind
+  ) {
+    changes.push({
+      type: 'git-upstream-changed',
+      summary: curr.upstream
+        ? `${curr.ahead} ahead, ${curr.behind} behind ${curr.upstream}`
+        : 'No upstream branch',
+      attributes: { mount },
+    });
+  }
+
+  if (prev.operation !== curr.operation) {
+    if (prev.operation) {
+      changes.push({
+        type: 'git-operation-ended',
+        summary: `${OPERATION_LABELS[prev.operation]} no longer in progress`,
+        attributes: { mount, operation: prev.operation },
+      });
+    }
+    if (curr.operation) {
+      changes.push({
+        type: 'git-operation-started',
+        summary: `${OPERATION_LABELS[curr.operation]} in progress`,
+        attributes: { mount, operation: curr.operation },
+      });
+    }
+  }
+
+  const fileLines = [
+    ...diffFileGroup('conflicted', prev.conflicted, curr.conflicted),
+    ...diffFileGroup(
+      'staged',
+      prev.staged.map(formatChange),
+      curr.staged.map(formatChange),
+    ),
+    ...diffFileGroup(
+      'unstaged',
+      prev.unstaged.map(formatChange),
+      curr.unstaged.map(formatChange),
+    ),
+    ...diffFileGroup('untracked', prev.untracked, curr.untracked),
+  ];
+  const countsChanged = formatCounts(prev) !== formatCounts(curr);
+  if (fileLines.length > 0 || countsChanged) {
+    changes.push({
+      type: 'git-status-changed',
+      summary: formatCounts(curr),
+      detail: fileLines.length > 0 ? fileLines.join('\n') : undefined,
+      attributes: { mount },
+    });
+  }
+
+  return changes;
+}
+
+function computeGitChanges(
+  previous: GitSnapshot,
+  current: GitSnapshot,
+): EnvironmentChangeEntry[] {
+  const changes: EnvironmentChangeEntry[] = [];
+  const prevByPrefix = new Map(previous.repositories.map((r) => [r.prefix, r]));
+  const currByPrefix = new Map(current.repositories.map((r) => [r.prefix, r]));
+
+  for (const [prefix, curr] of currByPrefix) {
+    const prev = prevByPrefix.get(prefix);
+    if (!prev) {
+      changes.push({
+        type: 'git-repo-added',
+        detail: renderRepository(curr),
+        attributes: { mount: prefix },
+      });
+    } else {
+      changes.push(...computeRepositoryChanges(prev, curr));
+    }
+  }
+
+  for (const prefix of prevByPrefix.keys()) {
+    if (!currByPrefix.has(prefix)) {
+      changes.push({
+        type: 'git-repo-removed',
+        summary: `Mount "${prefix}" is no longer a git repository or was unmounted`,
+        attributes: { mount: prefix },
+      });
+    }
+  }
+
+  return changes;
+}
+
+/** Stable env-domain id for the git adapter. */
+export const GIT_DOMAIN_ID = 'git';
+
+export function createGitDomainAdapter(
+  deps: GitDomainAdapterDeps,
+): DomainAdapter<GitSnapshot> {
+  return {
+    domainId: GIT_DOMAIN_ID,
+    renderOrder: deps.renderOrder ?? 11,
+    schemaVersion: CORE_ENV_SCHEMA_VERSION,
+    promptSection: GitPromptSection,
+    getState(agentInstanceId) {
+      return buildGitState(agentInstanceId, deps);
+    },
+    renderState(prev, curr) {
+      if (prev === null) return renderFullGit(curr);
+      return renderChangesXml(computeGitChanges(prev, curr));
+    },
+  };
+}
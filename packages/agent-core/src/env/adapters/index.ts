@@ -1,7 +1,7 @@
 /**
  * Core-owned {@link DomainAdapter} factories. Each builds an adapter
  * for one package-owned environment domain (`workspace`, `fileDiffs`,
- * `agentsMd`, `enabledSkills`, `memory`, `plans`, `logs`). Hosts
+ * `agentsMd`, `enabledSkills`, `memory`, `plans`, `logs`, `git`). Hosts
  * register their own adapters (e.g. `browser`, `shells`, `sandbox`)
  * directly on the {@link DomainAdapterRegistry}.
  *
@@ -31,6 +31,23 @@ export {
   createFileDiffsDomainAdapter,
   type FileDiffsDomainAdapterDeps,
 } from './file-diffs';
+export {
+  GIT_DOMAIN_ID,
+  createGitDomainAdapter,
+  type GitDomainAdapterDeps,
+} from './git';
+export {
+  GIT_STATUS_ARGS,
+  MAX_GIT_STATUS_FILES,
+  buildGitRepositoryStatus,
+  createCliGitStatusSource,
+  detectGitOperation,
+  parseGitStatusPorcelainV2,
+  readGitRepositoryStatus,
+  type GitOutputReader,
+  type GitStatusSource,
+  type ParsedGitStatus,
+} from './git-status';
 export {
   LOGS_DOMAIN_ID,
   createLogsDomainAdapter,
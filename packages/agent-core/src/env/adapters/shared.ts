@@ -1,5 +1,5 @@
 /**
- * Helpers shared across the seven core-owned {@link DomainAdapter}
+ * Helpers shared across the eight core-owned {@link DomainAdapter}
  * implementations.
  *
  * Each adapter owns its `state` shape (a Zod schema in `../types.ts`), its
@@ -33,6 +33,7 @@ function makeHost(): AgentHost {
     agentDbPath: () => '/host/agent.db',
     fileReadCacheDbPath: () => '/host/frc.db',
     processedImageCacheDbPath: () => '/host/pic.db',
+    historySearchDbPath: () => '/host/hs.db',
     userDataDir: p('udata'),
     builtinSkillsDir: p('builtin'),
     ripgrepBaseDir: p('rg'),
@@ -96,6 +97,20 @@ describe('createWorkspaceDomainAdapter', () => {
     expect(full.indexOf('| wA |')).toBeLessThan(full.indexOf('| memory |'));
   });
 
+  it('applies host-tracked mount permissions', () => {
+    const adapter = createWorkspaceDomainAdapter({
+      host: makeHost(),
+      mountManager: makeMountManager([{ prefix: 'wA', path: '/abs/A' }]),
+      getMountPermissions: (_id, prefix) =>
+        prefix === 'wA' ? ['read', 'list'] : undefined,
+    });
+    const curr = adapter.getState('a1') as never;
+    const full = adapter.renderState(null, curr);
+    expect(full).toContain(
+      "| wA | /abs/A | use 'wA/...' to address files | read, list |",
+    );
+  });
+
   it('emits workspace-mounted on the diff render', () => {
     const adapter = createWorkspaceDomainAdapter({
       host: makeHost(),
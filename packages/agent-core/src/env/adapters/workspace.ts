@@ -24,6 +24,15 @@ export interface WorkspaceDomainAdapterDeps {
   host: AgentHost;
   mountManager: MountManager;
   renderOrder?: number;
+  /**
+   * Host-tracked permissions of a workspace mount. The core registry does
+   * not record permissions; hosts that restrict mounts (e.g. read-only)
+   * supply them here so the model sees them in the `<symlinks>` table.
+   */
+  getMountPermissions?: (
+    agentInstanceId: string,
+    prefix: string,
+  ) => MountPermission[] | undefined;
 }
 
 const SYSTEM_PREFIXES = new Set(['att', 'plugins', 'apps', 'shells', 'memory']);
@@ -34,11 +43,15 @@ function isSystemMount(prefix: string): boolean {
 
 function buildWorkspaceState(
   agentInstanceId: string,
-  host: AgentHost,
-  mountManager: MountManager,
+  deps: WorkspaceDomainAdapterDeps,
 ): WorkspaceSnapshot {
-  const workspaceMounts =
-    mountManager.getWorkspaceSnapshot(agentInstanceId).mounts;
+  const { host, mountManager, getMountPermissions } = deps;
+  const workspaceMounts = mountManager
+    .getWorkspaceSnapshot(agentInstanceId)
+    .mounts.map((m): Mount => {
+      const permissions = getMountPermissions?.(agentInstanceId, m.prefix);
+      return permissions ? { ...m, permissions } : m;
+    });
 
   const ro = [...READ_ONLY_PERMISSIONS] as MountPermission[];
   const full = [...FULL_PERMISSIONS] as MountPermission[];
@@ -156,7 +169,7 @@ export function createWorkspaceDomainAdapter(
     schemaVersion: CORE_ENV_SCHEMA_VERSION,
     promptSection: WorkspacePromptSection,
     getState(agentInstanceId) {
-      return buildWorkspaceState(agentInstanceId, deps.host, deps.mountManager);
+      return buildWorkspaceState(agentInstanceId, deps);
     },
     renderState(prev, curr) {
       if (prev === null) return renderFullSymlinks(curr);
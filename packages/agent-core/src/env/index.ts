@@ -4,7 +4,7 @@
  * Public surface is split by runtime safety:
  *   - This barrel: pure types, schemas, and the XML helpers used to render
  *     environment changes. Safe to import from UI / preload / renderer code.
- *   - `@stagewise/agent-core/env/adapters`: the seven core-owned `DomainAdapter`
+ *   - `@stagewise/agent-core/env/adapters`: the eight core-owned `DomainAdapter`
  *     factory functions. Node-only — they transitively pull `chokidar` and
  *     `node:fs` via the `logs/read` and `plans/read` modules. Do not import
  *     from renderer-side code.
@@ -3,8 +3,8 @@
  *
  * After the env-state migration (Phase 4), agent-core no longer owns a
  * combined "full environment snapshot" type. Each domain adapter owns its
- * own state shape. The schemas here back the five core-owned domains
- * (`workspace`, `agentsMd`, `enabledSkills`, `plans`, `logs`).
+ * own state shape. The schemas here back the six core-owned domains
+ * (`workspace`, `agentsMd`, `enabledSkills`, `plans`, `logs`, `git`).
  * Host-specific schemas (browser, shells, activeApp, logIngest)
  * live in the host package.
  *
@@ -108,3 +108,68 @@ export const logsSnapshotSchema = z.object({
   entries: z.array(logChannelSnapshotEntrySchema),
 });
 export type LogsSnapshot = z.infer<typeof logsSnapshotSchema>;
+
+// ---------------------------------------------------------------------------
+// Section: git
+// ---------------------------------------------------------------------------
+
+export const gitFileChangeKindSchema = z.enum([
+  'modified',
+  'type-changed',
+  'added',
+  'deleted',
+  'renamed',
+  'copied',
+]);
+export type GitFileChangeKind = z.infer<typeof gitFileChangeKindSchema>;
+
+/** One staged or unstaged entry; `path` is relative to the repo root. */
+export const gitFileChangeSchema = z.object({
+  path: z.string(),
+  kind: gitFileChangeKindSchema,
+  oldPath: z.string().optional(),
+});
+export type GitFileChange = z.infer<typeof gitFileChangeSchema>;
+
+export const gitOperationSchema = z.enum([
+  'merge',
+  'rebase',
+  'cherry-pick',
+  'revert',
+  'bisect',
+]);
+export type GitOperation = z.infer<typeof gitOperationSchema>;
+
+/**
+ * Status of one repository. The file lists are capped; `counts` always
+ * carries the exact totals.
+ */
+export const gitRepositoryStatusSchema = z.object({
+  repoRoot: z.string(),
+  /** `null` on a detached HEAD. */
+  branch: z.string().nullable(),
+  /** `null` before the first commit. */
+  headSha: z.string().nullable(),
+  upstream: z.string().nullable(),
+  ahead: z.number(),
+  behind: z.number(),
+  operation: gitOperationSchema.nullable(),
+  staged: z.array(gitFileChangeSchema),
+  unstaged: z.array(gitFileChangeSchema),
+  untracked: z.array(z.string()),
+  conflicted: z.array(z.string()),
+  counts: z.object({
+    staged: z.number(),
+    unstaged: z.number(),
+    untracked: z.number(),
+    conflicted: z.number(),
+  }),
+});
+export type GitRepositoryStatus = z.infer<typeof gitRepositoryStatusSchema>;
+
+export const gitSnapshotSchema = z.object({
+  repositories: z.array(
+    gitRepositoryStatusSchema.extend({ prefix: z.string() }),
+  ),
+});
+export type GitSnapshot = z.infer<typeof gitSnapshotSchema>;
@@ -26,7 +26,9 @@ export {
   PRESET_THINKING_OVERRIDE_METADATA_KEY,
   PROVIDER_INSTANCE_ID_METADATA_KEY,
   UTILITY_THINKING_OVERRIDE_METADATA_KEY,
+  type HostEmbeddingModel,
   type HostModels,
+  type ModelPricing,
   type ModelRequestPurpose,
   type ModelWithOptions,
   type ProviderMode,
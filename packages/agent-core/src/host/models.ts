@@ -1,4 +1,4 @@
-import type { LanguageModel, streamText } from 'ai';
+import type { EmbeddingModel, LanguageModel, streamText } from 'ai';
 import type { ModelCapabilities } from '../types/models';
 import type { ReasoningSignatureSource } from '../types/metadata';
 
@@ -77,6 +77,12 @@ export interface UtilityModelEntry {
   thinkingOverride?: UtilityModelThinkingOverride;
 }
 
+/** List price of a model in USD per million tokens. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
 /**
  * Fully-resolved model with all the options `BaseAgent` needs to
  * invoke `streamText` / `generateText`.
@@ -126,6 +132,25 @@ export interface ModelWithOptions {
    * `tools.0.custom.strict: Extra inputs are not permitted`.
    */
   stripStrictFromTools?: boolean;
+  /**
+   * List price used to record the cost of agent steps in the usage
+   * ledger. Omit when unknown; such steps don't count towards currency
+   * budgets.
+   */
+  pricing?: ModelPricing;
+}
+
+/**
+ * Embedding model for semantic search over past conversations, returned
+ * by {@link HostModels.getEmbeddingModel}.
+ */
+export interface HostEmbeddingModel {
+  /**
+   * Stable identifier of the model (e.g. `<providerInstanceId>/<modelId>`).
+   * Stored vectors of another id are never compared with this model's.
+   */
+  id: string;
+  model: Exclude<EmbeddingModel, string>;
 }
 
 /**
@@ -243,4 +268,15 @@ export interface HostModels {
    * missing-model branch separately.
    */
   getCapabilities(modelId: string): ModelCapabilities;
+
+  /**
+   * Returns the embedding model the user chose for searching past
+   * conversations by meaning, or `undefined` when none is configured.
+   * Search then ranks by keywords only.
+   *
+   * Embedding sends message text to the model's provider, so hosts only
+   * return a model the user picked for this purpose. Hosts without one
+   * can omit the method.
+   */
+  getEmbeddingModel?(): HostEmbeddingModel | undefined;
 }
@@ -42,6 +42,8 @@ export interface HostPaths {
   fileReadCacheDbPath(): string;
   /** Processed-image cache SQLite database file. */
   processedImageCacheDbPath(): string;
+  /** Past-conversation full-text search SQLite database file. */
+  historySearchDbPath(): string;
 
   /** User-visible data root (plans, logs). */
   userDataDir(): string;
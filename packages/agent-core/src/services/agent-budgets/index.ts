@@ -0,0 +1,7 @@
+export {
+  AgentBudgetService,
+  estimateStepCost,
+  type AgentBudgetExceededError,
+  type AgentBudgetServiceDeps,
+  type AgentStepUsage,
+} from './service';
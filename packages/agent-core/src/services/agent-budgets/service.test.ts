@@ -0,0 +1,228 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTestHostPaths } from '../../host/test-utils';
+import { AgentPersistenceDB } from '../agent-persistence/db';
+import {
+  AgentBudgetService,
+  type AgentStepUsage,
+  estimateStepCost,
+} from './service';
+
+const logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+} as any;
+
+const pricing = { inputPerMillion: 3, outputPerMillion: 15 };
+
+function step(totalTokens: number, outputTokens = 0): AgentStepUsage {
+  return {
+    modelId: 'claude-sonnet',
+    providerInstanceId: null,
+    inputTokens: totalTokens - outputTokens,
+    outputTokens,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    totalTokens,
+    pricing,
+  };
+}
+
+let root: string | undefined;
+let db: AgentPersistenceDB | undefined;
+
+afterEach(async () => {
+  db?.close();
+  if (root) await rm(root, { recursive: true, force: true });
+  root = undefined;
+  db = undefined;
+});
+
+async function setup() {
+  root = await mkdtemp(path.join(os.tmpdir(), 'agent-budgets-'));
+  const paths = createTestHostPaths({
+    agentDbPath: () => path.join(root!, 'agents.sqlite'),
+  });
+  db = (await AgentPersistenceDB.create({ host: paths, logger }))!;
+  return { db, service: new AgentBudgetService({ persistenceDb: db, logger }) };
+}
+
+describe('AgentBudgetService', () => {
+  it('persists budgets and rejects invalid definitions', async () => {
+    const { service } = await setup();
+
+    const saved = await service.save({
+      scope: 'day',
+      unit: 'usd',
+      limit: 5,
+    });
+
+    expect(saved).toMatchObject({
+      scope: 'day',
+      unit: 'usd',
+      limit: 5,
+      workspacePath: null,
+      enabled: true,
+    });
+    expect(await service.list()).toEqual([saved]);
+
+    await expect(
+      service.save({ scope: 'workspace', unit: 'tokens', limit: 10 }),
+    ).rejects.toThrow(/workspace path/);
+    await expect(
+      service.save({
+        scope: 'workspace',
+        unit: 'tokens',
+        limit: 10,
+        workspacePath: 'relative/dir',
+      }),
+    ).rejects.toThrow(/absolute/);
+    await expect(
+      service.save({ scope: 'agent', unit: 'tokens', limit: 0 }),
+    ).rejects.toThrow();
+    await expect(service.remove('nope')).rejects.toThrow(/not found/);
+  });
+
+  it('pauses once an agent budget is used up and extends it per agent', async () => {
+    const { service } = await setup();
+    const budget = await service.save({
+      scope: 'agent',
+      unit: 'tokens',
+      limit: 1_000,
+    });
+
+    await service.recordStep('agent-1', [], step(600));
+    expect(await service.check('agent-1', [])).toBeNull();
+
+    await service.recordStep('agent-1', [], step(700));
+    expect(await service.check('agent-1', [])).toEqual({
+      kind: 'budget-exceeded',
+      message:
+        'The per-agent budget of 1,000 tokens is used up (1,300 tokens used).',
+      budgetId: budget.id,
+      scope: 'agent',
+      unit: 'tokens',
+      workspacePath: null,
+      used: 1_300,
+      limit: 1_000,
+    });
+    // Other agents have their own window.
+    expect(await service.check('agent-2', [])).toBeNull();
+
+    const extended = await service.extend(budget.id, 'agent-1');
+    expect(extended.limit).toBe(2_300);
+    expect(await service.check('agent-1', [])).toBeNull();
+  });
+
+  it('counts workspace budgets only for agents with the workspace mounted', async () => {
+    const { service } = await setup();
+    const workspace = path.join(root!, 'app');
+    await service.save({
+      scope: 'workspace',
+      unit: 'usd',
+      limit: 0.01,
+      workspacePath: workspace,
+    });
+
+    await service.recordStep('agent-1', [workspace], step(2_000, 500));
+    await service.recordStep(
+      'agent-2',
+      [path.join(root!, 'other')],
+      step(10_000),
+    );
+
+    const blocked = await service.check('agent-3', [workspace]);
+    expect(blocked?.scope).toBe('workspace');
+    expect(blocked?.used).toBeCloseTo(
+      estimateStepCost(step(2_000, 500), pricing),
+    );
+    expect(
+      await service.check('agent-2', [path.join(root!, 'other')]),
+    ).toBeNull();
+  });
+
+  it('reports steps without pricing that a usd budget cannot count', async () => {
+    const { service } = await setup();
+    const warnings: string[] = [];
+    const warnService = new AgentBudgetService({
+      persistenceDb: db!,
+      logger: { ...logger, warn: (message: string) => warnings.push(message) },
+    });
+    await service.save({ scope: 'agent', unit: 'usd', limit: 0.01 });
+    await service.save({ scope: 'agent', unit: 'tokens', limit: 1_000_000 });
+
+    await warnService.recordStep('agent-1', [], {
+      ...step(100_000),
+      modelId: 'local-model',
+      pricing: undefined,
+    });
+
+    // The unpriced step costs nothing, so the usd budget cannot pause it.
+    expect(await service.check('agent-1', [])).toBeNull();
+    const usage = await service.getUsage('agent-1', []);
+    expect(
+      usage.map(({ budget, used, unpricedSteps }) => [
+        budget.unit,
+        used,
+        unpricedSteps,
+      ]),
+    ).toEqual([
+      ['usd', 0, 1],
+      ['tokens', 100_000, 0],
+    ]);
+    expect(warnings).toEqual([
+      expect.stringContaining('Model local-model has no known pricing'),
+    ]);
+
+    await warnService.recordStep('agent-1', [], step(10));
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('reports ledger totals per day, agent and model', async () => {
+    const { db, service } = await setup();
+    await service.recordStep('agent-1', [], step(1_000, 200));
+    await service.recordStep('agent-1', [], {
+      ...step(500),
+      pricing: undefined,
+    });
+    await service.recordStep('agent-2', [], step(100));
+    const { pricing: _, ...oldStep } = step(999);
+    await db.recordAgentUsage({
+      ...oldStep,
+      agentInstanceId: 'agent-old',
+      workspacePaths: [],
+      costUsd: 1,
+      createdAt: new Date(2020, 0, 1),
+    });
+
+    const now = new Date();
+    const report = await service.getReport(
+      new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+      new Date(now.getTime() + 60_000),
+    );
+
+    expect(report.totals).toEqual({
+      steps: 3,
+      totalTokens: 1_600,
+      costUsd: expect.closeTo(
+        estimateStepCost(step(1_000, 200), pricing) +
+          estimateStepCost(step(100), pricing),
+      ),
+      unpricedSteps: 1,
+    });
+    expect(report.days).toHaveLength(1);
+    expect(
+      report.agents.map((agent) => [agent.agentInstanceId, agent.title]),
+    ).toEqual([
+      ['agent-1', null],
+      ['agent-2', null],
+    ]);
+    expect(report.models).toEqual([
+      expect.objectContaining({ modelId: 'claude-sonnet', steps: 3 }),
+    ]);
+  });
+});
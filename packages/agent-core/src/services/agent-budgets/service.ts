@@ -0,0 +1,303 @@
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Logger } from '../../host/logger';
+import type { ModelPricing } from '../../host/models';
+import type { AgentRuntimeError } from '../../types/agent';
+import {
+  agentBudgetInputSchema,
+  type AgentBudget,
+  type AgentBudgetInput,
+  type AgentBudgetUnit,
+  type AgentBudgetUsage,
+  type AgentUsageReport,
+} from '../../types/agent-budgets';
+import type { AgentPersistenceDB } from '../agent-persistence/db';
+
+export type AgentBudgetExceededError = Extract<
+  AgentRuntimeError,
+  { kind: 'budget-exceeded' }
+>;
+
+/** Token counts of a finished agent step, as reported by the model. */
+export type AgentStepUsage = {
+  modelId: string;
+  providerInstanceId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  /** List price of the step's model, if known. */
+  pricing?: ModelPricing;
+};
+
+export interface AgentBudgetServiceDeps {
+  persistenceDb: Pick<
+    AgentPersistenceDB,
+    | 'listAgentBudgets'
+    | 'getAgentBudget'
+    | 'storeAgentBudget'
+    | 'deleteAgentBudget'
+    | 'addAgentBudgetExtension'
+    | 'getAgentBudgetExtensionTotal'
+    | 'recordAgentUsage'
+    | 'sumAgentUsage'
+    | 'getAgentUsageReport'
+  >;
+  logger: Logger;
+}
+
+/**
+ * Keeps the usage ledger and enforces the user's token and currency
+ * budgets.
+ *
+ * Every finished agent step is recorded in the ledger; before a step
+ * starts, {@link check} compares the ledger against the enabled budgets
+ * that apply to the agent. A used-up budget is extended for the current
+ * window only (the agent, or the day), so tomorrow's daily budget starts
+ * from the configured limit again.
+ */
+export class AgentBudgetService {
+  private readonly deps: AgentBudgetServiceDeps;
+
+  public constructor(deps: AgentBudgetServiceDeps) {
+    this.deps = deps;
+  }
+
+  public list(): Promise<AgentBudget[]> {
+    return this.deps.persistenceDb.listAgentBudgets();
+  }
+
+  /**
+   * Creates a budget, or replaces the definition of `id`.
+   *
+   * @throws when the input is invalid or `id` does not exist.
+   */
+  public async save(
+    input: AgentBudgetInput,
+    id?: string,
+  ): Promise<AgentBudget> {
+    const parsed = agentBudgetInputSchema.parse(input);
+    if (
+      parsed.workspacePath !== null &&
+      !path.isAbsolute(parsed.workspacePath)
+    ) {
+      throw new Error(
+        `Budget workspace path must be absolute: ${parsed.workspacePath}`,
+      );
+    }
+
+    const existing = id
+      ? await this.deps.persistenceDb.getAgentBudget(id)
+      : null;
+    if (id && !existing) throw new Error(`Agent budget ${id} not found`);
+
+    const now = new Date();
+    const budget: AgentBudget = {
+      ...parsed,
+      workspacePath:
+        parsed.workspacePath === null
+          ? null
+          : path.resolve(parsed.workspacePath),
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await this.deps.persistenceDb.storeAgentBudget(budget);
+    return (await this.deps.persistenceDb.getAgentBudget(budget.id))!;
+  }
+
+  public async remove(id: string): Promise<void> {
+    const deleted = await this.deps.persistenceDb.deleteAgentBudget(id);
+    if (!deleted) throw new Error(`Agent budget ${id} not found`);
+  }
+
+  /** Usage of every enabled budget that applies to the agent. */
+  public async getUsage(
+    agentInstanceId: string,
+    workspacePaths: readonly string[],
+  ): Promise<AgentBudgetUsage[]> {
+    const now = new Date();
+    const budgets = await this.getApplyingBudgets(workspacePaths);
+    return await Promise.all(
+      budgets.map((budget) =>
+        this.getBudgetUsage(budget, agentInstanceId, now),
+      ),
+    );
+  }
+
+  /**
+   * Returns the error to pause the agent with when one of its budgets is
+   * used up, or `null` when the next step may run.
+   */
+  public async check(
+    agentInstanceId: string,
+    workspacePaths: readonly string[],
+  ): Promise<AgentBudgetExceededError | null> {
+    const usages = await this.getUsage(agentInstanceId, workspacePaths);
+    const exceeded = usages.find((usage) => usage.used >= usage.limit);
+    if (!exceeded) return null;
+
+    const { budget, used, limit } = exceeded;
+    return {
+      kind: 'budget-exceeded',
+      message: `${describeBudget(budget)} of ${formatBudgetAmount(budget.unit, limit)} is used up (${formatBudgetAmount(budget.unit, used)} used).`,
+      budgetId: budget.id,
+      scope: budget.scope,
+      unit: budget.unit,
+      workspacePath: budget.workspacePath,
+      used,
+      limit,
+    };
+  }
+
+  /**
+   * Raises a budget for the agent's current window to the current usage
+   * plus the configured limit.
+   *
+   * @throws when the budget does not exist.
+   */
+  public async extend(
+    budgetId: string,
+    agentInstanceId: string,
+  ): Promise<AgentBudgetUsage> {
+    const budget = await this.deps.persistenceDb.getAgentBudget(budgetId);
+    if (!budget) throw new Error(`Agent budget ${budgetId} not found`);
+
+    const now = new Date();
+    const usage = await this.getBudgetUsage(budget, agentInstanceId, now);
+    const amount =
+      Math.max(usage.used, usage.limit) - usage.limit + budget.limit;
+    await this.deps.persistenceDb.addAgentBudgetExtension({
+      budgetId,
+      windowKey: usage.windowKey,
+      amount,
+      createdAt: now,
+    });
+    this.deps.logger.info(
+      `[AgentBudgetService] Extended budget ${budgetId} for ${usage.windowKey} by ${amount}`,
+    );
+    return { ...usage, limit: usage.limit + amount };
+  }
+
+  /**
+   * Adds a finished step to the usage ledger. A step without pricing is
+   * recorded as unpriced; `usd` budgets report it in
+   * {@link AgentBudgetUsage.unpricedSteps} because they cannot count it.
+   */
+  public async recordStep(
+    agentInstanceId: string,
+    workspacePaths: readonly string[],
+    usage: AgentStepUsage,
+  ): Promise<void> {
+    const { pricing, ...tokens } = usage;
+    await this.deps.persistenceDb.recordAgentUsage({
+      ...tokens,
+      agentInstanceId,
+      workspacePaths: [...workspacePaths],
+      costUsd: pricing ? estimateStepCost(usage, pricing) : null,
+      createdAt: new Date(),
+    });
+    if (pricing) return;
+    const budgets = await this.getApplyingBudgets(workspacePaths);
+    if (budgets.some((budget) => budget.unit === 'usd')) {
+      this.deps.logger.warn(
+        `[AgentBudgetService] Model ${usage.modelId} has no known pricing; usd budgets cannot count the step of agent ${agentInstanceId}`,
+      );
+    }
+  }
+
+  /** Ledger totals of the steps finished in `[from, to)`. */
+  public getReport(from: Date, to: Date): Promise<AgentUsageReport> {
+    return this.deps.persistenceDb.getAgentUsageReport(from, to);
+  }
+
+  private async getApplyingBudgets(
+    workspacePaths: readonly string[],
+  ): Promise<AgentBudget[]> {
+    return (await this.deps.persistenceDb.listAgentBudgets()).filter(
+      (budget) =>
+        budget.enabled &&
+        (budget.scope !== 'workspace' ||
+          workspacePaths.some(
+            (workspacePath) =>
+              path.resolve(workspacePath) === budget.workspacePath,
+          )),
+    );
+  }
+
+  private async getBudgetUsage(
+    budget: AgentBudget,
+    agentInstanceId: string,
+    now: Date,
+  ): Promise<AgentBudgetUsage> {
+    const windowKey =
+      budget.scope === 'agent'
+        ? `agent:${agentInstanceId}`
+        : `day:${formatLocalDay(now)}`;
+    const totals = await this.deps.persistenceDb.sumAgentUsage(
+      budget.scope === 'agent'
+        ? { agentInstanceId }
+        : {
+            since: startOfLocalDay(now),
+            workspacePath: budget.workspacePath ?? undefined,
+          },
+    );
+    const extension =
+      await this.deps.persistenceDb.getAgentBudgetExtensionTotal(
+        budget.id,
+        windowKey,
+      );
+    return {
+      budget,
+      windowKey,
+      used: budget.unit === 'usd' ? totals.costUsd : totals.totalTokens,
+      limit: budget.limit + extension,
+      unpricedSteps: budget.unit === 'usd' ? totals.unpricedSteps : 0,
+    };
+  }
+}
+
+/**
+ * List price of a step. Cached input tokens are priced like fresh input,
+ * so the estimate errs on the high side for providers that discount them.
+ */
+export function estimateStepCost(
+  usage: Pick<AgentStepUsage, 'inputTokens' | 'outputTokens'>,
+  pricing: ModelPricing,
+): number {
+  return (
+    (usage.inputTokens * pricing.inputPerMillion +
+      usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+export function formatBudgetAmount(
+  unit: AgentBudgetUnit,
+  amount: number,
+): string {
+  if (unit === 'usd') return `$${amount.toFixed(2)}`;
+  return `${Math.round(amount).toLocaleString('en-US')} tokens`;
+}
+
+function describeBudget(budget: AgentBudget): string {
+  switch (budget.scope) {
+    case 'agent':
+      return 'The per-agent budget';
+    case 'day':
+      return 'The daily budget';
+    case 'workspace':
+      return `The daily budget of workspace ${path.basename(budget.workspacePath ?? '')}`;
+  }
+}
+
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function formatLocalDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,239 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import { createClient } from '@libsql/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTestHostPaths } from '../../host/test-utils';
+import { AgentTypes, type AgentMessage } from '../../types/agent';
+import { AgentPersistenceDB } from '../agent-persistence/db';
+import { AttachmentsService } from '../attachments';
+import { mountPrefixForPath } from '../mount-manager/mount-registry';
+import {
+  type AgentBundleDeps,
+  createAgentBundle,
+  readAgentBundle,
+  remapBundleFileEdits,
+  remapBundleStrings,
+  resolveBundleMounts,
+} from './agent-bundle';
+
+const logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+} as any;
+
+let root: string | undefined;
+
+afterEach(async () => {
+  if (root) await rm(root, { recursive: true, force: true });
+  root = undefined;
+});
+
+async function setup() {
+  root = await mkdtemp(path.join(os.tmpdir(), 'agent-bundle-'));
+  const at = (...parts: string[]) => path.join(root!, ...parts);
+  const workspace = at('workspace');
+  await mkdir(workspace, { recursive: true });
+  const paths = createTestHostPaths({
+    agentDbPath: () => at('agents.sqlite'),
+    agentAttachmentsDir: (agentId) => at('agents', agentId, 'attachments'),
+    agentAttachmentPath: (agentId, attachmentId) =>
+      at('agents', agentId, 'attachments', attachmentId),
+  });
+  const deps: AgentBundleDeps = {
+    tempDir: at('tmp'),
+    plansDir: at('plans'),
+    attachments: new AttachmentsService(paths),
+    logger,
+  };
+
+  const prefix = mountPrefixForPath(workspace);
+  const createdAt = new Date('2026-01-02T03:04:05Z');
+  const history: AgentMessage[] = [
+    {
+      id: 'm1',
+      role: 'user',
+      parts: [{ type: 'text', text: `Fix ${prefix}/src/index.ts` }],
+      metadata: { createdAt, partsMetadata: [] },
+    } as AgentMessage,
+    {
+      id: 'm2',
+      role: 'assistant',
+      parts: [
+        {
+          type: 'tool-write',
+          toolCallId: 'call-1',
+          state: 'output-available',
+          input: { path: 'plans/fix.md', content: '# Fix' },
+          output: { message: 'ok' },
+        },
+      ],
+    } as AgentMessage,
+  ];
+
+  const db = await AgentPersistenceDB.create({ host: paths, logger });
+  await db!.storeAgentInstance(
+    {
+      id: 'agent-1',
+      type: AgentTypes.CHAT,
+      title: 'Exported chat',
+      activeModelId: 'claude-sonnet-4.6',
+      createdAt,
+      lastMessageAt: createdAt,
+      queuedMessages: [],
+      inputState: '',
+      usedTokens: 42,
+      mountedWorkspaces: [{ path: workspace, permissions: ['read'] }],
+    },
+    history,
+  );
+  const row = (await db!.getStoredAgentInstanceById('agent-1'))!;
+  db!.close();
+
+  await deps.attachments.write('agent-1', 'image.png', Buffer.from('png'));
+  await mkdir(deps.plansDir, { recursive: true });
+  await writeFile(path.join(deps.plansDir, 'fix.md'), '# Fix', 'utf8');
+
+  return { deps, row, workspace, prefix, createdAt };
+}
+
+describe('agent bundles', () => {
+  it('round-trips history, attachments, plans and edits', async () => {
+    const { deps, row, workspace, prefix, createdAt } = await setup();
+    const edits = [
+      {
+        toolCallId: 'call-2',
+        path: path.join(workspace, 'a.ts'),
+        before: null,
+        after: 'a',
+      },
+    ];
+
+    const data = await createAgentBundle(deps, row, edits);
+    const { bundle, row: imported } = await readAgentBundle(deps, data);
+
+    expect(imported.title).toBe('Exported chat');
+    expect(imported.usedTokens).toBe(42);
+    expect(imported.history).toEqual(row.history);
+    expect(
+      (imported.history[0] as AgentMessage).metadata?.createdAt,
+    ).toBeInstanceOf(Date);
+    expect((imported.history[0] as AgentMessage).metadata?.createdAt).toEqual(
+      createdAt,
+    );
+    expect(bundle.mounts).toEqual([
+      { prefix, path: workspace, permissions: ['read'] },
+    ]);
+    expect(bundle.attachments).toEqual([
+      { id: 'image.png', data: Buffer.from('png').toString('base64') },
+    ]);
+    expect(bundle.plans).toEqual([{ path: 'plans/fix.md', content: '# Fix' }]);
+    expect(bundle.fileEdits).toEqual(edits);
+  });
+
+  it('migrates the database of bundles from older versions', async () => {
+    const { deps, row } = await setup();
+    const gzipped = await createAgentBundle(deps, row, []);
+    const bundle = JSON.parse(
+      (await promisify(gunzip)(gzipped)).toString('utf8'),
+    );
+
+    // Rewind the embedded database to schema v13 (before archiving).
+    const dbPath = path.join(root!, 'old.sqlite');
+    await writeFile(dbPath, Buffer.from(bundle.database, 'base64'));
+    const client = createClient({ url: `file:${dbPath}` });
+    await client.execute('ALTER TABLE agentInstances DROP COLUMN archived_at');
+    await client.execute("UPDATE meta SET value = '13' WHERE key = 'version'");
+    client.close();
+    bundle.database = (await readFile(dbPath)).toString('base64');
+    bundle.schemaVersion = 13;
+    const older = await promisify(gzip)(Buffer.from(JSON.stringify(bundle)));
+
+    const { row: imported } = await readAgentBundle(deps, older);
+    expect(imported.archivedAt).toBeNull();
+    expect(imported.history).toEqual(row.history);
+  });
+
+  it('rejects files that are not bundles or come from newer versions', async () => {
+    const { deps, row } = await setup();
+    await expect(
+      readAgentBundle(deps, Buffer.from('not a bundle')),
+    ).rejects.toThrow('not an agent bundle');
+
+    const bundle = JSON.parse(
+      (
+        await promisify(gunzip)(await createAgentBundle(deps, row, []))
+      ).toString('utf8'),
+    );
+    bundle.version = 99;
+    await expect(
+      readAgentBundle(
+        deps,
+        await promisify(gzip)(Buffer.from(JSON.stringify(bundle))),
+      ),
+    ).rejects.toThrow('newer version');
+  });
+});
+
+describe('resolveBundleMounts', () => {
+  it('mounts only explicitly mapped workspaces', async () => {
+    const { workspace } = await setup();
+    const mounts = [
+      { prefix: 'w1111', path: '/remote/app', permissions: [] },
+      { prefix: 'w2222', path: '/remote/lib', permissions: [] },
+      { prefix: 'w3333', path: workspace, permissions: [] },
+    ];
+
+    const resolved = await resolveBundleMounts(mounts, { w1111: workspace });
+
+    // w3333 exists here but was not mapped by the user
+    expect(resolved.map((mount) => mount.localPath)).toEqual([
+      workspace,
+      null,
+      null,
+    ]);
+    await expect(
+      resolveBundleMounts(mounts, { '/remote/lib': '/does/not/exist' }),
+    ).rejects.toThrow('does not exist');
+  });
+});
+
+describe('remapBundleStrings', () => {
+  it('rewrites mount prefixes and directories in nested strings', () => {
+    const createdAt = new Date();
+    const value = {
+      text: 'See w1a2b/src/a.ts and /remote/app/b.ts, not /remote/apple or xw1a2b/c',
+      nested: [{ path: '/remote/app' }],
+      createdAt,
+    };
+
+    const remapped = remapBundleStrings(
+      value,
+      [{ from: 'w1a2b', to: 'wffff' }],
+      [{ from: '/remote/app', to: '/local/app' }],
+    );
+
+    expect(remapped.text).toBe(
+      'See wffff/src/a.ts and /local/app/b.ts, not /remote/apple or xw1a2b/c',
+    );
+    expect(remapped.nested).toEqual([{ path: '/local/app' }]);
+    expect(remapped.createdAt).toBe(createdAt);
+  });
+});
+
+describe('remapBundleFileEdits', () => {
+  it('moves edits into local directories and drops the rest', () => {
+    const edits = [
+      { toolCallId: 't1', path: '/remote/app/a.ts', before: null, after: 'a' },
+      { toolCallId: 't2', path: '/elsewhere/b.ts', before: null, after: 'b' },
+    ];
+
+    expect(
+      remapBundleFileEdits(edits, [{ from: '/remote/app', to: '/local/app' }]),
+    ).toEqual([{ ...edits[0], path: '/local/app/a.ts' }]);
+  });
+});
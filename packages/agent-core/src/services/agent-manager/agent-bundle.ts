@@ -0,0 +1,326 @@
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import { z } from 'zod';
+import { mkdir, readFile, rm, stat, writeFile } from '../../fs';
+import type { Logger } from '../../host/logger';
+import { getAgentOwnedPlanPaths, isPlanPath, PLANS_PREFIX } from '../../plans';
+import { mountPermissionSchema } from '../../types/metadata';
+import type { AgentMessage } from '../../types/agent';
+import type { ToolCallFileContentEdit } from '../../types/diff-history';
+import { AgentPersistenceDB } from '../agent-persistence/db';
+import { schemaVersion } from '../agent-persistence/migrations';
+import type { StoredAgentInstance } from '../agent-persistence/schema';
+import type { AttachmentsService } from '../attachments';
+import { mountPrefixForPath } from '../mount-manager/mount-registry';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const AGENT_BUNDLE_FORMAT = 'stagewise-agent-bundle';
+/** Bumped on breaking changes to the envelope below, not the DB schema. */
+export const AGENT_BUNDLE_VERSION = 1;
+
+/**
+ * Portable snapshot of one chat, written by `agents.export` as gzipped JSON.
+ *
+ * History travels as a standalone agent-persistence SQLite database so
+ * `agents.import` can upgrade bundles from older app versions with the
+ * regular migrations instead of a second serialization format.
+ */
+const agentBundleSchema = z.object({
+  format: z.literal(AGENT_BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  agentId: z.string(),
+  /** agent-persistence schema version of `database`. */
+  schemaVersion: z.number().int().nonnegative(),
+  /** Base64 SQLite database holding only the exported agent. */
+  database: z.string(),
+  /** Workspaces mounted at export time, with the prefix used in history. */
+  mounts: z.array(
+    z.object({
+      prefix: z.string(),
+      path: z.string(),
+      permissions: z.array(mountPermissionSchema),
+    }),
+  ),
+  /** Exporting machine's plans directory, for remapping absolute paths. */
+  plansDir: z.string(),
+  attachments: z.array(z.object({ id: z.string(), data: z.string() })),
+  /** Plans written by the agent, keyed by mount-prefixed path. */
+  plans: z.array(z.object({ path: z.string(), content: z.string() })),
+  fileEdits: z.array(
+    z.object({
+      toolCallId: z.string(),
+      path: z.string(),
+      before: z.string().nullable(),
+      after: z.string().nullable(),
+    }),
+  ),
+});
+
+export type AgentBundle = z.infer<typeof agentBundleSchema>;
+export type AgentBundleMount = AgentBundle['mounts'][number];
+
+export interface AgentBundleDeps {
+  tempDir: string;
+  plansDir: string;
+  attachments: AttachmentsService;
+  logger: Logger;
+}
+
+/**
+ * Opens a throwaway agent-persistence DB in `tempDir`, runs `fn` and
+ * returns its result with the database file as written afterwards. The DB
+ * is migrated on open, which is what upgrades an older bundle.
+ */
+async function withStandaloneDb<T>(
+  deps: AgentBundleDeps,
+  content: Buffer | null,
+  fn: (db: AgentPersistenceDB) => Promise<T>,
+): Promise<{ result: T; content: Buffer }> {
+  const dir = path.join(deps.tempDir, `agent-bundle-${randomUUID()}`);
+  const dbPath = path.join(dir, 'agent.db');
+  await mkdir(dir, { recursive: true });
+  try {
+    if (content) await writeFile(dbPath, content);
+    const db = await AgentPersistenceDB.create({
+      host: { agentDbPath: () => dbPath },
+      logger: deps.logger,
+    });
+    if (!db) throw new Error('Failed to open the agent bundle database');
+    let result: T;
+    try {
+      result = await fn(db);
+    } finally {
+      db.close();
+    }
+    return { result, content: await readFile(dbPath) };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Builds the bundle for a persisted top-level chat. Attachments and plans
+ * that are missing on disk are skipped.
+ */
+export async function createAgentBundle(
+  deps: AgentBundleDeps,
+  row: StoredAgentInstance,
+  fileEdits: ToolCallFileContentEdit[],
+): Promise<Buffer> {
+  const { history: storedHistory, ...instance } = row;
+  const history = storedHistory as AgentMessage[];
+  const { content: database } = await withStandaloneDb(deps, null, (db) =>
+    db.storeAgentInstance(
+      {
+        ...instance,
+        parentAgentInstanceId: null,
+        sideChatParentId: null,
+        archivedAt: null,
+        unread: false,
+      },
+      history,
+    ),
+  );
+
+  const attachments: AgentBundle['attachments'] = [];
+  for (const id of await deps.attachments.listAgentBlobs(row.id)) {
+    const data = await deps.attachments.read(row.id, id);
+    attachments.push({ id, data: data.toString('base64') });
+  }
+
+  const plans: AgentBundle['plans'] = [];
+  for (const planPath of getAgentOwnedPlanPaths(history)) {
+    const filePath = path.join(
+      deps.plansDir,
+      planPath.slice(PLANS_PREFIX.length + 1),
+    );
+    try {
+      plans.push({ path: planPath, content: await readFile(filePath, 'utf8') });
+    } catch {
+      deps.logger.debug(`[AgentBundle] Skipping missing plan: ${planPath}`);
+    }
+  }
+
+  const bundle: AgentBundle = {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agentId: row.id,
+    schemaVersion,
+    database: database.toString('base64'),
+    mounts: (row.mountedWorkspaces ?? []).map((workspace) => ({
+      prefix: mountPrefixForPath(workspace.path),
+      path: workspace.path,
+      permissions: workspace.permissions,
+    })),
+    plansDir: deps.plansDir,
+    attachments,
+    plans,
+    fileEdits,
+  };
+  return gzipAsync(Buffer.from(JSON.stringify(bundle)));
+}
+
+/**
+ * Parses a bundle and returns it with the agent row read back from the
+ * embedded database, migrated to the current schema.
+ */
+export async function readAgentBundle(
+  deps: AgentBundleDeps,
+  data: Buffer,
+): Promise<{ bundle: AgentBundle; row: StoredAgentInstance }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse((await gunzipAsync(data)).toString('utf8'));
+  } catch {
+    throw new Error('The file is not an agent bundle');
+  }
+  const result = agentBundleSchema.safeParse(parsed);
+  if (!result.success) throw new Error('The file is not an agent bundle');
+  const bundle = result.data;
+  if (
+    bundle.version > AGENT_BUNDLE_VERSION ||
+    bundle.schemaVersion > schemaVersion
+  ) {
+    throw new Error(
+      'The agent bundle was created by a newer version and cannot be imported',
+    );
+  }
+
+  const { result: row } = await withStandaloneDb(
+    deps,
+    Buffer.from(bundle.database, 'base64'),
+    (db) => db.getStoredAgentInstanceById(bundle.agentId),
+  );
+  if (!row) throw new Error('The agent bundle does not contain its agent');
+  return { bundle, row };
+}
+
+/** A bundle mount and the local workspace it maps to, if any. */
+export type ResolvedBundleMount = AgentBundleMount & {
+  localPath: string | null;
+};
+
+/**
+ * Maps bundle mounts to local workspaces. `workspaceMappings` is keyed by
+ * bundle mount prefix or original path. Unmapped mounts are dropped even
+ * when their original path exists here: the bundle may come from someone
+ * else, so only the user decides what gets mounted.
+ */
+export async function resolveBundleMounts(
+  mounts: AgentBundleMount[],
+  workspaceMappings: Record<string, string>,
+): Promise<ResolvedBundleMount[]> {
+  const resolved: ResolvedBundleMount[] = [];
+  for (const mount of mounts) {
+    const mapped =
+      workspaceMappings[mount.prefix] ?? workspaceMappings[mount.path];
+    if (!mapped) {
+      resolved.push({ ...mount, localPath: null });
+      continue;
+    }
+    const localPath = path.resolve(mapped);
+    const isDirectory = await stat(localPath)
+      .then((s) => s.isDirectory())
+      .catch(() => false);
+    if (!isDirectory) throw new Error(`Workspace ${mapped} does not exist`);
+    resolved.push({ ...mount, localPath });
+  }
+  return resolved;
+}
+
+export type BundlePathRemap = { from: string; to: string };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rewrites mount prefixes (`w1a2b/…`) and absolute directory paths in every
+ * string of `value`. Non-plain objects such as `Date` are left untouched.
+ */
+export function remapBundleStrings<T>(
+  value: T,
+  prefixes: BundlePathRemap[],
+  directories: BundlePathRemap[],
+): T {
+  const rules = [
+    ...prefixes
+      .filter((remap) => remap.from !== remap.to)
+      .map((remap) => ({
+        pattern: new RegExp(`(?<![\\w-])${escapeRegExp(remap.from)}(?=/)`, 'g'),
+        to: remap.to,
+      })),
+    ...directories
+      .filter((remap) => remap.from !== remap.to)
+      .map((remap) => ({
+        pattern: new RegExp(`${escapeRegExp(remap.from)}(?![\\w.-])`, 'g'),
+        to: remap.to,
+      })),
+  ];
+  if (rules.length === 0) return value;
+
+  const visit = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return rules.reduce(
+        (text, rule) => text.replace(rule.pattern, () => rule.to),
+        node,
+      );
+    }
+    if (Array.isArray(node)) return node.map(visit);
+    if (node && typeof node === 'object') {
+      const proto = Object.getPrototypeOf(node);
+      if (proto !== Object.prototype && proto !== null) return node;
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, visit(child)]),
+      );
+    }
+    return node;
+  };
+  return visit(value) as T;
+}
+
+/**
+ * Moves absolute edit paths from the exporting machine's directories to
+ * the local ones. Edits outside any remapped directory are dropped.
+ */
+export function remapBundleFileEdits(
+  edits: ToolCallFileContentEdit[],
+  directories: BundlePathRemap[],
+): ToolCallFileContentEdit[] {
+  const remapped: ToolCallFileContentEdit[] = [];
+  for (const edit of edits) {
+    const directory = directories.find(
+      (remap) =>
+        edit.path === remap.from ||
+        edit.path.startsWith(`${remap.from}${path.sep}`) ||
+        edit.path.startsWith(`${remap.from}/`),
+    );
+    if (!directory) continue;
+    remapped.push({
+      ...edit,
+      path: directory.to + edit.path.slice(directory.from.length),
+    });
+  }
+  return remapped;
+}
+
+/**
+ * Attachment ids and plan paths come from an untrusted file, so only
+ * plain names are accepted before they are joined onto local directories.
+ */
+export function isSafeAttachmentId(id: string): boolean {
+  return id.length > 0 && path.basename(id) === id && !id.startsWith('.');
+}
+
+export function isSafePlanPath(planPath: string): boolean {
+  return (
+    isPlanPath(planPath) &&
+    isSafeAttachmentId(planPath.slice(PLANS_PREFIX.length + 1))
+  );
+}
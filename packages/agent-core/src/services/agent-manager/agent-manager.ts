@@ -23,6 +23,8 @@ import {
 } from '../../env/contract';
 import {
   type AgentHistoryEntry,
+  type AgentHistorySearchHit,
+  type AgentHistorySearchOptions,
   type AgentMessage,
   type AgentState,
   AgentTypes,
@@ -50,7 +52,36 @@ import {
 } from './state-mutations';
 import type { AgentManagerOptions } from './options';
 import { generateAttachmentFilename } from './attachment-filename';
+import {
+  type AgentBundleDeps,
+  createAgentBundle,
+  isSafeAttachmentId,
+  isSafePlanPath,
+  readAgentBundle,
+  remapBundleFileEdits,
+  remapBundleStrings,
+  resolveBundleMounts,
+} from './agent-bundle';
+import { mountPrefixForPath } from '../mount-manager/mount-registry';
+import { PLANS_PREFIX } from '../../plans';
+import {
+  removeAgentFromHistorySearch,
+  searchAgentHistory,
+} from '../../agents/shared/memory/search-index';
+import {
+  AgentTriggerService,
+  buildTriggerRunPrompt,
+  type AgentTriggerFiring,
+} from '../agent-triggers';
+import type {
+  AgentTrigger,
+  AgentTriggerInput,
+} from '../../types/agent-triggers';
+import { AgentBudgetService } from '../agent-budgets';
+import type { AgentBudgetInput } from '../../types/agent-budgets';
+import { access, mkdir, readFile, writeFile } from '../../fs';
 import { randomUUID } from 'node:crypto';
+import path from 'node:path';
 import type { UserMessageMetadata } from '../../types/metadata';
 
 function toFiniteTimestamp(value: unknown): number | undefined {
@@ -96,6 +127,7 @@ function getNetworkRetryableErrorMessage(
   if (error.kind === 'model-restricted') return null;
   if (error.kind === 'subscription-required') return null;
   if (error.kind === 'upstream-overload') return null;
+  if (error.kind === 'budget-exceeded') return null;
   if (error.kind === 'waiting-for-connection') return error.originalMessage;
 
   const message = error.message.toLowerCase();
@@ -246,6 +278,8 @@ export class AgentManager extends DisposableService {
    * adapter itself.
    */
   private readonly domainAdapterRegistry: DomainAdapterRegistry;
+  private readonly triggers: AgentTriggerService;
+  private readonly budgets: AgentBudgetService;
 
   public constructor(options: AgentManagerOptions) {
     super();
@@ -258,6 +292,7 @@ export class AgentManager extends DisposableService {
       storage,
       tools,
       hooks,
+      armTriggers,
     } = options;
 
     this.host = host;
@@ -281,6 +316,20 @@ export class AgentManager extends DisposableService {
       hooks?.skillsForSlashRedaction ?? (() => []);
 
     this.domainAdapterRegistry = new DomainAdapterRegistry(host.logger);
+    this.triggers = new AgentTriggerService({
+      persistenceDb: this.persistenceDb,
+      logger: this.logger,
+      logsDir: () => host.paths.logsDir(),
+      startRun: (trigger, firing) => this.startTriggeredRun(trigger, firing),
+      isRunActive: (agentInstanceId) =>
+        !!this.agentStore.get().agents.instances[agentInstanceId]?.state
+          .isWorking,
+    });
+
+    this.budgets = new AgentBudgetService({
+      persistenceDb: this.persistenceDb,
+      logger: this.logger,
+    });
 
     this.unregisterUnreadPersistence = this.agentStore.subscribe(
       (state, _previous, patches) => {
@@ -331,6 +380,14 @@ export class AgentManager extends DisposableService {
     // startup-policy fire-and-forget can run immediately instead of
     // chaining off a `dbReadyPromise`.
     this.applyStartupPolicy();
+
+    if (armTriggers) {
+      void this.triggers.start().catch((error) => {
+        this.logger.error('[AgentManager] Failed to arm agent triggers', {
+          error,
+        });
+      });
+    }
   }
 
   /**
@@ -753,6 +810,11 @@ export class AgentManager extends DisposableService {
         archived?: boolean,
       ) => this.getAgentsHistoryList(offset, limit, searchString, archived),
     );
+    this.wrapAgentRpc(
+      'agents.searchHistory',
+      (query: string, options?: AgentHistorySearchOptions) =>
+        this.searchHistory(query, options),
+    );
     this.wrapAgentRpc(
       'agents.getAgentHistoryEntriesByIds',
       async (ids: string[]) => {
@@ -827,6 +889,46 @@ export class AgentManager extends DisposableService {
     this.wrapAgentRpc('agents.getTouchedFiles', async (agentId: string) => {
       return this.managerToolbox.getEditedFilePathsForAgent(agentId);
     });
+    this.wrapAgentRpc('agents.listTriggers', () => this.triggers.list());
+    this.wrapAgentRpc(
+      'agents.saveTrigger',
+      (input: AgentTriggerInput, triggerId?: string) =>
+        this.triggers.save(input, triggerId),
+    );
+    this.wrapAgentRpc('agents.deleteTrigger', (triggerId: string) =>
+      this.triggers.remove(triggerId),
+    );
+    this.wrapAgentRpc('agents.runTrigger', (triggerId: string) =>
+      this.triggers.runNow(triggerId),
+    );
+    this.wrapAgentRpc('agents.listBudgets', () => this.budgets.list());
+    this.wrapAgentRpc(
+      'agents.saveBudget',
+      (input: AgentBudgetInput, budgetId?: string) =>
+        this.budgets.save(input, budgetId),
+    );
+    this.wrapAgentRpc('agents.deleteBudget', (budgetId: string) =>
+      this.budgets.remove(budgetId),
+    );
+    this.wrapAgentRpc('agents.getBudgetUsage', (agentId: string) =>
+      this.budgets.getUsage(agentId, this.getMountedWorkspacePaths(agentId)),
+    );
+    this.wrapAgentRpc(
+      'agents.extendBudget',
+      (agentId: string, budgetId: string) =>
+        this.extendBudget(agentId, budgetId),
+    );
+    this.wrapAgentRpc('agents.getUsageReport', (from: Date, to: Date) =>
+      this.budgets.getReport(from, to),
+    );
+    this.wrapAgentRpc('agents.export', (agentId: string, filePath: string) =>
+      this.exportAgent(agentId, filePath),
+    );
+    this.wrapAgentRpc(
+      'agents.import',
+      (filePath: string, workspaceMappings?: Record<string, string>) =>
+        this.importAgent(filePath, workspaceMappings),
+    );
     this.wrapAgentRpc(
       'agents.revealWorkingDirectory',
       async (agentId: string) => {
@@ -871,6 +973,7 @@ export class AgentManager extends DisposableService {
     clearInterval(this.networkRetryInterval);
     this.pendingNetworkRetries.clear();
     this.unregisterCommands();
+    await this.triggers.teardown();
     this.unregisterUnreadPersistence();
     await this.unreadPersistenceQueue;
     for (const agent of this.activeAgents.values()) {
@@ -1231,6 +1334,19 @@ export class AgentManager extends DisposableService {
       renderExtraMention: this.renderHostMention,
       notificationEventHandler: this.onAgentEvent,
       externalRuntime,
+      budgetGuard: {
+        checkBeforeStep: () =>
+          this.budgets.check(
+            agentInstanceId,
+            this.getMountedWorkspacePaths(agentInstanceId),
+          ),
+        recordStepUsage: (usage) =>
+          this.budgets.recordStep(
+            agentInstanceId,
+            this.getMountedWorkspacePaths(agentInstanceId),
+            usage,
+          ),
+      },
     });
 
     this.activeAgents.set(agentInstanceId, agent);
@@ -1246,6 +1362,56 @@ export class AgentManager extends DisposableService {
     return agent as BaseAgent<any, any>;
   }
 
+  /**
+   * Starts the chat of a triggered run: a fresh root chat with the
+   * trigger's model, approval mode and workspaces whose first message
+   * is the trigger's prompt. Does not wait for the run to finish.
+   */
+  private async startTriggeredRun(
+    trigger: AgentTrigger,
+    firing: AgentTriggerFiring,
+  ): Promise<string> {
+    const initialState: Partial<AgentState> = {
+      toolApprovalMode: trigger.toolApprovalMode,
+    };
+    const lastChatSelection = trigger.modelId
+      ? null
+      : await this.persistenceDb.getLastChatModelSelection();
+    const modelId = trigger.modelId ?? lastChatSelection?.activeModelId;
+    const providerInstanceId = trigger.modelId
+      ? trigger.providerInstanceId
+      : lastChatSelection?.activeProviderInstanceId;
+    if (
+      modelId &&
+      this.host.models.has(modelId, providerInstanceId ?? undefined)
+    ) {
+      initialState.activeModelId = modelId;
+      if (providerInstanceId) {
+        initialState.activeProviderInstanceId = providerInstanceId;
+      }
+    }
+
+    const agent = await this.createAgent(
+      AgentTypes.CHAT,
+      undefined,
+      undefined,
+      initialState,
+    );
+    for (const workspacePath of trigger.workspacePaths) {
+      await this.managerToolbox.handleMountWorkspace(
+        agent.instanceId,
+        workspacePath,
+      );
+    }
+    await this.sendUserMessage(agent.instanceId, {
+      id: randomUUID(),
+      role: 'user',
+      parts: [{ type: 'text', text: buildTriggerRunPrompt(trigger, firing) }],
+      metadata: { createdAt: new Date(), partsMetadata: [] },
+    });
+    return agent.instanceId;
+  }
+
   private async spawnChildAgent(
     parentInstanceId: string,
     childAgentType: AgentTypes,
@@ -1476,6 +1642,148 @@ export class AgentManager extends DisposableService {
     }
   }
 
+  private getBundleDeps(): AgentBundleDeps {
+    return {
+      tempDir: this.host.paths.tempDir(),
+      plansDir: this.host.paths.plansDir(),
+      attachments: this.attachments,
+      logger: this.logger,
+    };
+  }
+
+  /** Write a top-level chat with its attachments, plans and edits to a file. */
+  private async exportAgent(agentId: string, filePath: string): Promise<void> {
+    if (this.activeAgents.has(agentId)) await this.persistAgentState(agentId);
+
+    const row = await this.persistenceDb.getStoredAgentInstanceById(agentId);
+    if (!row) {
+      throw new Error(`Agent with instance id ${agentId} not found`);
+    }
+    if (
+      row.type !== AgentTypes.CHAT ||
+      row.parentAgentInstanceId ||
+      row.sideChatParentId
+    ) {
+      throw new Error('Only top-level chats can be exported');
+    }
+
+    const fileEdits =
+      (await this.managerToolbox.getToolCallContentEdits?.(agentId)) ?? [];
+    const bundle = await createAgentBundle(
+      this.getBundleDeps(),
+      row,
+      fileEdits,
+    );
+    await writeFile(filePath, bundle);
+  }
+
+  /**
+   * Create a new chat from a bundle written by `agents.export`. Bundle
+   * workspaces are mounted at `workspaceMappings[prefix or path]` with the
+   * local default permissions; unmapped ones are not mounted. References to
+   * mounted workspaces in the history are rewritten to the local mount
+   * prefixes and paths.
+   */
+  private async importAgent(
+    filePath: string,
+    workspaceMappings: Record<string, string> = {},
+  ): Promise<string> {
+    const bundleDeps = this.getBundleDeps();
+    const { bundle, row } = await readAgentBundle(
+      bundleDeps,
+      await readFile(filePath),
+    );
+    if (row.type !== AgentTypes.CHAT) {
+      throw new Error('Only chats can be imported');
+    }
+
+    const mounts = (
+      await resolveBundleMounts(bundle.mounts, workspaceMappings)
+    ).flatMap((mount) =>
+      mount.localPath ? [{ ...mount, localPath: mount.localPath }] : [],
+    );
+    const directories = [
+      ...mounts.map((mount) => ({ from: mount.path, to: mount.localPath })),
+      { from: bundle.plansDir, to: bundleDeps.plansDir },
+    ];
+    const history = remapBundleStrings(
+      row.history as AgentMessage[],
+      mounts.map((mount) => ({
+        from: mount.prefix,
+        to: mountPrefixForPath(mount.localPath),
+      })),
+      directories,
+    );
+
+    const modelValid =
+      row.activeModelId &&
+      this.host.models.has(
+        row.activeModelId,
+        row.activeProviderInstanceId ?? undefined,
+      );
+    const agentId = randomUUID();
+    await this.createAgent(
+      AgentTypes.CHAT,
+      undefined,
+      undefined,
+      {
+        title: row.title,
+        titleLockedByUser: row.titleLockedByUser ?? undefined,
+        history,
+        activeModelId: modelValid ? row.activeModelId : undefined,
+        activeProviderInstanceId: modelValid
+          ? (row.activeProviderInstanceId ?? undefined)
+          : undefined,
+        toolApprovalMode: row.toolApprovalMode ?? DEFAULT_TOOL_APPROVAL_MODE,
+        usedTokens: row.usedTokens,
+      },
+      agentId,
+      row.inputState,
+    );
+
+    try {
+      for (const attachment of bundle.attachments) {
+        if (!isSafeAttachmentId(attachment.id)) continue;
+        await this.attachments.write(
+          agentId,
+          attachment.id,
+          Buffer.from(attachment.data, 'base64'),
+        );
+      }
+      for (const plan of bundle.plans) {
+        if (!isSafePlanPath(plan.path)) continue;
+        const target = path.join(
+          bundleDeps.plansDir,
+          plan.path.slice(PLANS_PREFIX.length + 1),
+        );
+        // A local plan with the same name wins over the imported copy.
+        const exists = await access(target).then(
+          () => true,
+          () => false,
+        );
+        if (exists) continue;
+        await mkdir(bundleDeps.plansDir, { recursive: true });
+        await writeFile(target, plan.content);
+      }
+      for (const mount of mounts) {
+        // The bundle's permissions are not trusted
+        await this.managerToolbox.handleMountWorkspace(
+          agentId,
+          mount.localPath,
+        );
+      }
+      await this.persistAgentState(agentId);
+      await this.managerToolbox.importToolCallContentEdits?.(
+        agentId,
+        remapBundleFileEdits(bundle.fileEdits, directories),
+      );
+      return agentId;
+    } catch (error) {
+      await this.deleteAgent(agentId);
+      throw error;
+    }
+  }
+
   private async promoteSideChat(instanceId: string): Promise<void> {
     const envelope = getAgentInstance(this.agentStore, instanceId);
     if (!envelope?.sideChatParentId) {
@@ -1546,6 +1854,17 @@ export class AgentManager extends DisposableService {
       );
     }
 
+    // The memory archive outlives the agent, so its search entries are
+    // removed explicitly.
+    try {
+      await removeAgentFromHistorySearch(this.host.paths, instanceId);
+    } catch (error) {
+      this.logger.error(
+        `[AgentManager] Failed to remove agent ${instanceId} from history search`,
+        error,
+      );
+    }
+
     this.host.telemetry?.capture('agent-deleted', {
       agent_type: agentType,
       agent_instance_id: instanceId,
@@ -1896,6 +2215,31 @@ export class AgentManager extends DisposableService {
     );
   }
 
+  /**
+   * Extends a budget for the agent's current window and resumes the
+   * agent when that budget paused it.
+   */
+  private async extendBudget(
+    instanceId: string,
+    budgetId: string,
+  ): Promise<void> {
+    await this.budgets.extend(budgetId, instanceId);
+    const agent = this.activeAgents.get(instanceId);
+    const error =
+      this.agentStore.get().agents.instances[instanceId]?.state.error;
+    if (
+      agent &&
+      error?.kind === 'budget-exceeded' &&
+      error.budgetId === budgetId
+    ) {
+      await agent.resumeAfterBudgetPause();
+    }
+  }
+
+  private getMountedWorkspacePaths(instanceId: string): string[] {
+    return [...this.agentToolbox.getMountedPathsForAgent(instanceId).values()];
+  }
+
   /**
    * Retry the last user message that resulted in an error
    * @param instanceId
@@ -1974,6 +2318,38 @@ export class AgentManager extends DisposableService {
       : entries;
   }
 
+  /**
+   * Full-text search over past conversations, also by meaning when the
+   * host has an embedding model. Hits from chats that were deleted before
+   * the search index tracked deletions are dropped here.
+   */
+  public async searchHistory(
+    query: string,
+    options: AgentHistorySearchOptions = {},
+  ): Promise<AgentHistorySearchHit[]> {
+    const limit = options.limit ?? 10;
+    const embeddingModel = this.host.models.getEmbeddingModel?.();
+    const hits = await searchAgentHistory(
+      this.host.paths,
+      query,
+      { ...options, limit: limit * 2 },
+      embeddingModel && {
+        model: embeddingModel,
+        onError: (error) =>
+          this.logger.warn(
+            '[AgentManager] Semantic history search failed; ranking by keywords only',
+            { error },
+          ),
+      },
+    );
+    const existing = await this.persistenceDb.getExistingAgentInstanceIds([
+      ...new Set(hits.map((hit) => hit.agentInstanceId)),
+    ]);
+    return hits
+      .filter((hit) => existing.has(hit.agentInstanceId))
+      .slice(0, limit);
+  }
+
   private async updateUnread(
     instanceId: string,
     unread: boolean,
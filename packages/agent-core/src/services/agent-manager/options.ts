@@ -144,6 +144,12 @@ export interface AgentManagerOptions {
    * CLI/tests and `'auto-create-default'` for the desktop app.
    */
   startupPolicy: AgentManagerStartupPolicy;
+  /**
+   * Arm enabled agent triggers (schedules, file watches, log channels)
+   * at boot. Trigger definitions can be managed either way; only hosts
+   * that should start unattended runs — the desktop app — opt in.
+   */
+  armTriggers?: boolean;
   state: AgentManagerStateOptions;
   storage: AgentManagerStorageOptions;
   tools: AgentManagerToolsOptions;
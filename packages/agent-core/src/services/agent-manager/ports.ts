@@ -1,3 +1,4 @@
+import type { ToolCallFileContentEdit } from '../../types/diff-history';
 import type { MountPermission } from '../../types/metadata';
 
 /**
@@ -25,6 +26,17 @@ export interface AgentManagerToolboxPort {
   finalizePendingEditsForAgent(agentInstanceId: string): Promise<void>;
   getEditedFilePathsForAgent(agentInstanceId: string): Promise<string[]>;
   getShellSnapshot?(agentInstanceId: string): unknown;
+  /**
+   * Optional diff-history access for `agents.export` / `agents.import`.
+   * Hosts without diff history move conversations without file edits.
+   */
+  getToolCallContentEdits?(
+    agentInstanceId: string,
+  ): Promise<ToolCallFileContentEdit[]>;
+  importToolCallContentEdits?(
+    agentInstanceId: string,
+    edits: ToolCallFileContentEdit[],
+  ): Promise<number>;
   /**
    * Optional host hook called from the `agents.create` handler to
    * normalize a user-supplied workspace path before mounting. Hosts
@@ -1,7 +1,11 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { describe, expect, it, vi } from 'vitest';
 import type { AgentHost } from '../../host/host';
 import { createTestAgentHost } from '../../host/test-utils';
 import type { HostPaths } from '../../host/paths';
+import type { DiffHistoryService } from '../diff-history';
 import type { MountManager } from '../mount-manager/mount-registry';
 import { createUniversalToolbox } from './universal-toolbox';
 
@@ -49,6 +53,57 @@ describe('createUniversalToolbox', () => {
     const map = tb.getMountedPathsForAgent('a1');
     expect([...map.entries()]).toEqual([['p1', '/abs/root']]);
   });
+
+  it('undoToolCalls delegates to the diff history when provided', async () => {
+    const undoToolCalls = vi.fn(async () => {});
+    const tb = createUniversalToolbox({
+      host: makeHost(),
+      mountManager: makeMountManager(),
+      diffHistoryService: { undoToolCalls } as unknown as DiffHistoryService,
+    });
+    await tb.undoToolCalls(['tc1', 'tc2'], 'a1');
+    expect(undoToolCalls).toHaveBeenCalledWith(['tc1', 'tc2'], 'a1');
+  });
+
+  it('enforces host-tracked read-only mount permissions', async () => {
+    const root = mkdtempSync(path.join(tmpdir(), 'universal-toolbox-'));
+    try {
+      writeFileSync(path.join(root, 'a.txt'), 'hello');
+      const tb = createUniversalToolbox({
+        host: makeHost(),
+        mountManager: makeMountManager({
+          getMountPrefixes: vi.fn(() => ['wro']),
+          getWorkspacePathForPrefix: vi.fn((p: string) =>
+            p === 'wro' ? root : undefined,
+          ),
+        }),
+        getMountPermissions: () => ['read', 'list'],
+      });
+      const options = { toolCallId: 'tc1', messages: [] };
+      const write = (await tb.getTool('write', 'a1')) as {
+        execute: (input: unknown, options: unknown) => Promise<unknown>;
+      };
+      await expect(
+        write.execute({ path: 'wro/b.txt', content: 'x' }, options),
+      ).rejects.toThrow(/read-only/);
+      const read = (await tb.getTool('read', 'a1')) as {
+        execute: (input: unknown, options: unknown) => Promise<unknown>;
+      };
+      await expect(
+        read.execute({ path: 'wro/a.txt' }, options),
+      ).resolves.toBeDefined();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('undoToolCalls is a no-op without a diff history', async () => {
+    const tb = createUniversalToolbox({
+      host: makeHost(),
+      mountManager: makeMountManager(),
+    });
+    await expect(tb.undoToolCalls(['tc1'], 'a1')).resolves.toBeUndefined();
+  });
 });
 
 function makeHost(): AgentHost {
@@ -68,6 +123,7 @@ function makeHost(): AgentHost {
     agentDbPath: () => '/tmp/agents.db',
     fileReadCacheDbPath: () => '/tmp/frc.db',
     processedImageCacheDbPath: () => '/tmp/pic.db',
+    historySearchDbPath: () => '/tmp/hs.db',
     userDataDir: noopPath,
     plansDir: noopPath,
     logsDir: noopPath,
@@ -5,7 +5,12 @@ import type { MountPermission } from '../../types/metadata';
 import type { SkillDefinition } from '../../types/skills';
 import type { AttachmentMetadata } from '../../types/metadata';
 import { makeUniversalTools } from '../toolbox';
+import type {
+  MountPermission as ToolboxMountPermission,
+  StaticMount,
+} from '../toolbox/types';
 import type { MountManager } from '../mount-manager/mount-registry';
+import type { DiffHistoryService } from '../diff-history';
 
 export interface CreateUniversalToolboxDeps {
   host: AgentHost;
@@ -17,6 +22,59 @@ export interface CreateUniversalToolboxDeps {
    * minimatch + ignore JS implementation.
    */
   rgBinaryBasePath?: string;
+  /**
+   * Optional diff history. When set, file-mutating tools record their
+   * edits (so hosts can report and undo them per tool call) and
+   * `undoToolCalls` restores files from it; otherwise undo is a no-op.
+   */
+  diffHistoryService?: DiffHistoryService | null;
+  /**
+   * Optional host-tracked permissions of a workspace mount (the core
+   * registry mounts everything read-write). Mounts without `edit`,
+   * `create` or `delete` reject the matching file-tool operations.
+   */
+  getMountPermissions?: (
+    agentInstanceId: string,
+    prefix: string,
+  ) => readonly MountPermission[] | undefined;
+}
+
+/** Maps env-level mount permissions onto the file tools' permission set. */
+function toToolboxPermissions(
+  permissions: readonly MountPermission[],
+): ToolboxMountPermission[] {
+  const result = new Set<ToolboxMountPermission>();
+  for (const p of permissions) {
+    if (p === 'read' || p === 'list') result.add('read');
+    else if (p === 'edit') result.add('write');
+    else result.add(p);
+  }
+  return [...result];
+}
+
+/**
+ * Restricted workspace mounts, expressed as static mounts so
+ * `resolveToolPath` enforces their permissions ahead of the registry's
+ * read-write default.
+ */
+function getRestrictedMounts(
+  deps: CreateUniversalToolboxDeps,
+  agentInstanceId: string,
+): StaticMount[] {
+  if (!deps.getMountPermissions) return [];
+  const mounts: StaticMount[] = [];
+  for (const prefix of deps.mountManager.getMountPrefixes(agentInstanceId) ??
+    []) {
+    const permissions = deps.getMountPermissions(agentInstanceId, prefix);
+    const absolutePath = deps.mountManager.getWorkspacePathForPrefix(prefix);
+    if (!permissions || !absolutePath) continue;
+    mounts.push({
+      prefix,
+      absolutePath,
+      permissions: toToolboxPermissions(permissions),
+    });
+  }
+  return mounts;
 }
 
 /**
@@ -51,6 +109,8 @@ export function createUniversalToolbox(
         mountManager: deps.mountManager,
         logger: deps.host.logger,
         rgBinaryBasePath: deps.rgBinaryBasePath,
+        diffHistoryService: deps.diffHistoryService,
+        staticMounts: getRestrictedMounts(deps, agentInstanceId),
       });
       const t = partial[toolName as keyof typeof partial];
       return (t ?? null) as Tool | null;
@@ -76,9 +136,14 @@ export function createUniversalToolbox(
     },
 
     async undoToolCalls(
-      _toolCallIds: string[],
-      _agentInstanceId: string,
-    ): Promise<void> {},
+      toolCallIds: string[],
+      agentInstanceId: string,
+    ): Promise<void> {
+      await deps.diffHistoryService?.undoToolCalls(
+        toolCallIds,
+        agentInstanceId,
+      );
+    },
 
     drainPendingAttachments(_agentInstanceId: string): AttachmentMetadata[] {
       return [];
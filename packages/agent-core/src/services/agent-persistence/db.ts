@@ -12,6 +12,7 @@ import {
   eq,
   sql,
   gte,
+  lt,
   or,
 } from 'drizzle-orm';
 import type { LibSQLDatabase } from 'drizzle-orm/libsql';
@@ -29,6 +30,13 @@ import {
   type AgentMessage,
 } from '../../types/agent';
 import type { ToolApprovalMode } from '../../types/tool-approval';
+import type { AgentTrigger, AgentTriggerRun } from '../../types/agent-triggers';
+import type {
+  AgentBudget,
+  AgentUsageLedgerEntry,
+  AgentUsageReport,
+  AgentUsageTotals,
+} from '../../types/agent-budgets';
 
 const rootChatFilter = and(
   isNull(schema.agentInstances.parentAgentInstanceId),
@@ -36,8 +44,81 @@ const rootChatFilter = and(
   eq(schema.agentInstances.type, AgentTypes.CHAT),
 );
 
+/** Columns of the optional `agentTriggerRuns` join on history rows. */
+const triggerRunColumns = {
+  triggerRunTriggerId: schema.agentTriggerRuns.triggerId,
+  triggerRunTriggerName: schema.agentTriggerRuns.triggerName,
+  triggerRunStartedAt: schema.agentTriggerRuns.startedAt,
+  triggerRunReason: schema.agentTriggerRuns.reason,
+};
+
+function toHistoryEntry(
+  row: Omit<AgentHistoryEntry, 'mountedWorkspaces' | 'triggerRun'> & {
+    mountedWorkspaces: unknown;
+    triggerRunTriggerId: string | null;
+    triggerRunTriggerName: string | null;
+    triggerRunStartedAt: Date | null;
+    triggerRunReason: string | null;
+  },
+): AgentHistoryEntry {
+  const {
+    triggerRunTriggerId,
+    triggerRunTriggerName,
+    triggerRunStartedAt,
+    triggerRunReason,
+    ...entry
+  } = row;
+  return {
+    ...entry,
+    mountedWorkspaces: entry.mountedWorkspaces as
+      | AgentHistoryWorkspaceEntry[]
+      | null,
+    triggerRun:
+      triggerRunTriggerId !== null
+        ? {
+            triggerId: triggerRunTriggerId,
+            triggerName: triggerRunTriggerName ?? '',
+            agentInstanceId: entry.id,
+            startedAt: triggerRunStartedAt ?? entry.createdAt,
+            reason: triggerRunReason ?? '',
+          }
+        : null,
+  };
+}
+
+function toAgentTrigger(
+  row: schema.StoredAgentTrigger,
+  lastRun: AgentTriggerRun | null,
+): AgentTrigger {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled,
+    source: row.source,
+    prompt: row.prompt,
+    skill: row.skill ?? null,
+    toolApprovalMode: row.toolApprovalMode,
+    workspacePaths: row.workspacePaths,
+    modelId: row.modelId ?? null,
+    providerInstanceId: row.providerInstanceId ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    lastRun,
+    lastError: row.lastError ?? null,
+  };
+}
+
+/** Aggregates of `agentUsageLedger` rows, see {@link AgentUsageTotals}. */
+const usageTotalsColumns = {
+  steps: sql<number>`count(*)`,
+  totalTokens: sql<number>`coalesce(sum(${schema.agentUsageLedger.totalTokens}), 0)`,
+  costUsd: sql<number>`coalesce(sum(${schema.agentUsageLedger.costUsd}), 0)`,
+  unpricedSteps: sql<number>`count(*) - count(${schema.agentUsageLedger.costUsd})`,
+};
+
 export interface AgentPersistenceDBDeps {
-  host: HostPaths;
+  /** Only the DB location is read, so bundles can open standalone copies. */
+  host: Pick<HostPaths, 'agentDbPath'>;
   logger: Logger;
 }
 
@@ -141,6 +222,10 @@ export class AgentPersistenceDB {
     return this._db;
   }
 
+  public close(): void {
+    this._dbDriver.close();
+  }
+
   public static async create(
     deps: AgentPersistenceDBDeps,
   ): Promise<AgentPersistenceDB | null> {
@@ -198,8 +283,13 @@ export class AgentPersistenceDB {
         unread: schema.agentInstances.unread,
         archivedAt: schema.agentInstances.archivedAt,
         mountedWorkspaces: schema.agentInstances.mountedWorkspaces,
+        ...triggerRunColumns,
       })
       .from(schema.agentInstances)
+      .leftJoin(
+        schema.agentTriggerRuns,
+        eq(schema.agentTriggerRuns.agentInstanceId, schema.agentInstances.id),
+      )
       // Fetch unread chats before the regular recent page so an old chat that
       // still needs attention remains available to the sidebar and switcher.
       // The UI restores chronological order before rendering its time buckets.
@@ -233,12 +323,7 @@ export class AgentPersistenceDB {
 
     this._logger.debug(`[AgentPersistenceDB] Fetched agent history entries`);
 
-    return results.map((entry) => ({
-      ...entry,
-      mountedWorkspaces: entry.mountedWorkspaces as
-        | AgentHistoryWorkspaceEntry[]
-        | null,
-    }));
+    return results.map(toHistoryEntry);
   }
 
   /**
@@ -268,8 +353,13 @@ export class AgentPersistenceDB {
         unread: schema.agentInstances.unread,
         archivedAt: schema.agentInstances.archivedAt,
         mountedWorkspaces: schema.agentInstances.mountedWorkspaces,
+        ...triggerRunColumns,
       })
       .from(schema.agentInstances)
+      .leftJoin(
+        schema.agentTriggerRuns,
+        eq(schema.agentTriggerRuns.agentInstanceId, schema.agentInstances.id),
+      )
       .where(
         and(
           inArray(schema.agentInstances.id, ids),
@@ -282,12 +372,7 @@ export class AgentPersistenceDB {
       `[AgentPersistenceDB] Fetched agent history entries by ids`,
     );
 
-    const normalizedResults: AgentHistoryEntry[] = results.map((entry) => ({
-      ...entry,
-      mountedWorkspaces: entry.mountedWorkspaces as
-        | AgentHistoryWorkspaceEntry[]
-        | null,
-    }));
+    const normalizedResults: AgentHistoryEntry[] = results.map(toHistoryEntry);
 
     const resultById = new Map(
       normalizedResults.map((entry) => [entry.id, entry]),
@@ -699,6 +784,18 @@ export class AgentPersistenceDB {
     return rows.map((row) => row.id);
   }
 
+  /** Returns the subset of `ids` that still have a persisted agent row. */
+  public async getExistingAgentInstanceIds(
+    ids: string[],
+  ): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const rows = await this._db
+      .select({ id: schema.agentInstances.id })
+      .from(schema.agentInstances)
+      .where(inArray(schema.agentInstances.id, ids));
+    return new Set(rows.map((row) => row.id));
+  }
+
   public async deleteAgentInstance(id: string): Promise<void> {
     this._logger.debug(`[AgentPersistenceDB] Deleting agent instance: ${id}`);
     // Recursively delete all persisted child agents
@@ -714,12 +811,261 @@ export class AgentPersistenceDB {
       await tx
         .delete(schema.agentInstances)
         .where(eq(schema.agentInstances.id, id));
+      await tx
+        .delete(schema.agentTriggerRuns)
+        .where(eq(schema.agentTriggerRuns.agentInstanceId, id));
     });
 
     // Clean up dirty-tracking state
     this._lastPersistedIds.delete(id);
   }
 
+  /** Returns all trigger definitions with their most recent run. */
+  public async listAgentTriggers(): Promise<AgentTrigger[]> {
+    const rows = await this._db
+      .select()
+      .from(schema.agentTriggers)
+      .orderBy(asc(schema.agentTriggers.createdAt));
+    const lastRuns = await this._db
+      .select()
+      .from(schema.agentTriggerRuns)
+      .where(
+        sql`${schema.agentTriggerRuns.startedAt} = (SELECT MAX(started_at) FROM agentTriggerRuns AS latest WHERE latest.trigger_id = ${schema.agentTriggerRuns.triggerId})`,
+      );
+    const lastRunByTriggerId = new Map(
+      lastRuns.map((run) => [run.triggerId, run]),
+    );
+    return rows.map((row) =>
+      toAgentTrigger(row, lastRunByTriggerId.get(row.id) ?? null),
+    );
+  }
+
+  public async getAgentTrigger(id: string): Promise<AgentTrigger | null> {
+    const [row] = await this._db
+      .select()
+      .from(schema.agentTriggers)
+      .where(eq(schema.agentTriggers.id, id))
+      .limit(1);
+    if (!row) return null;
+    const [lastRun] = await this._db
+      .select()
+      .from(schema.agentTriggerRuns)
+      .where(eq(schema.agentTriggerRuns.triggerId, id))
+      .orderBy(desc(schema.agentTriggerRuns.startedAt))
+      .limit(1);
+    return toAgentTrigger(row, lastRun ?? null);
+  }
+
+  /** Inserts or replaces a trigger definition; run history is kept. */
+  public async storeAgentTrigger(
+    trigger: Omit<AgentTrigger, 'lastRun'>,
+  ): Promise<void> {
+    this._logger.debug(
+      `[AgentPersistenceDB] Storing agent trigger: ${trigger.id}`,
+    );
+    await this._db
+      .insert(schema.agentTriggers)
+      .values(trigger)
+      .onConflictDoUpdate({
+        target: schema.agentTriggers.id,
+        set: { ...trigger },
+      });
+  }
+
+  /**
+   * Deletes a trigger definition. Chats it started keep their run row
+   * so the agents list can still show where they came from.
+   *
+   * @returns true if a row was deleted.
+   */
+  public async deleteAgentTrigger(id: string): Promise<boolean> {
+    this._logger.debug(`[AgentPersistenceDB] Deleting agent trigger: ${id}`);
+    const result = await this._db
+      .delete(schema.agentTriggers)
+      .where(eq(schema.agentTriggers.id, id));
+    return (result as unknown as { rowsAffected: number }).rowsAffected > 0;
+  }
+
+  public async setAgentTriggerError(
+    id: string,
+    lastError: string | null,
+  ): Promise<void> {
+    await this._db
+      .update(schema.agentTriggers)
+      .set({ lastError })
+      .where(eq(schema.agentTriggers.id, id));
+  }
+
+  public async recordAgentTriggerRun(run: AgentTriggerRun): Promise<void> {
+    this._logger.debug(
+      `[AgentPersistenceDB] Recording run of trigger ${run.triggerId}: ${run.agentInstanceId}`,
+    );
+    await this._db.insert(schema.agentTriggerRuns).values(run);
+  }
+
+  public async listAgentBudgets(): Promise<AgentBudget[]> {
+    return await this._db
+      .select()
+      .from(schema.agentBudgets)
+      .orderBy(asc(schema.agentBudgets.createdAt));
+  }
+
+  public async getAgentBudget(id: string): Promise<AgentBudget | null> {
+    const [row] = await this._db
+      .select()
+      .from(schema.agentBudgets)
+      .where(eq(schema.agentBudgets.id, id))
+      .limit(1);
+    return row ?? null;
+  }
+
+  /** Inserts or replaces a budget definition; extensions are kept. */
+  public async storeAgentBudget(budget: AgentBudget): Promise<void> {
+    this._logger.debug(
+      `[AgentPersistenceDB] Storing agent budget: ${budget.id}`,
+    );
+    await this._db
+      .insert(schema.agentBudgets)
+      .values(budget)
+      .onConflictDoUpdate({
+        target: schema.agentBudgets.id,
+        set: { ...budget },
+      });
+  }
+
+  /**
+   * Deletes a budget definition and its extensions.
+   *
+   * @returns true if a row was deleted.
+   */
+  public async deleteAgentBudget(id: string): Promise<boolean> {
+    this._logger.debug(`[AgentPersistenceDB] Deleting agent budget: ${id}`);
+    await this._db
+      .delete(schema.agentBudgetExtensions)
+      .where(eq(schema.agentBudgetExtensions.budgetId, id));
+    const result = await this._db
+      .delete(schema.agentBudgets)
+      .where(eq(schema.agentBudgets.id, id));
+    return (result as unknown as { rowsAffected: number }).rowsAffected > 0;
+  }
+
+  public async addAgentBudgetExtension(extension: {
+    budgetId: string;
+    windowKey: string;
+    amount: number;
+    createdAt: Date;
+  }): Promise<void> {
+    await this._db.insert(schema.agentBudgetExtensions).values(extension);
+  }
+
+  /** Sum of the extensions granted to a budget for one window. */
+  public async getAgentBudgetExtensionTotal(
+    budgetId: string,
+    windowKey: string,
+  ): Promise<number> {
+    const [row] = await this._db
+      .select({
+        amount: sql<number>`coalesce(sum(${schema.agentBudgetExtensions.amount}), 0)`,
+      })
+      .from(schema.agentBudgetExtensions)
+      .where(
+        and(
+          eq(schema.agentBudgetExtensions.budgetId, budgetId),
+          eq(schema.agentBudgetExtensions.windowKey, windowKey),
+        ),
+      );
+    return row?.amount ?? 0;
+  }
+
+  public async recordAgentUsage(entry: AgentUsageLedgerEntry): Promise<void> {
+    await this._db.insert(schema.agentUsageLedger).values(entry);
+  }
+
+  /**
+   * Sums the usage ledger. Filters combine: `agentInstanceId` keeps the
+   * steps of one agent, `since` the steps finished at or after it and
+   * `workspacePath` the steps that had the workspace mounted.
+   */
+  public async sumAgentUsage(filter: {
+    agentInstanceId?: string;
+    since?: Date;
+    workspacePath?: string;
+  }): Promise<AgentUsageTotals> {
+    const ledger = schema.agentUsageLedger;
+    const [row] = await this._db
+      .select(usageTotalsColumns)
+      .from(ledger)
+      .where(
+        and(
+          filter.agentInstanceId !== undefined
+            ? eq(ledger.agentInstanceId, filter.agentInstanceId)
+            : undefined,
+          filter.since !== undefined
+            ? gte(ledger.createdAt, filter.since)
+            : undefined,
+          filter.workspacePath !== undefined
+            ? sql`EXISTS (SELECT 1 FROM json_each(${ledger.workspacePaths}) WHERE json_each.value = ${filter.workspacePath})`
+            : undefined,
+        ),
+      );
+    return row ?? { steps: 0, totalTokens: 0, costUsd: 0, unpricedSteps: 0 };
+  }
+
+  /** Ledger totals of steps finished in `[from, to)`. */
+  public async getAgentUsageReport(
+    from: Date,
+    to: Date,
+  ): Promise<AgentUsageReport> {
+    const ledger = schema.agentUsageLedger;
+    const inRange = and(gte(ledger.createdAt, from), lt(ledger.createdAt, to));
+    const day = sql<string>`date(${ledger.createdAt}, 'unixepoch', 'localtime')`;
+
+    const [totals] = await this._db
+      .select(usageTotalsColumns)
+      .from(ledger)
+      .where(inRange);
+    const days = await this._db
+      .select({ day, ...usageTotalsColumns })
+      .from(ledger)
+      .where(inRange)
+      .groupBy(day)
+      .orderBy(asc(day));
+    const agents = await this._db
+      .select({
+        agentInstanceId: ledger.agentInstanceId,
+        title: schema.agentInstances.title,
+        ...usageTotalsColumns,
+      })
+      .from(ledger)
+      .leftJoin(
+        schema.agentInstances,
+        eq(schema.agentInstances.id, ledger.agentInstanceId),
+      )
+      .where(inRange)
+      .groupBy(ledger.agentInstanceId)
+      .orderBy(desc(usageTotalsColumns.totalTokens));
+    const models = await this._db
+      .select({ modelId: ledger.modelId, ...usageTotalsColumns })
+      .from(ledger)
+      .where(inRange)
+      .groupBy(ledger.modelId)
+      .orderBy(desc(usageTotalsColumns.totalTokens));
+
+    return {
+      from,
+      to,
+      totals: totals ?? {
+        steps: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        unpricedSteps: 0,
+      },
+      days,
+      agents,
+      models,
+    };
+  }
+
   /**
    * Returns the earliest `createdAt` among all agent instances, or null if
    * no agents exist. Used to backfill `firstUsedAt` for existing users who
@@ -12,6 +12,8 @@ import { up as v011Up } from './v011-add-side-chats';
 import { up as v012Up } from './v012-add-marked-unread';
 import { up as v013Up } from './v013-rename-marked-unread';
 import { up as v014Up } from './v014-add-agent-archiving';
+import { up as v015Up } from './v015-add-agent-triggers';
+import { up as v016Up } from './v016-add-agent-budgets';
 
 const registry: MigrationScript[] = [
   { version: 2, name: 'add-mounted-workspaces', up: v002Up },
@@ -27,7 +29,9 @@ const registry: MigrationScript[] = [
   { version: 12, name: 'add-marked-unread', up: v012Up },
   { version: 13, name: 'rename-marked-unread', up: v013Up },
   { version: 14, name: 'add-agent-archiving', up: v014Up },
+  { version: 15, name: 'add-agent-triggers', up: v015Up },
+  { version: 16, name: 'add-agent-budgets', up: v016Up },
 ];
-const schemaVersion = 14;
+const schemaVersion = 16;
 
 export { registry, schemaVersion };
@@ -0,0 +1,36 @@
+import { sql } from 'drizzle-orm';
+import type { MigrationScript } from '@stagewise/agent-core/migrate-database';
+
+/** Persist agent trigger definitions and the chats they started. */
+export const up: MigrationScript['up'] = async (db) => {
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS agentTriggers (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      source TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      skill TEXT,
+      tool_approval_mode TEXT NOT NULL DEFAULT 'alwaysAsk',
+      workspace_paths TEXT NOT NULL,
+      model_id TEXT,
+      provider_instance_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      last_error TEXT
+    )
+  `);
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS agentTriggerRuns (
+      agent_instance_id TEXT PRIMARY KEY,
+      trigger_id TEXT NOT NULL,
+      trigger_name TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      reason TEXT NOT NULL
+    )
+  `);
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS agent_trigger_runs_trigger_id_index
+    ON agentTriggerRuns(trigger_id, started_at)
+  `);
+};
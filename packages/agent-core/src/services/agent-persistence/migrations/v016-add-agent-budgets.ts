@@ -0,0 +1,55 @@
+import { sql } from 'drizzle-orm';
+import type { MigrationScript } from '@stagewise/agent-core/migrate-database';
+
+/** Persist usage budgets, their extensions and the per-step usage ledger. */
+export const up: MigrationScript['up'] = async (db) => {
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS agentBudgets (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      unit TEXT NOT NULL,
+      limit_amount REAL NOT NULL,
+      workspace_path TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS agentBudgetExtensions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      budget_id TEXT NOT NULL,
+      window_key TEXT NOT NULL,
+      amount REAL NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS agent_budget_extensions_window_index
+    ON agentBudgetExtensions(budget_id, window_key)
+  `);
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS agentUsageLedger (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_instance_id TEXT NOT NULL,
+      model_id TEXT NOT NULL,
+      provider_instance_id TEXT,
+      workspace_paths TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      cache_read_tokens INTEGER NOT NULL,
+      cache_write_tokens INTEGER NOT NULL,
+      total_tokens INTEGER NOT NULL,
+      cost_usd REAL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS agent_usage_ledger_agent_id_index
+    ON agentUsageLedger(agent_instance_id)
+  `);
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS agent_usage_ledger_created_at_index
+    ON agentUsageLedger(created_at)
+  `);
+};
@@ -1,4 +1,4 @@
--- VERSION: 14
+-- VERSION: 16
 
 CREATE TABLE IF NOT EXISTS meta(
   key LONGVARCHAR NOT NULL UNIQUE PRIMARY KEY,
@@ -41,3 +41,68 @@ CREATE TABLE IF NOT EXISTS agentMessages(
 );
 
 CREATE INDEX IF NOT EXISTS agent_messages_agent_id_index ON agentMessages(agent_instance_id);
+
+CREATE TABLE IF NOT EXISTS agentTriggers(
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  source TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  skill TEXT,
+  tool_approval_mode TEXT NOT NULL DEFAULT 'alwaysAsk',
+  workspace_paths TEXT NOT NULL,
+  model_id TEXT,
+  provider_instance_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  last_error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS agentTriggerRuns(
+  agent_instance_id TEXT PRIMARY KEY,
+  trigger_id TEXT NOT NULL,
+  trigger_name TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  reason TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS agent_trigger_runs_trigger_id_index ON agentTriggerRuns(trigger_id, started_at);
+
+CREATE TABLE IF NOT EXISTS agentBudgets(
+  id TEXT PRIMARY KEY,
+  scope TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  limit_amount REAL NOT NULL,
+  workspace_path TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS agentBudgetExtensions(
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  budget_id TEXT NOT NULL,
+  window_key TEXT NOT NULL,
+  amount REAL NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS agent_budget_extensions_window_index ON agentBudgetExtensions(budget_id, window_key);
+
+CREATE TABLE IF NOT EXISTS agentUsageLedger(
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent_instance_id TEXT NOT NULL,
+  model_id TEXT NOT NULL,
+  provider_instance_id TEXT,
+  workspace_paths TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  cache_read_tokens INTEGER NOT NULL,
+  cache_write_tokens INTEGER NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  cost_usd REAL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS agent_usage_ledger_agent_id_index ON agentUsageLedger(agent_instance_id);
+CREATE INDEX IF NOT EXISTS agent_usage_ledger_created_at_index ON agentUsageLedger(created_at);
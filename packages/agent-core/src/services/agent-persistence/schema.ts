@@ -5,11 +5,17 @@ import {
   index,
   primaryKey,
   customType,
+  real,
 } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 import superjson from 'superjson';
 import { metaTable } from '../../migrate-database';
 import type { AgentTypes } from '../../types/agent';
+import type {
+  AgentBudgetScope,
+  AgentBudgetUnit,
+} from '../../types/agent-budgets';
+import type { AgentTriggerSource } from '../../types/agent-triggers';
 import type { MountPermission } from '../../types/metadata';
 import {
   DEFAULT_TOOL_APPROVAL_MODE,
@@ -168,5 +174,100 @@ const _agentInstanceRelations = relations(agentInstances, ({ one, many }) => ({
   messages: many(agentMessages),
 }));
 
+export const agentTriggers = sqliteTable('agentTriggers', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  enabled: _sqliteBoolean('enabled').notNull().default(true),
+  source: _sqliteJson('source').notNull().$type<AgentTriggerSource>(),
+  prompt: text('prompt').notNull(),
+  skill: _sqliteJson('skill').$type<{ id: string; name: string } | null>(),
+  toolApprovalMode: toolApprovalMode('tool_approval_mode')
+    .notNull()
+    .$defaultFn(() => DEFAULT_TOOL_APPROVAL_MODE),
+  workspacePaths: _sqliteJson('workspace_paths').notNull().$type<string[]>(),
+  modelId: modelId('model_id'),
+  providerInstanceId: text('provider_instance_id'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  lastError: text('last_error'),
+});
+
+/** One row per chat started by a trigger; survives trigger deletion. */
+export const agentTriggerRuns = sqliteTable(
+  'agentTriggerRuns',
+  {
+    agentInstanceId: text('agent_instance_id').primaryKey(),
+    triggerId: text('trigger_id').notNull(),
+    triggerName: text('trigger_name').notNull(),
+    startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+    reason: text('reason').notNull(),
+  },
+  (table) => [
+    index('agent_trigger_runs_trigger_id_index').on(
+      table.triggerId,
+      table.startedAt,
+    ),
+  ],
+);
+
+export const agentBudgets = sqliteTable('agentBudgets', {
+  id: text('id').primaryKey(),
+  scope: text('scope').notNull().$type<AgentBudgetScope>(),
+  unit: text('unit').notNull().$type<AgentBudgetUnit>(),
+  limit: real('limit_amount').notNull(),
+  workspacePath: text('workspace_path'),
+  enabled: _sqliteBoolean('enabled').notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+/** Amounts added to a budget for a single window (agent or day). */
+export const agentBudgetExtensions = sqliteTable(
+  'agentBudgetExtensions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    budgetId: text('budget_id').notNull(),
+    windowKey: text('window_key').notNull(),
+    amount: real('amount').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('agent_budget_extensions_window_index').on(
+      table.budgetId,
+      table.windowKey,
+    ),
+  ],
+);
+
+/**
+ * One row per finished agent step; kept when the agent is deleted so
+ * reports and daily budgets still see the spend.
+ */
+export const agentUsageLedger = sqliteTable(
+  'agentUsageLedger',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    agentInstanceId: text('agent_instance_id').notNull(),
+    modelId: modelId('model_id').notNull(),
+    providerInstanceId: text('provider_instance_id'),
+    // Plain JSON (not superjson) so workspace budgets can use `json_each`.
+    workspacePaths: text('workspace_paths', { mode: 'json' })
+      .notNull()
+      .$type<string[]>(),
+    inputTokens: integer('input_tokens').notNull(),
+    outputTokens: integer('output_tokens').notNull(),
+    cacheReadTokens: integer('cache_read_tokens').notNull(),
+    cacheWriteTokens: integer('cache_write_tokens').notNull(),
+    totalTokens: integer('total_tokens').notNull(),
+    costUsd: real('cost_usd'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('agent_usage_ledger_agent_id_index').on(table.agentInstanceId),
+    index('agent_usage_ledger_created_at_index').on(table.createdAt),
+  ],
+);
+
 export type NewStoredAgentInstance = typeof agentInstances.$inferInsert;
 export type StoredAgentInstance = typeof agentInstances.$inferSelect;
+export type StoredAgentTrigger = typeof agentTriggers.$inferSelect;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { nextCronOccurrence, parseCronExpression } from './cron';
+
+function next(expression: string, after: Date): Date | null {
+  return nextCronOccurrence(parseCronExpression(expression), after);
+}
+
+describe('cron schedules', () => {
+  it('finds the next matching minute in local time', () => {
+    const after = new Date(2026, 2, 4, 8, 59, 30);
+
+    expect(next('0 9 * * *', after)).toEqual(new Date(2026, 2, 4, 9, 0));
+    expect(next('*/15 * * * *', after)).toEqual(new Date(2026, 2, 4, 9, 0));
+    expect(next('5/20 8 * * *', after)).toEqual(new Date(2026, 2, 5, 8, 5));
+    expect(next('@hourly', new Date(2026, 2, 4, 9, 0))).toEqual(
+      new Date(2026, 2, 4, 10, 0),
+    );
+  });
+
+  it('supports names, lists, ranges and Sunday as 7', () => {
+    // 2026-03-07 is a Saturday.
+    const saturday = new Date(2026, 2, 7, 12, 0);
+
+    expect(next('30 9 * * mon-fri', saturday)).toEqual(
+      new Date(2026, 2, 9, 9, 30),
+    );
+    expect(next('0 0 * * 7', saturday)).toEqual(new Date(2026, 2, 8, 0, 0));
+    expect(next('0 12 1,15 jun *', saturday)).toEqual(
+      new Date(2026, 5, 1, 12, 0),
+    );
+  });
+
+  it('ors day of month and weekday when both are restricted', () => {
+    // 2026-03-07 is a Saturday; the 10th comes after the next Monday.
+    expect(next('0 0 10 * mon', new Date(2026, 2, 7))).toEqual(
+      new Date(2026, 2, 9, 0, 0),
+    );
+    expect(next('0 0 29 2 *', new Date(2026, 2, 1))).toEqual(
+      new Date(2028, 1, 29, 0, 0),
+    );
+    expect(next('0 0 31 2 *', new Date(2026, 2, 1))).toBeNull();
+  });
+
+  it('rejects malformed expressions with the offending field', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(/expected 5 fields/);
+    expect(() => parseCronExpression('60 * * * *')).toThrow(
+      /minute 60 is outside 0-59/,
+    );
+    expect(() => parseCronExpression('* * * foo *')).toThrow(/month "foo"/);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(/step/);
+    expect(() => parseCronExpression('* 5-1 * * *')).toThrow(/reversed/);
+  });
+});
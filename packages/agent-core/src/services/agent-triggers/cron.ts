@@ -0,0 +1,213 @@
+/**
+ * Minimal 5-field cron support for scheduled agent triggers.
+ *
+ * Supports `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`,
+ * `5/20`), lists (`1,3,5`), month and weekday names (`jan`, `mon`), `7`
+ * as Sunday and the `@hourly` … `@yearly` macros. Like Vixie cron,
+ * day-of-month and weekday are ORed when both are restricted.
+ * Occurrences are computed in the process' local time.
+ */
+
+export type CronSchedule = {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+};
+
+const MINUTE: CronField = { name: 'minute', min: 0, max: 59 };
+const HOUR: CronField = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: CronField = { name: 'day of month', min: 1, max: 31 };
+const MONTH: CronField = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  // Index 0 is unused so that `jan` maps to 1.
+  names: [
+    '',
+    'jan',
+    'feb',
+    'mar',
+    'apr',
+    'may',
+    'jun',
+    'jul',
+    'aug',
+    'sep',
+    'oct',
+    'nov',
+    'dec',
+  ],
+};
+const DAY_OF_WEEK: CronField = {
+  name: 'day of week',
+  min: 0,
+  max: 7,
+  names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Upper bound of the occurrence search; covers leap-day schedules. */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+/**
+ * Parses a cron expression.
+ *
+ * @throws Error naming the offending field when the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase();
+  const expanded = MACROS[trimmed] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday), got ${fields.length}`,
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+  try {
+    const daysOfWeek = new Set(
+      [...parseField(dayOfWeek, DAY_OF_WEEK)].map((day) => day % 7),
+    );
+    return {
+      minutes: parseField(minute, MINUTE),
+      hours: parseField(hour, HOUR),
+      daysOfMonth: parseField(dayOfMonth, DAY_OF_MONTH),
+      months: parseField(month, MONTH),
+      daysOfWeek,
+      dayOfMonthRestricted: !dayOfMonth.startsWith('*'),
+      dayOfWeekRestricted: !dayOfWeek.startsWith('*'),
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Returns the first minute strictly after `after` that matches the
+ * schedule, or `null` when none exists (e.g. `0 0 31 2 *`).
+ */
+export function nextCronOccurrence(
+  schedule: CronSchedule,
+  after: Date,
+): Date | null {
+  const start = new Date(after.getTime());
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (matchesDay(schedule, day)) {
+      const isStartDay = i === 0;
+      for (let hour = isStartDay ? start.getHours() : 0; hour < 24; hour++) {
+        if (!schedule.hours.has(hour)) continue;
+        const firstMinute =
+          isStartDay && hour === start.getHours() ? start.getMinutes() : 0;
+        for (let minute = firstMinute; minute < 60; minute++) {
+          if (!schedule.minutes.has(minute)) continue;
+          const candidate = new Date(
+            day.getFullYear(),
+            day.getMonth(),
+            day.getDate(),
+            hour,
+            minute,
+          );
+          // Skips wall-clock times that a DST change maps back in time.
+          if (candidate.getTime() > after.getTime()) return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return null;
+}
+
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getMonth() + 1)) return false;
+  const dayOfMonth = schedule.daysOfMonth.has(day.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(day.getDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (!range || rest.length > 0) {
+      throw new Error(`malformed ${field.name} "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : parseNumber(stepText, field);
+    if (step < 1) throw new Error(`${field.name} step must be at least 1`);
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = field.min;
+      high = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (from === undefined || to === undefined || extra.length > 0) {
+        throw new Error(`malformed ${field.name} range "${range}"`);
+      }
+      low = parseValue(from, field);
+      high = parseValue(to, field);
+    } else {
+      low = parseValue(range, field);
+      // `5/20` means "from 5 on, every 20".
+      high = stepText === undefined ? low : field.max;
+    }
+    if (low > high) {
+      throw new Error(`${field.name} range "${range}" is reversed`);
+    }
+    for (let value = low; value <= high; value += step) values.add(value);
+  }
+  return values;
+}
+
+function parseValue(text: string, field: CronField): number {
+  const nameIndex = text ? (field.names?.indexOf(text) ?? -1) : -1;
+  const parsed = nameIndex >= 0 ? nameIndex : parseNumber(text, field);
+  if (parsed < field.min || parsed > field.max) {
+    throw new Error(
+      `${field.name} ${text} is outside ${field.min}-${field.max}`,
+    );
+  }
+  return parsed;
+}
+
+function parseNumber(text: string, field: CronField): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`unexpected ${field.name} "${text}"`);
+  }
+  return Number.parseInt(text, 10);
+}
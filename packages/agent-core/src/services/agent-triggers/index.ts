@@ -0,0 +1,11 @@
+export {
+  AgentTriggerService,
+  buildTriggerRunPrompt,
+  type AgentTriggerFiring,
+  type AgentTriggerServiceDeps,
+} from './service';
+export {
+  nextCronOccurrence,
+  parseCronExpression,
+  type CronSchedule,
+} from './cron';
@@ -0,0 +1,236 @@
+import { appendFile, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTestHostPaths } from '../../host/test-utils';
+import { AgentTypes } from '../../types/agent';
+import type { AgentTrigger } from '../../types/agent-triggers';
+import { AgentPersistenceDB } from '../agent-persistence/db';
+import {
+  AgentTriggerService,
+  type AgentTriggerFiring,
+  buildTriggerRunPrompt,
+} from './service';
+
+const logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+} as any;
+
+let root: string | undefined;
+let service: AgentTriggerService | undefined;
+let db: AgentPersistenceDB | undefined;
+
+afterEach(async () => {
+  await service?.teardown();
+  db?.close();
+  if (root) await rm(root, { recursive: true, force: true });
+  root = undefined;
+  service = undefined;
+  db = undefined;
+});
+
+async function setup(options: { working?: Set<string> } = {}) {
+  root = await mkdtemp(path.join(os.tmpdir(), 'agent-triggers-'));
+  const logsDir = path.join(root, 'logs');
+  await mkdir(logsDir, { recursive: true });
+  const paths = createTestHostPaths({
+    agentDbPath: () => path.join(root!, 'agents.sqlite'),
+  });
+  db = (await AgentPersistenceDB.create({ host: paths, logger }))!;
+  const runs: Array<{ trigger: AgentTrigger; firing: AgentTriggerFiring }> = [];
+  const working = options.working ?? new Set<string>();
+  service = new AgentTriggerService({
+    persistenceDb: db,
+    logger,
+    logsDir: () => logsDir,
+    startRun: async (trigger, firing) => {
+      runs.push({ trigger, firing });
+      return `run-${runs.length}`;
+    },
+    isRunActive: (agentInstanceId) => working.has(agentInstanceId),
+  });
+  return { db, service, runs, logsDir, root };
+}
+
+describe('AgentTriggerService', () => {
+  it('persists triggers with defaults and rejects invalid definitions', async () => {
+    const { service } = await setup();
+
+    const saved = await service.save({
+      name: 'Morning audit',
+      source: { kind: 'schedule', cron: '0 9 * * 1-5' },
+      skill: { id: 'builtin:dependency-audit', name: 'dependency-audit' },
+      workspacePaths: ['/work/w1'],
+    });
+
+    expect(saved).toMatchObject({
+      name: 'Morning audit',
+      enabled: true,
+      prompt: '',
+      toolApprovalMode: 'alwaysAsk',
+      workspacePaths: ['/work/w1'],
+      modelId: null,
+      lastRun: null,
+      lastError: null,
+    });
+    expect(await service.list()).toEqual([saved]);
+
+    await expect(
+      service.save({
+        name: 'Broken',
+        prompt: 'x',
+        source: { kind: 'schedule', cron: '61 * * * *' },
+      }),
+    ).rejects.toThrow(/minute 61/);
+    await expect(
+      service.save({
+        name: 'Empty',
+        source: { kind: 'schedule', cron: '@daily' },
+      }),
+    ).rejects.toThrow(/prompt or a skill/);
+    await expect(
+      service.save({
+        name: 'Relative',
+        prompt: 'x',
+        source: { kind: 'fileWatch', paths: ['src'] },
+      }),
+    ).rejects.toThrow(/absolute/);
+    await expect(
+      service.save(
+        { name: 'Missing', prompt: 'x', source: saved.source },
+        'nope',
+      ),
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('records runs and reports them on the agents list', async () => {
+    const { db, service, runs } = await setup();
+    const trigger = await service.save({
+      name: 'CI failures',
+      prompt: 'Investigate',
+      enabled: false,
+      source: { kind: 'logChannel', channel: 'ci' },
+    });
+
+    const agentId = await service.runNow(trigger.id);
+    await db.storeAgentInstance(
+      {
+        id: agentId,
+        type: AgentTypes.CHAT,
+        title: 'Investigate CI',
+        createdAt: new Date('2026-03-04T05:06:07Z'),
+        lastMessageAt: new Date('2026-03-04T05:06:07Z'),
+        activeModelId: 'model',
+        queuedMessages: [],
+        inputState: '',
+        usedTokens: 0,
+      },
+      [],
+    );
+
+    expect(runs.map((run) => run.firing.reason)).toEqual(['Started manually']);
+    const [listed] = await service.list();
+    expect(listed?.lastRun).toMatchObject({
+      agentInstanceId: agentId,
+      triggerName: 'CI failures',
+      reason: 'Started manually',
+    });
+    const [entry] = await db.getAgentHistoryEntries(10, 0, []);
+    expect(entry?.triggerRun).toMatchObject({
+      triggerId: trigger.id,
+      triggerName: 'CI failures',
+    });
+
+    await service.remove(trigger.id);
+    expect(await service.list()).toEqual([]);
+    const [kept] = await db.getAgentHistoryEntriesByIds([agentId]);
+    expect(kept?.triggerRun?.triggerName).toBe('CI failures');
+  });
+
+  it('starts a run for new matching log entries only', async () => {
+    const { service, runs, logsDir } = await setup();
+    const channel = path.join(logsDir, 'ci.jsonl');
+    await writeFile(
+      channel,
+      `${JSON.stringify({ ts: 1, level: 'error', data: 'old failure' })}\n`,
+    );
+    await service.save({
+      name: 'CI failures',
+      prompt: 'Investigate',
+      source: { kind: 'logChannel', channel: 'ci', match: 'build' },
+    });
+    // Let the initial read record the current end of the channel.
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    await appendFile(
+      channel,
+      [
+        { ts: 2, level: 'info', data: 'build started' },
+        { ts: 3, level: 'error', data: 'lint failed' },
+        { ts: 4, level: 'error', data: { step: 'build', code: 1 } },
+      ]
+        .map((entry) => `${JSON.stringify(entry)}\n`)
+        .join(''),
+    );
+
+    await vi.waitFor(() => expect(runs).toHaveLength(1), { timeout: 10_000 });
+    expect(runs[0]?.firing).toEqual({
+      reason: '1 error entry in log channel ci',
+      details: {
+        channel: 'ci',
+        entries: [{ ts: 4, level: 'error', data: { step: 'build', code: 1 } }],
+      },
+    });
+  });
+
+  it('batches file changes and skips while the previous run is working', async () => {
+    const working = new Set<string>();
+    const { service, runs, root } = await setup({ working });
+    const watched = path.join(root, 'workspace');
+    await mkdir(watched, { recursive: true });
+    await service.save({
+      name: 'On change',
+      prompt: 'Review the change',
+      source: { kind: 'fileWatch', paths: [watched], debounceMs: 200 },
+    });
+    // chokidar needs a moment to attach before events are delivered.
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    await writeFile(path.join(watched, 'a.ts'), 'a');
+    await writeFile(path.join(watched, 'b.ts'), 'b');
+    await vi.waitFor(() => expect(runs).toHaveLength(1), { timeout: 10_000 });
+    expect(
+      (runs[0]?.firing.details as { changedFiles: string[] }).changedFiles,
+    ).toEqual(
+      expect.arrayContaining([
+        `add ${path.join(watched, 'a.ts')}`,
+        `add ${path.join(watched, 'b.ts')}`,
+      ]),
+    );
+
+    working.add('run-1');
+    await writeFile(path.join(watched, 'c.ts'), 'c');
+    await new Promise((resolve) => setTimeout(resolve, 1_000));
+    expect(runs).toHaveLength(1);
+  });
+});
+
+describe('buildTriggerRunPrompt', () => {
+  it('invokes the skill and passes event details as data', () => {
+    const text = buildTriggerRunPrompt(
+      {
+        name: 'Audit',
+        prompt: ' on workspace w1 ',
+        skill: { id: 'builtin:audit', name: 'audit' },
+      },
+      { reason: 'Schedule @daily', details: { changedFiles: ['x'] } },
+    );
+
+    expect(text).toContain('[audit](slash:builtin:audit) on workspace w1');
+    expect(text).toContain('started by the trigger "Audit" (Schedule @daily)');
+    expect(text).toContain('"changedFiles"');
+  });
+});
@@ -9,6 +9,7 @@ import {
   createReadStream,
   mkdir,
   readFile,
+  readdir,
   rename,
   rm,
   unlink,
@@ -89,6 +90,17 @@ export class AttachmentsService {
     return createReadStream(filePath);
   }
 
+  /** Attachment ids stored for an agent, excluding in-flight temp files. */
+  public async listAgentBlobs(agentId: string): Promise<string[]> {
+    try {
+      const entries = await readdir(this.paths.agentAttachmentsDir(agentId));
+      return entries.filter((entry) => !entry.startsWith('tmp-'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
   public async deleteAgentBlobs(agentId: string): Promise<void> {
     const dir = this.paths.agentAttachmentsDir(agentId);
     await rm(dir, { recursive: true, force: true });
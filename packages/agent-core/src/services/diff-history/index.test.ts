@@ -9,42 +9,51 @@ import {
 import { AgentStore, createInitialAgentSystemState } from '../../store';
 import { DiffHistoryService } from './index';
 
-describe('DiffHistoryService finalization', () => {
-  let root: string | undefined;
-  let service: DiffHistoryService | undefined;
-
-  afterEach(async () => {
-    await service?.teardown();
-    service = undefined;
-    if (root) await rm(root, { recursive: true, force: true });
-    root = undefined;
+let root: string | undefined;
+let service: DiffHistoryService | undefined;
+
+afterEach(async () => {
+  await service?.teardown();
+  service = undefined;
+  if (root) await rm(root, { recursive: true, force: true });
+  root = undefined;
+});
+
+async function createService(): Promise<{
+  service: DiffHistoryService;
+  workspace: string;
+  filePath: string;
+}> {
+  const testRoot = await mkdtemp(
+    path.join(os.tmpdir(), 'diff-history-service-'),
+  );
+  root = testRoot;
+  const at = (...parts: string[]) => path.join(testRoot, ...parts);
+  const workspace = path.join(testRoot, 'workspace');
+  const filePath = path.join(workspace, 'example.txt');
+  const paths = createTestHostPaths({
+    diffHistoryDbPath: () => at('diff-history', 'data.sqlite'),
+    diffHistoryBlobsDir: () => at('diff-history', 'blobs'),
+    agentAppsDir: (agentId) => at('agents', agentId, 'apps'),
+    plansDir: () => at('plans'),
+    logsDir: () => at('logs'),
   });
+  await Promise.all([
+    mkdir(workspace, { recursive: true }),
+    mkdir(paths.diffHistoryBlobsDir(), { recursive: true }),
+  ]);
 
-  it('can undo a tool edit after its pending edits were finalized', async () => {
-    const testRoot = await mkdtemp(
-      path.join(os.tmpdir(), 'diff-history-service-'),
-    );
-    root = testRoot;
-    const at = (...parts: string[]) => path.join(testRoot, ...parts);
-    const workspace = path.join(testRoot, 'workspace');
-    const filePath = path.join(workspace, 'example.txt');
-    const paths = createTestHostPaths({
-      diffHistoryDbPath: () => at('diff-history', 'data.sqlite'),
-      diffHistoryBlobsDir: () => at('diff-history', 'blobs'),
-      agentAppsDir: (agentId) => at('agents', agentId, 'apps'),
-      plansDir: () => at('plans'),
-      logsDir: () => at('logs'),
-    });
-    await Promise.all([
-      mkdir(workspace, { recursive: true }),
-      mkdir(paths.diffHistoryBlobsDir(), { recursive: true }),
-    ]);
+  service = await DiffHistoryService.create({
+    host: createTestAgentHost({ paths }),
+    store: new AgentStore(createInitialAgentSystemState()),
+    mountPathsResolver: () => new Set([workspace]),
+  });
+  return { service, workspace, filePath };
+}
 
-    service = await DiffHistoryService.create({
-      host: createTestAgentHost({ paths }),
-      store: new AgentStore(createInitialAgentSystemState()),
-      mountPathsResolver: () => new Set([workspace]),
-    });
+describe('DiffHistoryService finalization', () => {
+  it('can undo a tool edit after its pending edits were finalized', async () => {
+    const { service, workspace, filePath } = await createService();
     await writeFile(filePath, 'edited\n', 'utf8');
     await service.registerAgentEdit({
       agentInstanceId: 'agent-1',
@@ -63,3 +72,191 @@ describe('DiffHistoryService finalization', () => {
     expect(await readFile(filePath, 'utf8')).toBe('original\n');
   });
 });
+
+describe('DiffHistoryService tool-call diffs', () => {
+  it('returns the contents before and after the selected tool calls', async () => {
+    const { service, workspace, filePath } = await createService();
+    await writeFile(filePath, 'second\n', 'utf8');
+    await service.registerAgentEdit({
+      agentInstanceId: 'agent-1',
+      toolCallId: 'tool-1',
+      path: filePath,
+      workspaceRoot: workspace,
+      isExternal: false,
+      contentBefore: 'first\n',
+      contentAfter: 'second\n',
+    });
+
+    const [diff] = await service.getFileDiffsForToolCalls('agent-1', [
+      'tool-1',
+    ]);
+    expect(diff).toMatchObject({
+      path: filePath,
+      isExternal: false,
+      baseline: 'first\n',
+      current: 'second\n',
+    });
+    expect(
+      await service.getFileEditsForToolCalls('agent-1', ['tool-1']),
+    ).toEqual([
+      { path: filePath, added: 1, removed: 1, toolCallIds: ['tool-1'] },
+    ]);
+    expect(
+      await service.getFileDiffsForToolCalls('agent-1', ['other']),
+    ).toEqual([]);
+  });
+});
+
+describe('DiffHistoryService hunk review', () => {
+  const lines = (edits: Record<number, string> = {}) =>
+    Array.from({ length: 20 }, (_, i) => edits[i] ?? `line ${i}`).join('\n') +
+    '\n';
+
+  async function getPendingHunks(
+    service: DiffHistoryService,
+    filePath: string,
+  ) {
+    const diff = await service.getPendingFileDiff('agent-1', filePath);
+    if (!diff || diff.isExternal) throw new Error('Expected a text diff');
+    return diff.hunks;
+  }
+
+  async function editWithTwoHunks() {
+    const { service, workspace, filePath } = await createService();
+    const contentAfter = lines({ 1: 'changed 1', 18: 'changed 18' });
+    await writeFile(filePath, contentAfter, 'utf8');
+    await service.registerAgentEdit({
+      agentInstanceId: 'agent-1',
+      toolCallId: 'tool-1',
+      path: filePath,
+      workspaceRoot: workspace,
+      isExternal: false,
+      contentBefore: lines(),
+      contentAfter,
+    });
+    const hunks = await getPendingHunks(service, filePath);
+    expect(hunks).toHaveLength(2);
+    return { service, filePath, hunks };
+  }
+
+  it('accepts a hunk into the baseline without touching the file', async () => {
+    const { service, filePath, hunks } = await editWithTwoHunks();
+
+    await service.acceptHunks('agent-1', [hunks[0]!.id]);
+
+    expect(await readFile(filePath, 'utf8')).toBe(
+      lines({ 1: 'changed 1', 18: 'changed 18' }),
+    );
+    const diff = await service.getPendingFileDiff('agent-1', filePath);
+    expect(diff).toMatchObject({
+      baseline: lines({ 1: 'changed 1' }),
+      current: lines({ 1: 'changed 1', 18: 'changed 18' }),
+    });
+  });
+
+  it('rejects a hunk on disk and keeps the others pending', async () => {
+    const { service, filePath, hunks } = await editWithTwoHunks();
+
+    await service.rejectHunks('agent-1', [hunks[1]!.id]);
+
+    expect(await readFile(filePath, 'utf8')).toBe(lines({ 1: 'changed 1' }));
+    const diff = await service.getPendingFileDiff('agent-1', filePath);
+    expect(diff).toMatchObject({
+      baseline: lines(),
+      current: lines({ 1: 'changed 1' }),
+    });
+  });
+
+  it('ends the pending session once every hunk is resolved', async () => {
+    const { service, filePath, hunks } = await editWithTwoHunks();
+
+    await service.acceptHunks('agent-1', [hunks[0]!.id]);
+    const [remaining] = await getPendingHunks(service, filePath);
+    await service.rejectHunks('agent-1', [remaining!.id, 'unknown']);
+
+    expect(await readFile(filePath, 'utf8')).toBe(lines({ 1: 'changed 1' }));
+    expect(await service.getPendingFileDiff('agent-1', filePath)).toBeNull();
+  });
+
+  it('deletes a created file when its only hunk is rejected', async () => {
+    const { service, workspace, filePath } = await createService();
+    await writeFile(filePath, 'new\n', 'utf8');
+    await service.registerAgentEdit({
+      agentInstanceId: 'agent-1',
+      toolCallId: 'tool-1',
+      path: filePath,
+      workspaceRoot: workspace,
+      isExternal: false,
+      contentBefore: null,
+      contentAfter: 'new\n',
+    });
+    const hunks = await getPendingHunks(service, filePath);
+
+    await service.rejectHunks(
+      'agent-1',
+      hunks.map((hunk) => hunk.id),
+    );
+
+    await expect(readFile(filePath, 'utf8')).rejects.toThrow();
+    expect(await service.getPendingFileDiff('agent-1', filePath)).toBeNull();
+  });
+});
+
+describe('DiffHistoryService content edit transfer', () => {
+  it('re-imports exported edits as closed sessions for another agent', async () => {
+    const { service, workspace, filePath } = await createService();
+    await writeFile(filePath, 'second\n', 'utf8');
+    await service.registerAgentEdit({
+      agentInstanceId: 'agent-1',
+      toolCallId: 'tool-1',
+      path: filePath,
+      workspaceRoot: workspace,
+      isExternal: false,
+      contentBefore: 'first\n',
+      contentAfter: 'second\n',
+    });
+    await service.finalizePendingEditsForAgent('agent-1');
+
+    const edits = await service.getToolCallContentEdits('agent-1');
+    expect(edits).toEqual([
+      {
+        toolCallId: 'tool-1',
+        path: filePath,
+        before: 'first\n',
+        after: 'second\n',
+      },
+    ]);
+
+    expect(await service.importToolCallContentEdits('agent-2', edits)).toBe(1);
+    expect(
+      await service.getFileDiffsForToolCalls('agent-2', ['tool-1']),
+    ).toMatchObject([
+      { path: filePath, baseline: 'first\n', current: 'second\n' },
+    ]);
+    expect(await service.getPendingFileDiff('agent-2', filePath)).toBeNull();
+    expect(await readFile(filePath, 'utf8')).toBe('second\n');
+  });
+
+  it('skips imported edits for files with pending diffs', async () => {
+    const { service, workspace, filePath } = await createService();
+    await writeFile(filePath, 'second\n', 'utf8');
+    await service.registerAgentEdit({
+      agentInstanceId: 'agent-1',
+      toolCallId: 'tool-1',
+      path: filePath,
+      workspaceRoot: workspace,
+      isExternal: false,
+      contentBefore: 'first\n',
+      contentAfter: 'second\n',
+    });
+
+    const imported = await service.importToolCallContentEdits('agent-2', [
+      { toolCallId: 'tool-9', path: filePath, before: 'a\n', after: 'b\n' },
+    ]);
+
+    expect(imported).toBe(0);
+    expect(await service.getPendingFileDiff('agent-1', filePath)).toMatchObject(
+      { baseline: 'first\n', current: 'second\n' },
+    );
+  });
+});
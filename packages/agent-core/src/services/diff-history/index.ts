@@ -29,6 +29,7 @@ import {
 } from '../../workspace';
 import {
   type FileDiff,
+  type ToolCallFileContentEdit,
   type ToolCallFileEdit,
   MAX_DIFF_TEXT_FILE_SIZE,
 } from '../../types/diff-history';
@@ -51,14 +52,19 @@ import {
   hasPendingEditsForFilepath,
   getLatestOperationIdxPerFilepath,
   getAgentInstanceIdsWithOperationsForFilepath,
+  getSnapshot,
+  insertPartialAcceptBaseline,
+  insertClosedEditSession,
 } from './utils/db';
 import {
+  applyHunksToBaseline,
   buildContributorMap,
   buildContributorMapIncremental,
   type ContributorMapState,
   type ContributorMaps,
   createFileDiffsFromGenerations,
   type OperationWithContent,
+  revertHunksFromCurrent,
   segmentFileOperationsIntoGenerations,
 } from './utils/diff';
 import type { Operation, OperationMeta } from './schema';
@@ -1110,21 +1116,154 @@ export class DiffHistoryService extends DisposableService {
     agentInstanceId: string,
     toolCallIds: string[],
   ): Promise<ToolCallFileEdit[]> {
+    const { diffs, toolCallIdsByPath } = await this.computeToolCallDiffs(
+      agentInstanceId,
+      toolCallIds,
+    );
+
+    return diffs.map<ToolCallFileEdit>((diff) => {
+      const toolCallIds = toolCallIdsByPath.get(diff.path)!;
+      if (diff.isExternal) {
+        return {
+          path: diff.path,
+          added: 0,
+          removed: 0,
+          toolCallIds,
+          changeType: diff.changeType,
+        };
+      }
+
+      let added = 0;
+      let removed = 0;
+      for (const change of diff.lineChanges) {
+        if (change.added) added += change.count ?? 0;
+        if (change.removed) removed += change.count ?? 0;
+      }
+      return { path: diff.path, added, removed, toolCallIds };
+    });
+  }
+
+  /**
+   * Same baseline and current state as `getFileEditsForToolCalls`, but
+   * returns the full diffs (including file contents for text files) for
+   * consumers that render them, e.g. ACP `diff` tool-call content.
+   */
+  public async getFileDiffsForToolCalls(
+    agentInstanceId: string,
+    toolCallIds: string[],
+  ): Promise<FileDiff[]> {
+    const { diffs } = await this.computeToolCallDiffs(
+      agentInstanceId,
+      toolCallIds,
+    );
+    return diffs;
+  }
+
+  /**
+   * Per-tool-call text edits made by an agent, oldest tool call first.
+   * External (binary or oversized) files are skipped since their content
+   * lives in the blob store.
+   */
+  public async getToolCallContentEdits(
+    agentInstanceId: string,
+  ): Promise<ToolCallFileContentEdit[]> {
+    const contributor = `agent-${agentInstanceId}`;
+    const toolCallIds = new Set<string>();
+    const operations = await getAllOperationsForAgentInstanceId(
+      this.db,
+      agentInstanceId,
+    );
+    for (const operation of operations.sort(
+      (a, b) => Number(a.idx) - Number(b.idx),
+    )) {
+      if (
+        operation.contributor === contributor &&
+        operation.reason.startsWith('tool-')
+      )
+        toolCallIds.add(operation.reason.slice(5));
+    }
+
+    const edits: ToolCallFileContentEdit[] = [];
+    for (const toolCallId of toolCallIds) {
+      const diffs = await this.getFileDiffsForToolCalls(agentInstanceId, [
+        toolCallId,
+      ]);
+      for (const diff of diffs) {
+        if (diff.isExternal) continue;
+        edits.push({
+          toolCallId,
+          path: diff.path,
+          before: diff.baseline,
+          after: diff.current,
+        });
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * Records edits carried over from another machine as closed sessions, so
+   * the agent's turn summaries resolve without creating pending diffs.
+   * Files with pending edits are skipped to keep their review intact; the
+   * files on disk are never touched.
+   *
+   * @returns The number of edits recorded.
+   */
+  public async importToolCallContentEdits(
+    agentInstanceId: string,
+    edits: ToolCallFileContentEdit[],
+  ): Promise<number> {
+    let imported = 0;
+    for (const edit of edits) {
+      if (await hasPendingEditsForFilepath(this.db, edit.path)) {
+        this.logDebug(`Skipping imported edit with pending diff: ${edit.path}`);
+        continue;
+      }
+      await insertClosedEditSession(
+        this.db,
+        edit.path,
+        edit.before,
+        edit.after,
+        {
+          operation: 'edit',
+          contributor: `agent-${agentInstanceId}`,
+          reason: `tool-${edit.toolCallId}`,
+        },
+      );
+      imported++;
+    }
+    if (imported > 0) {
+      this._opsSeq++;
+      await this.updateHydratedAgentState(agentInstanceId);
+    }
+    return imported;
+  }
+
+  private async computeToolCallDiffs(
+    agentInstanceId: string,
+    toolCallIds: string[],
+  ): Promise<{
+    diffs: FileDiff[];
+    toolCallIdsByPath: Map<string, string[]>;
+  }> {
+    const toolCallIdsByPath = new Map<string, string[]>();
     const uniqueToolCallIds = [...new Set(toolCallIds)];
-    if (uniqueToolCallIds.length === 0) return [];
+    if (uniqueToolCallIds.length === 0) return { diffs: [], toolCallIdsByPath };
 
     const toolOperations = await getOperationsForToolCalls(
       this.db,
       uniqueToolCallIds,
       agentInstanceId,
     );
-    if (toolOperations.length === 0) return [];
+    if (toolOperations.length === 0) return { diffs: [], toolCallIdsByPath };
 
     const visibleToolOperations = toolOperations.filter(
       (operation) =>
         !this.isInternalFilepath(agentInstanceId, operation.filepath),
     );
-    if (visibleToolOperations.length === 0) return [];
+    if (visibleToolOperations.length === 0) {
+      return { diffs: [], toolCallIdsByPath };
+    }
 
     const undoTargets = await getUndoTargetForToolCallsByFilePath(
       this.db,
@@ -1145,7 +1284,6 @@ export class DiffHistoryService extends DisposableService {
       ...visibleToolOperations,
     ].sort((a, b) => Number(a.idx) - Number(b.idx));
 
-    const toolCallIdsByPath = new Map<string, string[]>();
     for (const operation of visibleToolOperations) {
       const ids = toolCallIdsByPath.get(operation.filepath) ?? [];
       const toolCallId = operation.reason.slice(5);
@@ -1161,34 +1299,16 @@ export class DiffHistoryService extends DisposableService {
       'summary',
     );
 
-    return diffs.flatMap<ToolCallFileEdit>((diff) => {
-      const toolCallIds = toolCallIdsByPath.get(diff.path);
-      const hasChanges = diff.isExternal
-        ? diff.baselineOid !== diff.currentOid
-        : diff.lineChanges.some((change) => change.added || change.removed) ||
-          diff.baselineOid !== diff.currentOid;
-      if (!toolCallIds || !hasChanges) return [];
-
-      if (diff.isExternal) {
-        return [
-          {
-            path: diff.path,
-            added: 0,
-            removed: 0,
-            toolCallIds,
-            changeType: diff.changeType,
-          },
-        ];
-      }
-
-      let added = 0;
-      let removed = 0;
-      for (const change of diff.lineChanges) {
-        if (change.added) added += change.count ?? 0;
-        if (change.removed) removed += change.count ?? 0;
-      }
-      return [{ path: diff.path, added, removed, toolCallIds }];
-    });
+    return {
+      diffs: diffs.filter((diff) => {
+        if (!toolCallIdsByPath.has(diff.path)) return false;
+        return diff.isExternal
+          ? diff.baselineOid !== diff.currentOid
+          : diff.lineChanges.some((change) => change.added || change.removed) ||
+              diff.baselineOid !== diff.currentOid;
+      }),
+      toolCallIdsByPath,
+    };
   }
 
   /**
@@ -1234,6 +1354,160 @@ export class DiffHistoryService extends DisposableService {
     await this.unwatchResolvedFiles(changedFilepaths);
   }
 
+  /**
+   * Returns the agent's pending diff for a single file, or null if the file
+   * has no pending edits.
+   */
+  public async getPendingFileDiff(
+    agentInstanceId: string,
+    filepath: string,
+  ): Promise<FileDiff | null> {
+    const pendingOps = await getPendingOperationsForAgentInstanceIdAndFilepath(
+      this.db,
+      agentInstanceId,
+      filepath,
+    );
+    const diffs = await this.getFileDiffForOperations(
+      agentInstanceId,
+      pendingOps,
+      'pending',
+    );
+    return diffs.find((diff) => diff.path === filepath) ?? null;
+  }
+
+  /**
+   * Accepts hunks of the agent's pending diffs by moving them into the
+   * baseline (spec 1B). Files on disk are not touched. Unknown hunk IDs
+   * (e.g. from a stale UI) are ignored.
+   */
+  public async acceptHunks(
+    agentInstanceId: string,
+    hunkIds: string[],
+  ): Promise<void> {
+    await this.resolveHunks(agentInstanceId, hunkIds, 'accept');
+  }
+
+  /**
+   * Rejects hunks of the agent's pending diffs by restoring the baseline
+   * content of those hunks on disk (spec 1C). Unknown hunk IDs are ignored.
+   */
+  public async rejectHunks(
+    agentInstanceId: string,
+    hunkIds: string[],
+  ): Promise<void> {
+    await this.resolveHunks(agentInstanceId, hunkIds, 'reject');
+  }
+
+  private async resolveHunks(
+    agentInstanceId: string,
+    hunkIds: string[],
+    decision: 'accept' | 'reject',
+  ): Promise<void> {
+    const selectedIds = new Set(hunkIds);
+    if (selectedIds.size === 0) return;
+
+    const pendingDiffs =
+      await this.getPendingFileDiffsForAgentInstanceId(agentInstanceId);
+    const changedFilepaths: string[] = [];
+
+    for (const diff of pendingDiffs) {
+      const allIds = diff.isExternal
+        ? [diff.hunkId]
+        : diff.hunks.map((hunk) => hunk.id);
+      const selected = allIds.filter((id) => selectedIds.has(id));
+      if (selected.length === 0) continue;
+      // Resolving every hunk of a file reuses the existing snapshot, so the
+      // session closes with b_n == e_n instead of an equal-content copy.
+      const resolvesFile = selected.length === allIds.length;
+
+      try {
+        if (decision === 'accept') {
+          if (resolvesFile || diff.isExternal) {
+            await insertOperation(this.db, diff.path, diff.currentOid, {
+              operation: 'baseline',
+              contributor: 'user',
+              reason: 'accept',
+            });
+          } else {
+            const content = applyHunksToBaseline(
+              diff.baseline ?? '',
+              diff.hunks.filter((hunk) => selectedIds.has(hunk.id)),
+            );
+            await insertPartialAcceptBaseline(
+              this.db,
+              diff.path,
+              Buffer.from(content, 'utf8'),
+            );
+          }
+        } else {
+          const meta: OperationMeta = {
+            operation: 'edit',
+            contributor: 'user',
+            reason: 'reject',
+          };
+          this.ignoreFileForWatcher(diff.path);
+          try {
+            if (resolvesFile || diff.isExternal) {
+              await this.writeSnapshotToDisk(diff.path, diff.baselineOid);
+              await insertOperation(this.db, diff.path, diff.baselineOid, meta);
+            } else {
+              const content = revertHunksFromCurrent(
+                diff.current ?? '',
+                diff.hunks.filter((hunk) => selectedIds.has(hunk.id)),
+              );
+              await mkdir(path.dirname(diff.path), { recursive: true });
+              await writeFile(diff.path, content, 'utf8');
+              await storeFileContent(
+                this.db,
+                diff.path,
+                Buffer.from(content, 'utf8'),
+                meta,
+              );
+            }
+          } finally {
+            // Unlock after a small delay to allow chokidar to see and ignore the event
+            setTimeout(() => this.unignoreFileForWatcher(diff.path), 500);
+          }
+        }
+        changedFilepaths.push(diff.path);
+      } catch (error) {
+        this.logError(`Failed to ${decision} hunks in ${diff.path}`, error);
+      }
+    }
+
+    if (changedFilepaths.length === 0) return;
+    this._opsSeq++;
+    // A file may contain edits from multiple agents, so refresh every hydrated
+    // agent's cached view of the changed paths.
+    for (const id of this.hydratedAgentInstanceIds) {
+      await this.updateAgentDiffState(id, changedFilepaths);
+    }
+    await this.unwatchResolvedFiles(changedFilepaths);
+  }
+
+  /**
+   * Writes the snapshot `oid` to `filePath`, deleting the file for a null
+   * oid (the file didn't exist in that state).
+   */
+  private async writeSnapshotToDisk(
+    filePath: string,
+    oid: string | null,
+  ): Promise<void> {
+    if (oid === null) {
+      await unlink(filePath);
+      return;
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const snapshot = await getSnapshot(this.db, oid);
+    if (snapshot?.is_external) {
+      await copyContentToPath(this.blobsDir, oid, filePath);
+      return;
+    }
+    const content = await retrieveContentForOid(this.db, oid);
+    if (content === null) throw new Error(`Snapshot ${oid} is missing`);
+    await writeFile(filePath, content, 'utf8');
+  }
+
   private async storeExternalFile(filePath: string, meta: OperationMeta) {
     const asyncIterableBuffer = createReadStream(filePath);
     const oid = await storeLargeContent(
@@ -26,6 +26,7 @@ import {
   copyOperationsUpToInitBaseline,
   getUndoTargetForToolCallsByFilePath,
   getOperationsForToolCalls,
+  insertPartialAcceptBaseline,
 } from './db';
 
 type SnapshotDb = LibSQLDatabase<typeof schema>;
@@ -1790,6 +1791,47 @@ describe('diff-history db utilities', () => {
   // getUndoTargetForToolCallsByFilePath
   // ===========================================================================
 
+  describe('insertPartialAcceptBaseline', () => {
+    it('re-appends the latest edit after the accept baseline', async () => {
+      const filepath = '/accept/test.ts';
+      await storeFileContent(db, filepath, Buffer.from('a\nb\n'), {
+        operation: 'baseline',
+        contributor: 'user',
+        reason: 'init',
+      });
+      const editOid = await storeFileContent(
+        db,
+        filepath,
+        Buffer.from('A\nB\n'),
+        { operation: 'edit', contributor: 'agent-1', reason: 'tool-1' },
+      );
+
+      await insertPartialAcceptBaseline(db, filepath, Buffer.from('A\nb\n'));
+
+      const history = await getOperationHistory(db, filepath);
+      expect(
+        history.map((op) => [op.operation, op.reason, op.contributor]),
+      ).toEqual([
+        ['baseline', 'init', 'user'],
+        ['edit', 'tool-1', 'agent-1'],
+        ['baseline', 'accept', 'user'],
+        ['edit', 'tool-1', 'agent-1'],
+      ]);
+      expect(history[3]!.snapshot_oid).toBe(editOid);
+      expect(
+        (
+          await retrieveContentForOid(db, history[2]!.snapshot_oid!)
+        )?.toString(),
+      ).toBe('A\nb\n');
+      expect((await retrieveContentForOid(db, editOid))?.toString()).toBe(
+        'A\nB\n',
+      );
+
+      const pending = await getPendingOperationsForAgentInstanceId(db, '1');
+      expect(pending).toHaveLength(4);
+    });
+  });
+
   describe('getOperationsForToolCalls', () => {
     it('returns only operations for the selected agent and tool calls', async () => {
       const createSnapshot = (content: string) => {
@@ -1086,6 +1086,61 @@ export async function storeFileContent(
   return newOid;
 }
 
+/**
+ * Record a partial accept (spec 1B): appends an 'accept' baseline with the
+ * given content, then re-appends the file's latest edit. Pending diffs are
+ * computed from the latest baseline onwards, so without the copied edit the
+ * current state would be missing until the next edit.
+ */
+export async function insertPartialAcceptBaseline(
+  db: SnapshotDb,
+  filepath: string,
+  content: Buffer,
+): Promise<void> {
+  const latestOp = await getLatestOperation(db, filepath);
+  await storeFileContent(db, filepath, content, {
+    operation: 'baseline',
+    contributor: 'user',
+    reason: 'accept',
+  });
+  if (latestOp?.operation !== 'edit') return;
+  await insertOperation(db, filepath, latestOp.snapshot_oid, {
+    operation: 'edit',
+    contributor: latestOp.contributor,
+    reason: latestOp.reason,
+  });
+}
+
+/**
+ * Record a finished edit as a closed session: an init baseline with the
+ * content before, the edit itself and an accept baseline with the content
+ * after. `null` content marks a file that did not exist (before) or was
+ * deleted (after). The file has no pending edits afterwards.
+ */
+export async function insertClosedEditSession(
+  db: SnapshotDb,
+  filepath: string,
+  contentBefore: string | null,
+  contentAfter: string | null,
+  editMeta: Extract<OperationMeta, { operation: 'edit' }>,
+): Promise<void> {
+  const store = async (content: string | null, meta: OperationMeta) => {
+    if (content === null) await insertOperation(db, filepath, null, meta);
+    else await storeFileContent(db, filepath, Buffer.from(content), meta);
+  };
+  await store(contentBefore, {
+    operation: 'baseline',
+    contributor: 'user',
+    reason: 'init',
+  });
+  await store(contentAfter, editMeta);
+  await store(contentAfter, {
+    operation: 'baseline',
+    contributor: 'user',
+    reason: 'accept',
+  });
+}
+
 /**
  * Store large file content using LFS (Large File Storage).
  * Streams content to disk blob store instead of SQLite.
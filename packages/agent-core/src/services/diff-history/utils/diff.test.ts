@@ -16,6 +16,8 @@ import {
   isExternalFileDiff,
   createFileDiffSnapshot,
   createEnvironmentDiffSnapshot,
+  applyHunksToBaseline,
+  revertHunksFromCurrent,
 } from './diff';
 
 // =============================================================================
@@ -1585,3 +1587,37 @@ describe('buildContributorMapIncremental', () => {
     expect(second.finalLatestOpIdx).toBe(first.finalLatestOpIdx);
   });
 });
+
+describe('applyHunksToBaseline / revertHunksFromCurrent', () => {
+  const baseline = `${Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n')}\n`;
+  const current = baseline
+    .replace('line 1\n', 'changed 1\n')
+    .replace('line 18\n', 'changed 18\nadded\n');
+  const hunks = structuredPatch('', '', baseline, current, '', '').hunks.map(
+    (hunk, i): BlamedHunk => ({ ...hunk, id: `h${i}`, contributors: [] }),
+  );
+
+  it('moves only the selected hunks into the baseline', () => {
+    expect(hunks).toHaveLength(2);
+    expect(applyHunksToBaseline(baseline, [hunks[1]!])).toBe(
+      baseline.replace('line 18\n', 'changed 18\nadded\n'),
+    );
+    expect(applyHunksToBaseline(baseline, [hunks[1]!, hunks[0]!])).toBe(
+      current,
+    );
+  });
+
+  it('reverts only the selected hunks in the current content', () => {
+    expect(revertHunksFromCurrent(current, [hunks[0]!])).toBe(
+      baseline.replace('line 18\n', 'changed 18\nadded\n'),
+    );
+    expect(revertHunksFromCurrent(current, [hunks[1]!])).toBe(
+      baseline.replace('line 1\n', 'changed 1\n'),
+    );
+    expect(revertHunksFromCurrent(current, hunks)).toBe(baseline);
+  });
+
+  it('throws when the content no longer matches the hunks', () => {
+    expect(() => revertHunksFromCurrent(baseline, [hunks[0]!])).toThrow();
+  });
+});
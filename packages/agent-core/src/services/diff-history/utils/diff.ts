@@ -18,7 +18,13 @@ function generateDeterministicHunkId(
   );
   return hash.digest('hex').slice(0, 32);
 }
-import { diffLines, structuredPatch } from 'diff';
+import {
+  applyPatch,
+  diffLines,
+  reversePatch,
+  structuredPatch,
+  type StructuredPatch,
+} from 'diff';
 import type { Contributor } from '../schema';
 import type {
   FileDiff,
@@ -648,3 +654,48 @@ export function createEnvironmentDiffSnapshot(
     summary: summary.map(createFileDiffSnapshot),
   };
 }
+
+/**
+ * Applies a subset of a baseline→current diff's hunks to the baseline.
+ * Used to accept hunks: the result is the new baseline. Hunk positions
+ * refer to the baseline, so skipped hunks don't shift the selected ones.
+ *
+ * @throws if a hunk no longer matches `baseline`
+ */
+export function applyHunksToBaseline(
+  baseline: string,
+  hunks: BlamedHunk[],
+): string {
+  const result = applyPatch(baseline, toPatch(hunks));
+  if (result === false) {
+    throw new Error('Hunks do not apply to the baseline');
+  }
+  return result;
+}
+
+/**
+ * Reverts a subset of a baseline→current diff's hunks in the current
+ * content. Used to reject hunks: the result is the new current content.
+ *
+ * @throws if a hunk no longer matches `current`
+ */
+export function revertHunksFromCurrent(
+  current: string,
+  hunks: BlamedHunk[],
+): string {
+  const result = applyPatch(current, reversePatch(toPatch(hunks)));
+  if (result === false) {
+    throw new Error('Hunks do not apply to the current content');
+  }
+  return result;
+}
+
+function toPatch(hunks: BlamedHunk[]): StructuredPatch {
+  return {
+    oldFileName: '',
+    newFileName: '',
+    oldHeader: undefined,
+    newHeader: undefined,
+    hunks: [...hunks].sort((a, b) => a.oldStart - b.oldStart),
+  };
+}
@@ -41,6 +41,7 @@ function makeHostPaths(root: string): HostPaths {
     fileReadCacheDbPath: () => path.join(root, 'file-read-cache.sqlite'),
     processedImageCacheDbPath: () =>
       path.join(root, 'processed-image-cache.sqlite'),
+    historySearchDbPath: () => path.join(root, 'history-search.sqlite'),
     userDataDir: () => path.join(root, 'user-data'),
     plansDir: () => path.join(root, 'plans'),
     logsDir: () => path.join(root, 'logs'),
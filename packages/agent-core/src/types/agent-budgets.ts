@@ -0,0 +1,105 @@
+import { z } from 'zod';
+
+/**
+ * What a budget counts.
+ *
+ * - `agent`: everything a single agent used since it was created.
+ * - `day`: all agents, during the current local calendar day.
+ * - `workspace`: agents that have `workspacePath` mounted, during the
+ *   current local calendar day.
+ */
+export const agentBudgetScopeSchema = z.enum(['agent', 'day', 'workspace']);
+export type AgentBudgetScope = z.infer<typeof agentBudgetScopeSchema>;
+
+/**
+ * `tokens` counts input plus output tokens. `usd` counts the list price
+ * of the models' steps. Steps of models without known pricing are
+ * recorded as unpriced: a `usd` budget cannot count them, and reports
+ * them in {@link AgentBudgetUsage.unpricedSteps} instead.
+ */
+export const agentBudgetUnitSchema = z.enum(['tokens', 'usd']);
+export type AgentBudgetUnit = z.infer<typeof agentBudgetUnitSchema>;
+
+/** User-editable part of a budget, as passed to `agents.saveBudget`. */
+export const agentBudgetInputSchema = z
+  .object({
+    scope: agentBudgetScopeSchema,
+    unit: agentBudgetUnitSchema,
+    limit: z.number().positive(),
+    /** Workspace of a `workspace` budget; `null` for the other scopes. */
+    workspacePath: z.string().min(1).nullable().default(null),
+    enabled: z.boolean().default(true),
+  })
+  .refine(
+    (input) => (input.scope === 'workspace') === (input.workspacePath !== null),
+    {
+      message:
+        'Only workspace budgets have a workspace path, and they need one',
+      path: ['workspacePath'],
+    },
+  );
+export type AgentBudgetInput = z.input<typeof agentBudgetInputSchema>;
+
+/** A persisted budget definition. */
+export type AgentBudget = z.infer<typeof agentBudgetInputSchema> & {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Usage of a budget in the window that applies to one agent. */
+export type AgentBudgetUsage = {
+  budget: AgentBudget;
+  /** `agent:<id>` for agent budgets, `day:<YYYY-MM-DD>` otherwise. */
+  windowKey: string;
+  used: number;
+  /** The budget's limit plus all extensions granted for the window. */
+  limit: number;
+  /**
+   * Steps in the window that a `usd` budget cannot count because their
+   * model has no known pricing, so the budget is not enforced for them.
+   * Always 0 for `tokens` budgets.
+   */
+  unpricedSteps: number;
+};
+
+/** One finished agent step, as recorded in the usage ledger. */
+export type AgentUsageLedgerEntry = {
+  agentInstanceId: string;
+  modelId: string;
+  providerInstanceId: string | null;
+  /** Workspaces mounted into the agent when the step finished. */
+  workspacePaths: string[];
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  /** List price of the step; `null` when the model's pricing is unknown. */
+  costUsd: number | null;
+  createdAt: Date;
+};
+
+export type AgentUsageTotals = {
+  steps: number;
+  totalTokens: number;
+  /** List price of the priced steps. */
+  costUsd: number;
+  /** Steps whose model had no known pricing; not part of `costUsd`. */
+  unpricedSteps: number;
+};
+
+/** Usage ledger totals of a time range, as returned by `agents.getUsageReport`. */
+export type AgentUsageReport = {
+  from: Date;
+  to: Date;
+  totals: AgentUsageTotals;
+  /** Per local calendar day (`YYYY-MM-DD`), oldest first. */
+  days: Array<AgentUsageTotals & { day: string }>;
+  /** Per agent, most tokens first. `title` is null for deleted agents. */
+  agents: Array<
+    AgentUsageTotals & { agentInstanceId: string; title: string | null }
+  >;
+  /** Per model, most tokens first. */
+  models: Array<AgentUsageTotals & { modelId: string }>;
+};
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import {
+  DEFAULT_TOOL_APPROVAL_MODE,
+  toolApprovalModeSchema,
+} from './tool-approval';
+
+/** Log channel names as accepted by the host's log ingest endpoint. */
+export const LOG_CHANNEL_NAME_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * What starts a triggered agent run.
+ *
+ * - `schedule`: 5-field cron expression (`minute hour day month weekday`)
+ *   or one of `@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly`,
+ *   evaluated in local time.
+ * - `fileWatch`: absolute files or directories (`node_modules` and `.git`
+ *   are skipped); changes are batched for `debounceMs` before a single
+ *   run starts.
+ * - `logChannel`: new entries in `<logsDir>/<channel>.jsonl` whose level
+ *   is in `levels` and whose serialized data contains `match` (if set).
+ */
+export const agentTriggerSourceSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('schedule'),
+    cron: z.string().trim().min(1),
+  }),
+  z.object({
+    kind: z.literal('fileWatch'),
+    paths: z.array(z.string().min(1)).min(1),
+    debounceMs: z.number().int().min(0).max(600_000).default(2_000),
+  }),
+  z.object({
+    kind: z.literal('logChannel'),
+    channel: z.string().regex(LOG_CHANNEL_NAME_RE),
+    levels: z.array(z.string().min(1)).min(1).default(['error']),
+    match: z.string().min(1).optional(),
+  }),
+]);
+export type AgentTriggerSource = z.infer<typeof agentTriggerSourceSchema>;
+
+/** User-editable part of a trigger, as passed to `agents.saveTrigger`. */
+export const agentTriggerInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200),
+    enabled: z.boolean().default(true),
+    source: agentTriggerSourceSchema,
+    /** Instructions sent as the first user message of every run. */
+    prompt: z.string().default(''),
+    /** Skill invoked at the start of the prompt, as a slash command. */
+    skill: z
+      .object({ id: z.string().min(1), name: z.string().min(1) })
+      .nullable()
+      .default(null),
+    toolApprovalMode: toolApprovalModeSchema.default(
+      DEFAULT_TOOL_APPROVAL_MODE,
+    ),
+    /** Workspaces mounted into every run. */
+    workspacePaths: z.array(z.string().min(1)).default([]),
+    /** Model of the runs. Falls back to the last used chat model. */
+    modelId: z.string().min(1).nullable().default(null),
+    providerInstanceId: z.string().min(1).nullable().default(null),
+  })
+  .refine((input) => input.prompt.trim().length > 0 || input.skill, {
+    message: 'A trigger needs a prompt or a skill',
+    path: ['prompt'],
+  });
+export type AgentTriggerInput = z.input<typeof agentTriggerInputSchema>;
+
+/** Why a run was started, shown on the run's chat. */
+export type AgentTriggerRun = {
+  triggerId: string;
+  /** Trigger name at the time of the run. */
+  triggerName: string;
+  agentInstanceId: string;
+  startedAt: Date;
+  /** Short human-readable cause, e.g. `Schedule 0 9 * * 1-5`. */
+  reason: string;
+};
+
+/** A persisted trigger definition. */
+export type AgentTrigger = z.infer<typeof agentTriggerInputSchema> & {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  lastRun: AgentTriggerRun | null;
+  /** Error of the last failed arm or run attempt; cleared on success. */
+  lastError: string | null;
+};
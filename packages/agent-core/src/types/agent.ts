@@ -5,6 +5,8 @@ import type {
   WorkspaceGitSummary,
 } from './metadata';
 import type { UniversalTools } from './tools';
+import type { AgentTriggerRun } from './agent-triggers';
+import type { AgentBudgetScope, AgentBudgetUnit } from './agent-budgets';
 
 export enum AgentTypes {
   CHAT = 'chat',
@@ -48,6 +50,17 @@ export type AgentRuntimeError =
       statusCode?: number;
       modelId?: string;
     }
+  | {
+      /** A usage budget is used up; the agent waits for it to be extended. */
+      kind: 'budget-exceeded';
+      message: string;
+      budgetId: string;
+      scope: AgentBudgetScope;
+      unit: AgentBudgetUnit;
+      workspacePath: string | null;
+      used: number;
+      limit: number;
+    }
   | {
       kind: 'waiting-for-connection';
       message: string;
@@ -147,6 +160,31 @@ export type AgentHistoryEntry = {
   unread: boolean;
   archivedAt: Date | null;
   mountedWorkspaces?: AgentHistoryWorkspaceEntry[] | null;
+  /** Set when the chat was started by an agent trigger. */
+  triggerRun?: AgentTriggerRun | null;
+};
+
+export type AgentHistorySearchOptions = {
+  /** Maximum number of hits. Default: 10. */
+  limit?: number;
+  /** Agents whose messages are left out, e.g. the one asking. */
+  excludeAgentIds?: string[];
+};
+
+/** A message of a past conversation matching an `agents.searchHistory` query. */
+export type AgentHistorySearchHit = {
+  agentInstanceId: string;
+  title: string;
+  messageId: string;
+  role: string;
+  createdAt: Date | null;
+  /** Excerpt around the match with matched terms wrapped in `**`. */
+  snippet: string;
+  /**
+   * Rank of the message; lower is a better match. The bm25 score, or the
+   * negated fused rank when the search also ranks by meaning.
+   */
+  score: number;
 };
 
 export type StoredAgentPreview<TAgentTypes extends AgentTypes = AgentTypes> = {
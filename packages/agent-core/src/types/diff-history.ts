@@ -57,6 +57,17 @@ export type ToolCallFileEdit = {
   changeType?: ExternalFileDiff['changeType'];
 };
 
+/**
+ * Text content of one file before and after one tool call. `null` means the
+ * file did not exist. Carried in agent export bundles.
+ */
+export type ToolCallFileContentEdit = {
+  toolCallId: string;
+  path: string;
+  before: string | null;
+  after: string | null;
+};
+
 import { z } from 'zod';
 
 export const fileDiffSnapshotSchema = z.object({
@@ -1,4 +1,6 @@
 export * from './agent';
+export * from './agent-budgets';
+export * from './agent-triggers';
 export * from './diff-history';
 export * from './metadata';
 export * from './models';
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+import esbuild from 'esbuild';
+import { execSync } from 'node:child_process';
+import { mkdirSync, rmSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+rmSync(resolve(__dirname, 'dist'), { recursive: true, force: true });
+mkdirSync(resolve(__dirname, 'dist'), { recursive: true });
+
+console.log('Building @stagewise/agent-jsonrpc...');
+await esbuild.build({
+  entryPoints: { index: 'src/index.ts' },
+  bundle: true,
+  outdir: 'dist',
+  platform: 'node',
+  target: 'node18',
+  format: 'esm',
+  sourcemap: true,
+  external: ['@stagewise/agent-core', '@stagewise/agent-core/*', 'ws'],
+  loader: { '.ts': 'ts' },
+});
+
+console.log('Generating TypeScript declarations...');
+execSync('tsc --emitDeclarationOnly --outDir dist', { stdio: 'inherit' });
+
+console.log('Build complete.');
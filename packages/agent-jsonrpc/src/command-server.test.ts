@@ -0,0 +1,309 @@
+import type { AddressInfo } from 'node:net';
+import { PassThrough } from 'node:stream';
+import {
+  AgentStore,
+  type AgentSystemState,
+  CommandRegistry,
+  createInitialAgentSystemState,
+} from '@stagewise/agent-core';
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import {
+  CommandServerMethod,
+  STATE_PATCH_NOTIFICATION,
+  serveCommandRegistry,
+} from './command-server';
+import { JsonRpcConnection } from './connection';
+import { JsonRpcErrorCode } from './protocol';
+import { createStdioConnection } from './stdio';
+import {
+  createJsonRpcWebSocketServer,
+  createWebSocketConnection,
+} from './websocket';
+
+function makeRegistry() {
+  const registry = new CommandRegistry();
+  const calls: { callerId: string; args: unknown }[] = [];
+  registry.registerCommand('agents.echo', async (ctx, args) => {
+    calls.push({ callerId: ctx.callerId, args });
+    return args;
+  });
+  registry.registerCommand('agents.fail', async () => {
+    throw new RangeError('out of range');
+  });
+  return { registry, calls };
+}
+
+/** A client connection talking to a served connection in-process. */
+function connect(options: Parameters<typeof serveCommandRegistry>[1]) {
+  let client!: JsonRpcConnection;
+  const server = new JsonRpcConnection((message) => {
+    void client.receiveText(JSON.stringify(message));
+  });
+  client = new JsonRpcConnection((message) => {
+    void server.receiveText(JSON.stringify(message));
+  });
+  const dispose = serveCommandRegistry(server, options);
+  return { client, server, dispose };
+}
+
+const cleanups: (() => void | Promise<void>)[] = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0)) await cleanup();
+});
+
+describe('serveCommandRegistry', () => {
+  it('dispatches commands with positional, named and missing params', async () => {
+    const { registry, calls } = makeRegistry();
+    const { client } = connect({ registry, callerId: 'plugin' });
+
+    await expect(client.request('agents.echo', ['a', 1])).resolves.toEqual([
+      'a',
+      1,
+    ]);
+    await client.request('agents.echo', { id: 'a' });
+    await client.request('agents.echo');
+
+    expect(calls).toEqual([
+      { callerId: 'plugin', args: ['a', 1] },
+      { callerId: 'plugin', args: { id: 'a' } },
+      { callerId: 'plugin', args: [] },
+    ]);
+  });
+
+  it('maps unknown commands to MethodNotFound', async () => {
+    const { registry } = makeRegistry();
+    const { client } = connect({ registry });
+
+    await expect(client.request('agents.missing')).rejects.toMatchObject({
+      code: JsonRpcErrorCode.MethodNotFound,
+      message: 'Method not found: agents.missing',
+    });
+    await expect(client.request('rpc.other')).rejects.toMatchObject({
+      code: JsonRpcErrorCode.MethodNotFound,
+    });
+  });
+
+  it('reports handler errors with their name', async () => {
+    const { registry } = makeRegistry();
+    const { client } = connect({ registry });
+
+    await expect(client.request('agents.fail')).rejects.toMatchObject({
+      code: JsonRpcErrorCode.ServerError,
+      message: 'out of range',
+      data: { name: 'RangeError' },
+    });
+  });
+
+  it('lists registered commands', async () => {
+    const { registry } = makeRegistry();
+    const { client } = connect({ registry });
+
+    await expect(
+      client.request(CommandServerMethod.ListCommands),
+    ).resolves.toEqual(['agents.echo', 'agents.fail']);
+  });
+
+  it('streams store patches after subscribing', async () => {
+    const { registry } = makeRegistry();
+    const store = new AgentStore(createInitialAgentSystemState());
+    const { client, dispose } = connect({ registry, store });
+    const notifications: unknown[] = [];
+    client.onNotification((method, params) =>
+      notifications.push({ method, params }),
+    );
+
+    // Updates before subscribing are part of the snapshot, not patches
+    store.update((draft) => {
+      draft.toolbox.x = {
+        workspace: { mounts: [] },
+        pendingFileDiffs: [],
+        editSummary: [],
+        pendingUserQuestion: null,
+      };
+    });
+    const { state } = await client.request<{ state: AgentSystemState }>(
+      CommandServerMethod.SubscribeState,
+    );
+    expect(Object.keys(state.toolbox)).toEqual(['x']);
+
+    store.update((draft) => {
+      draft.toolbox.x!.pendingUserQuestion = null;
+      draft.toolbox.x!.editSummary = [];
+    });
+    store.update((draft) => {
+      delete draft.toolbox.x;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(notifications).toEqual([
+      {
+        method: STATE_PATCH_NOTIFICATION,
+        params: {
+          patches: [
+            { op: 'replace', path: ['toolbox', 'x', 'editSummary'], value: [] },
+          ],
+        },
+      },
+      {
+        method: STATE_PATCH_NOTIFICATION,
+        params: { patches: [{ op: 'remove', path: ['toolbox', 'x'] }] },
+      },
+    ]);
+
+    await client.request(CommandServerMethod.UnsubscribeState);
+    store.update((draft) => {
+      draft.agents.instances = {};
+    });
+    dispose();
+    store.update((draft) => {
+      draft.toolbox = {};
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(notifications).toHaveLength(2);
+  });
+
+  it('stops serving after dispose', async () => {
+    const { registry } = makeRegistry();
+    const { client, dispose } = connect({ registry });
+    dispose();
+
+    await expect(client.request('agents.echo')).rejects.toMatchObject({
+      code: JsonRpcErrorCode.MethodNotFound,
+    });
+  });
+
+  it('hides state methods without a store', async () => {
+    const { registry } = makeRegistry();
+    const { client } = connect({ registry });
+
+    await expect(
+      client.request(CommandServerMethod.SubscribeState),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.MethodNotFound });
+  });
+});
+
+describe('transports', () => {
+  it('serves newline-delimited JSON over streams', async () => {
+    const { registry } = makeRegistry();
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const connection = createStdioConnection({ input, output });
+    serveCommandRegistry(connection, { registry });
+
+    const line = new Promise<string>((resolve) =>
+      output.once('data', (chunk: Buffer) => resolve(chunk.toString())),
+    );
+    input.write(
+      `${JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'agents.echo', params: ['hi'] })}\n`,
+    );
+
+    expect(JSON.parse(await line)).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: ['hi'],
+    });
+
+    input.end();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(connection.isClosed).toBe(true);
+  });
+
+  it('serves every WebSocket client on its own connection', async () => {
+    const { registry } = makeRegistry();
+    let disposed = 0;
+    const server = createJsonRpcWebSocketServer({
+      port: 0,
+      host: '127.0.0.1',
+      token: 'secret',
+      onConnection: (connection) => {
+        const dispose = serveCommandRegistry(connection, { registry });
+        return () => {
+          dispose();
+          disposed++;
+        };
+      },
+    });
+    cleanups.push(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+    );
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`, {
+      headers: { authorization: 'Bearer secret' },
+    });
+    await new Promise<void>((resolve) => socket.once('open', () => resolve()));
+    const client = createWebSocketConnection(socket);
+
+    await expect(client.request('agents.echo', [42])).resolves.toEqual([42]);
+
+    socket.close();
+    await new Promise<void>((resolve) => socket.once('close', () => resolve()));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(client.isClosed).toBe(true);
+    expect(disposed).toBe(1);
+  });
+
+  it.each([
+    ['without the token', '', {}],
+    ['with a wrong token', '?token=guess', {}],
+    [
+      'from a browser origin',
+      '?token=secret',
+      { origin: 'https://example.com' },
+    ],
+  ])('refuses WebSocket clients %s', async (_, query, headers) => {
+    const { registry } = makeRegistry();
+    let connections = 0;
+    const server = createJsonRpcWebSocketServer({
+      port: 0,
+      host: '127.0.0.1',
+      token: 'secret',
+      onConnection: (connection) => {
+        connections++;
+        return serveCommandRegistry(connection, { registry });
+      },
+    });
+    cleanups.push(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+    );
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/${query}`, {
+      headers,
+    });
+    // Terminating the refused handshake emits an error
+    socket.on('error', () => {});
+    const status = await new Promise<number | undefined>((resolve) => {
+      socket.once('unexpected-response', (_request, response) =>
+        resolve(response.statusCode),
+      );
+      socket.once('open', () => resolve(undefined));
+    });
+    socket.terminate();
+
+    expect(status).toBe(401);
+    expect(connections).toBe(0);
+  });
+
+  it('accepts the token as a query parameter', async () => {
+    const server = createJsonRpcWebSocketServer({
+      port: 0,
+      host: '127.0.0.1',
+      token: 'secret',
+      onConnection: () => undefined,
+    });
+    cleanups.push(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+    );
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/?token=secret`);
+    await new Promise<void>((resolve) => socket.once('open', () => resolve()));
+    socket.close();
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  type AgentStore,
+  type CommandName,
+  type CommandRegistry,
+  UnknownCommandError,
+} from '@stagewise/agent-core';
+import type { JsonRpcConnection } from './connection';
+import { JsonRpcError, JsonRpcErrorCode } from './protocol';
+
+/**
+ * Built-in methods. The `rpc.` prefix is reserved by the JSON-RPC spec
+ * for extensions, so it can't clash with a registered command.
+ */
+export const CommandServerMethod = {
+  /** Returns the names of all registered commands. */
+  ListCommands: 'rpc.listCommands',
+  /**
+   * Starts `rpc.statePatch` notifications and returns `{ state }`, the
+   * snapshot the first patch applies to.
+   */
+  SubscribeState: 'rpc.subscribeState',
+  /** Stops `rpc.statePatch` notifications. */
+  UnsubscribeState: 'rpc.unsubscribeState',
+} as const;
+
+/** Notification carrying `{ patches }`, the Immer patches of one update. */
+export const STATE_PATCH_NOTIFICATION = 'rpc.statePatch';
+
+export interface CommandServerOptions {
+  registry: CommandRegistry;
+  /** Enables the state subscription methods when set. */
+  store?: Pick<AgentStore, 'get' | 'subscribe'>;
+  /** `CommandContext.callerId` for every dispatched command. */
+  callerId?: string;
+}
+
+/**
+ * Serves `registry` on `connection`: every registered command is a
+ * method of the same name. Positional params are passed to the handler
+ * as its args array (the shape `AgentManager` commands expect), named
+ * params as a single object, and a missing `params` as `[]`.
+ *
+ * Unknown commands fail with `MethodNotFound`, handler errors with
+ * `ServerError` and the error's name in `data.name`.
+ *
+ * Returns a function that detaches the handler and stops any state
+ * subscription; call it when the transport closes.
+ */
+export function serveCommandRegistry(
+  connection: JsonRpcConnection,
+  options: CommandServerOptions,
+): () => void {
+  const { registry, store, callerId = 'jsonrpc' } = options;
+  let unsubscribeState: (() => void) | null = null;
+
+  const stopStateUpdates = () => {
+    unsubscribeState?.();
+    unsubscribeState = null;
+  };
+
+  connection.onRequest(async (method, params) => {
+    switch (method) {
+      case CommandServerMethod.ListCommands:
+        return registry.list();
+
+      case CommandServerMethod.SubscribeState: {
+        if (!store) throw methodNotFound(method);
+        if (!unsubscribeState) {
+          unsubscribeState = store.subscribe((_state, _previous, patches) => {
+            // Store subscribers run inside `update()`, a dead transport
+            // must not fail the update
+            try {
+              connection.notify(STATE_PATCH_NOTIFICATION, { patches });
+            } catch {
+              stopStateUpdates();
+            }
+          });
+        }
+        return { state: store.get() };
+      }
+
+      case CommandServerMethod.UnsubscribeState:
+        if (!store) throw methodNotFound(method);
+        stopStateUpdates();
+        return null;
+    }
+
+    if (method.startsWith('rpc.')) throw methodNotFound(method);
+
+    try {
+      return await registry.dispatch(
+        method as CommandName,
+        { callerId },
+        params ?? [],
+      );
+    } catch (error) {
+      if (error instanceof UnknownCommandError) {
+        throw methodNotFound(method);
+      }
+      throw error;
+    }
+  });
+
+  return () => {
+    stopStateUpdates();
+    connection.onRequest(async (method) => {
+      throw methodNotFound(method);
+    });
+  };
+}
+
+function methodNotFound(method: string): JsonRpcError {
+  return new JsonRpcError(
+    JsonRpcErrorCode.MethodNotFound,
+    `Method not found: ${method}`,
+  );
+}
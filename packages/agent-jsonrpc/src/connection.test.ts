@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { JsonRpcConnection } from './connection';
+import { JsonRpcError, JsonRpcErrorCode } from './protocol';
+
+/** Two connections wired back to back through JSON, like a real transport. */
+function linkedPair() {
+  let a!: JsonRpcConnection;
+  let b!: JsonRpcConnection;
+  a = new JsonRpcConnection((message) => {
+    void b.receiveText(JSON.stringify(message));
+  });
+  b = new JsonRpcConnection((message) => {
+    void a.receiveText(JSON.stringify(message));
+  });
+  return { a, b };
+}
+
+function recording() {
+  const sent: unknown[] = [];
+  const connection = new JsonRpcConnection((message) => sent.push(message));
+  return { connection, sent };
+}
+
+describe('JsonRpcConnection', () => {
+  it('round-trips requests in both directions', async () => {
+    const { a, b } = linkedPair();
+    a.onRequest(async (method, params) => ({ method, params }));
+    b.onRequest(async () => 'pong');
+
+    await expect(b.request('echo', [1, 2])).resolves.toEqual({
+      method: 'echo',
+      params: [1, 2],
+    });
+    await expect(a.request('ping')).resolves.toBe('pong');
+  });
+
+  it('rejects with the peer error code', async () => {
+    const { a, b } = linkedPair();
+    a.onRequest(async () => {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, 'bad', {
+        field: 'x',
+      });
+    });
+
+    const error = await b.request('x').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(JsonRpcError);
+    expect(error).toMatchObject({
+      code: JsonRpcErrorCode.InvalidParams,
+      message: 'bad',
+      data: { field: 'x' },
+    });
+  });
+
+  it('reports plain handler errors as server errors', async () => {
+    const { connection, sent } = recording();
+    connection.onRequest(async () => {
+      throw new TypeError('boom');
+    });
+
+    await connection.receive({ jsonrpc: '2.0', id: 1, method: 'x' });
+    expect(sent).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        error: {
+          code: JsonRpcErrorCode.ServerError,
+          message: 'boom',
+          data: { name: 'TypeError' },
+        },
+      },
+    ]);
+  });
+
+  it('answers malformed input with parse and invalid request errors', async () => {
+    const { connection, sent } = recording();
+
+    await connection.receiveText('{not json');
+    await connection.receive({ jsonrpc: '2.0', id: 7 });
+    await connection.receive({ jsonrpc: '2.0', id: 8, method: 'x', params: 1 });
+
+    expect(sent).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JsonRpcErrorCode.ParseError, message: 'Parse error' },
+      },
+      {
+        jsonrpc: '2.0',
+        id: 7,
+        error: {
+          code: JsonRpcErrorCode.InvalidRequest,
+          message: 'Invalid Request',
+        },
+      },
+      {
+        jsonrpc: '2.0',
+        id: 8,
+        error: {
+          code: JsonRpcErrorCode.InvalidParams,
+          message: 'Params must be an array or an object',
+        },
+      },
+    ]);
+  });
+
+  it('answers batches with one array and skips notifications', async () => {
+    const { connection, sent } = recording();
+    const notified: string[] = [];
+    connection.onRequest(async (method) => method.toUpperCase());
+    connection.onNotification((method) => notified.push(method));
+
+    await connection.receive([
+      { jsonrpc: '2.0', id: 1, method: 'a' },
+      { jsonrpc: '2.0', method: 'note' },
+      { jsonrpc: '2.0', id: 2, method: 'b' },
+    ]);
+
+    expect(notified).toEqual(['note']);
+    expect(sent).toEqual([
+      [
+        { jsonrpc: '2.0', id: 1, result: 'A' },
+        { jsonrpc: '2.0', id: 2, result: 'B' },
+      ],
+    ]);
+  });
+
+  it('sends null for handlers without a result', async () => {
+    const { connection, sent } = recording();
+    connection.onRequest(async () => undefined);
+
+    await connection.receive({ jsonrpc: '2.0', id: 'x', method: 'void' });
+    expect(sent).toEqual([{ jsonrpc: '2.0', id: 'x', result: null }]);
+  });
+
+  it('rejects pending requests on close', async () => {
+    const { connection } = recording();
+    const pending = connection.request('slow');
+    connection.close();
+
+    await expect(pending).rejects.toMatchObject({
+      code: JsonRpcErrorCode.ConnectionClosed,
+    });
+    await expect(connection.request('late')).rejects.toMatchObject({
+      code: JsonRpcErrorCode.ConnectionClosed,
+    });
+  });
+});
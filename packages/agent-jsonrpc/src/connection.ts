@@ -0,0 +1,278 @@
+import {
+  type JsonRpcErrorObject,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcParams,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  JsonRpcError,
+  JsonRpcErrorCode,
+  hasValidParams,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+} from './protocol';
+
+/**
+ * Handles an incoming request. The resolved value becomes the `result`;
+ * a thrown `JsonRpcError` is sent with its code, anything else as a
+ * `ServerError`.
+ */
+export type JsonRpcRequestHandler = (
+  method: string,
+  params: JsonRpcParams | undefined,
+) => Promise<unknown>;
+
+export type JsonRpcNotificationHandler = (
+  method: string,
+  params: JsonRpcParams | undefined,
+) => void;
+
+interface PendingRequest {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+function toErrorObject(error: unknown): JsonRpcErrorObject {
+  if (error instanceof JsonRpcError) return error.toJSON();
+  const err = error instanceof Error ? error : new Error(String(error));
+  return {
+    code: JsonRpcErrorCode.ServerError,
+    message: err.message,
+    data: { name: err.name },
+  };
+}
+
+/**
+ * One end of a JSON-RPC 2.0 connection. Symmetric: both ends can send
+ * requests and notifications, so the same class serves a command server
+ * and an ACP agent calling back into its client.
+ *
+ * Framing is the transport's job. It hands every received message to
+ * `receive` (or raw text to `receiveText`) and writes whatever `send`
+ * gets; see `./stdio` and `./websocket`.
+ */
+export class JsonRpcConnection {
+  private readonly pending = new Map<JsonRpcId, PendingRequest>();
+  private requestHandler: JsonRpcRequestHandler | null = null;
+  private notificationHandler: JsonRpcNotificationHandler | null = null;
+  private nextId = 1;
+  private closed = false;
+
+  constructor(
+    private readonly send: (
+      message: JsonRpcMessage | JsonRpcResponse[],
+    ) => void,
+  ) {}
+
+  /** Replaces the handler for incoming requests. */
+  onRequest(handler: JsonRpcRequestHandler): void {
+    this.requestHandler = handler;
+  }
+
+  /** Replaces the handler for incoming notifications. */
+  onNotification(handler: JsonRpcNotificationHandler): void {
+    this.notificationHandler = handler;
+  }
+
+  /**
+   * Sends a request and resolves with the peer's result. Rejects with a
+   * `JsonRpcError` for error responses and when the connection closes.
+   */
+  request<TResult = unknown>(
+    method: string,
+    params?: JsonRpcParams,
+  ): Promise<TResult> {
+    if (this.closed) {
+      return Promise.reject(
+        new JsonRpcError(
+          JsonRpcErrorCode.ConnectionClosed,
+          `Connection closed before calling ${method}`,
+        ),
+      );
+    }
+    const id = this.nextId++;
+    return new Promise<TResult>((resolve, reject) => {
+      this.pending.set(id, {
+        method,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.send(
+        params === undefined
+          ? { jsonrpc: '2.0', id, method }
+          : { jsonrpc: '2.0', id, method, params },
+      );
+    });
+  }
+
+  notify(method: string, params?: JsonRpcParams): void {
+    if (this.closed) return;
+    this.send(
+      params === undefined
+        ? { jsonrpc: '2.0', method }
+        : { jsonrpc: '2.0', method, params },
+    );
+  }
+
+  /**
+   * Parses and handles one framed message. Malformed JSON is answered
+   * with a `ParseError` response.
+   */
+  async receiveText(text: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: JsonRpcErrorCode.ParseError,
+          message: 'Parse error',
+        },
+      });
+      return;
+    }
+    await this.receive(message);
+  }
+
+  /** Handles one parsed message or batch. */
+  async receive(message: unknown): Promise<void> {
+    if (this.closed) return;
+
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        this.send(invalidRequest(null));
+        return;
+      }
+      const responses = await Promise.all(
+        message.map((entry) => this.handleMessage(entry)),
+      );
+      const batch = responses.filter(
+        (response): response is JsonRpcResponse => response !== null,
+      );
+      if (batch.length > 0 && !this.closed) this.send(batch);
+      return;
+    }
+
+    const response = await this.handleMessage(message);
+    if (response && !this.closed) this.send(response);
+  }
+
+  /** Rejects outstanding requests and drops further traffic. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const request of this.pending.values()) {
+      request.reject(
+        new JsonRpcError(
+          JsonRpcErrorCode.ConnectionClosed,
+          `Connection closed while waiting for ${request.method}`,
+        ),
+      );
+    }
+    this.pending.clear();
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  private async handleMessage(
+    message: unknown,
+  ): Promise<JsonRpcResponse | null> {
+    if (isJsonRpcResponse(message)) {
+      this.handleResponse(message);
+      return null;
+    }
+
+    if (isJsonRpcNotification(message)) {
+      if (hasValidParams(message)) {
+        try {
+          this.notificationHandler?.(message.method, message.params);
+        } catch {
+          // Notifications have no way to report errors back
+        }
+      }
+      return null;
+    }
+
+    if (!isJsonRpcRequest(message)) {
+      const id =
+        typeof message === 'object' && message !== null && 'id' in message
+          ? (message as { id: unknown }).id
+          : null;
+      return invalidRequest(
+        typeof id === 'string' || typeof id === 'number' ? id : null,
+      );
+    }
+
+    return this.handleRequest(message);
+  }
+
+  private async handleRequest(
+    request: JsonRpcRequest,
+  ): Promise<JsonRpcResponse> {
+    if (!hasValidParams(request)) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: JsonRpcErrorCode.InvalidParams,
+          message: 'Params must be an array or an object',
+        },
+      };
+    }
+
+    if (!this.requestHandler) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: JsonRpcErrorCode.MethodNotFound,
+          message: `Method not found: ${request.method}`,
+        },
+      };
+    }
+
+    try {
+      const result = await this.requestHandler(request.method, request.params);
+      // `undefined` isn't valid JSON, void methods answer with `null`
+      return { jsonrpc: '2.0', id: request.id, result: result ?? null };
+    } catch (error) {
+      return { jsonrpc: '2.0', id: request.id, error: toErrorObject(error) };
+    }
+  }
+
+  private handleResponse(response: JsonRpcResponse): void {
+    if (response.id === null) return;
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if ('error' in response) {
+      request.reject(
+        new JsonRpcError(
+          response.error.code,
+          response.error.message,
+          response.error.data,
+        ),
+      );
+    } else {
+      request.resolve(response.result);
+    }
+  }
+}
+
+function invalidRequest(id: JsonRpcId | null): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: {
+      code: JsonRpcErrorCode.InvalidRequest,
+      message: 'Invalid Request',
+    },
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * `@stagewise/agent-jsonrpc` — JSON-RPC 2.0 transport for the agent-core
+ * `CommandRegistry`, over stdio or WebSocket.
+ *
+ * `serveCommandRegistry` projects every registered command onto a
+ * `JsonRpcConnection`; `createStdioConnection` and
+ * `createJsonRpcWebSocketServer` frame that connection for a transport.
+ */
+export * from './protocol';
+export * from './connection';
+export * from './command-server';
+export * from './stdio';
+export * from './websocket';
@@ -0,0 +1,132 @@
+/**
+ * JSON-RPC 2.0 message shapes and error codes
+ * (https://www.jsonrpc.org/specification).
+ */
+
+export type JsonRpcId = string | number;
+
+/** Positional or named parameters. */
+export type JsonRpcParams = unknown[] | Record<string, unknown>;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: JsonRpcParams;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: JsonRpcParams;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcSuccessResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: unknown;
+}
+
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  // `null` when the request id couldn't be determined (parse errors)
+  id: JsonRpcId | null;
+  error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+
+export type JsonRpcMessage =
+  | JsonRpcRequest
+  | JsonRpcNotification
+  | JsonRpcResponse;
+
+/**
+ * Standard codes from the specification. `-32000` to `-32099` are
+ * reserved for implementation-defined server errors.
+ */
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  /** A method handler threw; `data.name` carries the error's class name. */
+  ServerError: -32000,
+  /** The connection closed before a response arrived. */
+  ConnectionClosed: -32001,
+} as const;
+
+/**
+ * Error with a JSON-RPC code. Thrown by method handlers to pick the code
+ * the peer receives, and used to reject outgoing requests whose response
+ * was an error.
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  toJSON(): JsonRpcErrorObject {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is JsonRpcId {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+export function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  return (
+    isRecord(value) &&
+    value.jsonrpc === '2.0' &&
+    typeof value.method === 'string' &&
+    isId(value.id)
+  );
+}
+
+export function isJsonRpcNotification(
+  value: unknown,
+): value is JsonRpcNotification {
+  return (
+    isRecord(value) &&
+    value.jsonrpc === '2.0' &&
+    typeof value.method === 'string' &&
+    !('id' in value)
+  );
+}
+
+export function isJsonRpcResponse(value: unknown): value is JsonRpcResponse {
+  return (
+    isRecord(value) &&
+    value.jsonrpc === '2.0' &&
+    (isId(value.id) || value.id === null) &&
+    ('result' in value || isRecord(value.error))
+  );
+}
+
+/** Params must be structured when present. */
+export function hasValidParams(message: { params?: unknown }): boolean {
+  return (
+    message.params === undefined ||
+    Array.isArray(message.params) ||
+    isRecord(message.params)
+  );
+}
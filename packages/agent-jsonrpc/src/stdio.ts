@@ -0,0 +1,34 @@
+import { createInterface } from 'node:readline';
+import { JsonRpcConnection } from './connection';
+
+export interface StdioConnectionOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * A connection framed as newline-delimited JSON, one message per line.
+ * Defaults to the process' stdin/stdout, so nothing else may write to
+ * stdout while it is open — log to stderr instead.
+ *
+ * The connection closes when the input ends.
+ */
+export function createStdioConnection(
+  options: StdioConnectionOptions = {},
+): JsonRpcConnection {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  const connection = new JsonRpcConnection((message) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  });
+
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+  lines.on('line', (line) => {
+    if (line.trim() === '') return;
+    void connection.receiveText(line);
+  });
+  lines.on('close', () => connection.close());
+
+  return connection;
+}
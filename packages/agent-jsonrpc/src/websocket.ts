@@ -0,0 +1,82 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { type WebSocket, WebSocketServer, type ServerOptions } from 'ws';
+import { JsonRpcConnection } from './connection';
+
+/**
+ * Wraps an open WebSocket. Each text frame carries one message or batch.
+ * The connection closes with the socket.
+ */
+export function createWebSocketConnection(
+  socket: WebSocket,
+): JsonRpcConnection {
+  const connection = new JsonRpcConnection((message) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  });
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    void connection.receiveText(data.toString());
+  });
+  socket.on('close', () => connection.close());
+
+  return connection;
+}
+
+export interface JsonRpcWebSocketServerOptions
+  extends Omit<ServerOptions, 'verifyClient'> {
+  /**
+   * Secret every client must send, as `Authorization: Bearer <token>` or
+   * the `token` query parameter of the upgrade request.
+   */
+  token: string;
+  /**
+   * Called for every accepted socket. Returns a cleanup function that runs
+   * when the socket closes, e.g. the one from `serveCommandRegistry`.
+   */
+  onConnection: (
+    connection: JsonRpcConnection,
+    request: IncomingMessage,
+  ) => (() => void) | undefined;
+}
+
+/**
+ * Starts a `ws` server that gives every client its own connection. Pass
+ * `port` to listen, or `server`/`noServer` to share an existing HTTP
+ * server like any `WebSocketServer`.
+ *
+ * The commands can run shell tools, so upgrades without the `token` are
+ * refused, and so are upgrades with an `Origin` header: browsers send one
+ * on every WebSocket, which keeps web pages from reaching a local server.
+ */
+export function createJsonRpcWebSocketServer(
+  options: JsonRpcWebSocketServerOptions,
+): WebSocketServer {
+  const { onConnection, token, ...serverOptions } = options;
+  const server = new WebSocketServer({
+    ...serverOptions,
+    verifyClient: ({ req }: { req: IncomingMessage }) =>
+      req.headers.origin === undefined && hasToken(req, token),
+  });
+
+  server.on('connection', (socket, request) => {
+    const connection = createWebSocketConnection(socket);
+    const cleanup = onConnection(connection, request);
+    if (cleanup) socket.on('close', cleanup);
+  });
+
+  return server;
+}
+
+function hasToken(request: IncomingMessage, token: string): boolean {
+  const authorization = request.headers.authorization;
+  const sent = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : new URL(request.url ?? '/', 'ws://localhost').searchParams.get('token');
+  if (!sent || !token) return false;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(sent);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
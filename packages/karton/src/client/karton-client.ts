@@ -5,11 +5,17 @@ import type {
   KartonServerProcedures,
   KartonClientProcedureImplementations,
   WithFireAndForget,
+  KartonStatePath,
 } from '../shared/types.js';
 import type { Transport } from '../shared/transport.js';
 import { WebSocketTransport } from '../transports/websocket/client.js';
 import { RPCManager } from '../shared/rpc.js';
 import { ClientStateManager } from '../shared/state-sync.js';
+import {
+  createStateResyncMessage,
+  createStateSubscribeMessage,
+  isStateHelloMessage,
+} from '../shared/messages.js';
 import {
   createProcedureProxy,
   extractProceduresFromTree,
@@ -27,14 +33,23 @@ class KartonClientImpl<T> implements KartonClient<T> {
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectInterval = 500; // 500ms
   private onStateChange: (() => void) | undefined;
+  private subscriptions: KartonStatePath[] | null;
 
   constructor(config: KartonClientConfig<T>) {
     this.config = config;
     this.clientProcedures = config.procedures;
     this.onStateChange = config.onStateChange;
+    this.subscriptions = config.subscriptions ?? null;
 
     // Initialize state manager with fallback state
-    this.stateManager = new ClientStateManager(config.fallbackState);
+    this.stateManager = new ClientStateManager(
+      config.fallbackState,
+      (lastSeq) => {
+        if (this.transport?.isOpen()) {
+          this.transport.send(createStateResyncMessage(lastSeq));
+        }
+      },
+    );
 
     // Create server procedure proxy
     this._serverProcedures = createProcedureProxy(
@@ -89,6 +104,12 @@ class KartonClientImpl<T> implements KartonClient<T> {
 
       // Setup message handling
       this.transport.onMessage(async (message) => {
+        // The server holds back the state until it knows our subscription
+        if (isStateHelloMessage(message)) {
+          this.transport?.send(createStateSubscribeMessage(this.subscriptions));
+          return;
+        }
+
         // Handle state messages
         this.stateManager.handleMessage(message, this.onStateChange);
 
@@ -179,6 +200,14 @@ class KartonClientImpl<T> implements KartonClient<T> {
     return this._isConnected;
   }
 
+  public setSubscriptions(paths: KartonStatePath[] | null): void {
+    this.subscriptions = paths;
+    // Sent again in answer to the hello of every (re)connect
+    if (this._isConnected && this.transport?.isOpen()) {
+      this.transport.send(createStateSubscribeMessage(paths));
+    }
+  }
+
   public close(): void {
     this.clearReconnectTimer();
     this.cleanup();
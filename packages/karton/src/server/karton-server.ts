@@ -7,11 +7,24 @@ import type {
   Message,
   KartonState,
   KartonClientProceduresWithClientId,
+  KartonStatePath,
 } from '../shared/types.js';
 import type { Transport, ServerTransport } from '../shared/transport.js';
 import { WebSocketServerTransport } from '../transports/websocket/server.js';
 import { RPCManager } from '../shared/rpc.js';
 import { StateManager } from '../shared/state-sync.js';
+import {
+  createStateHelloMessage,
+  createStatePatchMessage,
+  isStatePatchMessage,
+  isStateResyncMessage,
+  isStateSubscribeMessage,
+  isStateSyncMessage,
+} from '../shared/messages.js';
+import {
+  filterPatchesForSubscriptions,
+  normalizeSubscriptions,
+} from '../shared/state-subscriptions.js';
 import {
   createProcedureProxy,
   extractProceduresFromTree,
@@ -26,6 +39,13 @@ interface ClientConnection {
   id: string;
   transport: Transport;
   rpcManager: RPCManager;
+  // `null` subscribes to the whole state
+  subscriptions: KartonStatePath[] | null;
+  // Set once the client answered the hello and got its first sync, no
+  // patches are sent before that
+  synced: boolean;
+  // Sequence number of the last state patch sent to this client
+  seq: number;
 }
 
 class KartonServerImpl<T> implements KartonServer<T> {
@@ -49,8 +69,10 @@ class KartonServerImpl<T> implements KartonServer<T> {
     }
 
     // Initialize state manager with broadcast function
-    this.stateManager = new StateManager(config.initialState, (message) =>
-      this.broadcast(message),
+    this.stateManager = new StateManager(
+      config.initialState,
+      (message) => this.broadcast(message),
+      config.patchBatching ?? 'microtask',
     );
 
     // Create client procedure proxy
@@ -114,22 +136,35 @@ class KartonServerImpl<T> implements KartonServer<T> {
       });
     }
 
-    // Setup message handling
-    transport.onMessage(async (message) => {
-      await rpcManager.handleMessage(message);
-    });
-
     // Store client connection
     const client: ClientConnection = {
       id: clientId,
       transport,
       rpcManager,
+      subscriptions: null,
+      synced: false,
+      seq: 0,
     };
-    this.clients.set(clientId, client);
 
-    // Send initial state
-    const initialStateMessage = this.stateManager.getFullStateSyncMessage();
-    transport.send(initialStateMessage);
+    // Setup message handling
+    transport.onMessage(async (message) => {
+      if (isStateSubscribeMessage(message)) {
+        client.subscriptions = normalizeSubscriptions(message.data.paths);
+        this.sendStateSync(client);
+        return;
+      }
+      if (isStateResyncMessage(message)) {
+        this.sendStateSync(client);
+        return;
+      }
+      await rpcManager.handleMessage(message);
+    });
+
+    // The initial state waits for the client's subscription, so it only
+    // ever receives the slices it asked for. The hello asks for it; the
+    // Electron transport also only opens once the server sent something.
+    this.clients.set(clientId, client);
+    client.transport.send(createStateHelloMessage());
 
     // Start the transport to begin receiving messages
     transport.startTransport();
@@ -144,12 +179,56 @@ class KartonServerImpl<T> implements KartonServer<T> {
     });
   }
 
+  private sendStateSync(client: ClientConnection): void {
+    // Building the sync flushes pending patches. An unsynced client skips
+    // them, since its first sync already contains their changes.
+    this.sendState(
+      client,
+      this.stateManager.getStateSyncMessage(client.subscriptions),
+    );
+    client.synced = true;
+  }
+
+  /**
+   * Stamps state messages with the client's patch sequence number, so the
+   * client can detect lost or reordered patches.
+   */
+  private sendState(client: ClientConnection, message: Message): void {
+    if (isStatePatchMessage(message)) {
+      client.seq++;
+      client.transport.send({
+        ...message,
+        data: { ...message.data, seq: client.seq },
+      });
+    } else if (isStateSyncMessage(message)) {
+      client.transport.send({
+        ...message,
+        data: { ...message.data, seq: client.seq },
+      });
+    } else {
+      client.transport.send(message);
+    }
+  }
+
   private broadcast(message: Message): void {
     // We serialize once here if we wanted optimization, but Transport interface doesn't support raw.
     // So we iterate and send object.
     for (const client of this.clients.values()) {
-      if (client.transport.isOpen()) {
-        client.transport.send(message);
+      if (!client.synced || !client.transport.isOpen()) continue;
+
+      if (client.subscriptions === null || !isStatePatchMessage(message)) {
+        this.sendState(client, message);
+        continue;
+      }
+
+      // Broadcast runs after the state manager applied the patches
+      const patches = filterPatchesForSubscriptions(
+        message.data.patch,
+        client.subscriptions,
+        this.stateManager.getState(),
+      );
+      if (patches.length > 0) {
+        this.sendState(client, createStatePatchMessage(patches));
       }
     }
   }
@@ -264,7 +343,14 @@ export function createKartonServer<T>(
   if (config.transport) {
     transport = config.transport;
   } else {
-    transport = new WebSocketServerTransport({ noServer: true });
+    transport = new WebSocketServerTransport({
+      noServer: true,
+      ...(config.compression && {
+        perMessageDeflate: {
+          threshold: config.compression.threshold ?? 64 * 1024,
+        },
+      }),
+    });
   }
 
   // Create and return the server implementation
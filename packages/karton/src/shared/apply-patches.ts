@@ -24,6 +24,9 @@ export function applyPatchesDirect<T>(base: T, patches: Patch[]): T {
 
 function shallowCopy(value: any): any {
   if (Array.isArray(value)) return value.slice();
+  // Missing intermediate nodes, e.g. a subscribed path below a key the
+  // client's fallback state doesn't have
+  if (value === null || typeof value !== 'object') return {};
   return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
 }
 
@@ -15,8 +15,19 @@ export type {
   RPCCallData,
   RPCReturnData,
   RPCExceptionData,
+  RPCStreamStartData,
+  RPCStreamItemData,
+  RPCStreamEndData,
+  RPCStreamPullData,
+  RPCStreamCancelData,
+  KartonStatePath,
+  StateSlice,
   StateSyncData,
   StatePatchData,
+  StateHelloData,
+  StateSubscribeData,
+  StateResyncData,
+  PatchBatching,
   MessageType as WebSocketMessageType,
   MessageData as WebSocketMessageData,
   Message as WebSocketMessage,
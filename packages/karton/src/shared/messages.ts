@@ -4,8 +4,18 @@ import type {
   RPCCallData,
   RPCReturnData,
   RPCExceptionData,
+  RPCStreamStartData,
+  RPCStreamItemData,
+  RPCStreamEndData,
+  RPCStreamPullData,
+  RPCStreamCancelData,
   StateSyncData,
   StatePatchData,
+  StateHelloData,
+  StateSubscribeData,
+  StateResyncData,
+  KartonStatePath,
+  StateSlice,
 } from './types';
 
 export function createRPCCallMessage(
@@ -58,6 +68,59 @@ export function createRPCExceptionMessage(
   };
 }
 
+export function createRPCStreamStartMessage(rpcCallId: string): Message {
+  return {
+    type: 'rpc_stream_start',
+    data: {
+      rpcCallId,
+    } as RPCStreamStartData,
+  };
+}
+
+export function createRPCStreamItemMessage(
+  rpcCallId: string,
+  value: unknown,
+): Message {
+  return {
+    type: 'rpc_stream_item',
+    data: {
+      rpcCallId,
+      value,
+    } as RPCStreamItemData,
+  };
+}
+
+export function createRPCStreamEndMessage(rpcCallId: string): Message {
+  return {
+    type: 'rpc_stream_end',
+    data: {
+      rpcCallId,
+    } as RPCStreamEndData,
+  };
+}
+
+export function createRPCStreamPullMessage(
+  rpcCallId: string,
+  count: number,
+): Message {
+  return {
+    type: 'rpc_stream_pull',
+    data: {
+      rpcCallId,
+      count,
+    } as RPCStreamPullData,
+  };
+}
+
+export function createRPCStreamCancelMessage(rpcCallId: string): Message {
+  return {
+    type: 'rpc_stream_cancel',
+    data: {
+      rpcCallId,
+    } as RPCStreamCancelData,
+  };
+}
+
 export function createStateSyncMessage(state: unknown): Message {
   return {
     type: 'state_sync',
@@ -67,6 +130,43 @@ export function createStateSyncMessage(state: unknown): Message {
   };
 }
 
+export function createPartialStateSyncMessage(slices: StateSlice[]): Message {
+  return {
+    type: 'state_sync',
+    data: {
+      state: undefined,
+      slices,
+    } as StateSyncData,
+  };
+}
+
+export function createStateHelloMessage(): Message {
+  return {
+    type: 'state_hello',
+    data: {} as StateHelloData,
+  };
+}
+
+export function createStateSubscribeMessage(
+  paths: KartonStatePath[] | null,
+): Message {
+  return {
+    type: 'state_subscribe',
+    data: {
+      paths,
+    } as StateSubscribeData,
+  };
+}
+
+export function createStateResyncMessage(lastSeq: number | null): Message {
+  return {
+    type: 'state_resync',
+    data: {
+      lastSeq,
+    } as StateResyncData,
+  };
+}
+
 export function createStatePatchMessage(patch: Patch[]): Message {
   return {
     type: 'state_patch',
@@ -94,6 +194,36 @@ export function isRPCExceptionMessage(
   return message.type === 'rpc_exception';
 }
 
+export function isRPCStreamStartMessage(
+  message: Message,
+): message is Message & { data: RPCStreamStartData } {
+  return message.type === 'rpc_stream_start';
+}
+
+export function isRPCStreamItemMessage(
+  message: Message,
+): message is Message & { data: RPCStreamItemData } {
+  return message.type === 'rpc_stream_item';
+}
+
+export function isRPCStreamEndMessage(
+  message: Message,
+): message is Message & { data: RPCStreamEndData } {
+  return message.type === 'rpc_stream_end';
+}
+
+export function isRPCStreamPullMessage(
+  message: Message,
+): message is Message & { data: RPCStreamPullData } {
+  return message.type === 'rpc_stream_pull';
+}
+
+export function isRPCStreamCancelMessage(
+  message: Message,
+): message is Message & { data: RPCStreamCancelData } {
+  return message.type === 'rpc_stream_cancel';
+}
+
 export function isStateSyncMessage(
   message: Message,
 ): message is Message & { data: StateSyncData } {
@@ -105,3 +235,21 @@ export function isStatePatchMessage(
 ): message is Message & { data: StatePatchData } {
   return message.type === 'state_patch';
 }
+
+export function isStateHelloMessage(
+  message: Message,
+): message is Message & { data: StateHelloData } {
+  return message.type === 'state_hello';
+}
+
+export function isStateSubscribeMessage(
+  message: Message,
+): message is Message & { data: StateSubscribeData } {
+  return message.type === 'state_subscribe';
+}
+
+export function isStateResyncMessage(
+  message: Message,
+): message is Message & { data: StateResyncData } {
+  return message.type === 'state_resync';
+}
@@ -8,9 +8,19 @@ import {
   createRPCCallMessage,
   createRPCReturnMessage,
   createRPCExceptionMessage,
+  createRPCStreamStartMessage,
+  createRPCStreamItemMessage,
+  createRPCStreamEndMessage,
+  createRPCStreamPullMessage,
+  createRPCStreamCancelMessage,
   isRPCCallMessage,
   isRPCReturnMessage,
   isRPCExceptionMessage,
+  isRPCStreamStartMessage,
+  isRPCStreamItemMessage,
+  isRPCStreamEndMessage,
+  isRPCStreamPullMessage,
+  isRPCStreamCancelMessage,
 } from './messages.js';
 
 export interface RPCCallOptions {
@@ -29,11 +39,148 @@ interface PendingCall {
 
 type ProcedureHandler = (...args: any[]) => Promise<any>;
 
+// A stream returned by a procedure on this side, sent to the caller as
+// long as it has granted credit.
+interface OutgoingStream {
+  iterator: AsyncIterator<unknown>;
+  credit: number;
+  cancelled: boolean;
+  resume: (() => void) | null;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * The caller side of a streamed procedure result. Items are buffered
+ * until they're consumed; the callee may only send as many items as
+ * were granted through `rpc_stream_pull`, so the buffer never holds more
+ * than `window` items. Consumed items are handed back as credit in
+ * batches of half the window.
+ */
+class IncomingStream implements AsyncIterableIterator<unknown> {
+  private buffer: unknown[] = [];
+  private waiting: {
+    resolve: (result: IteratorResult<unknown>) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private finished = false;
+  private error: Error | null = null;
+  private consumed = 0;
+
+  constructor(
+    private readonly rpcCallId: string,
+    public readonly procedurePath: string,
+    public readonly clientId: string | undefined,
+    private readonly window: number,
+    private readonly sendMessage: (message: Message) => void,
+    private readonly onClose: () => void,
+  ) {}
+
+  public start(): void {
+    this.sendMessage(createRPCStreamPullMessage(this.rpcCallId, this.window));
+  }
+
+  public push(value: unknown): void {
+    if (this.finished) return;
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      this.markConsumed();
+      resolve({ value, done: false });
+    } else {
+      this.buffer.push(value);
+    }
+  }
+
+  public end(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.onClose();
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  public fail(error: Error): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.onClose();
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    } else {
+      this.error = error;
+    }
+  }
+
+  public next(): Promise<IteratorResult<unknown>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift();
+      this.markConsumed();
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  public return(): Promise<IteratorResult<unknown>> {
+    this.buffer = [];
+    this.error = null;
+    if (!this.finished) {
+      this.finished = true;
+      this.onClose();
+      this.sendMessage(createRPCStreamCancelMessage(this.rpcCallId));
+    }
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<unknown> {
+    return this;
+  }
+
+  private markConsumed(): void {
+    if (this.finished) return;
+    this.consumed++;
+    if (this.consumed >= Math.ceil(this.window / 2)) {
+      this.sendMessage(
+        createRPCStreamPullMessage(this.rpcCallId, this.consumed),
+      );
+      this.consumed = 0;
+    }
+  }
+}
+
 export class RPCManager {
   private pendingCalls: Map<string, PendingCall> = new Map();
   private procedures: Map<string, ProcedureHandler> = new Map();
+  private incomingStreams: Map<string, IncomingStream> = new Map();
+  private outgoingStreams: Map<string, OutgoingStream> = new Map();
   private sendMessage: (message: Message) => void;
   private defaultTimeout = 30000; // 30 seconds
+  private streamWindow = 16; // items in flight per stream
   private callCounter = 0;
 
   constructor(sendMessage: (message: Message) => void) {
@@ -112,6 +259,18 @@ export class RPCManager {
       this.handleRPCReturn(message);
     } else if (isRPCExceptionMessage(message)) {
       this.handleRPCException(message);
+    } else if (isRPCStreamStartMessage(message)) {
+      this.handleRPCStreamStart(message);
+    } else if (isRPCStreamItemMessage(message)) {
+      this.incomingStreams
+        .get(message.data.rpcCallId)
+        ?.push(message.data.value);
+    } else if (isRPCStreamEndMessage(message)) {
+      this.incomingStreams.get(message.data.rpcCallId)?.end();
+    } else if (isRPCStreamPullMessage(message)) {
+      this.handleRPCStreamPull(message);
+    } else if (isRPCStreamCancelMessage(message)) {
+      this.cancelOutgoingStream(message.data.rpcCallId);
     }
   }
 
@@ -133,7 +292,11 @@ export class RPCManager {
     if (fireAndForget) {
       // Execute handler but skip sending any response
       try {
-        await handler(...parameters);
+        const result = await handler(...parameters);
+        if (isAsyncIterable(result)) {
+          // Nobody will consume the stream, let it release its resources
+          await result[Symbol.asyncIterator]().return?.();
+        }
       } catch {
         // Silently ignore — caller doesn't expect a response
       }
@@ -142,6 +305,10 @@ export class RPCManager {
 
     try {
       const result = await handler(...parameters);
+      if (isAsyncIterable(result)) {
+        this.startOutgoingStream(rpcCallId, result);
+        return;
+      }
       const returnMessage = createRPCReturnMessage(rpcCallId, result);
       this.sendMessage(returnMessage);
     } catch (error) {
@@ -166,16 +333,116 @@ export class RPCManager {
     const { rpcCallId, error } = message.data;
     const pendingCall = this.pendingCalls.get(rpcCallId);
 
+    // Reconstruct the error with proper prototype chain
+    const reconstructedError = Object.assign(new Error(error.message), error);
+
     if (pendingCall) {
       clearTimeout(pendingCall.timeout);
       this.pendingCalls.delete(rpcCallId);
-
-      // Reconstruct the error with proper prototype chain
-      const reconstructedError = Object.assign(new Error(error.message), error);
       pendingCall.reject(reconstructedError);
+    } else {
+      // A stream that failed after it started
+      this.incomingStreams.get(rpcCallId)?.fail(reconstructedError);
+    }
+  }
+
+  private handleRPCStreamStart(message: Message & { data: any }): void {
+    const { rpcCallId } = message.data;
+    const pendingCall = this.pendingCalls.get(rpcCallId);
+    if (!pendingCall) {
+      // The call already timed out, the callee can stop producing
+      this.sendMessage(createRPCStreamCancelMessage(rpcCallId));
+      return;
+    }
+
+    // The timeout only covers the call itself; streams may stay open
+    clearTimeout(pendingCall.timeout);
+    this.pendingCalls.delete(rpcCallId);
+
+    const stream = new IncomingStream(
+      rpcCallId,
+      pendingCall.procedurePath,
+      pendingCall.clientId,
+      this.streamWindow,
+      this.sendMessage,
+      () => this.incomingStreams.delete(rpcCallId),
+    );
+    this.incomingStreams.set(rpcCallId, stream);
+    pendingCall.resolve(stream);
+    stream.start();
+  }
+
+  private startOutgoingStream(
+    rpcCallId: string,
+    iterable: AsyncIterable<unknown>,
+  ): void {
+    const stream: OutgoingStream = {
+      iterator: iterable[Symbol.asyncIterator](),
+      credit: 0,
+      cancelled: false,
+      resume: null,
+    };
+    this.outgoingStreams.set(rpcCallId, stream);
+    this.sendMessage(createRPCStreamStartMessage(rpcCallId));
+    void this.pumpOutgoingStream(rpcCallId, stream);
+  }
+
+  private async pumpOutgoingStream(
+    rpcCallId: string,
+    stream: OutgoingStream,
+  ): Promise<void> {
+    try {
+      while (true) {
+        while (stream.credit === 0 && !stream.cancelled) {
+          await new Promise<void>((resolve) => {
+            stream.resume = resolve;
+          });
+        }
+        if (stream.cancelled) return;
+
+        const result = await stream.iterator.next();
+        if (stream.cancelled) return;
+
+        if (result.done) {
+          this.sendMessage(createRPCStreamEndMessage(rpcCallId));
+          return;
+        }
+        stream.credit--;
+        this.sendMessage(createRPCStreamItemMessage(rpcCallId, result.value));
+      }
+    } catch (error) {
+      if (stream.cancelled) return;
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.sendMessage(createRPCExceptionMessage(rpcCallId, err));
+    } finally {
+      if (this.outgoingStreams.get(rpcCallId) === stream) {
+        this.outgoingStreams.delete(rpcCallId);
+      }
     }
   }
 
+  private handleRPCStreamPull(message: Message & { data: any }): void {
+    const { rpcCallId, count } = message.data;
+    const stream = this.outgoingStreams.get(rpcCallId);
+    if (!stream || typeof count !== 'number' || count <= 0) return;
+
+    stream.credit += count;
+    stream.resume?.();
+    stream.resume = null;
+  }
+
+  private cancelOutgoingStream(rpcCallId: string): void {
+    const stream = this.outgoingStreams.get(rpcCallId);
+    if (!stream) return;
+
+    this.outgoingStreams.delete(rpcCallId);
+    stream.cancelled = true;
+    stream.resume?.();
+    stream.resume = null;
+    // Runs `finally` blocks of generators; errors have nowhere to go
+    stream.iterator.return?.()?.catch(() => {});
+  }
+
   public cleanup(): void {
     // Cancel all pending calls
     for (const [_callId, pendingCall] of this.pendingCalls) {
@@ -189,6 +456,22 @@ export class RPCManager {
       );
     }
     this.pendingCalls.clear();
+
+    for (const stream of [...this.incomingStreams.values()]) {
+      stream.fail(
+        new KartonRPCException(
+          KartonRPCErrorReason.CONNECTION_LOST,
+          stream.procedurePath,
+          stream.clientId,
+        ),
+      );
+    }
+    this.incomingStreams.clear();
+
+    for (const callId of [...this.outgoingStreams.keys()]) {
+      this.cancelOutgoingStream(callId);
+    }
+
     this.procedures.clear();
   }
 }
@@ -0,0 +1,121 @@
+import type { Patch } from 'immer';
+import type { KartonStatePath, StateSlice } from './types.js';
+import { applyPatchesDirect } from './apply-patches.js';
+
+/**
+ * Helpers for scoped state subscriptions. A client subscribes to a set of
+ * path prefixes and only receives the parts of the state below them.
+ *
+ * Subscriptions should point at object keys (e.g. an agent id), not array
+ * indices: patches that shift array items don't touch the subscribed index,
+ * so a subscription like `['list', 3]` would go stale.
+ */
+
+export function isPathPrefix(
+  prefix: KartonStatePath,
+  path: readonly (string | number)[],
+): boolean {
+  if (prefix.length > path.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    // Immer uses numbers for array indices, callers may pass strings
+    if (String(prefix[i]) !== String(path[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Drops paths that are already covered by a shorter one. Returns `null`
+ * (everything) if `paths` is `null` or contains the root path.
+ */
+export function normalizeSubscriptions(
+  paths: KartonStatePath[] | null,
+): KartonStatePath[] | null {
+  if (paths === null) return null;
+  if (paths.some((path) => path.length === 0)) return null;
+
+  const sorted = [...paths].sort((a, b) => a.length - b.length);
+  const result: KartonStatePath[] = [];
+  for (const path of sorted) {
+    if (!result.some((prefix) => isPathPrefix(prefix, path))) {
+      result.push(path);
+    }
+  }
+  return result;
+}
+
+export function getValueAtPath(state: unknown, path: KartonStatePath): unknown {
+  let current: any = state;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * The subscribed parts of `state`. Paths that don't exist (yet) are left
+ * out, the client keeps its fallback values for them.
+ */
+export function getStateSlices(
+  state: unknown,
+  paths: KartonStatePath[],
+): StateSlice[] {
+  const slices: StateSlice[] = [];
+  for (const path of paths) {
+    const value = getValueAtPath(state, path);
+    if (value !== undefined) slices.push({ path, value });
+  }
+  return slices;
+}
+
+/**
+ * Writes each slice into `base` with structural sharing.
+ */
+export function applyStateSlices<T>(base: T, slices: StateSlice[]): T {
+  return applyPatchesDirect(
+    base,
+    slices.map(({ path, value }) => ({ op: 'replace', path, value })),
+  );
+}
+
+/**
+ * Reduces a batch of patches to the ones a connection subscribed to.
+ *
+ * Patches below a subscribed path are passed through. A patch above one
+ * (e.g. replacing the whole `agents` map while the client watches a
+ * single agent) would send unsubscribed siblings along, so the batch
+ * instead gets a single `replace` of the subscribed path with its value
+ * in `state`, which must already be the state after the patches. Other
+ * patches below that path are dropped since the replace covers them.
+ */
+export function filterPatchesForSubscriptions(
+  patches: Patch[],
+  paths: KartonStatePath[],
+  state: unknown,
+): Patch[] {
+  const replaced = paths.filter((subscription) =>
+    patches.some(
+      (patch) =>
+        patch.path.length < subscription.length &&
+        isPathPrefix(patch.path, subscription),
+    ),
+  );
+
+  const filtered = patches.filter((patch) =>
+    paths.some(
+      (subscription) =>
+        !replaced.includes(subscription) &&
+        isPathPrefix(subscription, patch.path),
+    ),
+  );
+
+  for (const subscription of replaced) {
+    filtered.push({
+      op: 'replace',
+      path: subscription,
+      value: getValueAtPath(state, subscription),
+    });
+  }
+
+  return filtered;
+}
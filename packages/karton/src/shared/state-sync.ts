@@ -1,24 +1,36 @@
 import { produce, freeze, enablePatches, type Patch } from 'immer';
 import type { Draft } from 'immer';
-import type { Message } from './types.js';
+import type { KartonStatePath, Message, PatchBatching } from './types.js';
 import {
   createStateSyncMessage,
+  createPartialStateSyncMessage,
   createStatePatchMessage,
   isStateSyncMessage,
   isStatePatchMessage,
 } from './messages.js';
 import { applyPatchesDirect } from './apply-patches.js';
+import { applyStateSlices, getStateSlices } from './state-subscriptions.js';
 
 // Enable Immer patches globally
 enablePatches();
 
+const FRAME_MS = 16;
+
 export class StateManager<T> {
   private state: T;
   private broadcast: (message: Message) => void;
+  private batching: PatchBatching;
+  private pendingPatches: Patch[] = [];
+  private flushScheduled = false;
 
-  constructor(initialState: T, broadcast: (message: Message) => void) {
+  constructor(
+    initialState: T,
+    broadcast: (message: Message) => void,
+    batching: PatchBatching = 'none',
+  ) {
     this.state = freeze(initialState as any, true) as T;
     this.broadcast = broadcast;
+    this.batching = batching;
   }
 
   public setState(recipe: (draft: Draft<T>) => void): T {
@@ -32,20 +44,57 @@ export class StateManager<T> {
 
     if (patches.length > 0) {
       this.state = freeze(newState, true) as T;
-      const patchMessage = createStatePatchMessage(patches);
-      this.broadcast(patchMessage);
+      this.pendingPatches.push(...patches);
+      if (this.batching === 'none') {
+        this.flush();
+      } else {
+        this.scheduleFlush();
+      }
     }
 
     return this.state;
   }
 
+  /**
+   * Broadcasts all patches that are waiting for their batch to close.
+   */
+  public flush(): void {
+    if (this.pendingPatches.length === 0) return;
+    const patches = this.pendingPatches;
+    this.pendingPatches = [];
+    this.broadcast(createStatePatchMessage(patches));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    const run = () => {
+      this.flushScheduled = false;
+      this.flush();
+    };
+    if (this.batching === 'frame') {
+      setTimeout(run, FRAME_MS);
+    } else {
+      queueMicrotask(run);
+    }
+  }
+
   public getState(): Readonly<T> {
     return this.state;
   }
 
   public getFullStateSyncMessage(): Message {
+    // The sync already contains the pending changes, clients must not
+    // receive their patches afterwards
+    this.flush();
     return createStateSyncMessage(this.state);
   }
+
+  public getStateSyncMessage(paths: KartonStatePath[] | null): Message {
+    if (paths === null) return this.getFullStateSyncMessage();
+    this.flush();
+    return createPartialStateSyncMessage(getStateSlices(this.state, paths));
+  }
 }
 
 /**
@@ -77,20 +126,51 @@ export class StateManager<T> {
 export class ClientStateManager<T> {
   private state: T;
   private fallbackState: T;
+  private requestResync: ((lastSeq: number | null) => void) | undefined;
+  // Sequence number of the last applied patch, `null` before the first
+  // numbered sync
+  private lastSeq: number | null = null;
+  private awaitingResync = false;
 
-  constructor(fallbackState: T) {
+  constructor(
+    fallbackState: T,
+    requestResync?: (lastSeq: number | null) => void,
+  ) {
     this.fallbackState = fallbackState;
     this.state = this.fallbackState;
+    this.requestResync = requestResync;
   }
 
   public handleMessage(message: Message, onStateChange?: () => void): void {
     if (isStateSyncMessage(message)) {
-      this.state = (message.data as any).state as T;
+      const { state, slices } = message.data;
+      // A scoped sync only carries the subscribed parts, the rest falls
+      // back so stale data from an earlier scope doesn't linger
+      this.state = slices
+        ? applyStateSlices(this.fallbackState, slices)
+        : (state as T);
+      this.lastSeq = message.data.seq ?? null;
+      this.awaitingResync = false;
       onStateChange?.();
     } else if (isStatePatchMessage(message)) {
+      const { patch: patches, seq } = message.data;
+
+      // Servers number their patches per connection. A gap means a patch
+      // got lost or reordered, and applying later ones on top would
+      // silently corrupt the state, so wait for a fresh sync instead.
+      if (seq !== undefined) {
+        if (this.awaitingResync) return;
+        if (this.lastSeq !== null && seq <= this.lastSeq) return;
+        if (this.lastSeq === null || seq !== this.lastSeq + 1) {
+          this.awaitingResync = true;
+          this.requestResync?.(this.lastSeq);
+          return;
+        }
+        this.lastSeq = seq;
+      }
+
       // O(path_depth) structural sharing instead of Immer's
       // produce/finalize which is O(state_size) per patch.
-      const patches = (message.data as any).patch as Patch[];
       this.state = applyPatchesDirect(this.state, patches);
       onStateChange?.();
     }
@@ -102,5 +182,7 @@ export class ClientStateManager<T> {
 
   public reset(): void {
     this.state = this.fallbackState;
+    this.lastSeq = null;
+    this.awaitingResync = false;
   }
 }
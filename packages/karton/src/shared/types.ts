@@ -341,37 +341,125 @@ export interface RPCExceptionData {
   error: Error;
 }
 
+export interface RPCStreamStartData {
+  rpcCallId: string;
+}
+
+export interface RPCStreamItemData {
+  rpcCallId: string;
+  value: unknown;
+}
+
+export interface RPCStreamEndData {
+  rpcCallId: string;
+}
+
+export interface RPCStreamPullData {
+  rpcCallId: string;
+  count: number;
+}
+
+export interface RPCStreamCancelData {
+  rpcCallId: string;
+}
+
+/**
+ * A path into the state, e.g. `['agents', 'instances', agentId]`.
+ */
+export type KartonStatePath = (string | number)[];
+
+export interface StateSlice {
+  path: KartonStatePath;
+  value: unknown;
+}
+
 export interface StateSyncData {
   state: unknown;
+  // Set instead of `state` for connections with a scoped subscription
+  slices?: StateSlice[];
+  // Sequence number of the last patch included in this state
+  seq?: number;
 }
 
 export interface StatePatchData {
   patch: Patch[];
+  // Numbered per connection, starting at 1 after the first sync
+  seq?: number;
+}
+
+// Sent by the server when a client connects. The client answers with its
+// `state_subscribe`, which the server answers with the first `state_sync`.
+export type StateHelloData = Record<string, never>;
+
+export interface StateSubscribeData {
+  // `null` subscribes to the whole state
+  paths: KartonStatePath[] | null;
+}
+
+export interface StateResyncData {
+  // Last patch the client applied before it detected a gap
+  lastSeq: number | null;
 }
 
 export type MessageType =
   | 'rpc_call'
   | 'rpc_return'
   | 'rpc_exception'
+  | 'rpc_stream_start'
+  | 'rpc_stream_item'
+  | 'rpc_stream_end'
+  | 'rpc_stream_pull'
+  | 'rpc_stream_cancel'
   | 'state_sync'
-  | 'state_patch';
+  | 'state_patch'
+  | 'state_hello'
+  | 'state_subscribe'
+  | 'state_resync';
 
 export type MessageData =
   | RPCCallData
   | RPCReturnData
   | RPCExceptionData
+  | RPCStreamStartData
+  | RPCStreamItemData
+  | RPCStreamEndData
+  | RPCStreamPullData
+  | RPCStreamCancelData
   | StateSyncData
-  | StatePatchData;
+  | StatePatchData
+  | StateHelloData
+  | StateSubscribeData
+  | StateResyncData;
 
 export interface Message {
   type: MessageType;
   data: MessageData;
 }
 
+/**
+ * How `setState` calls are grouped into `state_patch` messages:
+ * - `none`: one message per `setState` call.
+ * - `microtask`: all calls within the same synchronous run.
+ * - `frame`: all calls within ~16ms. Patches may then arrive after the
+ *   return value of the procedure that caused them.
+ */
+export type PatchBatching = 'none' | 'microtask' | 'frame';
+
 export interface KartonServerConfig<T> {
   procedures?: KartonServerProcedureImplementations<T>;
   initialState: KartonState<T>;
   transport?: ServerTransport;
+  /**
+   * How `setState` calls are coalesced into patch messages. Defaults to
+   * `microtask`.
+   */
+  patchBatching?: PatchBatching;
+  /**
+   * Compress WebSocket messages larger than `threshold` bytes (default
+   * 64 KiB) with permessage-deflate, which mostly hits `state_sync`.
+   * Only applies to the built-in WebSocket transport.
+   */
+  compression?: { threshold?: number };
 }
 
 export interface KartonServer<T> {
@@ -408,12 +496,23 @@ export interface KartonClientConfig<T> {
   procedures: KartonClientProcedureImplementations<T>;
   fallbackState: KartonState<T>;
   onStateChange?: () => void;
+  /**
+   * Path prefixes of the state this client needs. The server only sends
+   * patches below them; everything else keeps its `fallbackState` value.
+   * Omit to receive the whole state.
+   */
+  subscriptions?: KartonStatePath[];
 }
 
 export interface KartonClient<T> {
   state: Readonly<KartonState<T>>;
   serverProcedures: WithFireAndForget<KartonServerProcedures<T>>;
   isConnected: boolean;
+  /**
+   * Replaces the subscriptions from the config (`null` for the whole
+   * state). The server answers with a fresh sync of the new scope.
+   */
+  setSubscriptions: (paths: KartonStatePath[] | null) => void;
 }
 
 export type CreateKartonServer = <T>(
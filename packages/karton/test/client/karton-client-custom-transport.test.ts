@@ -1,5 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createKartonClient } from '../../src/client/karton-client.js';
+import {
+  createStateHelloMessage,
+  createStateSubscribeMessage,
+} from '../../src/shared/messages.js';
 import type { Transport, KartonMessage } from '../../src/shared/transport.js';
 
 class MockTransport implements Transport {
@@ -23,12 +27,16 @@ class MockTransport implements Transport {
   onClose(handler: any) { return () => {}; }
   onError(handler: any) { return () => {}; }
   close() { this._isOpen = false; }
+  startTransport() {}
 
   // Test helper
   simulateOpen() {
     this._isOpen = true;
     this.openHandlers.forEach(h => h());
   }
+  simulateMessage(message: KartonMessage) {
+    this.onMessageHandlers.forEach(h => h(message));
+  }
 }
 
 describe('Karton Client with Custom Transport', () => {
@@ -44,5 +52,21 @@ describe('Karton Client with Custom Transport', () => {
     transport.simulateOpen();
     expect(client.isConnected).toBe(true);
   });
-});
 
+  it('should answer the server hello with its subscriptions', () => {
+    const transport = new MockTransport();
+    createKartonClient<any>({
+      transport,
+      procedures: {},
+      fallbackState: { agents: {} },
+      subscriptions: [['agents', 'a']],
+    });
+
+    transport.simulateOpen();
+    expect(transport.sentMessages).toEqual([]);
+    transport.simulateMessage(createStateHelloMessage());
+    expect(transport.sentMessages).toEqual([
+      createStateSubscribeMessage([['agents', 'a']]),
+    ]);
+  });
+});
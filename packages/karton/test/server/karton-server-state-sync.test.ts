@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createKartonServer } from '../../src/server/karton-server.js';
+import {
+  createStateResyncMessage,
+  createStateSubscribeMessage,
+} from '../../src/shared/messages.js';
+import type { KartonServer } from '../../src/shared/types.js';
+import type {
+  Transport,
+  ServerTransport,
+  KartonMessage,
+} from '../../src/shared/transport.js';
+
+class MockTransport implements Transport {
+  public onMessageCallback: ((message: KartonMessage) => void) | undefined;
+  public sent: KartonMessage[] = [];
+
+  constructor(private connectionId: string) {}
+
+  getConnectionId() {
+    return this.connectionId;
+  }
+  send(message: KartonMessage) {
+    this.sent.push(message);
+  }
+  onMessage(handler: (message: KartonMessage) => void) {
+    this.onMessageCallback = handler;
+    return () => {};
+  }
+  close() {}
+  isOpen() {
+    return true;
+  }
+  onOpen(_handler: () => void) {
+    return () => {};
+  }
+  onClose(_handler: (event?: { code: number; reason: string }) => void) {
+    return () => {};
+  }
+  onError(_handler: (error: Error) => void) {
+    return () => {};
+  }
+  startTransport() {}
+}
+
+class MockServerTransport implements ServerTransport {
+  public onConnectionCallback:
+    | ((clientTransport: Transport) => void)
+    | undefined;
+
+  onConnection(handler: (clientTransport: Transport) => void) {
+    this.onConnectionCallback = handler;
+  }
+  async close() {}
+}
+
+type TestAppType = {
+  state: { items: string[] };
+  serverProcedures: {};
+  clientProcedures: {};
+};
+
+describe('KartonServer state sync', () => {
+  let server: KartonServer<TestAppType>;
+  let serverTransport: MockServerTransport;
+
+  beforeEach(async () => {
+    serverTransport = new MockServerTransport();
+    server = await createKartonServer<TestAppType>({
+      initialState: { items: [] },
+      transport: serverTransport,
+    });
+  });
+
+  // Connects a client and answers the server's hello like the client does
+  function connect(id: string): MockTransport {
+    const transport = new MockTransport(id);
+    serverTransport.onConnectionCallback?.(transport);
+    transport.onMessageCallback?.(createStateSubscribeMessage(null));
+    return transport;
+  }
+
+  it('should number patches per connection', async () => {
+    const first = connect('client-1');
+    server.setState((draft) => {
+      draft.items.push('a');
+    });
+    await Promise.resolve();
+    const second = connect('client-2');
+    server.setState((draft) => {
+      draft.items.push('b');
+    });
+    await Promise.resolve();
+
+    expect(first.sent.map((m) => [m.type, (m.data as any).seq])).toEqual([
+      ['state_hello', undefined],
+      ['state_sync', 0],
+      ['state_patch', 1],
+      ['state_patch', 2],
+    ]);
+    expect(second.sent.map((m) => [m.type, (m.data as any).seq])).toEqual([
+      ['state_hello', undefined],
+      ['state_sync', 0],
+      ['state_patch', 1],
+    ]);
+  });
+
+  it('should coalesce setState calls into one patch message', async () => {
+    const client = connect('client-1');
+    server.setState((draft) => {
+      draft.items.push('a');
+    });
+    server.setState((draft) => {
+      draft.items.push('b');
+    });
+    await Promise.resolve();
+
+    expect(client.sent).toHaveLength(3);
+    expect((client.sent[2]!.data as any).patch).toHaveLength(2);
+  });
+
+  it('should not send pending patches to clients that connect before the flush', async () => {
+    server.setState((draft) => {
+      draft.items.push('a');
+    });
+    const client = connect('client-1');
+    await Promise.resolve();
+
+    expect(client.sent).toEqual([
+      { type: 'state_hello', data: {} },
+      { type: 'state_sync', data: { state: { items: ['a'] }, seq: 0 } },
+    ]);
+  });
+
+  it('should answer a resync request with the current state', async () => {
+    const client = connect('client-1');
+    server.setState((draft) => {
+      draft.items.push('a');
+    });
+    await Promise.resolve();
+
+    await client.onMessageCallback?.(createStateResyncMessage(0));
+
+    expect(client.sent[3]).toEqual({
+      type: 'state_sync',
+      data: { state: { items: ['a'] }, seq: 1 },
+    });
+  });
+
+  it('should enable permessage-deflate when compression is configured', async () => {
+    const compressed = await createKartonServer<TestAppType>({
+      initialState: { items: [] },
+      compression: { threshold: 1024 },
+    });
+
+    expect(compressed.wss?.options.perMessageDeflate).toEqual({
+      threshold: 1024,
+    });
+    await (compressed as any).close();
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createKartonServer } from '../../src/server/karton-server.js';
+import {
+  createStateResyncMessage,
+  createStateSubscribeMessage,
+} from '../../src/shared/messages.js';
+import type {
+  KartonServer,
+  KartonStatePath,
+} from '../../src/shared/types.js';
+import type {
+  Transport,
+  ServerTransport,
+  KartonMessage,
+} from '../../src/shared/transport.js';
+
+class MockTransport implements Transport {
+  public onMessageCallback: ((message: KartonMessage) => void) | undefined;
+  public sent: KartonMessage[] = [];
+
+  constructor(private connectionId: string) {}
+
+  getConnectionId() {
+    return this.connectionId;
+  }
+  send(message: KartonMessage) {
+    this.sent.push(message);
+  }
+  onMessage(handler: (message: KartonMessage) => void) {
+    this.onMessageCallback = handler;
+    return () => {};
+  }
+  close() {}
+  isOpen() {
+    return true;
+  }
+  onOpen(_handler: () => void) {
+    return () => {};
+  }
+  onClose(_handler: (event?: { code: number; reason: string }) => void) {
+    return () => {};
+  }
+  onError(_handler: (error: Error) => void) {
+    return () => {};
+  }
+  startTransport() {}
+}
+
+class MockServerTransport implements ServerTransport {
+  public onConnectionCallback:
+    | ((clientTransport: Transport) => void)
+    | undefined;
+
+  onConnection(handler: (clientTransport: Transport) => void) {
+    this.onConnectionCallback = handler;
+  }
+  async close() {}
+}
+
+type TestAppType = {
+  state: {
+    agents: Record<string, { history: string[] }>;
+  };
+  serverProcedures: {};
+  clientProcedures: {};
+};
+
+describe('KartonServer scoped subscriptions', () => {
+  let server: KartonServer<TestAppType>;
+  let serverTransport: MockServerTransport;
+
+  beforeEach(async () => {
+    serverTransport = new MockServerTransport();
+    server = await createKartonServer<TestAppType>({
+      initialState: { agents: { a: { history: [] }, b: { history: [] } } },
+      transport: serverTransport,
+      patchBatching: 'none',
+    });
+  });
+
+  // Connects a client and answers the server's hello like the client does
+  function connect(id: string, paths: KartonStatePath[] | null): MockTransport {
+    const transport = new MockTransport(id);
+    serverTransport.onConnectionCallback?.(transport);
+    transport.onMessageCallback?.(createStateSubscribeMessage(paths));
+    return transport;
+  }
+
+  it('should scope the first sync to the subscription of the handshake', () => {
+    const client = connect('client-1', [['agents', 'a']]);
+
+    expect(client.sent).toEqual([
+      { type: 'state_hello', data: {} },
+      {
+        type: 'state_sync',
+        data: {
+          state: undefined,
+          slices: [{ path: ['agents', 'a'], value: { history: [] } }],
+          seq: 0,
+        },
+      },
+    ]);
+  });
+
+  it('should never send unsubscribed keys to the client', async () => {
+    const transport = new MockTransport('client-1');
+    serverTransport.onConnectionCallback?.(transport);
+    // Changes between the hello and the subscription are not sent either
+    server.setState((draft) => {
+      draft.agents.b!.history.push('secret of b');
+    });
+    await transport.onMessageCallback?.(
+      createStateSubscribeMessage([['agents', 'a']]),
+    );
+    server.setState((draft) => {
+      draft.agents.a!.history.push('for a');
+      draft.agents.b!.history.push('secret of b');
+    });
+    await transport.onMessageCallback?.(createStateResyncMessage(0));
+
+    expect(transport.sent.map((m) => m.type)).toEqual([
+      'state_hello',
+      'state_sync',
+      'state_patch',
+      'state_sync',
+    ]);
+    const sent = JSON.stringify(transport.sent);
+    expect(sent).toContain('for a');
+    expect(sent).not.toContain('secret of b');
+    expect(sent).not.toContain('"b"');
+  });
+
+  it('should only send patches below the subscribed paths', async () => {
+    const scoped = connect('client-1', [['agents', 'a']]);
+    const unscoped = connect('client-2', null);
+    scoped.sent = [];
+    unscoped.sent = [];
+
+    server.setState((draft) => {
+      draft.agents.b!.history.push('for b');
+    });
+    server.setState((draft) => {
+      draft.agents.a!.history.push('for a');
+    });
+
+    expect(scoped.sent).toEqual([
+      {
+        type: 'state_patch',
+        data: {
+          patch: [
+            { op: 'add', path: ['agents', 'a', 'history', 0], value: 'for a' },
+          ],
+          // Filtered patches don't use up sequence numbers
+          seq: 1,
+        },
+      },
+    ]);
+    expect(unscoped.sent).toHaveLength(2);
+  });
+
+  it('should go back to the whole state when unsubscribing', async () => {
+    const client = connect('client-1', [['agents', 'a']]);
+    await client.onMessageCallback?.(createStateSubscribeMessage(null));
+
+    expect(client.sent[2]).toEqual({
+      type: 'state_sync',
+      data: { state: server.state, seq: 0 },
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import superjson from 'superjson';
+import { RPCManager } from '../../src/shared/rpc.js';
+import {
+  createRPCStreamPullMessage,
+  createRPCStreamCancelMessage,
+} from '../../src/shared/messages.js';
+import {
+  KartonRPCException,
+  KartonRPCErrorReason,
+} from '../../src/shared/types.js';
+import type { WebSocketMessage } from '../../src/shared/types.js';
+
+// Two managers connected like a client and a server. Messages go through
+// superjson and are delivered asynchronously, like the WebSocket transport.
+function createLinkedManagers() {
+  const sent: WebSocketMessage[] = [];
+  let caller!: RPCManager;
+  let callee!: RPCManager;
+
+  const deliver = (target: () => RPCManager) => (message: WebSocketMessage) => {
+    sent.push(message);
+    const copy = superjson.parse<WebSocketMessage>(
+      superjson.stringify(message),
+    );
+    setTimeout(() => void target().handleMessage(copy), 0);
+  };
+
+  caller = new RPCManager(deliver(() => callee));
+  callee = new RPCManager(deliver(() => caller));
+
+  return { caller, callee, sent };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('RPC streaming', () => {
+  let caller: RPCManager;
+  let callee: RPCManager;
+  let sent: WebSocketMessage[];
+
+  beforeEach(() => {
+    ({ caller, callee, sent } = createLinkedManagers());
+  });
+
+  it('should stream items returned as an async iterable', async () => {
+    callee.registerProcedure('count', async (to: number) => {
+      return (async function* () {
+        for (let i = 1; i <= to; i++) yield i;
+      })();
+    });
+
+    const stream = (await caller.call('count', [40])) as AsyncIterable<number>;
+    const items: number[] = [];
+    for await (const item of stream) items.push(item);
+
+    expect(items).toEqual(Array.from({ length: 40 }, (_, i) => i + 1));
+    expect(sent.filter((m) => m.type === 'rpc_stream_end')).toHaveLength(1);
+    expect(sent.some((m) => m.type === 'rpc_return')).toBe(false);
+  });
+
+  it('should still return plain values', async () => {
+    callee.registerProcedure('add', async (a: number, b: number) => a + b);
+    expect(await caller.call('add', [1, 2])).toBe(3);
+  });
+
+  it('should not produce more items than the caller requested', async () => {
+    let produced = 0;
+    callee.registerProcedure('infinite', async () => {
+      return (async function* () {
+        while (true) {
+          produced++;
+          yield produced;
+        }
+      })();
+    });
+
+    const stream = (await caller.call('infinite', [])) as AsyncIterator<number>;
+    await tick();
+
+    // The initial window is 16 items, nothing was consumed yet
+    expect(produced).toBe(16);
+
+    for (let i = 0; i < 8; i++) await stream.next();
+    await tick();
+    expect(produced).toBe(24);
+
+    await stream.return?.();
+  });
+
+  it('should stop the producer when the caller breaks out', async () => {
+    let finalized = false;
+    callee.registerProcedure('ticks', async () => {
+      return (async function* () {
+        try {
+          for (let i = 0; ; i++) yield i;
+        } finally {
+          finalized = true;
+        }
+      })();
+    });
+
+    const stream = (await caller.call('ticks', [])) as AsyncIterable<number>;
+    for await (const item of stream) {
+      if (item === 3) break;
+    }
+    await tick();
+
+    expect(finalized).toBe(true);
+    expect(sent.some((m) => m.type === 'rpc_stream_cancel')).toBe(true);
+  });
+
+  it('should rethrow errors raised while streaming', async () => {
+    callee.registerProcedure('failing', async () => {
+      return (async function* () {
+        yield 1;
+        throw new Error('Producer failed');
+      })();
+    });
+
+    const stream = (await caller.call('failing', [])) as AsyncIterable<number>;
+    const items: number[] = [];
+    await expect(async () => {
+      for await (const item of stream) items.push(item);
+    }).rejects.toThrow('Producer failed');
+    expect(items).toEqual([1]);
+  });
+
+  it('should fail open streams with CONNECTION_LOST on cleanup', async () => {
+    callee.registerProcedure('never', async () => {
+      return (async function* () {
+        yield 1;
+        await new Promise(() => {});
+      })();
+    });
+
+    const stream = (await caller.call('never', [])) as AsyncIterator<number>;
+    expect(await stream.next()).toEqual({ value: 1, done: false });
+
+    const pending = stream.next();
+    caller.cleanup();
+
+    await expect(pending).rejects.toThrow(KartonRPCException);
+    await pending.catch((error) => {
+      expect((error as KartonRPCException).reason).toBe(
+        KartonRPCErrorReason.CONNECTION_LOST,
+      );
+      expect((error as KartonRPCException).procedurePath).toBe('never');
+    });
+  });
+
+  it('should ignore pull and cancel messages for unknown streams', async () => {
+    await callee.handleMessage(createRPCStreamPullMessage('c99', 5));
+    await callee.handleMessage(createRPCStreamCancelMessage('c99'));
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { produce, enablePatches, type Patch } from 'immer';
+import {
+  applyStateSlices,
+  filterPatchesForSubscriptions,
+  getStateSlices,
+  normalizeSubscriptions,
+} from '../../src/shared/state-subscriptions.js';
+import { applyPatchesDirect } from '../../src/shared/apply-patches.js';
+
+enablePatches();
+
+interface TestState {
+  agents: Record<string, { history: string[]; title: string }>;
+  tabs: Record<string, { url: string }>;
+}
+
+const initialState: TestState = {
+  agents: {
+    a: { history: ['hi'], title: 'A' },
+    b: { history: [], title: 'B' },
+  },
+  tabs: { t1: { url: 'https://example.com' } },
+};
+
+function change(
+  state: TestState,
+  recipe: (draft: TestState) => void,
+): [TestState, Patch[]] {
+  let patches: Patch[] = [];
+  const next = produce(state, recipe, (p) => {
+    patches = p;
+  });
+  return [next, patches];
+}
+
+describe('State subscriptions', () => {
+  describe('normalizeSubscriptions', () => {
+    it('should drop paths covered by a shorter one', () => {
+      expect(
+        normalizeSubscriptions([
+          ['agents', 'a', 'history'],
+          ['agents', 'a'],
+          ['tabs'],
+        ]),
+      ).toEqual([['tabs'], ['agents', 'a']]);
+    });
+
+    it('should treat the root path as the whole state', () => {
+      expect(normalizeSubscriptions([['tabs'], []])).toBeNull();
+      expect(normalizeSubscriptions(null)).toBeNull();
+    });
+  });
+
+  describe('slices', () => {
+    it('should only contain subscribed paths that exist', () => {
+      expect(
+        getStateSlices(initialState, [['agents', 'a'], ['agents', 'missing']]),
+      ).toEqual([{ path: ['agents', 'a'], value: initialState.agents.a }]);
+    });
+
+    it('should apply slices on top of a fallback state', () => {
+      const fallback = { agents: {}, tabs: {} };
+      const state = applyStateSlices(fallback, [
+        { path: ['agents', 'a'], value: initialState.agents.a },
+      ]);
+      expect(state).toEqual({ agents: { a: initialState.agents.a }, tabs: {} });
+      expect(fallback).toEqual({ agents: {}, tabs: {} });
+    });
+  });
+
+  describe('filterPatchesForSubscriptions', () => {
+    const paths = [['agents', 'a']];
+
+    it('should pass through patches below a subscribed path', () => {
+      const [next, patches] = change(initialState, (draft) => {
+        draft.agents.a!.history.push('how are you');
+      });
+      expect(filterPatchesForSubscriptions(patches, paths, next)).toEqual(
+        patches,
+      );
+    });
+
+    it('should drop patches outside the subscribed paths', () => {
+      const [next, patches] = change(initialState, (draft) => {
+        draft.agents.b!.history.push('hello');
+        draft.tabs.t1!.url = 'https://stagewise.io';
+      });
+      expect(filterPatchesForSubscriptions(patches, paths, next)).toEqual([]);
+    });
+
+    it('should replace the subscribed path when an ancestor changes', () => {
+      const [next, patches] = change(initialState, (draft) => {
+        draft.agents = {
+          a: { history: ['fresh'], title: 'A' },
+          c: { history: [], title: 'C' },
+        };
+        draft.agents.a!.history.push('more');
+      });
+
+      const filtered = filterPatchesForSubscriptions(patches, paths, next);
+      expect(filtered).toEqual([
+        {
+          op: 'replace',
+          path: ['agents', 'a'],
+          value: { history: ['fresh', 'more'], title: 'A' },
+        },
+      ]);
+
+      // The client ends up with the same slice as the server
+      const client = applyStateSlices(
+        { agents: {}, tabs: {} },
+        getStateSlices(initialState, paths),
+      );
+      expect(applyPatchesDirect(client, filtered).agents).toEqual({
+        a: next.agents.a,
+      });
+    });
+  });
+});
@@ -4,7 +4,12 @@ import {
   StateManager,
   ClientStateManager
 } from '../../src/shared/state-sync.js';
-import { createStateSyncMessage, createStatePatchMessage } from '../../src/shared/messages.js';
+import {
+  createStateSyncMessage,
+  createStatePatchMessage,
+  createPartialStateSyncMessage
+} from '../../src/shared/messages.js';
+import type { Message } from '../../src/shared/types.js';
 import type { WebSocketMessage } from '../../src/shared/types.js';
 
 // Enable Immer patches
@@ -93,6 +98,70 @@ describe('State Synchronization', () => {
       });
     });
 
+    it('should coalesce patches within a microtask', async () => {
+      const batched = new StateManager(
+        { counter: 0, users: [] as string[] },
+        mockBroadcast,
+        'microtask'
+      );
+
+      batched.setState((draft) => {
+        draft.counter = 1;
+      });
+      batched.setState((draft) => {
+        draft.users.push('Alice');
+      });
+      expect(mockBroadcast).not.toHaveBeenCalled();
+
+      await Promise.resolve();
+
+      expect(mockBroadcast).toHaveBeenCalledTimes(1);
+      expect((mockBroadcast.mock.calls[0][0] as WebSocketMessage).data).toEqual({
+        patch: [
+          { op: 'replace', path: ['counter'], value: 1 },
+          { op: 'add', path: ['users', 0], value: 'Alice' }
+        ]
+      });
+    });
+
+    it('should coalesce patches within a frame', () => {
+      vi.useFakeTimers();
+      try {
+        const batched = new StateManager({ counter: 0 }, mockBroadcast, 'frame');
+        for (let i = 1; i <= 5; i++) {
+          batched.setState((draft) => {
+            draft.counter = i;
+          });
+        }
+        expect(mockBroadcast).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(16);
+        expect(mockBroadcast).toHaveBeenCalledTimes(1);
+        expect((mockBroadcast.mock.calls[0][0] as WebSocketMessage).data).toEqual({
+          patch: [1, 2, 3, 4, 5].map((value) => ({
+            op: 'replace',
+            path: ['counter'],
+            value
+          }))
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should flush pending patches before building a sync message', async () => {
+      const batched = new StateManager({ counter: 0 }, mockBroadcast, 'microtask');
+      batched.setState((draft) => {
+        draft.counter = 1;
+      });
+
+      batched.getFullStateSyncMessage();
+      expect(mockBroadcast).toHaveBeenCalledTimes(1);
+
+      await Promise.resolve();
+      expect(mockBroadcast).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle nested state structures', () => {
       interface NestedState {
         level1: {
@@ -149,6 +218,22 @@ describe('State Synchronization', () => {
       });
     });
 
+    it('should apply scoped state sync on top of the fallback state', () => {
+      clientManager.handleMessage(createStateSyncMessage({
+        counter: 42,
+        users: ['Alice', 'Bob']
+      }));
+
+      clientManager.handleMessage(createPartialStateSyncMessage([
+        { path: ['users'], value: ['Carol'] }
+      ]));
+
+      expect(clientManager.getState()).toEqual({
+        counter: 0,
+        users: ['Carol']
+      });
+    });
+
     it('should apply state patches', () => {
       // First set initial state
       clientManager.handleMessage(createStateSyncMessage({
@@ -263,4 +348,61 @@ describe('State Synchronization', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Patch sequence numbers', () => {
+    let clientManager: ClientStateManager<{ counter: number }>;
+    let requestResync: ReturnType<typeof vi.fn>;
+
+    const sync = (counter: number, seq: number): Message => ({
+      type: 'state_sync',
+      data: { state: { counter }, seq }
+    });
+    const patch = (counter: number, seq: number): Message => ({
+      type: 'state_patch',
+      data: { patch: [{ op: 'replace', path: ['counter'], value: counter }], seq }
+    });
+
+    beforeEach(() => {
+      requestResync = vi.fn();
+      clientManager = new ClientStateManager({ counter: 0 }, requestResync);
+      clientManager.handleMessage(sync(10, 4));
+    });
+
+    it('should apply consecutive patches', () => {
+      clientManager.handleMessage(patch(11, 5));
+      clientManager.handleMessage(patch(12, 6));
+
+      expect(clientManager.getState()).toEqual({ counter: 12 });
+      expect(requestResync).not.toHaveBeenCalled();
+    });
+
+    it('should request a resync and hold patches back after a gap', () => {
+      clientManager.handleMessage(patch(12, 6));
+      clientManager.handleMessage(patch(13, 7));
+
+      expect(clientManager.getState()).toEqual({ counter: 10 });
+      expect(requestResync).toHaveBeenCalledTimes(1);
+      expect(requestResync).toHaveBeenCalledWith(4);
+
+      clientManager.handleMessage(sync(13, 7));
+      clientManager.handleMessage(patch(14, 8));
+      expect(clientManager.getState()).toEqual({ counter: 14 });
+    });
+
+    it('should ignore patches it already applied', () => {
+      clientManager.handleMessage(patch(11, 5));
+      clientManager.handleMessage(patch(11, 5));
+
+      expect(clientManager.getState()).toEqual({ counter: 11 });
+      expect(requestResync).not.toHaveBeenCalled();
+    });
+
+    it('should apply unnumbered patches as they come', () => {
+      clientManager.handleMessage(createStatePatchMessage([
+        { op: 'replace', path: ['counter'], value: 99 }
+      ]));
+
+      expect(clientManager.getState()).toEqual({ counter: 99 });
+    });
+  });
+});
@@ -3,11 +3,21 @@ import {
   createRPCCallMessage,
   createRPCReturnMessage,
   createRPCExceptionMessage,
+  createRPCStreamStartMessage,
+  createRPCStreamItemMessage,
+  createRPCStreamEndMessage,
+  createRPCStreamPullMessage,
+  createRPCStreamCancelMessage,
   createStateSyncMessage,
   createStatePatchMessage,
   isRPCCallMessage,
   isRPCReturnMessage,
   isRPCExceptionMessage,
+  isRPCStreamStartMessage,
+  isRPCStreamItemMessage,
+  isRPCStreamEndMessage,
+  isRPCStreamPullMessage,
+  isRPCStreamCancelMessage,
   isStateSyncMessage,
   isStatePatchMessage
 } from '../../src/shared/messages.js';
@@ -51,6 +61,29 @@ describe('WebSocket Messages', () => {
       expect(data.error.name).toBe('Error');
     });
 
+    it('should create RPC stream messages', () => {
+      expect(createRPCStreamStartMessage('call-123')).toEqual({
+        type: 'rpc_stream_start',
+        data: { rpcCallId: 'call-123' }
+      });
+      expect(createRPCStreamItemMessage('call-123', 'line')).toEqual({
+        type: 'rpc_stream_item',
+        data: { rpcCallId: 'call-123', value: 'line' }
+      });
+      expect(createRPCStreamEndMessage('call-123')).toEqual({
+        type: 'rpc_stream_end',
+        data: { rpcCallId: 'call-123' }
+      });
+      expect(createRPCStreamPullMessage('call-123', 16)).toEqual({
+        type: 'rpc_stream_pull',
+        data: { rpcCallId: 'call-123', count: 16 }
+      });
+      expect(createRPCStreamCancelMessage('call-123')).toEqual({
+        type: 'rpc_stream_cancel',
+        data: { rpcCallId: 'call-123' }
+      });
+    });
+
     it('should create state sync message', () => {
       const state = { counter: 0, users: [] };
       const message = createStateSyncMessage(state);
@@ -95,6 +128,21 @@ describe('WebSocket Messages', () => {
       expect(isRPCExceptionMessage(otherMessage)).toBe(false);
     });
 
+    it('should identify RPC stream messages', () => {
+      const otherMessage = createRPCReturnMessage('id', null);
+
+      expect(isRPCStreamStartMessage(createRPCStreamStartMessage('id'))).toBe(true);
+      expect(isRPCStreamItemMessage(createRPCStreamItemMessage('id', 1))).toBe(true);
+      expect(isRPCStreamEndMessage(createRPCStreamEndMessage('id'))).toBe(true);
+      expect(isRPCStreamPullMessage(createRPCStreamPullMessage('id', 1))).toBe(true);
+      expect(isRPCStreamCancelMessage(createRPCStreamCancelMessage('id'))).toBe(true);
+      expect(isRPCStreamStartMessage(otherMessage)).toBe(false);
+      expect(isRPCStreamItemMessage(otherMessage)).toBe(false);
+      expect(isRPCStreamEndMessage(otherMessage)).toBe(false);
+      expect(isRPCStreamPullMessage(otherMessage)).toBe(false);
+      expect(isRPCStreamCancelMessage(otherMessage)).toBe(false);
+    });
+
     it('should identify state sync messages', () => {
       const syncMessage = createStateSyncMessage({});
       const otherMessage = createRPCReturnMessage('id', null);